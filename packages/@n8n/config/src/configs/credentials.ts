@@ -14,6 +14,28 @@ class CredentialsOverwrite {
 	endpoint = '';
 }
 
+@Config
+class CredentialsExpiry {
+	/** How many days before their expiry to announce expiring credentials and rotate them */
+	@Env('CREDENTIALS_EXPIRY_WARNING_DAYS')
+	warningDays: number = 14;
+
+	/** How often (in minutes) to check for expiring credentials */
+	@Env('CREDENTIALS_EXPIRY_CHECK_INTERVAL')
+	checkInterval: number = 60;
+}
+
+@Config
+class CredentialsHealthCheck {
+	/** Whether to periodically test credentials that support testing */
+	@Env('CREDENTIALS_HEALTH_CHECK_ENABLED')
+	enabled: boolean = true;
+
+	/** How often (in minutes) to test credentials */
+	@Env('CREDENTIALS_HEALTH_CHECK_INTERVAL')
+	interval: number = 360;
+}
+
 @Config
 export class CredentialsConfig {
 	/** Default name for credentials */
@@ -22,4 +44,10 @@ export class CredentialsConfig {
 
 	@Nested
 	overwrite: CredentialsOverwrite;
+
+	@Nested
+	expiry: CredentialsExpiry;
+
+	@Nested
+	healthCheck: CredentialsHealthCheck;
 }
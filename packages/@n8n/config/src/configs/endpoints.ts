@@ -18,6 +18,10 @@ class PrometheusMetricsConfig {
 	@Env('N8N_METRICS_INCLUDE_WORKFLOW_ID_LABEL')
 	includeWorkflowIdLabel = false;
 
+	/** Whether to include a label for workflow name on workflow metrics. */
+	@Env('N8N_METRICS_INCLUDE_WORKFLOW_NAME_LABEL')
+	includeWorkflowNameLabel = false;
+
 	/** Whether to include a label for node type on node metrics. */
 	@Env('N8N_METRICS_INCLUDE_NODE_TYPE_LABEL')
 	includeNodeTypeLabel = false;
@@ -49,6 +53,14 @@ class PrometheusMetricsConfig {
 	/** Whether to include metrics derived from n8n's internal events */
 	@Env('N8N_METRICS_INCLUDE_MESSAGE_EVENT_BUS_METRICS')
 	includeMessageEventBusMetrics = false;
+
+	/** Whether to include histograms of workflow and node execution durations. */
+	@Env('N8N_METRICS_INCLUDE_EXECUTION_DURATION_METRICS')
+	includeExecutionDurationMetrics = false;
+
+	/** Whether to include gauges for active, enqueued and waiting executions and queue mode jobs. */
+	@Env('N8N_METRICS_INCLUDE_QUEUE_METRICS')
+	includeQueueMetrics = false;
 }
 
 @Config
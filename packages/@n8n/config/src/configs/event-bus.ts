@@ -25,6 +25,10 @@ export class EventBusConfig {
 	@Nested
 	logWriter: LogWriterConfig;
 
+	/** Folder that file log streaming destinations write to. Defaults to `log-streaming` in the n8n user folder */
+	@Env('N8N_EVENTBUS_FILE_DESTINATIONS_FOLDER')
+	fileDestinationsFolder = '';
+
 	/** Whether to recover execution details after a crash or only mark status executions as crashed. */
 	@Env('N8N_EVENTBUS_RECOVERY_MODE')
 	crashRecoveryMode: 'simple' | 'extensive' = 'extensive';
@@ -9,4 +9,8 @@ export class ExternalSecretsConfig {
 	/** Whether to prefer GET over LIST when fetching secrets from Hashicorp Vault */
 	@Env('N8N_EXTERNAL_SECRETS_PREFER_GET')
 	preferGet = false;
+
+	/** Directories the local files provider can read secrets from, separated by `;`. None if unspecified */
+	@Env('N8N_EXTERNAL_SECRETS_LOCAL_FILES_ALLOWED_PATHS')
+	localFilesAllowedPaths = '';
 }
@@ -13,4 +13,8 @@ export class PublicApiConfig {
 	/** Whether to disable the Swagger UI for the Public API */
 	@Env('N8N_PUBLIC_API_SWAGGERUI_DISABLED')
 	swaggerUiDisabled = false;
+
+	/** Maximum number of seconds a synchronous workflow run waits for the execution to finish */
+	@Env('N8N_PUBLIC_API_RUN_TIMEOUT')
+	runTimeout = 300;
 }
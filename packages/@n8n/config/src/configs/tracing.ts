@@ -0,0 +1,24 @@
+import { Config, Env } from '../decorators';
+
+@Config
+export class TracingConfig {
+	/** Whether to export traces of webhook requests, queued jobs, node runs and outbound HTTP requests */
+	@Env('N8N_TRACING_ENABLED')
+	enabled: boolean = false;
+
+	/** Base URL of the OpenTelemetry collector to export traces to over OTLP/HTTP */
+	@Env('N8N_TRACING_OTLP_ENDPOINT')
+	otlpEndpoint: string = 'http://localhost:4318';
+
+	/** Headers to send with every export, as comma-separated `key=value` pairs, e.g. for authentication */
+	@Env('N8N_TRACING_OTLP_HEADERS')
+	otlpHeaders: string = '';
+
+	/** Name of this service in exported traces */
+	@Env('N8N_TRACING_SERVICE_NAME')
+	serviceName: string = 'n8n';
+
+	/** How often (in milliseconds) to export finished spans */
+	@Env('N8N_TRACING_FLUSH_INTERVAL')
+	flushInterval: number = 5000;
+}
@@ -67,6 +67,14 @@ describe('GlobalConfig', () => {
 				data: '{}',
 				endpoint: '',
 			},
+			expiry: {
+				warningDays: 14,
+				checkInterval: 60,
+			},
+			healthCheck: {
+				enabled: true,
+				interval: 360,
+			},
 		},
 		userManagement: {
 			emails: {
@@ -95,6 +103,7 @@ describe('GlobalConfig', () => {
 		eventBus: {
 			checkUnsentInterval: 0,
 			crashRecoveryMode: 'extensive',
+			fileDestinationsFolder: '',
 			logWriter: {
 				keepLogCount: 3,
 				logBaseName: 'n8nEventLog',
@@ -103,6 +112,7 @@ describe('GlobalConfig', () => {
 		},
 		externalSecrets: {
 			preferGet: false,
+			localFilesAllowedPaths: '',
 			updateInterval: 300,
 		},
 		nodes: {
@@ -117,6 +127,7 @@ describe('GlobalConfig', () => {
 			disabled: false,
 			path: 'api',
 			swaggerUiDisabled: false,
+			runTimeout: 300,
 		},
 		templates: {
 			enabled: true,
@@ -159,6 +170,9 @@ describe('GlobalConfig', () => {
 				includeApiMethodLabel: false,
 				includeCredentialTypeLabel: false,
 				includeApiStatusCodeLabel: false,
+				includeWorkflowNameLabel: false,
+				includeExecutionDurationMetrics: false,
+				includeQueueMetrics: false,
 			},
 			additionalNonUIRoutes: '',
 			disableProductionWebhooksOnMainProcess: false,
@@ -183,6 +197,13 @@ describe('GlobalConfig', () => {
 				ttl: 3600000,
 			},
 		},
+		tracing: {
+			enabled: false,
+			otlpEndpoint: 'http://localhost:4318',
+			otlpHeaders: '',
+			serviceName: 'n8n',
+			flushInterval: 5000,
+		},
 	};
 
 	it('should use all default values when no env variables are defined', () => {
@@ -10,9 +10,11 @@ export type Resource =
 	| 'ldap'
 	| 'license'
 	| 'logStreaming'
+	| 'oidc'
 	| 'orchestration'
 	| 'project'
 	| 'saml'
+	| 'scim'
 	| 'securityAudit'
 	| 'sourceControl'
 	| 'tag'
@@ -47,9 +49,11 @@ export type EventBusDestinationScope = ResourceScope<
 export type LdapScope = ResourceScope<'ldap', 'manage' | 'sync'>;
 export type LicenseScope = ResourceScope<'license', 'manage'>;
 export type LogStreamingScope = ResourceScope<'logStreaming', 'manage'>;
+export type OidcScope = ResourceScope<'oidc', 'manage'>;
 export type OrchestrationScope = ResourceScope<'orchestration', 'read' | 'list'>;
 export type ProjectScope = ResourceScope<'project'>;
 export type SamlScope = ResourceScope<'saml', 'manage'>;
+export type ScimScope = ResourceScope<'scim', 'manage'>;
 export type SecurityAuditScope = ResourceScope<'securityAudit', 'generate'>;
 export type SourceControlScope = ResourceScope<'sourceControl', 'pull' | 'push' | 'manage'>;
 export type TagScope = ResourceScope<'tag'>;
@@ -72,9 +76,11 @@ export type Scope =
 	| LdapScope
 	| LicenseScope
 	| LogStreamingScope
+	| OidcScope
 	| OrchestrationScope
 	| ProjectScope
 	| SamlScope
+	| ScimScope
 	| SecurityAuditScope
 	| SourceControlScope
 	| TagScope
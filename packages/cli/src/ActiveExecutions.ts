@@ -25,7 +25,6 @@ import { isWorkflowIdValid } from '@/utils';
 import { ExecutionRepository } from '@db/repositories/execution.repository';
 import { Logger } from '@/Logger';
 import { ConcurrencyControlService } from './concurrency/concurrency-control.service';
-import config from './config';
 
 @Service()
 export class ActiveExecutions {
@@ -77,12 +76,20 @@ export class ActiveExecutions {
 			executionId = await this.executionRepository.createNewExecution(fullExecutionData);
 			assert(executionId);
 
-			await this.concurrencyControl.throttle({ mode, executionId });
+			await this.concurrencyControl.throttle({
+				mode,
+				executionId,
+				workflow: executionData.workflowData,
+			});
 			executionStatus = 'running';
 		} else {
 			// Is an existing execution we want to finish so update in DB
 
-			await this.concurrencyControl.throttle({ mode, executionId });
+			await this.concurrencyControl.throttle({
+				mode,
+				executionId,
+				workflow: executionData.workflowData,
+			});
 
 			const execution: Pick<IExecutionDb, 'id' | 'data' | 'waitTill' | 'status'> = {
 				id: executionId,
@@ -175,7 +182,7 @@ export class ActiveExecutions {
 		// Remove from the list of active executions
 		delete this.activeExecutions[executionId];
 
-		this.concurrencyControl.release({ mode: execution.executionData.executionMode });
+		this.concurrencyControl.release({ mode: execution.executionData.executionMode, executionId });
 	}
 
 	/**
@@ -223,16 +230,12 @@ export class ActiveExecutions {
 	async shutdown(cancelAll = false) {
 		let executionIds = Object.keys(this.activeExecutions);
 
-		if (config.getEnv('executions.mode') === 'regular') {
-			// removal of active executions will no longer release capacity back,
-			// so that throttled executions cannot resume during shutdown
-			this.concurrencyControl.disable();
-		}
+		// removal of active executions will no longer release capacity back,
+		// so that throttled executions cannot resume during shutdown
+		this.concurrencyControl.disable();
 
 		if (cancelAll) {
-			if (config.getEnv('executions.mode') === 'regular') {
-				await this.concurrencyControl.removeAll(this.activeExecutions);
-			}
+			await this.concurrencyControl.removeAll(this.activeExecutions);
 
 			executionIds.forEach((executionId) => this.stopExecution(executionId));
 		}
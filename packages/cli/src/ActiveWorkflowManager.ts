@@ -49,6 +49,7 @@ import { ActiveWorkflowsService } from '@/services/activeWorkflows.service';
 import { WorkflowExecutionService } from '@/workflows/workflowExecution.service';
 import { WorkflowStaticDataService } from '@/workflows/workflowStaticData.service';
 import { OnShutdown } from '@/decorators/OnShutdown';
+import { TriggerPolicyService } from '@/triggers/trigger-policy.service';
 
 interface QueuedActivation {
 	activationMode: WorkflowActivateMode;
@@ -75,6 +76,7 @@ export class ActiveWorkflowManager {
 		private readonly workflowStaticDataService: WorkflowStaticDataService,
 		private readonly activeWorkflowsService: ActiveWorkflowsService,
 		private readonly workflowExecutionService: WorkflowExecutionService,
+		private readonly triggerPolicyService: TriggerPolicyService,
 	) {}
 
 	async init() {
@@ -286,6 +288,15 @@ export class ActiveWorkflowManager {
 			): void => {
 				this.logger.debug(`Received event to trigger execution for workflow "${workflow.name}"`);
 				void this.workflowStaticDataService.saveStaticData(workflow);
+
+				if (
+					!responsePromise &&
+					!donePromise &&
+					this.submitToTriggerPolicy(workflow, workflowData, node, data, additionalData, mode)
+				) {
+					return;
+				}
+
 				const executePromise = this.workflowExecutionService.runWorkflow(
 					workflowData,
 					node,
@@ -344,6 +355,14 @@ export class ActiveWorkflowManager {
 				this.logger.debug(`Received trigger for workflow "${workflow.name}"`);
 				void this.workflowStaticDataService.saveStaticData(workflow);
 
+				if (
+					!responsePromise &&
+					!donePromise &&
+					this.submitToTriggerPolicy(workflow, workflowData, node, data, additionalData, mode)
+				) {
+					return;
+				}
+
 				const executePromise = this.workflowExecutionService.runWorkflow(
 					workflowData,
 					node,
@@ -393,6 +412,35 @@ export class ActiveWorkflowManager {
 		};
 	}
 
+	/**
+	 * Hand over the output of a trigger or poll event to the trigger policy of the node,
+	 * if it has one. Returns whether the event was taken over by the policy.
+	 */
+	private submitToTriggerPolicy(
+		workflow: Workflow,
+		workflowData: IWorkflowDb,
+		node: INode,
+		data: INodeExecutionData[][],
+		additionalData: IWorkflowExecuteAdditionalData,
+		mode: WorkflowExecuteMode,
+	) {
+		if (!this.triggerPolicyService.appliesTo(node, mode)) return false;
+
+		this.triggerPolicyService.submit(
+			{ workflow, node, data, mode },
+			async (batch) =>
+				await this.workflowExecutionService.runWorkflow(
+					workflowData,
+					node,
+					batch,
+					additionalData,
+					mode,
+				),
+		);
+
+		return true;
+	}
+
 	executeErrorWorkflow(
 		error: ExecutionError,
 		workflowData: IWorkflowBase,
@@ -40,6 +40,8 @@ import { CredentialNotFoundError } from './errors/credential-not-found.error';
 // eslint-disable-next-line n8n-local-rules/misplaced-n8n-typeorm-import
 import { In } from '@n8n/typeorm';
 import { CacheService } from './services/cache/cache.service';
+import { getSecretReferences } from './ExternalSecrets/externalSecretsHelper.ee';
+import { CredentialExpiryService } from './credentials/credential-expiry.service';
 
 const mockNode = {
 	name: '',
@@ -83,6 +85,7 @@ export class CredentialsHelper extends ICredentialsHelper {
 		private readonly credentialsRepository: CredentialsRepository,
 		private readonly sharedCredentialsRepository: SharedCredentialsRepository,
 		private readonly cacheService: CacheService,
+		private readonly credentialExpiryService: CredentialExpiryService,
 	) {
 		super();
 	}
@@ -335,6 +338,14 @@ export class CredentialsHelper extends ICredentialsHelper {
 
 		const canUseSecrets = await this.credentialCanUseExternalSecrets(nodeCredentials);
 
+		if (canUseSecrets) {
+			// dynamic secrets are issued per execution, right before the credential is used
+			await additionalData?.secretsHelpers?.leaseSecrets(
+				additionalData.executionId ?? '',
+				getSecretReferences(decryptedDataOriginal),
+			);
+		}
+
 		return this.applyDefaultsAndOverwrites(
 			additionalData,
 			decryptedDataOriginal,
@@ -450,6 +461,13 @@ export class CredentialsHelper extends ICredentialsHelper {
 		};
 
 		await this.credentialsRepository.update(findQuery, newCredentialsData);
+
+		if (data.oauthTokenData) {
+			await this.credentialExpiryService.updateOAuthExpiry(
+				credentials.id!,
+				data.oauthTokenData as IDataObject,
+			);
+		}
 	}
 
 	async credentialCanUseExternalSecrets(nodeCredential: INodeCredentialsDetails): Promise<boolean> {
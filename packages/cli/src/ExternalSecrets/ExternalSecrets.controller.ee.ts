@@ -4,10 +4,14 @@ import { Response } from 'express';
 import { ExternalSecretsService } from './ExternalSecrets.service.ee';
 import { ExternalSecretsProviderNotFoundError } from '@/errors/external-secrets-provider-not-found.error';
 import { NotFoundError } from '@/errors/response-errors/not-found.error';
+import { SecretUsageService } from '@/services/secret-usage.service';
 
 @RestController('/external-secrets')
 export class ExternalSecretsController {
-	constructor(private readonly secretsService: ExternalSecretsService) {}
+	constructor(
+		private readonly secretsService: ExternalSecretsService,
+		private readonly secretUsageService: SecretUsageService,
+	) {}
 
 	@Get('/providers')
 	@GlobalScope('externalSecretsProvider:list')
@@ -104,4 +108,10 @@ export class ExternalSecretsController {
 	getSecretNames() {
 		return this.secretsService.getAllSecrets();
 	}
+
+	@Get('/secrets/usage')
+	@GlobalScope('externalSecret:list')
+	async getSecretsUsage() {
+		return await this.secretUsageService.getUsage('externalSecret');
+	}
 }
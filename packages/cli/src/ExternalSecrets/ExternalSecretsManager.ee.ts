@@ -10,7 +10,7 @@ import Container, { Service } from 'typedi';
 
 import { Logger } from '@/Logger';
 
-import { jsonParse, type IDataObject, ApplicationError } from 'n8n-workflow';
+import { jsonParse, type IDataObject, type SecretReference, ApplicationError } from 'n8n-workflow';
 import { EXTERNAL_SECRETS_INITIAL_BACKOFF, EXTERNAL_SECRETS_MAX_BACKOFF } from './constants';
 import { License } from '@/License';
 import { EventService } from '@/events/event.service';
@@ -205,8 +205,39 @@ export class ExternalSecretsManager {
 		return Object.keys(this.providers);
 	}
 
-	getSecret(provider: string, name: string) {
-		return this.getProvider(provider)?.getSecret(name);
+	getSecret(provider: string, name: string, leaseScope?: string) {
+		return this.getProvider(provider)?.getSecret(name, leaseScope);
+	}
+
+	/**
+	 * Lease the dynamic secrets among the references, so that they resolve for the
+	 * given scope, usually an execution, until `releaseSecrets` is called for it.
+	 */
+	async leaseSecrets(leaseScope: string, references: SecretReference[]) {
+		if (!this.license.isExternalSecretsEnabled()) {
+			return;
+		}
+		for (const { provider: providerName, name } of references) {
+			const provider = this.getProvider(providerName);
+			if (provider?.state !== 'connected' || !provider.isDynamicSecret?.(name)) {
+				continue;
+			}
+			await provider.leaseSecret?.(name, leaseScope);
+		}
+	}
+
+	async releaseSecrets(leaseScope: string) {
+		await Promise.allSettled(
+			Object.values(this.providers).map(async (provider) => {
+				try {
+					await provider.releaseSecrets?.(leaseScope);
+				} catch {
+					this.logger.warn(
+						`Error releasing secrets of secrets provider ${provider.displayName} (${provider.name}).`,
+					);
+				}
+			}),
+		);
 	}
 
 	hasSecret(provider: string, name: string): boolean {
@@ -5,6 +5,7 @@ import { VaultProvider } from './providers/vault';
 import { AwsSecretsManager } from './providers/aws-secrets/aws-secrets-manager';
 import { AzureKeyVault } from './providers/azure-key-vault/azure-key-vault';
 import { GcpSecretsManager } from './providers/gcp-secrets-manager/gcp-secrets-manager';
+import { LocalFilesProvider } from './providers/local-files/local-files';
 
 @Service()
 export class ExternalSecretsProviders {
@@ -14,6 +15,7 @@ export class ExternalSecretsProviders {
 		vault: VaultProvider,
 		azureKeyVault: AzureKeyVault,
 		gcpSecretsManager: GcpSecretsManager,
+		localFiles: LocalFilesProvider,
 	};
 
 	getProvider(name: string): { new (): SecretsProvider } | null {
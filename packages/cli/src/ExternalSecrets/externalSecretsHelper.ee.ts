@@ -1,5 +1,6 @@
 import { License } from '@/License';
 import { GlobalConfig } from '@n8n/config';
+import type { SecretReference } from 'n8n-workflow';
 import Container from 'typedi';
 
 export const updateIntervalTime = () =>
@@ -10,3 +11,24 @@ export function isExternalSecretsEnabled() {
 	const license = Container.get(License);
 	return license.isExternalSecretsEnabled();
 }
+
+const SECRET_REFERENCE_REGEX =
+	/\$secrets(?:\.([\w-]+)|\[['"]([\w-]+)['"]\])(?:\.([\w-]+)|\[['"]([\w-]+)['"]\])/g;
+
+/** Find the `$secrets.<provider>.<name>` references in the string values of an object */
+export function getSecretReferences(data: unknown): SecretReference[] {
+	const references = new Map<string, SecretReference>();
+	const collect = (value: unknown) => {
+		if (typeof value === 'string') {
+			for (const match of value.matchAll(SECRET_REFERENCE_REGEX)) {
+				const provider = match[1] ?? match[2];
+				const name = match[3] ?? match[4];
+				references.set(`${provider}.${name}`, { provider, name });
+			}
+		} else if (typeof value === 'object' && value !== null) {
+			Object.values(value).forEach(collect);
+		}
+	};
+	collect(data);
+	return [...references.values()];
+}
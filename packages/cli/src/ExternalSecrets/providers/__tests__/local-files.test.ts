@@ -0,0 +1,151 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { mock } from 'jest-mock-extended';
+import { Container } from 'typedi';
+import { GlobalConfig } from '@n8n/config';
+import type { Logger } from '@/Logger';
+import { LocalFilesProvider } from '../local-files/local-files';
+import type { LocalFilesContext } from '../local-files/types';
+
+describe('LocalFilesProvider', () => {
+	const { externalSecrets } = Container.get(GlobalConfig);
+
+	let folder: string;
+	let otherFolder: string;
+	let provider: LocalFilesProvider;
+
+	const init = async (settings: Partial<LocalFilesContext['settings']>) => {
+		provider = new LocalFilesProvider(mock<Logger>());
+		await provider.init({
+			connected: true,
+			connectedAt: new Date(),
+			settings: { source: 'directory', watch: false, ...settings },
+		} as LocalFilesContext);
+		await provider.connect();
+	};
+
+	beforeEach(async () => {
+		folder = await mkdtemp(path.join(tmpdir(), 'n8n-local-secrets-'));
+		otherFolder = await mkdtemp(path.join(tmpdir(), 'n8n-other-files-'));
+		externalSecrets.localFilesAllowedPaths = `/run/secrets;${folder}`;
+	});
+
+	afterEach(async () => {
+		await provider?.disconnect();
+		await rm(folder, { recursive: true, force: true });
+		await rm(otherFolder, { recursive: true, force: true });
+	});
+
+	it('should read one secret per file of a directory', async () => {
+		/**
+		 * Arrange
+		 */
+		// laid out like a Kubernetes secret volume
+		await mkdir(path.join(folder, '..2024_01_01'));
+		await writeFile(path.join(folder, '..2024_01_01', 'api-key'), 'key-value\n');
+		await symlink(path.join(folder, '..2024_01_01'), path.join(folder, '..data'));
+		await symlink(path.join(folder, '..data', 'api-key'), path.join(folder, 'api-key'));
+		await writeFile(path.join(folder, 'tls.crt'), 'unsupported name');
+		await mkdir(path.join(folder, 'postgres'));
+		await writeFile(path.join(folder, 'postgres', 'password'), 'pg-password');
+
+		/**
+		 * Act
+		 */
+		await init({ directoryPath: folder });
+		await provider.update();
+
+		/**
+		 * Assert
+		 */
+		expect(provider.state).toBe('connected');
+		expect(provider.getSecret('api-key')).toBe('key-value');
+		expect(provider.getSecret('postgres')).toEqual({ password: 'pg-password' });
+		expect(provider.hasSecret('tls.crt')).toBe(false);
+		expect(provider.getSecretNames().sort()).toEqual(['api-key', 'postgres.password']);
+	});
+
+	it('should read secrets from a dotenv file', async () => {
+		const dotenvPath = path.join(folder, 'secrets.env');
+		await writeFile(dotenvPath, 'API_KEY=key-value\n# comment\nDB_PASSWORD="pg password"\n');
+
+		await init({ source: 'dotenv', dotenvPath });
+		await provider.update();
+
+		expect(provider.getSecretNames()).toEqual(['API_KEY', 'DB_PASSWORD']);
+		expect(provider.getSecret('DB_PASSWORD')).toBe('pg password');
+	});
+
+	it('should reload the secrets when the files change', async () => {
+		await writeFile(path.join(folder, 'token'), 'old');
+		await init({ directoryPath: folder, watch: true });
+		await provider.update();
+
+		await new Promise((resolve) => setTimeout(resolve, 200));
+		await writeFile(path.join(folder, 'token'), 'new');
+
+		const start = Date.now();
+		while (provider.getSecret('token') !== 'new' && Date.now() - start < 5000) {
+			await new Promise((resolve) => setTimeout(resolve, 50));
+		}
+		expect(provider.getSecret('token')).toBe('new');
+	});
+
+	it('should not connect to relative paths or paths outside of the allowed directories', async () => {
+		await init({ directoryPath: 'secrets' });
+		expect(provider.state).toBe('error');
+
+		await init({ directoryPath: otherFolder });
+		expect(await provider.test()).toEqual([
+			false,
+			'Secrets can only be read from the directories in N8N_EXTERNAL_SECRETS_LOCAL_FILES_ALLOWED_PATHS.',
+		]);
+
+		await init({ directoryPath: path.join(folder, '..', path.basename(otherFolder)) });
+		expect(provider.state).toBe('error');
+	});
+
+	it('should not connect without allowed directories', async () => {
+		externalSecrets.localFilesAllowedPaths = '';
+
+		await init({ directoryPath: folder });
+
+		expect(await provider.test()).toEqual([
+			false,
+			'Set N8N_EXTERNAL_SECRETS_LOCAL_FILES_ALLOWED_PATHS to the directories to read secrets from.',
+		]);
+	});
+
+	it('should not follow links out of the allowed directories', async () => {
+		await writeFile(path.join(otherFolder, 'secrets.env'), 'API_KEY=key-value\n');
+		await writeFile(path.join(otherFolder, 'token'), 'outside');
+		await symlink(path.join(otherFolder, 'secrets.env'), path.join(folder, 'secrets.env'));
+		await symlink(path.join(otherFolder, 'token'), path.join(folder, 'token'));
+		await symlink(otherFolder, path.join(folder, 'other'));
+		await writeFile(path.join(folder, 'inside'), 'inside');
+
+		await init({ source: 'dotenv', dotenvPath: path.join(folder, 'secrets.env') });
+		expect(provider.state).toBe('error');
+
+		await init({ directoryPath: folder });
+		await provider.update();
+		expect(provider.getSecretNames()).toEqual(['inside']);
+	});
+
+	it('should skip files larger than the max size of secrets', async () => {
+		await writeFile(path.join(folder, 'large'), 'x'.repeat(1024 * 1024 + 1));
+		await writeFile(path.join(folder, 'small'), 'x');
+
+		await init({ directoryPath: folder });
+		await provider.update();
+
+		expect(provider.getSecretNames()).toEqual(['small']);
+	});
+
+	it('should fail to connect to a missing directory', async () => {
+		await init({ directoryPath: path.join(folder, 'missing') });
+
+		expect(provider.state).toBe('error');
+	});
+});
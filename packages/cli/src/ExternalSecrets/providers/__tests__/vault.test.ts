@@ -0,0 +1,131 @@
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { mock } from 'jest-mock-extended';
+import type { Logger } from '@/Logger';
+import type { SecretsProviderSettings } from '@/Interfaces';
+import { VaultProvider } from '../vault';
+
+jest.mock('axios');
+
+describe('VaultProvider', () => {
+	const http = {
+		get: jest.fn(),
+		put: jest.fn(),
+		request: jest.fn(),
+		interceptors: { request: { use: jest.fn() } },
+	};
+
+	let vault: VaultProvider;
+
+	const leaseResponse = (leaseId: string, renewable = true) => ({
+		data: {
+			lease_id: leaseId,
+			lease_duration: 60,
+			renewable,
+			data: { username: `user-${leaseId}`, password: 'secret' },
+		},
+	});
+
+	beforeEach(async () => {
+		jest.resetAllMocks();
+		jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+		jest.mocked(axios.create).mockReturnValue(http as unknown as AxiosInstance);
+		http.put.mockResolvedValue({ data: {} });
+
+		vault = new VaultProvider(mock<Logger>());
+		await vault.init({
+			settings: {
+				url: 'http://vault:8200/v1/',
+				authMethod: 'token',
+				token: 'token',
+				dynamicSecrets: 'postgres = database/creds/readonly\naws=/aws/creds/deploy\ninvalid',
+			},
+		} as unknown as SecretsProviderSettings);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should expose the configured dynamic secrets', () => {
+		expect(vault.isDynamicSecret('postgres')).toBe(true);
+		expect(vault.isDynamicSecret('invalid')).toBe(false);
+		expect(vault.hasSecret('aws')).toBe(true);
+		expect(vault.getSecretNames()).toEqual(['postgres', 'aws']);
+	});
+
+	it('should lease a dynamic secret once per scope', async () => {
+		http.get
+			.mockResolvedValueOnce(leaseResponse('lease-1'))
+			.mockResolvedValueOnce(leaseResponse('lease-2'));
+
+		await Promise.all([
+			vault.leaseSecret('postgres', 'execution-1'),
+			vault.leaseSecret('postgres', 'execution-1'),
+		]);
+		await vault.leaseSecret('postgres', 'execution-2');
+
+		expect(http.get).toHaveBeenCalledTimes(2);
+		expect(http.get).toHaveBeenCalledWith('database/creds/readonly');
+		expect(vault.getSecret('postgres', 'execution-1')).toMatchObject({ username: 'user-lease-1' });
+		expect(vault.getSecret('postgres', 'execution-2')).toMatchObject({ username: 'user-lease-2' });
+		expect(vault.getSecret('postgres', 'execution-3')).toEqual({});
+	});
+
+	it('should renew the leases of an execution until they are released', async () => {
+		http.get.mockResolvedValueOnce(leaseResponse('lease-1'));
+		http.put.mockResolvedValue(leaseResponse('lease-1'));
+		await vault.leaseSecret('postgres', 'execution-1');
+
+		await jest.advanceTimersByTimeAsync(30_000);
+		expect(http.put).toHaveBeenCalledWith('sys/leases/renew', {
+			lease_id: 'lease-1',
+			increment: 60,
+		});
+
+		await vault.releaseSecrets('execution-1');
+		expect(http.put).toHaveBeenCalledWith('sys/leases/revoke', { lease_id: 'lease-1' });
+		expect(vault.getSecret('postgres', 'execution-1')).toEqual({});
+
+		http.put.mockClear();
+		await jest.advanceTimersByTimeAsync(60_000);
+		expect(http.put).not.toHaveBeenCalled();
+	});
+
+	it('should revoke a shared lease when replacing it', async () => {
+		http.get
+			.mockResolvedValueOnce(leaseResponse('lease-1', false))
+			.mockResolvedValueOnce(leaseResponse('lease-2', false));
+
+		await vault.leaseSecret('postgres', '');
+		await jest.advanceTimersByTimeAsync(30_000);
+		await vault.leaseSecret('postgres', '');
+
+		expect(http.put).toHaveBeenCalledWith('sys/leases/revoke', { lease_id: 'lease-1' });
+		expect(vault.getSecret('postgres', '')).toMatchObject({ username: 'user-lease-2' });
+	});
+
+	it('should stop renewing the leases of an execution after a day', async () => {
+		http.get.mockResolvedValueOnce(leaseResponse('lease-1'));
+		http.put.mockImplementation(async (url: string) =>
+			url === 'sys/leases/renew' ? leaseResponse('lease-1') : { data: {} },
+		);
+		await vault.leaseSecret('postgres', 'execution-1');
+
+		await jest.advanceTimersByTimeAsync(24 * 60 * 60 * 1000 + 30_000);
+		expect(http.put).toHaveBeenCalledWith('sys/leases/revoke', { lease_id: 'lease-1' });
+		expect(vault.getSecret('postgres', 'execution-1')).toEqual({});
+
+		http.put.mockClear();
+		await jest.advanceTimersByTimeAsync(60_000);
+		expect(http.put).not.toHaveBeenCalled();
+	});
+
+	it('should fail with the name of the secret if Vault refuses the lease', async () => {
+		http.get.mockRejectedValueOnce(new Error('permission denied'));
+
+		await expect(vault.leaseSecret('aws', 'execution-1')).rejects.toThrow(
+			'Failed to lease dynamic secret "aws" from Vault',
+		);
+	});
+});
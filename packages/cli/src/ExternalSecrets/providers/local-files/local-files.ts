@@ -0,0 +1,339 @@
+import { execFile } from 'child_process';
+import { watch, type FSWatcher } from 'fs';
+import { open, readdir, realpath, stat } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { parse } from 'dotenv';
+import { GlobalConfig } from '@n8n/config';
+import { ApplicationError, type INodeProperties } from 'n8n-workflow';
+import { Container } from 'typedi';
+import { DOCS_HELP_NOTICE, EXTERNAL_SECRETS_NAME_REGEX } from '@/ExternalSecrets/constants';
+import type { SecretsProvider, SecretsProviderState } from '@/Interfaces';
+import { Logger } from '@/Logger';
+import type { LocalFilesContext, LocalSecrets } from './types';
+
+const execFileAsync = promisify(execFile);
+
+/** Time to let a change settle, e.g. Kubernetes swapping all files of a secret volume at once */
+const WATCH_DEBOUNCE = 500;
+
+const MAX_SECRET_FILE_SIZE = 1024 * 1024;
+
+const MAX_DIRECTORY_DEPTH = 5;
+
+const ALLOWED_PATHS_ENV = 'N8N_EXTERNAL_SECRETS_LOCAL_FILES_ALLOWED_PATHS';
+
+const ALLOWED_PATHS_HINT = `Must be in one of the directories listed in <code>${ALLOWED_PATHS_ENV}</code>`;
+
+/**
+ * Secrets read from the local file system, for deployments without a reachable secrets store:
+ * either a directory with one file per secret, as Kubernetes secret volumes and Docker secrets
+ * are laid out, or a dotenv file, optionally encrypted with SOPS.
+ */
+export class LocalFilesProvider implements SecretsProvider {
+	name = 'localFiles';
+
+	displayName = 'Local Files';
+
+	state: SecretsProviderState = 'initializing';
+
+	properties: INodeProperties[] = [
+		DOCS_HELP_NOTICE,
+		{
+			displayName: 'Source',
+			name: 'source',
+			type: 'options',
+			options: [
+				{
+					name: 'Directory',
+					value: 'directory',
+					description:
+						'One file per secret, named after the secret, like a Kubernetes secret volume or <code>/run/secrets</code> with Docker. Subdirectories are groups of secrets.',
+				},
+				{
+					name: 'Dotenv File',
+					value: 'dotenv',
+					description: 'A file of <code>NAME=value</code> lines',
+				},
+			],
+			default: 'directory',
+			required: true,
+			noDataExpression: true,
+		},
+		{
+			displayName: 'Directory Path',
+			name: 'directoryPath',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'e.g. /run/secrets',
+			hint: ALLOWED_PATHS_HINT,
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					source: ['directory'],
+				},
+			},
+		},
+		{
+			displayName: 'File Path',
+			name: 'dotenvPath',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'e.g. /etc/n8n/secrets.env',
+			hint: ALLOWED_PATHS_HINT,
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					source: ['dotenv'],
+				},
+			},
+		},
+		{
+			displayName: 'Decrypt with SOPS',
+			name: 'decryptWithSops',
+			type: 'boolean',
+			default: false,
+			hint: 'Requires the <code>sops</code> binary and its decryption keys on every n8n instance',
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					source: ['dotenv'],
+				},
+			},
+		},
+		{
+			displayName: 'Watch for Changes',
+			name: 'watch',
+			type: 'boolean',
+			default: true,
+			hint: 'Reload the secrets as soon as the files change, rather than on the next update interval',
+			noDataExpression: true,
+		},
+	];
+
+	private cachedSecrets: LocalSecrets = {};
+
+	private settings: LocalFilesContext['settings'];
+
+	private watcher?: FSWatcher;
+
+	private watchTimeout?: NodeJS.Timeout;
+
+	constructor(private readonly logger = Container.get(Logger)) {}
+
+	async init(context: LocalFilesContext) {
+		this.settings = context.settings;
+	}
+
+	async test(): Promise<[boolean] | [boolean, string]> {
+		const sourcePath = this.sourcePath;
+		if (!sourcePath || !path.isAbsolute(sourcePath)) {
+			return [false, 'The path must be absolute.'];
+		}
+		try {
+			await this.readSecrets();
+			return [true];
+		} catch (error) {
+			return [false, (error as Error).message];
+		}
+	}
+
+	async connect() {
+		const [wasSuccessful] = await this.test();
+
+		this.state = wasSuccessful ? 'connected' : 'error';
+
+		if (wasSuccessful && this.settings.watch) {
+			this.startWatching();
+		}
+	}
+
+	async disconnect() {
+		clearTimeout(this.watchTimeout);
+		this.watcher?.close();
+		this.watcher = undefined;
+	}
+
+	async update() {
+		this.cachedSecrets = await this.readSecrets();
+	}
+
+	getSecret(name: string) {
+		return this.cachedSecrets[name];
+	}
+
+	hasSecret(name: string) {
+		return name in this.cachedSecrets;
+	}
+
+	getSecretNames() {
+		const getKeys = ([name, value]: [string, string | LocalSecrets]): string[] =>
+			typeof value === 'string'
+				? [name]
+				: Object.entries(value)
+						.flatMap(getKeys)
+						.map((key) => `${name}.${key}`);
+
+		return Object.entries(this.cachedSecrets).flatMap(getKeys);
+	}
+
+	private get sourcePath() {
+		return this.settings.source === 'dotenv'
+			? this.settings.dotenvPath
+			: this.settings.directoryPath;
+	}
+
+	/** Real paths of the directories secrets can be read from */
+	private async getAllowedPaths() {
+		const { localFilesAllowedPaths } = Container.get(GlobalConfig).externalSecrets;
+		const allowedPaths = localFilesAllowedPaths
+			.split(';')
+			.map((allowedPath) => allowedPath.trim())
+			.filter((allowedPath) => path.isAbsolute(allowedPath));
+
+		return await Promise.all(
+			allowedPaths.map(async (allowedPath) => await realpath(allowedPath).catch(() => allowedPath)),
+		);
+	}
+
+	/** Whether the real path, with symlinks resolved, is in one of the allowed directories */
+	private isAllowedPath(realPath: string, allowedPaths: string[]) {
+		return allowedPaths.some((allowedPath) => {
+			const relative = path.relative(allowedPath, realPath);
+			return (
+				relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+			);
+		});
+	}
+
+	private async readSecrets() {
+		const allowedPaths = await this.getAllowedPaths();
+		if (allowedPaths.length === 0) {
+			throw new ApplicationError(
+				`Set ${ALLOWED_PATHS_ENV} to the directories to read secrets from.`,
+			);
+		}
+
+		const sourcePath = await realpath(this.sourcePath);
+		if (!this.isAllowedPath(sourcePath, allowedPaths)) {
+			throw new ApplicationError(
+				`Secrets can only be read from the directories in ${ALLOWED_PATHS_ENV}.`,
+			);
+		}
+
+		return this.settings.source === 'dotenv'
+			? await this.readDotenv(sourcePath)
+			: await this.readDirectory(sourcePath, allowedPaths);
+	}
+
+	private async readDirectory(
+		directoryPath: string,
+		allowedPaths: string[],
+		depth = 0,
+	): Promise<LocalSecrets> {
+		const secrets: LocalSecrets = {};
+
+		for (const name of await readdir(directoryPath)) {
+			// skips the `..data` links of Kubernetes volumes and unsupported names like `tls.crt`
+			if (!EXTERNAL_SECRETS_NAME_REGEX.test(name)) continue;
+
+			// links may point out of the allowed directories
+			const filePath = await realpath(path.join(directoryPath, name));
+			if (!this.isAllowedPath(filePath, allowedPaths)) continue;
+
+			const stats = await stat(filePath);
+
+			if (stats.isDirectory() && depth < MAX_DIRECTORY_DEPTH) {
+				secrets[name] = await this.readDirectory(filePath, allowedPaths, depth + 1);
+			} else if (stats.isFile()) {
+				const content = await this.readSecretFile(filePath);
+				if (content !== undefined) secrets[name] = content.replace(/\r?\n$/, '');
+			}
+		}
+
+		return secrets;
+	}
+
+	/**
+	 * Read a file up to the max size of secrets, regardless of the size it reports,
+	 * which is 0 for some special files. Resolves to `undefined` for larger files.
+	 */
+	private async readSecretFile(filePath: string) {
+		const file = await open(filePath, 'r');
+
+		try {
+			const buffer = Buffer.alloc(MAX_SECRET_FILE_SIZE + 1);
+			let length = 0;
+
+			while (length < buffer.length) {
+				const { bytesRead } = await file.read(buffer, length, buffer.length - length, null);
+				if (bytesRead === 0) break;
+				length += bytesRead;
+			}
+
+			return length > MAX_SECRET_FILE_SIZE ? undefined : buffer.toString('utf8', 0, length);
+		} finally {
+			await file.close();
+		}
+	}
+
+	private async readDotenv(filePath: string): Promise<LocalSecrets> {
+		const content = this.settings.decryptWithSops
+			? await this.decryptWithSops(filePath)
+			: await this.readSecretFile(filePath);
+
+		if (content === undefined) {
+			throw new ApplicationError('The file is larger than the max size of secrets of 1 MB.');
+		}
+
+		return Object.fromEntries(
+			Object.entries(parse(content)).filter(([name]) => EXTERNAL_SECRETS_NAME_REGEX.test(name)),
+		);
+	}
+
+	private async decryptWithSops(filePath: string) {
+		try {
+			const { stdout } = await execFileAsync(
+				'sops',
+				['--decrypt', '--input-type', 'dotenv', '--output-type', 'dotenv', filePath],
+				{ timeout: 30_000 },
+			);
+			return stdout;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				throw new ApplicationError('Could not find the sops binary to decrypt the file.');
+			}
+			throw new ApplicationError('Failed to decrypt the file with sops.', { cause: error });
+		}
+	}
+
+	/**
+	 * Watch the top level of the directory, where Kubernetes swaps its `..data` link on updates,
+	 * or the directory of the dotenv file, as editors and tools replace files rather than write them.
+	 */
+	private startWatching() {
+		const sourcePath = this.sourcePath;
+		const isDotenv = this.settings.source === 'dotenv';
+
+		this.watcher = watch(isDotenv ? path.dirname(sourcePath) : sourcePath, (_event, fileName) => {
+			if (isDotenv && fileName !== path.basename(sourcePath)) return;
+
+			clearTimeout(this.watchTimeout);
+			this.watchTimeout = setTimeout(async () => {
+				try {
+					await this.update();
+					this.logger.debug('Reloaded local secrets after a change', { path: sourcePath });
+				} catch (error) {
+					this.logger.warn(`Failed to reload local secrets: ${(error as Error).message}`, {
+						path: sourcePath,
+					});
+				}
+			}, WATCH_DEBOUNCE);
+		});
+		this.watcher.on('error', (error) => {
+			this.logger.warn(`Stopped watching local secrets: ${error.message}`, { path: sourcePath });
+		});
+	}
+}
@@ -0,0 +1,14 @@
+import type { SecretsProviderSettings } from '@/Interfaces';
+
+export type LocalFilesSource = 'directory' | 'dotenv';
+
+export type LocalFilesContext = SecretsProviderSettings<{
+	source: LocalFilesSource;
+	directoryPath: string;
+	dotenvPath: string;
+	decryptWithSops: boolean;
+	watch: boolean;
+}>;
+
+/** Secrets by name, where a subdirectory holds a nested group of secrets */
+export type LocalSecrets = { [name: string]: string | LocalSecrets };
@@ -1,6 +1,6 @@
 import type { SecretsProviderSettings, SecretsProviderState } from '@/Interfaces';
 import { SecretsProvider } from '@/Interfaces';
-import type { IDataObject, INodeProperties } from 'n8n-workflow';
+import { ApplicationError, type IDataObject, type INodeProperties } from 'n8n-workflow';
 import type { AxiosInstance, AxiosResponse } from 'axios';
 import axios from 'axios';
 import { Logger } from '@/Logger';
@@ -26,6 +26,9 @@ interface VaultSettings {
 	// AppRole
 	roleId: string;
 	secretId: string;
+
+	// `name=path` per line, e.g. `postgres=database/creds/readonly`
+	dynamicSecrets?: string;
 }
 
 interface VaultResponse<T> {
@@ -83,6 +86,28 @@ interface VaultSecretList {
 	keys: string[];
 }
 
+interface VaultLeaseResp {
+	lease_id: string;
+	lease_duration: number;
+	renewable: boolean;
+	data: IDataObject;
+}
+
+interface VaultLease {
+	leaseId: string;
+	renewable: boolean;
+	issuedAt: number;
+	expiresAt: number;
+	data: IDataObject;
+	renewTimeout?: NodeJS.Timeout;
+}
+
+/** Scope of the leases that are not tied to an execution, e.g. when testing a credential */
+const SHARED_LEASE_SCOPE = '';
+
+/** How long leases of an execution are renewed, in case the execution is never released */
+const MAX_LEASE_LIFETIME = 24 * 60 * 60 * 1000;
+
 export class VaultProvider extends SecretsProvider {
 	properties: INodeProperties[] = [
 		DOCS_HELP_NOTICE,
@@ -211,6 +236,19 @@ export class VaultProvider extends SecretsProvider {
 				},
 			},
 		},
+		{
+			displayName: 'Dynamic Secrets (optional)',
+			name: 'dynamicSecrets',
+			type: 'string',
+			hint: 'One secret per line as name=path, e.g. postgres=database/creds/readonly',
+			description:
+				'Secrets of dynamic engines like database or AWS. Each execution using them in a credential gets its own short-lived lease, renewed while it runs and revoked when it finishes.',
+			required: false,
+			noDataExpression: true,
+			placeholder: 'e.g. postgres=database/creds/readonly',
+			typeOptions: { rows: 3 },
+			default: '',
+		},
 	];
 
 	displayName = 'HashiCorp Vault';
@@ -233,12 +271,21 @@ export class VaultProvider extends SecretsProvider {
 
 	private refreshAbort = new AbortController();
 
+	/** Paths of the dynamic secrets, by name */
+	private dynamicSecrets: Record<string, string> = {};
+
+	/** Leases of dynamic secrets, by lease scope and secret name */
+	private leases = new Map<string, Map<string, VaultLease>>();
+
+	private pendingLeases = new Map<string, Promise<void>>();
+
 	constructor(readonly logger = Container.get(Logger)) {
 		super();
 	}
 
 	async init(settings: SecretsProviderSettings): Promise<void> {
 		this.settings = settings.settings as unknown as VaultSettings;
+		this.dynamicSecrets = this.parseDynamicSecrets(this.settings.dynamicSecrets);
 
 		const baseURL = new URL(this.settings.url);
 
@@ -305,9 +352,140 @@ export class VaultProvider extends SecretsProvider {
 		if (this.refreshTimeout !== null) {
 			clearTimeout(this.refreshTimeout);
 		}
+		await Promise.allSettled(
+			[...this.leases.keys()].map(async (scope) => await this.releaseSecrets(scope)),
+		);
 		this.refreshAbort.abort();
 	}
 
+	private parseDynamicSecrets(value = '') {
+		const secrets: Record<string, string> = {};
+		for (const line of value.split('\n')) {
+			const [name, ...path] = line.split('=');
+			if (!name?.trim() || path.length === 0) continue;
+			if (!EXTERNAL_SECRETS_NAME_REGEX.test(name.trim())) {
+				this.logger.warn(`Ignoring Vault dynamic secret with invalid name "${name.trim()}"`);
+				continue;
+			}
+			secrets[name.trim()] = path.join('=').trim().replace(/^\//, '');
+		}
+		return secrets;
+	}
+
+	isDynamicSecret(name: string): boolean {
+		return name in this.dynamicSecrets;
+	}
+
+	/**
+	 * Issue a dynamic secret for the scope, unless it already holds a lease for it. Leases of
+	 * executions are renewed until released, for at most a day. Shared leases are replaced,
+	 * and revoked, once half expired.
+	 */
+	async leaseSecret(name: string, leaseScope: string): Promise<void> {
+		const path = this.dynamicSecrets[name];
+		if (path === undefined) return;
+
+		const existing = this.leases.get(leaseScope)?.get(name);
+		if (existing && existing.expiresAt > Date.now()) return;
+
+		// credentials of the same execution resolving the secret at once share one lease
+		const key = `${leaseScope}:${name}`;
+		let pending = this.pendingLeases.get(key);
+		if (!pending) {
+			pending = this.requestLease(name, path, leaseScope).finally(() =>
+				this.pendingLeases.delete(key),
+			);
+			this.pendingLeases.set(key, pending);
+		}
+		await pending;
+	}
+
+	private async requestLease(name: string, path: string, leaseScope: string) {
+		let resp: AxiosResponse<VaultLeaseResp>;
+		try {
+			resp = await this.#http.get<VaultLeaseResp>(path);
+		} catch (error) {
+			throw new ApplicationError(`Failed to lease dynamic secret "${name}" from Vault`, {
+				cause: error,
+				extra: { path },
+			});
+		}
+
+		const { lease_id: leaseId, lease_duration: duration, renewable, data } = resp.data;
+		const isShared = leaseScope === SHARED_LEASE_SCOPE;
+		const issuedAt = Date.now();
+		const lease: VaultLease = {
+			leaseId,
+			renewable,
+			data,
+			issuedAt,
+			expiresAt: issuedAt + (isShared ? duration / 2 : duration) * 1000,
+		};
+
+		const scopeLeases = this.leases.get(leaseScope) ?? new Map<string, VaultLease>();
+		const replacedLease = scopeLeases.get(name);
+		scopeLeases.set(name, lease);
+		this.leases.set(leaseScope, scopeLeases);
+
+		if (replacedLease) await this.revokeLease(replacedLease);
+
+		if (!isShared && renewable) this.scheduleLeaseRenewal(lease, leaseScope, name, duration);
+	}
+
+	private scheduleLeaseRenewal(
+		lease: VaultLease,
+		leaseScope: string,
+		name: string,
+		duration: number,
+	) {
+		const delay = (duration * 1000) / 2;
+
+		if (Date.now() + delay - lease.issuedAt > MAX_LEASE_LIFETIME) {
+			lease.renewTimeout = setTimeout(async () => {
+				if (this.leases.get(leaseScope)?.get(name) !== lease) return;
+				this.logger.warn(`Stopped renewing Vault lease ${lease.leaseId} after its max lifetime`);
+				this.leases.get(leaseScope)?.delete(name);
+				if (this.leases.get(leaseScope)?.size === 0) this.leases.delete(leaseScope);
+				await this.revokeLease(lease);
+			}, delay);
+			return;
+		}
+
+		lease.renewTimeout = setTimeout(async () => {
+			try {
+				const resp = await this.#http.put<VaultLeaseResp>('sys/leases/renew', {
+					lease_id: lease.leaseId,
+					increment: duration,
+				});
+				lease.expiresAt = Date.now() + resp.data.lease_duration * 1000;
+				if (resp.data.renewable) {
+					this.scheduleLeaseRenewal(lease, leaseScope, name, resp.data.lease_duration);
+				}
+			} catch {
+				this.logger.warn(`Failed to renew Vault lease ${lease.leaseId}`);
+			}
+		}, delay);
+	}
+
+	private async revokeLease(lease: VaultLease) {
+		clearTimeout(lease.renewTimeout);
+		try {
+			await this.#http.put('sys/leases/revoke', { lease_id: lease.leaseId });
+		} catch {
+			this.logger.warn(`Failed to revoke Vault lease ${lease.leaseId}`);
+		}
+	}
+
+	async releaseSecrets(leaseScope: string): Promise<void> {
+		const scopeLeases = this.leases.get(leaseScope);
+		if (!scopeLeases) return;
+		this.leases.delete(leaseScope);
+
+		await Promise.allSettled(
+			[...scopeLeases.values()].map(async (lease) => await this.revokeLease(lease)),
+		);
+	}
+
 	private setupTokenRefresh() {
 		if (!this.#tokenInfo) {
 			return;
@@ -524,12 +702,15 @@ export class VaultProvider extends SecretsProvider {
 		}
 	}
 
-	getSecret(name: string): IDataObject {
+	getSecret(name: string, leaseScope = SHARED_LEASE_SCOPE): IDataObject {
+		if (this.isDynamicSecret(name)) {
+			return this.leases.get(leaseScope)?.get(name)?.data ?? {};
+		}
 		return this.cachedSecrets[name];
 	}
 
 	hasSecret(name: string): boolean {
-		return name in this.cachedSecrets;
+		return name in this.cachedSecrets || this.isDynamicSecret(name);
 	}
 
 	getSecretNames(): string[] {
@@ -554,6 +735,9 @@ export class VaultProvider extends SecretsProvider {
 			}
 			return [k];
 		};
-		return Object.entries(this.cachedSecrets).flatMap(getKeys);
+		return [
+			...Object.entries(this.cachedSecrets).flatMap(getKeys),
+			...Object.keys(this.dynamicSecrets),
+		];
 	}
 }
@@ -2,6 +2,7 @@ import { validate } from 'class-validator';
 import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
 import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
 import type { TagEntity } from '@db/entities/TagEntity';
+import type { WorkflowTestCase } from '@db/entities/WorkflowTestCase';
 import type { User } from '@db/entities/User';
 import type { UserRoleChangePayload, UserUpdatePayload } from '@/requests';
 import { BadRequestError } from './errors/response-errors/bad-request.error';
@@ -11,6 +12,7 @@ export async function validateEntity(
 		| WorkflowEntity
 		| CredentialsEntity
 		| TagEntity
+		| WorkflowTestCase
 		| User
 		| UserUpdatePayload
 		| UserRoleChangePayload,
@@ -658,9 +658,14 @@ export abstract class SecretsProvider {
 	abstract disconnect(): Promise<void>;
 	abstract update(): Promise<void>;
 	abstract test(): Promise<[boolean] | [boolean, string]>;
-	abstract getSecret(name: string): unknown;
+	abstract getSecret(name: string, leaseScope?: string): unknown;
 	abstract hasSecret(name: string): boolean;
 	abstract getSecretNames(): string[];
+
+	/** Whether the secret is issued on demand, with `leaseSecret`, rather than read on update */
+	isDynamicSecret?(name: string): boolean;
+	leaseSecret?(name: string, leaseScope: string): Promise<void>;
+	releaseSecrets?(leaseScope: string): Promise<void>;
 }
 
 export type N8nInstanceType = 'main' | 'webhook' | 'worker';
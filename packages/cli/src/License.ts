@@ -249,6 +249,14 @@ export class License {
 		return this.isFeatureEnabled(LICENSE_FEATURES.SAML);
 	}
 
+	isOidcEnabled() {
+		return this.isFeatureEnabled(LICENSE_FEATURES.OIDC);
+	}
+
+	isScimEnabled() {
+		return this.isFeatureEnabled(LICENSE_FEATURES.SCIM);
+	}
+
 	isAdvancedExecutionFiltersEnabled() {
 		return this.isFeatureEnabled(LICENSE_FEATURES.ADVANCED_EXECUTION_FILTERS);
 	}
@@ -13,6 +13,7 @@ import type { JsonObject } from 'swagger-ui-express';
 import { License } from '@/License';
 import { UserRepository } from '@db/repositories/user.repository';
 import { UrlService } from '@/services/url.service';
+import { ApiKeyService } from '@/services/api-key.service';
 import type { AuthenticatedRequest } from '@/requests';
 import { GlobalConfig } from '@n8n/config';
 import { EventService } from '@/events/event.service';
@@ -92,9 +93,12 @@ async function createApiRouter(
 						schema: OpenAPIV3.ApiKeySecurityScheme,
 					): Promise<boolean> => {
 						const apiKey = req.headers[schema.name.toLowerCase()] as string;
-						const user = await Container.get(UserRepository).findOne({
-							where: { apiKey },
-						});
+						const scopedApiKey = await Container.get(ApiKeyService).authenticate(apiKey);
+						const user =
+							scopedApiKey?.user ??
+							(await Container.get(UserRepository).findOne({
+								where: { apiKey },
+							}));
 
 						if (!user) return false;
 
@@ -106,6 +110,7 @@ async function createApiRouter(
 						});
 
 						req.user = user;
+						if (scopedApiKey) req.apiKey = scopedApiKey;
 
 						return true;
 					},
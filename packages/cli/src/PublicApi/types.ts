@@ -1,7 +1,14 @@
-import type { ExecutionStatus, ICredentialDataDecryptedObject } from 'n8n-workflow';
+import type {
+	ExecutionStatus,
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
 
 import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
 import type { TagEntity } from '@db/entities/TagEntity';
+import type { DeadLetterStatus } from '@db/entities/DeadLetterEntry';
+import type { ProjectRole } from '@db/entities/ProjectRelation';
 import type { Risk } from '@/security-audit/types';
 import type { AuthlessRequest, AuthenticatedRequest } from '@/requests';
 
@@ -35,6 +42,49 @@ export declare namespace ExecutionRequest {
 
 	type Get = AuthenticatedRequest<{ id: string }, {}, {}, { includeData?: boolean }>;
 	type Delete = Get;
+	type GetStatus = AuthenticatedRequest<{ id: string }>;
+	type Retry = AuthenticatedRequest<{ id: string }, {}, { loadWorkflow: boolean }>;
+	type Stop = AuthenticatedRequest<{ id: string }>;
+}
+
+export declare namespace DeadLetterRequest {
+	type GetAll = AuthenticatedRequest<
+		{},
+		{},
+		{},
+		{
+			limit?: number;
+			cursor?: string;
+			offset?: number;
+			workflowId?: string;
+			status?: DeadLetterStatus;
+		}
+	>;
+
+	type Replay = AuthenticatedRequest<{}, {}, { ids: string[] }>;
+	type Discard = Replay;
+}
+
+export declare namespace LogStreamingRequest {
+	type Get = AuthenticatedRequest<{ id: string }>;
+	type Create = AuthenticatedRequest<{}, {}, MessageEventBusDestinationOptions>;
+	type Delete = Get;
+	type Test = Get;
+}
+
+export declare namespace ProjectMemberRequest {
+	type GetAll = AuthenticatedRequest<{ projectId: string }>;
+	type Add = AuthenticatedRequest<
+		{ projectId: string },
+		{},
+		{ relations: Array<{ userId: string; role: ProjectRole }> }
+	>;
+	type ChangeRole = AuthenticatedRequest<
+		{ projectId: string; userId: string },
+		{},
+		{ role: ProjectRole }
+	>;
+	type Delete = AuthenticatedRequest<{ projectId: string; userId: string }>;
 }
 
 export declare namespace TagRequest {
@@ -89,6 +139,25 @@ export declare namespace WorkflowRequest {
 		{},
 		{ destinationProjectId: string }
 	>;
+	type GetTests = Get;
+	type RunTests = AuthenticatedRequest<
+		{ id: string },
+		{},
+		{ testCaseIds?: string[] },
+		{ format?: 'json' | 'junit' }
+	>;
+	type Run = AuthenticatedRequest<
+		{ id: string },
+		{},
+		{ items?: IDataObject[]; mode?: 'sync' | 'async'; timeout?: number }
+	>;
+	type GetHistory = AuthenticatedRequest<
+		{ id: string },
+		{},
+		{},
+		{ limit?: number; cursor?: string; offset?: number }
+	>;
+	type RestoreVersion = AuthenticatedRequest<{ id: string; versionId: string }>;
 }
 
 export declare namespace UserRequest {
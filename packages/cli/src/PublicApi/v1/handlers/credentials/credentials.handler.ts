@@ -5,7 +5,7 @@ import { CredentialsHelper } from '@/CredentialsHelper';
 import { CredentialTypes } from '@/CredentialTypes';
 import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
 import type { CredentialTypeRequest, CredentialRequest } from '../../../types';
-import { projectScope } from '../../shared/middlewares/global.middleware';
+import { apiKeyScope, projectScope } from '../../shared/middlewares/global.middleware';
 import { validCredentialsProperties, validCredentialType } from './credentials.middleware';
 
 import {
@@ -21,15 +21,28 @@ import {
 import { Container } from 'typedi';
 import { z } from 'zod';
 import { EnterpriseCredentialsService } from '@/credentials/credentials.service.ee';
+import { ProjectRepository } from '@db/repositories/project.repository';
+import { ApiKeyService } from '@/services/api-key.service';
 
 export = {
 	createCredential: [
+		apiKeyScope('credential:create'),
 		validCredentialType,
 		validCredentialsProperties,
 		async (
 			req: CredentialRequest.Create,
 			res: express.Response,
 		): Promise<express.Response<Partial<CredentialsEntity>>> => {
+			if (req.apiKey) {
+				const project = await Container.get(ProjectRepository).getPersonalProjectForUserOrFail(
+					req.user.id,
+				);
+
+				if (!Container.get(ApiKeyService).isProjectAllowed(req.apiKey, project.id)) {
+					return res.status(403).json({ message: 'Forbidden' });
+				}
+			}
+
 			try {
 				const newCredential = await createCredential(req.body);
 
@@ -51,13 +64,17 @@ export = {
 		async (req: CredentialRequest.Transfer, res: express.Response) => {
 			const body = z.object({ destinationProjectId: z.string() }).parse(req.body);
 
+			if (!Container.get(ApiKeyService).isProjectAllowed(req.apiKey, body.destinationProjectId)) {
+				return res.status(403).json({ message: 'Forbidden' });
+			}
+
 			await Container.get(EnterpriseCredentialsService).transferOne(
 				req.user,
 				req.params.workflowId,
 				body.destinationProjectId,
 			);
 
-			res.status(204).send();
+			return res.status(204).send();
 		},
 	],
 	deleteCredential: [
@@ -89,6 +106,7 @@ export = {
 	],
 
 	getCredentialType: [
+		apiKeyScope('credential:read'),
 		async (req: CredentialTypeRequest.Get, res: express.Response): Promise<express.Response> => {
 			const { credentialTypeName } = req.params;
 
@@ -0,0 +1,62 @@
+import type express from 'express';
+import { Container } from 'typedi';
+import { replaceCircularReferences } from 'n8n-workflow';
+
+import { apiKeyScope, validCursor } from '../../shared/middlewares/global.middleware';
+import type { DeadLetterRequest } from '../../../types';
+import { getSharedWorkflowIds } from '../workflows/workflows.service';
+import { encodeNextCursor } from '../../shared/services/pagination.service';
+import { DeadLetterService } from '@/executions/dead-letter.service';
+
+export = {
+	getDeadLetters: [
+		apiKeyScope('workflow:read'),
+		validCursor,
+		async (req: DeadLetterRequest.GetAll, res: express.Response): Promise<express.Response> => {
+			const { offset = 0, limit = 100, workflowId, status } = req.query;
+
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:read']);
+
+			const { count, results } = await Container.get(DeadLetterService).findMany(
+				sharedWorkflowsIds,
+				{ workflowId, status, skip: offset, take: limit },
+			);
+
+			return res.json({
+				data: replaceCircularReferences(results),
+				nextCursor: encodeNextCursor({
+					offset,
+					limit,
+					numberOfTotalRecords: count,
+				}),
+			});
+		},
+	],
+	replayDeadLetters: [
+		apiKeyScope('workflow:execute'),
+		async (req: DeadLetterRequest.Replay, res: express.Response): Promise<express.Response> => {
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:execute']);
+
+			const result = await Container.get(DeadLetterService).replay(
+				req.body.ids,
+				sharedWorkflowsIds,
+				req.user.id,
+			);
+
+			return res.json(result);
+		},
+	],
+	discardDeadLetters: [
+		apiKeyScope('workflow:update'),
+		async (req: DeadLetterRequest.Discard, res: express.Response): Promise<express.Response> => {
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:update']);
+
+			const discarded = await Container.get(DeadLetterService).discard(
+				req.body.ids,
+				sharedWorkflowsIds,
+			);
+
+			return res.json({ discarded });
+		},
+	],
+};
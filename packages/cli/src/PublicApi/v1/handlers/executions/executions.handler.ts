@@ -1,20 +1,37 @@
 import type express from 'express';
 import { Container } from 'typedi';
-import { replaceCircularReferences } from 'n8n-workflow';
+import { replaceCircularReferences, WorkflowOperationError } from 'n8n-workflow';
 
 import { ActiveExecutions } from '@/ActiveExecutions';
-import { validCursor } from '../../shared/middlewares/global.middleware';
+import { apiKeyScope, validCursor } from '../../shared/middlewares/global.middleware';
 import type { ExecutionRequest } from '../../../types';
-import { getSharedWorkflowIds } from '../workflows/workflows.service';
+import { getSharedWorkflowIds, toWorkflowRunResult } from '../workflows/workflows.service';
 import { encodeNextCursor } from '../../shared/services/pagination.service';
 import { InternalHooks } from '@/InternalHooks';
 import { ExecutionRepository } from '@db/repositories/execution.repository';
 import { ConcurrencyControlService } from '@/concurrency/concurrency-control.service';
+import { ExecutionService } from '@/executions/execution.service';
+import { NotFoundError } from '@/errors/response-errors/not-found.error';
+import { AbortedExecutionRetryError } from '@/errors/aborted-execution-retry.error';
+import { MissingExecutionStopError } from '@/errors/missing-execution-stop.error';
+import { QueuedExecutionRetryError } from '@/errors/queued-execution-retry.error';
+import { SucceededExecutionRetryError } from '@/errors/succeeded-execution-retry.error';
+
+/**
+ * Whether the execution cannot be retried or stopped in its current state: it is queued,
+ * was aborted, already finished, or its nodes are missing in the current workflow.
+ */
+const isExecutionStateConflict = (error: unknown) =>
+	error instanceof QueuedExecutionRetryError ||
+	error instanceof AbortedExecutionRetryError ||
+	error instanceof SucceededExecutionRetryError ||
+	error instanceof WorkflowOperationError;
 
 export = {
 	deleteExecution: [
+		apiKeyScope('workflow:delete'),
 		async (req: ExecutionRequest.Delete, res: express.Response): Promise<express.Response> => {
-			const sharedWorkflowsIds = await getSharedWorkflowIds(req.user, ['workflow:delete']);
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:delete']);
 
 			// user does not have workflows hence no executions
 			// or the execution they are trying to access belongs to a workflow they do not own
@@ -57,8 +74,9 @@ export = {
 		},
 	],
 	getExecution: [
+		apiKeyScope('workflow:read'),
 		async (req: ExecutionRequest.Get, res: express.Response): Promise<express.Response> => {
-			const sharedWorkflowsIds = await getSharedWorkflowIds(req.user, ['workflow:read']);
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:read']);
 
 			// user does not have workflows hence no executions
 			// or the execution they are trying to access belongs to a workflow they do not own
@@ -86,7 +104,34 @@ export = {
 			return res.json(replaceCircularReferences(execution));
 		},
 	],
+	getExecutionStatus: [
+		apiKeyScope('workflow:read'),
+		async (req: ExecutionRequest.GetStatus, res: express.Response): Promise<express.Response> => {
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:read']);
+
+			if (!sharedWorkflowsIds.length) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const execution = await Container.get(ExecutionRepository).findWithUnflattenedData(
+				req.params.id,
+				sharedWorkflowsIds,
+			);
+
+			if (!execution) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			return res.json({
+				...toWorkflowRunResult(execution.id, execution),
+				workflowId: execution.workflowId,
+				startedAt: execution.startedAt,
+				stoppedAt: execution.stoppedAt ?? null,
+			});
+		},
+	],
 	getExecutions: [
+		apiKeyScope('workflow:read'),
 		validCursor,
 		async (req: ExecutionRequest.GetAll, res: express.Response): Promise<express.Response> => {
 			const {
@@ -98,7 +143,7 @@ export = {
 				projectId,
 			} = req.query;
 
-			const sharedWorkflowsIds = await getSharedWorkflowIds(req.user, ['workflow:read'], projectId);
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:read'], projectId);
 
 			// user does not have workflows hence no executions
 			// or the execution they are trying to access belongs to a workflow they do not own
@@ -145,4 +190,62 @@ export = {
 			});
 		},
 	],
+	retryExecution: [
+		apiKeyScope('workflow:execute'),
+		async (req: ExecutionRequest.Retry, res: express.Response): Promise<express.Response> => {
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:execute']);
+
+			if (!sharedWorkflowsIds.length) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			req.body = { loadWorkflow: req.body?.loadWorkflow ?? false };
+
+			try {
+				const finished = await Container.get(ExecutionService).retry(req, sharedWorkflowsIds);
+
+				return res.json({ finished });
+			} catch (error) {
+				if (error instanceof NotFoundError) {
+					return res.status(404).json({ message: 'Not Found' });
+				}
+				if (isExecutionStateConflict(error)) {
+					return res.status(409).json({ message: (error as Error).message });
+				}
+				throw error;
+			}
+		},
+	],
+	stopExecution: [
+		apiKeyScope('workflow:execute'),
+		async (req: ExecutionRequest.Stop, res: express.Response): Promise<express.Response> => {
+			const sharedWorkflowsIds = await getSharedWorkflowIds(req, ['workflow:execute']);
+
+			if (!sharedWorkflowsIds.length) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const execution = await Container.get(
+				ExecutionRepository,
+			).getExecutionInWorkflowsForPublicApi(req.params.id, sharedWorkflowsIds, false);
+
+			if (!execution) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			try {
+				const result = await Container.get(ExecutionService).stop(execution.id);
+
+				return res.json({ id: execution.id, ...result });
+			} catch (error) {
+				if (error instanceof MissingExecutionStopError) {
+					return res.status(404).json({ message: 'Not Found' });
+				}
+				if (isExecutionStateConflict(error)) {
+					return res.status(409).json({ message: (error as Error).message });
+				}
+				throw error;
+			}
+		},
+	],
 };
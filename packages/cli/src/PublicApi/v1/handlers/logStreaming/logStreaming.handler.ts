@@ -0,0 +1,88 @@
+import type express from 'express';
+import { Container } from 'typedi';
+
+import { EventBusController } from '@/eventbus/eventBus.controller';
+import { MessageEventBus } from '@/eventbus/MessageEventBus/MessageEventBus';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import { globalScope, isLicensed } from '../../shared/middlewares/global.middleware';
+import type { LogStreamingRequest } from '../../../types';
+
+const findDestination = async (id: string) => {
+	// `findDestination` returns all destinations for an unknown id
+	const destinations = await Container.get(MessageEventBus).findDestination(id);
+	return destinations.find((destination) => destination.id === id);
+};
+
+export = {
+	getLogStreamingDestinations: [
+		isLicensed('feat:logStreaming'),
+		globalScope('eventBusDestination:list'),
+		async (_req: express.Request, res: express.Response): Promise<express.Response> => {
+			const eventBus = Container.get(MessageEventBus);
+			const destinations = await eventBus.findDestination();
+			const status = eventBus.getDeliveryStatus();
+
+			return res.json({
+				data: destinations.map((destination) => ({
+					...destination,
+					deliveryStatus: destination.id ? status[destination.id] ?? null : null,
+				})),
+			});
+		},
+	],
+	getLogStreamingDestination: [
+		isLicensed('feat:logStreaming'),
+		globalScope('eventBusDestination:list'),
+		async (req: LogStreamingRequest.Get, res: express.Response): Promise<express.Response> => {
+			const destination = await findDestination(req.params.id);
+
+			if (!destination) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const status = Container.get(MessageEventBus).getDeliveryStatus();
+
+			return res.json({ ...destination, deliveryStatus: status[req.params.id] ?? null });
+		},
+	],
+	createLogStreamingDestination: [
+		isLicensed('feat:logStreaming'),
+		globalScope('eventBusDestination:create'),
+		async (req: LogStreamingRequest.Create, res: express.Response): Promise<express.Response> => {
+			try {
+				return res.status(201).json(await Container.get(EventBusController).postDestination(req));
+			} catch (error) {
+				if (error instanceof BadRequestError) {
+					return res.status(400).json({ message: error.message });
+				}
+				throw error;
+			}
+		},
+	],
+	deleteLogStreamingDestination: [
+		isLicensed('feat:logStreaming'),
+		globalScope('eventBusDestination:delete'),
+		async (req: LogStreamingRequest.Delete, res: express.Response): Promise<express.Response> => {
+			if (!(await findDestination(req.params.id))) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			await Container.get(MessageEventBus).removeDestination(req.params.id);
+
+			return res.status(204).send();
+		},
+	],
+	testLogStreamingDestination: [
+		isLicensed('feat:logStreaming'),
+		globalScope('eventBusDestination:test'),
+		async (req: LogStreamingRequest.Test, res: express.Response): Promise<express.Response> => {
+			if (!(await findDestination(req.params.id))) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const success = await Container.get(MessageEventBus).testDestination(req.params.id);
+
+			return res.json({ success });
+		},
+	],
+};
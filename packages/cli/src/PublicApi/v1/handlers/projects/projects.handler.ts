@@ -1,11 +1,20 @@
 import { globalScope, isLicensed, validCursor } from '../../shared/middlewares/global.middleware';
 import type { Response } from 'express';
 import type { ProjectRequest } from '@/requests';
-import type { PaginatedRequest } from '@/PublicApi/types';
+import type { PaginatedRequest, ProjectMemberRequest } from '@/PublicApi/types';
 import Container from 'typedi';
+// eslint-disable-next-line n8n-local-rules/misplaced-n8n-typeorm-import
+import { In } from '@n8n/typeorm';
 import { ProjectController } from '@/controllers/project.controller';
 import { ProjectRepository } from '@/databases/repositories/project.repository';
 import { encodeNextCursor } from '../../shared/services/pagination.service';
+import { UnlicensedProjectRoleError } from '@/services/project.service';
+import {
+	findMissingUserIds,
+	getProjectMembers,
+	getTeamProject,
+	updateProjectMembers,
+} from './projects.service';
 
 type Create = ProjectRequest.Create;
 type Update = ProjectRequest.Update;
@@ -47,9 +56,12 @@ export = {
 		async (req: GetAll, res: Response) => {
 			const { offset = 0, limit = 100 } = req.query;
 
+			const projectIds = req.apiKey?.projectIds;
+
 			const [projects, count] = await Container.get(ProjectRepository).findAndCount({
 				skip: offset,
 				take: limit,
+				...(projectIds && { where: { id: In(projectIds) } }),
 			});
 
 			return res.json({
@@ -62,4 +74,96 @@ export = {
 			});
 		},
 	],
+	getProjectUsers: [
+		isLicensed('feat:projectRole:admin'),
+		globalScope('project:read'),
+		async (req: ProjectMemberRequest.GetAll, res: Response) => {
+			const project = await getTeamProject(req.params.projectId);
+
+			if (!project) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			return res.json({ data: await getProjectMembers(project.id) });
+		},
+	],
+	addUsersToProject: [
+		isLicensed('feat:projectRole:admin'),
+		globalScope('project:update'),
+		async (req: ProjectMemberRequest.Add, res: Response) => {
+			const project = await getTeamProject(req.params.projectId);
+
+			if (!project) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const { relations } = req.body;
+			const missingUserIds = await findMissingUserIds(relations.map(({ userId }) => userId));
+
+			if (missingUserIds.length) {
+				return res.status(404).json({ message: `Users not found: ${missingUserIds.join(', ')}` });
+			}
+
+			try {
+				await updateProjectMembers(req.user, project.id, (members) => [
+					...members.filter((member) => !relations.some((r) => r.userId === member.userId)),
+					...relations,
+				]);
+			} catch (error) {
+				if (error instanceof UnlicensedProjectRoleError) {
+					return res.status(400).json({ message: error.message });
+				}
+				throw error;
+			}
+
+			return res.status(201).send();
+		},
+	],
+	changeUserRoleInProject: [
+		isLicensed('feat:projectRole:admin'),
+		globalScope('project:update'),
+		async (req: ProjectMemberRequest.ChangeRole, res: Response) => {
+			const { projectId, userId } = req.params;
+			const project = await getTeamProject(projectId);
+			const members = project ? await getProjectMembers(project.id) : [];
+
+			if (!project || !members.some((member) => member.id === userId)) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			try {
+				await updateProjectMembers(req.user, project.id, (current) =>
+					current.map((member) =>
+						member.userId === userId ? { userId, role: req.body.role } : member,
+					),
+				);
+			} catch (error) {
+				if (error instanceof UnlicensedProjectRoleError) {
+					return res.status(400).json({ message: error.message });
+				}
+				throw error;
+			}
+
+			return res.status(204).send();
+		},
+	],
+	deleteUserFromProject: [
+		isLicensed('feat:projectRole:admin'),
+		globalScope('project:update'),
+		async (req: ProjectMemberRequest.Delete, res: Response) => {
+			const { projectId, userId } = req.params;
+			const project = await getTeamProject(projectId);
+			const members = project ? await getProjectMembers(project.id) : [];
+
+			if (!project || !members.some((member) => member.id === userId)) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			await updateProjectMembers(req.user, project.id, (current) =>
+				current.filter((member) => member.userId !== userId),
+			);
+
+			return res.status(204).send();
+		},
+	],
 };
@@ -0,0 +1,56 @@
+import { Container } from 'typedi';
+// eslint-disable-next-line n8n-local-rules/misplaced-n8n-typeorm-import
+import { In } from '@n8n/typeorm';
+
+import type { User } from '@db/entities/User';
+import type { ProjectRole } from '@db/entities/ProjectRelation';
+import { ProjectRepository } from '@db/repositories/project.repository';
+import { UserRepository } from '@db/repositories/user.repository';
+import { EventService } from '@/events/event.service';
+import { ProjectService } from '@/services/project.service';
+
+export type ProjectMember = { userId: string; role: ProjectRole };
+
+export async function getTeamProject(projectId: string) {
+	return await Container.get(ProjectRepository).findOneBy({ id: projectId, type: 'team' });
+}
+
+export async function getProjectMembers(projectId: string) {
+	const relations = await Container.get(ProjectService).getProjectRelations(projectId);
+
+	return relations.map(({ user, role }) => ({
+		id: user.id,
+		email: user.email,
+		firstName: user.firstName,
+		lastName: user.lastName,
+		role,
+	}));
+}
+
+export async function findMissingUserIds(userIds: string[]) {
+	const users = await Container.get(UserRepository).findBy({ id: In(userIds) });
+	return userIds.filter((userId) => !users.some((user) => user.id === userId));
+}
+
+/**
+ * Replace the members of a team project with the result of `update`, which
+ * receives the current members.
+ */
+export async function updateProjectMembers(
+	user: User,
+	projectId: string,
+	update: (members: ProjectMember[]) => ProjectMember[],
+) {
+	const projectService = Container.get(ProjectService);
+	const current = await projectService.getProjectRelations(projectId);
+	const members = update(current.map(({ userId, role }) => ({ userId, role })));
+
+	await projectService.syncProjectRelations(projectId, members);
+
+	Container.get(EventService).emit('team-project-updated', {
+		userId: user.id,
+		role: user.role,
+		members,
+		projectId,
+	});
+}
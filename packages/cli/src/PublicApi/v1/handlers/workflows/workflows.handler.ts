@@ -13,7 +13,12 @@ import { WorkflowEntity } from '@db/entities/WorkflowEntity';
 import { ExternalHooks } from '@/ExternalHooks';
 import { addNodeIds, replaceInvalidCredentials } from '@/WorkflowHelpers';
 import type { WorkflowRequest } from '../../../types';
-import { projectScope, validCursor } from '../../shared/middlewares/global.middleware';
+import {
+	apiKeyScope,
+	isLicensed,
+	projectScope,
+	validCursor,
+} from '../../shared/middlewares/global.middleware';
 import { encodeNextCursor } from '../../shared/services/pagination.service';
 import {
 	getWorkflowById,
@@ -24,20 +29,36 @@ import {
 	parseTagNames,
 	getWorkflowTags,
 	updateTags,
+	findRunStartNode,
+	getWorkflowRunModeError,
+	isWorkflowRunDone,
+	isWorkflowRunSaved,
+	startWorkflowRun,
+	waitForWorkflowRun,
+	toWorkflowRunResult,
 } from './workflows.service';
 import { WorkflowService } from '@/workflows/workflow.service';
 import { InternalHooks } from '@/InternalHooks';
 import { WorkflowHistoryService } from '@/workflows/workflowHistory/workflowHistory.service.ee';
+import { isWorkflowHistoryEnabled } from '@/workflows/workflowHistory/workflowHistoryHelper.ee';
+import { WorkflowHistoryRepository } from '@/databases/repositories/workflowHistory.repository';
+import { WorkflowHistoryVersionNotFoundError } from '@/errors/workflow-history-version-not-found.error';
+import { NotFoundError } from '@/errors/response-errors/not-found.error';
 import { SharedWorkflowRepository } from '@/databases/repositories/sharedWorkflow.repository';
 import { TagRepository } from '@/databases/repositories/tag.repository';
 import { WorkflowRepository } from '@/databases/repositories/workflow.repository';
 import { ProjectRepository } from '@/databases/repositories/project.repository';
 import { EventService } from '@/events/event.service';
+import { ApiKeyService } from '@/services/api-key.service';
 import { z } from 'zod';
+import { GlobalConfig } from '@n8n/config';
 import { EnterpriseWorkflowService } from '@/workflows/workflow.service.ee';
+import { WorkflowTestsService } from '@/workflows/workflowTests/workflowTests.service';
+import { toJUnitXml } from '@/workflows/workflowTests/junit';
 
 export = {
 	createWorkflow: [
+		apiKeyScope('workflow:create'),
 		async (req: WorkflowRequest.Create, res: express.Response): Promise<express.Response> => {
 			const workflow = req.body;
 
@@ -51,6 +72,11 @@ export = {
 			const project = await Container.get(ProjectRepository).getPersonalProjectForUserOrFail(
 				req.user.id,
 			);
+
+			if (!Container.get(ApiKeyService).isProjectAllowed(req.apiKey, project.id)) {
+				return res.status(403).json({ message: 'Forbidden' });
+			}
+
 			const createdWorkflow = await createWorkflow(workflow, req.user, project, 'workflow:owner');
 
 			await Container.get(WorkflowHistoryService).saveVersion(
@@ -76,13 +102,17 @@ export = {
 		async (req: WorkflowRequest.Transfer, res: express.Response) => {
 			const body = z.object({ destinationProjectId: z.string() }).parse(req.body);
 
+			if (!Container.get(ApiKeyService).isProjectAllowed(req.apiKey, body.destinationProjectId)) {
+				return res.status(403).json({ message: 'Forbidden' });
+			}
+
 			await Container.get(EnterpriseWorkflowService).transferOne(
 				req.user,
 				req.params.workflowId,
 				body.destinationProjectId,
 			);
 
-			res.status(204).send();
+			return res.status(204).send();
 		},
 	],
 	deleteWorkflow: [
@@ -128,6 +158,7 @@ export = {
 		},
 	],
 	getWorkflows: [
+		apiKeyScope('workflow:read'),
 		validCursor,
 		async (req: WorkflowRequest.GetAll, res: express.Response): Promise<express.Response> => {
 			const { offset = 0, limit = 100, active, tags, name, projectId } = req.query;
@@ -137,7 +168,8 @@ export = {
 				...(name !== undefined && { name: Like('%' + name.trim() + '%') }),
 			};
 
-			if (['global:owner', 'global:admin'].includes(req.user.role)) {
+			// keys restricted to projects need the projects of the workflows to filter them
+			if (['global:owner', 'global:admin'].includes(req.user.role) && !req.apiKey?.projectIds) {
 				if (tags) {
 					const workflowIds = await Container.get(TagRepository).getWorkflowIdsViaTags(
 						parseTagNames(tags),
@@ -167,6 +199,11 @@ export = {
 					workflows = workflows.filter((w) => w.projectId === projectId);
 				}
 
+				const apiKeyService = Container.get(ApiKeyService);
+				workflows = workflows.filter((w) =>
+					apiKeyService.isProjectAllowed(req.apiKey, w.projectId),
+				);
+
 				if (!workflows.length) {
 					return res.status(200).json({
 						data: [],
@@ -341,6 +378,89 @@ export = {
 			return res.json(workflow);
 		},
 	],
+	getWorkflowHistory: [
+		isLicensed('feat:workflowHistory'),
+		projectScope('workflow:read', 'workflow'),
+		validCursor,
+		async (req: WorkflowRequest.GetHistory, res: express.Response): Promise<express.Response> => {
+			const { id } = req.params;
+			const { offset = 0, limit = 100 } = req.query;
+
+			if (!isWorkflowHistoryEnabled()) {
+				return res.status(400).json({ message: 'Workflow History Disabled' });
+			}
+
+			const workflow = await Container.get(SharedWorkflowRepository).findWorkflowForUser(
+				id,
+				req.user,
+				['workflow:read'],
+			);
+
+			if (!workflow) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const [versions, count] = await Promise.all([
+				Container.get(WorkflowHistoryService).getList(req.user, id, limit, offset),
+				Container.get(WorkflowHistoryRepository).count({ where: { workflowId: id } }),
+			]);
+
+			return res.json({
+				data: versions,
+				nextCursor: encodeNextCursor({
+					offset,
+					limit,
+					numberOfTotalRecords: count,
+				}),
+			});
+		},
+	],
+	restoreWorkflowVersion: [
+		isLicensed('feat:workflowHistory'),
+		projectScope('workflow:update', 'workflow'),
+		async (
+			req: WorkflowRequest.RestoreVersion,
+			res: express.Response,
+		): Promise<express.Response> => {
+			const { id, versionId } = req.params;
+
+			if (!isWorkflowHistoryEnabled()) {
+				return res.status(400).json({ message: 'Workflow History Disabled' });
+			}
+
+			let version;
+			try {
+				version = await Container.get(WorkflowHistoryService).getVersion(req.user, id, versionId);
+			} catch (error) {
+				if (error instanceof WorkflowHistoryVersionNotFoundError) {
+					return res.status(404).json({ message: 'Version Not Found' });
+				}
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const updateData = new WorkflowEntity();
+			updateData.nodes = version.nodes;
+			updateData.connections = version.connections;
+
+			try {
+				// the restored version is saved as a new version, to keep the history linear
+				const workflow = await Container.get(WorkflowService).update(
+					req.user,
+					updateData,
+					id,
+					undefined,
+					true,
+				);
+
+				return res.json(workflow);
+			} catch (error) {
+				if (error instanceof NotFoundError) {
+					return res.status(404).json({ message: 'Not Found' });
+				}
+				return res.status(400).json({ message: (error as Error).message });
+			}
+		},
+	],
 	getWorkflowTags: [
 		projectScope('workflow:read', 'workflow'),
 		async (req: WorkflowRequest.GetTags, res: express.Response): Promise<express.Response> => {
@@ -405,4 +525,81 @@ export = {
 			return res.json(tags);
 		},
 	],
+	getWorkflowTests: [
+		projectScope('workflow:read', 'workflow'),
+		async (req: WorkflowRequest.GetTests, res: express.Response): Promise<express.Response> => {
+			const testCases = await Container.get(WorkflowTestsService).getAll(req.user, req.params.id);
+
+			return res.json(testCases);
+		},
+	],
+	runWorkflowTests: [
+		projectScope('workflow:execute', 'workflow'),
+		async (req: WorkflowRequest.RunTests, res: express.Response): Promise<express.Response> => {
+			const suite = await Container.get(WorkflowTestsService).run(
+				req.user,
+				req.params.id,
+				req.body?.testCaseIds,
+			);
+
+			if (req.query.format === 'junit') {
+				return res.type('application/xml').send(toJUnitXml([suite]));
+			}
+
+			return res.json(suite);
+		},
+	],
+	runWorkflow: [
+		projectScope('workflow:execute', 'workflow'),
+		async (req: WorkflowRequest.Run, res: express.Response): Promise<express.Response> => {
+			const workflow = await getWorkflowById(req.params.id);
+
+			if (!workflow) {
+				return res.status(404).json({ message: 'Not Found' });
+			}
+
+			const startNode = findRunStartNode(workflow);
+
+			if (!startNode) {
+				return res.status(400).json({
+					message:
+						'Workflow has no "Execute Workflow Trigger" or manual trigger node to start from',
+				});
+			}
+
+			const { items = [{}], mode = 'sync', timeout } = req.body ?? {};
+			const modeError = getWorkflowRunModeError(workflow, mode);
+
+			if (modeError) {
+				return res.status(400).json({ message: modeError });
+			}
+
+			const executionId = await startWorkflowRun(workflow, startNode, items, req.user);
+
+			const { publicApi } = Container.get(GlobalConfig);
+			const pending = { executionId, status: 'running', finished: false };
+
+			if (mode === 'async') {
+				res.location(`/${publicApi.path}/v1/executions/${executionId}/status`);
+				return res.status(202).json(pending);
+			}
+
+			const timeoutMs = Math.min(timeout ?? publicApi.runTimeout, publicApi.runTimeout) * 1000;
+			const run = await waitForWorkflowRun(executionId, timeoutMs);
+
+			if (!run && !isWorkflowRunSaved(workflow)) {
+				return res.status(504).json({
+					message: 'Workflow did not finish within the timeout, and does not save its executions',
+				});
+			}
+
+			// the execution may be waiting, or running in another process
+			if (!run || !isWorkflowRunDone(run)) {
+				res.location(`/${publicApi.path}/v1/executions/${executionId}/status`);
+				return res.status(202).json(run ? toWorkflowRunResult(executionId, run) : pending);
+			}
+
+			return res.json(toWorkflowRunResult(executionId, run));
+		},
+	],
 };
@@ -1,9 +1,12 @@
 import { Container } from 'typedi';
+import type { IDataObject, INode, IRun, IRunExecutionData } from 'n8n-workflow';
+import { EXECUTE_WORKFLOW_TRIGGER_NODE_TYPE, MANUAL_TRIGGER_NODE_TYPE } from 'n8n-workflow';
 import * as Db from '@/Db';
 import type { User } from '@db/entities/User';
 import { WorkflowEntity } from '@db/entities/WorkflowEntity';
 import { WorkflowTagMapping } from '@db/entities/WorkflowTagMapping';
 import { SharedWorkflow, type WorkflowSharingRole } from '@db/entities/SharedWorkflow';
+import { ExecutionRepository } from '@db/repositories/execution.repository';
 import { WorkflowRepository } from '@db/repositories/workflow.repository';
 import { SharedWorkflowRepository } from '@db/repositories/sharedWorkflow.repository';
 import type { Project } from '@/databases/entities/Project';
@@ -12,28 +15,41 @@ import { License } from '@/License';
 import { WorkflowSharingService } from '@/workflows/workflowSharing.service';
 import type { Scope } from '@n8n/permissions';
 import config from '@/config';
+import { ActiveExecutions } from '@/ActiveExecutions';
+import { OwnershipService } from '@/services/ownership.service';
+import { getDataLastExecutedNodeData } from '@/WorkflowHelpers';
+import { toSaveSettings } from '@/executionLifecycleHooks/toSaveSettings';
+import { WorkflowRunner } from '@/WorkflowRunner';
+import { ApiKeyService } from '@/services/api-key.service';
+import type { AuthenticatedRequest } from '@/requests';
 
 function insertIf(condition: boolean, elements: string[]): string[] {
 	return condition ? elements : [];
 }
 
+/**
+ * Get the IDs of the workflows the user of the request has access to, within the
+ * projects of the scoped API key the request was authenticated with, if any.
+ */
 export async function getSharedWorkflowIds(
-	user: User,
+	{ user, apiKey }: AuthenticatedRequest,
 	scopes: Scope[],
 	projectId?: string,
 ): Promise<string[]> {
-	if (Container.get(License).isSharingEnabled()) {
-		return await Container.get(WorkflowSharingService).getSharedWorkflowIds(user, {
-			scopes,
-			projectId,
-		});
-	} else {
-		return await Container.get(WorkflowSharingService).getSharedWorkflowIds(user, {
-			workflowRoles: ['workflow:owner'],
-			projectRoles: ['project:personalOwner'],
-			projectId,
-		});
-	}
+	const workflowIds = Container.get(License).isSharingEnabled()
+		? await Container.get(WorkflowSharingService).getSharedWorkflowIds(user, {
+				scopes,
+				projectId,
+			})
+		: await Container.get(WorkflowSharingService).getSharedWorkflowIds(user, {
+				workflowRoles: ['workflow:owner'],
+				projectRoles: ['project:personalOwner'],
+				projectId,
+			});
+
+	if (!apiKey) return workflowIds;
+
+	return await Container.get(ApiKeyService).filterWorkflowIds(apiKey, workflowIds);
 }
 
 export async function getSharedWorkflow(
@@ -128,3 +144,129 @@ export async function updateTags(workflowId: string, newTags: string[]): Promise
 		);
 	});
 }
+
+/**
+ * Node to start a run of the workflow from, preferring an "Execute Workflow Trigger"
+ * over a manual trigger. Both pass the input items on to the rest of the workflow.
+ */
+export function findRunStartNode(workflow: WorkflowEntity): INode | undefined {
+	const enabledNodes = workflow.nodes.filter((node) => !node.disabled);
+	return (
+		enabledNodes.find((node) => node.type === EXECUTE_WORKFLOW_TRIGGER_NODE_TYPE) ??
+		enabledNodes.find((node) => node.type === MANUAL_TRIGGER_NODE_TYPE)
+	);
+}
+
+/**
+ * Whether the executions of the workflow are kept once finished, so that the status of
+ * a run can be read after its response. Otherwise they are deleted right away.
+ */
+export function isWorkflowRunSaved(workflow: WorkflowEntity) {
+	const saveSettings = toSaveSettings(workflow.settings);
+	return saveSettings.success && saveSettings.error;
+}
+
+/**
+ * Why the workflow cannot be run in the mode, if it cannot. Without saved executions,
+ * the result of a run is only available to the response that waits for it, and in queue
+ * mode not at all, as workers delete the execution before the main process reads it.
+ */
+export function getWorkflowRunModeError(workflow: WorkflowEntity, mode: 'sync' | 'async') {
+	if (isWorkflowRunSaved(workflow)) return undefined;
+
+	if (config.getEnv('executions.mode') === 'queue') {
+		return 'Workflow does not save its executions, so it cannot be run in queue mode';
+	}
+
+	if (mode === 'async') {
+		return 'Workflow does not save its executions, so it can only be run in sync mode';
+	}
+
+	return undefined;
+}
+
+/** Start a run of the workflow with the input items, returning the ID of the execution */
+export async function startWorkflowRun(
+	workflow: WorkflowEntity,
+	startNode: INode,
+	items: IDataObject[],
+	user: User,
+): Promise<string> {
+	const executionData: IRunExecutionData = {
+		startData: {},
+		resultData: { runData: {} },
+		executionData: {
+			contextData: {},
+			metadata: {},
+			nodeExecutionStack: [
+				{
+					node: startNode,
+					data: { main: [items.map((json) => ({ json }))] },
+					source: null,
+				},
+			],
+			waitingExecution: {},
+			waitingExecutionSource: {},
+		},
+	};
+
+	const project = await Container.get(OwnershipService).getWorkflowProjectCached(workflow.id);
+
+	return await Container.get(WorkflowRunner).run({
+		executionMode: 'integrated',
+		executionData,
+		workflowData: workflow,
+		userId: user.id,
+		projectId: project.id,
+	});
+}
+
+type WorkflowRun = Pick<IRun, 'data' | 'finished' | 'mode' | 'status'>;
+
+/**
+ * Wait for a run of a workflow to finish, for at most the timeout.
+ * Resolves with `undefined` if the execution is still running by then.
+ */
+export async function waitForWorkflowRun(
+	executionId: string,
+	timeoutMs: number,
+): Promise<WorkflowRun | undefined> {
+	const activeExecutions = Container.get(ActiveExecutions);
+
+	// the execution may have finished already
+	if (!activeExecutions.has(executionId)) {
+		return await Container.get(ExecutionRepository).findSingleExecution(executionId, {
+			includeData: true,
+			unflattenData: true,
+		});
+	}
+
+	let timer: NodeJS.Timeout | undefined;
+	const timeout = new Promise<undefined>((resolve) => {
+		timer = setTimeout(() => resolve(undefined), timeoutMs);
+	});
+
+	try {
+		return await Promise.race([activeExecutions.getPostExecutePromise(executionId), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+export const isWorkflowRunDone = (run: WorkflowRun) =>
+	!['new', 'running', 'waiting'].includes(run.status);
+
+/** Status of a run of a workflow, with the output items of its last node once finished */
+export function toWorkflowRunResult(executionId: string, run: WorkflowRun) {
+	const isDone = isWorkflowRunDone(run);
+	const error = run.data.resultData.error;
+	const output = isDone && !error ? getDataLastExecutedNodeData(run as IRun)?.data?.main[0] : null;
+
+	return {
+		executionId,
+		status: run.status,
+		finished: run.finished ?? false,
+		...(isDone && !error && { data: (output ?? []).map((item) => item.json) }),
+		...(error && { error: error.message }),
+	};
+}
@@ -9,6 +9,7 @@ import type { PaginatedRequest } from '../../../types';
 import { decodeCursor } from '../services/pagination.service';
 import type { Scope } from '@n8n/permissions';
 import { userHasScope } from '@/permissions/checkAccess';
+import { ApiKeyService } from '@/services/api-key.service';
 import type { BooleanLicenseFeature } from '@/Interfaces';
 import { FeatureNotLicensedError } from '@/errors/feature-not-licensed.error';
 
@@ -16,16 +17,46 @@ const UNLIMITED_USERS_QUOTA = -1;
 
 export type ProjectScopeResource = 'workflow' | 'credential';
 
+/**
+ * Whether the scoped API key the request was authenticated with, if any, grants
+ * the scopes and covers the project or resource of the request.
+ */
+const apiKeyHasAccess = async (
+	req: AuthenticatedRequest<{ id?: string; projectId?: string }>,
+	scopes: Scope[],
+	resource?: ProjectScopeResource,
+) => {
+	const { apiKey } = req;
+	if (!apiKey) return true;
+
+	const apiKeyService = Container.get(ApiKeyService);
+	if (!apiKeyService.hasScope(apiKey, scopes)) return false;
+
+	if (req.params.projectId && !apiKeyService.isProjectAllowed(apiKey, req.params.projectId)) {
+		return false;
+	}
+
+	if (resource && req.params.id) {
+		return await apiKeyService.isResourceAllowed(apiKey, resource, req.params.id);
+	}
+
+	return true;
+};
+
 const buildScopeMiddleware = (
 	scopes: Scope[],
 	resource?: ProjectScopeResource,
 	{ globalOnly } = { globalOnly: false },
 ) => {
 	return async (
-		req: AuthenticatedRequest<{ id?: string }>,
+		req: AuthenticatedRequest<{ id?: string; projectId?: string }>,
 		res: express.Response,
 		next: express.NextFunction,
 	): Promise<express.Response | void> => {
+		if (!(await apiKeyHasAccess(req, scopes, resource))) {
+			return res.status(403).json({ message: 'Forbidden' });
+		}
+
 		const params: { credentialId?: string; workflowId?: string } = {};
 		if (req.params.id) {
 			if (resource === 'workflow') {
@@ -48,6 +79,24 @@ export const globalScope = (scopes: Scope | Scope[]) =>
 export const projectScope = (scopes: Scope | Scope[], resource: ProjectScopeResource) =>
 	buildScopeMiddleware(Array.isArray(scopes) ? scopes : [scopes], resource, { globalOnly: false });
 
+/**
+ * Check only the scopes of the scoped API key, for endpoints whose access to
+ * resources is otherwise checked by the handler itself.
+ */
+export const apiKeyScope = (scopes: Scope | Scope[]) => {
+	return async (
+		req: AuthenticatedRequest,
+		res: express.Response,
+		next: express.NextFunction,
+	): Promise<express.Response | void> => {
+		if (!(await apiKeyHasAccess(req, Array.isArray(scopes) ? scopes : [scopes]))) {
+			return res.status(403).json({ message: 'Forbidden' });
+		}
+
+		return next();
+	};
+};
+
 export const validCursor = (
 	req: PaginatedRequest,
 	res: express.Response,
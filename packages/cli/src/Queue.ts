@@ -19,6 +19,9 @@ export type JobQueue = Bull.Queue<JobData>;
 export interface JobData {
 	executionId: string;
 	loadStaticData: boolean;
+
+	/** W3C `traceparent` of the span that enqueued the job, to continue its trace in the worker */
+	traceparent?: string;
 }
 
 export interface JobResponse {
@@ -120,6 +123,10 @@ export class Queue {
 		return new Set(inProgressJobs.map((job) => job.data.executionId));
 	}
 
+	async getJobCounts() {
+		return await this.jobQueue.getJobCounts();
+	}
+
 	async process(fn: Bull.ProcessCallbackFunction<JobData>): Promise<void> {
 		return await this.jobQueue.process(this.concurrency, fn);
 	}
@@ -1,4 +1,4 @@
-import type { SecretsHelpersBase } from 'n8n-workflow';
+import type { SecretReference, SecretsHelpersBase } from 'n8n-workflow';
 import { Service } from 'typedi';
 import { ExternalSecretsManager } from './ExternalSecrets/ExternalSecretsManager.ee';
 
@@ -19,8 +19,8 @@ export class SecretsHelper implements SecretsHelpersBase {
 		}
 	}
 
-	getSecret(provider: string, name: string) {
-		return this.service.getSecret(provider, name);
+	getSecret(provider: string, name: string, leaseScope?: string) {
+		return this.service.getSecret(provider, name, leaseScope);
 	}
 
 	hasSecret(provider: string, name: string): boolean {
@@ -38,4 +38,12 @@ export class SecretsHelper implements SecretsHelpersBase {
 	listSecrets(provider: string): string[] {
 		return this.service.getSecretNames(provider) ?? [];
 	}
+
+	async leaseSecrets(leaseScope: string, references: SecretReference[]) {
+		await this.service.leaseSecrets(leaseScope, references);
+	}
+
+	async releaseSecrets(leaseScope: string) {
+		await this.service.releaseSecrets(leaseScope);
+	}
 }
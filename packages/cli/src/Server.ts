@@ -38,6 +38,7 @@ import { OrchestrationService } from '@/services/orchestration.service';
 import { LogStreamingEventRelay } from '@/events/log-streaming-event-relay';
 
 import '@/controllers/activeWorkflows.controller';
+import '@/controllers/apiKeys.controller';
 import '@/controllers/auth.controller';
 import '@/controllers/binaryData.controller';
 import '@/controllers/curl.controller';
@@ -63,6 +64,7 @@ import '@/executions/executions.controller';
 import '@/ExternalSecrets/ExternalSecrets.controller.ee';
 import '@/license/license.controller';
 import '@/workflows/workflowHistory/workflowHistory.controller.ee';
+import '@/workflows/workflowTests/workflowTests.controller';
 import '@/workflows/workflows.controller';
 import { EventService } from './events/event.service';
 
@@ -149,6 +151,29 @@ export class Server extends AbstractServer {
 			this.logger.warn(`SAML initialization failed: ${(error as Error).message}`);
 		}
 
+		// ----------------------------------------
+		// OIDC
+		// ----------------------------------------
+
+		try {
+			const { OidcService } = await import('@/sso/oidc/oidc.service.ee');
+			await Container.get(OidcService).init();
+			await import('@/sso/oidc/routes/oidc.controller.ee');
+		} catch (error) {
+			this.logger.warn(`OIDC initialization failed: ${(error as Error).message}`);
+		}
+
+		// ----------------------------------------
+		// SCIM
+		// ----------------------------------------
+
+		try {
+			await import('@/scim/scim.controller.ee');
+			await import('@/scim/scim-settings.controller.ee');
+		} catch (error) {
+			this.logger.warn(`SCIM initialization failed: ${(error as Error).message}`);
+		}
+
 		// ----------------------------------------
 		// Source Control
 		// ----------------------------------------
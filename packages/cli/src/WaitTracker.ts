@@ -30,6 +30,11 @@ export class WaitTracker {
 		return this.waitingExecutions[executionId] !== undefined;
 	}
 
+	/** Number of waiting executions scheduled to resume in this process. */
+	get waitingCount() {
+		return Object.keys(this.waitingExecutions).length;
+	}
+
 	/**
 	 * @important Requires `OrchestrationService` to be initialized.
 	 */
@@ -123,6 +128,7 @@ export class WaitTracker {
 				executionData: fullExecutionData.data,
 				workflowData: fullExecutionData.workflowData,
 				projectId: project.id,
+				retryOf: fullExecutionData.retryOf,
 			};
 
 			// Start the execution again
@@ -12,7 +12,7 @@ import get from 'lodash/get';
 import { finished } from 'stream/promises';
 import formidable from 'formidable';
 
-import { BinaryDataService, NodeExecuteFunctions } from 'n8n-core';
+import { BinaryDataService, NodeExecuteFunctions, TRACEPARENT_HEADER, Tracer } from 'n8n-core';
 
 import type {
 	IBinaryData,
@@ -64,6 +64,7 @@ import { NotFoundError } from './errors/response-errors/not-found.error';
 import { InternalServerError } from './errors/response-errors/internal-server.error';
 import { UnprocessableRequestError } from './errors/response-errors/unprocessable.error';
 import type { Project } from './databases/entities/Project';
+import { TriggerPolicyService } from './triggers/trigger-policy.service';
 
 export const WEBHOOK_METHODS: IHttpRequestMethods[] = [
 	'DELETE',
@@ -139,7 +140,19 @@ export const webhookRequestHandler =
 
 		let response;
 		try {
-			response = await webhookManager.executeWebhook(req, res);
+			response = await Container.get(Tracer).startActiveSpan(
+				`webhook ${method} ${path}`,
+				{
+					kind: 'server',
+					parent: req.header(TRACEPARENT_HEADER),
+					attributes: { 'http.request.method': method, 'url.path': req.path },
+				},
+				async (span) => {
+					const webhookResponse = await webhookManager.executeWebhook(req, res);
+					span?.setAttribute('http.response.status_code', webhookResponse.responseCode ?? 200);
+					return webhookResponse;
+				},
+			);
 		} catch (error) {
 			return ResponseHelper.sendErrorResponse(res, error as Error);
 		}
@@ -548,6 +561,46 @@ export async function executeWebhook(
 			projectId: project?.id,
 		};
 
+		const triggerPolicyService = Container.get(TriggerPolicyService);
+		if (
+			executionId === undefined &&
+			responseMode === 'onReceived' &&
+			Object.keys(runExecutionDataMerge).length === 0 &&
+			triggerPolicyService.appliesTo(workflowStartNode, executionMode)
+		) {
+			// The response was sent already, so the events can be batched and run later
+			triggerPolicyService.submit(
+				{
+					workflow,
+					node: workflowStartNode,
+					data: webhookResultData.workflowData,
+					mode: executionMode,
+				},
+				async (data) =>
+					await Container.get(WorkflowRunner).run(
+						{
+							...runData,
+							executionData: {
+								startData: {},
+								resultData: { runData: {} },
+								executionData: {
+									contextData: {},
+									nodeExecutionStack: [
+										{ node: workflowStartNode, data: { main: data }, source: null },
+									],
+									metadata: {},
+									waitingExecution: {},
+									waitingExecutionSource: {},
+								},
+							},
+						},
+						true,
+					),
+			);
+
+			return;
+		}
+
 		let responsePromise: IDeferredPromise<IN8nHttpFullResponse> | undefined;
 		if (responseMode === 'responseNode') {
 			responsePromise = await createDeferredPromise<IN8nHttpFullResponse>();
@@ -1,4 +1,4 @@
-import { Service } from 'typedi';
+import { Container, Service } from 'typedi';
 import { AbstractServer } from '@/AbstractServer';
 
 @Service()
@@ -6,4 +6,11 @@ export class WebhookServer extends AbstractServer {
 	constructor() {
 		super('webhook');
 	}
+
+	async configure() {
+		if (this.globalConfig.endpoints.metrics.enable) {
+			const { PrometheusMetricsService } = await import('@/metrics/prometheus-metrics.service');
+			await Container.get(PrometheusMetricsService).init(this.app);
+		}
+	}
 }
@@ -3,7 +3,7 @@
 
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
-import { WorkflowExecute } from 'n8n-core';
+import { Tracer, WorkflowExecute } from 'n8n-core';
 
 import type {
 	IDataObject,
@@ -53,6 +53,8 @@ import * as WorkflowHelpers from '@/WorkflowHelpers';
 import { findSubworkflowStart, isWorkflowIdValid } from '@/utils';
 import { PermissionChecker } from './UserManagement/PermissionChecker';
 import { ExecutionRepository } from '@db/repositories/execution.repository';
+import { RetryPolicyService } from '@/executions/retry-policy.service';
+import { DeadLetterService } from '@/executions/dead-letter.service';
 import { WorkflowStatisticsService } from '@/services/workflow-statistics.service';
 import { SecretsHelper } from './SecretsHelpers';
 import { OwnershipService } from './services/ownership.service';
@@ -384,9 +386,74 @@ export function hookFunctionsPreExecute(): IWorkflowExecuteHooks {
 				);
 			},
 		],
+		workflowExecuteAfter: [
+			async function (this: WorkflowHooks): Promise<void> {
+				await Container.get(SecretsHelper).releaseSecrets(this.executionId);
+			},
+		],
 	};
 }
 
+/**
+ * Handle a failed execution by scheduling a retry per the retry policy of its workflow
+ * or, if no retry is scheduled, by enqueueing it in the dead-letter queue.
+ *
+ * @returns Whether a retry was scheduled.
+ */
+async function handleFailedExecution(
+	hooks: WorkflowHooks,
+	fullRunData: IRun,
+	executionStatus: ExecutionStatus,
+) {
+	if (executionStatus !== 'error') return false;
+
+	const { executionId, retryOf, mode, workflowData } = hooks;
+
+	const isRetryScheduled = await Container.get(RetryPolicyService).scheduleRetry({
+		executionId,
+		retryOf,
+		mode,
+		workflowData,
+		fullRunData,
+	});
+
+	if (!isRetryScheduled) {
+		await Container.get(DeadLetterService).enqueue({
+			executionId,
+			mode,
+			workflowData,
+			fullRunData,
+		});
+	}
+
+	return isRetryScheduled;
+}
+
+/**
+ * Hard-delete a finished execution that is not to be saved, unless a retry of it
+ * is scheduled, as the retry traces its attempts back through it. A failure is
+ * handled first, so that its dead-letter entry is captured before deletion.
+ *
+ * @returns Whether a retry was scheduled, so that the execution is kept.
+ */
+async function discardUnlessRetried(
+	hooks: WorkflowHooks,
+	fullRunData: IRun,
+	executionStatus: ExecutionStatus,
+) {
+	const { executionId, retryOf, mode, workflowData } = hooks;
+
+	const isRetryScheduled = await handleFailedExecution(hooks, fullRunData, executionStatus);
+
+	if (isRetryScheduled) return true;
+
+	executeErrorWorkflow(workflowData, fullRunData, mode, executionId, retryOf);
+
+	await Container.get(ExecutionRepository).hardDelete({ workflowId: workflowData.id, executionId });
+
+	return false;
+}
+
 /**
  * Returns hook functions to save workflow execution and call error workflow
  *
@@ -465,22 +532,13 @@ function hookFunctionsSave(): IWorkflowExecuteHooks {
 						(executionStatus === 'success' && !saveSettings.success) ||
 						(executionStatus !== 'success' && !saveSettings.error);
 
-					if (shouldNotSave) {
-						if (!fullRunData.waitTill && !isManualMode) {
-							executeErrorWorkflow(
-								this.workflowData,
-								fullRunData,
-								this.mode,
-								this.executionId,
-								this.retryOf,
-							);
-							await Container.get(ExecutionRepository).hardDelete({
-								workflowId: this.workflowData.id,
-								executionId: this.executionId,
-							});
+					let isRetryScheduled: boolean | undefined;
 
-							return;
-						}
+					if (shouldNotSave && !fullRunData.waitTill && !isManualMode) {
+						isRetryScheduled = await discardUnlessRetried(this, fullRunData, executionStatus);
+
+						// if retried, it is saved after all
+						if (!isRetryScheduled) return;
 					}
 
 					// Although it is treated as IWorkflowBase here, it's being instantiated elsewhere with properties that may be sensitive
@@ -498,7 +556,10 @@ function hookFunctionsSave(): IWorkflowExecuteHooks {
 						executionData: fullExecutionData,
 					});
 
-					if (!isManualMode) {
+					isRetryScheduled ??= await handleFailedExecution(this, fullRunData, executionStatus);
+
+					// the error workflow runs only once retries are exhausted
+					if (!isManualMode && !isRetryScheduled) {
 						executeErrorWorkflow(
 							this.workflowData,
 							fullRunData,
@@ -600,7 +661,18 @@ function hookFunctionsSaveWorker(): IWorkflowExecuteHooks {
 
 					const workflowStatusFinal = determineFinalExecutionStatus(fullRunData);
 
-					if (workflowStatusFinal !== 'success' && workflowStatusFinal !== 'waiting') {
+					const isRetryScheduled = await handleFailedExecution(
+						this,
+						fullRunData,
+						workflowStatusFinal,
+					);
+
+					// the error workflow runs only once retries are exhausted
+					if (
+						workflowStatusFinal !== 'success' &&
+						workflowStatusFinal !== 'waiting' &&
+						!isRetryScheduled
+					) {
 						executeErrorWorkflow(
 							this.workflowData,
 							fullRunData,
@@ -871,9 +943,24 @@ async function executeWorkflow(
 				workflowExecute,
 			};
 		}
-		const execution = workflowExecute.processRunExecutionData(workflow);
-		activeExecutions.attachWorkflowExecution(executionId, execution);
-		data = await execution;
+		// Traced as a child of the span of the calling node
+		data = await Container.get(Tracer).startActiveSpan(
+			`workflow.execute ${workflowData.name}`,
+			{
+				attributes: {
+					'n8n.workflow.id': workflowData.id,
+					'n8n.workflow.name': workflowData.name,
+					'n8n.execution.id': executionId,
+					'n8n.execution.mode': runData.executionMode,
+					'n8n.workflow.parent_id': options.parentWorkflowId,
+				},
+			},
+			async () => {
+				const execution = workflowExecute.processRunExecutionData(workflow);
+				activeExecutions.attachWorkflowExecution(executionId, execution);
+				return await execution;
+			},
+		);
 	} catch (error) {
 		const executionError = error ? (error as ExecutionError) : undefined;
 		const fullRunData: IRun = {
@@ -1107,6 +1194,13 @@ export function getWorkflowHooksWorkerMain(
 				(executionStatus !== 'success' && !saveSettings.error);
 
 			if (shouldNotSave) {
+				// kept if the worker scheduled a retry, as the retry traces its attempts back through it
+				const isRetryScheduled =
+					executionStatus === 'error' &&
+					(await Container.get(RetryPolicyService).hasScheduledRetry(this.executionId));
+
+				if (isRetryScheduled) return;
+
 				await Container.get(ExecutionRepository).hardDelete({
 					workflowId: this.workflowData.id,
 					executionId: this.executionId,
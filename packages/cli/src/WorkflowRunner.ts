@@ -3,7 +3,8 @@
 /* eslint-disable @typescript-eslint/no-shadow */
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 import { Container, Service } from 'typedi';
-import { WorkflowExecute } from 'n8n-core';
+import { Tracer, WorkflowExecute } from 'n8n-core';
+import type { Span } from 'n8n-core';
 
 import type {
 	ExecutionError,
@@ -36,7 +37,9 @@ import { generateFailedExecutionFromError } from '@/WorkflowHelpers';
 import { PermissionChecker } from '@/UserManagement/PermissionChecker';
 import { Logger } from '@/Logger';
 import { WorkflowStaticDataService } from '@/workflows/workflowStaticData.service';
+import { WorkflowHttpRecordingService } from '@/workflows/workflowHttpRecording.service';
 import { EventService } from './events/event.service';
+import { toExecutionPriority } from './concurrency/execution-priority';
 
 @Service()
 export class WorkflowRunner {
@@ -53,6 +56,8 @@ export class WorkflowRunner {
 		private readonly nodeTypes: NodeTypes,
 		private readonly permissionChecker: PermissionChecker,
 		private readonly eventService: EventService,
+		private readonly workflowHttpRecordingService: WorkflowHttpRecordingService,
+		private readonly tracer: Tracer,
 	) {
 		if (this.executionsMode === 'queue') {
 			this.jobQueue = Container.get(Queue);
@@ -145,7 +150,13 @@ export class WorkflowRunner {
 			// frontend would not be possible
 			await this.enqueueExecution(executionId, data, loadStaticData, realtime);
 		} else {
-			await this.runMainProcess(executionId, data, loadStaticData, restartExecutionId);
+			const span = this.startExecutionSpan(executionId, data);
+			await this.tracer.withActiveSpan(
+				span,
+				async () =>
+					await this.runMainProcess(executionId, data, loadStaticData, restartExecutionId),
+			);
+			this.endExecutionSpanOnFinish(executionId, span);
 			this.eventService.emit('workflow-pre-execute', { executionId, data });
 		}
 
@@ -191,6 +202,34 @@ export class WorkflowRunner {
 		return executionId;
 	}
 
+	/** Start a span for an execution in the current process, if tracing is enabled */
+	private startExecutionSpan(executionId: string, data: IWorkflowExecutionDataProcess) {
+		if (!this.tracer.isEnabled) return undefined;
+
+		return this.tracer.startSpan(`workflow.execute ${data.workflowData.name}`, {
+			attributes: {
+				'n8n.workflow.id': data.workflowData.id,
+				'n8n.workflow.name': data.workflowData.name,
+				'n8n.execution.id': executionId,
+				'n8n.execution.mode': data.executionMode,
+			},
+		});
+	}
+
+	private endExecutionSpanOnFinish(executionId: string, span?: Span) {
+		if (!span) return;
+
+		this.activeExecutions
+			.getPostExecutePromise(executionId)
+			.then((runData) => {
+				if (runData?.status) span.setAttribute('n8n.execution.status', runData.status);
+				const error = runData?.data.resultData.error;
+				if (error) this.tracer.recordError(span, error);
+			})
+			.catch((error) => this.tracer.recordError(span, error))
+			.finally(() => span.end());
+	}
+
 	/** Run the workflow in current process */
 	private async runMainProcess(
 		executionId: string,
@@ -241,6 +280,13 @@ export class WorkflowRunner {
 
 		additionalData.executionId = executionId;
 
+		if (data.executionMode === 'manual' && workflowId) {
+			additionalData.httpRecording = await this.workflowHttpRecordingService.startSession(
+				workflowId,
+				workflowSettings.httpRecording,
+			);
+		}
+
 		this.logger.verbose(
 			`Execution for workflow ${data.workflowData.name} was assigned id ${executionId}`,
 			{ executionId },
@@ -325,6 +371,12 @@ export class WorkflowRunner {
 					}
 					fullRunData.status = this.activeExecutions.getStatus(executionId);
 					this.activeExecutions.remove(executionId, fullRunData);
+					if (additionalData.httpRecording) {
+						void this.workflowHttpRecordingService.saveSession(
+							workflowId,
+							additionalData.httpRecording,
+						);
+					}
 				})
 				.catch(
 					async (error) =>
@@ -360,11 +412,9 @@ export class WorkflowRunner {
 			loadStaticData: !!loadStaticData,
 		};
 
-		let priority = 100;
-		if (realtime === true) {
-			// Jobs which require a direct response get a higher priority
-			priority = 50;
-		}
+		// Jobs which require a direct response get a higher priority within their lane
+		const priority = toExecutionPriority(data.workflowData.settings, { realtime });
+
 		// TODO: For realtime jobs should probably also not do retry or not retry if they are older than x seconds.
 		//       Check if they get retried by default and how often.
 		const jobOptions = {
@@ -375,7 +425,22 @@ export class WorkflowRunner {
 		let job: Job;
 		let hooks: WorkflowHooks;
 		try {
-			job = await this.jobQueue.add(jobData, jobOptions);
+			job = await this.tracer.startActiveSpan(
+				`workflow.enqueue ${data.workflowData.name}`,
+				{
+					kind: 'producer',
+					attributes: {
+						'n8n.workflow.id': data.workflowData.id,
+						'n8n.execution.id': executionId,
+						'n8n.execution.mode': data.executionMode,
+					},
+				},
+				async () => {
+					// Continue the trace in the worker picking up the job
+					jobData.traceparent = this.tracer.getTraceparent();
+					return await this.jobQueue.add(jobData, jobOptions);
+				},
+			);
 
 			this.logger.info(`Started with job ID: ${job.id.toString()} (Execution ID: ${executionId})`);
 
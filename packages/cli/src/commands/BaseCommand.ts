@@ -24,6 +24,7 @@ import { generateHostInstanceId } from '@db/utils/generators';
 import { WorkflowHistoryManager } from '@/workflows/workflowHistory/workflowHistoryManager.ee';
 import { ShutdownService } from '@/shutdown/Shutdown.service';
 import { TelemetryEventRelay } from '@/events/telemetry-event-relay';
+import { TracingService } from '@/services/tracing.service';
 
 export abstract class BaseCommand extends Command {
 	protected logger = Container.get(Logger);
@@ -61,6 +62,8 @@ export abstract class BaseCommand extends Command {
 		// Make sure the settings exist
 		this.instanceSettings = Container.get(InstanceSettings);
 
+		Container.get(TracingService).init();
+
 		this.nodeTypes = Container.get(NodeTypes);
 		await Container.get(LoadNodesAndCredentials).init();
 
@@ -302,7 +305,9 @@ export abstract class BaseCommand extends Command {
 			await sleep(100); // give any in-flight query some time to finish
 			await Db.close();
 		}
-		const exitCode = error instanceof Errors.ExitError ? error.oclif.exit : error ? 1 : 0;
+		// commands can report a failure without throwing, by setting `process.exitCode`
+		let exitCode: number | undefined = error ? 1 : Number(process.exitCode ?? 0);
+		if (error instanceof Errors.ExitError) exitCode = error.oclif.exit;
 		this.exit(exitCode);
 	}
 
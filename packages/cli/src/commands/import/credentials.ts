@@ -16,6 +16,7 @@ import { UM_FIX_INSTRUCTION } from '@/constants';
 import { ProjectRepository } from '@/databases/repositories/project.repository';
 import { Project } from '@/databases/entities/Project';
 import { User } from '@/databases/entities/User';
+import { SecretUsageService } from '@/services/secret-usage.service';
 
 export class ImportCredentialsCommand extends BaseCommand {
 	static description = 'Import credentials';
@@ -71,6 +72,7 @@ export class ImportCredentialsCommand extends BaseCommand {
 		}
 
 		const credentials = await this.readCredentials(flags.input, flags.separate);
+		const credentialIds: string[] = [];
 
 		await Db.getConnection().transaction(async (transactionManager) => {
 			this.transactionManager = transactionManager;
@@ -84,10 +86,16 @@ export class ImportCredentialsCommand extends BaseCommand {
 			}
 
 			for (const credential of credentials) {
-				await this.storeCredential(credential, project);
+				credentialIds.push(await this.storeCredential(credential, project));
 			}
 		});
 
+		// the index is updated once the credentials are committed
+		const secretUsageService = Container.get(SecretUsageService);
+		for (const credentialId of credentialIds) {
+			await secretUsageService.reindex('credential', credentialId);
+		}
+
 		this.reportSuccess(credentials.length);
 	}
 
@@ -106,6 +114,7 @@ export class ImportCredentialsCommand extends BaseCommand {
 
 	private async storeCredential(credential: Partial<CredentialsEntity>, project: Project) {
 		const result = await this.transactionManager.upsert(CredentialsEntity, credential, ['id']);
+		const credentialId = result.identifiers[0].id as string;
 
 		const sharingExists = await this.transactionManager.existsBy(SharedCredentials, {
 			credentialsId: credential.id,
@@ -116,13 +125,15 @@ export class ImportCredentialsCommand extends BaseCommand {
 			await this.transactionManager.upsert(
 				SharedCredentials,
 				{
-					credentialsId: result.identifiers[0].id as string,
+					credentialsId: credentialId,
 					role: 'credential:owner',
 					projectId: project.id,
 				},
 				['credentialsId', 'projectId'],
 			);
 		}
+
+		return credentialId;
 	}
 
 	private async checkRelations(
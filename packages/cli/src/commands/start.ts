@@ -22,6 +22,10 @@ import { License } from '@/License';
 import { OrchestrationService } from '@/services/orchestration.service';
 import { OrchestrationHandlerMainService } from '@/services/orchestration/main/orchestration.handler.main.service';
 import { PruningService } from '@/services/pruning.service';
+import { SecretUsageService } from '@/services/secret-usage.service';
+import { CredentialExpiryService } from '@/credentials/credential-expiry.service';
+import { CredentialHealthService } from '@/credentials/credential-health.service';
+import { CredentialRotationService } from '@/credentials/credential-rotation.service';
 import { UrlService } from '@/services/url.service';
 import { SettingsRepository } from '@db/repositories/settings.repository';
 import { ExecutionRepository } from '@db/repositories/execution.repository';
@@ -300,6 +304,10 @@ export class Start extends BaseCommand {
 
 		Container.get(PruningService).init();
 		Container.get(ExecutionRecoveryService).init();
+		Container.get(SecretUsageService).init();
+		Container.get(CredentialRotationService).init();
+		Container.get(CredentialExpiryService).init();
+		Container.get(CredentialHealthService).init();
 
 		if (config.getEnv('executions.mode') === 'regular') {
 			await this.runEnqueuedExecutions();
@@ -0,0 +1,121 @@
+import { Container } from 'typedi';
+import { Flags } from '@oclif/core';
+import fs from 'fs';
+import type { WorkflowTest } from 'n8n-workflow';
+import { WorkflowRepository } from '@db/repositories/workflow.repository';
+import { WorkflowTestCaseRepository } from '@db/repositories/workflowTestCase.repository';
+import { OwnershipService } from '@/services/ownership.service';
+import { WorkflowTestRunner } from '@/workflows/workflowTests/workflowTestRunner.service';
+import { toJUnitXml } from '@/workflows/workflowTests/junit';
+import { BaseCommand } from '../BaseCommand';
+
+export class TestWorkflowCommand extends BaseCommand {
+	static description = '\nRuns the test cases of workflows';
+
+	static examples = [
+		'$ n8n test:workflow --id=5',
+		'$ n8n test:workflow --all',
+		'$ n8n test:workflow --all --junit=reports/workflows.xml',
+	];
+
+	static flags = {
+		help: Flags.help({ char: 'h' }),
+		id: Flags.string({
+			description: 'The ID of the workflow to run the test cases of',
+		}),
+		all: Flags.boolean({
+			description: 'Run the test cases of all workflows',
+		}),
+		junit: Flags.string({
+			description: 'Write a JUnit XML report to this file',
+		}),
+	};
+
+	async init() {
+		await super.init();
+		await this.initBinaryDataService();
+		await this.initExternalHooks();
+	}
+
+	async run() {
+		const { flags } = await this.parse(TestWorkflowCommand);
+
+		if (!flags.all && !flags.id) {
+			this.logger.info('Either option "--all" or "--id" have to be set!');
+			this.logUsage();
+			process.exitCode = 1;
+			return;
+		}
+
+		if (flags.all && flags.id) {
+			this.logger.info('You should either use "--all" or "--id" but never both!');
+			this.logUsage();
+			process.exitCode = 1;
+			return;
+		}
+
+		const testCases = await Container.get(WorkflowTestCaseRepository).find({
+			where: flags.id ? { workflowId: flags.id } : {},
+			order: { createdAt: 'ASC' },
+		});
+
+		if (testCases.length === 0) {
+			this.logger.info('No test cases found');
+			return;
+		}
+
+		const workflowIds = [...new Set(testCases.map((testCase) => testCase.workflowId))];
+		const user = await Container.get(OwnershipService).getInstanceOwner();
+		const runner = Container.get(WorkflowTestRunner);
+		const suites: WorkflowTest.SuiteResult[] = [];
+
+		for (const workflowId of workflowIds) {
+			const workflow = await Container.get(WorkflowRepository).findOneByOrFail({ id: workflowId });
+			const suite = await runner.runSuite(
+				workflow,
+				testCases.filter((testCase) => testCase.workflowId === workflowId),
+				user.id,
+			);
+
+			this.log(`\n${suite.workflowName} (${suite.workflowId})`);
+
+			for (const result of suite.results) {
+				this.log(`  ${result.status.toUpperCase()} ${result.name} (${result.durationMs}ms)`);
+
+				if (result.error) this.log(`    ${result.error}`);
+
+				for (const failure of result.failures) this.log(`    ${failure.message}`);
+			}
+
+			suites.push(suite);
+		}
+
+		const total = (key: 'tests' | 'passed' | 'failed' | 'errors') =>
+			suites.reduce((acc, suite) => acc + suite[key], 0);
+
+		this.log(
+			`\n${total('tests')} tests: ${total('passed')} passed, ${total('failed')} failed, ${total('errors')} errors`,
+		);
+
+		if (flags.junit) {
+			fs.writeFileSync(flags.junit, toJUnitXml(suites));
+			this.logger.info(`JUnit report written to ${flags.junit}`);
+		}
+
+		if (total('failed') + total('errors') > 0) process.exitCode = 1;
+	}
+
+	private logUsage() {
+		this.log(
+			['\nUsage:', ...TestWorkflowCommand.examples.map((example) => `  ${example}`)].join('\n'),
+		);
+	}
+
+	async catch(error: Error) {
+		this.logger.error('Error running workflow tests. See log messages for details.');
+		this.logger.error(error.message);
+
+		// fail the CI pipeline running the tests, as tests could not be run
+		process.exitCode = 1;
+	}
+}
@@ -4,7 +4,7 @@ import express from 'express';
 import http from 'http';
 import type PCancelable from 'p-cancelable';
 import { GlobalConfig } from '@n8n/config';
-import { WorkflowExecute } from 'n8n-core';
+import { Tracer, WorkflowExecute } from 'n8n-core';
 import type { ExecutionStatus, IExecuteResponsePromiseData, INodeTypes, IRun } from 'n8n-workflow';
 import { Workflow, sleep, ApplicationError } from 'n8n-workflow';
 
@@ -322,7 +322,21 @@ export class Worker extends BaseCommand {
 		const concurrency = envConcurrency !== -1 ? envConcurrency : flags.concurrency;
 		Worker.jobQueue.setConcurrency(concurrency);
 
-		void Worker.jobQueue.process(async (job) => await this.runJob(job, this.nodeTypes));
+		void Worker.jobQueue.process(
+			async (job) =>
+				await Container.get(Tracer).startActiveSpan(
+					'worker.job',
+					{
+						kind: 'consumer',
+						parent: job.data.traceparent,
+						attributes: {
+							'n8n.job.id': job.id.toString(),
+							'n8n.execution.id': job.data.executionId,
+						},
+					},
+					async () => await this.runJob(job, this.nodeTypes),
+				),
+		);
 
 		Worker.jobQueue.getBullObjectInstance().on('global:progress', (jobId: JobId, progress) => {
 			// Progress of a job got updated which does get used
@@ -430,6 +444,11 @@ export class Worker extends BaseCommand {
 		let presetCredentialsLoaded = false;
 
 		const globalConfig = Container.get(GlobalConfig);
+
+		if (globalConfig.endpoints.metrics.enable) {
+			const { PrometheusMetricsService } = await import('@/metrics/prometheus-metrics.service');
+			await Container.get(PrometheusMetricsService).init(app);
+		}
 		const endpointPresetCredentials = globalConfig.credentials.overwrite.endpoint;
 		if (endpointPresetCredentials !== '') {
 			// POST endpoint to set preset credentials
@@ -483,7 +502,11 @@ export class Worker extends BaseCommand {
 		this.logger.info(` * Concurrency: ${flags.concurrency}`);
 		this.logger.info('');
 
-		if (config.getEnv('queue.health.active')) {
+		// metrics are served on the health check port, as workers have no other server
+		if (
+			config.getEnv('queue.health.active') ||
+			Container.get(GlobalConfig).endpoints.metrics.enable
+		) {
 			await this.setupHealthMonitor();
 		}
 
@@ -13,12 +13,21 @@ import type { ExecutionRepository } from '@/databases/repositories/execution.rep
 import type { IExecutingWorkflowData } from '@/Interfaces';
 import type { Telemetry } from '@/telemetry';
 import type { EventService } from '@/events/event.service';
+import type { OwnershipService } from '@/services/ownership.service';
+import type { ProjectRepository } from '@/databases/repositories/project.repository';
+import type { Project } from '@/databases/entities/Project';
+import type { CacheService } from '@/services/cache/cache.service';
+import type { SharedConcurrencySlots } from '../shared-concurrency-slots';
 
 describe('ConcurrencyControlService', () => {
 	const logger = mock<Logger>();
 	const executionRepository = mock<ExecutionRepository>();
 	const telemetry = mock<Telemetry>();
 	const eventService = mock<EventService>();
+	const ownershipService = mock<OwnershipService>();
+	const projectRepository = mock<ProjectRepository>();
+	const cacheService = mock<CacheService>();
+	const sharedSlots = mock<SharedConcurrencySlots>();
 
 	afterEach(() => {
 		config.set('executions.concurrency.productionLimit', -1);
@@ -42,6 +51,10 @@ describe('ConcurrencyControlService', () => {
 				executionRepository,
 				telemetry,
 				eventService,
+				ownershipService,
+				projectRepository,
+				cacheService,
+				sharedSlots,
 			);
 
 			/**
@@ -63,7 +76,16 @@ describe('ConcurrencyControlService', () => {
 				/**
 				 * Act
 				 */
-				new ConcurrencyControlService(logger, executionRepository, telemetry, eventService);
+				new ConcurrencyControlService(
+					logger,
+					executionRepository,
+					telemetry,
+					eventService,
+					ownershipService,
+					projectRepository,
+					cacheService,
+					sharedSlots,
+				);
 			} catch (error) {
 				/**
 				 * Assert
@@ -86,6 +108,10 @@ describe('ConcurrencyControlService', () => {
 				executionRepository,
 				telemetry,
 				eventService,
+				ownershipService,
+				projectRepository,
+				cacheService,
+				sharedSlots,
 			);
 
 			/**
@@ -109,6 +135,10 @@ describe('ConcurrencyControlService', () => {
 				executionRepository,
 				telemetry,
 				eventService,
+				ownershipService,
+				projectRepository,
+				cacheService,
+				sharedSlots,
 			);
 
 			/**
@@ -133,6 +163,10 @@ describe('ConcurrencyControlService', () => {
 				executionRepository,
 				telemetry,
 				eventService,
+				ownershipService,
+				projectRepository,
+				cacheService,
+				sharedSlots,
 			);
 
 			/**
@@ -162,6 +196,10 @@ describe('ConcurrencyControlService', () => {
 						executionRepository,
 						telemetry,
 						eventService,
+						ownershipService,
+						projectRepository,
+						cacheService,
+						sharedSlots,
 					);
 					const enqueueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'enqueue');
 
@@ -188,6 +226,10 @@ describe('ConcurrencyControlService', () => {
 					executionRepository,
 					telemetry,
 					eventService,
+					ownershipService,
+					projectRepository,
+					cacheService,
+					sharedSlots,
 				);
 				const enqueueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'enqueue');
 
@@ -217,6 +259,10 @@ describe('ConcurrencyControlService', () => {
 						executionRepository,
 						telemetry,
 						eventService,
+						ownershipService,
+						projectRepository,
+						cacheService,
+						sharedSlots,
 					);
 					const dequeueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'dequeue');
 
@@ -243,13 +289,17 @@ describe('ConcurrencyControlService', () => {
 					executionRepository,
 					telemetry,
 					eventService,
+					ownershipService,
+					projectRepository,
+					cacheService,
+					sharedSlots,
 				);
 				const dequeueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'dequeue');
 
 				/**
 				 * Act
 				 */
-				service.release({ mode });
+				service.release({ mode, executionId: '1' });
 
 				/**
 				 * Assert
@@ -272,6 +322,10 @@ describe('ConcurrencyControlService', () => {
 						executionRepository,
 						telemetry,
 						eventService,
+						ownershipService,
+						projectRepository,
+						cacheService,
+						sharedSlots,
 					);
 					const removeSpy = jest.spyOn(ConcurrencyQueue.prototype, 'remove');
 
@@ -300,6 +354,10 @@ describe('ConcurrencyControlService', () => {
 						executionRepository,
 						telemetry,
 						eventService,
+						ownershipService,
+						projectRepository,
+						cacheService,
+						sharedSlots,
 					);
 					const removeSpy = jest.spyOn(ConcurrencyQueue.prototype, 'remove');
 
@@ -328,6 +386,10 @@ describe('ConcurrencyControlService', () => {
 					executionRepository,
 					telemetry,
 					eventService,
+					ownershipService,
+					projectRepository,
+					cacheService,
+					sharedSlots,
 				);
 
 				jest
@@ -372,6 +434,10 @@ describe('ConcurrencyControlService', () => {
 					executionRepository,
 					telemetry,
 					eventService,
+					ownershipService,
+					projectRepository,
+					cacheService,
+					sharedSlots,
 				);
 				const enqueueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'enqueue');
 
@@ -400,13 +466,17 @@ describe('ConcurrencyControlService', () => {
 					executionRepository,
 					telemetry,
 					eventService,
+					ownershipService,
+					projectRepository,
+					cacheService,
+					sharedSlots,
 				);
 				const dequeueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'dequeue');
 
 				/**
 				 * Act
 				 */
-				service.release({ mode: 'webhook' });
+				service.release({ mode: 'webhook', executionId: '1' });
 
 				/**
 				 * Assert
@@ -427,6 +497,10 @@ describe('ConcurrencyControlService', () => {
 					executionRepository,
 					telemetry,
 					eventService,
+					ownershipService,
+					projectRepository,
+					cacheService,
+					sharedSlots,
 				);
 				const removeSpy = jest.spyOn(ConcurrencyQueue.prototype, 'remove');
 
@@ -443,6 +517,296 @@ describe('ConcurrencyControlService', () => {
 		});
 	});
 
+	// ----------------------------------
+	//          scoped limits
+	// ----------------------------------
+
+	describe('scoped limits', () => {
+		const createService = () =>
+			new ConcurrencyControlService(
+				logger,
+				executionRepository,
+				telemetry,
+				eventService,
+				ownershipService,
+				projectRepository,
+				cacheService,
+				sharedSlots,
+			);
+
+		beforeEach(() => {
+			ownershipService.getWorkflowProjectCached.mockResolvedValue(mock<Project>({ id: 'p1' }));
+			projectRepository.findOne.mockResolvedValue(null);
+			cacheService.getHashValue.mockResolvedValue(undefined);
+			sharedSlots.acquire.mockResolvedValue(true);
+		});
+
+		it('should enforce a workflow limit even if production limit is disabled', async () => {
+			/**
+			 * Arrange
+			 */
+			config.set('executions.mode', 'queue');
+			const service = createService();
+			const workflow = { id: 'w1', settings: { concurrencyLimit: 1 } };
+			const started: string[] = [];
+
+			/**
+			 * Act
+			 */
+			void service.throttle({ mode: 'webhook', executionId: '1', workflow }).then(() => {
+				started.push('1');
+			});
+			void service.throttle({ mode: 'webhook', executionId: '2', workflow }).then(() => {
+				started.push('2');
+			});
+			await new Promise(setImmediate);
+
+			/**
+			 * Assert
+			 */
+			expect(started).toEqual(['1']);
+			expect(service.has('2')).toBe(true);
+			expect(eventService.emit).toHaveBeenCalledWith('execution-throttled', { executionId: '2' });
+
+			service.release({ mode: 'webhook', executionId: '1' });
+			await new Promise(setImmediate);
+
+			expect(started).toEqual(['1', '2']);
+			expect(service.has('2')).toBe(false);
+		});
+
+		it('should not limit workflows without a limit', async () => {
+			/**
+			 * Arrange
+			 */
+			const service = createService();
+			const workflow = { id: 'w1', settings: {} };
+			const enqueueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'enqueue');
+
+			/**
+			 * Act
+			 */
+			await service.throttle({ mode: 'webhook', executionId: '1', workflow });
+			await service.throttle({ mode: 'webhook', executionId: '2', workflow });
+
+			/**
+			 * Assert
+			 */
+			expect(enqueueSpy).not.toHaveBeenCalled();
+		});
+
+		it('should enforce a project limit across workflows of the project', async () => {
+			/**
+			 * Arrange
+			 */
+			projectRepository.findOne.mockResolvedValue(mock<Project>({ concurrencyLimit: 1 }));
+			const service = createService();
+			const started: string[] = [];
+
+			/**
+			 * Act
+			 */
+			void service
+				.throttle({ mode: 'trigger', executionId: '1', workflow: { id: 'w1' } })
+				.then(() => {
+					started.push('1');
+				});
+			void service
+				.throttle({ mode: 'trigger', executionId: '2', workflow: { id: 'w2' } })
+				.then(() => {
+					started.push('2');
+				});
+			await new Promise(setImmediate);
+
+			/**
+			 * Assert
+			 */
+			expect(started).toEqual(['1']);
+
+			service.release({ mode: 'trigger', executionId: '1' });
+			await new Promise(setImmediate);
+
+			expect(started).toEqual(['1', '2']);
+		});
+
+		it('should release capacity of a removed execution that is waiting on a limit', async () => {
+			/**
+			 * Arrange
+			 */
+			const service = createService();
+			const workflow = { id: 'w1', settings: { concurrencyLimit: 1 } };
+
+			await service.throttle({ mode: 'webhook', executionId: '1', workflow });
+			void service.throttle({ mode: 'webhook', executionId: '2', workflow });
+			await new Promise(setImmediate);
+
+			/**
+			 * Act
+			 */
+			service.remove({ mode: 'webhook', executionId: '2' });
+			service.release({ mode: 'webhook', executionId: '1' });
+
+			/**
+			 * Assert
+			 */
+			expect(service.has('2')).toBe(false);
+			// @ts-expect-error Private property
+			expect(service.scopedQueues.workflow.size).toBe(0);
+		});
+
+		it('should not apply limits to manual executions', async () => {
+			/**
+			 * Arrange
+			 */
+			const service = createService();
+			const enqueueSpy = jest.spyOn(ConcurrencyQueue.prototype, 'enqueue');
+
+			/**
+			 * Act
+			 */
+			await service.throttle({
+				mode: 'manual',
+				executionId: '1',
+				workflow: { id: 'w1', settings: { concurrencyLimit: 1 } },
+			});
+
+			/**
+			 * Assert
+			 */
+			expect(enqueueSpy).not.toHaveBeenCalled();
+		});
+
+		it('should cache the project limit', async () => {
+			/**
+			 * Arrange
+			 */
+			cacheService.getHashValue.mockResolvedValueOnce(undefined).mockResolvedValueOnce(1);
+			projectRepository.findOne.mockResolvedValue(mock<Project>({ concurrencyLimit: 1 }));
+			const service = createService();
+
+			/**
+			 * Act
+			 */
+			await service.throttle({ mode: 'trigger', executionId: '1', workflow: { id: 'w1' } });
+			service.release({ mode: 'trigger', executionId: '1' });
+			await service.throttle({ mode: 'trigger', executionId: '2', workflow: { id: 'w1' } });
+
+			/**
+			 * Assert
+			 */
+			expect(cacheService.setHash).toHaveBeenCalledWith('project-concurrency-limit', { p1: 1 });
+			expect(projectRepository.findOne).toHaveBeenCalledTimes(1);
+		});
+
+		it('should cancel executions waiting on a limit on removing all', async () => {
+			/**
+			 * Arrange
+			 */
+			const service = createService();
+			const workflow = { id: 'w1', settings: { concurrencyLimit: 1 } };
+
+			await service.throttle({ mode: 'webhook', executionId: '1', workflow });
+			void service.throttle({ mode: 'webhook', executionId: '2', workflow });
+			await new Promise(setImmediate);
+
+			/**
+			 * Act
+			 */
+			service.disable();
+			await service.removeAll({});
+
+			/**
+			 * Assert
+			 */
+			expect(executionRepository.cancelMany).toHaveBeenCalledWith(['2']);
+			expect(service.has('2')).toBe(false);
+		});
+
+		describe('in queue mode', () => {
+			beforeEach(() => {
+				config.set('executions.mode', 'queue');
+			});
+
+			it('should take and release a shared slot of the limit', async () => {
+				/**
+				 * Arrange
+				 */
+				const service = createService();
+				const workflow = { id: 'w1', settings: { concurrencyLimit: 2 } };
+
+				/**
+				 * Act
+				 */
+				await service.throttle({ mode: 'webhook', executionId: '1', workflow });
+				service.release({ mode: 'webhook', executionId: '1' });
+
+				/**
+				 * Assert
+				 */
+				expect(sharedSlots.acquire).toHaveBeenCalledWith(
+					'workflow:w1',
+					'1',
+					2,
+					expect.any(Function),
+				);
+				expect(sharedSlots.release).toHaveBeenCalledWith('workflow:w1', '1');
+			});
+
+			it('should stop waiting for a shared slot on removal', async () => {
+				/**
+				 * Arrange
+				 */
+				let isCancelled: () => boolean = () => false;
+				sharedSlots.acquire.mockImplementation(async (_key, _executionId, _limit, cancelled) => {
+					isCancelled = cancelled;
+					return await new Promise(() => {});
+				});
+				const service = createService();
+				const workflow = { id: 'w1', settings: { concurrencyLimit: 1 } };
+
+				void service.throttle({ mode: 'webhook', executionId: '1', workflow });
+				await new Promise(setImmediate);
+
+				/**
+				 * Act
+				 */
+				const wasWaiting = service.has('1');
+				service.remove({ mode: 'webhook', executionId: '1' });
+
+				/**
+				 * Assert
+				 */
+				expect(wasWaiting).toBe(true);
+				expect(service.has('1')).toBe(false);
+				expect(isCancelled()).toBe(true);
+				// @ts-expect-error Private property
+				expect(service.scopedQueues.workflow.size).toBe(0);
+			});
+
+			it('should release shared slots of running executions after disabling', async () => {
+				/**
+				 * Arrange
+				 */
+				const service = createService();
+				const workflow = { id: 'w1', settings: { concurrencyLimit: 1 } };
+				await service.throttle({ mode: 'webhook', executionId: '1', workflow });
+
+				/**
+				 * Act
+				 */
+				service.disable();
+				await service.removeAll({});
+				service.release({ mode: 'webhook', executionId: '1' });
+
+				/**
+				 * Assert
+				 */
+				expect(sharedSlots.release).toHaveBeenCalledWith('workflow:w1', '1');
+				expect(executionRepository.cancelMany).not.toHaveBeenCalled();
+			});
+		});
+	});
+
 	// ----------------------------------
 	//            telemetry
 	// ----------------------------------
@@ -462,6 +826,10 @@ describe('ConcurrencyControlService', () => {
 						executionRepository,
 						telemetry,
 						eventService,
+						ownershipService,
+						projectRepository,
+						cacheService,
+						sharedSlots,
 					);
 
 					/**
@@ -492,6 +860,10 @@ describe('ConcurrencyControlService', () => {
 						executionRepository,
 						telemetry,
 						eventService,
+						ownershipService,
+						projectRepository,
+						cacheService,
+						sharedSlots,
 					);
 
 					/**
@@ -524,6 +896,10 @@ describe('ConcurrencyControlService', () => {
 						executionRepository,
 						telemetry,
 						eventService,
+						ownershipService,
+						projectRepository,
+						cacheService,
+						sharedSlots,
 					);
 
 					/**
@@ -1,5 +1,6 @@
 import { sleep } from 'n8n-workflow';
 import { ConcurrencyQueue } from '../concurrency-queue';
+import { PRIORITY_LANES } from '../execution-priority';
 
 describe('ConcurrencyQueue', () => {
 	beforeAll(() => {
@@ -72,4 +73,30 @@ describe('ConcurrencyQueue', () => {
 		await jest.advanceTimersByTimeAsync(1000);
 		expect(emitSpy).toHaveBeenCalledTimes(1);
 	});
+
+	it('should release waiting executions by priority, then by order of arrival', async () => {
+		const queue = new ConcurrencyQueue(1);
+		const started: string[] = [];
+
+		const testFn = async (executionId: string, priority?: number) => {
+			await queue.enqueue(executionId, priority);
+			started.push(executionId);
+		};
+
+		void testFn('running');
+		void testFn('bulk', PRIORITY_LANES.bulk);
+		void testFn('normal-1');
+		void testFn('critical', PRIORITY_LANES.critical);
+		void testFn('normal-2', PRIORITY_LANES.normal);
+
+		await jest.advanceTimersByTimeAsync(1);
+		expect(started).toEqual(['running']);
+
+		for (let i = 0; i < 4; i++) {
+			queue.dequeue();
+			await jest.advanceTimersByTimeAsync(1);
+		}
+
+		expect(started).toEqual(['running', 'critical', 'normal-1', 'normal-2', 'bulk']);
+	});
 });
@@ -0,0 +1,36 @@
+import { PRIORITY_LANES, toExecutionPriority } from '../execution-priority';
+
+describe('toExecutionPriority', () => {
+	it('should default to the normal lane', () => {
+		expect(toExecutionPriority()).toBe(PRIORITY_LANES.normal);
+		expect(toExecutionPriority({})).toBe(PRIORITY_LANES.normal);
+	});
+
+	it.each(['critical', 'normal', 'bulk'] as const)('should resolve the %s lane', (priority) => {
+		expect(toExecutionPriority({ priority })).toBe(PRIORITY_LANES[priority]);
+	});
+
+	it('should fall back to the normal lane for an unknown lane', () => {
+		// @ts-expect-error Invalid lane
+		expect(toExecutionPriority({ priority: 'urgent' })).toBe(PRIORITY_LANES.normal);
+	});
+
+	it.each(['constructor', 'toString', '__proto__'])(
+		'should fall back to the normal lane for the inherited property %s',
+		(priority) => {
+			// @ts-expect-error Invalid lane
+			expect(toExecutionPriority({ priority })).toBe(PRIORITY_LANES.normal);
+		},
+	);
+
+	it('should move realtime executions ahead within their lane', () => {
+		const critical = toExecutionPriority({ priority: 'critical' }, { realtime: true });
+		const normal = toExecutionPriority({ priority: 'normal' }, { realtime: true });
+		const bulk = toExecutionPriority({ priority: 'bulk' }, { realtime: true });
+
+		expect(critical).toBeLessThan(PRIORITY_LANES.critical);
+		expect(normal).toBe(50);
+		expect(normal).toBeGreaterThan(PRIORITY_LANES.critical);
+		expect(bulk).toBeGreaterThan(PRIORITY_LANES.normal);
+	});
+});
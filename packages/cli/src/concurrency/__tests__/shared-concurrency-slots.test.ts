@@ -0,0 +1,135 @@
+import { mock } from 'jest-mock-extended';
+import type Redis from 'ioredis';
+import type { Logger } from '@/Logger';
+import { RedisClientService } from '@/services/redis/redis-client.service';
+import { mockInstance } from '@test/mocking';
+import { SharedConcurrencySlots } from '../shared-concurrency-slots';
+
+describe('SharedConcurrencySlots', () => {
+	const client = mock<Redis>();
+	mockInstance(RedisClientService, {
+		createClient: () => client,
+		toValidPrefix: (prefix: string) => prefix,
+	});
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should take a slot under the limit', async () => {
+		/**
+		 * Arrange
+		 */
+		client.eval.mockResolvedValue(1);
+		const slots = new SharedConcurrencySlots(mock<Logger>());
+
+		/**
+		 * Act
+		 */
+		const isAcquired = await slots.acquire('workflow:w1', '1', 2, () => false);
+
+		/**
+		 * Assert
+		 */
+		expect(isAcquired).toBe(true);
+		expect(client.eval).toHaveBeenCalledWith(
+			expect.any(String),
+			1,
+			'workflow:w1',
+			expect.any(Number),
+			expect.any(Number),
+			2,
+			'1',
+		);
+
+		await slots.release('workflow:w1', '1');
+		expect(client.zrem).toHaveBeenCalledWith('workflow:w1', '1');
+	});
+
+	it('should retry once another execution of this process releases its slot', async () => {
+		/**
+		 * Arrange
+		 */
+		client.eval.mockResolvedValueOnce(1).mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+		const slots = new SharedConcurrencySlots(mock<Logger>());
+		await slots.acquire('workflow:w1', '1', 1, () => false);
+
+		/**
+		 * Act
+		 */
+		const acquiring = slots.acquire('workflow:w1', '2', 1, () => false);
+		await jest.advanceTimersByTimeAsync(0);
+		await slots.release('workflow:w1', '1');
+
+		/**
+		 * Assert
+		 */
+		expect(await acquiring).toBe(true);
+		expect(client.eval).toHaveBeenCalledTimes(3);
+	});
+
+	it('should stop waiting for a slot once cancelled', async () => {
+		/**
+		 * Arrange
+		 */
+		client.eval.mockResolvedValue(0);
+		const slots = new SharedConcurrencySlots(mock<Logger>());
+		let isCancelled = false;
+
+		/**
+		 * Act
+		 */
+		const acquiring = slots.acquire('project:p1', '1', 1, () => isCancelled);
+		isCancelled = true;
+		await jest.advanceTimersByTimeAsync(1000);
+
+		/**
+		 * Assert
+		 */
+		expect(await acquiring).toBe(false);
+	});
+
+	it('should refresh held slots so that they do not expire', async () => {
+		/**
+		 * Arrange
+		 */
+		client.eval.mockResolvedValue(1);
+		const slots = new SharedConcurrencySlots(mock<Logger>());
+		await slots.acquire('workflow:w1', '1', 1, () => false);
+
+		/**
+		 * Act
+		 */
+		await jest.advanceTimersByTimeAsync(20 * 1000);
+
+		/**
+		 * Assert
+		 */
+		expect(client.zadd).toHaveBeenCalledWith('workflow:w1', 'XX', expect.any(Number), '1');
+
+		await slots.release('workflow:w1', '1');
+	});
+
+	it('should not enforce the limit if Redis is unavailable', async () => {
+		/**
+		 * Arrange
+		 */
+		client.eval.mockRejectedValue(new Error('Connection is closed'));
+		const slots = new SharedConcurrencySlots(mock<Logger>());
+
+		/**
+		 * Act
+		 */
+		const isAcquired = await slots.acquire('workflow:w1', '1', 1, () => false);
+
+		/**
+		 * Assert
+		 */
+		expect(isAcquired).toBe(true);
+	});
+});
@@ -5,14 +5,29 @@ import { ConcurrencyQueue } from './concurrency-queue';
 import { UnknownExecutionModeError } from '@/errors/unknown-execution-mode.error';
 import { InvalidConcurrencyLimitError } from '@/errors/invalid-concurrency-limit.error';
 import { ExecutionRepository } from '@/databases/repositories/execution.repository';
-import type { WorkflowExecuteMode as ExecutionMode } from 'n8n-workflow';
+import { ProjectRepository } from '@/databases/repositories/project.repository';
+import type { IWorkflowBase, WorkflowExecuteMode as ExecutionMode } from 'n8n-workflow';
 import type { IExecutingWorkflowData } from '@/Interfaces';
 import { Telemetry } from '@/telemetry';
 import { EventService } from '@/events/event.service';
+import { OwnershipService } from '@/services/ownership.service';
+import { CacheService } from '@/services/cache/cache.service';
+import { toExecutionPriority } from './execution-priority';
+import { SharedConcurrencySlots } from './shared-concurrency-slots';
 
 export const CLOUD_TEMP_PRODUCTION_LIMIT = 999;
 export const CLOUD_TEMP_REPORTABLE_THRESHOLDS = [5, 10, 20, 50, 100, 200];
 
+type ConcurrencyScope = 'workflow' | 'project';
+
+type ScopedQueue = { limit: number; queue: ConcurrencyQueue };
+
+type ThrottleArgs = {
+	mode: ExecutionMode;
+	executionId: string;
+	workflow?: Pick<IWorkflowBase, 'id' | 'settings'>;
+};
+
 @Service()
 export class ConcurrencyControlService {
 	private isEnabled: boolean;
@@ -21,6 +36,34 @@ export class ConcurrencyControlService {
 
 	private readonly productionQueue: ConcurrencyQueue;
 
+	/**
+	 * Whether per-workflow and per-project limits are enforced. Unlike the
+	 * production limit, these are set per workflow or per project, so they
+	 * are also enforced in queue mode, in the process that enqueues the job.
+	 */
+	private areScopedLimitsEnabled = true;
+
+	/**
+	 * Whether scoped limits are shared by all main and webhook processes, as in queue mode.
+	 * Executions then take a shared slot once let through by the queue of this process.
+	 */
+	private readonly areScopedLimitsShared: boolean;
+
+	private readonly scopedQueues: Record<ConcurrencyScope, Map<string, ScopedQueue>> = {
+		workflow: new Map(),
+		project: new Map(),
+	};
+
+	/**
+	 * Scoped queues each execution was admitted into, to release capacity back on finish.
+	 */
+	private readonly admissions = new Map<string, Array<{ scope: ConcurrencyScope; id: string }>>();
+
+	/**
+	 * Executions let through by a scoped queue but waiting for a shared slot of its limit.
+	 */
+	private readonly awaitingSharedSlot = new Map<string, { scope: ConcurrencyScope; id: string }>();
+
 	private readonly limitsToReport = CLOUD_TEMP_REPORTABLE_THRESHOLDS.map(
 		(t) => CLOUD_TEMP_PRODUCTION_LIMIT - t,
 	);
@@ -30,7 +73,13 @@ export class ConcurrencyControlService {
 		private readonly executionRepository: ExecutionRepository,
 		private readonly telemetry: Telemetry,
 		private readonly eventService: EventService,
+		private readonly ownershipService: OwnershipService,
+		private readonly projectRepository: ProjectRepository,
+		private readonly cacheService: CacheService,
+		private readonly sharedSlots: SharedConcurrencySlots,
 	) {
+		this.areScopedLimitsShared = config.getEnv('executions.mode') === 'queue';
+
 		this.productionLimit = config.getEnv('executions.concurrency.productionLimit');
 
 		if (this.productionLimit === 0) {
@@ -73,47 +122,135 @@ export class ConcurrencyControlService {
 	}
 
 	/**
-	 * Check whether an execution is in the production queue.
+	 * Check whether an execution is in the production queue or in any scoped queue.
 	 */
 	has(executionId: string) {
-		if (!this.isEnabled) return false;
+		if (this.isEnabled && this.productionQueue.getAll().has(executionId)) return true;
 
-		return this.productionQueue.getAll().has(executionId);
+		if (this.awaitingSharedSlot.has(executionId)) return true;
+
+		return this.allScopedQueues().some(({ queue }) => queue.getAll().has(executionId));
 	}
 
 	/**
-	 * Block or let through an execution based on concurrency capacity.
+	 * Block or let through an execution based on concurrency capacity. Capacity
+	 * is taken first from the workflow's limit, then from its project's limit
+	 * and finally from the production limit. Blocked executions are let through
+	 * by the priority lane of their workflow, then in order of arrival.
 	 */
-	async throttle({ mode, executionId }: { mode: ExecutionMode; executionId: string }) {
-		if (!this.isEnabled || this.isUnlimited(mode)) return;
+	async throttle({ mode, executionId, workflow }: ThrottleArgs) {
+		if (this.isUnlimited(mode)) return;
+
+		const priority = toExecutionPriority(workflow?.settings);
+
+		if (this.areScopedLimitsEnabled && workflow?.id) {
+			const workflowLimit = this.toLimit(workflow);
+
+			await this.throttleScoped({ executionId, priority }, 'workflow', workflow.id, workflowLimit);
+
+			const { projectId, limit } = await this.getProjectLimit(workflow.id);
 
-		await this.productionQueue.enqueue(executionId);
+			if (projectId)
+				await this.throttleScoped({ executionId, priority }, 'project', projectId, limit);
+		}
+
+		if (!this.isEnabled || this.productionLimit === -1) return;
+
+		await this.productionQueue.enqueue(executionId, priority);
 	}
 
 	/**
-	 * Release capacity back so the next execution in the production queue can proceed.
+	 * Release capacity back so the next execution in each queue it was admitted into can proceed.
 	 */
-	release({ mode }: { mode: ExecutionMode }) {
-		if (!this.isEnabled || this.isUnlimited(mode)) return;
+	release({ mode, executionId }: { mode: ExecutionMode; executionId: string }) {
+		if (this.isUnlimited(mode)) return;
+
+		this.releaseScoped(executionId);
+
+		if (!this.isEnabled || this.productionLimit === -1) return;
 
 		this.productionQueue.dequeue();
 	}
 
 	/**
-	 * Remove an execution from the production queue, releasing capacity back.
+	 * Remove an execution from the production queue or from the scoped queue
+	 * it is waiting in, releasing capacity back.
 	 */
 	remove({ mode, executionId }: { mode: ExecutionMode; executionId: string }) {
-		if (!this.isEnabled || this.isUnlimited(mode)) return;
+		if (this.isUnlimited(mode)) return;
+
+		const awaitingSharedSlot = this.awaitingSharedSlot.get(executionId);
+
+		if (awaitingSharedSlot) {
+			// stops waiting for the slot, and releases capacity of the queue it was let through by
+			this.awaitingSharedSlot.delete(executionId);
+			this.releaseScoped(executionId);
+			return;
+		}
+
+		const waitingIn = this.areScopedLimitsEnabled
+			? this.scopedQueueEntries().find(([, , { queue }]) => queue.getAll().has(executionId))
+			: undefined;
+
+		if (waitingIn) {
+			const [scope, id, { queue }] = waitingIn;
+
+			// capacity of the queue it is waiting in is released back by removal
+			queue.remove(executionId);
+			this.pruneIfIdle(scope, id);
+
+			const admissions = this.admissions.get(executionId) ?? [];
+			this.admissions.set(
+				executionId,
+				admissions.filter((admission) => admission.scope !== scope || admission.id !== id),
+			);
+
+			this.releaseScoped(executionId);
+			return;
+		}
+
+		if (!this.isEnabled) return;
+
+		const isWaiting = this.productionQueue.getAll().has(executionId);
 
 		this.productionQueue.remove(executionId);
+
+		if (isWaiting) this.releaseScoped(executionId);
 	}
 
 	/**
-	 * Empty the production queue, releasing all capacity back. Also cancel any
-	 * enqueued executions that have response promises, as these cannot
-	 * be re-run via `Start.runEnqueuedExecutions` during startup.
+	 * Empty the production queue and all scoped queues, releasing all capacity back.
+	 * Cancel executions waiting on a workflow or project limit, as well as any enqueued
+	 * executions that have response promises, as these cannot be re-run via
+	 * `Start.runEnqueuedExecutions` during startup.
 	 */
 	async removeAll(activeExecutions: { [executionId: string]: IExecutingWorkflowData }) {
+		const scopedWaitingIds = [
+			...new Set([
+				...this.allScopedQueues().flatMap(({ queue }) => [...queue.getAll()]),
+				...this.awaitingSharedSlot.keys(),
+			]),
+		];
+
+		// shared slots already taken by waiting executions are released back,
+		// while running executions keep theirs until they finish
+		for (const executionId of scopedWaitingIds) {
+			this.releaseSharedSlots(executionId);
+			this.admissions.delete(executionId);
+		}
+
+		this.scopedQueues.workflow.clear();
+		this.scopedQueues.project.clear();
+		this.awaitingSharedSlot.clear();
+
+		if (scopedWaitingIds.length > 0) {
+			await this.executionRepository.cancelMany(scopedWaitingIds);
+
+			this.logger.info('Canceled executions waiting on workflow or project limits', {
+				executionIds: scopedWaitingIds,
+			});
+		}
+
 		if (!this.isEnabled) return;
 
 		const enqueuedProductionIds = this.productionQueue.getAll();
@@ -133,8 +270,24 @@ export class ConcurrencyControlService {
 		this.logger.info('Canceled enqueued executions with response promises', { executionIds });
 	}
 
+	/**
+	 * Count executions waiting for capacity in the production queue and in scoped queues.
+	 */
+	getQueueSizes(): Record<'production' | ConcurrencyScope, number> {
+		const sumOf = (scope: ConcurrencyScope) =>
+			[...this.scopedQueues[scope].values()].reduce((acc, { queue }) => acc + queue.size, 0) +
+			[...this.awaitingSharedSlot.values()].filter((awaiting) => awaiting.scope === scope).length;
+
+		return {
+			production: this.isEnabled ? this.productionQueue.size : 0,
+			workflow: sumOf('workflow'),
+			project: sumOf('project'),
+		};
+	}
+
 	disable() {
 		this.isEnabled = false;
+		this.areScopedLimitsEnabled = false;
 	}
 
 	// ----------------------------------
@@ -164,11 +317,164 @@ export class ConcurrencyControlService {
 			return true;
 		}
 
-		if (mode === 'webhook' || mode === 'trigger') return this.productionLimit === -1;
+		if (mode === 'webhook' || mode === 'trigger') return false;
 
 		throw new UnknownExecutionModeError(mode);
 	}
 
+	private toLimit(workflow: Pick<IWorkflowBase, 'settings'>) {
+		const limit = workflow.settings?.concurrencyLimit;
+
+		return typeof limit === 'number' && limit > 0 ? limit : -1;
+	}
+
+	private async getProjectLimit(workflowId: string) {
+		try {
+			const { id: projectId } = await this.ownershipService.getWorkflowProjectCached(workflowId);
+
+			// cleared from the cache on update of the limit
+			const cachedLimit = await this.cacheService.getHashValue<number>(
+				'project-concurrency-limit',
+				projectId,
+			);
+
+			if (cachedLimit !== undefined) return { projectId, limit: cachedLimit };
+
+			const project = await this.projectRepository.findOne({
+				select: ['id', 'concurrencyLimit'],
+				where: { id: projectId },
+			});
+
+			const projectLimit = project?.concurrencyLimit;
+			const limit = typeof projectLimit === 'number' && projectLimit > 0 ? projectLimit : -1;
+
+			void this.cacheService.setHash('project-concurrency-limit', { [projectId]: limit });
+
+			return { projectId, limit };
+		} catch (error) {
+			this.log('Failed to look up project limit', { workflowId, error: error as Error });
+
+			return { projectId: undefined, limit: -1 };
+		}
+	}
+
+	private async throttleScoped(
+		{ executionId, priority }: { executionId: string; priority: number },
+		scope: ConcurrencyScope,
+		id: string,
+		limit: number,
+	) {
+		if (limit === -1) return;
+
+		const queues = this.scopedQueues[scope];
+
+		let scopedQueue = queues.get(id);
+
+		if (!scopedQueue) {
+			scopedQueue = { limit, queue: new ConcurrencyQueue(limit) };
+			scopedQueue.queue.on('execution-throttled', ({ executionId: throttledId }) => {
+				this.log(`Execution throttled by ${scope} limit`, {
+					executionId: throttledId,
+					[scope]: id,
+				});
+				this.eventService.emit('execution-throttled', { executionId: throttledId });
+			});
+			scopedQueue.queue.on('execution-released', async (releasedId) => {
+				this.log(`Execution released by ${scope} limit`, { executionId: releasedId, [scope]: id });
+				await this.executionRepository.resetStartedAt(releasedId);
+			});
+			queues.set(id, scopedQueue);
+		}
+
+		const admissions = this.admissions.get(executionId) ?? [];
+		admissions.push({ scope, id });
+		this.admissions.set(executionId, admissions);
+
+		await scopedQueue.queue.enqueue(executionId, priority);
+
+		if (!this.areScopedLimitsShared) return;
+
+		this.awaitingSharedSlot.set(executionId, { scope, id });
+
+		const isAcquired = await this.sharedSlots.acquire(
+			this.toSlotsKey(scope, id),
+			executionId,
+			limit,
+			() => !this.awaitingSharedSlot.has(executionId),
+		);
+
+		this.awaitingSharedSlot.delete(executionId);
+
+		// like an execution removed from a queue, one removed while waiting never goes through
+		if (!isAcquired) await new Promise<void>(() => {});
+	}
+
+	private releaseScoped(executionId: string) {
+		const admissions = this.admissions.get(executionId);
+
+		if (!admissions) return;
+
+		// shared slots are released also after disabling, as other processes still wait on them
+		this.releaseSharedSlots(executionId);
+
+		if (!this.areScopedLimitsEnabled) return;
+
+		this.admissions.delete(executionId);
+
+		for (const { scope, id } of admissions) {
+			const scopedQueue = this.scopedQueues[scope].get(id);
+
+			if (!scopedQueue || scopedQueue.queue.getAll().has(executionId)) continue;
+
+			scopedQueue.queue.dequeue();
+			this.pruneIfIdle(scope, id);
+		}
+	}
+
+	/**
+	 * Drop a scoped queue once it holds no capacity, so that a changed limit
+	 * takes effect on the next execution and unused queues do not accumulate.
+	 */
+	private pruneIfIdle(scope: ConcurrencyScope, id: string) {
+		const scopedQueue = this.scopedQueues[scope].get(id);
+
+		if (!scopedQueue) return;
+
+		const { limit, queue } = scopedQueue;
+
+		if (queue.currentCapacity >= limit && queue.getAll().size === 0) {
+			this.scopedQueues[scope].delete(id);
+		}
+	}
+
+	private releaseSharedSlots(executionId: string) {
+		if (!this.areScopedLimitsShared) return;
+
+		for (const { scope, id } of this.admissions.get(executionId) ?? []) {
+			void this.sharedSlots.release(this.toSlotsKey(scope, id), executionId);
+		}
+	}
+
+	private toSlotsKey(scope: ConcurrencyScope, id: string) {
+		return `${scope}:${id}`;
+	}
+
+	private scopedQueueEntries() {
+		const entries: Array<[ConcurrencyScope, string, ScopedQueue]> = [];
+
+		for (const scope of ['workflow', 'project'] as const) {
+			for (const [id, scopedQueue] of this.scopedQueues[scope]) {
+				entries.push([scope, id, scopedQueue]);
+			}
+		}
+
+		return entries;
+	}
+
+	private allScopedQueues() {
+		return this.scopedQueueEntries().map(([, , scopedQueue]) => scopedQueue);
+	}
+
 	private log(message: string, meta?: object) {
 		this.logger.debug(['[Concurrency Control]', message].join(' '), meta);
 	}
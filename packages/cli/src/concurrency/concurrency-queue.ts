@@ -1,5 +1,6 @@
 import { Service } from 'typedi';
 import { TypedEmitter } from '@/TypedEmitter';
+import { PRIORITY_LANES } from './execution-priority';
 
 type ConcurrencyEvents = {
 	'execution-throttled': { executionId: string };
@@ -9,8 +10,12 @@ type ConcurrencyEvents = {
 
 @Service()
 export class ConcurrencyQueue extends TypedEmitter<ConcurrencyEvents> {
+	/**
+	 * Waiting executions, ordered by priority and then by arrival.
+	 */
 	private readonly queue: Array<{
 		executionId: string;
+		priority: number;
 		resolve: () => void;
 	}> = [];
 
@@ -18,7 +23,7 @@ export class ConcurrencyQueue extends TypedEmitter<ConcurrencyEvents> {
 		super();
 	}
 
-	async enqueue(executionId: string) {
+	async enqueue(executionId: string, priority = PRIORITY_LANES.normal) {
 		this.capacity--;
 
 		this.debouncedEmit('concurrency-check', { capacity: this.capacity });
@@ -27,7 +32,7 @@ export class ConcurrencyQueue extends TypedEmitter<ConcurrencyEvents> {
 			this.emit('execution-throttled', { executionId });
 
 			// eslint-disable-next-line @typescript-eslint/return-await
-			return new Promise<void>((resolve) => this.queue.push({ executionId, resolve }));
+			return new Promise<void>((resolve) => this.insert({ executionId, priority, resolve }));
 		}
 	}
 
@@ -35,6 +40,11 @@ export class ConcurrencyQueue extends TypedEmitter<ConcurrencyEvents> {
 		return this.capacity;
 	}
 
+	/** Number of executions waiting for capacity. */
+	get size() {
+		return this.queue.length;
+	}
+
 	dequeue() {
 		this.capacity++;
 
@@ -57,6 +67,13 @@ export class ConcurrencyQueue extends TypedEmitter<ConcurrencyEvents> {
 		return new Set(this.queue.map((item) => item.executionId));
 	}
 
+	private insert(item: (typeof this.queue)[number]) {
+		const index = this.queue.findIndex(({ priority }) => priority > item.priority);
+
+		if (index === -1) this.queue.push(item);
+		else this.queue.splice(index, 0, item);
+	}
+
 	private resolveNext() {
 		const item = this.queue.shift();
 
@@ -0,0 +1,25 @@
+import type { IWorkflowSettings, WorkflowSettings } from 'n8n-workflow';
+
+/**
+ * Base priority of each lane. As in Bull, a lower number is processed sooner.
+ */
+export const PRIORITY_LANES: Record<WorkflowSettings.Priority, number> = {
+	critical: 10,
+	normal: 100,
+	bulk: 1000,
+};
+
+/**
+ * Resolve the priority of an execution from the lane set in its workflow settings.
+ * Executions whose caller awaits a direct response are moved ahead within their lane.
+ */
+export function toExecutionPriority(settings?: IWorkflowSettings, { realtime = false } = {}) {
+	const lane =
+		settings?.priority && Object.prototype.hasOwnProperty.call(PRIORITY_LANES, settings.priority)
+			? settings.priority
+			: 'normal';
+
+	const priority = PRIORITY_LANES[lane];
+
+	return realtime ? priority / 2 : priority;
+}
@@ -0,0 +1,202 @@
+import Container, { Service } from 'typedi';
+import type Redis from 'ioredis';
+import type { Cluster } from 'ioredis';
+import config from '@/config';
+import { Logger } from '@/Logger';
+
+/** How long a slot is kept without a refresh, e.g. once the process holding it crashed. */
+const SLOT_TTL_MS = 60 * 1000;
+
+const REFRESH_INTERVAL_MS = SLOT_TTL_MS / 3;
+
+/** How often to retry taking a slot while waiting for one. */
+const RETRY_INTERVAL_MS = 1000;
+
+/**
+ * Take a slot for an execution, unless the limit is reached. Slots not
+ * refreshed within their TTL are dropped first.
+ *
+ * KEYS[1] slots key, ARGV[1] now, ARGV[2] TTL, ARGV[3] limit, ARGV[4] execution ID
+ */
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - ttl)
+if redis.call('ZSCORE', KEYS[1], ARGV[4]) or redis.call('ZCARD', KEYS[1]) < tonumber(ARGV[3]) then
+	redis.call('ZADD', KEYS[1], now, ARGV[4])
+	redis.call('PEXPIRE', KEYS[1], ttl)
+	return 1
+end
+return 0
+`;
+
+/**
+ * Slots of workflow and project concurrency limits, shared by all main and
+ * webhook processes in queue mode. Each limit is a sorted set in Redis of the
+ * IDs of the executions holding a slot, scored by when the slot was last refreshed.
+ */
+@Service()
+export class SharedConcurrencySlots {
+	private client: Redis | Cluster | undefined;
+
+	/** Executions holding a slot taken by this process, by slots key. */
+	private readonly heldSlots = new Map<string, Set<string>>();
+
+	private refreshInterval: NodeJS.Timeout | undefined;
+
+	/** Waiters to retry early once this process releases a slot, with their retry timeouts. */
+	private readonly retries = new Map<() => void, NodeJS.Timeout>();
+
+	constructor(private readonly logger: Logger) {}
+
+	/**
+	 * Wait until the execution takes a slot under the limit. Resolves to `false`
+	 * if waiting is cancelled. If Redis is unavailable, the limit is not enforced.
+	 */
+	async acquire(key: string, executionId: string, limit: number, isCancelled: () => boolean) {
+		while (!isCancelled()) {
+			let isAcquired: boolean;
+
+			try {
+				isAcquired = await this.tryAcquire(key, executionId, limit);
+			} catch (error) {
+				this.logger.warn('[Concurrency Control] Failed to take shared slot', {
+					key,
+					executionId,
+					error: error as Error,
+				});
+
+				return true;
+			}
+
+			if (isAcquired && isCancelled()) {
+				await this.release(key, executionId);
+				return false;
+			}
+
+			if (isAcquired) return true;
+
+			await this.waitForRetry();
+		}
+
+		return false;
+	}
+
+	async release(key: string, executionId: string) {
+		const executionIds = this.heldSlots.get(key);
+
+		if (!executionIds?.delete(executionId)) return;
+
+		if (executionIds.size === 0) this.heldSlots.delete(key);
+
+		if (this.heldSlots.size === 0) this.stopRefreshing();
+
+		try {
+			const client = await this.getClient();
+			await client.zrem(key, executionId);
+		} catch (error) {
+			this.logger.warn('[Concurrency Control] Failed to release shared slot', {
+				key,
+				executionId,
+				error: error as Error,
+			});
+		}
+
+		for (const [retry, timeout] of this.retries) {
+			clearTimeout(timeout);
+			retry();
+		}
+
+		this.retries.clear();
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	private async tryAcquire(key: string, executionId: string, limit: number) {
+		const client = await this.getClient();
+
+		const result = await client.eval(
+			ACQUIRE_SCRIPT,
+			1,
+			key,
+			Date.now(),
+			SLOT_TTL_MS,
+			limit,
+			executionId,
+		);
+
+		if (result !== 1) return false;
+
+		const executionIds = this.heldSlots.get(key) ?? new Set();
+		executionIds.add(executionId);
+		this.heldSlots.set(key, executionIds);
+
+		this.startRefreshing();
+
+		return true;
+	}
+
+	private async waitForRetry() {
+		await new Promise<void>((resolve) => {
+			const timeout = setTimeout(() => {
+				this.retries.delete(resolve);
+				resolve();
+			}, RETRY_INTERVAL_MS);
+
+			this.retries.set(resolve, timeout);
+		});
+	}
+
+	/**
+	 * Keep refreshing the slots held by this process, so that they do not expire.
+	 */
+	private startRefreshing() {
+		if (this.refreshInterval) return;
+
+		this.refreshInterval = setInterval(async () => await this.refresh(), REFRESH_INTERVAL_MS);
+	}
+
+	private stopRefreshing() {
+		clearInterval(this.refreshInterval);
+		this.refreshInterval = undefined;
+	}
+
+	private async refresh() {
+		try {
+			const client = await this.getClient();
+			const now = Date.now();
+
+			for (const [key, executionIds] of this.heldSlots) {
+				for (const executionId of executionIds) {
+					await client.zadd(key, 'XX', now, executionId);
+				}
+
+				await client.pexpire(key, SLOT_TTL_MS);
+			}
+		} catch (error) {
+			this.logger.warn('[Concurrency Control] Failed to refresh shared slots', {
+				error: error as Error,
+			});
+		}
+	}
+
+	private async getClient() {
+		if (this.client) return this.client;
+
+		const { RedisClientService } = await import('@/services/redis/redis-client.service');
+		const redisClientService = Container.get(RedisClientService);
+
+		const prefix = redisClientService.toValidPrefix(
+			`${config.getEnv('redis.prefix')}:concurrency:`,
+		);
+
+		this.client = redisClientService.createClient({
+			type: 'client(concurrency)',
+			extraOptions: { keyPrefix: prefix },
+		});
+
+		return this.client;
+	}
+}
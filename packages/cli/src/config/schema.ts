@@ -160,6 +160,30 @@ export const schema = {
 				env: 'N8N_EXECUTIONS_QUEUE_RECOVERY_BATCH',
 			},
 		},
+
+		recovery: {
+			autoResume: {
+				doc: 'Whether to resume executions interrupted by a crash from their last saved checkpoint on startup. Only applies to workflows that save execution progress.',
+				format: Boolean,
+				default: false,
+				env: 'N8N_EXECUTIONS_AUTO_RESUME',
+			},
+		},
+
+		deadLetter: {
+			enabled: {
+				doc: 'Whether to keep failed production executions in a dead-letter queue, along with their trigger data, to replay or discard them later',
+				format: Boolean,
+				default: false,
+				env: 'N8N_EXECUTIONS_DEAD_LETTER_ENABLED',
+			},
+			maxAge: {
+				doc: 'How old (hours) dead-letter entries may become before they are pruned',
+				format: Number,
+				default: 336,
+				env: 'N8N_EXECUTIONS_DEAD_LETTER_MAX_AGE',
+			},
+		},
 	},
 
 	queue: {
@@ -394,8 +418,8 @@ export const schema = {
 		},
 
 		authenticationMethod: {
-			doc: 'How to authenticate users (e.g. "email", "ldap", "saml")',
-			format: ['email', 'ldap', 'saml'] as const,
+			doc: 'How to authenticate users (e.g. "email", "ldap", "saml", "oidc")',
+			format: ['email', 'ldap', 'saml', 'oidc'] as const,
 			default: 'email',
 		},
 	},
@@ -518,6 +542,17 @@ export const schema = {
 				default: '',
 			},
 		},
+		oidc: {
+			loginEnabled: {
+				format: Boolean,
+				default: false,
+				doc: 'Whether to enable OIDC SSO.',
+			},
+			loginLabel: {
+				format: String,
+				default: '',
+			},
+		},
 		ldap: {
 			loginEnabled: {
 				format: Boolean,
@@ -74,6 +74,8 @@ export const LICENSE_FEATURES = {
 	SHARING: 'feat:sharing',
 	LDAP: 'feat:ldap',
 	SAML: 'feat:saml',
+	OIDC: 'feat:oidc',
+	SCIM: 'feat:scim',
 	LOG_STREAMING: 'feat:logStreaming',
 	ADVANCED_EXECUTION_FILTERS: 'feat:advancedExecutionFilters',
 	VARIABLES: 'feat:variables',
@@ -0,0 +1,45 @@
+import { Delete, Get, Post, RestController } from '@/decorators';
+import { AuthenticatedRequest, ApiKeyRequest } from '@/requests';
+import { ApiKeyService } from '@/services/api-key.service';
+import { EventService } from '@/events/event.service';
+import { isApiEnabledMiddleware } from './me.controller';
+
+@RestController('/api-keys')
+export class ApiKeysController {
+	constructor(
+		private readonly apiKeyService: ApiKeyService,
+		private readonly eventService: EventService,
+	) {}
+
+	/**
+	 * List the scoped API keys of the logged-in user, redacted.
+	 */
+	@Get('/', { middlewares: [isApiEnabledMiddleware] })
+	async getAll(req: AuthenticatedRequest) {
+		return await this.apiKeyService.getAll(req.user);
+	}
+
+	/**
+	 * Create a scoped API key, returned in full only in this response.
+	 */
+	@Post('/', { middlewares: [isApiEnabledMiddleware] })
+	async create(req: ApiKeyRequest.Create) {
+		const apiKey = await this.apiKeyService.create(req.user, req.body);
+
+		this.eventService.emit('public-api-key-created', { user: req.user, publicApi: false });
+
+		return apiKey;
+	}
+
+	/**
+	 * Revoke a scoped API key.
+	 */
+	@Delete('/:id', { middlewares: [isApiEnabledMiddleware] })
+	async revoke(req: ApiKeyRequest.Delete) {
+		await this.apiKeyService.revoke(req.user, req.params.id);
+
+		this.eventService.emit('public-api-key-deleted', { user: req.user, publicApi: false });
+
+		return { success: true };
+	}
+}
@@ -16,6 +16,7 @@ import {
 } from '@/requests';
 import type { PublicUser } from '@/Interfaces';
 import { isSamlLicensedAndEnabled } from '@/sso/saml/samlHelpers';
+import { isOidcLicensedAndEnabled } from '@/sso/oidc/oidcHelpers';
 import { UserService } from '@/services/user.service';
 import { Logger } from '@/Logger';
 import { ExternalHooks } from '@/ExternalHooks';
@@ -89,6 +90,15 @@ export class MeController {
 			}
 		}
 
+		// If OIDC is enabled, the email identifies the user at the OIDC provider
+		if (isOidcLicensedAndEnabled() && email !== currentEmail) {
+			this.logger.debug(
+				'Request to update user failed because OIDC user may not change their email',
+				{ userId, payload },
+			);
+			throw new BadRequestError('OIDC user may not change their email');
+		}
+
 		await this.externalHooks.run('user.profile.beforeUpdate', [userId, currentEmail, payload]);
 
 		await this.userService.update(userId, payload);
@@ -129,6 +139,15 @@ export class MeController {
 			);
 		}
 
+		if (isOidcLicensedAndEnabled()) {
+			this.logger.debug('Attempted to change password for user, while OIDC is enabled', {
+				userId: user.id,
+			});
+			throw new BadRequestError(
+				'With OIDC enabled, users need to use their OIDC provider to change passwords',
+			);
+		}
+
 		if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
 			throw new BadRequestError('Invalid payload.');
 		}
@@ -2,7 +2,11 @@ import { Service } from 'typedi';
 import Csrf from 'csrf';
 import type { Response } from 'express';
 import { Credentials } from 'n8n-core';
-import type { ICredentialDataDecryptedObject, IWorkflowExecuteAdditionalData } from 'n8n-workflow';
+import type {
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IWorkflowExecuteAdditionalData,
+} from 'n8n-workflow';
 import { jsonParse, ApplicationError } from 'n8n-workflow';
 
 import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
@@ -19,6 +23,7 @@ import { UrlService } from '@/services/url.service';
 import { BadRequestError } from '@/errors/response-errors/bad-request.error';
 import { NotFoundError } from '@/errors/response-errors/not-found.error';
 import { GlobalConfig } from '@n8n/config';
+import { CredentialExpiryService } from '@/credentials/credential-expiry.service';
 
 export interface CsrfStateParam {
 	cid: string;
@@ -37,6 +42,7 @@ export abstract class AbstractOAuthController {
 		private readonly sharedCredentialsRepository: SharedCredentialsRepository,
 		private readonly urlService: UrlService,
 		private readonly globalConfig: GlobalConfig,
+		private readonly credentialExpiryService: CredentialExpiryService,
 	) {}
 
 	get baseUrl() {
@@ -111,6 +117,13 @@ export abstract class AbstractOAuthController {
 			...credentials.getDataToSave(),
 			updatedAt: new Date(),
 		});
+
+		if (decryptedData.oauthTokenData) {
+			await this.credentialExpiryService.updateOAuthExpiry(
+				credential.id,
+				decryptedData.oauthTokenData as IDataObject,
+			);
+		}
 	}
 
 	/** Get a credential without user check */
@@ -6,7 +6,10 @@ import { Get, Post, RestController } from '@/decorators';
 import { PasswordUtility } from '@/services/password.utility';
 import { UserManagementMailer } from '@/UserManagement/email';
 import { PasswordResetRequest } from '@/requests';
-import { isSamlCurrentAuthenticationMethod } from '@/sso/ssoHelpers';
+import {
+	isOidcCurrentAuthenticationMethod,
+	isSamlCurrentAuthenticationMethod,
+} from '@/sso/ssoHelpers';
 import { UserService } from '@/services/user.service';
 import { License } from '@/License';
 import { RESPONSE_ERROR_MESSAGES } from '@/constants';
@@ -80,18 +83,23 @@ export class PasswordResetController {
 			);
 			throw new ForbiddenError(RESPONSE_ERROR_MESSAGES.USERS_QUOTA_REACHED);
 		}
+		const ssoMethod = isSamlCurrentAuthenticationMethod()
+			? 'SAML'
+			: isOidcCurrentAuthenticationMethod()
+				? 'OIDC'
+				: undefined;
 		if (
-			isSamlCurrentAuthenticationMethod() &&
+			ssoMethod &&
 			!(
 				user?.hasGlobalScope('user:resetPassword') === true ||
 				user?.settings?.allowSSOManualLogin === true
 			)
 		) {
 			this.logger.debug(
-				'Request to send password reset email failed because login is handled by SAML',
+				`Request to send password reset email failed because login is handled by ${ssoMethod}`,
 			);
 			throw new ForbiddenError(
-				'Login is handled by SAML. Please contact your Identity Provider to reset your password.',
+				`Login is handled by ${ssoMethod}. Please contact your Identity Provider to reset your password.`,
 			);
 		}
 
@@ -162,7 +162,7 @@ export class ProjectController {
 	@Get('/:projectId')
 	@ProjectScope('project:read')
 	async getProject(req: ProjectRequest.Get): Promise<ProjectRequest.ProjectWithRelations> {
-		const [{ id, name, type }, relations] = await Promise.all([
+		const [{ id, name, type, concurrencyLimit }, relations] = await Promise.all([
 			this.projectsService.getProject(req.params.projectId),
 			this.projectsService.getProjectRelations(req.params.projectId),
 		]);
@@ -172,6 +172,7 @@ export class ProjectController {
 			id,
 			name,
 			type,
+			concurrencyLimit,
 			relations: relations.map((r) => ({
 				id: r.user.id,
 				email: r.user.email,
@@ -194,6 +195,16 @@ export class ProjectController {
 		if (req.body.name) {
 			await this.projectsService.updateProject(req.body.name, req.params.projectId);
 		}
+		if (req.body.concurrencyLimit !== undefined) {
+			const { concurrencyLimit } = req.body;
+			if (
+				concurrencyLimit !== null &&
+				(!Number.isInteger(concurrencyLimit) || concurrencyLimit < 1)
+			) {
+				throw new BadRequestError('Concurrency limit must be a positive integer or null');
+			}
+			await this.projectsService.updateConcurrencyLimit(concurrencyLimit, req.params.projectId);
+		}
 		if (req.body.relations) {
 			try {
 				await this.projectsService.syncProjectRelations(req.params.projectId, req.body.relations);
@@ -0,0 +1,132 @@
+import { mock } from 'jest-mock-extended';
+import type { GlobalConfig } from '@n8n/config';
+import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
+import type { CredentialsRepository } from '@db/repositories/credentials.repository';
+import type { EventService } from '@/events/event.service';
+import { CredentialExpiryService, getOAuthTokenExpiry } from '../credential-expiry.service';
+
+describe('getOAuthTokenExpiry', () => {
+	const now = new Date('2024-08-01T00:00:00.000Z');
+
+	test('should derive the expiry from the refresh token lifetime', () => {
+		expect(
+			getOAuthTokenExpiry({ refresh_token: 'token', refresh_token_expires_in: 3600 }, now),
+		).toEqual(new Date('2024-08-01T01:00:00.000Z'));
+		expect(
+			getOAuthTokenExpiry({ refresh_token: 'token', x_refresh_token_expires_in: '86400' }, now),
+		).toEqual(new Date('2024-08-02T00:00:00.000Z'));
+	});
+
+	test('should not derive an expiry from access tokens, or without a refresh token', () => {
+		expect(getOAuthTokenExpiry({ access_token: 'token', expires_in: 3600 }, now)).toBeNull();
+		expect(getOAuthTokenExpiry({ refresh_token_expires_in: 3600 }, now)).toBeNull();
+		expect(
+			getOAuthTokenExpiry({ refresh_token: 'token', refresh_token_expires_in: 0 }, now),
+		).toBeNull();
+	});
+});
+
+describe('CredentialExpiryService', () => {
+	const globalConfig = mock<GlobalConfig>({
+		credentials: { expiry: { warningDays: 14, checkInterval: 60 } },
+	});
+	const credentialsRepository = mock<CredentialsRepository>();
+	const eventService = mock<EventService>();
+	const service = new CredentialExpiryService(
+		mock(),
+		globalConfig,
+		mock(),
+		mock(),
+		credentialsRepository,
+		eventService,
+	);
+
+	const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('checkExpiringCredentials', () => {
+		test('should announce a credential entering the warning period', async () => {
+			credentialsRepository.findExpiringSoon.mockResolvedValue([
+				{
+					id: 'cred-1',
+					name: 'Stripe',
+					type: 'stripeApi',
+					expiresAt,
+					expiryNotifiedAt: null,
+					rotationWorkflowId: 'wf-1',
+				} as CredentialsEntity,
+			]);
+
+			await service.checkExpiringCredentials();
+
+			expect(credentialsRepository.update).toHaveBeenCalledWith('cred-1', {
+				expiryNotifiedAt: expect.any(Date),
+			});
+			expect(eventService.emit).toHaveBeenCalledWith('credentials-expiring', {
+				credentialId: 'cred-1',
+				credentialName: 'Stripe',
+				credentialType: 'stripeApi',
+				expiresAt,
+				rotationWorkflowId: 'wf-1',
+			});
+		});
+
+		test('should not announce the same expiry again', async () => {
+			credentialsRepository.findExpiringSoon.mockResolvedValue([
+				mock<CredentialsEntity>({ id: 'cred-1', expiresAt, expiryNotifiedAt: new Date() }),
+			]);
+
+			await service.checkExpiringCredentials();
+
+			expect(credentialsRepository.update).not.toHaveBeenCalled();
+			expect(eventService.emit).not.toHaveBeenCalled();
+		});
+
+		test('should announce a credential again once its new expiry enters the warning period', async () => {
+			credentialsRepository.findExpiringSoon.mockResolvedValue([
+				mock<CredentialsEntity>({
+					id: 'cred-1',
+					expiresAt,
+					expiryNotifiedAt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000),
+				}),
+			]);
+
+			await service.checkExpiringCredentials();
+
+			expect(eventService.emit).toHaveBeenCalledWith(
+				'credentials-expiring',
+				expect.objectContaining({ credentialId: 'cred-1' }),
+			);
+		});
+	});
+
+	describe('updateOAuthExpiry', () => {
+		const tokenData = { refresh_token: 'token', refresh_token_expires_in: 3600 };
+
+		test('should set the expiry derived from the OAuth tokens', async () => {
+			credentialsRepository.findOne.mockResolvedValue(
+				mock<CredentialsEntity>({ id: 'cred-1', expirySource: null }),
+			);
+
+			await service.updateOAuthExpiry('cred-1', tokenData);
+
+			expect(credentialsRepository.update).toHaveBeenCalledWith('cred-1', {
+				expiresAt: expect.any(Date),
+				expirySource: 'oauth',
+			});
+		});
+
+		test('should not override an expiry set by a user', async () => {
+			credentialsRepository.findOne.mockResolvedValue(
+				mock<CredentialsEntity>({ id: 'cred-1', expirySource: 'manual' }),
+			);
+
+			await service.updateOAuthExpiry('cred-1', tokenData);
+
+			expect(credentialsRepository.update).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,108 @@
+import { mock } from 'jest-mock-extended';
+import type { ICredentialTestRequestData } from 'n8n-workflow';
+import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
+import type { User } from '@db/entities/User';
+import type { CredentialsRepository } from '@db/repositories/credentials.repository';
+import type { EventService } from '@/events/event.service';
+import type { CredentialsTester } from '@/services/credentials-tester.service';
+import { CredentialHealthService } from '../credential-health.service';
+import type { CredentialsService } from '../credentials.service';
+
+describe('CredentialHealthService', () => {
+	const credentialsRepository = mock<CredentialsRepository>();
+	const credentialsService = mock<CredentialsService>();
+	const credentialsTester = mock<CredentialsTester>();
+	const eventService = mock<EventService>();
+	const service = new CredentialHealthService(
+		mock(),
+		mock(),
+		mock(),
+		mock(),
+		credentialsRepository,
+		credentialsService,
+		credentialsTester,
+		mock(),
+		eventService,
+	);
+
+	const owner = mock<User>();
+	const credential = (lastTestStatus: CredentialsEntity['lastTestStatus']) =>
+		({ id: 'cred-1', name: 'GitHub', type: 'githubApi', lastTestStatus }) as CredentialsEntity;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		credentialsTester.getCredentialTestFunction.mockReturnValue(mock<ICredentialTestRequestData>());
+		credentialsService.decrypt.mockReturnValue({ accessToken: 'token' });
+	});
+
+	describe('checkCredential', () => {
+		test('should record a failed test and announce the broken credential', async () => {
+			credentialsRepository.findOneBy.mockResolvedValue(credential('ok'));
+			credentialsTester.testCredentials.mockResolvedValue({
+				status: 'Error',
+				message: 'Bad credentials',
+			});
+
+			await service.checkCredential('cred-1', owner);
+
+			expect(credentialsTester.testCredentials).toHaveBeenCalledWith(owner, 'githubApi', {
+				id: 'cred-1',
+				name: 'GitHub',
+				type: 'githubApi',
+				data: { accessToken: 'token' },
+			});
+			expect(credentialsRepository.recordTestResult).toHaveBeenCalledWith('cred-1', {
+				lastTestedAt: expect.any(Date),
+				lastTestStatus: 'error',
+				lastTestError: 'Bad credentials',
+			});
+			expect(eventService.emit).toHaveBeenCalledWith('credentials-health-check-failed', {
+				credentialId: 'cred-1',
+				credentialName: 'GitHub',
+				credentialType: 'githubApi',
+				errorMessage: 'Bad credentials',
+			});
+		});
+
+		test('should not announce a credential that was already broken', async () => {
+			credentialsRepository.findOneBy.mockResolvedValue(credential('error'));
+			credentialsTester.testCredentials.mockResolvedValue({
+				status: 'Error',
+				message: 'Bad credentials',
+			});
+
+			await service.checkCredential('cred-1', owner);
+
+			expect(credentialsRepository.recordTestResult).toHaveBeenCalled();
+			expect(eventService.emit).not.toHaveBeenCalled();
+		});
+
+		test('should announce a broken credential that recovered', async () => {
+			credentialsRepository.findOneBy.mockResolvedValue(credential('error'));
+			credentialsTester.testCredentials.mockResolvedValue({ status: 'OK', message: 'Connected' });
+
+			await service.checkCredential('cred-1', owner);
+
+			expect(credentialsRepository.recordTestResult).toHaveBeenCalledWith('cred-1', {
+				lastTestedAt: expect.any(Date),
+				lastTestStatus: 'ok',
+				lastTestError: null,
+			});
+			expect(eventService.emit).toHaveBeenCalledWith('credentials-health-check-recovered', {
+				credentialId: 'cred-1',
+				credentialName: 'GitHub',
+				credentialType: 'githubApi',
+			});
+		});
+
+		test('should skip credentials that do not support testing', async () => {
+			credentialsRepository.findOneBy.mockResolvedValue(credential(null));
+			credentialsTester.getCredentialTestFunction.mockReturnValue(undefined);
+
+			await service.checkCredential('cred-1', owner);
+
+			expect(credentialsTester.testCredentials).not.toHaveBeenCalled();
+			expect(credentialsRepository.recordTestResult).not.toHaveBeenCalled();
+		});
+	});
+});
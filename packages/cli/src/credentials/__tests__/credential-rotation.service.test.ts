@@ -0,0 +1,101 @@
+import { mock } from 'jest-mock-extended';
+import type { INodeProperties, IRun } from 'n8n-workflow';
+import { EXECUTE_WORKFLOW_TRIGGER_NODE_TYPE } from 'n8n-workflow';
+import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
+import type { Project } from '@db/entities/Project';
+import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
+import type { CredentialsRepository } from '@db/repositories/credentials.repository';
+import type { WorkflowRepository } from '@db/repositories/workflow.repository';
+import type { ActiveExecutions } from '@/ActiveExecutions';
+import type { CredentialsHelper } from '@/CredentialsHelper';
+import { CredentialRotationError } from '@/errors/credential-rotation.error';
+import type { OwnershipService } from '@/services/ownership.service';
+import type { WorkflowRunner } from '@/WorkflowRunner';
+import type { CredentialsService } from '../credentials.service';
+import { CredentialRotationService } from '../credential-rotation.service';
+
+describe('CredentialRotationService', () => {
+	const credentialsRepository = mock<CredentialsRepository>();
+	const credentialsService = mock<CredentialsService>();
+	const credentialsHelper = mock<CredentialsHelper>();
+	const workflowRepository = mock<WorkflowRepository>();
+	const ownershipService = mock<OwnershipService>();
+	const workflowRunner = mock<WorkflowRunner>();
+	const activeExecutions = mock<ActiveExecutions>();
+	const service = new CredentialRotationService(
+		mock(),
+		credentialsRepository,
+		credentialsService,
+		credentialsHelper,
+		workflowRepository,
+		mock(),
+		ownershipService,
+		workflowRunner,
+		activeExecutions,
+		mock(),
+	);
+
+	const credential = mock<CredentialsEntity>({
+		id: 'cred-1',
+		type: 'httpHeaderAuth',
+		rotationWorkflowId: 'wf-1',
+		expiresAt: null,
+	});
+
+	const returnFromRotationWorkflow = (json: object) => {
+		activeExecutions.getPostExecutePromise.mockResolvedValue(
+			mock<IRun>({
+				mode: 'internal',
+				data: {
+					resultData: {
+						lastNodeExecuted: 'Return',
+						runData: { Return: [{ data: { main: [[{ json }]] } }] },
+						pinData: {},
+						error: undefined,
+					},
+				},
+			}),
+		);
+	};
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		credentialsRepository.findOneBy.mockResolvedValue(credential);
+		workflowRepository.findOneBy.mockResolvedValue(
+			mock<WorkflowEntity>({
+				nodes: [{ name: 'Start', type: EXECUTE_WORKFLOW_TRIGGER_NODE_TYPE, disabled: false }],
+			}),
+		);
+		ownershipService.getWorkflowProjectCached.mockResolvedValue(mock<Project>({ id: 'p-1' }));
+		workflowRunner.run.mockResolvedValue('exec-1');
+		credentialsHelper.getCredentialsProperties.mockReturnValue([
+			{ name: 'name', type: 'string' },
+			{ name: 'value', type: 'string', typeOptions: { password: true } },
+		] as INodeProperties[]);
+		credentialsService.decrypt.mockReturnValue({ name: 'Authorization', value: 'old' });
+	});
+
+	test('should update the secret fields returned by the rotation workflow', async () => {
+		returnFromRotationWorkflow({ data: { value: 'new' } });
+
+		await service.rotate('cred-1');
+
+		expect(credentialsService.createEncryptedData).toHaveBeenCalledWith(
+			'cred-1',
+			expect.objectContaining({ data: { name: 'Authorization', value: 'new' } }),
+		);
+		expect(credentialsService.update).toHaveBeenCalled();
+	});
+
+	test('should reject fields returned by the rotation workflow that are not secrets', async () => {
+		returnFromRotationWorkflow({ data: { value: 'new', name: 'X-Forward-To' } });
+
+		await expect(service.rotate('cred-1')).rejects.toThrow(
+			new CredentialRotationError(
+				'cred-1',
+				'its rotation workflow returned fields that are not secrets: name',
+			),
+		);
+		expect(credentialsService.update).not.toHaveBeenCalled();
+	});
+});
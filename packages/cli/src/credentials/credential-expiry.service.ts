@@ -0,0 +1,115 @@
+import { Service } from 'typedi';
+import { InstanceSettings } from 'n8n-core';
+import { GlobalConfig } from '@n8n/config';
+import type { IDataObject } from 'n8n-workflow';
+import { CredentialsRepository } from '@db/repositories/credentials.repository';
+import { OnShutdown } from '@/decorators/OnShutdown';
+import { EventService } from '@/events/event.service';
+import { Logger } from '@/Logger';
+import { OrchestrationService } from '@/services/orchestration.service';
+import { TIME } from '@/constants';
+
+/**
+ * When the credential needs to be reconnected, i.e. when its refresh token expires, for the
+ * providers telling. Access tokens are left out, as they are refreshed or fetched again.
+ */
+export function getOAuthTokenExpiry(oauthTokenData: IDataObject, now = new Date()) {
+	const expiresIn =
+		oauthTokenData.refresh_token_expires_in ?? oauthTokenData.x_refresh_token_expires_in;
+	const seconds = Number(expiresIn);
+
+	if (!oauthTokenData.refresh_token || !Number.isFinite(seconds) || seconds <= 0) return null;
+
+	return new Date(now.getTime() + seconds * TIME.SECOND);
+}
+
+/**
+ * Announces credentials about to expire with a `credentials-expiring` event, once per
+ * expiry, for log streaming destinations to alert about and for rotation workflows to run.
+ */
+@Service()
+export class CredentialExpiryService {
+	private checkInterval: NodeJS.Timer | undefined;
+
+	constructor(
+		private readonly logger: Logger,
+		private readonly globalConfig: GlobalConfig,
+		private readonly instanceSettings: InstanceSettings,
+		private readonly orchestrationService: OrchestrationService,
+		private readonly credentialsRepository: CredentialsRepository,
+		private readonly eventService: EventService,
+	) {}
+
+	/**
+	 * @important Requires `OrchestrationService` to be initialized.
+	 */
+	init() {
+		if (this.instanceSettings.isLeader) this.startChecking();
+
+		if (this.orchestrationService.isMultiMainSetupEnabled) {
+			this.orchestrationService.multiMainSetup
+				.on('leader-takeover', () => this.startChecking())
+				.on('leader-stepdown', () => this.stopChecking());
+		}
+	}
+
+	startChecking() {
+		this.stopChecking();
+		this.checkInterval = setInterval(
+			async () => await this.checkExpiringCredentials(),
+			this.globalConfig.credentials.expiry.checkInterval * TIME.MINUTE,
+		);
+		void this.checkExpiringCredentials();
+	}
+
+	@OnShutdown()
+	stopChecking() {
+		clearInterval(this.checkInterval);
+		this.checkInterval = undefined;
+	}
+
+	async checkExpiringCredentials() {
+		try {
+			const warningPeriod = this.globalConfig.credentials.expiry.warningDays * TIME.DAY;
+			const credentials = await this.credentialsRepository.findExpiringSoon();
+
+			for (const credential of credentials) {
+				const expiresAt = credential.expiresAt!;
+
+				// announced since the expiry entered the warning period, i.e. for this expiry
+				const { expiryNotifiedAt } = credential;
+				if (expiryNotifiedAt && expiryNotifiedAt.getTime() >= expiresAt.getTime() - warningPeriod) {
+					continue;
+				}
+
+				await this.credentialsRepository.update(credential.id, { expiryNotifiedAt: new Date() });
+
+				this.eventService.emit('credentials-expiring', {
+					credentialId: credential.id,
+					credentialName: credential.name,
+					credentialType: credential.type,
+					expiresAt,
+					rotationWorkflowId: credential.rotationWorkflowId,
+				});
+			}
+		} catch (error) {
+			this.logger.error('Failed to check for expiring credentials', { error: error as Error });
+		}
+	}
+
+	/**
+	 * Derive the expiry of a credential from its OAuth tokens, unless a user or a rotation set one.
+	 */
+	async updateOAuthExpiry(credentialId: string, oauthTokenData: IDataObject) {
+		const expiresAt = getOAuthTokenExpiry(oauthTokenData);
+		if (!expiresAt) return;
+
+		const credential = await this.credentialsRepository.findOne({
+			select: ['id', 'expirySource'],
+			where: { id: credentialId },
+		});
+		if (!credential || (credential.expirySource && credential.expirySource !== 'oauth')) return;
+
+		await this.credentialsRepository.update(credentialId, { expiresAt, expirySource: 'oauth' });
+	}
+}
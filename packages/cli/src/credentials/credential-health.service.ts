@@ -0,0 +1,160 @@
+import { Service } from 'typedi';
+import { InstanceSettings } from 'n8n-core';
+import { GlobalConfig } from '@n8n/config';
+import type { INodeCredentialTestResult } from 'n8n-workflow';
+import type { CredentialTestStatus } from '@db/entities/CredentialsEntity';
+import type { User } from '@db/entities/User';
+import { CredentialsRepository } from '@db/repositories/credentials.repository';
+import { OnShutdown } from '@/decorators/OnShutdown';
+import { EventService } from '@/events/event.service';
+import { Logger } from '@/Logger';
+import { CredentialsTester } from '@/services/credentials-tester.service';
+import { OrchestrationService } from '@/services/orchestration.service';
+import { OwnershipService } from '@/services/ownership.service';
+import { TIME } from '@/constants';
+import { CredentialsService } from './credentials.service';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Periodically tests the credentials that support testing and records the result on each
+ * credential, announcing credentials that broke or recovered since their previous test.
+ */
+@Service()
+export class CredentialHealthService {
+	private checkInterval: NodeJS.Timer | undefined;
+
+	private isChecking = false;
+
+	constructor(
+		private readonly logger: Logger,
+		private readonly globalConfig: GlobalConfig,
+		private readonly instanceSettings: InstanceSettings,
+		private readonly orchestrationService: OrchestrationService,
+		private readonly credentialsRepository: CredentialsRepository,
+		private readonly credentialsService: CredentialsService,
+		private readonly credentialsTester: CredentialsTester,
+		private readonly ownershipService: OwnershipService,
+		private readonly eventService: EventService,
+	) {}
+
+	/**
+	 * @important Requires `OrchestrationService` to be initialized.
+	 */
+	init() {
+		if (!this.globalConfig.credentials.healthCheck.enabled) return;
+
+		if (this.instanceSettings.isLeader) this.startChecking();
+
+		if (this.orchestrationService.isMultiMainSetupEnabled) {
+			this.orchestrationService.multiMainSetup
+				.on('leader-takeover', () => this.startChecking())
+				.on('leader-stepdown', () => this.stopChecking());
+		}
+
+		// test again on changes, for fixed credentials not to be reported until the next check
+		for (const eventName of ['credentials-updated', 'credentials-rotated'] as const) {
+			this.eventService.on(eventName, ({ credentialId }) => {
+				void this.checkCredential(credentialId);
+			});
+		}
+	}
+
+	startChecking() {
+		this.stopChecking();
+		this.checkInterval = setInterval(
+			async () => await this.checkAllCredentials(),
+			this.globalConfig.credentials.healthCheck.interval * TIME.MINUTE,
+		);
+		void this.checkAllCredentials();
+	}
+
+	@OnShutdown()
+	stopChecking() {
+		clearInterval(this.checkInterval);
+		this.checkInterval = undefined;
+	}
+
+	async checkAllCredentials() {
+		if (this.isChecking) return;
+		this.isChecking = true;
+
+		try {
+			const owner = await this.ownershipService.getInstanceOwner();
+
+			for (let skip = 0; ; skip += BATCH_SIZE) {
+				const credentials = await this.credentialsRepository.find({
+					select: ['id'],
+					order: { id: 'ASC' },
+					skip,
+					take: BATCH_SIZE,
+				});
+				for (const { id } of credentials) await this.checkCredential(id, owner);
+				if (credentials.length < BATCH_SIZE) break;
+			}
+		} catch (error) {
+			this.logger.error('Failed to check the health of credentials', { error: error as Error });
+		} finally {
+			this.isChecking = false;
+		}
+	}
+
+	/** Test the credential, if its type supports testing, and record the result */
+	async checkCredential(credentialId: string, user?: User) {
+		try {
+			const credential = await this.credentialsRepository.findOneBy({ id: credentialId });
+			if (!credential || !this.isTestable(credential.type)) return;
+
+			let result: INodeCredentialTestResult;
+			try {
+				result = await this.credentialsTester.testCredentials(
+					user ?? (await this.ownershipService.getInstanceOwner()),
+					credential.type,
+					{
+						id: credential.id,
+						name: credential.name,
+						type: credential.type,
+						data: this.credentialsService.decrypt(credential),
+					},
+				);
+			} catch (error) {
+				result = { status: 'Error', message: (error as Error).message };
+			}
+
+			const status: CredentialTestStatus = result.status === 'OK' ? 'ok' : 'error';
+			await this.credentialsRepository.recordTestResult(credentialId, {
+				lastTestedAt: new Date(),
+				lastTestStatus: status,
+				lastTestError: status === 'error' ? result.message : null,
+			});
+
+			const details = {
+				credentialId,
+				credentialName: credential.name,
+				credentialType: credential.type,
+			};
+			if (status === 'error' && credential.lastTestStatus !== 'error') {
+				this.logger.warn('Credential failed its health check', { credentialId });
+				this.eventService.emit('credentials-health-check-failed', {
+					...details,
+					errorMessage: result.message,
+				});
+			} else if (status === 'ok' && credential.lastTestStatus === 'error') {
+				this.eventService.emit('credentials-health-check-recovered', details);
+			}
+		} catch (error) {
+			this.logger.warn(`Failed to check the health of credential ${credentialId}`, {
+				error: error as Error,
+			});
+		}
+	}
+
+	private isTestable(credentialType: string) {
+		try {
+			return this.credentialsTester.getCredentialTestFunction(credentialType) !== undefined;
+		} catch {
+			// unknown credential type, e.g. of an uninstalled community node
+			return false;
+		}
+	}
+}
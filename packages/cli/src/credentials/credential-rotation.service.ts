@@ -0,0 +1,211 @@
+import { Service } from 'typedi';
+import type { IDataObject, IRunExecutionData } from 'n8n-workflow';
+import { EXECUTE_WORKFLOW_TRIGGER_NODE_TYPE } from 'n8n-workflow';
+import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
+import type { User } from '@db/entities/User';
+import { CredentialsRepository } from '@db/repositories/credentials.repository';
+import { SharedWorkflowRepository } from '@db/repositories/sharedWorkflow.repository';
+import { WorkflowRepository } from '@db/repositories/workflow.repository';
+import { ActiveExecutions } from '@/ActiveExecutions';
+import { CredentialsHelper } from '@/CredentialsHelper';
+import { CredentialRotationError } from '@/errors/credential-rotation.error';
+import { EventService } from '@/events/event.service';
+import { Logger } from '@/Logger';
+import { OwnershipService } from '@/services/ownership.service';
+import { getDataLastExecutedNodeData } from '@/WorkflowHelpers';
+import { WorkflowRunner } from '@/WorkflowRunner';
+import { CredentialsService } from './credentials.service';
+
+/**
+ * Rotates credentials by running their rotation workflow, which starts with an "Execute
+ * Workflow Trigger" node receiving the credential, issues a new secret and returns the
+ * fields to update as `data`, along with the new `expiresAt`, if any. Only the secret fields
+ * of the credential type can be updated, so that the workflow cannot e.g. redirect the
+ * credential to another host.
+ *
+ * Credentials are rotated when announced as expiring, or on demand.
+ */
+@Service()
+export class CredentialRotationService {
+	constructor(
+		private readonly logger: Logger,
+		private readonly credentialsRepository: CredentialsRepository,
+		private readonly credentialsService: CredentialsService,
+		private readonly credentialsHelper: CredentialsHelper,
+		private readonly workflowRepository: WorkflowRepository,
+		private readonly sharedWorkflowRepository: SharedWorkflowRepository,
+		private readonly ownershipService: OwnershipService,
+		private readonly workflowRunner: WorkflowRunner,
+		private readonly activeExecutions: ActiveExecutions,
+		private readonly eventService: EventService,
+	) {}
+
+	init() {
+		this.eventService.on('credentials-expiring', ({ credentialId, rotationWorkflowId }) => {
+			if (!rotationWorkflowId) return;
+
+			void this.rotate(credentialId).catch((error: Error) => {
+				this.logger.warn(`Failed to rotate expiring credential: ${error.message}`, {
+					credentialId,
+				});
+			});
+		});
+	}
+
+	/** Whether the user may have credentials rotated by the workflow */
+	async canUseRotationWorkflow(user: User, workflowId: string) {
+		const workflow = await this.sharedWorkflowRepository.findWorkflowForUser(workflowId, user, [
+			'workflow:execute',
+		]);
+		return workflow !== null;
+	}
+
+	async rotate(credentialId: string) {
+		const credential = await this.credentialsRepository.findOneBy({ id: credentialId });
+		if (!credential) throw new CredentialRotationError(credentialId, 'it does not exist');
+
+		const workflowId = credential.rotationWorkflowId;
+		if (!workflowId) {
+			throw new CredentialRotationError(credentialId, 'it has no rotation workflow');
+		}
+
+		let executionId: string | undefined;
+		try {
+			executionId = await this.runRotationWorkflow(credential, workflowId);
+			const { data, expiresAt } = await this.getRotationResult(credential, executionId);
+
+			const decryptedData = this.credentialsService.decrypt(credential);
+			const encryptedData = this.credentialsService.createEncryptedData(credentialId, {
+				...credential,
+				data: { ...decryptedData, ...data },
+				...(expiresAt !== undefined && {
+					expiresAt,
+					expirySource: expiresAt ? 'rotation' : null,
+				}),
+			} as unknown as CredentialsEntity);
+			await this.credentialsService.update(credentialId, encryptedData);
+		} catch (error) {
+			this.eventService.emit('credentials-rotation-failed', {
+				credentialId,
+				credentialType: credential.type,
+				workflowId,
+				executionId,
+				errorMessage: (error as Error).message,
+			});
+			throw error;
+		}
+
+		this.logger.info('Rotated credential', { credentialId, workflowId, executionId });
+
+		this.eventService.emit('credentials-rotated', {
+			credentialId,
+			credentialType: credential.type,
+			workflowId,
+			executionId,
+		});
+	}
+
+	private async runRotationWorkflow(credential: CredentialsEntity, workflowId: string) {
+		const workflowData = await this.workflowRepository.findOneBy({ id: workflowId });
+		if (!workflowData) {
+			throw new CredentialRotationError(credential.id, 'its rotation workflow does not exist');
+		}
+
+		const startNode = workflowData.nodes.find(
+			(node) => node.type === EXECUTE_WORKFLOW_TRIGGER_NODE_TYPE && !node.disabled,
+		);
+		if (!startNode) {
+			throw new CredentialRotationError(
+				credential.id,
+				'its rotation workflow does not start with an "Execute Workflow Trigger" node',
+			);
+		}
+
+		const executionData: IRunExecutionData = {
+			startData: {},
+			resultData: { runData: {} },
+			executionData: {
+				contextData: {},
+				metadata: {},
+				nodeExecutionStack: [
+					{
+						node: startNode,
+						data: {
+							main: [
+								[
+									{
+										json: {
+											credentialId: credential.id,
+											credentialName: credential.name,
+											credentialType: credential.type,
+											expiresAt: credential.expiresAt?.toISOString() ?? null,
+										},
+									},
+								],
+							],
+						},
+						source: null,
+					},
+				],
+				waitingExecution: {},
+				waitingExecutionSource: {},
+			},
+		};
+
+		const project = await this.ownershipService.getWorkflowProjectCached(workflowId);
+
+		return await this.workflowRunner.run({
+			executionMode: 'internal',
+			executionData,
+			workflowData,
+			projectId: project.id,
+		});
+	}
+
+	private async getRotationResult(credential: CredentialsEntity, executionId: string) {
+		const run = await this.activeExecutions.getPostExecutePromise(executionId);
+
+		const error = run?.data.resultData.error;
+		if (!run || error) {
+			throw new CredentialRotationError(credential.id, 'its rotation workflow failed', error);
+		}
+
+		const output = getDataLastExecutedNodeData(run)?.data?.main[0]?.[0]?.json ?? {};
+		const { data, expiresAt } = output as { data?: unknown; expiresAt?: unknown };
+
+		if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+			throw new CredentialRotationError(
+				credential.id,
+				'its rotation workflow did not return the new credential fields as `data`',
+			);
+		}
+
+		const secretFields = new Set(
+			this.credentialsHelper
+				.getCredentialsProperties(credential.type)
+				.filter((property) => property.typeOptions?.password)
+				.map((property) => property.name),
+		);
+		const otherFields = Object.keys(data).filter((field) => !secretFields.has(field));
+		if (otherFields.length > 0) {
+			throw new CredentialRotationError(
+				credential.id,
+				`its rotation workflow returned fields that are not secrets: ${otherFields.join(', ')}`,
+			);
+		}
+
+		const expiryDate =
+			typeof expiresAt === 'string' || typeof expiresAt === 'number' ? new Date(expiresAt) : null;
+		if (expiryDate && isNaN(expiryDate.getTime())) {
+			throw new CredentialRotationError(
+				credential.id,
+				'its rotation workflow returned an invalid `expiresAt`',
+			);
+		}
+
+		return {
+			data: data as IDataObject,
+			expiresAt: expiresAt === undefined ? undefined : expiryDate,
+		};
+	}
+}
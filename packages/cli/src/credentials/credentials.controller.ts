@@ -31,6 +31,9 @@ import { SharedCredentials } from '@/databases/entities/SharedCredentials';
 import { ProjectRelationRepository } from '@/databases/repositories/projectRelation.repository';
 import { z } from 'zod';
 import { EventService } from '@/events/event.service';
+import { CredentialRotationService } from './credential-rotation.service';
+import { CredentialRotationError } from '@/errors/credential-rotation.error';
+import type { User } from '@/databases/entities/User';
 
 @RestController('/credentials')
 export class CredentialsController {
@@ -45,6 +48,7 @@ export class CredentialsController {
 		private readonly sharedCredentialsRepository: SharedCredentialsRepository,
 		private readonly projectRelationRepository: ProjectRelationRepository,
 		private readonly eventService: EventService,
+		private readonly credentialRotationService: CredentialRotationService,
 	) {}
 
 	@Get('/', { middlewares: listQueryMiddleware })
@@ -150,6 +154,8 @@ export class CredentialsController {
 
 	@Post('/')
 	async createCredentials(req: CredentialRequest.Create) {
+		await this.validateRotationWorkflow(req.user, req.body.rotationWorkflowId);
+
 		const newCredential = await this.credentialsService.prepareCreateData(req.body);
 
 		const encryptedData = this.credentialsService.createEncryptedData(null, newCredential);
@@ -199,6 +205,10 @@ export class CredentialsController {
 			);
 		}
 
+		if (req.body.rotationWorkflowId !== credential.rotationWorkflowId) {
+			await this.validateRotationWorkflow(req.user, req.body.rotationWorkflowId);
+		}
+
 		const decryptedData = this.credentialsService.decrypt(credential);
 		const preparedCredentialData = await this.credentialsService.prepareUpdateData(
 			req.body,
@@ -231,6 +241,35 @@ export class CredentialsController {
 		return { ...rest, scopes };
 	}
 
+	@Post('/:credentialId/rotate')
+	@ProjectScope('credential:update')
+	async rotateCredentials(req: CredentialRequest.Rotate) {
+		const { credentialId } = req.params;
+
+		const credential = await this.sharedCredentialsRepository.findCredentialForUser(
+			credentialId,
+			req.user,
+			['credential:update'],
+		);
+
+		if (!credential) {
+			throw new NotFoundError(
+				'Credential to be rotated not found. You can only rotate credentials owned by you',
+			);
+		}
+
+		try {
+			await this.credentialRotationService.rotate(credentialId);
+		} catch (error) {
+			if (error instanceof CredentialRotationError) {
+				throw new BadRequestError(error.message);
+			}
+			throw error;
+		}
+
+		return await this.credentialsService.getOne(req.user, credentialId, false);
+	}
+
 	@Delete('/:credentialId')
 	@ProjectScope('credential:delete')
 	async deleteCredentials(req: CredentialRequest.Delete) {
@@ -350,4 +389,14 @@ export class CredentialsController {
 			body.destinationProjectId,
 		);
 	}
+
+	private async validateRotationWorkflow(user: User, workflowId?: string | null) {
+		if (!workflowId) return;
+
+		if (!(await this.credentialRotationService.canUseRotationWorkflow(user, workflowId))) {
+			throw new BadRequestError(
+				`Workflow "${workflowId}" not found. The rotation workflow must be one you can execute`,
+			);
+		}
+	}
 }
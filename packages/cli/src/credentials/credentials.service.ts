@@ -182,6 +182,8 @@ export class CredentialsService {
 				name: c.name,
 				type: c.type,
 				scopes: c.scopes,
+				lastTestStatus: c.lastTestStatus,
+				lastTestError: c.lastTestError,
 			}));
 	}
 
@@ -245,7 +247,7 @@ export class CredentialsService {
 	async prepareCreateData(
 		data: CredentialRequest.CredentialProperties,
 	): Promise<CredentialsEntity> {
-		const { id, ...rest } = data;
+		const { id, expiresAt, rotationWorkflowId, ...rest } = data;
 
 		// This saves us a merge but requires some type casting. These
 		// types are compatible for this case.
@@ -253,6 +255,8 @@ export class CredentialsService {
 
 		await validateEntity(newCredentials);
 
+		Object.assign(newCredentials, this.toExpiryData({ expiresAt, rotationWorkflowId }));
+
 		return newCredentials;
 	}
 
@@ -260,7 +264,7 @@ export class CredentialsService {
 		data: CredentialRequest.CredentialProperties,
 		decryptedData: ICredentialDataDecryptedObject,
 	): Promise<CredentialsEntity> {
-		const mergedData = deepCopy(data);
+		const { expiresAt, rotationWorkflowId, ...mergedData } = deepCopy(data);
 		if (mergedData.data) {
 			mergedData.data = this.unredact(mergedData.data, decryptedData);
 		}
@@ -271,6 +275,8 @@ export class CredentialsService {
 
 		await validateEntity(updateData);
 
+		Object.assign(updateData, this.toExpiryData({ expiresAt, rotationWorkflowId }));
+
 		// Do not overwrite the oauth data else data like the access or refresh token would get lost
 		// every time anybody changes anything on the credentials even if it is just the name.
 		if (decryptedData.oauthTokenData) {
@@ -290,9 +296,39 @@ export class CredentialsService {
 		// Add special database related data
 		newCredentialData.updatedAt = new Date();
 
+		for (const field of ['expiresAt', 'expirySource', 'rotationWorkflowId'] as const) {
+			if (data[field] !== undefined) Object.assign(newCredentialData, { [field]: data[field] });
+		}
+
 		return newCredentialData;
 	}
 
+	/**
+	 * Columns to update for the expiry and rotation workflow sent by a user, leaving out
+	 * those not sent. An expiry set by a user is never overwritten by OAuth tokens.
+	 */
+	private toExpiryData({
+		expiresAt,
+		rotationWorkflowId,
+	}: CredentialRequest.CredentialProperties): Partial<CredentialsEntity> {
+		const expiryData: Partial<CredentialsEntity> = {};
+
+		if (expiresAt !== undefined) {
+			const expiryDate = expiresAt === null ? null : new Date(expiresAt);
+			if (expiryDate && isNaN(expiryDate.getTime())) {
+				throw new BadRequestError('Credential `expiresAt` must be a date');
+			}
+			expiryData.expiresAt = expiryDate;
+			expiryData.expirySource = expiryDate ? 'manual' : null;
+		}
+
+		if (rotationWorkflowId !== undefined) {
+			expiryData.rotationWorkflowId = rotationWorkflowId || null;
+		}
+
+		return expiryData;
+	}
+
 	decrypt(credential: CredentialsEntity) {
 		const coreCredential = createCredentialsFromCredentialsEntity(credential);
 		return coreCredential.getData();
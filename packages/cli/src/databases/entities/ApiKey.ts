@@ -0,0 +1,43 @@
+import { Column, Entity, Index, ManyToOne } from '@n8n/typeorm';
+import type { Scope } from '@n8n/permissions';
+import { WithTimestampsAndStringId, datetimeColumnType, jsonColumnType } from './AbstractEntity';
+import { User } from './User';
+
+/**
+ * Named key to authenticate against the public API on behalf of its owner,
+ * limited to a subset of the owner's scopes and optionally to some projects.
+ */
+@Entity()
+export class ApiKey extends WithTimestampsAndStringId {
+	@Index()
+	@Column('uuid')
+	userId: string;
+
+	@ManyToOne('User', {
+		onDelete: 'CASCADE',
+	})
+	user: User;
+
+	@Column({ length: 100 })
+	label: string;
+
+	@Index({ unique: true })
+	@Column()
+	apiKey: string;
+
+	@Column(jsonColumnType)
+	scopes: Scope[];
+
+	/**
+	 * IDs of the projects the key is restricted to, or `null` for all projects
+	 * of its owner.
+	 */
+	@Column({ type: jsonColumnType, nullable: true })
+	projectIds: string[] | null;
+
+	@Column({ type: datetimeColumnType, nullable: true })
+	expiresAt: Date | null;
+
+	@Column({ type: datetimeColumnType, nullable: true })
+	lastUsedAt: Date | null;
+}
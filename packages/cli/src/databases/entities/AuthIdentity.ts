@@ -2,7 +2,10 @@ import { Column, Entity, ManyToOne, PrimaryColumn, Unique } from '@n8n/typeorm';
 import { WithTimestamps } from './AbstractEntity';
 import { User } from './User';
 
-export type AuthProviderType = 'ldap' | 'email' | 'saml'; // | 'google';
+export type AuthProviderType = 'ldap' | 'email' | 'saml' | 'oidc'; // | 'google';
+
+/** Identities are also linked by SCIM provisioning, which is not a login method */
+export type AuthIdentityProviderType = AuthProviderType | 'scim';
 
 @Entity()
 @Unique(['providerId', 'providerType'])
@@ -17,12 +20,12 @@ export class AuthIdentity extends WithTimestamps {
 	providerId: string;
 
 	@PrimaryColumn()
-	providerType: AuthProviderType;
+	providerType: AuthIdentityProviderType;
 
 	static create(
 		user: User,
 		providerId: string,
-		providerType: AuthProviderType = 'ldap',
+		providerType: AuthIdentityProviderType = 'ldap',
 	): AuthIdentity {
 		const identity = new AuthIdentity();
 		identity.user = user;
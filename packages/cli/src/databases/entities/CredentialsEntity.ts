@@ -1,9 +1,14 @@
 import { Column, Entity, Index, OneToMany } from '@n8n/typeorm';
 import { IsObject, IsString, Length } from 'class-validator';
 import type { SharedCredentials } from './SharedCredentials';
-import { WithTimestampsAndStringId } from './AbstractEntity';
+import { WithTimestampsAndStringId, datetimeColumnType } from './AbstractEntity';
 import type { ICredentialsDb } from '@/Interfaces';
 
+/** Whether the expiry of a credential was set by a user, its rotation workflow, or derived from its OAuth tokens */
+export type CredentialExpirySource = 'manual' | 'rotation' | 'oauth';
+
+export type CredentialTestStatus = 'ok' | 'error';
+
 @Entity()
 export class CredentialsEntity extends WithTimestampsAndStringId implements ICredentialsDb {
 	@Column({ length: 128 })
@@ -24,6 +29,31 @@ export class CredentialsEntity extends WithTimestampsAndStringId implements ICre
 	})
 	type: string;
 
+	@Index()
+	@Column({ type: datetimeColumnType, nullable: true })
+	expiresAt: Date | null;
+
+	@Column({ type: 'varchar', nullable: true })
+	expirySource: CredentialExpirySource | null;
+
+	/** When the upcoming expiry was announced, to announce it once */
+	@Column({ type: datetimeColumnType, nullable: true })
+	expiryNotifiedAt: Date | null;
+
+	/** Workflow to run to issue a new secret before the credential expires */
+	@Column({ type: 'varchar', nullable: true })
+	rotationWorkflowId: string | null;
+
+	/** When the credential was last tested by the scheduled health check */
+	@Column({ type: datetimeColumnType, nullable: true })
+	lastTestedAt: Date | null;
+
+	@Column({ type: 'varchar', nullable: true })
+	lastTestStatus: CredentialTestStatus | null;
+
+	@Column({ type: 'text', nullable: true })
+	lastTestError: string | null;
+
 	@OneToMany('SharedCredentials', 'credentials')
 	shared: SharedCredentials[];
 }
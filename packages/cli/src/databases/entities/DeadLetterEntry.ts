@@ -0,0 +1,50 @@
+import { Column, Entity, Index, ManyToOne } from '@n8n/typeorm';
+import { ITaskDataConnections, WorkflowExecuteMode } from 'n8n-workflow';
+import { WithTimestampsAndStringId, jsonColumnType } from './AbstractEntity';
+import { WorkflowEntity } from './WorkflowEntity';
+
+export type DeadLetterStatus = 'pending' | 'replayed';
+
+/**
+ * Failed production execution, kept along with the output of its trigger node
+ * so that it can be replayed against the current version of its workflow.
+ */
+@Entity()
+export class DeadLetterEntry extends WithTimestampsAndStringId {
+	@Index()
+	@Column()
+	workflowId: string;
+
+	@ManyToOne('WorkflowEntity', {
+		onDelete: 'CASCADE',
+	})
+	workflow: WorkflowEntity;
+
+	/**
+	 * ID of the failed execution. Not a foreign key, as the entry outlives the
+	 * execution once executions are pruned.
+	 */
+	@Column()
+	executionId: string;
+
+	@Column('varchar')
+	mode: WorkflowExecuteMode;
+
+	@Column()
+	triggerNode: string;
+
+	@Column(jsonColumnType)
+	triggerData: ITaskDataConnections;
+
+	@Column('text', { nullable: true })
+	errorMessage: string | null;
+
+	@Column('varchar')
+	status: DeadLetterStatus;
+
+	/**
+	 * ID of the execution that last replayed this entry, if any.
+	 */
+	@Column({ type: 'varchar', nullable: true })
+	replayExecutionId: string | null;
+}
@@ -14,6 +14,13 @@ export class Project extends WithTimestampsAndStringId {
 	@Column({ length: 36 })
 	type: ProjectType;
 
+	/**
+	 * Max production executions of workflows in this project allowed to run
+	 * concurrently. `null` means the project is not limited.
+	 */
+	@Column({ type: 'int', nullable: true })
+	concurrencyLimit: number | null;
+
 	@OneToMany('ProjectRelation', 'project')
 	projectRelations: ProjectRelation[];
 
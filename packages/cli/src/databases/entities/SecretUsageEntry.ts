@@ -0,0 +1,31 @@
+import { Column, Entity, Index } from '@n8n/typeorm';
+import { SecretUsageResourceType, SecretUsageType } from 'n8n-workflow';
+import { WithStringId } from './AbstractEntity';
+
+/**
+ * Reference to an external secret or a variable from a credential, or from a node
+ * of a workflow. Kept up to date as credentials and workflows are saved.
+ */
+@Entity()
+@Index(['resourceType', 'resourceId'])
+export class SecretUsageEntry extends WithStringId {
+	@Column('varchar')
+	secretType: SecretUsageType;
+
+	/** `<provider>.<name>` of an external secret, or key of a variable */
+	@Index()
+	@Column()
+	secretKey: string;
+
+	@Column('varchar')
+	resourceType: SecretUsageResourceType;
+
+	/**
+	 * ID of the credential or workflow. Not a foreign key, as it points to either table.
+	 */
+	@Column()
+	resourceId: string;
+
+	@Column({ type: 'varchar', nullable: true })
+	nodeName: string | null;
+}
@@ -0,0 +1,21 @@
+import { Column, Entity, ManyToOne, PrimaryColumn } from '@n8n/typeorm';
+import type { HttpRecording } from 'n8n-workflow';
+import { WithTimestamps, jsonColumnType } from './AbstractEntity';
+import { WorkflowEntity } from './WorkflowEntity';
+
+/**
+ * HTTP exchanges recorded during the last manual execution of a workflow in record mode.
+ */
+@Entity()
+export class WorkflowHttpRecording extends WithTimestamps {
+	@PrimaryColumn()
+	workflowId: string;
+
+	@Column(jsonColumnType)
+	exchanges: HttpRecording.Exchange[];
+
+	@ManyToOne('WorkflowEntity', {
+		onDelete: 'CASCADE',
+	})
+	workflow: WorkflowEntity;
+}
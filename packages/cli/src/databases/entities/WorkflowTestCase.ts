@@ -0,0 +1,35 @@
+import { Column, Entity, Index, ManyToOne } from '@n8n/typeorm';
+import { IsArray, IsObject, IsString, Length } from 'class-validator';
+import type { WorkflowTest } from 'n8n-workflow';
+import { WithTimestampsAndStringId, jsonColumnType } from './AbstractEntity';
+import { ISimplifiedPinData, WorkflowEntity } from './WorkflowEntity';
+
+@Entity()
+export class WorkflowTestCase extends WithTimestampsAndStringId {
+	@Column({ length: 128 })
+	@IsString({ message: 'Test case name must be of type string.' })
+	@Length(1, 128, {
+		message: 'Test case name must be $constraint1 to $constraint2 characters long.',
+	})
+	name: string;
+
+	@Index()
+	@Column()
+	workflowId: string;
+
+	@ManyToOne('WorkflowEntity', {
+		onDelete: 'CASCADE',
+	})
+	workflow: WorkflowEntity;
+
+	/**
+	 * Pin data of the trigger node as input, and of any other nodes to mock their output.
+	 */
+	@Column(jsonColumnType)
+	@IsObject({ message: 'Test case pin data must be an object.' })
+	pinData: ISimplifiedPinData;
+
+	@Column(jsonColumnType)
+	@IsArray({ message: 'Test case assertions must be an array.' })
+	assertions: WorkflowTest.Assertion[];
+}
@@ -21,6 +21,11 @@ import { ExecutionData } from './ExecutionData';
 import { WorkflowHistory } from './WorkflowHistory';
 import { Project } from './Project';
 import { ProjectRelation } from './ProjectRelation';
+import { DeadLetterEntry } from './DeadLetterEntry';
+import { WorkflowTestCase } from './WorkflowTestCase';
+import { SecretUsageEntry } from './SecretUsageEntry';
+import { WorkflowHttpRecording } from './WorkflowHttpRecording';
+import { ApiKey } from './ApiKey';
 
 export const entities = {
 	AuthIdentity,
@@ -46,4 +51,9 @@ export const entities = {
 	WorkflowHistory,
 	Project,
 	ProjectRelation,
+	DeadLetterEntry,
+	WorkflowTestCase,
+	WorkflowHttpRecording,
+	SecretUsageEntry,
+	ApiKey,
 };
@@ -0,0 +1,11 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+export class AddProjectConcurrencyLimit1723000000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { addColumns, column } }: MigrationContext) {
+		await addColumns('project', [column('concurrencyLimit').int]);
+	}
+
+	async down({ schemaBuilder: { dropColumns } }: MigrationContext) {
+		await dropColumns('project', ['concurrencyLimit']);
+	}
+}
@@ -0,0 +1,30 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+const tableName = 'dead_letter_entry';
+
+export class CreateDeadLetterTable1723100000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { createTable, column } }: MigrationContext) {
+		await createTable(tableName)
+			.withColumns(
+				column('id').varchar(36).primary.notNull,
+				column('workflowId').varchar(36).notNull,
+				column('executionId').varchar(36).notNull,
+				column('mode').varchar(20).notNull,
+				column('triggerNode').varchar(255).notNull,
+				column('triggerData').json.notNull,
+				column('errorMessage').text,
+				column('status').varchar(20).notNull,
+				column('replayExecutionId').varchar(36),
+			)
+			.withTimestamps.withIndexOn('workflowId')
+			.withForeignKey('workflowId', {
+				tableName: 'workflow_entity',
+				columnName: 'id',
+				onDelete: 'CASCADE',
+			});
+	}
+
+	async down({ schemaBuilder: { dropTable } }: MigrationContext) {
+		await dropTable(tableName);
+	}
+}
@@ -0,0 +1,26 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+const tableName = 'workflow_test_case';
+
+export class CreateWorkflowTestCaseTable1723200000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { createTable, column } }: MigrationContext) {
+		await createTable(tableName)
+			.withColumns(
+				column('id').varchar(36).primary.notNull,
+				column('name').varchar(128).notNull,
+				column('workflowId').varchar(36).notNull,
+				column('pinData').json.notNull,
+				column('assertions').json.notNull,
+			)
+			.withTimestamps.withIndexOn('workflowId')
+			.withForeignKey('workflowId', {
+				tableName: 'workflow_entity',
+				columnName: 'id',
+				onDelete: 'CASCADE',
+			});
+	}
+
+	async down({ schemaBuilder: { dropTable } }: MigrationContext) {
+		await dropTable(tableName);
+	}
+}
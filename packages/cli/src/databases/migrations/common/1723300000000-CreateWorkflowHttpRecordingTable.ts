@@ -0,0 +1,22 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+const tableName = 'workflow_http_recording';
+
+export class CreateWorkflowHttpRecordingTable1723300000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { createTable, column } }: MigrationContext) {
+		await createTable(tableName)
+			.withColumns(
+				column('workflowId').varchar(36).primary.notNull,
+				column('exchanges').json.notNull,
+			)
+			.withTimestamps.withForeignKey('workflowId', {
+				tableName: 'workflow_entity',
+				columnName: 'id',
+				onDelete: 'CASCADE',
+			});
+	}
+
+	async down({ schemaBuilder: { dropTable } }: MigrationContext) {
+		await dropTable(tableName);
+	}
+}
@@ -0,0 +1,23 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+const tableName = 'secret_usage_entry';
+
+export class CreateSecretUsageTable1723400000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { createTable, column } }: MigrationContext) {
+		await createTable(tableName)
+			.withColumns(
+				column('id').varchar(36).primary.notNull,
+				column('secretType').varchar(20).notNull,
+				column('secretKey').varchar(255).notNull,
+				column('resourceType').varchar(20).notNull,
+				column('resourceId').varchar(36).notNull,
+				column('nodeName').varchar(255),
+			)
+			.withIndexOn('secretKey')
+			.withIndexOn(['resourceType', 'resourceId']);
+	}
+
+	async down({ schemaBuilder: { dropTable } }: MigrationContext) {
+		await dropTable(tableName);
+	}
+}
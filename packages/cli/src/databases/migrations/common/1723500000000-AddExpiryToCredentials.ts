@@ -0,0 +1,29 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+const tableName = 'credentials_entity';
+
+/**
+ * Add the expiry of credentials, set manually or derived from OAuth tokens, and the
+ * workflow to run to rotate them before they expire.
+ */
+export class AddExpiryToCredentials1723500000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { addColumns, column, createIndex } }: MigrationContext) {
+		await addColumns(tableName, [
+			column('expiresAt').timestamp(),
+			column('expirySource').varchar(16),
+			column('expiryNotifiedAt').timestamp(),
+			column('rotationWorkflowId').varchar(36),
+		]);
+		await createIndex(tableName, ['expiresAt']);
+	}
+
+	async down({ schemaBuilder: { dropColumns, dropIndex } }: MigrationContext) {
+		await dropIndex(tableName, ['expiresAt']);
+		await dropColumns(tableName, [
+			'expiresAt',
+			'expirySource',
+			'expiryNotifiedAt',
+			'rotationWorkflowId',
+		]);
+	}
+}
@@ -0,0 +1,20 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+const tableName = 'credentials_entity';
+
+/**
+ * Add the result of the last scheduled test of each credential.
+ */
+export class AddHealthCheckToCredentials1723600000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { addColumns, column } }: MigrationContext) {
+		await addColumns(tableName, [
+			column('lastTestedAt').timestamp(),
+			column('lastTestStatus').varchar(16),
+			column('lastTestError').text,
+		]);
+	}
+
+	async down({ schemaBuilder: { dropColumns } }: MigrationContext) {
+		await dropColumns(tableName, ['lastTestedAt', 'lastTestStatus', 'lastTestError']);
+	}
+}
@@ -0,0 +1,30 @@
+import type { MigrationContext, ReversibleMigration } from '@db/types';
+
+const tableName = 'api_key';
+
+export class CreateApiKeysTable1723700000000 implements ReversibleMigration {
+	async up({ schemaBuilder: { createTable, column } }: MigrationContext) {
+		await createTable(tableName)
+			.withColumns(
+				column('id').varchar(36).primary.notNull,
+				column('userId').uuid.notNull,
+				column('label').varchar(100).notNull,
+				column('apiKey').varchar(255).notNull,
+				column('scopes').json.notNull,
+				column('projectIds').json,
+				column('expiresAt').timestamp(),
+				column('lastUsedAt').timestamp(),
+			)
+			.withTimestamps.withIndexOn('userId')
+			.withIndexOn('apiKey', true)
+			.withForeignKey('userId', {
+				tableName: 'user',
+				columnName: 'id',
+				onDelete: 'CASCADE',
+			});
+	}
+
+	async down({ schemaBuilder: { dropTable } }: MigrationContext) {
+		await dropTable(tableName);
+	}
+}
@@ -0,0 +1,5 @@
+import { AddProjectConcurrencyLimit1723000000000 as BaseMigration } from '../common/1723000000000-AddProjectConcurrencyLimit';
+
+export class AddProjectConcurrencyLimit1723000000000 extends BaseMigration {
+	transaction = false as const;
+}
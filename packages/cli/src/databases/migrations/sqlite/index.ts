@@ -56,6 +56,14 @@ import { RemoveNodesAccess1712044305787 } from '../common/1712044305787-RemoveNo
 import { MakeExecutionStatusNonNullable1714133768521 } from '../common/1714133768521-MakeExecutionStatusNonNullable';
 import { AddActivatedAtUserSetting1717498465931 } from './1717498465931-AddActivatedAtUserSetting';
 import { AddConstraintToExecutionMetadata1720101653148 } from '../common/1720101653148-AddConstraintToExecutionMetadata';
+import { AddProjectConcurrencyLimit1723000000000 } from './1723000000000-AddProjectConcurrencyLimit';
+import { CreateDeadLetterTable1723100000000 } from '../common/1723100000000-CreateDeadLetterTable';
+import { CreateWorkflowTestCaseTable1723200000000 } from '../common/1723200000000-CreateWorkflowTestCaseTable';
+import { CreateWorkflowHttpRecordingTable1723300000000 } from '../common/1723300000000-CreateWorkflowHttpRecordingTable';
+import { CreateSecretUsageTable1723400000000 } from '../common/1723400000000-CreateSecretUsageTable';
+import { AddExpiryToCredentials1723500000000 } from '../common/1723500000000-AddExpiryToCredentials';
+import { AddHealthCheckToCredentials1723600000000 } from '../common/1723600000000-AddHealthCheckToCredentials';
+import { CreateApiKeysTable1723700000000 } from '../common/1723700000000-CreateApiKeysTable';
 
 const sqliteMigrations: Migration[] = [
 	InitialMigration1588102412422,
@@ -115,6 +123,14 @@ const sqliteMigrations: Migration[] = [
 	MakeExecutionStatusNonNullable1714133768521,
 	AddActivatedAtUserSetting1717498465931,
 	AddConstraintToExecutionMetadata1720101653148,
+	AddProjectConcurrencyLimit1723000000000,
+	CreateDeadLetterTable1723100000000,
+	CreateWorkflowTestCaseTable1723200000000,
+	CreateWorkflowHttpRecordingTable1723300000000,
+	CreateSecretUsageTable1723400000000,
+	AddExpiryToCredentials1723500000000,
+	AddHealthCheckToCredentials1723600000000,
+	CreateApiKeysTable1723700000000,
 ];
 
 export { sqliteMigrations };
@@ -0,0 +1,14 @@
+import { Service } from 'typedi';
+import { DataSource, Repository } from '@n8n/typeorm';
+import { ApiKey } from '../entities/ApiKey';
+
+@Service()
+export class ApiKeyRepository extends Repository<ApiKey> {
+	constructor(dataSource: DataSource) {
+		super(ApiKey, dataSource.manager);
+	}
+
+	async findWithUser(apiKey: string) {
+		return await this.findOne({ where: { apiKey }, relations: { user: true } });
+	}
+}
@@ -1,17 +1,20 @@
 import { Service } from 'typedi';
-import { DataSource, In, Repository, Like } from '@n8n/typeorm';
+import { GlobalConfig } from '@n8n/config';
+import { DataSource, In, LessThanOrEqual, Repository, Like } from '@n8n/typeorm';
 import type { FindManyOptions, FindOptionsWhere } from '@n8n/typeorm';
 import { CredentialsEntity } from '../entities/CredentialsEntity';
 import type { ListQuery } from '@/requests';
 import type { User } from '../entities/User';
 import type { Scope } from '@n8n/permissions';
 import { RoleService } from '@/services/role.service';
+import { TIME } from '@/constants';
 
 @Service()
 export class CredentialsRepository extends Repository<CredentialsEntity> {
 	constructor(
 		dataSource: DataSource,
 		readonly roleService: RoleService,
+		private readonly globalConfig: GlobalConfig,
 	) {
 		super(CredentialsEntity, dataSource.manager);
 	}
@@ -39,7 +42,18 @@ export class CredentialsRepository extends Repository<CredentialsEntity> {
 		type Select = Array<keyof CredentialsEntity>;
 
 		const defaultRelations = ['shared', 'shared.project'];
-		const defaultSelect: Select = ['id', 'name', 'type', 'createdAt', 'updatedAt'];
+		const defaultSelect: Select = [
+			'id',
+			'name',
+			'type',
+			'createdAt',
+			'updatedAt',
+			'expiresAt',
+			'rotationWorkflowId',
+			'lastTestedAt',
+			'lastTestStatus',
+			'lastTestError',
+		];
 
 		if (!listQueryOptions) return { select: defaultSelect, relations: defaultRelations };
 
@@ -58,6 +72,11 @@ export class CredentialsRepository extends Repository<CredentialsEntity> {
 			delete filter.projectId;
 		}
 
+		if (filter?.expiringSoon === true) {
+			filter.expiresAt = LessThanOrEqual(this.expiringSoonThreshold());
+		}
+		delete filter?.expiringSoon;
+
 		if (filter) findManyOptions.where = filter;
 		if (select) findManyOptions.select = select;
 		if (take) findManyOptions.take = take;
@@ -75,6 +94,34 @@ export class CredentialsRepository extends Repository<CredentialsEntity> {
 		return findManyOptions;
 	}
 
+	/** Credentials expiring within the warning period, or already expired */
+	async findExpiringSoon() {
+		return await this.find({
+			select: ['id', 'name', 'type', 'expiresAt', 'expiryNotifiedAt', 'rotationWorkflowId'],
+			where: { expiresAt: LessThanOrEqual(this.expiringSoonThreshold()) },
+		});
+	}
+
+	private expiringSoonThreshold() {
+		return new Date(Date.now() + this.globalConfig.credentials.expiry.warningDays * TIME.DAY);
+	}
+
+	/** Record the result of a scheduled test, leaving `updatedAt` to changes by users */
+	async recordTestResult(
+		id: string,
+		result: Pick<CredentialsEntity, 'lastTestedAt' | 'lastTestStatus' | 'lastTestError'>,
+	) {
+		const dbType = this.globalConfig.database.type;
+		await this.createQueryBuilder('credentials')
+			.update()
+			.set({
+				...result,
+				updatedAt: () => (['mysqldb', 'mariadb'].includes(dbType) ? 'updatedAt' : '"updatedAt"'),
+			})
+			.where('id = :id', { id })
+			.execute();
+	}
+
 	async getManyByIds(ids: string[], { withSharings } = { withSharings: false }) {
 		const findManyOptions: FindManyOptions<CredentialsEntity> = { where: { id: In(ids) } };
 
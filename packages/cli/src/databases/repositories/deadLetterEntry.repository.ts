@@ -0,0 +1,43 @@
+import { Service } from 'typedi';
+import { DataSource, In, LessThanOrEqual, Repository } from '@n8n/typeorm';
+import { DateUtils } from '@n8n/typeorm/util/DateUtils';
+import type { FindOptionsWhere } from '@n8n/typeorm';
+import { DeadLetterEntry } from '../entities/DeadLetterEntry';
+import type { DeadLetterStatus } from '../entities/DeadLetterEntry';
+
+export type DeadLetterQuery = {
+	workflowIds: string[];
+	status?: DeadLetterStatus;
+	skip?: number;
+	take?: number;
+};
+
+@Service()
+export class DeadLetterEntryRepository extends Repository<DeadLetterEntry> {
+	constructor(dataSource: DataSource) {
+		super(DeadLetterEntry, dataSource.manager);
+	}
+
+	async findManyInWorkflows({ workflowIds, status, skip = 0, take = 100 }: DeadLetterQuery) {
+		if (workflowIds.length === 0) return [[], 0] as [DeadLetterEntry[], number];
+
+		const where: FindOptionsWhere<DeadLetterEntry> = { workflowId: In(workflowIds) };
+
+		if (status) where.status = status;
+
+		return await this.findAndCount({ where, order: { createdAt: 'DESC' }, skip, take });
+	}
+
+	async findByIdsInWorkflows(ids: string[], workflowIds: string[]) {
+		if (ids.length === 0 || workflowIds.length === 0) return [];
+
+		return await this.findBy({ id: In(ids), workflowId: In(workflowIds) });
+	}
+
+	async deleteCreatedBefore(date: Date) {
+		return await this.delete({
+			// date reformatting needed - see https://github.com/typeorm/typeorm/issues/2286
+			createdAt: LessThanOrEqual(DateUtils.mixedDateToUtcDatetimeString(date)),
+		});
+	}
+}
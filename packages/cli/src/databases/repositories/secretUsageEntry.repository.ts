@@ -0,0 +1,26 @@
+import { Service } from 'typedi';
+import { DataSource, Repository } from '@n8n/typeorm';
+import type { SecretUsageResourceType } from 'n8n-workflow';
+import { SecretUsageEntry } from '../entities/SecretUsageEntry';
+
+@Service()
+export class SecretUsageEntryRepository extends Repository<SecretUsageEntry> {
+	constructor(dataSource: DataSource) {
+		super(SecretUsageEntry, dataSource.manager);
+	}
+
+	/** Replace the references of a credential or workflow */
+	async replaceForResource(
+		resourceType: SecretUsageResourceType,
+		resourceId: string,
+		entries: Array<Pick<SecretUsageEntry, 'secretType' | 'secretKey' | 'nodeName'>>,
+	) {
+		await this.manager.transaction(async (tx) => {
+			await tx.delete(SecretUsageEntry, { resourceType, resourceId });
+			if (entries.length === 0) return;
+			await tx.save(
+				entries.map((entry) => tx.create(SecretUsageEntry, { ...entry, resourceType, resourceId })),
+			);
+		});
+	}
+}
@@ -0,0 +1,10 @@
+import { Service } from 'typedi';
+import { DataSource, Repository } from '@n8n/typeorm';
+import { WorkflowHttpRecording } from '../entities/WorkflowHttpRecording';
+
+@Service()
+export class WorkflowHttpRecordingRepository extends Repository<WorkflowHttpRecording> {
+	constructor(dataSource: DataSource) {
+		super(WorkflowHttpRecording, dataSource.manager);
+	}
+}
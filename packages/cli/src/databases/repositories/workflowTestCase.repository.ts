@@ -0,0 +1,17 @@
+import { Service } from 'typedi';
+import { DataSource, In, Repository } from '@n8n/typeorm';
+import { WorkflowTestCase } from '../entities/WorkflowTestCase';
+
+@Service()
+export class WorkflowTestCaseRepository extends Repository<WorkflowTestCase> {
+	constructor(dataSource: DataSource) {
+		super(WorkflowTestCase, dataSource.manager);
+	}
+
+	async findByWorkflowId(workflowId: string, ids?: string[]) {
+		return await this.find({
+			where: { workflowId, ...(ids && { id: In(ids) }) },
+			order: { createdAt: 'ASC' },
+		});
+	}
+}
@@ -38,6 +38,7 @@ import type { Project } from '@/databases/entities/Project';
 import type { ResourceOwner } from './types/resourceOwner';
 import { assertNever } from '@/utils';
 import { UserRepository } from '@/databases/repositories/user.repository';
+import { SecretUsageService } from '@/services/secret-usage.service';
 
 @Service()
 export class SourceControlImportService {
@@ -52,6 +53,7 @@ export class SourceControlImportService {
 		private readonly variablesService: VariablesService,
 		private readonly activeWorkflowManager: ActiveWorkflowManager,
 		private readonly tagRepository: TagRepository,
+		private readonly secretUsageService: SecretUsageService,
 		instanceSettings: InstanceSettings,
 	) {
 		this.gitFolder = path.join(instanceSettings.n8nFolder, SOURCE_CONTROL_GIT_FOLDER);
@@ -243,6 +245,7 @@ export class SourceControlImportService {
 					extra: { workflowId: importedWorkflow.id ?? 'new' },
 				});
 			}
+			await this.secretUsageService.reindex('workflow', importedWorkflow.id);
 
 			const isOwnedLocally = allSharedWorkflows.some(
 				(w) => w.workflowId === importedWorkflow.id && w.role === 'workflow:owner',
@@ -331,6 +334,7 @@ export class SourceControlImportService {
 
 				this.logger.debug(`Updating credential id ${newCredentialObject.id as string}`);
 				await Container.get(CredentialsRepository).upsert(newCredentialObject, ['id']);
+				await this.secretUsageService.reindex('credential', newCredentialObject.id as string);
 
 				const isOwnedLocally = existingSharedCredentials.some(
 					(c) => c.credentialsId === credential.id && c.role === 'credential:owner',
@@ -5,10 +5,14 @@ import { BadRequestError } from '@/errors/response-errors/bad-request.error';
 import { NotFoundError } from '@/errors/response-errors/not-found.error';
 import { VariableValidationError } from '@/errors/variable-validation.error';
 import { VariableCountLimitReachedError } from '@/errors/variable-count-limit-reached.error';
+import { SecretUsageService } from '@/services/secret-usage.service';
 
 @RestController('/variables')
 export class VariablesController {
-	constructor(private readonly variablesService: VariablesService) {}
+	constructor(
+		private readonly variablesService: VariablesService,
+		private readonly secretUsageService: SecretUsageService,
+	) {}
 
 	@Get('/')
 	@GlobalScope('variable:list')
@@ -34,6 +38,12 @@ export class VariablesController {
 		}
 	}
 
+	@Get('/usage')
+	@GlobalScope('variable:update')
+	async getVariablesUsage() {
+		return await this.secretUsageService.getUsage('variable');
+	}
+
 	@Get('/:id')
 	@GlobalScope('variable:read')
 	async getVariable(req: VariablesRequest.Get) {
@@ -0,0 +1,11 @@
+import { ApplicationError } from 'n8n-workflow';
+
+export class CredentialRotationError extends ApplicationError {
+	constructor(credentialId: string, reason: string, cause?: unknown) {
+		super(`The credential could not be rotated, because ${reason}`, {
+			level: 'warning',
+			extra: { credentialId },
+			cause,
+		});
+	}
+}
@@ -0,0 +1,10 @@
+import { ApplicationError } from 'n8n-workflow';
+
+export class ExecutionNotReplayableError extends ApplicationError {
+	constructor(executionId: string, reason: string) {
+		super(`The execution cannot be replayed, because ${reason}`, {
+			level: 'warning',
+			extra: { executionId },
+		});
+	}
+}
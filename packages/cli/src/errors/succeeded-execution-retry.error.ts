@@ -0,0 +1,7 @@
+import { ApplicationError } from 'n8n-workflow';
+
+export class SucceededExecutionRetryError extends ApplicationError {
+	constructor() {
+		super('The execution succeeded, so it cannot be retried.', { level: 'warning' });
+	}
+}
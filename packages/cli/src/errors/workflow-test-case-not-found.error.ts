@@ -0,0 +1,3 @@
+import { ApplicationError } from 'n8n-workflow';
+
+export class WorkflowTestCaseNotFoundError extends ApplicationError {}
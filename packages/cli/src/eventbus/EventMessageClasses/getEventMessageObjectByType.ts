@@ -0,0 +1,34 @@
+import { EventMessageTypeNames } from 'n8n-workflow';
+import type { EventMessageTypes } from '.';
+import type { AbstractEventMessageOptions } from './AbstractEventMessageOptions';
+import { EventMessageAiNode, type EventMessageAiNodeOptions } from './EventMessageAiNode';
+import { EventMessageAudit, type EventMessageAuditOptions } from './EventMessageAudit';
+import { EventMessageExecution, type EventMessageExecutionOptions } from './EventMessageExecution';
+import { EventMessageGeneric, type EventMessageGenericOptions } from './EventMessageGeneric';
+import { EventMessageNode, type EventMessageNodeOptions } from './EventMessageNode';
+import { EventMessageWorkflow, type EventMessageWorkflowOptions } from './EventMessageWorkflow';
+
+/**
+ * Restore an event message from its serialized form, e.g. a line of an event log file.
+ * Returns `null` for unknown message types.
+ */
+export function getEventMessageObjectByType(
+	message: AbstractEventMessageOptions,
+): EventMessageTypes | null {
+	switch (message.__type as EventMessageTypeNames) {
+		case EventMessageTypeNames.generic:
+			return new EventMessageGeneric(message as EventMessageGenericOptions);
+		case EventMessageTypeNames.workflow:
+			return new EventMessageWorkflow(message as EventMessageWorkflowOptions);
+		case EventMessageTypeNames.audit:
+			return new EventMessageAudit(message as EventMessageAuditOptions);
+		case EventMessageTypeNames.node:
+			return new EventMessageNode(message as EventMessageNodeOptions);
+		case EventMessageTypeNames.execution:
+			return new EventMessageExecution(message as EventMessageExecutionOptions);
+		case EventMessageTypeNames.aiNode:
+			return new EventMessageAiNode(message as EventMessageAiNodeOptions);
+		default:
+			return null;
+	}
+}
@@ -34,6 +34,11 @@ export const eventNamesAudit = [
 	'n8n.audit.user.credentials.shared',
 	'n8n.audit.user.credentials.updated',
 	'n8n.audit.user.credentials.deleted',
+	'n8n.audit.credentials.expiring',
+	'n8n.audit.credentials.rotated',
+	'n8n.audit.credentials.rotation.failed',
+	'n8n.audit.credentials.health.failed',
+	'n8n.audit.credentials.health.recovered',
 	'n8n.audit.user.api.created',
 	'n8n.audit.user.api.deleted',
 	'n8n.audit.package.installed',
@@ -42,6 +47,12 @@ export const eventNamesAudit = [
 	'n8n.audit.workflow.created',
 	'n8n.audit.workflow.deleted',
 	'n8n.audit.workflow.updated',
+	'n8n.audit.scim.user.provisioned',
+	'n8n.audit.scim.user.updated',
+	'n8n.audit.scim.user.deprovisioned',
+	'n8n.audit.scim.group.created',
+	'n8n.audit.scim.group.updated',
+	'n8n.audit.scim.group.deleted',
 ] as const;
 
 export type EventNamesWorkflowType = (typeof eventNamesWorkflow)[number];
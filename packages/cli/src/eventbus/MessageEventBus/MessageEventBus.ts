@@ -5,7 +5,10 @@ import type { DeleteResult } from '@n8n/typeorm';
 import { In } from '@n8n/typeorm';
 import EventEmitter from 'events';
 import uniqby from 'lodash/uniqBy';
-import type { MessageEventBusDestinationOptions } from 'n8n-workflow';
+import type {
+	MessageEventBusDestinationDeliveryStatus,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
 
 import config from '@/config';
 import { EventDestinationsRepository } from '@db/repositories/eventDestinations.repository';
@@ -206,7 +209,7 @@ export class MessageEventBus extends EventEmitter {
 	}
 
 	async addDestination(destination: MessageEventBusDestination, notifyWorkers: boolean = true) {
-		await this.removeDestination(destination.getId(), false);
+		await this.destinations[destination.getId()]?.close();
 		this.destinations[destination.getId()] = destination;
 		this.destinations[destination.getId()].startListening();
 		if (notifyWorkers) {
@@ -225,6 +228,18 @@ export class MessageEventBus extends EventEmitter {
 		return result.sort((a, b) => (a.__type ?? '').localeCompare(b.__type ?? ''));
 	}
 
+	/**
+	 * Delivery status of the destinations that are listening, by destination id.
+	 */
+	getDeliveryStatus(): Record<string, MessageEventBusDestinationDeliveryStatus> {
+		const result: Record<string, MessageEventBusDestinationDeliveryStatus> = {};
+		for (const [id, destination] of Object.entries(this.destinations)) {
+			const status = destination.getDeliveryStatus();
+			if (status) result[id] = status;
+		}
+		return result;
+	}
+
 	async removeDestination(
 		id: string,
 		notifyWorkers: boolean = true,
@@ -233,6 +248,7 @@ export class MessageEventBus extends EventEmitter {
 		if (Object.keys(this.destinations).includes(id)) {
 			await this.destinations[id].close();
 			result = await this.destinations[id].deleteFromDb();
+			await this.destinations[id].deleteOutbox();
 			delete this.destinations[id];
 		}
 		if (notifyWorkers) {
@@ -267,7 +283,14 @@ export class MessageEventBus extends EventEmitter {
 
 	async restart() {
 		await this.close();
+		const previousDestinations = Object.values(this.destinations);
+		this.destinations = {};
 		await this.initialize({ skipRecoveryPass: true });
+
+		// destinations deleted by another instance leave the outbox of this instance behind
+		for (const destination of previousDestinations) {
+			if (!this.destinations[destination.getId()]) await destination.deleteOutbox();
+		}
 	}
 
 	async send(msgs: EventMessageTypes | EventMessageTypes[]) {
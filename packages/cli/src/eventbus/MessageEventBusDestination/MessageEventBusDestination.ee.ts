@@ -1,14 +1,36 @@
+import { rm } from 'fs/promises';
+import path from 'path';
 import { v4 as uuid } from 'uuid';
 import { Container } from 'typedi';
-import type { INodeCredentials, MessageEventBusDestinationOptions } from 'n8n-workflow';
-import { MessageEventBusDestinationTypeNames } from 'n8n-workflow';
+import { GlobalConfig } from '@n8n/config';
+import { InstanceSettings } from 'n8n-core';
+import type {
+	INodeCredentials,
+	MessageEventBusDestinationDeliveryOptions,
+	MessageEventBusDestinationDeliveryStatus,
+	MessageEventBusDestinationEventFilters,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
+import {
+	ApplicationError,
+	defaultMessageEventBusDestinationDeliveryOptions,
+	MessageEventBusDestinationTypeNames,
+} from 'n8n-workflow';
+import config from '@/config';
 import { Logger } from '@/Logger';
 import type { AbstractEventMessage } from '../EventMessageClasses/AbstractEventMessage';
 import type { EventMessageTypes } from '../EventMessageClasses';
-import type { EventMessageConfirmSource } from '../EventMessageClasses/EventMessageConfirm';
 import type { MessageEventBus, MessageWithCallback } from '../MessageEventBus/MessageEventBus';
 import { EventDestinationsRepository } from '@db/repositories/eventDestinations.repository';
 import { License } from '@/License';
+import { OwnershipService } from '@/services/ownership.service';
+import { MessageEventBusDestinationOutbox } from './MessageEventBusDestinationOutbox';
+import {
+	filtersNeedProject,
+	hasEventRules,
+	matchesEventFilters,
+	transformEvent,
+} from './MessageEventBusDestinationEventRules';
 
 export abstract class MessageEventBusDestination implements MessageEventBusDestinationOptions {
 	// Since you can't have static abstract functions - this just serves as a reminder that you need to implement these. Please.
@@ -33,6 +55,18 @@ export abstract class MessageEventBusDestination implements MessageEventBusDesti
 
 	anonymizeAuditMessages: boolean;
 
+	delivery: Required<MessageEventBusDestinationDeliveryOptions>;
+
+	eventFilters: MessageEventBusDestinationEventFilters;
+
+	redactFields: string;
+
+	dropFields: string;
+
+	payloadTemplate: string;
+
+	private outbox?: MessageEventBusDestinationOutbox;
+
 	constructor(eventBusInstance: MessageEventBus, options: MessageEventBusDestinationOptions) {
 		// @TODO: Use DI
 		this.logger = Container.get(Logger);
@@ -45,21 +79,47 @@ export abstract class MessageEventBusDestination implements MessageEventBusDesti
 		this.enabled = options.enabled ?? false;
 		this.subscribedEvents = options.subscribedEvents ?? [];
 		this.anonymizeAuditMessages = options.anonymizeAuditMessages ?? false;
+		this.delivery = { ...defaultMessageEventBusDestinationDeliveryOptions, ...options.delivery };
+		this.eventFilters = options.eventFilters ?? { rules: [] };
+		this.redactFields = options.redactFields ?? '';
+		this.dropFields = options.dropFields ?? '';
+		this.payloadTemplate = options.payloadTemplate ?? '';
 		if (options.credentials) this.credentials = options.credentials;
 		this.logger.debug(`${this.__type}(${this.id}) event destination constructed`);
 	}
 
+	/**
+	 * Path of the outbox journal, next to the event log files. Workers use their own
+	 * outbox, like they use their own event log.
+	 */
+	get outboxFilePath() {
+		const { logBaseName } = Container.get(GlobalConfig).eventBus.logWriter;
+		const instanceSuffix = config.getEnv('generic.instanceType') === 'worker' ? '-worker' : '';
+		return path.join(
+			Container.get(InstanceSettings).n8nFolder,
+			`${logBaseName}${instanceSuffix}-outbox-${this.getId()}.log`,
+		);
+	}
+
+	/**
+	 * Start queueing the events this destination is subscribed to in its outbox, which
+	 * delivers them in batches and retries failed deliveries.
+	 */
 	startListening() {
 		if (this.enabled) {
-			this.eventBusInstance.on(
-				this.getId(),
-				async (
-					msg: EventMessageTypes,
-					confirmCallback: (message: EventMessageTypes, src: EventMessageConfirmSource) => void,
-				) => {
-					await this.receiveFromEventBus({ msg, confirmCallback });
-				},
+			this.outbox ??= new MessageEventBusDestinationOutbox(
+				this.outboxFilePath,
+				this.delivery,
+				async (msgs) => await this.deliver(msgs),
+				this.logger,
 			);
+			void this.outbox.start();
+			this.eventBusInstance.on(this.getId(), async (msg: EventMessageTypes) => {
+				if (!this.license.isLogStreamingEnabled()) return;
+				if (!this.hasSubscribedToEvent(msg)) return;
+				const event = await this.applyEventRules(msg);
+				if (event) await this.outbox?.enqueue(event);
+			});
 			this.logger.debug(`${this.id} listener started`);
 		}
 	}
@@ -76,6 +136,38 @@ export abstract class MessageEventBusDestination implements MessageEventBusDesti
 	disable() {
 		this.enabled = false;
 		this.stopListening();
+		void this.closeOutbox();
+	}
+
+	/**
+	 * Apply the filters and payload rules of the destination to a subscribed event. Returns
+	 * the event to send, or `undefined` if it is filtered out or the rules could not be applied.
+	 */
+	async applyEventRules(msg: EventMessageTypes): Promise<EventMessageTypes | undefined> {
+		if (!hasEventRules(this)) return msg;
+
+		try {
+			const context = {
+				eventName: msg.eventName,
+				message: msg.message,
+				payload: msg.payload as unknown,
+				projectId: filtersNeedProject(this) ? await this.getProjectId(msg) : undefined,
+			};
+			if (!matchesEventFilters(context, this)) return;
+
+			return transformEvent(msg, context, this);
+		} catch (error) {
+			this.logger.warn(
+				`Event ${msg.id} was not sent to destination ${this.label}, its rules could not be applied: ${
+					(error as Error).message
+				}`,
+			);
+			return;
+		}
+	}
+
+	getDeliveryStatus(): MessageEventBusDestinationDeliveryStatus | undefined {
+		return this.outbox?.getStatus();
 	}
 
 	getId() {
@@ -95,7 +187,7 @@ export abstract class MessageEventBusDestination implements MessageEventBusDesti
 	async saveToDb() {
 		const data = {
 			id: this.getId(),
-			destination: this.serialize(),
+			destination: this.serializeForDb(),
 		};
 		const dbResult = await Container.get(EventDestinationsRepository).upsert(data, {
 			skipUpdateIfNoValuesChanged: true,
@@ -121,16 +213,81 @@ export abstract class MessageEventBusDestination implements MessageEventBusDesti
 			enabled: this.enabled,
 			subscribedEvents: this.subscribedEvents,
 			anonymizeAuditMessages: this.anonymizeAuditMessages,
+			delivery: this.delivery,
+			eventFilters: this.eventFilters,
+			redactFields: this.redactFields,
+			dropFields: this.dropFields,
+			payloadTemplate: this.payloadTemplate,
 		};
 	}
 
+	/**
+	 * Options to store in the database. Destinations holding secrets should override this
+	 * to store them encrypted, as `serialize()` is also used for API responses.
+	 */
+	protected serializeForDb(): MessageEventBusDestinationOptions {
+		return this.serialize();
+	}
+
 	abstract receiveFromEventBus(emitterPayload: MessageWithCallback): Promise<boolean>;
 
+	/**
+	 * Send a batch of events to the destination, throwing if it was not accepted. Destinations
+	 * that can send several events at once should override this, by default the events are
+	 * sent one by one.
+	 */
+	protected async sendBatch(msgs: EventMessageTypes[]): Promise<void> {
+		for (const msg of msgs) {
+			const sendResult = await this.receiveFromEventBus({ msg, confirmCallback: () => {} });
+			if (!sendResult) {
+				throw new ApplicationError('Event was not accepted by the destination', {
+					extra: { destinationId: this.id, eventId: msg.id },
+				});
+			}
+		}
+	}
+
 	toString() {
 		return JSON.stringify(this.serialize());
 	}
 
-	close(): void | Promise<void> {
+	async close(): Promise<void> {
 		this.stopListening();
+		await this.closeOutbox();
+	}
+
+	/** Delete the outbox journal along with the events still undelivered, once closed. */
+	async deleteOutbox() {
+		await rm(this.outboxFilePath, { force: true });
+	}
+
+	private async deliver(msgs: EventMessageTypes[]) {
+		await this.sendBatch(msgs);
+		for (const msg of msgs) {
+			this.eventBusInstance.confirmSent(msg, { id: this.id, name: this.label });
+		}
+	}
+
+	/** Project of the event, or of the workflow it is about */
+	private async getProjectId(msg: EventMessageTypes): Promise<string | undefined> {
+		const payload = (msg.payload ?? {}) as { projectId?: string; workflowId?: string };
+		if (payload.projectId) return payload.projectId;
+		if (!payload.workflowId) return;
+
+		try {
+			const project = await Container.get(OwnershipService).getWorkflowProjectCached(
+				payload.workflowId,
+			);
+			return project.id;
+		} catch {
+			// the workflow may have been deleted since
+			return;
+		}
+	}
+
+	private async closeOutbox() {
+		const outbox = this.outbox;
+		this.outbox = undefined;
+		await outbox?.close();
 	}
 }
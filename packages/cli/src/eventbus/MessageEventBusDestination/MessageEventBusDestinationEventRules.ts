@@ -0,0 +1,180 @@
+import cloneDeep from 'lodash/cloneDeep';
+import get from 'lodash/get';
+import unset from 'lodash/unset';
+import { ApplicationError, jsonParse } from 'n8n-workflow';
+import type {
+	MessageEventBusDestinationEventFilter,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
+import type { EventMessageTypes } from '../EventMessageClasses';
+import type { AbstractEventPayload } from '../EventMessageClasses/AbstractEventPayload';
+import { getEventMessageObjectByType } from '../EventMessageClasses/getEventMessageObjectByType';
+
+/** Fields of an event that filters and payload templates can refer to */
+export interface EventRuleContext {
+	eventName: string;
+	message: string;
+	payload: unknown;
+	projectId?: string;
+}
+
+type EventRuleOptions = Pick<
+	MessageEventBusDestinationOptions,
+	'eventFilters' | 'redactFields' | 'dropFields' | 'payloadTemplate'
+>;
+
+const PLACEHOLDER = /{{\s*(.*?)\s*}}/g;
+const PLACEHOLDER_PATH = /^\$event(?:\.[\w$-]+|\[\d+\])*$/;
+
+const toList = (value?: string) =>
+	(value ?? '')
+		.split(',')
+		.map((item) => item.trim())
+		.filter((item) => item.length > 0);
+
+export const hasEventRules = (options: EventRuleOptions) =>
+	(options.eventFilters?.rules?.length ?? 0) > 0 ||
+	toList(options.redactFields).length > 0 ||
+	toList(options.dropFields).length > 0 ||
+	!!options.payloadTemplate?.trim();
+
+/** Whether any of the filters needs the project of the event */
+export const filtersNeedProject = (options: EventRuleOptions) =>
+	!!options.eventFilters?.rules?.some(({ field }) => field.split('.')[0] === 'projectId');
+
+function matchesFilter(context: EventRuleContext, filter: MessageEventBusDestinationEventFilter) {
+	const value: unknown = get(context, filter.field);
+	const exists = value !== undefined && value !== null && value !== '';
+	const stringValue = exists
+		? typeof value === 'object'
+			? JSON.stringify(value)
+			: String(value)
+		: '';
+
+	switch (filter.operator) {
+		case 'exists':
+			return exists;
+		case 'notExists':
+			return !exists;
+		case 'equals':
+			return exists && toList(filter.value).includes(stringValue);
+		case 'notEquals':
+			return !toList(filter.value).includes(stringValue);
+		case 'contains':
+			return exists && stringValue.includes(filter.value ?? '');
+		case 'notContains':
+			return !stringValue.includes(filter.value ?? '');
+		default:
+			return false;
+	}
+}
+
+export const matchesEventFilters = (context: EventRuleContext, options: EventRuleOptions) =>
+	(options.eventFilters?.rules ?? []).every((filter) => matchesFilter(context, filter));
+
+/**
+ * Remove or redact the given fields of a payload, in place. A field with a single key,
+ * e.g. `email`, matches that key at any depth, a path like `user.email` matches exactly.
+ */
+function modifyFields(
+	payload: unknown,
+	fields: string[],
+	modify: (obj: object, key: string) => void,
+) {
+	const walk = (value: unknown, key: string) => {
+		if (typeof value !== 'object' || value === null) return;
+		if (Object.prototype.hasOwnProperty.call(value, key)) modify(value, key);
+		Object.values(value).forEach((child) => walk(child, key));
+	};
+
+	for (const field of fields) {
+		if (!field.includes('.')) {
+			walk(payload, field);
+		} else if (get(payload, field) !== undefined) {
+			const parent: unknown = get(payload, field.split('.').slice(0, -1));
+			if (typeof parent === 'object' && parent !== null) modify(parent, field.split('.').pop()!);
+		}
+	}
+}
+
+function fillPlaceholders(template: unknown, context: EventRuleContext): unknown {
+	if (Array.isArray(template)) return template.map((item) => fillPlaceholders(item, context));
+
+	if (typeof template === 'object' && template !== null) {
+		return Object.fromEntries(
+			Object.entries(template).map(([key, value]) => [key, fillPlaceholders(value, context)]),
+		);
+	}
+
+	if (typeof template !== 'string') return template;
+
+	const resolve = (path: string): unknown => get({ $event: context }, path);
+
+	// a value that is a single placeholder keeps the type of the field
+	const [single] = [...template.matchAll(PLACEHOLDER)];
+	if (single && single[0] === template) return resolve(single[1]) ?? null;
+
+	return template.replace(PLACEHOLDER, (_, path: string) => {
+		const value = resolve(path);
+		if (value === undefined || value === null) return '';
+		return typeof value === 'object' ? JSON.stringify(value) : String(value);
+	});
+}
+
+/**
+ * Check that a payload template is JSON with only `{{ $event.path }}` placeholders.
+ * Placeholders are field lookups, not expressions, so that templates cannot run code.
+ */
+export function validatePayloadTemplate(template: string) {
+	let parsed: unknown;
+	try {
+		parsed = jsonParse(template);
+	} catch {
+		throw new ApplicationError('Payload template is not valid JSON');
+	}
+
+	const strings: string[] = [];
+	const collect = (value: unknown) => {
+		if (typeof value === 'string') strings.push(value);
+		else if (typeof value === 'object' && value !== null) Object.values(value).forEach(collect);
+	};
+	collect(parsed);
+
+	for (const value of strings) {
+		for (const [placeholder, path] of value.matchAll(PLACEHOLDER)) {
+			if (!PLACEHOLDER_PATH.test(path)) {
+				throw new ApplicationError(
+					`Invalid placeholder ${placeholder} in payload template, only fields of $event can be used, e.g. {{ $event.payload.workflowId }}`,
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Apply the field rules and the payload template of a destination to an event, returning
+ * a copy of the event with the new payload.
+ */
+export function transformEvent(
+	msg: EventMessageTypes,
+	context: EventRuleContext,
+	options: EventRuleOptions,
+): EventMessageTypes {
+	let payload: unknown = cloneDeep(msg.payload);
+
+	modifyFields(payload, toList(options.dropFields), (obj, key) => unset(obj, key));
+	modifyFields(payload, toList(options.redactFields), (obj, key) => {
+		(obj as Record<string, unknown>)[key] = '*';
+	});
+
+	if (options.payloadTemplate?.trim()) {
+		payload = fillPlaceholders(jsonParse(options.payloadTemplate), { ...context, payload });
+	}
+
+	return (
+		getEventMessageObjectByType({
+			...msg.serialize(),
+			payload: payload as AbstractEventPayload,
+		}) ?? msg
+	);
+}
@@ -0,0 +1,180 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+import { appendFile, mkdir, rename, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Container } from 'typedi';
+import { GlobalConfig } from '@n8n/config';
+import { InstanceSettings } from 'n8n-core';
+import type {
+	MessageEventBusDestinationFileOptions,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
+import { ApplicationError, MessageEventBusDestinationTypeNames } from 'n8n-workflow';
+import { MessageEventBusDestination } from './MessageEventBusDestination.ee';
+import type { EventMessageTypes } from '../EventMessageClasses';
+import { eventMessageGenericDestinationTestEvent } from '../EventMessageClasses/EventMessageGeneric';
+import type { MessageEventBus, MessageWithCallback } from '../MessageEventBus/MessageEventBus';
+
+export const isMessageEventBusDestinationFileOptions = (
+	candidate: unknown,
+): candidate is MessageEventBusDestinationFileOptions => {
+	const o = candidate as MessageEventBusDestinationFileOptions;
+	if (!o) return false;
+	return o.path !== undefined;
+};
+
+/** Folder that file destinations write to, so that they cannot write to other files of the instance */
+export const getFileDestinationsFolder = () =>
+	Container.get(GlobalConfig).eventBus.fileDestinationsFolder ||
+	path.join(Container.get(InstanceSettings).n8nFolder, 'log-streaming');
+
+/** Whether the path of a file destination is relative and stays in the folder of file destinations */
+export const isValidFileDestinationPath = (filePath: unknown): filePath is string =>
+	typeof filePath === 'string' &&
+	filePath.trim() !== '' &&
+	!path.isAbsolute(filePath) &&
+	!path.win32.isAbsolute(filePath) &&
+	!filePath.split(/[\\/]/).includes('..');
+
+/**
+ * Writes events as newline-delimited JSON to a local file, rotating it once it exceeds
+ * the max size: `events.ndjson` becomes `events-1.ndjson`, `events-1.ndjson` becomes
+ * `events-2.ndjson` and so on, up to the number of files to keep.
+ */
+export class MessageEventBusDestinationFile
+	extends MessageEventBusDestination
+	implements MessageEventBusDestinationFileOptions
+{
+	path: string;
+
+	maxFileSizeInKB: number;
+
+	keepNumberOfFiles: number;
+
+	/** Size of the current file, once known */
+	private fileSize?: number;
+
+	/** Pending writes, chained so that lines and rotations never interleave */
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(eventBusInstance: MessageEventBus, options: MessageEventBusDestinationFileOptions) {
+		super(eventBusInstance, options);
+		this.__type = options.__type ?? MessageEventBusDestinationTypeNames.file;
+		this.label = options.label ?? 'Log File';
+
+		this.path = options.path;
+		this.maxFileSizeInKB = options.maxFileSizeInKB ?? 10240;
+		this.keepNumberOfFiles = Math.max(options.keepNumberOfFiles ?? 5, 1);
+		this.logger.debug(`MessageEventBusDestinationFile with id ${this.getId()} initialized`);
+	}
+
+	/** Absolute path of the current file, in the folder of file destinations */
+	get filePath() {
+		if (!isValidFileDestinationPath(this.path)) {
+			throw new ApplicationError('File path must be relative to the folder of file destinations', {
+				extra: { path: this.path },
+			});
+		}
+
+		return path.join(getFileDestinationsFolder(), this.path);
+	}
+
+	async receiveFromEventBus(emitterPayload: MessageWithCallback): Promise<boolean> {
+		const { msg, confirmCallback } = emitterPayload;
+		let sendResult = false;
+		if (msg.eventName !== eventMessageGenericDestinationTestEvent) {
+			if (!this.license.isLogStreamingEnabled()) return sendResult;
+			if (!this.hasSubscribedToEvent(msg)) return sendResult;
+		}
+		try {
+			await this.sendBatch([msg]);
+			confirmCallback(msg, { id: this.id, name: this.label });
+			sendResult = true;
+		} catch (error) {
+			if (error.message) this.logger.debug(error.message as string);
+		}
+		return sendResult;
+	}
+
+	/** Append a batch of events in a single write */
+	protected async sendBatch(msgs: EventMessageTypes[]): Promise<void> {
+		const lines = msgs.map((msg) => {
+			const serializedMessage = msg.serialize();
+			if (this.anonymizeAuditMessages) {
+				serializedMessage.payload = msg.anonymize();
+			}
+			delete serializedMessage.__type;
+			return JSON.stringify(serializedMessage);
+		});
+		await this.appendLines(lines);
+	}
+
+	serialize(): MessageEventBusDestinationFileOptions {
+		const abstractSerialized = super.serialize();
+		return {
+			...abstractSerialized,
+			path: this.path,
+			maxFileSizeInKB: this.maxFileSizeInKB,
+			keepNumberOfFiles: this.keepNumberOfFiles,
+		};
+	}
+
+	static deserialize(
+		eventBusInstance: MessageEventBus,
+		data: MessageEventBusDestinationOptions,
+	): MessageEventBusDestinationFile | null {
+		if (
+			'__type' in data &&
+			data.__type === MessageEventBusDestinationTypeNames.file &&
+			isMessageEventBusDestinationFileOptions(data)
+		) {
+			return new MessageEventBusDestinationFile(eventBusInstance, data);
+		}
+		return null;
+	}
+
+	toString() {
+		return JSON.stringify(this.serialize());
+	}
+
+	async close() {
+		await super.close();
+		await this.writes;
+	}
+
+	private async appendLines(lines: string[]) {
+		const write = this.writes.then(async () => {
+			const filePath = this.filePath;
+			if (this.fileSize === undefined) {
+				await mkdir(path.dirname(filePath), { recursive: true });
+				this.fileSize = await stat(filePath).then(
+					(fileStat) => fileStat.size,
+					() => 0,
+				);
+			}
+
+			const data = lines.map((line) => `${line}\n`).join('');
+			await appendFile(filePath, data);
+			this.fileSize += Buffer.byteLength(data);
+
+			if (this.fileSize / 1024 > this.maxFileSizeInKB) await this.rotate();
+		});
+		this.writes = write.catch(() => {});
+		await write;
+	}
+
+	private async rotate() {
+		await rm(this.rotatedFilePath(this.keepNumberOfFiles), { force: true });
+		for (let i = this.keepNumberOfFiles - 1; i >= 0; i--) {
+			await rename(this.rotatedFilePath(i), this.rotatedFilePath(i + 1)).catch(() => {});
+		}
+		this.fileSize = 0;
+	}
+
+	private rotatedFilePath(counter: number) {
+		const filePath = this.filePath;
+		if (counter === 0) return filePath;
+
+		const { dir, name, ext } = path.parse(filePath);
+		return path.join(dir, `${name}-${counter}${ext}`);
+	}
+}
@@ -5,6 +5,9 @@ import type { MessageEventBusDestination } from './MessageEventBusDestination.ee
 import { MessageEventBusDestinationSentry } from './MessageEventBusDestinationSentry.ee';
 import { MessageEventBusDestinationSyslog } from './MessageEventBusDestinationSyslog.ee';
 import { MessageEventBusDestinationWebhook } from './MessageEventBusDestinationWebhook.ee';
+import { MessageEventBusDestinationOtlp } from './MessageEventBusDestinationOtlp.ee';
+import { MessageEventBusDestinationKafka } from './MessageEventBusDestinationKafka.ee';
+import { MessageEventBusDestinationFile } from './MessageEventBusDestinationFile.ee';
 import { Container } from 'typedi';
 import { Logger } from '@/Logger';
 
@@ -21,6 +24,12 @@ export function messageEventBusDestinationFromDb(
 				return MessageEventBusDestinationSyslog.deserialize(eventBusInstance, destinationData);
 			case MessageEventBusDestinationTypeNames.webhook:
 				return MessageEventBusDestinationWebhook.deserialize(eventBusInstance, destinationData);
+			case MessageEventBusDestinationTypeNames.otlp:
+				return MessageEventBusDestinationOtlp.deserialize(eventBusInstance, destinationData);
+			case MessageEventBusDestinationTypeNames.kafka:
+				return MessageEventBusDestinationKafka.deserialize(eventBusInstance, destinationData);
+			case MessageEventBusDestinationTypeNames.file:
+				return MessageEventBusDestinationFile.deserialize(eventBusInstance, destinationData);
 			default:
 				Container.get(Logger).debug('MessageEventBusDestination __type unknown');
 		}
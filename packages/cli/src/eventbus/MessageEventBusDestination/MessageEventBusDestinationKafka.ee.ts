@@ -0,0 +1,187 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+import { Container } from 'typedi';
+import { Kafka, logLevel } from 'kafkajs';
+import type { Producer, SASLOptions } from 'kafkajs';
+import { Cipher } from 'n8n-core';
+import type {
+	MessageEventBusDestinationKafkaOptions,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
+import { MessageEventBusDestinationTypeNames } from 'n8n-workflow';
+import { CREDENTIAL_BLANKING_VALUE } from '@/constants';
+import { MessageEventBusDestination } from './MessageEventBusDestination.ee';
+import type { EventMessageTypes } from '../EventMessageClasses';
+import { eventMessageGenericDestinationTestEvent } from '../EventMessageClasses/EventMessageGeneric';
+import type { MessageEventBus, MessageWithCallback } from '../MessageEventBus/MessageEventBus';
+
+export const isMessageEventBusDestinationKafkaOptions = (
+	candidate: unknown,
+): candidate is MessageEventBusDestinationKafkaOptions => {
+	const o = candidate as MessageEventBusDestinationKafkaOptions;
+	if (!o) return false;
+	return o.brokers !== undefined && o.topic !== undefined;
+};
+
+export class MessageEventBusDestinationKafka
+	extends MessageEventBusDestination
+	implements MessageEventBusDestinationKafkaOptions
+{
+	brokers: string;
+
+	topic: string;
+
+	clientId: string;
+
+	ssl: boolean;
+
+	authentication: boolean;
+
+	username: string;
+
+	password: string;
+
+	saslMechanism: 'plain' | 'scram-sha-256' | 'scram-sha-512';
+
+	private producer?: Promise<Producer>;
+
+	constructor(eventBusInstance: MessageEventBus, options: MessageEventBusDestinationKafkaOptions) {
+		super(eventBusInstance, options);
+		this.__type = options.__type ?? MessageEventBusDestinationTypeNames.kafka;
+		this.label = options.label ?? 'Kafka Topic';
+
+		this.brokers = options.brokers;
+		this.topic = options.topic;
+		this.clientId = options.clientId ?? 'n8n';
+		this.ssl = options.ssl ?? false;
+		this.authentication = options.authentication ?? false;
+		this.username = options.username ?? '';
+		this.password =
+			options.password === CREDENTIAL_BLANKING_VALUE
+				? this.getCurrentPassword(eventBusInstance)
+				: options.password ?? '';
+		this.saslMechanism = options.saslMechanism ?? 'plain';
+		this.logger.debug(`MessageEventBusDestinationKafka with id ${this.getId()} initialized`);
+	}
+
+	async receiveFromEventBus(emitterPayload: MessageWithCallback): Promise<boolean> {
+		const { msg, confirmCallback } = emitterPayload;
+		let sendResult = false;
+		if (msg.eventName !== eventMessageGenericDestinationTestEvent) {
+			if (!this.license.isLogStreamingEnabled()) return sendResult;
+			if (!this.hasSubscribedToEvent(msg)) return sendResult;
+		}
+		try {
+			await this.sendBatch([msg]);
+			confirmCallback(msg, { id: this.id, name: this.label });
+			sendResult = true;
+		} catch (error) {
+			if (error.message) this.logger.debug(error.message as string);
+		}
+		return sendResult;
+	}
+
+	/** Send a batch of events to the topic in a single request, keyed by event name */
+	protected async sendBatch(msgs: EventMessageTypes[]): Promise<void> {
+		const producer = await this.getProducer();
+		await producer.send({
+			topic: this.topic,
+			messages: msgs.map((msg) => {
+				const serializedMessage = msg.serialize();
+				if (this.anonymizeAuditMessages) {
+					serializedMessage.payload = msg.anonymize();
+				}
+				delete serializedMessage.__type;
+
+				return {
+					key: msg.eventName,
+					value: JSON.stringify(serializedMessage),
+					headers: { 'event-id': msg.id },
+				};
+			}),
+		});
+	}
+
+	serialize(): MessageEventBusDestinationKafkaOptions {
+		const abstractSerialized = super.serialize();
+		return {
+			...abstractSerialized,
+			brokers: this.brokers,
+			topic: this.topic,
+			clientId: this.clientId,
+			ssl: this.ssl,
+			authentication: this.authentication,
+			username: this.username,
+			password: this.password ? CREDENTIAL_BLANKING_VALUE : '',
+			saslMechanism: this.saslMechanism,
+		};
+	}
+
+	protected serializeForDb(): MessageEventBusDestinationKafkaOptions {
+		return {
+			...this.serialize(),
+			password: this.password ? Container.get(Cipher).encrypt(this.password) : '',
+		};
+	}
+
+	static deserialize(
+		eventBusInstance: MessageEventBus,
+		data: MessageEventBusDestinationOptions,
+	): MessageEventBusDestinationKafka | null {
+		if (
+			'__type' in data &&
+			data.__type === MessageEventBusDestinationTypeNames.kafka &&
+			isMessageEventBusDestinationKafkaOptions(data)
+		) {
+			return new MessageEventBusDestinationKafka(eventBusInstance, {
+				...data,
+				password: data.password ? Container.get(Cipher).decrypt(data.password) : '',
+			});
+		}
+		return null;
+	}
+
+	toString() {
+		return JSON.stringify(this.serialize());
+	}
+
+	async close() {
+		await super.close();
+		const producer = this.producer;
+		this.producer = undefined;
+		await producer?.then(async (p) => await p.disconnect()).catch(() => {});
+	}
+
+	/**
+	 * Keep the password of the destination being updated, if the update sends it back redacted.
+	 */
+	private getCurrentPassword(eventBusInstance: MessageEventBus) {
+		const current = eventBusInstance.destinations[this.getId()];
+
+		return current instanceof MessageEventBusDestinationKafka ? current.password : '';
+	}
+
+	/**
+	 * Connect the producer on first use, and again on the next message if connecting failed.
+	 */
+	private async getProducer() {
+		if (!this.producer) {
+			const kafka = new Kafka({
+				clientId: this.clientId,
+				brokers: this.brokers.split(',').map((broker) => broker.trim()),
+				ssl: this.ssl,
+				sasl: this.authentication
+					? ({
+							mechanism: this.saslMechanism,
+							username: this.username,
+							password: this.password,
+						} as SASLOptions)
+					: undefined,
+				logLevel: logLevel.NOTHING,
+			});
+			const producer = kafka.producer();
+			this.producer = producer.connect().then(() => producer);
+			this.producer.catch(() => (this.producer = undefined));
+		}
+		return await this.producer;
+	}
+}
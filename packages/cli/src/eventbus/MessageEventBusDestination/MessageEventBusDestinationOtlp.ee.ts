@@ -0,0 +1,173 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+import axios from 'axios';
+import { toOtlpAttributes, toUnixNano } from 'n8n-core';
+import type {
+	MessageEventBusDestinationOptions,
+	MessageEventBusDestinationOtlpOptions,
+	MessageEventBusDestinationWebhookParameterItem,
+} from 'n8n-workflow';
+import { MessageEventBusDestinationTypeNames } from 'n8n-workflow';
+import { N8N_VERSION } from '@/constants';
+import { MessageEventBusDestination } from './MessageEventBusDestination.ee';
+import type { EventMessageTypes } from '../EventMessageClasses';
+import { eventMessageGenericDestinationTestEvent } from '../EventMessageClasses/EventMessageGeneric';
+import type { MessageEventBus, MessageWithCallback } from '../MessageEventBus/MessageEventBus';
+
+/** OTLP severity numbers, see https://opentelemetry.io/docs/specs/otel/logs/data-model/#field-severitynumber */
+const SEVERITY_INFO = 9;
+const SEVERITY_ERROR = 17;
+
+export const isMessageEventBusDestinationOtlpOptions = (
+	candidate: unknown,
+): candidate is MessageEventBusDestinationOtlpOptions => {
+	const o = candidate as MessageEventBusDestinationOtlpOptions;
+	if (!o) return false;
+	return o.url !== undefined;
+};
+
+export class MessageEventBusDestinationOtlp
+	extends MessageEventBusDestination
+	implements MessageEventBusDestinationOtlpOptions
+{
+	url: string;
+
+	serviceName: string;
+
+	headerParameters: MessageEventBusDestinationWebhookParameterItem;
+
+	sendPayload: boolean;
+
+	constructor(eventBusInstance: MessageEventBus, options: MessageEventBusDestinationOtlpOptions) {
+		super(eventBusInstance, options);
+		this.__type = options.__type ?? MessageEventBusDestinationTypeNames.otlp;
+		this.label = options.label ?? 'OpenTelemetry Collector';
+
+		this.url = options.url;
+		this.serviceName = options.serviceName ?? 'n8n';
+		this.headerParameters = options.headerParameters ?? { parameters: [] };
+		this.sendPayload = options.sendPayload ?? true;
+		this.logger.debug(`MessageEventBusDestinationOtlp with id ${this.getId()} initialized`);
+	}
+
+	async receiveFromEventBus(emitterPayload: MessageWithCallback): Promise<boolean> {
+		const { msg, confirmCallback } = emitterPayload;
+		let sendResult = false;
+		if (msg.eventName !== eventMessageGenericDestinationTestEvent) {
+			if (!this.license.isLogStreamingEnabled()) return sendResult;
+			if (!this.hasSubscribedToEvent(msg)) return sendResult;
+		}
+		try {
+			await this.sendBatch([msg]);
+			confirmCallback(msg, { id: this.id, name: this.label });
+			sendResult = true;
+		} catch (error) {
+			if (error.message) this.logger.debug(error.message as string);
+		}
+		return sendResult;
+	}
+
+	/** Export a batch of events in a single request */
+	protected async sendBatch(msgs: EventMessageTypes[]): Promise<void> {
+		await axios.post(`${this.url.replace(/\/+$/, '')}/v1/logs`, this.toOtlpLogs(msgs), {
+			headers: { ...this.getHeaders(), 'Content-Type': 'application/json' },
+			timeout: 10000,
+		});
+	}
+
+	/**
+	 * Convert events to an OTLP/JSON logs export request, with one log record per event.
+	 * @see https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+	 */
+	toOtlpLogs(msgs: EventMessageTypes[]) {
+		return {
+			resourceLogs: [
+				{
+					resource: {
+						attributes: toOtlpAttributes({
+							'service.name': this.serviceName,
+							'service.version': N8N_VERSION,
+						}),
+					},
+					scopeLogs: [
+						{
+							scope: { name: 'n8n.eventbus' },
+							logRecords: msgs.map((msg) => this.toLogRecord(msg)),
+						},
+					],
+				},
+			],
+		};
+	}
+
+	private toLogRecord(msg: EventMessageTypes) {
+		const payload = this.anonymizeAuditMessages ? msg.anonymize() : msg.payload;
+		const isError = msg.eventName.toLowerCase().endsWith('error');
+		const timeUnixNano = toUnixNano(msg.ts.toMillis());
+
+		return {
+			timeUnixNano,
+			observedTimeUnixNano: timeUnixNano,
+			severityNumber: isError ? SEVERITY_ERROR : SEVERITY_INFO,
+			severityText: isError ? 'ERROR' : 'INFO',
+			body: { stringValue: msg.message ?? msg.eventName },
+			attributes: toOtlpAttributes({
+				'event.name': msg.eventName,
+				'event.id': msg.id,
+				...(this.sendPayload ? this.toPayloadAttributes(payload) : {}),
+			}),
+		};
+	}
+
+	serialize(): MessageEventBusDestinationOtlpOptions {
+		const abstractSerialized = super.serialize();
+		return {
+			...abstractSerialized,
+			url: this.url,
+			serviceName: this.serviceName,
+			headerParameters: this.headerParameters,
+			sendPayload: this.sendPayload,
+		};
+	}
+
+	static deserialize(
+		eventBusInstance: MessageEventBus,
+		data: MessageEventBusDestinationOptions,
+	): MessageEventBusDestinationOtlp | null {
+		if (
+			'__type' in data &&
+			data.__type === MessageEventBusDestinationTypeNames.otlp &&
+			isMessageEventBusDestinationOtlpOptions(data)
+		) {
+			return new MessageEventBusDestinationOtlp(eventBusInstance, data);
+		}
+		return null;
+	}
+
+	toString() {
+		return JSON.stringify(this.serialize());
+	}
+
+	private getHeaders() {
+		const headers: Record<string, string> = {};
+		for (const { name, value } of this.headerParameters.parameters) {
+			if (name) headers[name] = String(value ?? '');
+		}
+		return headers;
+	}
+
+	/** Payload fields as `n8n.`-prefixed attributes, with non-primitive values as JSON */
+	private toPayloadAttributes(payload: unknown) {
+		if (typeof payload !== 'object' || payload === null) return {};
+
+		return Object.fromEntries(
+			Object.entries(payload as Record<string, unknown>)
+				.filter(([, value]) => value !== undefined && value !== null)
+				.map(([key, value]) => [
+					`n8n.${key}`,
+					['string', 'number', 'boolean'].includes(typeof value)
+						? (value as string | number | boolean)
+						: JSON.stringify(value),
+				]),
+		);
+	}
+}
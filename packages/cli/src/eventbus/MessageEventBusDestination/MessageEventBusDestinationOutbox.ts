@@ -0,0 +1,253 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { jsonParse } from 'n8n-workflow';
+import type {
+	MessageEventBusDestinationDeliveryOptions,
+	MessageEventBusDestinationDeliveryStatus,
+} from 'n8n-workflow';
+import type { Logger } from '@/Logger';
+import type { EventMessageTypes } from '../EventMessageClasses';
+import type { AbstractEventMessageOptions } from '../EventMessageClasses/AbstractEventMessageOptions';
+import { getEventMessageObjectByType } from '../EventMessageClasses/getEventMessageObjectByType';
+
+type OutboxAck = { ack: string[] };
+
+const isOutboxAck = (candidate: unknown): candidate is OutboxAck =>
+	Array.isArray((candidate as OutboxAck)?.ack);
+
+/**
+ * Persistent queue of the events a destination has yet to receive.
+ *
+ * Events are journaled to a file before being sent, so they survive restarts and outages of
+ * the destination. They are sent in batches, once `batchSize` events are queued or after
+ * `batchInterval` ms, and failed batches are retried with exponential backoff until they
+ * go through. Beyond `maxQueueSize` undelivered events, the oldest ones are dropped.
+ *
+ * The journal has one serialized event per line, plus `{"ack":[...]}` lines for events that
+ * were delivered or dropped. It is compacted once it holds more acknowledged than pending events.
+ */
+export class MessageEventBusDestinationOutbox {
+	private pending: EventMessageTypes[] = [];
+
+	private readonly pendingIds = new Set<string>();
+
+	/** Number of acknowledged events still in the journal */
+	private acknowledgedInJournal = 0;
+
+	/** Journal writes, chained so that appends and compactions never interleave */
+	private journal: Promise<void> = Promise.resolve();
+
+	private loaded?: Promise<void>;
+
+	private timer?: NodeJS.Timeout;
+
+	private inFlight?: EventMessageTypes[];
+
+	private flushing?: Promise<void>;
+
+	private failedAttemptsInRow = 0;
+
+	private closed = false;
+
+	private readonly status: Omit<MessageEventBusDestinationDeliveryStatus, 'pending' | 'lag'> = {
+		delivered: 0,
+		dropped: 0,
+		failedAttempts: 0,
+	};
+
+	constructor(
+		private readonly filePath: string,
+		private readonly options: Required<MessageEventBusDestinationDeliveryOptions>,
+		private readonly deliver: (msgs: EventMessageTypes[]) => Promise<void>,
+		private readonly logger: Logger,
+	) {}
+
+	/** Load the events left over from a previous run and start delivering them */
+	async start() {
+		this.loaded ??= this.load();
+		await this.loaded;
+		this.schedule();
+	}
+
+	async enqueue(msg: EventMessageTypes) {
+		await this.start();
+		if (this.closed || this.pendingIds.has(msg.id)) return;
+
+		this.pending.push(msg);
+		this.pendingIds.add(msg.id);
+		await this.writeToJournal(async () => {
+			await appendFile(this.filePath, `${JSON.stringify(msg.serialize())}\n`);
+		});
+
+		await this.dropOverflow();
+		this.schedule();
+	}
+
+	getStatus(): MessageEventBusDestinationDeliveryStatus {
+		const oldest = this.pending[0];
+		return {
+			...this.status,
+			pending: this.pending.length,
+			lag: oldest ? Math.max(Date.now() - oldest.ts.toMillis(), 0) : 0,
+		};
+	}
+
+	/**
+	 * Stop delivering events, after the batch that is being sent went through or failed.
+	 * Undelivered events stay in the journal for the next start.
+	 */
+	async close() {
+		this.closed = true;
+		clearTimeout(this.timer);
+		this.timer = undefined;
+		await this.flushing;
+		await this.journal;
+	}
+
+	private schedule(retry = false) {
+		if (this.closed || this.inFlight || this.pending.length === 0) return;
+
+		const isBatchFull = this.pending.length >= this.options.batchSize;
+		if (this.status.nextRetryAt && !retry) return;
+		if (this.timer && !isBatchFull) return;
+
+		clearTimeout(this.timer);
+		this.timer = undefined;
+
+		if (retry || isBatchFull || this.options.batchInterval <= 0) {
+			this.flushing = this.flush();
+		} else {
+			this.timer = setTimeout(() => {
+				this.timer = undefined;
+				this.flushing = this.flush();
+			}, this.options.batchInterval);
+		}
+	}
+
+	private async flush() {
+		const batch = this.pending.slice(0, this.options.batchSize);
+		this.inFlight = batch;
+
+		try {
+			await this.deliver(batch);
+
+			const ids = new Set(batch.map((msg) => msg.id));
+			this.pending = this.pending.filter((msg) => !ids.has(msg.id));
+			batch.forEach((msg) => this.pendingIds.delete(msg.id));
+			this.failedAttemptsInRow = 0;
+			this.status.delivered += batch.length;
+			this.status.lastDeliveredAt = new Date().toISOString();
+			this.status.nextRetryAt = undefined;
+			this.inFlight = undefined;
+			await this.acknowledge([...ids]);
+		} catch (error) {
+			const delay = Math.min(
+				this.options.retryInitialDelay * 2 ** this.failedAttemptsInRow,
+				this.options.retryMaxDelay,
+			);
+			this.failedAttemptsInRow++;
+			this.status.failedAttempts++;
+			this.status.lastError = (error as Error).message;
+			this.status.nextRetryAt = new Date(Date.now() + delay).toISOString();
+			this.inFlight = undefined;
+			this.logger.warn(
+				`Failed to deliver ${batch.length} event(s), retrying in ${delay}ms: ${this.status.lastError}`,
+				{ outbox: this.filePath },
+			);
+
+			if (!this.closed) {
+				this.timer = setTimeout(() => {
+					this.timer = undefined;
+					this.schedule(true);
+				}, delay);
+			}
+			return;
+		}
+
+		this.schedule();
+	}
+
+	/** Drop the oldest events beyond the max queue size, except the ones being sent */
+	private async dropOverflow() {
+		const overflow = this.pending.length - this.options.maxQueueSize;
+		if (overflow <= 0) return;
+
+		const dropped = this.pending.splice(this.inFlight?.length ?? 0, overflow);
+		dropped.forEach((msg) => this.pendingIds.delete(msg.id));
+		this.status.dropped += dropped.length;
+		this.logger.warn(`Event outbox is full, dropped ${dropped.length} undelivered event(s)`, {
+			outbox: this.filePath,
+		});
+		await this.acknowledge(dropped.map((msg) => msg.id));
+	}
+
+	private async acknowledge(ids: string[]) {
+		this.acknowledgedInJournal += ids.length;
+		if (this.acknowledgedInJournal > this.pending.length) {
+			await this.compact();
+		} else {
+			await this.writeToJournal(async () => {
+				await appendFile(this.filePath, `${JSON.stringify({ ack: ids })}\n`);
+			});
+		}
+	}
+
+	/** Rewrite the journal with the pending events only */
+	private async compact() {
+		const pending = [...this.pending];
+		this.acknowledgedInJournal = 0;
+		await this.writeToJournal(async () => {
+			const tmpFilePath = `${this.filePath}.tmp`;
+			await writeFile(
+				tmpFilePath,
+				pending.map((msg) => `${JSON.stringify(msg.serialize())}\n`).join(''),
+			);
+			await rename(tmpFilePath, this.filePath);
+		});
+	}
+
+	private async load() {
+		await mkdir(path.dirname(this.filePath), { recursive: true });
+
+		const content = await readFile(this.filePath, 'utf8').catch(() => '');
+		const acknowledged = new Set<string>();
+		const messages: EventMessageTypes[] = [];
+		for (const line of content.split('\n')) {
+			if (!line) continue;
+			try {
+				const json = jsonParse<AbstractEventMessageOptions | OutboxAck>(line);
+				if (isOutboxAck(json)) {
+					json.ack.forEach((id) => acknowledged.add(id));
+				} else {
+					const msg = getEventMessageObjectByType(json);
+					if (msg) messages.push(msg);
+				}
+			} catch {
+				this.logger.error(`Error reading line from event outbox: ${this.filePath}, line: ${line}`);
+			}
+		}
+
+		for (const msg of messages) {
+			if (acknowledged.has(msg.id) || this.pendingIds.has(msg.id)) continue;
+			this.pending.push(msg);
+			this.pendingIds.add(msg.id);
+		}
+		if (this.pending.length > 0) {
+			this.logger.info(`Found ${this.pending.length} undelivered event(s) in event outbox`, {
+				outbox: this.filePath,
+			});
+		}
+
+		await this.compact();
+	}
+
+	private async writeToJournal(write: () => Promise<void>) {
+		const next = this.journal.then(write);
+		this.journal = next.catch((error: Error) =>
+			this.logger.warn(`Failed to write to event outbox: ${error.message}`, {
+				outbox: this.filePath,
+			}),
+		);
+		await this.journal;
+	}
+}
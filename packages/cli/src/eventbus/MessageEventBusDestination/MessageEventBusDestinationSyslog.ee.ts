@@ -7,6 +7,7 @@ import type {
 } from 'n8n-workflow';
 import { MessageEventBusDestinationTypeNames } from 'n8n-workflow';
 import { MessageEventBusDestination } from './MessageEventBusDestination.ee';
+import type { EventMessageTypes } from '../EventMessageClasses';
 import { eventMessageGenericDestinationTestEvent } from '../EventMessageClasses/EventMessageGeneric';
 import type { MessageEventBus, MessageWithCallback } from '../MessageEventBus/MessageEventBus';
 import Container from 'typedi';
@@ -76,30 +77,15 @@ export class MessageEventBusDestinationSyslog
 			if (!this.hasSubscribedToEvent(msg)) return sendResult;
 		}
 		try {
-			const serializedMessage = msg.serialize();
-			if (this.anonymizeAuditMessages) {
-				serializedMessage.payload = msg.anonymize();
-			}
-			delete serializedMessage.__type;
-			this.client.log(
-				JSON.stringify(serializedMessage),
-				{
-					severity: msg.eventName.toLowerCase().endsWith('error')
-						? syslog.Severity.Error
-						: syslog.Severity.Debug,
-					msgid: msg.id,
-					timestamp: msg.ts.toJSDate(),
-				},
-				async (error) => {
-					if (error?.message) {
-						this.logger.debug(error.message);
-					} else {
-						// eventBus.confirmSent(msg, { id: this.id, name: this.label });
-						confirmCallback(msg, { id: this.id, name: this.label });
-						sendResult = true;
-					}
-				},
-			);
+			this.client.log(this.toLogMessage(msg), this.toLogOptions(msg), async (error) => {
+				if (error?.message) {
+					this.logger.debug(error.message);
+				} else {
+					// eventBus.confirmSent(msg, { id: this.id, name: this.label });
+					confirmCallback(msg, { id: this.id, name: this.label });
+					sendResult = true;
+				}
+			});
 		} catch (error) {
 			if (error.message) this.logger.debug(error.message as string);
 		}
@@ -109,6 +95,36 @@ export class MessageEventBusDestinationSyslog
 		return sendResult;
 	}
 
+	/** Send the events one by one, waiting for the client to confirm each of them */
+	protected async sendBatch(msgs: EventMessageTypes[]): Promise<void> {
+		for (const msg of msgs) {
+			await new Promise<void>((resolve, reject) =>
+				this.client.log(this.toLogMessage(msg), this.toLogOptions(msg), (error) =>
+					error ? reject(error) : resolve(),
+				),
+			);
+		}
+	}
+
+	private toLogMessage(msg: EventMessageTypes) {
+		const serializedMessage = msg.serialize();
+		if (this.anonymizeAuditMessages) {
+			serializedMessage.payload = msg.anonymize();
+		}
+		delete serializedMessage.__type;
+		return JSON.stringify(serializedMessage);
+	}
+
+	private toLogOptions(msg: EventMessageTypes): syslog.MessageOptions {
+		return {
+			severity: msg.eventName.toLowerCase().endsWith('error')
+				? syslog.Severity.Error
+				: syslog.Severity.Debug,
+			msgid: msg.id,
+			timestamp: msg.ts.toJSDate(),
+		};
+	}
+
 	serialize(): MessageEventBusDestinationSyslogOptions {
 		const abstractSerialized = super.serialize();
 		return {
@@ -3,7 +3,7 @@
 import { MessageEventBusDestination } from './MessageEventBusDestination.ee';
 import axios from 'axios';
 import type { AxiosRequestConfig, Method } from 'axios';
-import { jsonParse, MessageEventBusDestinationTypeNames } from 'n8n-workflow';
+import { ApplicationError, jsonParse, MessageEventBusDestinationTypeNames } from 'n8n-workflow';
 import type {
 	MessageEventBusDestinationOptions,
 	MessageEventBusDestinationWebhookParameterItem,
@@ -14,6 +14,7 @@ import type {
 import { CredentialsHelper } from '@/CredentialsHelper';
 import { Agent as HTTPSAgent } from 'https';
 import { eventMessageGenericDestinationTestEvent } from '../EventMessageClasses/EventMessageGeneric';
+import type { EventMessageTypes } from '../EventMessageClasses';
 import type { MessageEventBus, MessageWithCallback } from '../MessageEventBus/MessageEventBus';
 import * as SecretsHelpers from '@/ExternalSecrets/externalSecretsHelper.ee';
 import Container from 'typedi';
@@ -68,6 +69,7 @@ export class MessageEventBusDestinationWebhook
 
 	axiosRequestOptions: AxiosRequestConfig;
 
+	// eslint-disable-next-line complexity
 	constructor(
 		eventBusInstance: MessageEventBus,
 		options: MessageEventBusDestinationWebhookOptions,
@@ -92,6 +94,11 @@ export class MessageEventBusDestinationWebhook
 		if (options.queryParameters) this.queryParameters = options.queryParameters;
 		if (options.sendPayload) this.sendPayload = options.sendPayload;
 		if (options.options) this.options = options.options;
+		if (!options.delivery && this.options.batch) {
+			const { batchSize, batchInterval } = this.options.batch;
+			if (batchSize) this.delivery.batchSize = batchSize;
+			if (batchInterval) this.delivery.batchInterval = batchInterval;
+		}
 
 		this.logger.debug(`MessageEventBusDestinationWebhook with id ${this.getId()} initialized`);
 	}
@@ -248,7 +255,6 @@ export class MessageEventBusDestinationWebhook
 		return null;
 	}
 
-	// eslint-disable-next-line complexity
 	async receiveFromEventBus(emitterPayload: MessageWithCallback): Promise<boolean> {
 		const { msg, confirmCallback } = emitterPayload;
 		let sendResult = false;
@@ -256,27 +262,57 @@ export class MessageEventBusDestinationWebhook
 			if (!this.license.isLogStreamingEnabled()) return sendResult;
 			if (!this.hasSubscribedToEvent(msg)) return sendResult;
 		}
-		// at first run, build this.requestOptions with the destination settings
-		await this.generateAxiosOptions();
 
+		try {
+			sendResult = await this.sendRequest(this.toRequestBody(msg));
+			if (sendResult) {
+				confirmCallback(msg, { id: this.id, name: this.label });
+			}
+		} catch (error) {
+			this.logger.warn(
+				`Webhook destination ${this.label} failed to send message to: ${this.url} - ${
+					(error as Error).message
+				}`,
+			);
+		}
+
+		return sendResult;
+	}
+
+	/**
+	 * Send a batch as a single request, with a JSON array of the events as body. Batches
+	 * of one event are sent like single events.
+	 */
+	protected async sendBatch(msgs: EventMessageTypes[]): Promise<void> {
+		const body =
+			msgs.length === 1 ? this.toRequestBody(msgs[0]) : msgs.map((msg) => this.toRequestBody(msg));
+		if (!(await this.sendRequest(body))) {
+			throw new ApplicationError('Webhook responded with an unexpected status code', {
+				extra: { destinationId: this.id, expectedStatusCode: this.expectedStatusCode },
+			});
+		}
+	}
+
+	private toRequestBody(msg: EventMessageTypes) {
 		const payload = this.anonymizeAuditMessages ? msg.anonymize() : msg.payload;
+		return {
+			...msg,
+			__type: undefined,
+			payload: this.sendPayload ? payload : undefined,
+			ts: msg.ts.toISO(),
+		};
+	}
+
+	/**
+	 * Send a request with the given body, returning whether the response status is as expected.
+	 */
+	// eslint-disable-next-line complexity
+	private async sendRequest(body: unknown): Promise<boolean> {
+		// at first run, build this.requestOptions with the destination settings
+		await this.generateAxiosOptions();
 
 		if (['PATCH', 'POST', 'PUT', 'GET'].includes(this.method.toUpperCase())) {
-			if (this.sendPayload) {
-				this.axiosRequestOptions.data = {
-					...msg,
-					__type: undefined,
-					payload,
-					ts: msg.ts.toISO(),
-				};
-			} else {
-				this.axiosRequestOptions.data = {
-					...msg,
-					__type: undefined,
-					payload: undefined,
-					ts: msg.ts.toISO(),
-				};
-			}
+			this.axiosRequestOptions.data = body;
 		}
 
 		// TODO: implement extra auth requests
@@ -328,29 +364,8 @@ export class MessageEventBusDestinationWebhook
 			};
 		}
 
-		try {
-			const requestResponse = await axios.request(this.axiosRequestOptions);
-			if (requestResponse) {
-				if (this.responseCodeMustMatch) {
-					if (requestResponse.status === this.expectedStatusCode) {
-						confirmCallback(msg, { id: this.id, name: this.label });
-						sendResult = true;
-					} else {
-						sendResult = false;
-					}
-				} else {
-					confirmCallback(msg, { id: this.id, name: this.label });
-					sendResult = true;
-				}
-			}
-		} catch (error) {
-			this.logger.warn(
-				`Webhook destination ${this.label} failed to send message to: ${this.url} - ${
-					(error as Error).message
-				}`,
-			);
-		}
-
-		return sendResult;
+		const requestResponse = await axios.request(this.axiosRequestOptions);
+		if (!requestResponse) return false;
+		return !this.responseCodeMustMatch || requestResponse.status === this.expectedStatusCode;
 	}
 }
@@ -7,16 +7,8 @@ import { Worker } from 'worker_threads';
 import { createReadStream, existsSync, rmSync } from 'fs';
 import readline from 'readline';
 import remove from 'lodash/remove';
-import type { EventMessageGenericOptions } from '../EventMessageClasses/EventMessageGeneric';
-import { EventMessageGeneric } from '../EventMessageClasses/EventMessageGeneric';
-import type { AbstractEventMessageOptions } from '../EventMessageClasses/AbstractEventMessageOptions';
-import type { EventMessageWorkflowOptions } from '../EventMessageClasses/EventMessageWorkflow';
-import { EventMessageWorkflow } from '../EventMessageClasses/EventMessageWorkflow';
-import { EventMessageTypeNames, jsonParse } from 'n8n-workflow';
-import type { EventMessageAuditOptions } from '../EventMessageClasses/EventMessageAudit';
-import { EventMessageAudit } from '../EventMessageClasses/EventMessageAudit';
-import type { EventMessageNodeOptions } from '../EventMessageClasses/EventMessageNode';
-import { EventMessageNode } from '../EventMessageClasses/EventMessageNode';
+import { getEventMessageObjectByType } from '../EventMessageClasses/getEventMessageObjectByType';
+import { jsonParse } from 'n8n-workflow';
 import type { EventMessageReturnMode } from '../MessageEventBus/MessageEventBus';
 import type { EventMessageTypes } from '../EventMessageClasses';
 import type { EventMessageConfirmSource } from '../EventMessageClasses/EventMessageConfirm';
@@ -212,7 +204,7 @@ export class MessageEventBusLogWriter {
 					try {
 						const json = jsonParse(line);
 						if (isEventMessageOptions(json) && json.__type !== undefined) {
-							const msg = this.getEventMessageObjectByType(json);
+							const msg = getEventMessageObjectByType(json);
 							if (msg !== null) results.loggedMessages.push(msg);
 							if (msg?.eventName && msg.payload?.executionId) {
 								const executionId = msg.payload.executionId as string;
@@ -316,7 +308,7 @@ export class MessageEventBusLogWriter {
 							json.__type !== undefined &&
 							json.payload?.executionId === executionId
 						) {
-							const msg = this.getEventMessageObjectByType(json);
+							const msg = getEventMessageObjectByType(json);
 							if (msg !== null) messages.push(msg);
 						}
 					} catch {
@@ -360,19 +352,4 @@ export class MessageEventBusLogWriter {
 			unfinishedExecutions: result.unfinishedExecutions,
 		};
 	}
-
-	getEventMessageObjectByType(message: AbstractEventMessageOptions): EventMessageTypes | null {
-		switch (message.__type as EventMessageTypeNames) {
-			case EventMessageTypeNames.generic:
-				return new EventMessageGeneric(message as EventMessageGenericOptions);
-			case EventMessageTypeNames.workflow:
-				return new EventMessageWorkflow(message as EventMessageWorkflowOptions);
-			case EventMessageTypeNames.audit:
-				return new EventMessageAudit(message as EventMessageAuditOptions);
-			case EventMessageTypeNames.node:
-				return new EventMessageNode(message as EventMessageNodeOptions);
-			default:
-				return null;
-		}
-	}
 }
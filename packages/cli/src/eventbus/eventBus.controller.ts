@@ -1,6 +1,7 @@
 import { eventNamesAll } from './EventMessageClasses';
 import express from 'express';
 import type {
+	MessageEventBusDestinationDeliveryStatus,
 	MessageEventBusDestinationWebhookOptions,
 	MessageEventBusDestinationOptions,
 } from 'n8n-workflow';
@@ -20,7 +21,21 @@ import {
 	MessageEventBusDestinationSyslog,
 } from './MessageEventBusDestination/MessageEventBusDestinationSyslog.ee';
 import { MessageEventBusDestinationWebhook } from './MessageEventBusDestination/MessageEventBusDestinationWebhook.ee';
+import {
+	isMessageEventBusDestinationOtlpOptions,
+	MessageEventBusDestinationOtlp,
+} from './MessageEventBusDestination/MessageEventBusDestinationOtlp.ee';
+import {
+	isMessageEventBusDestinationKafkaOptions,
+	MessageEventBusDestinationKafka,
+} from './MessageEventBusDestination/MessageEventBusDestinationKafka.ee';
+import {
+	isMessageEventBusDestinationFileOptions,
+	isValidFileDestinationPath,
+	MessageEventBusDestinationFile,
+} from './MessageEventBusDestination/MessageEventBusDestinationFile.ee';
 import type { MessageEventBusDestination } from './MessageEventBusDestination/MessageEventBusDestination.ee';
+import { validatePayloadTemplate } from './MessageEventBusDestination/MessageEventBusDestinationEventRules';
 
 const isWithIdString = (candidate: unknown): candidate is { id: string } => {
 	const o = candidate as { id: string };
@@ -64,12 +79,26 @@ export class EventBusController {
 		}
 	}
 
+	@Licensed('feat:logStreaming')
+	@Get('/destination/status')
+	@GlobalScope('eventBusDestination:list')
+	async getDestinationStatus(): Promise<Record<string, MessageEventBusDestinationDeliveryStatus>> {
+		return this.eventBus.getDeliveryStatus();
+	}
+
 	@Licensed('feat:logStreaming')
 	@Post('/destination')
 	@GlobalScope('eventBusDestination:create')
 	async postDestination(req: AuthenticatedRequest): Promise<any> {
 		let result: MessageEventBusDestination | undefined;
 		if (isMessageEventBusDestinationOptions(req.body)) {
+			if (req.body.payloadTemplate?.trim()) {
+				try {
+					validatePayloadTemplate(req.body.payloadTemplate);
+				} catch (error) {
+					throw new BadRequestError((error as Error).message);
+				}
+			}
 			switch (req.body.__type) {
 				case MessageEventBusDestinationTypeNames.sentry:
 					if (isMessageEventBusDestinationSentryOptions(req.body)) {
@@ -92,6 +121,32 @@ export class EventBusController {
 						);
 					}
 					break;
+				case MessageEventBusDestinationTypeNames.otlp:
+					if (isMessageEventBusDestinationOtlpOptions(req.body)) {
+						result = await this.eventBus.addDestination(
+							new MessageEventBusDestinationOtlp(this.eventBus, req.body),
+						);
+					}
+					break;
+				case MessageEventBusDestinationTypeNames.kafka:
+					if (isMessageEventBusDestinationKafkaOptions(req.body)) {
+						result = await this.eventBus.addDestination(
+							new MessageEventBusDestinationKafka(this.eventBus, req.body),
+						);
+					}
+					break;
+				case MessageEventBusDestinationTypeNames.file:
+					if (isMessageEventBusDestinationFileOptions(req.body)) {
+						if (!isValidFileDestinationPath(req.body.path)) {
+							throw new BadRequestError(
+								'File path must be relative to the folder of log streaming files, without ".." segments',
+							);
+						}
+						result = await this.eventBus.addDestination(
+							new MessageEventBusDestinationFile(this.eventBus, req.body),
+						);
+					}
+					break;
 				default:
 					throw new BadRequestError(
 						`Body is missing ${req.body.__type} options or type ${req.body.__type} is unknown`,
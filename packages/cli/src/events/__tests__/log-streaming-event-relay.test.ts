@@ -489,6 +489,29 @@ describe('LogStreamingEventRelay', () => {
 				},
 			});
 		});
+
+		it('should log on `credentials-expiring` event', () => {
+			const event: RelayEventMap['credentials-expiring'] = {
+				credentialId: 'cred456',
+				credentialName: 'GitHub account',
+				credentialType: 'githubApi',
+				expiresAt: new Date('2024-08-15T00:00:00.000Z'),
+				rotationWorkflowId: null,
+			};
+
+			eventService.emit('credentials-expiring', event);
+
+			expect(eventBus.sendAuditEvent).toHaveBeenCalledWith({
+				eventName: 'n8n.audit.credentials.expiring',
+				payload: {
+					credentialId: 'cred456',
+					credentialName: 'GitHub account',
+					credentialType: 'githubApi',
+					expiresAt: '2024-08-15T00:00:00.000Z',
+					rotationWorkflowId: null,
+				},
+			});
+		});
 	});
 
 	describe('auth events', () => {
@@ -663,4 +686,50 @@ describe('LogStreamingEventRelay', () => {
 			});
 		});
 	});
+
+	describe('SCIM events', () => {
+		it('should log on `scim-user-deprovisioned` event', () => {
+			const event: RelayEventMap['scim-user-deprovisioned'] = {
+				user: {
+					id: 'user789',
+					email: 'leaver@example.com',
+					firstName: 'Former',
+					lastName: 'Employee',
+					role: 'global:member',
+				},
+				removalType: 'disable',
+			};
+
+			eventService.emit('scim-user-deprovisioned', event);
+
+			expect(eventBus.sendAuditEvent).toHaveBeenCalledWith({
+				eventName: 'n8n.audit.scim.user.deprovisioned',
+				payload: {
+					userId: 'user789',
+					_email: 'leaver@example.com',
+					_firstName: 'Former',
+					_lastName: 'Employee',
+					globalRole: 'global:member',
+					removalType: 'disable',
+				},
+			});
+		});
+
+		it('should log on `scim-group-updated` event', () => {
+			const event: RelayEventMap['scim-group-updated'] = {
+				projectId: 'project123',
+				displayName: 'Engineering',
+				projectRole: 'project:editor',
+				membersAdded: ['user1'],
+				membersRemoved: ['user2'],
+			};
+
+			eventService.emit('scim-group-updated', event);
+
+			expect(eventBus.sendAuditEvent).toHaveBeenCalledWith({
+				eventName: 'n8n.audit.scim.group.updated',
+				payload: event,
+			});
+		});
+	});
 });
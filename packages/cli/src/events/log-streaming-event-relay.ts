@@ -41,11 +41,22 @@ export class LogStreamingEventRelay extends EventRelay {
 			'credentials-deleted': (event) => this.credentialsDeleted(event),
 			'credentials-shared': (event) => this.credentialsShared(event),
 			'credentials-updated': (event) => this.credentialsUpdated(event),
+			'credentials-expiring': (event) => this.credentialsExpiring(event),
+			'credentials-rotated': (event) => this.credentialsRotated(event),
+			'credentials-rotation-failed': (event) => this.credentialsRotationFailed(event),
+			'credentials-health-check-failed': (event) => this.credentialsHealthCheckFailed(event),
+			'credentials-health-check-recovered': (event) => this.credentialsHealthCheckRecovered(event),
 			'community-package-installed': (event) => this.communityPackageInstalled(event),
 			'community-package-updated': (event) => this.communityPackageUpdated(event),
 			'community-package-deleted': (event) => this.communityPackageDeleted(event),
 			'execution-throttled': (event) => this.executionThrottled(event),
 			'execution-started-during-bootup': (event) => this.executionStartedDuringBootup(event),
+			'scim-user-provisioned': (event) => this.scimUserProvisioned(event),
+			'scim-user-updated': (event) => this.scimUserUpdated(event),
+			'scim-user-deprovisioned': (event) => this.scimUserDeprovisioned(event),
+			'scim-group-created': (event) => this.scimGroupCreated(event),
+			'scim-group-updated': (event) => this.scimGroupUpdated(event),
+			'scim-group-deleted': (event) => this.scimGroupDeleted(event),
 		});
 	}
 
@@ -335,6 +346,43 @@ export class LogStreamingEventRelay extends EventRelay {
 		});
 	}
 
+	private credentialsExpiring({ expiresAt, ...rest }: RelayEventMap['credentials-expiring']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.credentials.expiring',
+			payload: { ...rest, expiresAt: expiresAt.toISOString() },
+		});
+	}
+
+	private credentialsRotated(payload: RelayEventMap['credentials-rotated']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.credentials.rotated',
+			payload,
+		});
+	}
+
+	private credentialsRotationFailed(payload: RelayEventMap['credentials-rotation-failed']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.credentials.rotation.failed',
+			payload,
+		});
+	}
+
+	private credentialsHealthCheckFailed(payload: RelayEventMap['credentials-health-check-failed']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.credentials.health.failed',
+			payload,
+		});
+	}
+
+	private credentialsHealthCheckRecovered(
+		payload: RelayEventMap['credentials-health-check-recovered'],
+	) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.credentials.health.recovered',
+			payload,
+		});
+	}
+
 	// #endregion
 
 	// #region Community package
@@ -387,4 +435,53 @@ export class LogStreamingEventRelay extends EventRelay {
 	}
 
 	// #endregion
+
+	// #region SCIM
+
+	@Redactable()
+	private scimUserProvisioned({ user }: RelayEventMap['scim-user-provisioned']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.scim.user.provisioned',
+			payload: user,
+		});
+	}
+
+	@Redactable()
+	private scimUserUpdated({ user, fieldsChanged }: RelayEventMap['scim-user-updated']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.scim.user.updated',
+			payload: { ...user, fieldsChanged },
+		});
+	}
+
+	@Redactable()
+	private scimUserDeprovisioned({ user, removalType }: RelayEventMap['scim-user-deprovisioned']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.scim.user.deprovisioned',
+			payload: { ...user, removalType },
+		});
+	}
+
+	private scimGroupCreated(payload: RelayEventMap['scim-group-created']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.scim.group.created',
+			payload,
+		});
+	}
+
+	private scimGroupUpdated(payload: RelayEventMap['scim-group-updated']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.scim.group.updated',
+			payload,
+		});
+	}
+
+	private scimGroupDeleted(payload: RelayEventMap['scim-group-deleted']) {
+		void this.eventBus.sendAuditEvent({
+			eventName: 'n8n.audit.scim.group.deleted',
+			payload,
+		});
+	}
+
+	// #endregion
 }
@@ -192,6 +192,42 @@ export type RelayEventMap = {
 		credentialId: string;
 	};
 
+	'credentials-expiring': {
+		credentialId: string;
+		credentialName: string;
+		credentialType: string;
+		expiresAt: Date;
+		rotationWorkflowId: string | null;
+	};
+
+	'credentials-rotated': {
+		credentialId: string;
+		credentialType: string;
+		workflowId: string;
+		executionId: string;
+	};
+
+	'credentials-rotation-failed': {
+		credentialId: string;
+		credentialType: string;
+		workflowId: string;
+		executionId?: string;
+		errorMessage: string;
+	};
+
+	'credentials-health-check-failed': {
+		credentialId: string;
+		credentialName: string;
+		credentialType: string;
+		errorMessage: string;
+	};
+
+	'credentials-health-check-recovered': {
+		credentialId: string;
+		credentialName: string;
+		credentialType: string;
+	};
+
 	// #endregion
 
 	// #region Community package
@@ -368,4 +404,40 @@ export type RelayEventMap = {
 	};
 
 	// #endregion
+
+	// #region SCIM
+
+	'scim-user-provisioned': {
+		user: UserLike;
+	};
+
+	'scim-user-updated': {
+		user: UserLike;
+		fieldsChanged: string[];
+	};
+
+	'scim-user-deprovisioned': {
+		user: UserLike;
+		removalType: 'disable' | 'delete';
+	};
+
+	'scim-group-created': {
+		projectId: string;
+		displayName: string;
+	};
+
+	'scim-group-updated': {
+		projectId: string;
+		displayName: string;
+		projectRole: string;
+		membersAdded: string[];
+		membersRemoved: string[];
+	};
+
+	'scim-group-deleted': {
+		projectId: string;
+		displayName: string;
+	};
+
+	// #endregion
 };
@@ -0,0 +1,191 @@
+import { mock } from 'jest-mock-extended';
+import type { INode, IRun, ITaskDataConnections, IWorkflowBase } from 'n8n-workflow';
+import config from '@/config';
+import { WorkflowRunner } from '@/WorkflowRunner';
+import type { DeadLetterEntry } from '@db/entities/DeadLetterEntry';
+import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
+import type { DeadLetterEntryRepository } from '@db/repositories/deadLetterEntry.repository';
+import type { WorkflowRepository } from '@db/repositories/workflow.repository';
+import type { OwnershipService } from '@/services/ownership.service';
+import type { Project } from '@db/entities/Project';
+import { mockInstance } from '@test/mocking';
+import { DeadLetterService } from '../dead-letter.service';
+import { ExecutionReplayService } from '../execution-replay.service';
+
+describe('DeadLetterService', () => {
+	const deadLetterEntryRepository = mock<DeadLetterEntryRepository>();
+	const workflowRepository = mock<WorkflowRepository>();
+	const ownershipService = mock<OwnershipService>();
+	const workflowRunner = mockInstance(WorkflowRunner);
+
+	const deadLetterService = new DeadLetterService(
+		mock(),
+		deadLetterEntryRepository,
+		new ExecutionReplayService(workflowRepository, ownershipService),
+	);
+
+	const triggerData: ITaskDataConnections = { main: [[{ json: { orderId: 1 } }]] };
+
+	const webhookNode = { name: 'Webhook', type: 'n8n-nodes-base.webhook' } as INode;
+
+	const toFailedExecution = (mode: 'webhook' | 'manual' = 'webhook') => ({
+		executionId: '1',
+		mode,
+		workflowData: { id: '123' } as IWorkflowBase,
+		fullRunData: {
+			data: {
+				resultData: {
+					error: { message: 'Request failed' },
+					runData: {
+						Webhook: [{ data: triggerData, source: [], startTime: 0, executionTime: 0 }],
+						'HTTP Request': [
+							{
+								error: { message: 'Request failed' },
+								source: [{ previousNode: 'Webhook' }],
+								startTime: 0,
+								executionTime: 0,
+							},
+						],
+					},
+				},
+			},
+		} as unknown as IRun,
+	});
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		config.set('executions.deadLetter.enabled', true);
+		deadLetterEntryRepository.create.mockImplementation((entry) => entry as DeadLetterEntry);
+		deadLetterEntryRepository.save.mockImplementation(
+			async (entry) => ({ ...entry, id: 'abc' }) as DeadLetterEntry,
+		);
+	});
+
+	afterAll(() => {
+		config.set('executions.deadLetter.enabled', false);
+	});
+
+	describe('enqueue', () => {
+		test('should enqueue a failed production execution with its trigger data', async () => {
+			const isEnqueued = await deadLetterService.enqueue(toFailedExecution());
+
+			expect(isEnqueued).toBe(true);
+			expect(deadLetterEntryRepository.save).toHaveBeenCalledWith(
+				expect.objectContaining({
+					workflowId: '123',
+					executionId: '1',
+					mode: 'webhook',
+					triggerNode: 'Webhook',
+					triggerData,
+					errorMessage: 'Request failed',
+					status: 'pending',
+				}),
+			);
+		});
+
+		test('should not enqueue a failed manual execution', async () => {
+			const isEnqueued = await deadLetterService.enqueue(toFailedExecution('manual'));
+
+			expect(isEnqueued).toBe(false);
+			expect(deadLetterEntryRepository.save).not.toHaveBeenCalled();
+		});
+
+		test('should not enqueue if the dead-letter queue is disabled', async () => {
+			config.set('executions.deadLetter.enabled', false);
+
+			const isEnqueued = await deadLetterService.enqueue(toFailedExecution());
+
+			expect(isEnqueued).toBe(false);
+			expect(deadLetterEntryRepository.save).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('prune', () => {
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		test('should delete entries older than the max age', async () => {
+			jest.useFakeTimers({ now: new Date('2024-08-20T12:00:00Z') });
+			config.set('executions.deadLetter.maxAge', 24);
+			deadLetterEntryRepository.deleteCreatedBefore.mockResolvedValue({ raw: [], affected: 2 });
+
+			await deadLetterService.prune();
+
+			expect(deadLetterEntryRepository.deleteCreatedBefore).toHaveBeenCalledWith(
+				new Date('2024-08-19T12:00:00Z'),
+			);
+		});
+	});
+
+	describe('replay', () => {
+		const entry = {
+			id: 'abc',
+			workflowId: '123',
+			executionId: '1',
+			triggerNode: 'Webhook',
+			triggerData,
+		} as DeadLetterEntry;
+
+		beforeEach(() => {
+			deadLetterEntryRepository.findByIdsInWorkflows.mockResolvedValue([entry]);
+			ownershipService.getWorkflowProjectCached.mockResolvedValue({ id: 'project' } as Project);
+			workflowRunner.run.mockResolvedValue('2');
+		});
+
+		test('should run the current workflow from the trigger node with the trigger data', async () => {
+			workflowRepository.findOneBy.mockResolvedValue({
+				id: '123',
+				nodes: [webhookNode],
+			} as WorkflowEntity);
+
+			const result = await deadLetterService.replay(['abc'], ['123'], 'user');
+
+			await new Promise(setImmediate);
+
+			expect(result).toEqual({ replayed: ['abc'], skipped: [] });
+			expect(deadLetterEntryRepository.update).toHaveBeenCalledWith('abc', {
+				status: 'replayed',
+				replayExecutionId: '2',
+			});
+			expect(workflowRunner.run).toHaveBeenCalledWith(
+				expect.objectContaining({
+					executionMode: 'retry',
+					retryOf: '1',
+					userId: 'user',
+					executionData: expect.objectContaining({
+						executionData: expect.objectContaining({
+							nodeExecutionStack: [{ node: webhookNode, data: triggerData, source: null }],
+						}),
+					}),
+				}),
+			);
+		});
+
+		test('should keep the entry pending if the execution fails to start', async () => {
+			workflowRepository.findOneBy.mockResolvedValue({
+				id: '123',
+				nodes: [webhookNode],
+			} as WorkflowEntity);
+			workflowRunner.run.mockRejectedValue(new Error('Database is down'));
+
+			await deadLetterService.replay(['abc'], ['123']);
+			await new Promise(setImmediate);
+
+			expect(deadLetterEntryRepository.update).not.toHaveBeenCalled();
+		});
+
+		test('should skip entries whose trigger node is gone from the current workflow', async () => {
+			workflowRepository.findOneBy.mockResolvedValue({
+				id: '123',
+				nodes: [] as INode[],
+			} as WorkflowEntity);
+
+			const result = await deadLetterService.replay(['abc', 'def'], ['123']);
+
+			expect(result.replayed).toEqual([]);
+			expect(result.skipped.map(({ id }) => id)).toEqual(['abc', 'def']);
+			expect(workflowRunner.run).not.toHaveBeenCalled();
+		});
+	});
+});
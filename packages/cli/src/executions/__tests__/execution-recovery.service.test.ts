@@ -21,12 +21,18 @@ import { WorkflowCrashedError } from '@/errors/workflow-crashed.error';
 import { EventMessageNode } from '@/eventbus/EventMessageClasses/EventMessageNode';
 import { IN_PROGRESS_EXECUTION_DATA, OOM_WORKFLOW } from './constants';
 import { setupMessages } from './utils';
+import { WorkflowRunner } from '@/WorkflowRunner';
+import type { OwnershipService } from '@/services/ownership.service';
+import { ExecutionNotResumableError } from '@/errors/execution-not-resumable.error';
+import type { Project } from '@/databases/entities/Project';
 
 import type { EventMessageTypes as EventMessage } from '@/eventbus/EventMessageClasses';
 
 describe('ExecutionRecoveryService', () => {
 	const push = mockInstance(Push);
 	mockInstance(InternalHooks);
+	const workflowRunner = mockInstance(WorkflowRunner);
+	const ownershipService = mock<OwnershipService>();
 	const instanceSettings = new InstanceSettings();
 
 	let executionRecoveryService: ExecutionRecoveryService;
@@ -45,6 +51,7 @@ describe('ExecutionRecoveryService', () => {
 			executionRepository,
 			orchestrationService,
 			mock(),
+			ownershipService,
 		);
 	});
 
@@ -383,4 +390,68 @@ describe('ExecutionRecoveryService', () => {
 			});
 		});
 	});
+
+	describe('resume', () => {
+		beforeEach(() => {
+			ownershipService.getWorkflowProjectCached.mockResolvedValue(mock<Project>({ id: '1' }));
+			workflowRunner.run.mockResolvedValue('1');
+		});
+
+		test('should throw if the execution did not crash', async () => {
+			/**
+			 * Arrange
+			 */
+			const workflow = await createWorkflow(OOM_WORKFLOW);
+			const execution = await createExecution(
+				{ status: 'success', data: stringify(IN_PROGRESS_EXECUTION_DATA) },
+				workflow,
+			);
+
+			/**
+			 * Act
+			 */
+			const promise = executionRecoveryService.resume(execution.id);
+
+			/**
+			 * Assert
+			 */
+			await expect(promise).rejects.toThrow(ExecutionNotResumableError);
+			expect(workflowRunner.run).not.toHaveBeenCalled();
+		});
+
+		test('should continue a crashed execution from the first unfinished node', async () => {
+			/**
+			 * Arrange
+			 */
+			const workflow = await createWorkflow(OOM_WORKFLOW);
+			const execution = await createExecution(
+				{ status: 'crashed', data: stringify(IN_PROGRESS_EXECUTION_DATA) },
+				workflow,
+			);
+
+			/**
+			 * Act
+			 */
+			await executionRecoveryService.resume(execution.id);
+
+			/**
+			 * Assert
+			 */
+			expect(workflowRunner.run).toHaveBeenCalledWith(
+				expect.objectContaining({
+					executionData: expect.objectContaining({
+						executionData: expect.objectContaining({
+							nodeExecutionStack: [
+								expect.objectContaining({ node: expect.objectContaining({ name: 'DebugHelper' }) }),
+							],
+						}),
+					}),
+					projectId: '1',
+				}),
+				false,
+				false,
+				execution.id,
+			);
+		});
+	});
 });
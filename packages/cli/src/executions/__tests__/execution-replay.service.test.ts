@@ -0,0 +1,121 @@
+import { mock } from 'jest-mock-extended';
+import type { INode, IRunExecutionData, ITaskDataConnections } from 'n8n-workflow';
+import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
+import type { Project } from '@db/entities/Project';
+import type { WorkflowRepository } from '@db/repositories/workflow.repository';
+import type { OwnershipService } from '@/services/ownership.service';
+import { ExecutionNotReplayableError } from '@/errors/execution-not-replayable.error';
+import { ExecutionReplayService } from '../execution-replay.service';
+
+describe('ExecutionReplayService', () => {
+	const workflowRepository = mock<WorkflowRepository>();
+	const ownershipService = mock<OwnershipService>();
+
+	const executionReplayService = new ExecutionReplayService(workflowRepository, ownershipService);
+
+	const triggerData: ITaskDataConnections = { main: [[{ json: { orderId: 1 } }]] };
+
+	const webhookNode = { name: 'Webhook', type: 'n8n-nodes-base.webhook' } as INode;
+
+	const replayOptions = {
+		executionId: '1',
+		workflowId: '123',
+		triggerNode: 'Webhook',
+		triggerData,
+	};
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		ownershipService.getWorkflowProjectCached.mockResolvedValue({ id: 'project' } as Project);
+	});
+
+	describe('findTrigger', () => {
+		test('should find the output of the node the execution started from', () => {
+			const data = {
+				resultData: {
+					runData: {
+						Webhook: [{ data: triggerData, source: [], startTime: 0, executionTime: 0 }],
+						Set: [
+							{
+								data: { main: [[]] },
+								source: [{ previousNode: 'Webhook' }],
+								startTime: 0,
+								executionTime: 0,
+							},
+						],
+					},
+				},
+			} as IRunExecutionData;
+
+			expect(executionReplayService.findTrigger(data)).toEqual({
+				triggerNode: 'Webhook',
+				triggerData,
+			});
+		});
+
+		test('should find nothing if the trigger node failed', () => {
+			const data = {
+				resultData: {
+					runData: {
+						Webhook: [{ error: { message: 'Failed' }, source: [], startTime: 0, executionTime: 0 }],
+					},
+				},
+			} as unknown as IRunExecutionData;
+
+			expect(executionReplayService.findTrigger(data)).toBeUndefined();
+		});
+	});
+
+	describe('toRunData', () => {
+		test('should run the current workflow from the trigger node with its past output', async () => {
+			workflowRepository.findOneBy.mockResolvedValue({
+				id: '123',
+				nodes: [webhookNode],
+			} as WorkflowEntity);
+
+			const runData = await executionReplayService.toRunData({
+				...replayOptions,
+				executionMode: 'webhook',
+			});
+
+			expect(runData.executionMode).toBe('webhook');
+			expect(runData.projectId).toBe('project');
+			expect(runData.executionData?.resultData.pinData).toBeUndefined();
+			expect(runData.executionData?.executionData?.nodeExecutionStack).toEqual([
+				{ node: webhookNode, data: triggerData, source: null },
+			]);
+		});
+
+		test('should pin the output of the trigger node in manual mode', async () => {
+			workflowRepository.findOneBy.mockResolvedValue({
+				id: '123',
+				nodes: [webhookNode],
+				pinData: { Set: [{ json: {} }] },
+			} as unknown as WorkflowEntity);
+
+			const runData = await executionReplayService.toRunData({
+				...replayOptions,
+				executionMode: 'manual',
+			});
+
+			expect(runData.executionData?.resultData.pinData).toEqual({
+				Set: [{ json: {} }],
+				Webhook: [{ json: { orderId: 1 } }],
+			});
+		});
+
+		test('should throw if the trigger node no longer exists', async () => {
+			workflowRepository.findOneBy.mockResolvedValue({
+				id: '123',
+				nodes: [] as INode[],
+			} as WorkflowEntity);
+
+			const promise = executionReplayService.toRunData({
+				...replayOptions,
+				executionMode: 'trigger',
+			});
+
+			await expect(promise).rejects.toThrow(ExecutionNotReplayableError);
+		});
+	});
+});
@@ -11,6 +11,8 @@ import type { WaitTracker } from '@/WaitTracker';
 import type { ExecutionRepository } from '@/databases/repositories/execution.repository';
 import type { ExecutionRequest } from '@/executions/execution.types';
 import type { ConcurrencyControlService } from '@/concurrency/concurrency-control.service';
+import type { ExecutionReplayService } from '@/executions/execution-replay.service';
+import type { IWorkflowExecutionDataProcess } from '@/Interfaces';
 
 describe('ExecutionService', () => {
 	const queue = mock<Queue>();
@@ -18,6 +20,7 @@ describe('ExecutionService', () => {
 	const executionRepository = mock<ExecutionRepository>();
 	const waitTracker = mock<WaitTracker>();
 	const concurrencyControl = mock<ConcurrencyControlService>();
+	const executionReplayService = mock<ExecutionReplayService>();
 
 	const executionService = new ExecutionService(
 		mock(),
@@ -31,6 +34,8 @@ describe('ExecutionService', () => {
 		mock(),
 		concurrencyControl,
 		mock(),
+		mock(),
+		executionReplayService,
 	);
 
 	beforeEach(() => {
@@ -60,6 +65,38 @@ describe('ExecutionService', () => {
 		});
 	});
 
+	describe('replay', () => {
+		it('should not wait for the replay to be let through by concurrency control', async () => {
+			/**
+			 * Arrange
+			 */
+			executionRepository.findWithUnflattenedData.mockResolvedValue(
+				mock<IExecutionResponse>({ id: '123', mode: 'webhook', workflowId: 'abc' }),
+			);
+			executionReplayService.findTrigger.mockReturnValue({
+				triggerNode: 'Webhook',
+				triggerData: { main: [[{ json: {} }]] },
+			});
+			executionReplayService.toRunData.mockResolvedValue(mock<IWorkflowExecutionDataProcess>());
+			executionReplayService.start.mockReturnValue(new Promise(() => {}));
+			const req = mock<ExecutionRequest.Replay>({
+				params: { id: '123' },
+				body: { mode: 'production' },
+			});
+
+			/**
+			 * Act
+			 */
+			const result = await executionService.replay(req, ['abc']);
+
+			/**
+			 * Assert
+			 */
+			expect(result).toEqual({ replayed: ['123'], skipped: [] });
+			expect(executionReplayService.start).toHaveBeenCalled();
+		});
+	});
+
 	describe('stop', () => {
 		it('should throw when stopping a missing execution', async () => {
 			/**
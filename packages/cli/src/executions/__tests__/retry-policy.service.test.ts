@@ -0,0 +1,214 @@
+import { mock } from 'jest-mock-extended';
+import type {
+	ExecutionBaseError,
+	IRun,
+	IWorkflowBase,
+	IWorkflowSettings,
+	WorkflowSettings,
+} from 'n8n-workflow';
+import type { ExecutionRepository } from '@db/repositories/execution.repository';
+import type { ExecutionEntity } from '@db/entities/ExecutionEntity';
+import { RetryPolicyService } from '../retry-policy.service';
+
+describe('RetryPolicyService', () => {
+	const executionRepository = mock<ExecutionRepository>();
+	const retryPolicyService = new RetryPolicyService(mock(), executionRepository);
+
+	const policy: WorkflowSettings.RetryPolicy = { maxAttempts: 3, initialDelay: 1000 };
+
+	const toError = (httpCode?: string) =>
+		({
+			name: 'NodeApiError',
+			message: 'Request failed',
+			httpCode,
+		}) as unknown as ExecutionBaseError;
+
+	const toFailedExecution = (
+		error: ExecutionBaseError,
+		settings: IWorkflowSettings = { retryPolicy: policy },
+	) => ({
+		executionId: '1',
+		mode: 'webhook' as const,
+		workflowData: { id: '123', settings } as IWorkflowBase,
+		fullRunData: {
+			data: {
+				resultData: {
+					error,
+					lastNodeExecuted: 'HTTP Request',
+					runData: { 'HTTP Request': [{ error, startTime: 0, executionTime: 0, source: [] }] },
+				},
+			},
+		} as unknown as IRun,
+	});
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		executionRepository.createNewExecution.mockResolvedValue('2');
+	});
+
+	describe('isRetryable', () => {
+		test.each([
+			['429', 'rateLimit'],
+			['500', 'serverError'],
+			['503', 'serverError'],
+			[undefined, 'network'],
+		] as const)('should retry HTTP status %s as `%s`', (httpCode, retryableError) => {
+			expect(retryPolicyService.isRetryable(toError(httpCode), [retryableError])).toBe(true);
+			expect(retryPolicyService.isRetryable(toError(httpCode), [])).toBe(false);
+		});
+
+		test('should not retry client errors other than 429', () => {
+			const retryOn: WorkflowSettings.RetryableError[] = ['rateLimit', 'serverError', 'network'];
+
+			expect(retryPolicyService.isRetryable(toError('404'), retryOn)).toBe(false);
+		});
+
+		test('should retry other errors only if retrying any error', () => {
+			const error = { name: 'NodeOperationError', message: 'Failed' } as ExecutionBaseError;
+
+			expect(retryPolicyService.isRetryable(error, ['serverError', 'network'])).toBe(false);
+			expect(retryPolicyService.isRetryable(error, ['any'])).toBe(true);
+		});
+
+		test.each(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED'])(
+			'should retry API errors with code %s as `network`',
+			(code) => {
+				expect(retryPolicyService.isRetryable(toError(code), ['network'])).toBe(true);
+				expect(retryPolicyService.isRetryable(toError(code), ['serverError'])).toBe(false);
+			},
+		);
+
+		test('should not retry API errors with other codes as `network`', () => {
+			expect(retryPolicyService.isRetryable(toError('INVALID_TOKEN'), ['network'])).toBe(false);
+		});
+
+		test.each([
+			['its original message', { messages: ['read ECONNRESET'] }],
+			['its original timeout message', { messages: ['timeout of 10000ms exceeded'] }],
+			['its message', { message: 'The operation timed out' }],
+		])('should retry operation errors as `network` by %s', (_, fields) => {
+			const error = {
+				name: 'NodeOperationError',
+				message: 'Internal error',
+				...fields,
+			} as unknown as ExecutionBaseError;
+
+			expect(retryPolicyService.isRetryable(error, ['network'])).toBe(true);
+			expect(retryPolicyService.isRetryable(error, ['rateLimit', 'serverError'])).toBe(false);
+		});
+	});
+
+	describe('toDelay', () => {
+		test('should back off exponentially', () => {
+			expect(retryPolicyService.toDelay(policy, 1)).toBe(1000);
+			expect(retryPolicyService.toDelay(policy, 2)).toBe(2000);
+			expect(retryPolicyService.toDelay({ ...policy, backoffFactor: 3 }, 3)).toBe(9000);
+		});
+
+		test('should cap the delay at `maxDelay`', () => {
+			expect(retryPolicyService.toDelay({ ...policy, maxDelay: 1500 }, 2)).toBe(1500);
+		});
+
+		test('should randomize the delay between half and all of it with jitter', () => {
+			const jittered = { ...policy, jitter: true };
+
+			expect(retryPolicyService.toDelay(jittered, 2, () => 0)).toBe(1000);
+			expect(retryPolicyService.toDelay(jittered, 2, () => 1)).toBe(2000);
+		});
+	});
+
+	describe('scheduleRetry', () => {
+		test('should schedule a waiting retry linked to the failed execution', async () => {
+			const failedExecution = toFailedExecution(toError('503'));
+
+			const isScheduled = await retryPolicyService.scheduleRetry(failedExecution);
+
+			expect(isScheduled).toBe(true);
+			expect(executionRepository.createNewExecution).toHaveBeenCalledWith(
+				expect.objectContaining({
+					mode: 'retry',
+					status: 'waiting',
+					retryOf: '1',
+					waitTill: expect.any(Date),
+				}),
+			);
+
+			const [{ data }] = executionRepository.createNewExecution.mock.calls[0];
+
+			expect(data.resultData.error).toBeUndefined();
+			expect(data.resultData.runData['HTTP Request']).toEqual([]);
+		});
+
+		test('should not schedule a retry without a retry policy', async () => {
+			const isScheduled = await retryPolicyService.scheduleRetry(
+				toFailedExecution(toError('503'), {}),
+			);
+
+			expect(isScheduled).toBe(false);
+			expect(executionRepository.createNewExecution).not.toHaveBeenCalled();
+		});
+
+		test('should not schedule a retry for a non-retryable error', async () => {
+			const isScheduled = await retryPolicyService.scheduleRetry(toFailedExecution(toError('400')));
+
+			expect(isScheduled).toBe(false);
+			expect(executionRepository.createNewExecution).not.toHaveBeenCalled();
+		});
+
+		test('should not schedule a retry once attempts are exhausted', async () => {
+			executionRepository.findOne
+				.mockResolvedValueOnce({ mode: 'retry', retryOf: '0' } as ExecutionEntity)
+				.mockResolvedValueOnce({ mode: 'webhook' } as ExecutionEntity);
+
+			const isScheduled = await retryPolicyService.scheduleRetry({
+				...toFailedExecution(toError('503')),
+				mode: 'retry',
+				retryOf: '1',
+			});
+
+			expect(isScheduled).toBe(false);
+			expect(executionRepository.createNewExecution).not.toHaveBeenCalled();
+		});
+
+		test('should schedule a retry of a retry of a production execution', async () => {
+			executionRepository.findOne.mockResolvedValueOnce({ mode: 'trigger' } as ExecutionEntity);
+
+			const isScheduled = await retryPolicyService.scheduleRetry({
+				...toFailedExecution(toError('503')),
+				mode: 'retry',
+				retryOf: '0',
+			});
+
+			expect(isScheduled).toBe(true);
+			expect(executionRepository.createNewExecution).toHaveBeenCalledWith(
+				expect.objectContaining({ mode: 'retry', retryOf: '1' }),
+			);
+		});
+
+		test('should not schedule a retry of a retry not tracing back to an execution', async () => {
+			executionRepository.findOne.mockResolvedValueOnce(null);
+
+			const isScheduled = await retryPolicyService.scheduleRetry({
+				...toFailedExecution(toError('503')),
+				mode: 'retry',
+				retryOf: '0',
+			});
+
+			expect(isScheduled).toBe(false);
+			expect(executionRepository.createNewExecution).not.toHaveBeenCalled();
+		});
+
+		test('should not schedule a retry of a retried manual execution', async () => {
+			executionRepository.findOne.mockResolvedValueOnce({ mode: 'manual' } as ExecutionEntity);
+
+			const isScheduled = await retryPolicyService.scheduleRetry({
+				...toFailedExecution(toError('503')),
+				mode: 'retry',
+				retryOf: '0',
+			});
+
+			expect(isScheduled).toBe(false);
+			expect(executionRepository.createNewExecution).not.toHaveBeenCalled();
+		});
+	});
+});
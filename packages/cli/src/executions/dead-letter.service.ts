@@ -0,0 +1,184 @@
+import { Service } from 'typedi';
+import type { IRun, IWorkflowBase, WorkflowExecuteMode } from 'n8n-workflow';
+import config from '@/config';
+import { Logger } from '@/Logger';
+import type { DeadLetterEntry, DeadLetterStatus } from '@db/entities/DeadLetterEntry';
+import { DeadLetterEntryRepository } from '@db/repositories/deadLetterEntry.repository';
+import { ExecutionNotReplayableError } from '@/errors/execution-not-replayable.error';
+import { ExecutionReplayService } from './execution-replay.service';
+
+/**
+ * Modes of failed executions to enqueue, i.e. production executions and their retries.
+ */
+const PRODUCTION_MODES = new Set<WorkflowExecuteMode>(['webhook', 'trigger', 'retry']);
+
+type FailedExecution = {
+	executionId: string;
+	mode: WorkflowExecuteMode;
+	workflowData: IWorkflowBase;
+	fullRunData: IRun;
+};
+
+export type DeadLetterFilter = {
+	workflowId?: string;
+	status?: DeadLetterStatus;
+	skip?: number;
+	take?: number;
+};
+
+export type ReplayResult = {
+	replayed: string[];
+	skipped: Array<{ id: string; reason: string }>;
+};
+
+/**
+ * Keeps failed production executions in a dead-letter queue, along with the output
+ * of their trigger node, so that they can be replayed against the current version
+ * of their workflow or discarded.
+ */
+@Service()
+export class DeadLetterService {
+	constructor(
+		private readonly logger: Logger,
+		private readonly deadLetterEntryRepository: DeadLetterEntryRepository,
+		private readonly executionReplayService: ExecutionReplayService,
+	) {}
+
+	/**
+	 * Enqueue a failed production execution, if the dead-letter queue is enabled
+	 * and the execution got past its trigger node.
+	 *
+	 * @returns Whether the execution was enqueued.
+	 */
+	async enqueue({ executionId, mode, workflowData, fullRunData }: FailedExecution) {
+		if (!config.getEnv('executions.deadLetter.enabled')) return false;
+
+		if (!PRODUCTION_MODES.has(mode) || !workflowData.id) return false;
+
+		const { resultData } = fullRunData.data;
+		const trigger = this.executionReplayService.findTrigger(fullRunData.data);
+
+		if (!trigger) {
+			this.logger.debug('[Dead Letter] Skipped failed execution without trigger data', {
+				executionId,
+			});
+			return false;
+		}
+
+		const { id } = await this.deadLetterEntryRepository.save(
+			this.deadLetterEntryRepository.create({
+				workflowId: workflowData.id,
+				executionId,
+				mode,
+				...trigger,
+				errorMessage: resultData.error?.message ?? null,
+				status: 'pending',
+				replayExecutionId: null,
+			}),
+		);
+
+		this.logger.debug('[Dead Letter] Enqueued failed execution', { executionId, entryId: id });
+
+		return true;
+	}
+
+	async findMany(workflowIds: string[], filter: DeadLetterFilter = {}) {
+		const { workflowId, ...query } = filter;
+
+		if (workflowId && !workflowIds.includes(workflowId)) return { count: 0, results: [] };
+
+		const [results, count] = await this.deadLetterEntryRepository.findManyInWorkflows({
+			workflowIds: workflowId ? [workflowId] : workflowIds,
+			...query,
+		});
+
+		return { count, results };
+	}
+
+	/**
+	 * Replay entries by running the current version of their workflow from their
+	 * trigger node, with the data their trigger node output when they failed.
+	 */
+	async replay(ids: string[], workflowIds: string[], userId?: string): Promise<ReplayResult> {
+		const entries = await this.deadLetterEntryRepository.findByIdsInWorkflows(ids, workflowIds);
+
+		const result: ReplayResult = { replayed: [], skipped: [] };
+
+		for (const id of ids) {
+			const entry = entries.find((e) => e.id === id);
+
+			if (!entry) {
+				result.skipped.push({ id, reason: 'Entry not found' });
+				continue;
+			}
+
+			try {
+				await this.run(entry, userId);
+			} catch (error) {
+				if (!(error instanceof ExecutionNotReplayableError)) throw error;
+
+				result.skipped.push({ id, reason: error.message });
+				continue;
+			}
+
+			result.replayed.push(id);
+		}
+
+		return result;
+	}
+
+	async discard(ids: string[], workflowIds: string[]) {
+		const entries = await this.deadLetterEntryRepository.findByIdsInWorkflows(ids, workflowIds);
+
+		if (entries.length > 0) await this.deadLetterEntryRepository.remove(entries);
+
+		return entries.map(({ id }) => id);
+	}
+
+	/**
+	 * Delete entries older than the max age of the dead-letter queue, in a pruning cycle.
+	 */
+	async prune() {
+		const maxAge = config.getEnv('executions.deadLetter.maxAge'); // in h
+
+		const date = new Date();
+		date.setHours(date.getHours() - maxAge);
+
+		const { affected } = await this.deadLetterEntryRepository.deleteCreatedBefore(date);
+
+		if (affected) this.logger.debug('[Dead Letter] Pruned entries', { count: affected });
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	private async run(entry: DeadLetterEntry, userId?: string) {
+		const runData = await this.executionReplayService.toRunData({
+			executionId: entry.executionId,
+			workflowId: entry.workflowId,
+			triggerNode: entry.triggerNode,
+			triggerData: entry.triggerData,
+			executionMode: 'retry',
+			retryOf: entry.executionId,
+			userId,
+		});
+
+		// not awaited, as the execution may be throttled until there is capacity to run it,
+		// so the entry stays pending until the execution has started
+		void this.executionReplayService
+			.start(runData)
+			.then(async (replayExecutionId) => {
+				await this.deadLetterEntryRepository.update(entry.id, {
+					status: 'replayed',
+					replayExecutionId,
+				});
+			})
+			.catch((error: Error) => {
+				this.logger.error('[Dead Letter] Failed to replay entry', {
+					entryId: entry.id,
+					msg: error.message,
+				});
+			});
+	}
+}
@@ -4,12 +4,13 @@ import { jsonStringify, sleep } from 'n8n-workflow';
 import { ExecutionRepository } from '@db/repositories/execution.repository';
 import { getWorkflowHooksMain } from '@/WorkflowExecuteAdditionalData'; // @TODO: Dependency cycle
 import type { DateTime } from 'luxon';
-import type { IRun, ITaskData } from 'n8n-workflow';
-import { InstanceSettings } from 'n8n-core';
+import type { IRun, IRunExecutionData, ITaskData } from 'n8n-workflow';
+import { InstanceSettings, WorkflowExecute } from 'n8n-core';
 import type { EventMessageTypes } from '../eventbus/EventMessageClasses';
 import type { IExecutionResponse } from '@/Interfaces';
 import { NodeCrashedError } from '@/errors/node-crashed.error';
 import { WorkflowCrashedError } from '@/errors/workflow-crashed.error';
+import { ExecutionNotResumableError } from '@/errors/execution-not-resumable.error';
 import { ARTIFICIAL_TASK_DATA } from '@/constants';
 import { Logger } from '@/Logger';
 import config from '@/config';
@@ -17,6 +18,8 @@ import { OnShutdown } from '@/decorators/OnShutdown';
 import type { QueueRecoverySettings } from './execution.types';
 import { OrchestrationService } from '@/services/orchestration.service';
 import { EventService } from '@/events/event.service';
+import { OwnershipService } from '@/services/ownership.service';
+import { toSaveSettings } from '@/executionLifecycleHooks/toSaveSettings';
 
 /**
  * Service for recovering key properties in executions.
@@ -30,6 +33,7 @@ export class ExecutionRecoveryService {
 		private readonly executionRepository: ExecutionRepository,
 		private readonly orchestrationService: OrchestrationService,
 		private readonly eventService: EventService,
+		private readonly ownershipService: OwnershipService,
 	) {}
 
 	/**
@@ -62,6 +66,8 @@ export class ExecutionRecoveryService {
 	async recoverFromLogs(executionId: string, messages: EventMessageTypes[]) {
 		if (this.instanceSettings.isFollower) return;
 
+		if (await this.autoResume(executionId)) return null;
+
 		const amendedExecution = await this.amend(executionId, messages);
 
 		if (!amendedExecution) return null;
@@ -82,6 +88,25 @@ export class ExecutionRecoveryService {
 		return amendedExecution;
 	}
 
+	/**
+	 * Resume a crashed execution from its last saved checkpoint, i.e. from the first
+	 * node that did not finish, under the same execution ID.
+	 */
+	async resume(executionId: string) {
+		const execution = await this.executionRepository.findSingleExecution(executionId, {
+			includeData: true,
+			unflattenData: true,
+		});
+
+		if (!execution) throw new ExecutionNotResumableError(executionId, 'it does not exist');
+
+		if (execution.status !== 'crashed') {
+			throw new ExecutionNotResumableError(executionId, `its status is "${execution.status}"`);
+		}
+
+		await this.resumeFromCheckpoint(execution);
+	}
+
 	/**
 	 * Schedule a cycle to mark dangling executions as crashed in queue mode.
 	 */
@@ -163,6 +188,88 @@ export class ExecutionRecoveryService {
 		return storedIds.length >= this.queueRecoverySettings.batchSize ? waitMs / 2 : waitMs;
 	}
 
+	/**
+	 * Resume an interrupted execution instead of marking it as crashed, if enabled and
+	 * its workflow saves execution progress, i.e. a checkpoint after every node.
+	 */
+	private async autoResume(executionId: string) {
+		if (!config.getEnv('executions.recovery.autoResume')) return false;
+
+		const execution = await this.executionRepository.findSingleExecution(executionId, {
+			includeData: true,
+			unflattenData: true,
+		});
+
+		if (!execution || !toSaveSettings(execution.workflowData.settings).progress) return false;
+
+		try {
+			await this.resumeFromCheckpoint(execution);
+		} catch (error) {
+			const msg = this.toErrorMsg(error);
+
+			this.logger.warn('[Recovery] Failed to resume execution, marking as crashed', {
+				executionId,
+				msg,
+			});
+
+			return false;
+		}
+
+		this.logger.info('[Recovery] Resumed interrupted execution from checkpoint', { executionId });
+
+		return true;
+	}
+
+	private async resumeFromCheckpoint(execution: IExecutionResponse) {
+		const { id: executionId, workflowData } = execution;
+
+		const executionData = execution.data
+			? WorkflowExecute.rehydrate(this.withoutAmendedRuns(execution.data))
+			: undefined;
+
+		if (!executionData) {
+			throw new ExecutionNotResumableError(executionId, 'it has no checkpoint to resume from');
+		}
+
+		if (!workflowData.id) {
+			throw new ExecutionNotResumableError(executionId, 'its workflow is not saved');
+		}
+
+		const project = await this.ownershipService.getWorkflowProjectCached(workflowData.id);
+
+		const { WorkflowRunner } = await import('@/WorkflowRunner');
+
+		// not awaited, as the execution may be throttled until there is capacity to run it
+		void Container.get(WorkflowRunner)
+			.run(
+				{ executionMode: execution.mode, executionData, workflowData, projectId: project.id },
+				false,
+				false,
+				executionId,
+			)
+			.catch((error) => {
+				const msg = this.toErrorMsg(error);
+
+				this.logger.error('[Recovery] Failed to run resumed execution', { executionId, msg });
+			});
+	}
+
+	/**
+	 * Drop runs amended from event logs, as these hold no output to continue from.
+	 */
+	private withoutAmendedRuns(data: IRunExecutionData): IRunExecutionData {
+		const runData = Object.fromEntries(
+			Object.entries(data.resultData.runData).map(([nodeName, taskData]) => [
+				nodeName,
+				taskData.filter(
+					(task) => task.data?.main?.[0]?.[0]?.json?.isArtificialRecoveredEventItem !== true,
+				),
+			]),
+		);
+
+		return { ...data, resultData: { ...data.resultData, runData } };
+	}
+
 	/**
 	 * Amend `status`, `stoppedAt`, and (if possible) `data` of an execution using event logs.
 	 */
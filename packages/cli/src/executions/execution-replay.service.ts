@@ -0,0 +1,126 @@
+import Container, { Service } from 'typedi';
+import type {
+	IPinData,
+	IRunExecutionData,
+	ITaskDataConnections,
+	WorkflowExecuteMode,
+} from 'n8n-workflow';
+import type { IWorkflowExecutionDataProcess } from '@/Interfaces';
+import { WorkflowRepository } from '@db/repositories/workflow.repository';
+import { OwnershipService } from '@/services/ownership.service';
+import { ExecutionNotReplayableError } from '@/errors/execution-not-replayable.error';
+
+export type ReplayMode = 'manual' | 'production';
+
+export type TriggerOutput = {
+	triggerNode: string;
+	triggerData: ITaskDataConnections;
+};
+
+export type ReplayOptions = TriggerOutput & {
+	/** ID of the execution being replayed. */
+	executionId: string;
+	workflowId: string;
+	executionMode: WorkflowExecuteMode;
+	retryOf?: string;
+	metadata?: Record<string, string>;
+	userId?: string;
+};
+
+/**
+ * Replays past executions by running the current version of their workflow from
+ * their trigger node, with the data their trigger node output back then.
+ */
+@Service()
+export class ExecutionReplayService {
+	constructor(
+		private readonly workflowRepository: WorkflowRepository,
+		private readonly ownershipService: OwnershipService,
+	) {}
+
+	/**
+	 * Find the node an execution started from, i.e. the one whose first run has no
+	 * source, along with its output.
+	 */
+	findTrigger({ resultData }: IRunExecutionData): TriggerOutput | undefined {
+		for (const [nodeName, runs] of Object.entries(resultData.runData)) {
+			const [firstRun] = runs;
+
+			if (firstRun?.source.length === 0 && firstRun.data?.main && !firstRun.error) {
+				return { triggerNode: nodeName, triggerData: firstRun.data };
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Prepare a run of the current version of a workflow from its trigger node. In manual
+	 * mode, the output of the trigger node is pinned, as the trigger node would otherwise
+	 * wait for a new event instead of passing its input through.
+	 */
+	async toRunData({
+		executionId,
+		workflowId,
+		triggerNode,
+		triggerData,
+		executionMode,
+		retryOf,
+		metadata,
+		userId,
+	}: ReplayOptions): Promise<IWorkflowExecutionDataProcess> {
+		const workflow = await this.workflowRepository.findOneBy({ id: workflowId });
+
+		if (!workflow) {
+			throw new ExecutionNotReplayableError(executionId, 'its workflow no longer exists');
+		}
+
+		const node = workflow.nodes.find((n) => n.name === triggerNode);
+
+		if (!node) {
+			throw new ExecutionNotReplayableError(
+				executionId,
+				`its trigger node "${triggerNode}" no longer exists`,
+			);
+		}
+
+		let pinData: IPinData | undefined;
+
+		if (executionMode === 'manual') {
+			pinData = { ...workflow.pinData, [node.name]: triggerData.main[0] ?? [] };
+		}
+
+		const executionData: IRunExecutionData = {
+			startData: {},
+			resultData: { runData: {}, pinData, metadata },
+			executionData: {
+				contextData: {},
+				metadata: {},
+				nodeExecutionStack: [{ node, data: triggerData, source: null }],
+				waitingExecution: {},
+				waitingExecutionSource: {},
+			},
+		};
+
+		const project = await this.ownershipService.getWorkflowProjectCached(workflowId);
+
+		return {
+			executionMode,
+			executionData,
+			workflowData: workflow,
+			retryOf,
+			projectId: project.id,
+			userId,
+		};
+	}
+
+	/**
+	 * Start a prepared run. Resolves with the ID of the new execution once it is
+	 * allowed to run, which may be delayed by concurrency control.
+	 */
+	async start(runData: IWorkflowExecutionDataProcess) {
+		const { WorkflowRunner } = await import('@/WorkflowRunner'); // @TODO: Dependency cycle
+
+		return await Container.get(WorkflowRunner).run(runData);
+	}
+}
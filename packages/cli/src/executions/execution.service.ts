@@ -39,7 +39,12 @@ import { MissingExecutionStopError } from '@/errors/missing-execution-stop.error
 import { QueuedExecutionRetryError } from '@/errors/queued-execution-retry.error';
 import { ConcurrencyControlService } from '@/concurrency/concurrency-control.service';
 import { AbortedExecutionRetryError } from '@/errors/aborted-execution-retry.error';
+import { SucceededExecutionRetryError } from '@/errors/succeeded-execution-retry.error';
 import { License } from '@/License';
+import { ExecutionRecoveryService } from './execution-recovery.service';
+import { ExecutionReplayService } from './execution-replay.service';
+import type { ReplayMode } from './execution-replay.service';
+import { ExecutionNotReplayableError } from '@/errors/execution-not-replayable.error';
 
 export const schemaGetExecutionsQueryFilter = {
 	$id: '/IGetExecutionsQueryFilter',
@@ -92,6 +97,8 @@ export class ExecutionService {
 		private readonly workflowRunner: WorkflowRunner,
 		private readonly concurrencyControl: ConcurrencyControlService,
 		private readonly license: License,
+		private readonly executionRecoveryService: ExecutionRecoveryService,
+		private readonly executionReplayService: ExecutionReplayService,
 	) {}
 
 	async findOne(
@@ -136,9 +143,7 @@ export class ExecutionService {
 
 		if (!execution.data.executionData) throw new AbortedExecutionRetryError();
 
-		if (execution.finished) {
-			throw new ApplicationError('The execution succeeded, so it cannot be retried.');
-		}
+		if (execution.finished) throw new SucceededExecutionRetryError();
 
 		const executionMode = 'retry';
 
@@ -229,6 +234,89 @@ export class ExecutionService {
 		return !!executionData.finished;
 	}
 
+	async resume(req: ExecutionRequest.Resume, sharedWorkflowIds: string[]) {
+		const { id: executionId } = req.params;
+		const execution = await this.executionRepository.findIfShared(executionId, sharedWorkflowIds);
+
+		if (!execution) {
+			this.logger.info(
+				'Attempt to resume an execution was blocked due to insufficient permissions',
+				{
+					userId: req.user.id,
+					executionId,
+				},
+			);
+			throw new NotFoundError(`The execution with the ID "${executionId}" does not exist.`);
+		}
+
+		await this.executionRecoveryService.resume(executionId);
+	}
+
+	/**
+	 * Replay an execution by running the current version of its workflow with the
+	 * output of its trigger node, regardless of whether the execution succeeded.
+	 */
+	async replay(req: ExecutionRequest.Replay, sharedWorkflowIds: string[]) {
+		const { id: executionId } = req.params;
+		const execution = await this.executionRepository.findWithUnflattenedData(
+			executionId,
+			sharedWorkflowIds,
+		);
+
+		if (!execution) {
+			this.logger.info(
+				'Attempt to replay an execution was blocked due to insufficient permissions',
+				{
+					userId: req.user.id,
+					executionId,
+				},
+			);
+			throw new NotFoundError(`The execution with the ID "${executionId}" does not exist.`);
+		}
+
+		const runData = await this.toReplayRunData(execution, req.body.mode, req.user.id);
+
+		this.startReplay(executionId, runData);
+
+		return { replayed: [executionId], skipped: [] };
+	}
+
+	/**
+	 * Replay a range of executions, skipping those that cannot be replayed.
+	 */
+	async replayMany(query: ExecutionSummaries.RangeQuery, mode: ReplayMode, userId: string) {
+		const summaries = await this.executionRepository.findManyByRangeQuery(query);
+
+		const result: { replayed: string[]; skipped: Array<{ id: string; reason: string }> } = {
+			replayed: [],
+			skipped: [],
+		};
+
+		for (const { id } of summaries) {
+			const execution = await this.executionRepository.findWithUnflattenedData(
+				id,
+				query.accessibleWorkflowIds ?? [],
+			);
+
+			if (!execution) continue;
+
+			try {
+				const runData = await this.toReplayRunData(execution, mode, userId);
+
+				this.startReplay(id, runData);
+			} catch (error) {
+				if (!(error instanceof ExecutionNotReplayableError)) throw error;
+
+				result.skipped.push({ id, reason: error.message });
+				continue;
+			}
+
+			result.replayed.push(id);
+		}
+
+		return result;
+	}
+
 	async delete(req: ExecutionRequest.Delete, sharedWorkflowIds: string[]) {
 		const { deleteBefore, ids, filters: requestFiltersRaw } = req.body;
 		let requestFilters;
@@ -460,6 +548,12 @@ export class ExecutionService {
 			return await this.stopInRegularMode(execution);
 		}
 
+		if (this.concurrencyControl.has(execution.id)) {
+			// throttled by a workflow or project limit, so not yet enqueued
+			this.concurrencyControl.remove({ mode: execution.mode, executionId: execution.id });
+			return await this.executionRepository.stopBeforeRun(execution);
+		}
+
 		if (this.activeExecutions.has(execution.id)) {
 			this.activeExecutions.stopExecution(execution.id);
 		}
@@ -478,4 +572,41 @@ export class ExecutionService {
 
 		return await this.executionRepository.stopDuringRun(execution);
 	}
+
+	/**
+	 * Not awaited, as the replay may be throttled until there is capacity to run it.
+	 * The replay can be found by the `replayOf` metadata pointing to the execution.
+	 */
+	private startReplay(executionId: string, runData: IWorkflowExecutionDataProcess) {
+		void this.executionReplayService.start(runData).catch((error: Error) => {
+			this.logger.error('Failed to replay execution', { executionId, msg: error.message });
+		});
+	}
+
+	private async toReplayRunData(execution: IExecutionResponse, mode: ReplayMode, userId: string) {
+		const trigger = execution.data
+			? this.executionReplayService.findTrigger(execution.data)
+			: undefined;
+
+		if (!trigger) {
+			throw new ExecutionNotReplayableError(execution.id, 'it holds no output of a trigger node');
+		}
+
+		// in production mode, replay as the same kind of production execution
+		const executionMode: WorkflowExecuteMode =
+			mode === 'manual'
+				? 'manual'
+				: execution.mode === 'webhook' || execution.mode === 'trigger'
+					? execution.mode
+					: 'trigger';
+
+		return await this.executionReplayService.toRunData({
+			...trigger,
+			executionId: execution.id,
+			workflowId: execution.workflowId,
+			executionMode,
+			metadata: { replayOf: execution.id },
+			userId,
+		});
+	}
 }
@@ -1,4 +1,6 @@
 import type { ExecutionEntity } from '@/databases/entities/ExecutionEntity';
+import type { DeadLetterStatus } from '@/databases/entities/DeadLetterEntry';
+import type { ReplayMode } from './execution-replay.service';
 import type { AuthenticatedRequest } from '@/requests';
 import type { ExecutionStatus, IDataObject, WorkflowExecuteMode } from 'n8n-workflow';
 
@@ -12,6 +14,13 @@ export declare namespace ExecutionRequest {
 		};
 
 		type GetOne = { unflattedResponse: 'true' | 'false' };
+
+		type GetDeadLetters = {
+			workflowId?: string;
+			status?: DeadLetterStatus;
+			limit?: string;
+			offset?: string;
+		};
 	}
 
 	namespace BodyParams {
@@ -20,6 +29,14 @@ export declare namespace ExecutionRequest {
 			filters?: IDataObject;
 			ids?: string[];
 		};
+
+		type DeadLetterIds = {
+			ids: string[];
+		};
+
+		type Replay = {
+			mode: ReplayMode;
+		};
 	}
 
 	namespace RouteParams {
@@ -39,6 +56,20 @@ export declare namespace ExecutionRequest {
 	type Retry = AuthenticatedRequest<RouteParams.ExecutionId, {}, { loadWorkflow: boolean }, {}>;
 
 	type Stop = AuthenticatedRequest<RouteParams.ExecutionId>;
+
+	type Resume = AuthenticatedRequest<RouteParams.ExecutionId>;
+
+	type Replay = AuthenticatedRequest<RouteParams.ExecutionId, {}, BodyParams.Replay>;
+
+	type ReplayMany = AuthenticatedRequest<{}, {}, BodyParams.Replay, QueryParams.GetMany> & {
+		rangeQuery: ExecutionSummaries.RangeQuery; // parsed from query params
+	};
+
+	type GetDeadLetters = AuthenticatedRequest<{}, {}, {}, QueryParams.GetDeadLetters>;
+
+	type ReplayDeadLetters = AuthenticatedRequest<{}, {}, BodyParams.DeadLetterIds>;
+
+	type DiscardDeadLetters = AuthenticatedRequest<{}, {}, BodyParams.DeadLetterIds>;
 }
 
 export namespace ExecutionSummaries {
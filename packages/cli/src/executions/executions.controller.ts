@@ -10,6 +10,7 @@ import type { User } from '@/databases/entities/User';
 import type { Scope } from '@n8n/permissions';
 import { isPositiveInteger } from '@/utils';
 import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import { DeadLetterService } from './dead-letter.service';
 
 @RestController('/executions')
 export class ExecutionsController {
@@ -18,6 +19,7 @@ export class ExecutionsController {
 		private readonly enterpriseExecutionService: EnterpriseExecutionsService,
 		private readonly workflowSharingService: WorkflowSharingService,
 		private readonly license: License,
+		private readonly deadLetterService: DeadLetterService,
 	) {}
 
 	private async getAccessibleWorkflowIds(user: User, scope: Scope) {
@@ -31,6 +33,22 @@ export class ExecutionsController {
 		}
 	}
 
+	private toDeadLetterIds(body: Partial<ExecutionRequest.BodyParams.DeadLetterIds>) {
+		const { ids } = body;
+
+		if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string')) {
+			throw new BadRequestError('Expected a non-empty list of dead-letter entry IDs');
+		}
+
+		return ids;
+	}
+
+	private assertReplayMode(body: Partial<ExecutionRequest.BodyParams.Replay>) {
+		if (body.mode !== 'manual' && body.mode !== 'production') {
+			throw new BadRequestError('Expected replay mode to be `manual` or `production`');
+		}
+	}
+
 	@Get('/', { middlewares: [parseRangeQuery] })
 	async getMany(req: ExecutionRequest.GetMany) {
 		const accessibleWorkflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:read');
@@ -59,6 +77,38 @@ export class ExecutionsController {
 		return await this.executionService.findRangeWithCount(query);
 	}
 
+	@Get('/dead-letter')
+	async getDeadLetters(req: ExecutionRequest.GetDeadLetters) {
+		const workflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:read');
+
+		if (workflowIds.length === 0) return { count: 0, results: [] };
+
+		const { workflowId, status, limit, offset } = req.query;
+
+		return await this.deadLetterService.findMany(workflowIds, {
+			workflowId,
+			status,
+			take: isPositiveInteger(limit ?? '') ? Number(limit) : undefined,
+			skip: isPositiveInteger(offset ?? '') ? Number(offset) : undefined,
+		});
+	}
+
+	@Post('/dead-letter/replay')
+	async replayDeadLetters(req: ExecutionRequest.ReplayDeadLetters) {
+		const ids = this.toDeadLetterIds(req.body);
+		const workflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:execute');
+
+		return await this.deadLetterService.replay(ids, workflowIds, req.user.id);
+	}
+
+	@Post('/dead-letter/discard')
+	async discardDeadLetters(req: ExecutionRequest.DiscardDeadLetters) {
+		const ids = this.toDeadLetterIds(req.body);
+		const workflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:update');
+
+		return await this.deadLetterService.discard(ids, workflowIds);
+	}
+
 	@Get('/:id')
 	async getOne(req: ExecutionRequest.GetOne) {
 		if (!isPositiveInteger(req.params.id)) {
@@ -92,6 +142,45 @@ export class ExecutionsController {
 		return await this.executionService.retry(req, workflowIds);
 	}
 
+	@Post('/:id/replay')
+	async replay(req: ExecutionRequest.Replay) {
+		this.assertReplayMode(req.body);
+
+		const workflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:execute');
+
+		if (workflowIds.length === 0) throw new NotFoundError('Execution not found');
+
+		return await this.executionService.replay(req, workflowIds);
+	}
+
+	@Post('/replay', { middlewares: [parseRangeQuery] })
+	async replayMany(req: ExecutionRequest.ReplayMany) {
+		this.assertReplayMode(req.body);
+
+		const workflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:execute');
+
+		if (workflowIds.length === 0) return { replayed: [], skipped: [] };
+
+		const { rangeQuery: query } = req;
+
+		if (query.workflowId && !workflowIds.includes(query.workflowId)) {
+			return { replayed: [], skipped: [] };
+		}
+
+		query.accessibleWorkflowIds = workflowIds;
+
+		return await this.executionService.replayMany(query, req.body.mode, req.user.id);
+	}
+
+	@Post('/:id/resume')
+	async resume(req: ExecutionRequest.Resume) {
+		const workflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:execute');
+
+		if (workflowIds.length === 0) throw new NotFoundError('Execution not found');
+
+		return await this.executionService.resume(req, workflowIds);
+	}
+
 	@Post('/delete')
 	async delete(req: ExecutionRequest.Delete) {
 		const workflowIds = await this.getAccessibleWorkflowIds(req.user, 'workflow:execute');
@@ -0,0 +1,227 @@
+import { Service } from 'typedi';
+import { deepCopy } from 'n8n-workflow';
+import type {
+	ExecutionBaseError,
+	IRun,
+	IRunExecutionData,
+	IWorkflowBase,
+	WorkflowExecuteMode,
+	WorkflowSettings,
+} from 'n8n-workflow';
+import { Logger } from '@/Logger';
+import { ExecutionRepository } from '@db/repositories/execution.repository';
+
+const DEFAULT_RETRY_ON: WorkflowSettings.RetryableError[] = ['rateLimit', 'serverError', 'network'];
+
+const DEFAULT_BACKOFF_FACTOR = 2;
+
+/**
+ * Codes of Node.js errors of connections that failed, likely only for the moment.
+ */
+const NETWORK_ERROR_CODES = [
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'ESOCKETTIMEDOUT',
+	'EHOSTUNREACH',
+	'ENETUNREACH',
+	'EAI_AGAIN',
+	'EPIPE',
+];
+
+const TIMEOUT_PATTERN = /\btimed? ?out\b/i;
+
+type NodeErrorFields = ExecutionBaseError & { httpCode?: string | null; messages?: string[] };
+
+/**
+ * Modes of production executions, which are retried along with their own retries.
+ */
+const RETRYABLE_MODES = new Set<WorkflowExecuteMode>(['webhook', 'trigger']);
+
+type FailedExecution = {
+	executionId: string;
+	retryOf?: string;
+	mode: WorkflowExecuteMode;
+	workflowData: IWorkflowBase;
+	fullRunData: IRun;
+};
+
+/**
+ * Automatically retries failed production executions based on the `retryPolicy`
+ * in the settings of their workflow.
+ */
+@Service()
+export class RetryPolicyService {
+	constructor(
+		private readonly logger: Logger,
+		private readonly executionRepository: ExecutionRepository,
+	) {}
+
+	/**
+	 * Schedule a retry of a failed execution, if its workflow has a retry policy covering
+	 * the error and attempts are left. The retry is saved as a waiting execution linked to
+	 * the failed one via `retryOf`, for the wait tracker to start once its backoff is over.
+	 *
+	 * @returns Whether a retry was scheduled.
+	 */
+	async scheduleRetry({ executionId, retryOf, mode, workflowData, fullRunData }: FailedExecution) {
+		const policy = workflowData.settings?.retryPolicy;
+
+		if (!policy || !(policy.maxAttempts > 1)) return false;
+
+		if (mode !== 'retry' && !RETRYABLE_MODES.has(mode)) return false;
+
+		const { error } = fullRunData.data.resultData;
+
+		if (!error || !this.isRetryable(error, policy.retryOn ?? DEFAULT_RETRY_ON)) return false;
+
+		const { attempt, originalMode } = await this.traceAttempts(mode, retryOf, policy.maxAttempts);
+
+		if (attempt >= policy.maxAttempts) {
+			this.logger.debug('[Retry Policy] No attempts left to retry failed execution', {
+				executionId,
+				attempt,
+			});
+			return false;
+		}
+
+		// only retry what goes back to a production execution, not e.g. to a manual one
+		if (!RETRYABLE_MODES.has(originalMode)) return false;
+
+		const waitTill = new Date(Date.now() + this.toDelay(policy, attempt));
+
+		const retryId = await this.executionRepository.createNewExecution({
+			data: this.toRetryData(fullRunData.data),
+			mode: 'retry',
+			finished: false,
+			startedAt: new Date(),
+			workflowData,
+			workflowId: workflowData.id,
+			status: 'waiting',
+			retryOf: executionId,
+			waitTill,
+		});
+
+		this.logger.info('[Retry Policy] Scheduled retry of failed execution', {
+			executionId,
+			retryId,
+			attempt: attempt + 1,
+			waitTill,
+		});
+
+		return true;
+	}
+
+	/**
+	 * Whether a retry of the execution was scheduled, so that it is to be kept
+	 * for the retry to trace its attempts back through it.
+	 */
+	async hasScheduledRetry(executionId: string) {
+		return await this.executionRepository.existsBy({ retryOf: executionId, mode: 'retry' });
+	}
+
+	/**
+	 * Whether an error belongs to any of the given classes of retryable errors. Besides
+	 * responses of APIs, network errors and timeouts of node operations are retryable.
+	 */
+	isRetryable(error: ExecutionBaseError, retryOn: WorkflowSettings.RetryableError[]) {
+		if (retryOn.includes('any')) return true;
+
+		// errors of failed executions are copied into plain objects, so the prototype is lost
+		if (error.name === 'NodeOperationError') {
+			return retryOn.includes('network') && this.isNetworkFailure(error);
+		}
+
+		if (error.name !== 'NodeApiError') return false;
+
+		const { httpCode } = error as NodeErrorFields;
+
+		// without a response, there is no status code or only the code of the Node.js error
+		if (!httpCode) return retryOn.includes('network');
+
+		if (httpCode === '429') return retryOn.includes('rateLimit');
+
+		if (/^5\d\d$/.test(httpCode)) return retryOn.includes('serverError');
+
+		return retryOn.includes('network') && this.isNetworkFailure(error);
+	}
+
+	/**
+	 * Delay before the retry following the given attempt, growing exponentially with
+	 * every attempt. With jitter, the delay is randomized between half and all of it.
+	 */
+	toDelay(policy: WorkflowSettings.RetryPolicy, attempt: number, random = Math.random) {
+		const { initialDelay, backoffFactor = DEFAULT_BACKOFF_FACTOR, maxDelay, jitter } = policy;
+
+		let delay = Math.max(0, initialDelay) * Math.pow(backoffFactor, attempt - 1);
+
+		if (maxDelay !== undefined) delay = Math.min(delay, maxDelay);
+
+		if (jitter) delay = delay / 2 + random() * (delay / 2);
+
+		return Math.round(delay);
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	/**
+	 * Whether the code or any message of an error points to a failed connection or a timeout.
+	 */
+	private isNetworkFailure(error: NodeErrorFields) {
+		const texts = [error.httpCode, error.message, error.description, ...(error.messages ?? [])];
+
+		return texts.some(
+			(text) =>
+				typeof text === 'string' &&
+				(NETWORK_ERROR_CODES.some((code) => text.includes(code)) || TIMEOUT_PATTERN.test(text)),
+		);
+	}
+
+	/**
+	 * Follow the `retryOf` chain of a failed execution, to find out which attempt it was
+	 * and in which mode the original execution ran. Stops once attempts are exhausted.
+	 */
+	private async traceAttempts(mode: WorkflowExecuteMode, retryOf: string | undefined, max: number) {
+		let attempt = 1;
+		let originalMode = mode;
+		let previousId = retryOf;
+
+		while (previousId && attempt < max) {
+			const previous = await this.executionRepository.findOne({
+				select: ['id', 'mode', 'retryOf'],
+				where: { id: previousId },
+			});
+
+			if (!previous) break;
+
+			attempt++;
+			originalMode = previous.mode;
+			previousId = previous.retryOf ?? undefined;
+		}
+
+		return { attempt, originalMode };
+	}
+
+	/**
+	 * Prepare the data of a failed execution to be run again from the node that failed.
+	 */
+	private toRetryData(data: IRunExecutionData) {
+		const retryData = deepCopy(data);
+		const { resultData } = retryData;
+
+		delete resultData.error;
+
+		const { lastNodeExecuted } = resultData;
+
+		if (lastNodeExecuted) {
+			// the failed node is back on top of the stack, so its failed run is replaced
+			const runs = resultData.runData[lastNodeExecuted] ?? [];
+			if (runs.at(-1)?.error !== undefined) runs.pop();
+		}
+
+		return retryData;
+	}
+}
@@ -5,6 +5,9 @@ import { mock } from 'jest-mock-extended';
 import { PrometheusMetricsService } from '../prometheus-metrics.service';
 import type express from 'express';
 import type { MessageEventBus } from '@/eventbus/MessageEventBus/MessageEventBus';
+import type { EventService } from '@/events/event.service';
+import type { RelayEventMap } from '@/events/relay-event-map';
+import type { IRun, IWorkflowBase } from 'n8n-workflow';
 import { mockInstance } from '@test/mocking';
 import { GlobalConfig } from '@n8n/config';
 
@@ -32,13 +35,35 @@ describe('PrometheusMetricsService', () => {
 				includeApiPathLabel: true,
 				includeApiMethodLabel: true,
 				includeApiStatusCodeLabel: true,
+				includeWorkflowNameLabel: false,
+				includeExecutionDurationMetrics: true,
+				includeQueueMetrics: true,
 			},
 		},
 	});
 
+	const createService = ({
+		eventBus = mock<MessageEventBus>(),
+		eventService = mock<EventService>(),
+	} = {}) =>
+		new PrometheusMetricsService(
+			mock(),
+			eventBus,
+			globalConfig,
+			eventService,
+			mock(),
+			mock(),
+			mock(),
+			mock(),
+		);
+
 	describe('init', () => {
+		beforeEach(() => {
+			jest.clearAllMocks();
+		});
+
 		it('should set up `n8n_version_info`', async () => {
-			const service = new PrometheusMetricsService(mock(), mock(), globalConfig);
+			const service = createService();
 
 			await service.init(mock<express.Application>());
 
@@ -50,7 +75,7 @@ describe('PrometheusMetricsService', () => {
 		});
 
 		it('should set up default metrics collection with `prom-client`', async () => {
-			const service = new PrometheusMetricsService(mock(), mock(), globalConfig);
+			const service = createService();
 
 			await service.init(mock<express.Application>());
 
@@ -59,7 +84,7 @@ describe('PrometheusMetricsService', () => {
 
 		it('should set up `n8n_cache_hits_total`', async () => {
 			config.set('endpoints.metrics.includeCacheMetrics', true);
-			const service = new PrometheusMetricsService(mock(), mock(), globalConfig);
+			const service = createService();
 
 			await service.init(mock<express.Application>());
 
@@ -74,7 +99,7 @@ describe('PrometheusMetricsService', () => {
 
 		it('should set up `n8n_cache_misses_total`', async () => {
 			config.set('endpoints.metrics.includeCacheMetrics', true);
-			const service = new PrometheusMetricsService(mock(), mock(), globalConfig);
+			const service = createService();
 
 			await service.init(mock<express.Application>());
 
@@ -89,7 +114,7 @@ describe('PrometheusMetricsService', () => {
 
 		it('should set up `n8n_cache_updates_total`', async () => {
 			config.set('endpoints.metrics.includeCacheMetrics', true);
-			const service = new PrometheusMetricsService(mock(), mock(), globalConfig);
+			const service = createService();
 
 			await service.init(mock<express.Application>());
 
@@ -107,7 +132,7 @@ describe('PrometheusMetricsService', () => {
 			config.set('endpoints.metrics.includeApiPathLabel', true);
 			config.set('endpoints.metrics.includeApiMethodLabel', true);
 			config.set('endpoints.metrics.includeApiStatusCodeLabel', true);
-			const service = new PrometheusMetricsService(mock(), mock(), globalConfig);
+			const service = createService();
 
 			const app = mock<express.Application>();
 
@@ -138,11 +163,92 @@ describe('PrometheusMetricsService', () => {
 
 		it('should set up event bus metrics', async () => {
 			const eventBus = mock<MessageEventBus>();
-			const service = new PrometheusMetricsService(mock(), eventBus, globalConfig);
+			const service = createService({ eventBus });
 
 			await service.init(mock<express.Application>());
 
 			expect(eventBus.on).toHaveBeenCalledWith('metrics.eventBus.event', expect.any(Function));
 		});
+
+		it('should set up execution duration histograms', async () => {
+			const service = createService();
+
+			await service.init(mock<express.Application>());
+
+			expect(promClient.Histogram).toHaveBeenCalledWith(
+				expect.objectContaining({
+					name: 'n8n_workflow_execution_duration_seconds',
+					labelNames: ['mode', 'status'],
+				}),
+			);
+			expect(promClient.Histogram).toHaveBeenCalledWith(
+				expect.objectContaining({ name: 'n8n_node_execution_duration_seconds', labelNames: [] }),
+			);
+		});
+
+		it('should observe workflow and node execution durations', async () => {
+			const eventService = mock<EventService>();
+			const service = createService({ eventService });
+
+			await service.init(mock<express.Application>());
+
+			const [[eventName, listener]] = eventService.on.mock.calls;
+			expect(eventName).toBe('workflow-post-execute');
+
+			const runData = {
+				mode: 'trigger',
+				status: 'success',
+				startedAt: new Date('2024-01-01T00:00:00.000Z'),
+				stoppedAt: new Date('2024-01-01T00:00:02.500Z'),
+				data: { resultData: { runData: { Set: [{ executionTime: 300 }] } } },
+			} as unknown as IRun;
+			const workflow = mock<IWorkflowBase>({
+				nodes: [{ name: 'Set', type: 'n8n-nodes-base.set' }],
+			});
+
+			(listener as (event: RelayEventMap['workflow-post-execute']) => void)({
+				executionId: '1',
+				workflow,
+				runData,
+			});
+
+			const [workflowExecutionDuration, nodeExecutionDuration] = jest.mocked(promClient.Histogram)
+				.mock.instances;
+			expect(workflowExecutionDuration.observe).toHaveBeenCalledWith(
+				{ mode: 'trigger', status: 'success' },
+				2.5,
+			);
+			expect(nodeExecutionDuration.observe).toHaveBeenCalledWith({}, 0.3);
+		});
+
+		it('should set up queue gauges', async () => {
+			const service = createService();
+
+			await service.init(mock<express.Application>());
+
+			for (const name of [
+				'n8n_active_executions',
+				'n8n_concurrency_queue_length',
+				'n8n_waiting_executions',
+			]) {
+				expect(promClient.Gauge).toHaveBeenCalledWith(expect.objectContaining({ name }));
+			}
+		});
+
+		it('should not set up gauges of executions in this process on workers', async () => {
+			config.set('generic.instanceType', 'worker');
+			const service = createService();
+
+			await service.init(mock<express.Application>());
+
+			expect(promClient.Gauge).not.toHaveBeenCalledWith(
+				expect.objectContaining({ name: 'n8n_active_executions' }),
+			);
+			expect(promClient.Gauge).not.toHaveBeenCalledWith(
+				expect.objectContaining({ name: 'n8n_concurrency_queue_length' }),
+			);
+
+			config.set('generic.instanceType', 'main');
+		});
 	});
 });
@@ -1,16 +1,26 @@
 import { N8N_VERSION } from '@/constants';
 import type express from 'express';
 import promBundle from 'express-prom-bundle';
-import promClient, { type Counter } from 'prom-client';
+import promClient, { type Counter, type Histogram } from 'prom-client';
 import semverParse from 'semver/functions/parse';
 import { Service } from 'typedi';
 
 import { CacheService } from '@/services/cache/cache.service';
 import { MessageEventBus } from '@/eventbus/MessageEventBus/MessageEventBus';
 import { EventMessageTypeNames } from 'n8n-workflow';
+import type { IRun, IWorkflowBase } from 'n8n-workflow';
 import type { EventMessageTypes } from '@/eventbus';
 import type { Includes, MetricCategory, MetricLabel } from './types';
 import { GlobalConfig } from '@n8n/config';
+import config from '@/config';
+import { EventService } from '@/events/event.service';
+import { ActiveExecutions } from '@/ActiveExecutions';
+import { ConcurrencyControlService } from '@/concurrency/concurrency-control.service';
+import { WaitTracker } from '@/WaitTracker';
+import { Queue } from '@/Queue';
+
+/** Buckets for execution durations in seconds, from 10 ms to 10 min. */
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
 
 @Service()
 export class PrometheusMetricsService {
@@ -18,10 +28,17 @@ export class PrometheusMetricsService {
 		private readonly cacheService: CacheService,
 		private readonly eventBus: MessageEventBus,
 		private readonly globalConfig: GlobalConfig,
+		private readonly eventService: EventService,
+		private readonly activeExecutions: ActiveExecutions,
+		private readonly concurrencyControl: ConcurrencyControlService,
+		private readonly waitTracker: WaitTracker,
+		private readonly queue: Queue,
 	) {}
 
 	private readonly counters: { [key: string]: Counter<string> | null } = {};
 
+	private readonly histograms: { [key: string]: Histogram<string> } = {};
+
 	private readonly prefix = this.globalConfig.endpoints.metrics.prefix;
 
 	private readonly includes: Includes = {
@@ -30,11 +47,14 @@ export class PrometheusMetricsService {
 			routes: this.globalConfig.endpoints.metrics.includeApiEndpoints,
 			cache: this.globalConfig.endpoints.metrics.includeCacheMetrics,
 			logs: this.globalConfig.endpoints.metrics.includeMessageEventBusMetrics,
+			executionDurations: this.globalConfig.endpoints.metrics.includeExecutionDurationMetrics,
+			queue: this.globalConfig.endpoints.metrics.includeQueueMetrics,
 		},
 		labels: {
 			credentialsType: this.globalConfig.endpoints.metrics.includeCredentialTypeLabel,
 			nodeType: this.globalConfig.endpoints.metrics.includeNodeTypeLabel,
 			workflowId: this.globalConfig.endpoints.metrics.includeWorkflowIdLabel,
+			workflowName: this.globalConfig.endpoints.metrics.includeWorkflowNameLabel,
 			apiPath: this.globalConfig.endpoints.metrics.includeApiPathLabel,
 			apiMethod: this.globalConfig.endpoints.metrics.includeApiMethodLabel,
 			apiStatusCode: this.globalConfig.endpoints.metrics.includeApiStatusCodeLabel,
@@ -47,6 +67,8 @@ export class PrometheusMetricsService {
 		this.initN8nVersionMetric();
 		this.initCacheMetrics();
 		this.initEventBusMetrics();
+		this.initExecutionDurationMetrics();
+		this.initQueueMetrics();
 		this.initRouteMetrics(app);
 		this.mountMetricsEndpoint(app);
 	}
@@ -218,6 +240,143 @@ export class PrometheusMetricsService {
 		});
 	}
 
+	/**
+	 * Set up histograms of execution durations: `n8n_workflow_execution_duration_seconds`
+	 * and `n8n_node_execution_duration_seconds`
+	 */
+	private initExecutionDurationMetrics() {
+		if (!this.includes.metrics.executionDurations) return;
+
+		const workflowLabelNames = this.toWorkflowLabelNames();
+
+		this.histograms.workflowExecutionDuration = new promClient.Histogram({
+			name: this.prefix + 'workflow_execution_duration_seconds',
+			help: 'Duration of workflow executions in seconds.',
+			labelNames: [...workflowLabelNames, 'mode', 'status'],
+			buckets: DURATION_BUCKETS,
+		});
+
+		this.histograms.nodeExecutionDuration = new promClient.Histogram({
+			name: this.prefix + 'node_execution_duration_seconds',
+			help: 'Duration of node executions in seconds.',
+			labelNames: this.includes.labels.nodeType
+				? [...workflowLabelNames, 'node_type']
+				: workflowLabelNames,
+			buckets: DURATION_BUCKETS,
+		});
+
+		this.eventService.on('workflow-post-execute', ({ workflow, runData }) => {
+			if (runData) this.observeExecutionDurations(workflow, runData);
+		});
+	}
+
+	private observeExecutionDurations(workflow: IWorkflowBase, run: IRun) {
+		const workflowLabels = this.toWorkflowLabels(workflow);
+
+		if (run.stoppedAt) {
+			const durationMs = new Date(run.stoppedAt).getTime() - new Date(run.startedAt).getTime();
+
+			this.histograms.workflowExecutionDuration.observe(
+				{ ...workflowLabels, mode: run.mode, status: run.status },
+				durationMs / 1000,
+			);
+		}
+
+		const nodeTypes = new Map(workflow.nodes.map((node) => [node.name, node.type]));
+
+		for (const [nodeName, taskData] of Object.entries(run.data.resultData.runData)) {
+			const labels = this.includes.labels.nodeType
+				? { ...workflowLabels, node_type: this.toNodeTypeLabel(nodeTypes.get(nodeName)) }
+				: workflowLabels;
+
+			for (const { executionTime } of taskData) {
+				this.histograms.nodeExecutionDuration.observe(labels, executionTime / 1000);
+			}
+		}
+	}
+
+	/**
+	 * Set up gauges for executions in progress or waiting to start: `n8n_active_executions`,
+	 * `n8n_concurrency_queue_length`, `n8n_waiting_executions` and, in queue mode,
+	 * `n8n_queue_jobs` by job state
+	 */
+	private initQueueMetrics() {
+		if (!this.includes.metrics.queue) return;
+
+		// workers run jobs outside of active executions, concurrency control and the wait tracker
+		if (config.getEnv('generic.instanceType') !== 'worker') this.initExecutionGauges();
+
+		if (config.getEnv('executions.mode') !== 'queue') return;
+
+		const { queue } = this;
+
+		new promClient.Gauge({
+			name: this.prefix + 'queue_jobs',
+			help: 'Number of jobs in the execution queue by state.',
+			labelNames: ['state'],
+			async collect() {
+				const counts = await queue.getJobCounts();
+
+				for (const state of ['waiting', 'active', 'delayed', 'failed'] as const) {
+					this.set({ state }, counts[state]);
+				}
+			},
+		});
+	}
+
+	private initExecutionGauges() {
+		const { activeExecutions, concurrencyControl, waitTracker } = this;
+
+		new promClient.Gauge({
+			name: this.prefix + 'active_executions',
+			help: 'Number of executions in progress in this process.',
+			collect() {
+				this.set(activeExecutions.getActiveExecutions().length);
+			},
+		});
+
+		new promClient.Gauge({
+			name: this.prefix + 'concurrency_queue_length',
+			help: 'Number of executions waiting for concurrency capacity.',
+			labelNames: ['queue'],
+			collect() {
+				for (const [name, size] of Object.entries(concurrencyControl.getQueueSizes())) {
+					this.set({ queue: name }, size);
+				}
+			},
+		});
+
+		new promClient.Gauge({
+			name: this.prefix + 'waiting_executions',
+			help: 'Number of waiting executions scheduled to resume in this process.',
+			collect() {
+				this.set(waitTracker.waitingCount);
+			},
+		});
+	}
+
+	private toWorkflowLabelNames() {
+		const labelNames: string[] = [];
+
+		if (this.includes.labels.workflowId) labelNames.push('workflow_id');
+		if (this.includes.labels.workflowName) labelNames.push('workflow_name');
+
+		return labelNames;
+	}
+
+	private toWorkflowLabels(workflow: IWorkflowBase): Record<string, string> {
+		const labels: Record<string, string> = {};
+
+		if (this.includes.labels.workflowId) labels.workflow_id = workflow.id ?? 'unknown';
+		if (this.includes.labels.workflowName) labels.workflow_name = workflow.name ?? 'unknown';
+
+		return labels;
+	}
+
+	private toNodeTypeLabel(nodeType?: string) {
+		return (nodeType ?? 'unknown').replace('n8n-nodes-', '').replace(/\./g, '_');
+	}
+
 	private toLabels(event: EventMessageTypes): Record<string, string> {
 		const { __type, eventName, payload } = event;
 
@@ -238,11 +397,7 @@ export class PrometheusMetricsService {
 
 			case EventMessageTypeNames.node:
 				return this.includes.labels.nodeType
-					? {
-							node_type: (payload.nodeType ?? 'unknown')
-								.replace('n8n-nodes-', '')
-								.replace(/\./g, '_'),
-						}
+					? { node_type: this.toNodeTypeLabel(payload.nodeType) }
 					: {};
 
 			case EventMessageTypeNames.workflow:
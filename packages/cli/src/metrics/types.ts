@@ -1,9 +1,16 @@
-export type MetricCategory = 'default' | 'routes' | 'cache' | 'logs';
+export type MetricCategory =
+	| 'default'
+	| 'routes'
+	| 'cache'
+	| 'logs'
+	| 'executionDurations'
+	| 'queue';
 
 export type MetricLabel =
 	| 'credentialsType'
 	| 'nodeType'
 	| 'workflowId'
+	| 'workflowName'
 	| 'apiPath'
 	| 'apiMethod'
 	| 'apiStatusCode';
@@ -1,4 +1,4 @@
-import { IsOptional, IsString } from 'class-validator';
+import { IsBoolean, IsIn, IsOptional, IsString } from 'class-validator';
 import { Expose } from 'class-transformer';
 import { BaseFilter } from './base.filter.dto';
 
@@ -18,6 +18,18 @@ export class CredentialsFilter extends BaseFilter {
 	@Expose()
 	projectId?: string;
 
+	/** Only credentials expiring within the warning period, or already expired */
+	@IsBoolean()
+	@IsOptional()
+	@Expose()
+	expiringSoon?: boolean;
+
+	/** Status of the last scheduled test */
+	@IsIn(['ok', 'error'])
+	@IsOptional()
+	@Expose()
+	lastTestStatus?: string;
+
 	static async fromString(rawFilter: string) {
 		return await this.toFilter(rawFilter, CredentialsFilter);
 	}
@@ -6,6 +6,8 @@ export class CredentialsSelect extends BaseSelect {
 			'id', // always included downstream
 			'name',
 			'type',
+			'expiresAt',
+			'lastTestStatus',
 		]);
 	}
 
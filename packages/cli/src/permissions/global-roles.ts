@@ -32,9 +32,11 @@ export const GLOBAL_OWNER_SCOPES: Scope[] = [
 	'ldap:sync',
 	'license:manage',
 	'logStreaming:manage',
+	'oidc:manage',
 	'orchestration:read',
 	'orchestration:list',
 	'saml:manage',
+	'scim:manage',
 	'securityAudit:generate',
 	'sourceControl:pull',
 	'sourceControl:push',
@@ -9,6 +9,7 @@ import type {
 	INodeParameters,
 	INodeTypeNameVersion,
 	IUser,
+	WorkflowDiff,
 } from 'n8n-workflow';
 
 import { Expose } from 'class-transformer';
@@ -21,6 +22,8 @@ import type { Variables } from '@db/entities/Variables';
 import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
 import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
 import type { WorkflowHistory } from '@db/entities/WorkflowHistory';
+import type { WorkflowTestCase } from '@db/entities/WorkflowTestCase';
+import type { ApiKey } from '@db/entities/ApiKey';
 import type { Project, ProjectType } from '@db/entities/Project';
 import type { ProjectRole } from './databases/entities/ProjectRelation';
 import type { Scope } from '@n8n/permissions';
@@ -86,6 +89,8 @@ export type AuthenticatedRequest<
 > = Omit<APIRequest<RouteParams, ResponseBody, RequestBody, RequestQuery>, 'user' | 'cookies'> & {
 	user: User;
 	cookies: Record<string, string | undefined>;
+	/** Scoped API key the request was authenticated with, in the public API */
+	apiKey?: ApiKey;
 };
 
 // ----------------------------------
@@ -178,6 +183,8 @@ export declare namespace CredentialRequest {
 		type: string;
 		data: ICredentialDataDecryptedObject;
 		projectId?: string;
+		expiresAt: string | null;
+		rotationWorkflowId: string | null;
 	}>;
 
 	type Create = AuthenticatedRequest<{}, {}, CredentialProperties>;
@@ -200,6 +207,8 @@ export declare namespace CredentialRequest {
 
 	type Share = AuthenticatedRequest<{ credentialId: string }, {}, { shareWithIds: string[] }>;
 
+	type Rotate = AuthenticatedRequest<{ credentialId: string }>;
+
 	type Transfer = AuthenticatedRequest<
 		{ credentialId: string },
 		{},
@@ -239,6 +248,23 @@ export interface UserSetupPayload {
 	mfaRecoveryCodes?: string[];
 }
 
+// ----------------------------------
+//             /api-keys
+// ----------------------------------
+
+export declare namespace ApiKeyRequest {
+	type CreatePayload = {
+		label: string;
+		scopes: Scope[];
+		projectIds?: string[] | null;
+		expiresAt?: string | null;
+	};
+
+	type Create = AuthenticatedRequest<{}, {}, CreatePayload>;
+
+	type Delete = AuthenticatedRequest<{ id: string }>;
+}
+
 // ----------------------------------
 //             /owner
 // ----------------------------------
@@ -525,6 +551,35 @@ export declare namespace WorkflowHistoryRequest {
 		{ workflowId: string; versionId: string },
 		WorkflowHistory
 	>;
+	type GetDiff = AuthenticatedRequest<
+		{ workflowId: string },
+		WorkflowDiff.Result,
+		{},
+		{ from?: string; to?: string }
+	>;
+}
+
+// ----------------------------------
+//           /workflow-tests
+// ----------------------------------
+
+export declare namespace WorkflowTestRequest {
+	type Payload = Partial<Pick<WorkflowTestCase, 'name' | 'pinData' | 'assertions'>>;
+
+	type GetAll = AuthenticatedRequest<{ workflowId: string }>;
+
+	type Create = AuthenticatedRequest<{ workflowId: string }, {}, Payload>;
+
+	type Update = AuthenticatedRequest<{ workflowId: string; testCaseId: string }, {}, Payload>;
+
+	type Delete = AuthenticatedRequest<{ workflowId: string; testCaseId: string }>;
+
+	type Run = AuthenticatedRequest<
+		{ workflowId: string },
+		{},
+		{ testCaseIds?: string[] },
+		{ format?: 'json' | 'junit' }
+	>;
 }
 
 // ----------------------------------
@@ -578,6 +633,7 @@ export declare namespace ProjectRequest {
 		id: string;
 		name: string | undefined;
 		type: ProjectType;
+		concurrencyLimit: number | null;
 		relations: ProjectRelationResponse[];
 		scopes: Scope[];
 	};
@@ -586,7 +642,7 @@ export declare namespace ProjectRequest {
 	type Update = AuthenticatedRequest<
 		{ projectId: string },
 		{},
-		{ name?: string; relations?: ProjectRelationPayload[] }
+		{ name?: string; relations?: ProjectRelationPayload[]; concurrencyLimit?: number | null }
 	>;
 	type Delete = AuthenticatedRequest<{ projectId: string }, {}, {}, { transferId?: string }>;
 }
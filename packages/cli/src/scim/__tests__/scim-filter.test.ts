@@ -0,0 +1,82 @@
+import { matchesFilter, parseFilter } from '../scim-filter';
+import type { ScimError } from '../scim.error';
+
+describe('parseFilter', () => {
+	it('should parse comparisons', () => {
+		expect(parseFilter('userName eq "alice@n8n.io"')).toEqual({
+			op: 'eq',
+			attribute: 'userName',
+			value: 'alice@n8n.io',
+		});
+	});
+
+	it('should give `and` precedence over `or`', () => {
+		expect(parseFilter('a eq "1" or b eq "2" and c pr')).toEqual({
+			op: 'or',
+			left: { op: 'eq', attribute: 'a', value: '1' },
+			right: {
+				op: 'and',
+				left: { op: 'eq', attribute: 'b', value: '2' },
+				right: { op: 'pr', attribute: 'c' },
+			},
+		});
+	});
+
+	it('should parse `not`, parentheses and value paths', () => {
+		expect(parseFilter('not (active eq true) and emails[type eq "work"]')).toEqual({
+			op: 'and',
+			left: { op: 'not', filter: { op: 'eq', attribute: 'active', value: true } },
+			right: {
+				op: 'valuePath',
+				attribute: 'emails',
+				filter: { op: 'eq', attribute: 'type', value: 'work' },
+			},
+		});
+	});
+
+	it.each(['userName', 'userName xx "a"', 'userName eq', '(userName pr', 'userName eq "a" b'])(
+		'should reject the invalid filter `%s`',
+		(filter) => {
+			expect(() => parseFilter(filter)).toThrow(
+				expect.objectContaining({ status: 400, scimType: 'invalidFilter' }) as ScimError,
+			);
+		},
+	);
+});
+
+describe('matchesFilter', () => {
+	const user = {
+		schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+		id: 'AbC',
+		externalId: 'ext-1',
+		userName: 'Alice@n8n.io',
+		name: { givenName: 'Alice', familyName: 'Smith' },
+		emails: [{ value: 'alice@n8n.io', type: 'work', primary: true }],
+		active: true,
+	};
+
+	const matches = (filter: string) => matchesFilter(user, parseFilter(filter));
+
+	it('should compare strings case-insensitively, except IDs', () => {
+		expect(matches('userName eq "alice@N8N.io"')).toBe(true);
+		expect(matches('id eq "abc"')).toBe(false);
+		expect(matches('id eq "AbC"')).toBe(true);
+	});
+
+	it('should support sub-attributes, schema URNs and multi-valued attributes', () => {
+		expect(matches('name.familyName sw "sm"')).toBe(true);
+		expect(matches('urn:ietf:params:scim:schemas:core:2.0:User:userName co "@n8n"')).toBe(true);
+		expect(matches('emails.value ew ".io"')).toBe(true);
+		expect(matches('emails co "alice"')).toBe(true);
+		expect(matches('emails[type eq "work" and primary eq true]')).toBe(true);
+		expect(matches('emails[type eq "home"]')).toBe(false);
+	});
+
+	it('should support logical operators, presence and null', () => {
+		expect(matches('active eq true and not (externalId eq "ext-2")')).toBe(true);
+		expect(matches('displayName pr or externalId eq "ext-1"')).toBe(true);
+		expect(matches('displayName eq null')).toBe(true);
+		expect(matches('userName ne null')).toBe(true);
+		expect(matches('userName ne "alice@n8n.io"')).toBe(false);
+	});
+});
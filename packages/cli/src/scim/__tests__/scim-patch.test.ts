@@ -0,0 +1,105 @@
+import { SCIM_GROUP_SCHEMA, SCIM_N8N_GROUP_SCHEMA, SCIM_USER_SCHEMA } from '../constants';
+import { applyPatchOperations } from '../scim-patch';
+import type { ScimError } from '../scim.error';
+import type { ScimGroup, ScimUser } from '../types';
+
+describe('applyPatchOperations', () => {
+	const user: ScimUser = {
+		schemas: [SCIM_USER_SCHEMA],
+		id: 'user1',
+		userName: 'alice@n8n.io',
+		name: { givenName: 'Alice', familyName: 'Smith' },
+		emails: [{ value: 'alice@n8n.io', type: 'work', primary: true }],
+		active: true,
+	};
+
+	const group: ScimGroup = {
+		schemas: [SCIM_GROUP_SCHEMA, SCIM_N8N_GROUP_SCHEMA],
+		id: 'group1',
+		displayName: 'Engineering',
+		members: [{ value: 'user1' }, { value: 'user2' }],
+		[SCIM_N8N_GROUP_SCHEMA]: { projectRole: 'project:editor' },
+	};
+
+	it('should not change the resource', () => {
+		applyPatchOperations(user, [{ op: 'replace', path: 'active', value: false }]);
+
+		expect(user.active).toBe(true);
+	});
+
+	it('should replace attributes by path, case-insensitively', () => {
+		const patched = applyPatchOperations(user, [
+			{ op: 'Replace', path: 'Active', value: 'False' },
+			{ op: 'replace', path: 'name.givenName', value: 'Alicia' },
+			{ op: 'replace', path: `${SCIM_USER_SCHEMA}:userName`, value: 'alicia@n8n.io' },
+		]);
+
+		expect(patched).toMatchObject({
+			userName: 'alicia@n8n.io',
+			name: { givenName: 'Alicia', familyName: 'Smith' },
+			active: 'False',
+		});
+	});
+
+	it('should apply operations without path to each attribute of the value', () => {
+		const patched = applyPatchOperations(group, [
+			{
+				op: 'replace',
+				value: {
+					displayName: 'Platform',
+					[SCIM_N8N_GROUP_SCHEMA]: { projectRole: 'project:viewer' },
+				},
+			},
+		]);
+
+		expect(patched.displayName).toBe('Platform');
+		expect(patched[SCIM_N8N_GROUP_SCHEMA]).toEqual({ projectRole: 'project:viewer' });
+	});
+
+	it('should add values to multi-valued attributes without duplicates', () => {
+		const patched = applyPatchOperations(group, [
+			{ op: 'add', path: 'members', value: [{ value: 'user2' }, { value: 'user3' }] },
+		]);
+
+		expect(patched.members).toEqual([{ value: 'user1' }, { value: 'user2' }, { value: 'user3' }]);
+	});
+
+	it('should remove values selected by a filter or listed in the value', () => {
+		expect(
+			applyPatchOperations(group, [{ op: 'remove', path: 'members[value eq "user1"]' }]).members,
+		).toEqual([{ value: 'user2' }]);
+		expect(
+			applyPatchOperations(group, [{ op: 'remove', path: 'members', value: [{ value: 'user2' }] }])
+				.members,
+		).toEqual([{ value: 'user1' }]);
+		expect(
+			applyPatchOperations(group, [{ op: 'remove', path: 'members' }]).members,
+		).toBeUndefined();
+	});
+
+	it('should replace sub-attributes of values selected by a filter', () => {
+		const patched = applyPatchOperations(user, [
+			{ op: 'replace', path: 'emails[type eq "work"].value', value: 'a.smith@n8n.io' },
+			{ op: 'add', path: 'emails[type eq "home"].value', value: 'alice@example.com' },
+		]);
+
+		expect(patched.emails).toEqual([
+			{ value: 'a.smith@n8n.io', type: 'work', primary: true },
+			{ value: 'alice@example.com', type: 'home' },
+		]);
+	});
+
+	it('should reject invalid operations', () => {
+		expect(() => applyPatchOperations(user, [{ op: 'move', path: 'active' }])).toThrow(
+			expect.objectContaining({ status: 400, scimType: 'invalidSyntax' }) as ScimError,
+		);
+		expect(() => applyPatchOperations(user, [{ op: 'remove' }])).toThrow(
+			expect.objectContaining({ status: 400, scimType: 'noTarget' }) as ScimError,
+		);
+		expect(() =>
+			applyPatchOperations(user, [
+				{ op: 'replace', path: 'emails[type eq "home"].value', value: 'a@b.c' },
+			]),
+		).toThrow(expect.objectContaining({ status: 400, scimType: 'noTarget' }) as ScimError);
+	});
+});
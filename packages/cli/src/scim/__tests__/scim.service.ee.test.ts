@@ -0,0 +1,424 @@
+import { createHash } from 'crypto';
+import { mock } from 'jest-mock-extended';
+import type { GlobalConfig } from '@n8n/config';
+// eslint-disable-next-line n8n-local-rules/misplaced-n8n-typeorm-import
+import type { EntityManager } from '@n8n/typeorm';
+
+import config from '@/config';
+import type { AuthIdentity } from '@db/entities/AuthIdentity';
+import type { Project } from '@db/entities/Project';
+import type { ProjectRelation } from '@db/entities/ProjectRelation';
+import type { Settings } from '@db/entities/Settings';
+import type { User } from '@db/entities/User';
+import type { AuthIdentityRepository } from '@db/repositories/authIdentity.repository';
+import type { ProjectRepository } from '@db/repositories/project.repository';
+import type { SettingsRepository } from '@db/repositories/settings.repository';
+import type { UserRepository } from '@db/repositories/user.repository';
+import type { EventService } from '@/events/event.service';
+import type { License } from '@/License';
+import type { OwnershipService } from '@/services/ownership.service';
+import type { PasswordUtility } from '@/services/password.utility';
+import type { ProjectService } from '@/services/project.service';
+import type { RoleService } from '@/services/role.service';
+import type { UrlService } from '@/services/url.service';
+
+import { SCIM_N8N_GROUP_SCHEMA } from '../constants';
+import type { ScimError } from '../scim.error';
+import { ScimService } from '../scim.service.ee';
+import type { ScimConfig } from '../types';
+
+describe('ScimService', () => {
+	const token = 'n8n_scim_token';
+	const createdAt = new Date('2024-08-01T00:00:00.000Z');
+
+	const license = mock<License>();
+	const settingsRepository = mock<SettingsRepository>();
+	const userRepository = mock<UserRepository>();
+	const authIdentityRepository = mock<AuthIdentityRepository>();
+	const projectRepository = mock<ProjectRepository>();
+	const projectService = mock<ProjectService>();
+	const roleService = mock<RoleService>();
+	const ownershipService = mock<OwnershipService>();
+	const passwordUtility = mock<PasswordUtility>();
+	const eventService = mock<EventService>();
+	const trx = mock<EntityManager>();
+
+	const scimService = new ScimService(
+		mock(),
+		mock<GlobalConfig>({ endpoints: { rest: 'rest' } }),
+		license,
+		settingsRepository,
+		userRepository,
+		authIdentityRepository,
+		projectRepository,
+		projectService,
+		roleService,
+		ownershipService,
+		mock(),
+		mock(),
+		passwordUtility,
+		mock<UrlService>({ getInstanceBaseUrl: () => 'https://n8n.example.com' }),
+		eventService,
+	);
+
+	const makeUser = (attributes: Partial<User> = {}) =>
+		({
+			id: 'user1',
+			email: 'alice@n8n.io',
+			firstName: 'Alice',
+			lastName: 'Smith',
+			role: 'global:member',
+			disabled: false,
+			authIdentities: [] as AuthIdentity[],
+			projectRelations: [] as ProjectRelation[],
+			createdAt,
+			updatedAt: createdAt,
+			...attributes,
+		}) as User;
+
+	const makeProject = (members: Array<{ userId: string; role: ProjectRelation['role'] }> = []) =>
+		({
+			id: 'project1',
+			name: 'Engineering',
+			type: 'team',
+			projectRelations: members.map(({ userId, role }) => ({
+				userId,
+				role,
+				user: makeUser({ id: userId, email: `${userId}@n8n.io` }),
+			})),
+			createdAt,
+			updatedAt: createdAt,
+		}) as Project;
+
+	const setConfig = (config: Partial<ScimConfig>) => {
+		settingsRepository.findOneBy.mockResolvedValue({
+			key: 'features.scim',
+			value: JSON.stringify(config),
+			loadOnStartup: false,
+		} as Settings);
+	};
+
+	beforeEach(() => {
+		jest.resetAllMocks();
+		config.set('userManagement.authenticationMethod', 'email');
+		license.isScimEnabled.mockReturnValue(true);
+		license.isWithinUsersLimit.mockReturnValue(true);
+		roleService.isRoleLicensed.mockReturnValue(true);
+		passwordUtility.hash.mockResolvedValue('hashed');
+		// @ts-expect-error Read-only property
+		userRepository.manager = trx;
+		trx.transaction.mockImplementation(async (runInTransaction: unknown) => {
+			return await (runInTransaction as (entityManager: EntityManager) => Promise<unknown>)(trx);
+		});
+		setConfig({
+			enabled: true,
+			tokenHash: createHash('sha256').update(token).digest('hex'),
+		});
+	});
+
+	describe('authenticate', () => {
+		it('should accept the token of the configuration', async () => {
+			await expect(scimService.authenticate(token)).resolves.toBeUndefined();
+		});
+
+		it('should reject other or missing tokens', async () => {
+			const unauthorized = expect.objectContaining({ status: 401 }) as ScimError;
+
+			await expect(scimService.authenticate('n8n_scim_other')).rejects.toThrow(unauthorized);
+			await expect(scimService.authenticate(undefined)).rejects.toThrow(unauthorized);
+		});
+
+		it('should reject requests when SCIM is disabled or not licensed', async () => {
+			const forbidden = expect.objectContaining({ status: 403 }) as ScimError;
+
+			license.isScimEnabled.mockReturnValue(false);
+			await expect(scimService.authenticate(token)).rejects.toThrow(forbidden);
+
+			license.isScimEnabled.mockReturnValue(true);
+			setConfig({ enabled: false });
+			await expect(scimService.authenticate(token)).rejects.toThrow(forbidden);
+		});
+	});
+
+	describe('updateSettings', () => {
+		it('should require a token before enabling SCIM', async () => {
+			setConfig({ enabled: false });
+
+			await expect(scimService.updateSettings({ enabled: true })).rejects.toThrow(
+				'Create a token before enabling SCIM provisioning',
+			);
+		});
+
+		it('should store the hash of a rotated token, not the token', async () => {
+			const newToken = await scimService.rotateToken();
+
+			const [{ value }] = settingsRepository.save.mock.calls[0] as [{ value: string }];
+			expect(newToken).toMatch(/^n8n_scim_/);
+			expect(value).not.toContain(newToken);
+			expect(value).toContain(createHash('sha256').update(newToken).digest('hex'));
+		});
+	});
+
+	describe('listUsers', () => {
+		it('should filter and paginate users', async () => {
+			userRepository.find.mockResolvedValue([
+				makeUser(),
+				makeUser({ id: 'user2', email: 'bob@n8n.io' }),
+				makeUser({ id: 'user3', email: 'carol@n8n.io' }),
+			]);
+
+			const response = await scimService.listUsers({
+				filter: 'userName ne "bob@n8n.io"',
+				startIndex: '2',
+				count: '5',
+				attributes: 'userName',
+			});
+
+			expect(response).toEqual({
+				schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
+				totalResults: 2,
+				startIndex: 2,
+				itemsPerPage: 1,
+				Resources: [
+					{
+						schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+						id: 'user3',
+						userName: 'carol@n8n.io',
+					},
+				],
+			});
+		});
+	});
+
+	describe('createUser', () => {
+		it('should create the user with the external ID of the identity provider', async () => {
+			const user = makeUser();
+			userRepository.findOneBy.mockResolvedValue(null);
+			authIdentityRepository.findOneBy.mockResolvedValue(null);
+			userRepository.createUserWithProject.mockResolvedValue({ user, project: mock() });
+			userRepository.findOne.mockResolvedValue(user);
+
+			const created = await scimService.createUser({
+				schemas: [],
+				userName: 'Alice@n8n.io',
+				externalId: 'entra-1',
+				name: { givenName: 'Alice', familyName: 'Smith' },
+				roles: [{ value: 'global:admin' }],
+			});
+
+			expect(userRepository.createUserWithProject).toHaveBeenCalledWith(
+				{
+					email: 'alice@n8n.io',
+					firstName: 'Alice',
+					lastName: 'Smith',
+					role: 'global:admin',
+					disabled: false,
+					password: 'hashed',
+				},
+				trx,
+			);
+			expect(trx.save).toHaveBeenCalledWith(
+				expect.objectContaining({ providerId: 'entra-1', providerType: 'scim' }),
+			);
+			expect(eventService.emit).toHaveBeenCalledWith('scim-user-provisioned', { user });
+			expect(created).toMatchObject({ id: 'user1', userName: 'alice@n8n.io', active: true });
+		});
+
+		it('should reject existing emails and unknown roles', async () => {
+			userRepository.findOneBy.mockResolvedValue(makeUser());
+			await expect(
+				scimService.createUser({ schemas: [], userName: 'alice@n8n.io' }),
+			).rejects.toThrow(
+				expect.objectContaining({ status: 409, scimType: 'uniqueness' }) as ScimError,
+			);
+
+			await expect(
+				scimService.createUser({
+					schemas: [],
+					userName: 'bob@n8n.io',
+					roles: [{ value: 'global:owner' }],
+				}),
+			).rejects.toThrow(
+				expect.objectContaining({ status: 400, scimType: 'invalidValue' }) as ScimError,
+			);
+			expect(userRepository.createUserWithProject).not.toHaveBeenCalled();
+		});
+
+		it('should reject passwords while users log in with SSO', async () => {
+			config.set('userManagement.authenticationMethod', 'saml');
+			userRepository.findOneBy.mockResolvedValue(null);
+
+			await expect(
+				scimService.createUser({ schemas: [], userName: 'bob@n8n.io', password: 'secret' }),
+			).rejects.toThrow(
+				expect.objectContaining({ status: 400, scimType: 'mutability' }) as ScimError,
+			);
+			expect(userRepository.createUserWithProject).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('patchUser', () => {
+		it('should deactivate the user', async () => {
+			const user = makeUser();
+			userRepository.findOne.mockResolvedValue(user);
+
+			await scimService.patchUser('user1', [{ op: 'replace', path: 'active', value: 'False' }]);
+
+			expect(trx.save).toHaveBeenCalledWith(expect.objectContaining({ disabled: true }));
+			expect(eventService.emit).toHaveBeenCalledWith('scim-user-updated', {
+				user,
+				fieldsChanged: ['active'],
+			});
+			expect(eventService.emit).toHaveBeenCalledWith('scim-user-deprovisioned', {
+				user,
+				removalType: 'disable',
+			});
+		});
+
+		it('should not deactivate the owner', async () => {
+			userRepository.findOne.mockResolvedValue(makeUser({ role: 'global:owner' }));
+
+			await expect(
+				scimService.patchUser('user1', [{ op: 'replace', value: { active: false } }]),
+			).rejects.toThrow(
+				expect.objectContaining({ status: 403, scimType: 'mutability' }) as ScimError,
+			);
+			expect(trx.save).not.toHaveBeenCalled();
+		});
+
+		it('should not change the email or password of the owner', async () => {
+			userRepository.findOne.mockResolvedValue(makeUser({ role: 'global:owner' }));
+
+			await expect(
+				scimService.patchUser('user1', [
+					{ op: 'replace', path: 'userName', value: 'mallory@n8n.io' },
+				]),
+			).rejects.toThrow(
+				expect.objectContaining({ status: 403, scimType: 'mutability' }) as ScimError,
+			);
+			await expect(
+				scimService.patchUser('user1', [{ op: 'replace', path: 'password', value: 'secret' }]),
+			).rejects.toThrow(
+				expect.objectContaining({ status: 403, scimType: 'mutability' }) as ScimError,
+			);
+			expect(trx.save).not.toHaveBeenCalled();
+		});
+
+		it('should set the password while users log in with email', async () => {
+			userRepository.findOne.mockResolvedValue(makeUser());
+
+			await scimService.patchUser('user1', [{ op: 'replace', path: 'password', value: 'secret' }]);
+
+			expect(passwordUtility.hash).toHaveBeenCalledWith('secret');
+			expect(trx.save).toHaveBeenCalledWith(expect.objectContaining({ password: 'hashed' }));
+		});
+
+		it('should reject passwords while users log in with SSO', async () => {
+			config.set('userManagement.authenticationMethod', 'oidc');
+			userRepository.findOne.mockResolvedValue(makeUser());
+
+			await expect(
+				scimService.patchUser('user1', [{ op: 'replace', path: 'password', value: 'secret' }]),
+			).rejects.toThrow(
+				expect.objectContaining({ status: 400, scimType: 'mutability' }) as ScimError,
+			);
+			expect(trx.save).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('deleteUser', () => {
+		it('should not delete the owner', async () => {
+			userRepository.findOne.mockResolvedValue(makeUser({ role: 'global:owner' }));
+
+			await expect(scimService.deleteUser('user1')).rejects.toThrow(
+				expect.objectContaining({ status: 403 }) as ScimError,
+			);
+			expect(trx.delete).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('createGroup', () => {
+		it('should create a team project with the members of the group', async () => {
+			const project = makeProject();
+			projectRepository.findOneBy.mockResolvedValue(null);
+			projectService.createTeamProject.mockResolvedValue(project);
+			userRepository.findManyByIds.mockResolvedValue([makeUser()]);
+			projectRepository.findOne.mockResolvedValue(project);
+
+			await scimService.createGroup({
+				schemas: [],
+				displayName: 'Engineering',
+				members: [{ value: 'user1' }],
+				[SCIM_N8N_GROUP_SCHEMA]: { projectRole: 'project:admin' },
+			});
+
+			expect(projectService.createTeamProject).toHaveBeenCalledWith('Engineering');
+			expect(projectService.syncProjectRelations).toHaveBeenCalledWith('project1', [
+				{ userId: 'user1', role: 'project:admin' },
+			]);
+			expect(settingsRepository.save).toHaveBeenCalledWith(
+				expect.objectContaining({
+					value: expect.stringContaining('"groupRoles":{"project1":"project:admin"}'),
+				}),
+				{ transaction: false },
+			);
+			expect(eventService.emit).toHaveBeenCalledWith('scim-group-created', {
+				projectId: 'project1',
+				displayName: 'Engineering',
+			});
+		});
+
+		it('should reject unknown members', async () => {
+			projectRepository.findOneBy.mockResolvedValue(null);
+			projectService.createTeamProject.mockResolvedValue(makeProject());
+			userRepository.findManyByIds.mockResolvedValue([]);
+
+			await expect(
+				scimService.createGroup({
+					schemas: [],
+					displayName: 'Engineering',
+					members: [{ value: 'x' }],
+				}),
+			).rejects.toThrow(expect.objectContaining({ status: 400 }) as ScimError);
+		});
+	});
+
+	describe('patchGroup', () => {
+		it('should add and remove members, keeping the roles of other members', async () => {
+			projectRepository.findOne.mockResolvedValue(
+				makeProject([
+					{ userId: 'user1', role: 'project:admin' },
+					{ userId: 'user2', role: 'project:editor' },
+				]),
+			);
+			userRepository.findManyByIds.mockResolvedValue([makeUser(), makeUser({ id: 'user3' })]);
+
+			await scimService.patchGroup('project1', [
+				{ op: 'add', path: 'members', value: [{ value: 'user3' }] },
+				{ op: 'remove', path: 'members[value eq "user2"]' },
+			]);
+
+			expect(projectService.syncProjectRelations).toHaveBeenCalledWith('project1', [
+				{ userId: 'user1', role: 'project:admin' },
+				{ userId: 'user3', role: 'project:editor' },
+			]);
+			expect(eventService.emit).toHaveBeenCalledWith('scim-group-updated', {
+				projectId: 'project1',
+				displayName: 'Engineering',
+				projectRole: 'project:editor',
+				membersAdded: ['user3'],
+				membersRemoved: ['user2'],
+			});
+		});
+
+		it('should remove all members when removing the members attribute', async () => {
+			projectRepository.findOne.mockResolvedValue(
+				makeProject([{ userId: 'user1', role: 'project:editor' }]),
+			);
+
+			await scimService.patchGroup('project1', [{ op: 'remove', path: 'members' }]);
+
+			expect(projectService.syncProjectRelations).toHaveBeenCalledWith('project1', []);
+		});
+	});
+});
@@ -0,0 +1,30 @@
+import type { ScimConfig } from './types';
+
+export const SCIM_FEATURE_NAME = 'features.scim';
+
+export const SCIM_TOKEN_PREFIX = 'n8n_scim_';
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+
+/** Extension to set the project role of the members of a group */
+export const SCIM_N8N_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:extension:n8n:2.0:Group';
+
+export const SCIM_LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+
+export const SCIM_PATCH_OP_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export const SCIM_MAX_RESULTS = 200;
+
+export const SCIM_DEFAULT_CONFIGURATION: ScimConfig = {
+	enabled: false,
+	tokenHash: null,
+	tokenCreatedAt: null,
+	defaultProjectRole: 'project:editor',
+	groupRoles: {},
+};
@@ -0,0 +1,273 @@
+import { ScimError } from './scim.error';
+
+type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+type FilterValue = string | number | boolean | null;
+
+/** Filter expression of RFC 7644, section 3.4.2.2 */
+export type ScimFilter =
+	| { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+	| { op: 'not'; filter: ScimFilter }
+	| { op: 'pr'; attribute: string }
+	| { op: CompareOperator; attribute: string; value: FilterValue }
+	| { op: 'valuePath'; attribute: string; filter: ScimFilter };
+
+type Token = { type: 'word' | 'string' | '(' | ')' | '[' | ']'; value: string };
+
+const COMPARE_OPERATORS = new Set<string>(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le']);
+
+/** Attributes compared case-sensitively, all others are compared case-insensitively */
+const CASE_EXACT_ATTRIBUTES = new Set(['id', 'externalid']);
+
+const invalidFilter = (message: string) => new ScimError(400, message, 'invalidFilter');
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+	while (position < input.length) {
+		const char = input[position];
+		if (/\s/.test(char)) {
+			position++;
+		} else if (char === '(' || char === ')' || char === '[' || char === ']') {
+			tokens.push({ type: char, value: char });
+			position++;
+		} else if (char === '"') {
+			let end = position + 1;
+			while (end < input.length && input[end] !== '"') end += input[end] === '\\' ? 2 : 1;
+			if (end >= input.length) throw invalidFilter('The filter has an unterminated string.');
+			try {
+				tokens.push({
+					type: 'string',
+					value: JSON.parse(input.slice(position, end + 1)) as string,
+				});
+			} catch {
+				throw invalidFilter('The filter has an invalid string.');
+			}
+			position = end + 1;
+		} else {
+			let end = position;
+			while (end < input.length && !/[\s()[\]"]/.test(input[end])) end++;
+			tokens.push({ type: 'word', value: input.slice(position, end) });
+			position = end;
+		}
+	}
+	return tokens;
+}
+
+function parseValue(token: Token | undefined): FilterValue {
+	if (token?.type === 'string') return token.value;
+	if (token?.type === 'word') {
+		const value = token.value.toLowerCase();
+		if (value === 'true') return true;
+		if (value === 'false') return false;
+		if (value === 'null') return null;
+		if (value !== '' && !isNaN(Number(value))) return Number(value);
+	}
+	throw invalidFilter(`The filter has an invalid value${token ? ` "${token.value}"` : ''}.`);
+}
+
+class FilterParser {
+	private position = 0;
+
+	constructor(private readonly tokens: Token[]) {}
+
+	parse(): ScimFilter {
+		const filter = this.parseOr();
+		if (this.position < this.tokens.length) {
+			throw invalidFilter(`The filter has an unexpected "${this.tokens[this.position].value}".`);
+		}
+		return filter;
+	}
+
+	private isKeyword(token: Token | undefined, keyword: string) {
+		return token?.type === 'word' && token.value.toLowerCase() === keyword;
+	}
+
+	private expect(type: Token['type']) {
+		if (this.tokens[this.position]?.type !== type) {
+			throw invalidFilter(`The filter is missing "${type}".`);
+		}
+		this.position++;
+	}
+
+	private parseOr(): ScimFilter {
+		let left = this.parseAnd();
+		while (this.isKeyword(this.tokens[this.position], 'or')) {
+			this.position++;
+			left = { op: 'or', left, right: this.parseAnd() };
+		}
+		return left;
+	}
+
+	private parseAnd(): ScimFilter {
+		let left = this.parseExpression();
+		while (this.isKeyword(this.tokens[this.position], 'and')) {
+			this.position++;
+			left = { op: 'and', left, right: this.parseExpression() };
+		}
+		return left;
+	}
+
+	private parseExpression(): ScimFilter {
+		const token = this.tokens[this.position++];
+		if (!token) throw invalidFilter('The filter ended unexpectedly.');
+
+		if (this.isKeyword(token, 'not')) {
+			this.expect('(');
+			const filter = this.parseOr();
+			this.expect(')');
+			return { op: 'not', filter };
+		}
+
+		if (token.type === '(') {
+			const filter = this.parseOr();
+			this.expect(')');
+			return filter;
+		}
+
+		if (token.type !== 'word') {
+			throw invalidFilter(`The filter has an unexpected "${token.value}".`);
+		}
+		const attribute = token.value;
+
+		if (this.tokens[this.position]?.type === '[') {
+			this.position++;
+			const filter = this.parseOr();
+			this.expect(']');
+			return { op: 'valuePath', attribute, filter };
+		}
+
+		const operator = this.tokens[this.position++];
+		const op = operator?.type === 'word' ? operator.value.toLowerCase() : undefined;
+		if (op === 'pr') return { op, attribute };
+		if (!op || !COMPARE_OPERATORS.has(op)) {
+			throw invalidFilter(`The filter has an unknown operator "${operator?.value ?? ''}".`);
+		}
+		return {
+			op: op as CompareOperator,
+			attribute,
+			value: parseValue(this.tokens[this.position++]),
+		};
+	}
+}
+
+export function parseFilter(input: string): ScimFilter {
+	return new FilterParser(tokenize(input)).parse();
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Key of an attribute of the object, as attribute names are case-insensitive */
+export function findKey(object: Record<string, unknown>, name: string): string {
+	const lowerCaseName = name.toLowerCase();
+	return Object.keys(object).find((key) => key.toLowerCase() === lowerCaseName) ?? name;
+}
+
+/** Schema and names of an attribute path, e.g. `name.givenName` or `urn:...:User:userName` */
+export function parseAttributePath(path: string): { schema?: string; names: string[] } {
+	if (!path.toLowerCase().startsWith('urn:')) return { names: path.split('.') };
+	const index = path.lastIndexOf(':');
+	return { schema: path.slice(0, index), names: path.slice(index + 1).split('.') };
+}
+
+/** Whether the schema is the core schema of the resource, its attributes being at the top level */
+export function isCoreSchema(resource: Record<string, unknown>, schema: string) {
+	const [coreSchema] = (resource.schemas ?? []) as string[];
+	return coreSchema?.toLowerCase() === schema.toLowerCase();
+}
+
+/** Values of the attribute of the resource, flattening multi-valued attributes */
+export function getAttributeValues(
+	resource: Record<string, unknown>,
+	attribute: string,
+): unknown[] {
+	const { schema, names } = parseAttributePath(attribute);
+	let values: unknown[] = [
+		schema && !isCoreSchema(resource, schema) ? resource[findKey(resource, schema)] : resource,
+	];
+	for (const name of names) {
+		values = values.flatMap((value) => {
+			const property = isObject(value) ? value[findKey(value, name)] : undefined;
+			return Array.isArray(property) ? (property as unknown[]) : [property];
+		});
+	}
+	return values.filter((value) => value !== undefined && value !== null);
+}
+
+function compareValue(
+	actual: unknown,
+	op: Exclude<CompareOperator, 'ne'>,
+	expected: FilterValue,
+	caseExact: boolean,
+): boolean {
+	// multi-valued attributes are compared by their `value` sub-attribute, e.g. `emails co "@n8n.io"`
+	if (isObject(actual)) actual = actual[findKey(actual, 'value')];
+
+	if (typeof expected === 'boolean' || typeof actual === 'boolean') {
+		return op === 'eq' && String(actual).toLowerCase() === String(expected);
+	}
+
+	let left: string | number;
+	let right: string | number;
+	if (typeof expected === 'number') {
+		left = Number(actual);
+		right = expected;
+		if (isNaN(left)) return false;
+	} else if (typeof actual === 'string' && typeof expected === 'string') {
+		left = caseExact ? actual : actual.toLowerCase();
+		right = caseExact ? expected : expected.toLowerCase();
+	} else {
+		return false;
+	}
+
+	switch (op) {
+		case 'eq':
+			return left === right;
+		case 'co':
+			return String(left).includes(String(right));
+		case 'sw':
+			return String(left).startsWith(String(right));
+		case 'ew':
+			return String(left).endsWith(String(right));
+		case 'gt':
+			return left > right;
+		case 'ge':
+			return left >= right;
+		case 'lt':
+			return left < right;
+		case 'le':
+			return left <= right;
+	}
+}
+
+export function matchesFilter(resource: Record<string, unknown>, filter: ScimFilter): boolean {
+	switch (filter.op) {
+		case 'and':
+			return matchesFilter(resource, filter.left) && matchesFilter(resource, filter.right);
+		case 'or':
+			return matchesFilter(resource, filter.left) || matchesFilter(resource, filter.right);
+		case 'not':
+			return !matchesFilter(resource, filter.filter);
+		case 'pr':
+			return getAttributeValues(resource, filter.attribute).some((value) => value !== '');
+		case 'valuePath':
+			return getAttributeValues(resource, filter.attribute).some(
+				(element) => isObject(element) && matchesFilter(element, filter.filter),
+			);
+		default: {
+			const values = getAttributeValues(resource, filter.attribute);
+			if (filter.value === null) {
+				return filter.op === 'eq' ? values.length === 0 : filter.op === 'ne' && values.length > 0;
+			}
+
+			const { names } = parseAttributePath(filter.attribute);
+			const caseExact = CASE_EXACT_ATTRIBUTES.has(names[names.length - 1].toLowerCase());
+			if (filter.op === 'ne') {
+				return !values.some((value) => compareValue(value, 'eq', filter.value, caseExact));
+			}
+			const op = filter.op;
+			return values.some((value) => compareValue(value, op, filter.value, caseExact));
+		}
+	}
+}
@@ -0,0 +1,192 @@
+import cloneDeep from 'lodash/cloneDeep';
+import isEqual from 'lodash/isEqual';
+
+import {
+	findKey,
+	isCoreSchema,
+	isObject,
+	matchesFilter,
+	parseAttributePath,
+	parseFilter,
+	type ScimFilter,
+} from './scim-filter';
+import { ScimError } from './scim.error';
+import type { ScimPatchOperation, ScimResource } from './types';
+
+type PatchOp = 'add' | 'replace' | 'remove';
+
+interface PatchPath {
+	/** Keys from the resource to the attribute, starting with the schema for extensions */
+	keys: string[];
+	/** Filter selecting values of a multi-valued attribute, e.g. `members[value eq "1"]` */
+	filter?: ScimFilter;
+	/** Sub-attribute of the selected values, e.g. `emails[type eq "work"].value` */
+	subAttribute?: string;
+}
+
+function parsePatchPath(resource: Record<string, unknown>, path: string): PatchPath {
+	const valuePath = /^([^[]+)\[(.*)\](?:\.(.+))?$/s.exec(path);
+	const { schema, names } = parseAttributePath(valuePath ? valuePath[1] : path);
+	const keys = schema && !isCoreSchema(resource, schema) ? [schema, ...names] : names;
+
+	if (keys.some((key) => !key)) {
+		throw new ScimError(400, `The path "${path}" is invalid.`, 'invalidPath');
+	}
+	if (!valuePath) return { keys };
+	return { keys, filter: parseFilter(valuePath[2]), subAttribute: valuePath[3] };
+}
+
+/** Object containing the attribute at the keys, created along the way unless removing */
+function getContainer(resource: Record<string, unknown>, keys: string[], create: boolean) {
+	let container = resource;
+	for (const name of keys) {
+		const key = findKey(container, name);
+		if (!isObject(container[key])) {
+			if (!create) return undefined;
+			container[key] = {};
+		}
+		container = container[key] as Record<string, unknown>;
+	}
+	return container;
+}
+
+const getValue = (element: Record<string, unknown>) => element[findKey(element, 'value')];
+
+const isSameValue = (a: unknown, b: unknown) =>
+	isObject(a) && isObject(b) && getValue(a) !== undefined
+		? getValue(a) === getValue(b)
+		: isEqual(a, b);
+
+function applyFilteredOperation(
+	parent: Record<string, unknown>,
+	key: string,
+	op: PatchOp,
+	{ filter, subAttribute }: { filter: ScimFilter; subAttribute?: string },
+	value: unknown,
+	path: string,
+) {
+	const elements = Array.isArray(parent[key]) ? (parent[key] as unknown[]) : [];
+	const matching = elements.filter(
+		(element): element is Record<string, unknown> =>
+			isObject(element) && matchesFilter(element, filter),
+	);
+
+	if (op === 'remove') {
+		if (subAttribute) {
+			for (const element of matching) delete element[findKey(element, subAttribute)];
+		} else {
+			parent[key] = elements.filter((element) => !matching.includes(element as never));
+		}
+		return;
+	}
+
+	if (matching.length === 0) {
+		// Adding to a value which does not exist yet, e.g. `emails[type eq "work"].value`
+		if (op === 'add' && filter.op === 'eq' && typeof filter.value === 'string') {
+			const element: Record<string, unknown> = { [filter.attribute]: filter.value };
+			if (subAttribute) element[subAttribute] = value;
+			else if (isObject(value)) Object.assign(element, value);
+			parent[key] = [...elements, element];
+			return;
+		}
+		throw new ScimError(400, `No values match the path "${path}".`, 'noTarget');
+	}
+
+	for (const element of matching) {
+		if (subAttribute) {
+			element[findKey(element, subAttribute)] = value;
+		} else if (isObject(value)) {
+			Object.assign(element, value);
+		} else {
+			throw new ScimError(400, `The value for the path "${path}" is invalid.`, 'invalidValue');
+		}
+	}
+}
+
+function applyOperation(
+	resource: Record<string, unknown>,
+	op: PatchOp,
+	path: string,
+	value: unknown,
+) {
+	const patchPath = parsePatchPath(resource, path);
+	const parent = getContainer(resource, patchPath.keys.slice(0, -1), op !== 'remove');
+	if (!parent) return;
+	const key = findKey(parent, patchPath.keys[patchPath.keys.length - 1]);
+
+	if (patchPath.filter) {
+		const { filter, subAttribute } = patchPath;
+		applyFilteredOperation(parent, key, op, { filter, subAttribute }, value, path);
+		return;
+	}
+
+	const existing = parent[key];
+
+	if (op === 'remove') {
+		// Removing some values of a multi-valued attribute, as e.g. Entra ID does for group members
+		if (Array.isArray(existing) && Array.isArray(value)) {
+			parent[key] = existing.filter(
+				(element) => !value.some((removed) => isSameValue(element, removed)),
+			);
+		} else {
+			delete parent[key];
+		}
+		return;
+	}
+
+	if (op === 'add' && Array.isArray(existing)) {
+		const current = existing as unknown[];
+		const added = Array.isArray(value) ? (value as unknown[]) : [value];
+		parent[key] = [
+			...current,
+			...added.filter((element) => !current.some((other) => isSameValue(other, element))),
+		];
+	} else if (isObject(existing) && isObject(value)) {
+		// sub-attributes not in the value are left unchanged, for both `add` and `replace`
+		Object.assign(existing, value);
+	} else {
+		parent[key] = value;
+	}
+}
+
+/**
+ * Apply the operations of a PATCH request to a copy of the resource, see RFC 7644, section 3.5.2.
+ * Attributes the resource does not support are kept, for the caller to ignore.
+ */
+export function applyPatchOperations<T extends ScimResource>(
+	resource: T,
+	operations: ScimPatchOperation[],
+): T {
+	const patched = cloneDeep(resource) as unknown as Record<string, unknown>;
+
+	for (const operation of operations) {
+		const op = String(operation.op).toLowerCase();
+		if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+			throw new ScimError(400, `The operation "${operation.op}" is unknown.`, 'invalidSyntax');
+		}
+
+		if (operation.path) {
+			applyOperation(patched, op, operation.path, operation.value);
+			continue;
+		}
+
+		if (op === 'remove') {
+			throw new ScimError(400, 'A remove operation requires a path.', 'noTarget');
+		}
+		if (!isObject(operation.value)) {
+			throw new ScimError(400, 'An operation without a path requires an object.', 'invalidValue');
+		}
+		for (const [path, value] of Object.entries(operation.value)) {
+			if (path.toLowerCase().startsWith('urn:') && isObject(value)) {
+				// attributes of an extension, e.g. `{ "urn:...:n8n:2.0:Group": { "projectRole": "..." } }`
+				for (const [name, subValue] of Object.entries(value)) {
+					applyOperation(patched, op, `${path}:${name}`, subValue);
+				}
+			} else {
+				applyOperation(patched, op, path, value);
+			}
+		}
+	}
+
+	return patched as unknown as T;
+}
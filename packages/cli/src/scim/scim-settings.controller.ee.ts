@@ -0,0 +1,35 @@
+import { GlobalScope, Get, Licensed, Post, RestController } from '@/decorators';
+
+import { ScimService } from './scim.service.ee';
+import { ScimConfiguration } from './types';
+
+/** Settings of SCIM provisioning, managed by instance owners and admins */
+@RestController('/scim')
+export class ScimSettingsController {
+	constructor(private readonly scimService: ScimService) {}
+
+	@Get('/config')
+	@Licensed('feat:scim')
+	@GlobalScope('scim:manage')
+	async getConfig() {
+		return await this.scimService.getSettings();
+	}
+
+	@Post('/config')
+	@Licensed('feat:scim')
+	@GlobalScope('scim:manage')
+	async updateConfig(req: ScimConfiguration.Update) {
+		return await this.scimService.updateSettings(req.body);
+	}
+
+	/**
+	 * Create a token for the identity provider, replacing the previous one.
+	 * The token is only returned once.
+	 */
+	@Post('/config/token')
+	@Licensed('feat:scim')
+	@GlobalScope('scim:manage')
+	async rotateToken() {
+		return { token: await this.scimService.rotateToken() };
+	}
+}
@@ -0,0 +1,264 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { Delete, Get, Middleware, Patch, Post, Put, RestController } from '@/decorators';
+import { ResponseError } from '@/errors/response-errors/abstract/response.error';
+import { Logger } from '@/Logger';
+import { isEmailCurrentAuthenticationMethod } from '@/sso/ssoHelpers';
+
+import {
+	SCIM_CONTENT_TYPE,
+	SCIM_ERROR_SCHEMA,
+	SCIM_GROUP_SCHEMA,
+	SCIM_LIST_RESPONSE_SCHEMA,
+	SCIM_MAX_RESULTS,
+	SCIM_N8N_GROUP_SCHEMA,
+	SCIM_PATCH_OP_SCHEMA,
+	SCIM_USER_SCHEMA,
+} from './constants';
+import { ScimError } from './scim.error';
+import { ScimService } from './scim.service.ee';
+import { ScimRequest } from './types';
+
+const SCIM_OPTIONS = { skipAuth: true, usesTemplates: true } as const;
+
+/**
+ * Endpoints of the SCIM 2.0 protocol (RFC 7644), called by identity providers
+ * to provision users and groups. Requests are authenticated with a bearer token.
+ */
+@RestController('/scim/v2')
+export class ScimController {
+	constructor(
+		private readonly logger: Logger,
+		private readonly scimService: ScimService,
+	) {}
+
+	@Middleware()
+	async authenticate(req: Request, res: Response, next: NextFunction) {
+		const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+		try {
+			await this.scimService.authenticate(scheme?.toLowerCase() === 'bearer' ? token : undefined);
+			next();
+		} catch (error) {
+			this.sendError(res, error);
+		}
+	}
+
+	// #region Discovery
+
+	@Get('/ServiceProviderConfig', SCIM_OPTIONS)
+	async getServiceProviderConfig(_req: Request, res: Response) {
+		await this.respond(res, 200, async () => ({
+			schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+			patch: { supported: true },
+			bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+			filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+			changePassword: { supported: isEmailCurrentAuthenticationMethod() },
+			sort: { supported: false },
+			etag: { supported: false },
+			authenticationSchemes: [
+				{
+					type: 'oauthbearertoken',
+					name: 'Bearer token',
+					description: 'Authentication with the token created in the SCIM settings of n8n',
+					primary: true,
+				},
+			],
+			meta: { resourceType: 'ServiceProviderConfig' },
+		}));
+	}
+
+	@Get('/ResourceTypes', SCIM_OPTIONS)
+	async getResourceTypes(_req: Request, res: Response) {
+		const resourceTypes = [
+			{ id: 'User', endpoint: '/Users', schema: SCIM_USER_SCHEMA },
+			{
+				id: 'Group',
+				endpoint: '/Groups',
+				schema: SCIM_GROUP_SCHEMA,
+				schemaExtensions: [{ schema: SCIM_N8N_GROUP_SCHEMA, required: false }],
+			},
+		].map((resourceType) => ({
+			schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
+			name: resourceType.id,
+			...resourceType,
+		}));
+		await this.respond(res, 200, async () => this.toListResponse(resourceTypes));
+	}
+
+	@Get('/Schemas', SCIM_OPTIONS)
+	async getSchemas(_req: Request, res: Response) {
+		const schemas = [
+			{ id: SCIM_USER_SCHEMA, name: 'User' },
+			{ id: SCIM_GROUP_SCHEMA, name: 'Group' },
+			{
+				id: SCIM_N8N_GROUP_SCHEMA,
+				name: 'n8n Group',
+				attributes: [
+					{
+						name: 'projectRole',
+						type: 'string',
+						multiValued: false,
+						required: false,
+						canonicalValues: ['project:admin', 'project:editor', 'project:viewer'],
+					},
+				],
+			},
+		].map((schema) => ({ schemas: ['urn:ietf:params:scim:schemas:core:2.0:Schema'], ...schema }));
+		await this.respond(res, 200, async () => this.toListResponse(schemas));
+	}
+
+	// #endregion
+
+	// #region Users
+
+	@Get('/Users', SCIM_OPTIONS)
+	async listUsers(req: ScimRequest.List, res: Response) {
+		await this.respond(res, 200, async () => await this.scimService.listUsers(req.query));
+	}
+
+	@Get('/Users/:id', SCIM_OPTIONS)
+	async getUser(req: ScimRequest.Get, res: Response) {
+		await this.respond(
+			res,
+			200,
+			async () => await this.scimService.getUser(req.params.id, req.query),
+		);
+	}
+
+	@Post('/Users', SCIM_OPTIONS)
+	async createUser(req: ScimRequest.CreateUser, res: Response) {
+		await this.respond(res, 201, async () => await this.scimService.createUser(req.body));
+	}
+
+	@Put('/Users/:id', SCIM_OPTIONS)
+	async replaceUser(req: ScimRequest.ReplaceUser, res: Response) {
+		await this.respond(
+			res,
+			200,
+			async () => await this.scimService.replaceUser(req.params.id, req.body),
+		);
+	}
+
+	@Patch('/Users/:id', SCIM_OPTIONS)
+	async patchUser(req: ScimRequest.Patch, res: Response) {
+		await this.respond(
+			res,
+			200,
+			async () => await this.scimService.patchUser(req.params.id, this.getOperations(req)),
+		);
+	}
+
+	@Delete('/Users/:id', SCIM_OPTIONS)
+	async deleteUser(req: ScimRequest.Delete, res: Response) {
+		await this.respond(res, 204, async () => await this.scimService.deleteUser(req.params.id));
+	}
+
+	// #endregion
+
+	// #region Groups
+
+	@Get('/Groups', SCIM_OPTIONS)
+	async listGroups(req: ScimRequest.List, res: Response) {
+		await this.respond(res, 200, async () => await this.scimService.listGroups(req.query));
+	}
+
+	@Get('/Groups/:id', SCIM_OPTIONS)
+	async getGroup(req: ScimRequest.Get, res: Response) {
+		await this.respond(
+			res,
+			200,
+			async () => await this.scimService.getGroup(req.params.id, req.query),
+		);
+	}
+
+	@Post('/Groups', SCIM_OPTIONS)
+	async createGroup(req: ScimRequest.CreateGroup, res: Response) {
+		await this.respond(res, 201, async () => await this.scimService.createGroup(req.body));
+	}
+
+	@Put('/Groups/:id', SCIM_OPTIONS)
+	async replaceGroup(req: ScimRequest.ReplaceGroup, res: Response) {
+		await this.respond(
+			res,
+			200,
+			async () => await this.scimService.replaceGroup(req.params.id, req.body),
+		);
+	}
+
+	@Patch('/Groups/:id', SCIM_OPTIONS)
+	async patchGroup(req: ScimRequest.Patch, res: Response) {
+		await this.respond(
+			res,
+			200,
+			async () => await this.scimService.patchGroup(req.params.id, this.getOperations(req)),
+		);
+	}
+
+	@Delete('/Groups/:id', SCIM_OPTIONS)
+	async deleteGroup(req: ScimRequest.Delete, res: Response) {
+		await this.respond(res, 204, async () => await this.scimService.deleteGroup(req.params.id));
+	}
+
+	// #endregion
+
+	private getOperations(req: ScimRequest.Patch) {
+		const { schemas, Operations } = req.body ?? {};
+		if (!schemas?.includes(SCIM_PATCH_OP_SCHEMA) || !Array.isArray(Operations)) {
+			throw new ScimError(400, 'The request is not a valid PatchOp request.', 'invalidSyntax');
+		}
+		return Operations;
+	}
+
+	private toListResponse<T>(resources: T[]) {
+		return {
+			schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+			totalResults: resources.length,
+			startIndex: 1,
+			itemsPerPage: resources.length,
+			Resources: resources,
+		};
+	}
+
+	/** Send the result of the handler, or the error it threw, as SCIM response */
+	private async respond(res: Response, status: number, handler: () => Promise<unknown>) {
+		try {
+			const body = await handler();
+			res.status(status);
+			if (status === 204) {
+				res.end();
+			} else {
+				res.type(SCIM_CONTENT_TYPE).send(JSON.stringify(body));
+			}
+		} catch (error) {
+			this.sendError(res, error);
+		}
+	}
+
+	private sendError(res: Response, error: unknown) {
+		let status = 500;
+		let detail = 'An unexpected error occurred.';
+		let scimType: string | undefined;
+
+		if (error instanceof ScimError) {
+			({ status, scimType } = error);
+			detail = error.message;
+		} else if (error instanceof ResponseError) {
+			status = error.httpStatusCode;
+			detail = error.message;
+		} else {
+			this.logger.error('SCIM request failed', { error });
+		}
+
+		res
+			.status(status)
+			.type(SCIM_CONTENT_TYPE)
+			.send(
+				JSON.stringify({
+					schemas: [SCIM_ERROR_SCHEMA],
+					status: String(status),
+					...(scimType ? { scimType } : {}),
+					detail,
+				}),
+			);
+	}
+}
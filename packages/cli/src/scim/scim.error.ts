@@ -0,0 +1,22 @@
+import { ApplicationError } from 'n8n-workflow';
+
+/** Error types of RFC 7644, section 3.12 */
+export type ScimErrorType =
+	| 'invalidFilter'
+	| 'tooMany'
+	| 'uniqueness'
+	| 'mutability'
+	| 'invalidSyntax'
+	| 'invalidPath'
+	| 'noTarget'
+	| 'invalidValue';
+
+export class ScimError extends ApplicationError {
+	constructor(
+		readonly status: number,
+		message: string,
+		readonly scimType?: ScimErrorType,
+	) {
+		super(message, { level: 'warning' });
+	}
+}
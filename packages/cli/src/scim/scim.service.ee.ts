@@ -0,0 +1,773 @@
+import { Service } from 'typedi';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import pickBy from 'lodash/pickBy';
+import validator from 'validator';
+import { jsonParse, randomString } from 'n8n-workflow';
+import { GlobalConfig } from '@n8n/config';
+
+import { AuthIdentity } from '@db/entities/AuthIdentity';
+import { Project } from '@db/entities/Project';
+import { User, type AssignableRole } from '@db/entities/User';
+import { AuthIdentityRepository } from '@db/repositories/authIdentity.repository';
+import { ProjectRepository } from '@db/repositories/project.repository';
+import { SettingsRepository } from '@db/repositories/settings.repository';
+import { UserRepository } from '@db/repositories/user.repository';
+import { CredentialsService } from '@/credentials/credentials.service';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import { EventService } from '@/events/event.service';
+import { License } from '@/License';
+import { Logger } from '@/Logger';
+import { OwnershipService } from '@/services/ownership.service';
+import { PasswordUtility } from '@/services/password.utility';
+import {
+	ProjectService,
+	TeamProjectOverQuotaError,
+	UnlicensedProjectRoleError,
+} from '@/services/project.service';
+import { RoleService } from '@/services/role.service';
+import { UrlService } from '@/services/url.service';
+import { isEmailCurrentAuthenticationMethod } from '@/sso/ssoHelpers';
+import { WorkflowService } from '@/workflows/workflow.service';
+
+import {
+	SCIM_DEFAULT_CONFIGURATION,
+	SCIM_FEATURE_NAME,
+	SCIM_GROUP_SCHEMA,
+	SCIM_LIST_RESPONSE_SCHEMA,
+	SCIM_MAX_RESULTS,
+	SCIM_N8N_GROUP_SCHEMA,
+	SCIM_TOKEN_PREFIX,
+	SCIM_USER_SCHEMA,
+} from './constants';
+import { findKey, isObject, matchesFilter, parseAttributePath, parseFilter } from './scim-filter';
+import { applyPatchOperations } from './scim-patch';
+import { ScimError } from './scim.error';
+import type {
+	ScimConfig,
+	ScimGroup,
+	ScimListQuery,
+	ScimListResponse,
+	ScimMeta,
+	ScimPatchOperation,
+	ScimResource,
+	ScimUser,
+	TeamProjectRole,
+} from './types';
+
+const TEAM_PROJECT_ROLES: TeamProjectRole[] = ['project:admin', 'project:editor', 'project:viewer'];
+
+const ASSIGNABLE_ROLES: AssignableRole[] = ['global:admin', 'global:member'];
+
+/** Attributes returned regardless of the `attributes` and `excludedAttributes` of a request */
+const ALWAYS_RETURNED_ATTRIBUTES = new Set(['schemas', 'id']);
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+@Service()
+export class ScimService {
+	constructor(
+		private readonly logger: Logger,
+		private readonly globalConfig: GlobalConfig,
+		private readonly license: License,
+		private readonly settingsRepository: SettingsRepository,
+		private readonly userRepository: UserRepository,
+		private readonly authIdentityRepository: AuthIdentityRepository,
+		private readonly projectRepository: ProjectRepository,
+		private readonly projectService: ProjectService,
+		private readonly roleService: RoleService,
+		private readonly ownershipService: OwnershipService,
+		private readonly workflowService: WorkflowService,
+		private readonly credentialsService: CredentialsService,
+		private readonly passwordUtility: PasswordUtility,
+		private readonly urlService: UrlService,
+		private readonly eventService: EventService,
+	) {}
+
+	// #region Configuration
+
+	/** Read from the database on every request, to stay in sync across main instances */
+	async loadConfig(): Promise<ScimConfig> {
+		const setting = await this.settingsRepository.findOneBy({ key: SCIM_FEATURE_NAME });
+		return {
+			...SCIM_DEFAULT_CONFIGURATION,
+			groupRoles: {},
+			...(setting ? jsonParse<Partial<ScimConfig>>(setting.value) : {}),
+		};
+	}
+
+	private async saveConfig(config: ScimConfig) {
+		await this.settingsRepository.save(
+			{ key: SCIM_FEATURE_NAME, value: JSON.stringify(config), loadOnStartup: false },
+			{ transaction: false },
+		);
+	}
+
+	getBaseUrl() {
+		return `${this.urlService.getInstanceBaseUrl()}/${this.globalConfig.endpoints.rest}/scim/v2`;
+	}
+
+	/** Configuration without the token hash, to show in the settings */
+	async getSettings() {
+		const { enabled, tokenHash, tokenCreatedAt, defaultProjectRole } = await this.loadConfig();
+		return {
+			enabled,
+			hasToken: tokenHash !== null,
+			tokenCreatedAt,
+			defaultProjectRole,
+			baseUrl: this.getBaseUrl(),
+		};
+	}
+
+	async updateSettings(update: Partial<Pick<ScimConfig, 'enabled' | 'defaultProjectRole'>>) {
+		const config = await this.loadConfig();
+
+		if (update.defaultProjectRole !== undefined) {
+			if (!TEAM_PROJECT_ROLES.includes(update.defaultProjectRole)) {
+				throw new BadRequestError(`Unknown project role "${update.defaultProjectRole}"`);
+			}
+			config.defaultProjectRole = update.defaultProjectRole;
+		}
+
+		if (update.enabled !== undefined) {
+			if (update.enabled && config.tokenHash === null) {
+				throw new BadRequestError('Create a token before enabling SCIM provisioning');
+			}
+			config.enabled = update.enabled;
+		}
+
+		await this.saveConfig(config);
+		return await this.getSettings();
+	}
+
+	/** Create a token for the identity provider, replacing the previous one */
+	async rotateToken() {
+		const token = SCIM_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+		const config = await this.loadConfig();
+		config.tokenHash = hashToken(token);
+		config.tokenCreatedAt = new Date().toISOString();
+		await this.saveConfig(config);
+		return token;
+	}
+
+	/** Check the bearer token of a SCIM request */
+	async authenticate(token: string | undefined) {
+		if (!this.license.isScimEnabled()) {
+			throw new ScimError(403, 'SCIM provisioning is not licensed.');
+		}
+
+		const { enabled, tokenHash } = await this.loadConfig();
+		if (!enabled) {
+			throw new ScimError(403, 'SCIM provisioning is disabled.');
+		}
+
+		const isValid =
+			tokenHash !== null &&
+			token !== undefined &&
+			timingSafeEqual(Buffer.from(hashToken(token)), Buffer.from(tokenHash));
+		if (!isValid) {
+			throw new ScimError(401, 'The bearer token is invalid.');
+		}
+	}
+
+	// #endregion
+
+	// #region Users
+
+	async listUsers(query: ScimListQuery): Promise<ScimListResponse<ScimUser>> {
+		const users = await this.userRepository.find({
+			relations: { authIdentities: true, projectRelations: { project: true } },
+			order: { createdAt: 'ASC' },
+		});
+		return this.toListResponse(
+			users.map((user) => this.toScimUser(user)),
+			query,
+		);
+	}
+
+	async getUser(id: string, query: ScimListQuery = {}): Promise<ScimUser> {
+		return this.selectAttributes(this.toScimUser(await this.findUser(id)), query);
+	}
+
+	async createUser(resource: ScimUser): Promise<ScimUser> {
+		const { email, firstName, lastName, role, active, externalId, password } =
+			this.getUserAttributes(resource);
+		this.assertPasswordCanBeSet(password);
+
+		if (await this.userRepository.findOneBy({ email })) {
+			throw new ScimError(409, `A user with the email "${email}" already exists.`, 'uniqueness');
+		}
+		if (externalId) await this.assertExternalIdIsAvailable(externalId);
+		if (!this.license.isWithinUsersLimit()) {
+			throw new ScimError(403, 'The maximum number of users of the license has been reached.');
+		}
+
+		const user = await this.userRepository.manager.transaction(async (trx) => {
+			const { user: newUser } = await this.userRepository.createUserWithProject(
+				{
+					email,
+					firstName: firstName ?? '',
+					lastName: lastName ?? '',
+					role: role ?? 'global:member',
+					disabled: active === false,
+					// unless set by the identity provider, a password not known to the user, who logs in with SSO
+					password: await this.passwordUtility.hash(password ?? randomString(18)),
+				},
+				trx,
+			);
+			if (externalId) {
+				await trx.save(AuthIdentity.create(newUser, externalId, 'scim'));
+			}
+			return newUser;
+		});
+
+		this.logger.debug('SCIM provisioned user', { userId: user.id });
+		this.eventService.emit('scim-user-provisioned', { user });
+
+		return await this.getUser(user.id);
+	}
+
+	async replaceUser(id: string, resource: ScimUser): Promise<ScimUser> {
+		const user = await this.findUser(id);
+		const { email, firstName, lastName, role, active, externalId, password } =
+			this.getUserAttributes(resource, user.role);
+		const fieldsChanged: string[] = [];
+
+		if (user.role === 'global:owner') {
+			this.assertOwnerIsUnchanged(user, { email, active, password });
+		}
+		this.assertPasswordCanBeSet(password);
+
+		if (email !== user.email) {
+			const existing = await this.userRepository.findOneBy({ email });
+			if (existing && existing.id !== user.id) {
+				throw new ScimError(409, `A user with the email "${email}" already exists.`, 'uniqueness');
+			}
+			user.email = email;
+			fieldsChanged.push('email');
+		}
+		if (firstName !== undefined && firstName !== user.firstName) {
+			user.firstName = firstName;
+			fieldsChanged.push('firstName');
+		}
+		if (lastName !== undefined && lastName !== user.lastName) {
+			user.lastName = lastName;
+			fieldsChanged.push('lastName');
+		}
+
+		if (user.role !== 'global:owner') {
+			if (role !== undefined && role !== user.role) {
+				user.role = role;
+				fieldsChanged.push('role');
+			}
+			if (active !== undefined && active === user.disabled) {
+				user.disabled = !active;
+				fieldsChanged.push('active');
+			}
+		}
+
+		if (password !== undefined) {
+			user.password = await this.passwordUtility.hash(password);
+			fieldsChanged.push('password');
+		}
+
+		const currentExternalId = user.authIdentities.find(
+			(identity) => identity.providerType === 'scim',
+		)?.providerId;
+		if (externalId !== undefined && externalId !== currentExternalId) {
+			await this.assertExternalIdIsAvailable(externalId);
+			fieldsChanged.push('externalId');
+		}
+
+		await this.userRepository.manager.transaction(async (trx) => {
+			await trx.save(user);
+			if (fieldsChanged.includes('externalId')) {
+				await trx.delete(AuthIdentity, { userId: user.id, providerType: 'scim' });
+				if (externalId) await trx.save(AuthIdentity.create(user, externalId, 'scim'));
+			}
+		});
+
+		if (fieldsChanged.length > 0) {
+			this.eventService.emit('scim-user-updated', { user, fieldsChanged });
+		}
+		if (fieldsChanged.includes('active') && user.disabled) {
+			this.eventService.emit('scim-user-deprovisioned', { user, removalType: 'disable' });
+		}
+
+		return await this.getUser(user.id);
+	}
+
+	/**
+	 * The owner logs in with a password even when users log in with SSO, so the identity
+	 * provider must not be able to take over the account of the owner.
+	 */
+	private assertOwnerIsUnchanged(
+		owner: User,
+		{ email, active, password }: { email: string; active?: boolean; password?: string },
+	) {
+		if (email !== owner.email || password !== undefined) {
+			throw new ScimError(
+				403,
+				'The email and password of the owner of the instance cannot be changed.',
+				'mutability',
+			);
+		}
+		if (active === false) {
+			throw new ScimError(403, 'The owner of the instance cannot be deactivated.', 'mutability');
+		}
+	}
+
+	/** Users logging in with SSO have no use for a password, which would bypass the identity provider */
+	private assertPasswordCanBeSet(password: string | undefined) {
+		if (password !== undefined && !isEmailCurrentAuthenticationMethod()) {
+			throw new ScimError(
+				400,
+				'Passwords cannot be set while users log in with SSO or LDAP.',
+				'mutability',
+			);
+		}
+	}
+
+	async patchUser(id: string, operations: ScimPatchOperation[]): Promise<ScimUser> {
+		const user = this.toScimUser(await this.findUser(id));
+		return await this.replaceUser(id, applyPatchOperations(user, operations));
+	}
+
+	/**
+	 * Delete the user, moving the workflows and credentials of the user to the owner
+	 * of the instance, as they may be used by others.
+	 */
+	async deleteUser(id: string) {
+		const user = await this.findUser(id);
+		if (user.role === 'global:owner') {
+			throw new ScimError(403, 'The owner of the instance cannot be deleted.', 'mutability');
+		}
+
+		const owner = await this.ownershipService.getInstanceOwner();
+		const [personalProject, ownerProject] = await Promise.all([
+			this.projectRepository.getPersonalProjectForUserOrFail(user.id),
+			this.projectRepository.getPersonalProjectForUserOrFail(owner.id),
+		]);
+
+		await this.userRepository.manager.transaction(async (trx) => {
+			await this.workflowService.transferAll(personalProject.id, ownerProject.id, trx);
+			await this.credentialsService.transferAll(personalProject.id, ownerProject.id, trx);
+			await trx.delete(AuthIdentity, { userId: user.id });
+			await trx.delete(Project, { id: personalProject.id });
+			await trx.delete(User, { id: user.id });
+		});
+		await this.projectService.clearCredentialCanUseExternalSecretsCache(ownerProject.id);
+
+		this.logger.debug('SCIM deleted user', { userId: user.id });
+		this.eventService.emit('scim-user-deprovisioned', { user, removalType: 'delete' });
+	}
+
+	private async findUser(id: string) {
+		const user = await this.userRepository.findOne({
+			where: { id },
+			relations: { authIdentities: true, projectRelations: { project: true } },
+		});
+		if (!user) throw new ScimError(404, `The user "${id}" does not exist.`);
+		return user;
+	}
+
+	private async assertExternalIdIsAvailable(externalId: string) {
+		if (
+			await this.authIdentityRepository.findOneBy({ providerId: externalId, providerType: 'scim' })
+		) {
+			throw new ScimError(
+				409,
+				`A user with the external ID "${externalId}" already exists.`,
+				'uniqueness',
+			);
+		}
+	}
+
+	private toScimUser(user: User): ScimUser {
+		const externalId = user.authIdentities?.find(
+			(identity) => identity.providerType === 'scim',
+		)?.providerId;
+		const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+		return {
+			schemas: [SCIM_USER_SCHEMA],
+			id: user.id,
+			...(externalId ? { externalId } : {}),
+			userName: user.email,
+			name: {
+				givenName: user.firstName ?? '',
+				familyName: user.lastName ?? '',
+				formatted: displayName,
+			},
+			displayName: displayName || user.email,
+			emails: [{ value: user.email, type: 'work', primary: true }],
+			active: !user.disabled,
+			roles: [{ value: user.role, primary: true }],
+			groups: (user.projectRelations ?? [])
+				.filter((relation) => relation.project?.type === 'team')
+				.map((relation) => ({
+					value: relation.projectId,
+					display: relation.project.name,
+					$ref: `${this.getBaseUrl()}/Groups/${relation.projectId}`,
+				})),
+			meta: this.toMeta('User', user.id, user.createdAt, user.updatedAt),
+		};
+	}
+
+	/**
+	 * Attributes of a user from a SCIM resource. The `userName` is used as email if it is one,
+	 * otherwise the primary email. Attributes which are not set are left unchanged on updates.
+	 */
+	private getUserAttributes(resource: ScimUser, currentRole?: string) {
+		if (!isObject(resource) || typeof resource.userName !== 'string' || !resource.userName) {
+			throw new ScimError(400, 'The user requires a userName.', 'invalidValue');
+		}
+
+		const emails = Array.isArray(resource.emails) ? resource.emails.filter(isObject) : [];
+		const email = (
+			validator.isEmail(resource.userName)
+				? resource.userName
+				: (emails.find((e) => e.primary === true) ?? emails[0])?.value ?? ''
+		).toLowerCase();
+		if (!validator.isEmail(email)) {
+			throw new ScimError(
+				400,
+				'The user requires an email as userName or in emails.',
+				'invalidValue',
+			);
+		}
+
+		const name = isObject(resource.name) ? resource.name : {};
+		const toName = (value: unknown) => (typeof value === 'string' ? value.slice(0, 32) : undefined);
+
+		let active: boolean | undefined;
+		if (resource.active !== undefined) {
+			// some identity providers, e.g. Entra ID, send booleans as strings in PATCH requests
+			const value = String(resource.active).toLowerCase();
+			if (value !== 'true' && value !== 'false') {
+				throw new ScimError(400, 'The attribute "active" must be a boolean.', 'invalidValue');
+			}
+			active = value === 'true';
+		}
+
+		return {
+			email,
+			firstName: toName(name.givenName),
+			lastName: toName(name.familyName),
+			role: this.getUserRole(resource, currentRole),
+			active,
+			externalId: typeof resource.externalId === 'string' ? resource.externalId : undefined,
+			password: typeof resource.password === 'string' ? resource.password : undefined,
+		};
+	}
+
+	/** Global role of a user from a SCIM resource, `undefined` if not set or unchanged */
+	private getUserRole(resource: ScimUser, currentRole?: string): AssignableRole | undefined {
+		if (!Array.isArray(resource.roles) || resource.roles.length === 0) return undefined;
+
+		const roles = resource.roles.filter(isObject);
+		const value = (roles.find((r) => r.primary === true) ?? roles[0])?.value;
+		if (value === currentRole) return undefined;
+
+		const role = ASSIGNABLE_ROLES.find((r) => r === value);
+		if (!role) {
+			throw new ScimError(400, `The role "${String(value)}" is unknown.`, 'invalidValue');
+		}
+		if (!this.roleService.isRoleLicensed(role)) {
+			throw new ScimError(
+				400,
+				`Your instance is not licensed to use role "${role}".`,
+				'invalidValue',
+			);
+		}
+		return role;
+	}
+
+	// #endregion
+
+	// #region Groups
+
+	async listGroups(query: ScimListQuery): Promise<ScimListResponse<ScimGroup>> {
+		const [projects, config] = await Promise.all([
+			this.projectRepository.find({
+				where: { type: 'team' },
+				relations: { projectRelations: { user: true } },
+				order: { createdAt: 'ASC' },
+			}),
+			this.loadConfig(),
+		]);
+		return this.toListResponse(
+			projects.map((project) => this.toScimGroup(project, config)),
+			query,
+		);
+	}
+
+	async getGroup(id: string, query: ScimListQuery = {}): Promise<ScimGroup> {
+		const [project, config] = await Promise.all([this.findGroup(id), this.loadConfig()]);
+		return this.selectAttributes(this.toScimGroup(project, config), query);
+	}
+
+	/** Create a team project for the group, with its members */
+	async createGroup(resource: ScimGroup): Promise<ScimGroup> {
+		const { displayName, memberIds, projectRole } = this.getGroupAttributes(resource);
+		await this.assertDisplayNameIsAvailable(displayName);
+
+		let project: Project;
+		try {
+			project = await this.projectService.createTeamProject(displayName);
+		} catch (error) {
+			if (error instanceof TeamProjectOverQuotaError) throw new ScimError(403, error.message);
+			throw error;
+		}
+		project.projectRelations = [];
+
+		const config = await this.loadConfig();
+		if (projectRole) {
+			config.groupRoles[project.id] = projectRole;
+			await this.saveConfig(config);
+		}
+		await this.setMembers(project, memberIds ?? [], projectRole ?? config.defaultProjectRole);
+
+		this.eventService.emit('scim-group-created', { projectId: project.id, displayName });
+
+		return await this.getGroup(project.id);
+	}
+
+	async replaceGroup(id: string, resource: ScimGroup): Promise<ScimGroup> {
+		const project = await this.findGroup(id);
+		const { displayName, memberIds, projectRole } = this.getGroupAttributes(resource);
+		const config = await this.loadConfig();
+
+		if (displayName !== project.name) {
+			await this.assertDisplayNameIsAvailable(displayName);
+			await this.projectService.updateProject(displayName, id);
+		}
+
+		const previousRole = config.groupRoles[id] ?? config.defaultProjectRole;
+		if (projectRole && projectRole !== config.groupRoles[id]) {
+			config.groupRoles[id] = projectRole;
+			await this.saveConfig(config);
+		}
+
+		const role = projectRole ?? previousRole;
+		const { added, removed } = await this.setMembers(
+			project,
+			memberIds ?? project.projectRelations.map((relation) => relation.userId),
+			role,
+			role !== previousRole,
+		);
+
+		if (displayName !== project.name || role !== previousRole || added.length || removed.length) {
+			this.eventService.emit('scim-group-updated', {
+				projectId: id,
+				displayName,
+				projectRole: role,
+				membersAdded: added,
+				membersRemoved: removed,
+			});
+		}
+
+		return await this.getGroup(id);
+	}
+
+	async patchGroup(id: string, operations: ScimPatchOperation[]): Promise<ScimGroup> {
+		const [project, config] = await Promise.all([this.findGroup(id), this.loadConfig()]);
+		const patched = applyPatchOperations(this.toScimGroup(project, config), operations);
+		// removing all members leaves no `members` attribute, unlike a PUT without members
+		patched.members ??= [];
+		return await this.replaceGroup(id, patched);
+	}
+
+	/**
+	 * Delete the team project of the group, moving its workflows and credentials to the
+	 * owner of the instance, as they may be used by others.
+	 */
+	async deleteGroup(id: string) {
+		const project = await this.findGroup(id);
+		const owner = await this.ownershipService.getInstanceOwner();
+		const ownerProject = await this.projectRepository.getPersonalProjectForUserOrFail(owner.id);
+
+		await this.projectService.deleteProject(owner, id, { migrateToProject: ownerProject.id });
+
+		const config = await this.loadConfig();
+		if (config.groupRoles[id]) {
+			delete config.groupRoles[id];
+			await this.saveConfig(config);
+		}
+
+		this.eventService.emit('scim-group-deleted', { projectId: id, displayName: project.name });
+	}
+
+	private async findGroup(id: string) {
+		const project = await this.projectRepository.findOne({
+			where: { id, type: 'team' },
+			relations: { projectRelations: { user: true } },
+		});
+		if (!project) throw new ScimError(404, `The group "${id}" does not exist.`);
+		return project;
+	}
+
+	private async assertDisplayNameIsAvailable(displayName: string) {
+		if (await this.projectRepository.findOneBy({ type: 'team', name: displayName })) {
+			throw new ScimError(
+				409,
+				`A group with the name "${displayName}" already exists.`,
+				'uniqueness',
+			);
+		}
+	}
+
+	/**
+	 * Set the members of the team project of a group. Members keep their role in the
+	 * project unless the role of the group changed, new members get the role of the group.
+	 */
+	private async setMembers(
+		project: Project,
+		memberIds: string[],
+		role: TeamProjectRole,
+		overrideRoles = false,
+	) {
+		const userIds = [...new Set(memberIds)];
+		const users = userIds.length ? await this.userRepository.findManyByIds(userIds) : [];
+		if (users.length !== userIds.length) {
+			throw new ScimError(400, 'Some members of the group do not exist.', 'invalidValue');
+		}
+
+		const currentRoles = new Map(
+			project.projectRelations.map((relation) => [relation.userId, relation.role]),
+		);
+		const relations = userIds.map((userId) => ({
+			userId,
+			role: (!overrideRoles && currentRoles.get(userId)) || role,
+		}));
+		const added = userIds.filter((userId) => !currentRoles.has(userId));
+		const removed = [...currentRoles.keys()].filter((userId) => !userIds.includes(userId));
+		const isUnchanged =
+			!added.length &&
+			!removed.length &&
+			relations.every((relation) => currentRoles.get(relation.userId) === relation.role);
+
+		if (!isUnchanged) {
+			try {
+				await this.projectService.syncProjectRelations(project.id, relations);
+			} catch (error) {
+				if (error instanceof UnlicensedProjectRoleError) {
+					throw new ScimError(400, error.message, 'invalidValue');
+				}
+				throw error;
+			}
+		}
+
+		return { added, removed };
+	}
+
+	private toScimGroup(project: Project, config: ScimConfig): ScimGroup {
+		return {
+			schemas: [SCIM_GROUP_SCHEMA, SCIM_N8N_GROUP_SCHEMA],
+			id: project.id,
+			displayName: project.name,
+			members: project.projectRelations.map((relation) => ({
+				value: relation.userId,
+				display: relation.user?.email,
+				type: 'User',
+				$ref: `${this.getBaseUrl()}/Users/${relation.userId}`,
+			})),
+			[SCIM_N8N_GROUP_SCHEMA]: {
+				projectRole: config.groupRoles[project.id] ?? config.defaultProjectRole,
+			},
+			meta: this.toMeta('Group', project.id, project.createdAt, project.updatedAt),
+		};
+	}
+
+	/** Attributes of a group from a SCIM resource, `members` being left unchanged if not set */
+	private getGroupAttributes(resource: ScimGroup) {
+		if (!isObject(resource) || typeof resource.displayName !== 'string' || !resource.displayName) {
+			throw new ScimError(400, 'The group requires a displayName.', 'invalidValue');
+		}
+
+		let memberIds: string[] | undefined;
+		if (resource.members !== undefined) {
+			if (!Array.isArray(resource.members)) {
+				throw new ScimError(400, 'The attribute "members" must be a list.', 'invalidValue');
+			}
+			memberIds = resource.members.map((member) => {
+				if (!isObject(member) || typeof member.value !== 'string') {
+					throw new ScimError(400, 'The members of the group require a value.', 'invalidValue');
+				}
+				return member.value;
+			});
+		}
+
+		const extension = resource[findKey(resource, SCIM_N8N_GROUP_SCHEMA) as `urn:${string}`];
+		const projectRole = isObject(extension) ? extension.projectRole : undefined;
+		if (projectRole !== undefined && !TEAM_PROJECT_ROLES.includes(projectRole)) {
+			throw new ScimError(
+				400,
+				`The project role "${String(projectRole)}" is unknown.`,
+				'invalidValue',
+			);
+		}
+
+		return { displayName: resource.displayName, memberIds, projectRole };
+	}
+
+	// #endregion
+
+	private toMeta(
+		resourceType: ScimMeta['resourceType'],
+		id: string,
+		created: Date,
+		lastModified: Date,
+	): ScimMeta {
+		return {
+			resourceType,
+			created: created.toISOString(),
+			lastModified: lastModified.toISOString(),
+			location: `${this.getBaseUrl()}/${resourceType}s/${id}`,
+		};
+	}
+
+	private toListResponse<T extends ScimResource>(
+		resources: T[],
+		query: ScimListQuery,
+	): ScimListResponse<T> {
+		const filter = query.filter ? parseFilter(query.filter) : undefined;
+		const matching = filter
+			? resources.filter((resource) =>
+					matchesFilter(resource as unknown as Record<string, unknown>, filter),
+				)
+			: resources;
+
+		const startIndex = Math.max(parseInt(query.startIndex ?? '1', 10) || 1, 1);
+		const count =
+			query.count === undefined
+				? SCIM_MAX_RESULTS
+				: Math.min(Math.max(parseInt(query.count, 10) || 0, 0), SCIM_MAX_RESULTS);
+		const page = matching.slice(startIndex - 1, startIndex - 1 + count);
+
+		return {
+			schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+			totalResults: matching.length,
+			startIndex,
+			itemsPerPage: page.length,
+			Resources: page.map((resource) => this.selectAttributes(resource, query)),
+		};
+	}
+
+	/** Top-level attributes of the resource, as selected by `attributes` or `excludedAttributes` */
+	private selectAttributes<T extends ScimResource>(resource: T, query: ScimListQuery): T {
+		const toNames = (list?: string) =>
+			(list ?? '')
+				.split(',')
+				.filter((attribute) => attribute.trim())
+				.map((attribute) => parseAttributePath(attribute.trim()).names[0].toLowerCase());
+		const attributes = toNames(query.attributes);
+		const excludedAttributes = toNames(query.excludedAttributes);
+		if (!attributes.length && !excludedAttributes.length) return resource;
+
+		return pickBy(resource, (_, key) => {
+			const name = key.toLowerCase();
+			if (ALWAYS_RETURNED_ATTRIBUTES.has(name)) return true;
+			return attributes.length ? attributes.includes(name) : !excludedAttributes.includes(name);
+		}) as T;
+	}
+}
@@ -0,0 +1,108 @@
+import type { Request } from 'express';
+import type { ProjectRole } from '@db/entities/ProjectRelation';
+import type { AuthenticatedRequest } from '@/requests';
+
+export type TeamProjectRole = Exclude<ProjectRole, 'project:personalOwner'>;
+
+export interface ScimConfig {
+	enabled: boolean;
+	/** SHA-256 hash of the bearer token of the identity provider */
+	tokenHash: string | null;
+	tokenCreatedAt: string | null;
+	/** Project role of the members of groups without a role of their own */
+	defaultProjectRole: TeamProjectRole;
+	/** Project roles set per group, by project ID */
+	groupRoles: Record<string, TeamProjectRole>;
+}
+
+export interface ScimMeta {
+	resourceType: 'User' | 'Group';
+	created: string;
+	lastModified: string;
+	location: string;
+}
+
+export interface ScimMultiValue {
+	value: string;
+	display?: string;
+	type?: string;
+	primary?: boolean;
+	$ref?: string;
+}
+
+export interface ScimUser {
+	schemas: string[];
+	id?: string;
+	externalId?: string;
+	userName: string;
+	name?: { givenName?: string; familyName?: string; formatted?: string };
+	displayName?: string;
+	emails?: ScimMultiValue[];
+	active?: boolean | string;
+	roles?: ScimMultiValue[];
+	groups?: ScimMultiValue[];
+	password?: string;
+	meta?: ScimMeta;
+}
+
+export interface ScimGroup {
+	schemas: string[];
+	id?: string;
+	displayName: string;
+	members?: ScimMultiValue[];
+	meta?: ScimMeta;
+	[extension: `urn:${string}`]: { projectRole?: TeamProjectRole } | undefined;
+}
+
+export type ScimResource = ScimUser | ScimGroup;
+
+export interface ScimListResponse<T extends ScimResource> {
+	schemas: string[];
+	totalResults: number;
+	startIndex: number;
+	itemsPerPage: number;
+	Resources: T[];
+}
+
+export interface ScimPatchOperation {
+	op: string;
+	path?: string;
+	value?: unknown;
+}
+
+export interface ScimListQuery {
+	filter?: string;
+	startIndex?: string;
+	count?: string;
+	attributes?: string;
+	excludedAttributes?: string;
+}
+
+export declare namespace ScimRequest {
+	type List = Request<{}, {}, {}, ScimListQuery>;
+	type Get = Request<
+		{ id: string },
+		{},
+		{},
+		Pick<ScimListQuery, 'attributes' | 'excludedAttributes'>
+	>;
+	type CreateUser = Request<{}, {}, ScimUser>;
+	type ReplaceUser = Request<{ id: string }, {}, ScimUser>;
+	type CreateGroup = Request<{}, {}, ScimGroup>;
+	type ReplaceGroup = Request<{ id: string }, {}, ScimGroup>;
+	type Patch = Request<
+		{ id: string },
+		{},
+		{ schemas?: string[]; Operations?: ScimPatchOperation[] }
+	>;
+	type Delete = Request<{ id: string }>;
+}
+
+export declare namespace ScimConfiguration {
+	type Update = AuthenticatedRequest<
+		{},
+		{},
+		Partial<Pick<ScimConfig, 'enabled' | 'defaultProjectRole'>>,
+		{}
+	>;
+}
@@ -0,0 +1,210 @@
+import { Service } from 'typedi';
+import { randomBytes } from 'crypto';
+import { hasScope, type Scope } from '@n8n/permissions';
+// eslint-disable-next-line n8n-local-rules/misplaced-n8n-typeorm-import
+import { In } from '@n8n/typeorm';
+
+import type { ApiKey } from '@db/entities/ApiKey';
+import type { User } from '@db/entities/User';
+import { ApiKeyRepository } from '@db/repositories/apiKey.repository';
+import { SharedCredentialsRepository } from '@db/repositories/sharedCredentials.repository';
+import { SharedWorkflowRepository } from '@db/repositories/sharedWorkflow.repository';
+import { API_KEY_PREFIX } from '@/controllers/me.controller';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import { NotFoundError } from '@/errors/response-errors/not-found.error';
+import { GLOBAL_OWNER_SCOPES } from '@/permissions/global-roles';
+import {
+	PERSONAL_PROJECT_OWNER_SCOPES,
+	REGULAR_PROJECT_ADMIN_SCOPES,
+} from '@/permissions/project-roles';
+import type { ApiKeyRequest } from '@/requests';
+import { ProjectService } from './project.service';
+
+/** Minimum interval between two updates of the last usage of a key */
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+const KNOWN_SCOPES = new Set<string>(GLOBAL_OWNER_SCOPES);
+
+/** Scopes on projects and their resources, the only ones of keys restricted to projects */
+const PROJECT_SCOPES = new Set<string>([
+	...REGULAR_PROJECT_ADMIN_SCOPES,
+	...PERSONAL_PROJECT_OWNER_SCOPES,
+]);
+
+@Service()
+export class ApiKeyService {
+	constructor(
+		private readonly apiKeyRepository: ApiKeyRepository,
+		private readonly sharedWorkflowRepository: SharedWorkflowRepository,
+		private readonly sharedCredentialsRepository: SharedCredentialsRepository,
+		private readonly projectService: ProjectService,
+	) {}
+
+	async getAll(user: User) {
+		const apiKeys = await this.apiKeyRepository.find({
+			where: { userId: user.id },
+			order: { createdAt: 'DESC' },
+		});
+
+		return apiKeys.map((apiKey) => this.redact(apiKey));
+	}
+
+	/**
+	 * Create a key for the user. The key is returned in full only once, on creation.
+	 */
+	async create(user: User, payload: ApiKeyRequest.CreatePayload) {
+		const { label, scopes, projectIds = null, expiresAt = null } = payload;
+
+		if (typeof label !== 'string' || label.trim().length === 0 || label.length > 100) {
+			throw new BadRequestError('API key label must be between 1 and 100 characters.');
+		}
+
+		if (!Array.isArray(scopes) || scopes.length === 0) {
+			throw new BadRequestError('API key must have at least one scope.');
+		}
+
+		const unknownScopes = scopes.filter((scope) => !KNOWN_SCOPES.has(scope));
+		if (unknownScopes.length > 0) {
+			throw new BadRequestError(`Unknown scopes: ${unknownScopes.join(', ')}`);
+		}
+
+		if (projectIds !== null) {
+			const instanceScopes = scopes.filter((scope) => !PROJECT_SCOPES.has(scope));
+			if (instanceScopes.length > 0) {
+				throw new BadRequestError(
+					`API keys restricted to projects cannot have instance-wide scopes: ${instanceScopes.join(', ')}`,
+				);
+			}
+
+			await this.validateProjectIds(user, projectIds);
+		}
+
+		const expiryDate = expiresAt === null ? null : new Date(expiresAt);
+		if (expiryDate && (isNaN(expiryDate.getTime()) || expiryDate <= new Date())) {
+			throw new BadRequestError('API key expiry must be a date in the future.');
+		}
+
+		return await this.apiKeyRepository.save(
+			this.apiKeyRepository.create({
+				userId: user.id,
+				label: label.trim(),
+				apiKey: this.generateApiKey(),
+				scopes: [...new Set(scopes)],
+				projectIds: projectIds && [...new Set(projectIds)],
+				expiresAt: expiryDate,
+				lastUsedAt: null,
+			}),
+		);
+	}
+
+	async revoke(user: User, id: string) {
+		const apiKey = await this.apiKeyRepository.findOneBy({ id, userId: user.id });
+
+		if (!apiKey) throw new NotFoundError('Could not find API key');
+
+		await this.apiKeyRepository.remove(apiKey);
+	}
+
+	/**
+	 * Find the unexpired key, along with its owner, and record its usage.
+	 */
+	async authenticate(value: string | undefined) {
+		if (!value) return null;
+
+		const apiKey = await this.apiKeyRepository.findWithUser(value);
+
+		if (!apiKey || this.isExpired(apiKey)) return null;
+
+		const now = new Date();
+		if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+			apiKey.lastUsedAt = now;
+			await this.apiKeyRepository.update(apiKey.id, { lastUsedAt: now });
+		}
+
+		return apiKey;
+	}
+
+	/**
+	 * Whether the key has been granted all of the scopes. The permissions of its
+	 * owner still apply on top of this. Keys restricted to projects are never
+	 * granted instance-wide scopes, e.g. of keys created before they were refused.
+	 */
+	hasScope(apiKey: ApiKey, scopes: Scope | Scope[]) {
+		const grantedScopes = apiKey.projectIds
+			? apiKey.scopes.filter((scope) => PROJECT_SCOPES.has(scope))
+			: apiKey.scopes;
+
+		return hasScope(scopes, { global: grantedScopes }, undefined, { mode: 'allOf' });
+	}
+
+	/**
+	 * Whether the key, if any, may access the project.
+	 */
+	isProjectAllowed(apiKey: ApiKey | undefined, projectId: string) {
+		return !apiKey?.projectIds || apiKey.projectIds.includes(projectId);
+	}
+
+	/**
+	 * Restrict workflow IDs to those in the projects the key is restricted to, if any.
+	 */
+	async filterWorkflowIds(apiKey: ApiKey, workflowIds: string[]) {
+		if (apiKey.projectIds === null) return workflowIds;
+		if (workflowIds.length === 0 || apiKey.projectIds.length === 0) return [];
+
+		const sharedWorkflows = await this.sharedWorkflowRepository.find({
+			select: ['workflowId'],
+			where: { workflowId: In(workflowIds), projectId: In(apiKey.projectIds) },
+		});
+
+		return [...new Set(sharedWorkflows.map(({ workflowId }) => workflowId))];
+	}
+
+	/**
+	 * Whether the workflow or credential is in a project the key may access.
+	 */
+	async isResourceAllowed(apiKey: ApiKey, resource: 'workflow' | 'credential', id: string) {
+		if (apiKey.projectIds === null) return true;
+		if (apiKey.projectIds.length === 0) return false;
+
+		const projectId = In(apiKey.projectIds);
+
+		return resource === 'workflow'
+			? await this.sharedWorkflowRepository.existsBy({ workflowId: id, projectId })
+			: await this.sharedCredentialsRepository.existsBy({ credentialsId: id, projectId });
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	private generateApiKey() {
+		return `${API_KEY_PREFIX}${randomBytes(40).toString('hex')}`;
+	}
+
+	private isExpired(apiKey: ApiKey) {
+		return apiKey.expiresAt !== null && apiKey.expiresAt <= new Date();
+	}
+
+	private redact(apiKey: ApiKey) {
+		const keepLength = 5;
+		const redacted =
+			API_KEY_PREFIX +
+			apiKey.apiKey.slice(API_KEY_PREFIX.length, API_KEY_PREFIX.length + keepLength) +
+			'*'.repeat(apiKey.apiKey.length - API_KEY_PREFIX.length - keepLength);
+
+		return { ...apiKey, apiKey: redacted, expired: this.isExpired(apiKey) };
+	}
+
+	private async validateProjectIds(user: User, projectIds: string[]) {
+		if (!Array.isArray(projectIds) || projectIds.some((id) => typeof id !== 'string')) {
+			throw new BadRequestError('API key projects must be a list of project IDs.');
+		}
+
+		const accessibleProjects = await this.projectService.getAccessibleProjects(user);
+		const missingIds = projectIds.filter((id) => !accessibleProjects.some((p) => p.id === id));
+
+		if (missingIds.length > 0) {
+			throw new BadRequestError(`Could not find projects: ${missingIds.join(', ')}`);
+		}
+	}
+}
@@ -22,6 +22,7 @@ import { License } from '@/License';
 import { getCurrentAuthenticationMethod } from '@/sso/ssoHelpers';
 import { getLdapLoginLabel } from '@/Ldap/helpers.ee';
 import { getSamlLoginLabel } from '@/sso/saml/samlHelpers';
+import { getOidcLoginLabel } from '@/sso/oidc/oidcHelpers';
 import { getVariablesLimit } from '@/environments/variables/environmentHelpers';
 import {
 	getWorkflowHistoryLicensePruneTime,
@@ -144,6 +145,10 @@ export class FrontendService {
 					loginEnabled: false,
 					loginLabel: '',
 				},
+				oidc: {
+					loginEnabled: false,
+					loginLabel: '',
+				},
 				ldap: {
 					loginEnabled: false,
 					loginLabel: '',
@@ -179,6 +184,7 @@ export class FrontendService {
 				sharing: false,
 				ldap: false,
 				saml: false,
+				oidc: false,
 				logStreaming: false,
 				advancedExecutionFilters: false,
 				variables: false,
@@ -229,6 +235,9 @@ export class FrontendService {
 			security: {
 				blockFileAccessToN8nFiles: config.getEnv('security.blockFileAccessToN8nFiles'),
 			},
+			credentials: {
+				expiryWarningDays: this.globalConfig.credentials.expiry.warningDays,
+			},
 		};
 	}
 
@@ -289,6 +298,7 @@ export class FrontendService {
 			logStreaming: this.license.isLogStreamingEnabled(),
 			ldap: this.license.isLdapEnabled(),
 			saml: this.license.isSamlEnabled(),
+			oidc: this.license.isOidcEnabled(),
 			advancedExecutionFilters: this.license.isAdvancedExecutionFiltersEnabled(),
 			variables: this.license.isVariablesEnabled(),
 			sourceControl: this.license.isSourceControlLicensed(),
@@ -316,6 +326,13 @@ export class FrontendService {
 			});
 		}
 
+		if (this.license.isOidcEnabled()) {
+			Object.assign(this.settings.sso.oidc, {
+				loginLabel: getOidcLoginLabel(),
+				loginEnabled: config.getEnv('sso.oidc.loginEnabled'),
+			});
+		}
+
 		if (this.license.isVariablesEnabled()) {
 			this.settings.variables.limit = getVariablesLimit();
 		}
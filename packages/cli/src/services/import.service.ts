@@ -13,6 +13,7 @@ import { WorkflowEntity } from '@db/entities/WorkflowEntity';
 import { WorkflowTagMapping } from '@db/entities/WorkflowTagMapping';
 import type { TagEntity } from '@db/entities/TagEntity';
 import type { ICredentialsDb } from '@/Interfaces';
+import { SecretUsageService } from '@/services/secret-usage.service';
 
 @Service()
 export class ImportService {
@@ -24,6 +25,7 @@ export class ImportService {
 		private readonly logger: Logger,
 		private readonly credentialsRepository: CredentialsRepository,
 		private readonly tagRepository: TagRepository,
+		private readonly secretUsageService: SecretUsageService,
 	) {}
 
 	async initRecords() {
@@ -46,6 +48,8 @@ export class ImportService {
 			if (hasInvalidCreds) await this.replaceInvalidCreds(workflow);
 		}
 
+		const workflowIds: string[] = [];
+
 		await Db.transaction(async (tx) => {
 			for (const workflow of workflows) {
 				if (workflow.active) {
@@ -58,6 +62,7 @@ export class ImportService {
 
 				const upsertResult = await tx.upsert(WorkflowEntity, workflow, ['id']);
 				const workflowId = upsertResult.identifiers.at(0)?.id as string;
+				workflowIds.push(workflowId);
 
 				const personalProject = await tx.findOneByOrFail(Project, { id: projectId });
 
@@ -82,6 +87,10 @@ export class ImportService {
 				}
 			}
 		});
+
+		for (const workflowId of workflowIds) {
+			await this.secretUsageService.reindex('workflow', workflowId);
+		}
 	}
 
 	async replaceInvalidCreds(workflow: WorkflowEntity) {
@@ -165,7 +165,7 @@ export class ProjectService {
 		return await this.projectRelationRepository.getPersonalProjectOwners(projectIds);
 	}
 
-	async createTeamProject(name: string, adminUser: User, id?: string): Promise<Project> {
+	async createTeamProject(name: string, adminUser?: User, id?: string): Promise<Project> {
 		const limit = this.license.getTeamProjectLimit();
 		if (
 			limit !== UNLIMITED_LICENSE_QUOTA &&
@@ -183,7 +183,9 @@ export class ProjectService {
 		);
 
 		// Link admin
-		await this.addUser(project.id, adminUser.id, 'project:admin');
+		if (adminUser) {
+			await this.addUser(project.id, adminUser.id, 'project:admin');
+		}
 
 		return project;
 	}
@@ -205,6 +207,21 @@ export class ProjectService {
 		return await this.projectRepository.findOneByOrFail({ id: projectId });
 	}
 
+	async updateConcurrencyLimit(
+		concurrencyLimit: number | null,
+		projectId: string,
+	): Promise<Project> {
+		const result = await this.projectRepository.update({ id: projectId }, { concurrencyLimit });
+
+		if (!result.affected) {
+			throw new ForbiddenError('Project not found');
+		}
+
+		await this.cacheService.deleteFromHash('project-concurrency-limit', projectId);
+
+		return await this.projectRepository.findOneByOrFail({ id: projectId });
+	}
+
 	async getPersonalProject(user: User): Promise<Project | null> {
 		return await this.projectRepository.getPersonalProjectForUser(user.id);
 	}
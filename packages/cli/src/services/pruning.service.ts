@@ -6,6 +6,7 @@ import { ExecutionRepository } from '@db/repositories/execution.repository';
 import { Logger } from '@/Logger';
 import { jsonStringify } from 'n8n-workflow';
 import { OnShutdown } from '@/decorators/OnShutdown';
+import { DeadLetterService } from '@/executions/dead-letter.service';
 import { OrchestrationService } from './orchestration.service';
 
 @Service()
@@ -29,6 +30,7 @@ export class PruningService {
 		private readonly executionRepository: ExecutionRepository,
 		private readonly binaryDataService: BinaryDataService,
 		private readonly orchestrationService: OrchestrationService,
+		private readonly deadLetterService: DeadLetterService,
 	) {}
 
 	/**
@@ -124,9 +126,12 @@ export class PruningService {
 	}
 
 	/**
-	 * Mark executions as deleted based on age and count, in a pruning cycle.
+	 * Mark executions as deleted based on age and count, and delete old dead-letter entries,
+	 * in a pruning cycle.
 	 */
 	async softDeleteOnPruningCycle() {
+		await this.deadLetterService.prune();
+
 		this.logger.debug('[Pruning] Starting soft-deletion of executions');
 
 		const result = await this.executionRepository.softDeletePrunableExecutions();
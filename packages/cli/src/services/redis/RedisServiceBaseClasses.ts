@@ -13,6 +13,7 @@ export type RedisClientType =
 	| 'client(bull)'
 	| 'bclient(bull)'
 	| 'client(cache)'
+	| 'client(concurrency)'
 	| 'publisher'
 	| 'consumer'
 	| 'producer'
@@ -0,0 +1,207 @@
+import type { INode, SecretUsage, SecretUsageResourceType, SecretUsageType } from 'n8n-workflow';
+import { Service } from 'typedi';
+import { createCredentialsFromCredentialsEntity } from '@/CredentialsHelper';
+import { CredentialsRepository } from '@db/repositories/credentials.repository';
+import { SecretUsageEntryRepository } from '@db/repositories/secretUsageEntry.repository';
+import { SettingsRepository } from '@db/repositories/settings.repository';
+import { WorkflowRepository } from '@db/repositories/workflow.repository';
+import type { SecretUsageEntry } from '@db/entities/SecretUsageEntry';
+import { EventService } from '@/events/event.service';
+import { getSecretReferences } from '@/ExternalSecrets/externalSecretsHelper.ee';
+import { Logger } from '@/Logger';
+
+type UsageEntry = Pick<SecretUsageEntry, 'secretType' | 'secretKey' | 'nodeName'>;
+
+/** Settings key marking that the credentials and workflows saved before the index existed were indexed */
+const INDEXED_SETTINGS_KEY = 'secretUsage.indexed';
+
+const BACKFILL_BATCH_SIZE = 100;
+
+const VARIABLE_REFERENCE_REGEX = /\$vars(?:\.([\w-]+)|\[['"]([\w-]+)['"]\])/g;
+
+function getVariableReferences(data: unknown): string[] {
+	const keys = new Set<string>();
+	const collect = (value: unknown) => {
+		if (typeof value === 'string') {
+			for (const match of value.matchAll(VARIABLE_REFERENCE_REGEX)) {
+				keys.add(match[1] ?? match[2]);
+			}
+		} else if (typeof value === 'object' && value !== null) {
+			Object.values(value).forEach(collect);
+		}
+	};
+	collect(data);
+	return [...keys];
+}
+
+function getUsageEntries(data: unknown, nodeName: string | null = null): UsageEntry[] {
+	return [
+		...getSecretReferences(data).map(({ provider, name }) => ({
+			secretType: 'externalSecret' as const,
+			secretKey: `${provider}.${name}`,
+			nodeName,
+		})),
+		...getVariableReferences(data).map((key) => ({
+			secretType: 'variable' as const,
+			secretKey: key,
+			nodeName,
+		})),
+	];
+}
+
+/**
+ * Index of the credentials and workflow nodes that reference each external secret and
+ * variable, to tell the impact of rotating a secret or deleting a variable.
+ */
+@Service()
+export class SecretUsageService {
+	constructor(
+		private readonly logger: Logger,
+		private readonly eventService: EventService,
+		private readonly secretUsageEntryRepository: SecretUsageEntryRepository,
+		private readonly credentialsRepository: CredentialsRepository,
+		private readonly workflowRepository: WorkflowRepository,
+		private readonly settingsRepository: SettingsRepository,
+	) {}
+
+	init() {
+		this.eventService.on('workflow-created', ({ workflow }) => {
+			void this.reindex('workflow', workflow.id);
+		});
+		this.eventService.on('workflow-saved', ({ workflow }) => {
+			void this.reindex('workflow', workflow.id);
+		});
+		this.eventService.on('workflow-deleted', ({ workflowId }) => {
+			void this.reindex('workflow', workflowId);
+		});
+		for (const eventName of [
+			'credentials-created',
+			'credentials-updated',
+			'credentials-deleted',
+			'credentials-rotated',
+		] as const) {
+			this.eventService.on(eventName, ({ credentialId }) => {
+				void this.reindex('credential', credentialId);
+			});
+		}
+
+		void this.indexExisting();
+	}
+
+	async indexWorkflow(workflowId: string) {
+		const workflow = await this.workflowRepository.findOne({
+			select: ['id', 'nodes'],
+			where: { id: workflowId },
+		});
+		const entries = (workflow?.nodes ?? []).flatMap((node: INode) =>
+			getUsageEntries(node.parameters, node.name),
+		);
+		await this.secretUsageEntryRepository.replaceForResource('workflow', workflowId, entries);
+	}
+
+	async indexCredential(credentialId: string) {
+		const credential = await this.credentialsRepository.findOneBy({ id: credentialId });
+		const entries = credential
+			? getUsageEntries(createCredentialsFromCredentialsEntity(credential).getData())
+			: [];
+		await this.secretUsageEntryRepository.replaceForResource('credential', credentialId, entries);
+	}
+
+	/** Credentials and workflows referencing each external secret or variable, by key */
+	async getUsage(secretType: SecretUsageType): Promise<SecretUsage[]> {
+		const entries = await this.secretUsageEntryRepository.findBy({ secretType });
+
+		const idsOf = (resourceType: SecretUsageResourceType) => [
+			...new Set(entries.filter((e) => e.resourceType === resourceType).map((e) => e.resourceId)),
+		];
+		const [credentials, workflows] = await Promise.all([
+			this.credentialsRepository.getManyByIds(idsOf('credential')),
+			this.workflowRepository.findByIds(idsOf('workflow'), { fields: ['id', 'name'] }),
+		]);
+		const credentialNames = new Map(credentials.map(({ id, name }) => [id, name]));
+		const workflowNames = new Map(workflows.map(({ id, name }) => [id, name]));
+
+		const usage = new Map<string, SecretUsage>();
+		for (const { secretKey: key, resourceType, resourceId: id, nodeName } of entries) {
+			const keyUsage = usage.get(key) ?? { key, credentials: [], workflows: [] };
+			usage.set(key, keyUsage);
+
+			if (resourceType === 'credential' && credentialNames.has(id)) {
+				keyUsage.credentials.push({ id, name: credentialNames.get(id)! });
+			} else if (resourceType === 'workflow' && workflowNames.has(id)) {
+				const workflow = keyUsage.workflows.find((w) => w.id === id);
+				if (workflow) {
+					if (nodeName) workflow.nodes.push(nodeName);
+				} else {
+					keyUsage.workflows.push({
+						id,
+						name: workflowNames.get(id)!,
+						nodes: nodeName ? [nodeName] : [],
+					});
+				}
+			}
+		}
+
+		return [...usage.values()]
+			.filter((u) => u.credentials.length > 0 || u.workflows.length > 0)
+			.sort((a, b) => a.key.localeCompare(b.key));
+	}
+
+	/**
+	 * Index a credential or workflow again, e.g. after an import saved it without emitting
+	 * the events the index listens to. Failures are logged, not thrown.
+	 */
+	async reindex(resourceType: SecretUsageResourceType, resourceId: string) {
+		try {
+			if (resourceType === 'workflow') {
+				await this.indexWorkflow(resourceId);
+			} else {
+				await this.indexCredential(resourceId);
+			}
+		} catch (error) {
+			this.logger.warn(`Failed to index the secrets used by ${resourceType} ${resourceId}`, {
+				error: error as Error,
+			});
+		}
+	}
+
+	/** Index the credentials and workflows saved before the index was introduced, once */
+	private async indexExisting() {
+		try {
+			if (await this.settingsRepository.findByKey(INDEXED_SETTINGS_KEY)) return;
+
+			for (let skip = 0; ; skip += BACKFILL_BATCH_SIZE) {
+				const workflows = await this.workflowRepository.find({
+					select: ['id'],
+					order: { id: 'ASC' },
+					skip,
+					take: BACKFILL_BATCH_SIZE,
+				});
+				for (const { id } of workflows) await this.reindex('workflow', id);
+				if (workflows.length < BACKFILL_BATCH_SIZE) break;
+			}
+
+			for (let skip = 0; ; skip += BACKFILL_BATCH_SIZE) {
+				const credentials = await this.credentialsRepository.find({
+					select: ['id'],
+					order: { id: 'ASC' },
+					skip,
+					take: BACKFILL_BATCH_SIZE,
+				});
+				for (const { id } of credentials) await this.reindex('credential', id);
+				if (credentials.length < BACKFILL_BATCH_SIZE) break;
+			}
+
+			await this.settingsRepository.save({
+				key: INDEXED_SETTINGS_KEY,
+				value: 'true',
+				loadOnStartup: false,
+			});
+			this.logger.debug('Indexed the secrets used by existing credentials and workflows');
+		} catch (error) {
+			this.logger.error('Failed to index the secrets used by existing credentials and workflows', {
+				error: error as Error,
+			});
+		}
+	}
+}
@@ -0,0 +1,64 @@
+import { Service } from 'typedi';
+import { GlobalConfig } from '@n8n/config';
+import { InstanceSettings, OTLPTraceExporter, Tracer } from 'n8n-core';
+import { Logger } from '@/Logger';
+import { N8N_VERSION, LOWEST_SHUTDOWN_PRIORITY } from '@/constants';
+import { OnShutdown } from '@/decorators/OnShutdown';
+import config from '@/config';
+
+/**
+ * Sets up export of traces to an OpenTelemetry collector, if enabled.
+ */
+@Service()
+export class TracingService {
+	constructor(
+		private readonly logger: Logger,
+		private readonly globalConfig: GlobalConfig,
+		private readonly instanceSettings: InstanceSettings,
+		private readonly tracer: Tracer,
+	) {}
+
+	init() {
+		const { enabled, otlpEndpoint, otlpHeaders, serviceName, flushInterval } =
+			this.globalConfig.tracing;
+
+		if (!enabled) return;
+
+		const exporter = new OTLPTraceExporter({
+			url: `${otlpEndpoint.replace(/\/+$/, '')}/v1/traces`,
+			headers: this.parseHeaders(otlpHeaders),
+		});
+
+		this.tracer.enable(
+			exporter,
+			{
+				'service.name': serviceName,
+				'service.version': N8N_VERSION,
+				'service.instance.id': this.instanceSettings.instanceId,
+				'n8n.instance.type': config.getEnv('generic.instanceType'),
+			},
+			{ flushIntervalMs: flushInterval },
+		);
+
+		this.logger.debug('[Tracing] Exporting traces', { otlpEndpoint });
+	}
+
+	/** Export remaining spans, after all other components have stopped creating them. */
+	@OnShutdown(LOWEST_SHUTDOWN_PRIORITY)
+	async shutdown() {
+		await this.tracer.shutdown();
+	}
+
+	/** Parse headers given as comma-separated `key=value` pairs */
+	private parseHeaders(headers: string) {
+		return headers
+			.split(',')
+			.map((pair) => pair.trim())
+			.filter((pair) => pair.includes('='))
+			.reduce<Record<string, string>>((acc, pair) => {
+				const index = pair.indexOf('=');
+				acc[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+				return acc;
+			}, {});
+	}
+}
@@ -0,0 +1,7 @@
+export const OIDC_PREFERENCES_DB_KEY = 'features.oidc';
+export const OIDC_LOGIN_LABEL = 'sso.oidc.loginLabel';
+export const OIDC_LOGIN_ENABLED = 'sso.oidc.loginEnabled';
+
+/** Cookie holding the signed state, nonce and PKCE verifier of a login in progress */
+export const OIDC_STATE_COOKIE_NAME = 'n8n-oidc-state';
+export const OIDC_STATE_EXPIRATION_MINUTES = 10;
@@ -0,0 +1,18 @@
+import type { RequestHandler } from 'express';
+import { isOidcLicensed, isOidcLicensedAndEnabled } from '../oidcHelpers';
+
+export const oidcLicensedAndEnabledMiddleware: RequestHandler = (_, res, next) => {
+	if (isOidcLicensedAndEnabled()) {
+		next();
+	} else {
+		res.status(403).json({ status: 'error', message: 'Unauthorized' });
+	}
+};
+
+export const oidcLicensedMiddleware: RequestHandler = (_, res, next) => {
+	if (isOidcLicensed()) {
+		next();
+	} else {
+		res.status(403).json({ status: 'error', message: 'Unauthorized' });
+	}
+};
@@ -0,0 +1,529 @@
+import { Service } from 'typedi';
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { jsonParse, randomString } from 'n8n-workflow';
+
+import type { User } from '@db/entities/User';
+import { AuthIdentity } from '@db/entities/AuthIdentity';
+import { AuthIdentityRepository } from '@db/repositories/authIdentity.repository';
+import { ProjectRepository } from '@db/repositories/project.repository';
+import { SettingsRepository } from '@db/repositories/settings.repository';
+import { UserRepository } from '@db/repositories/user.repository';
+import { CREDENTIAL_BLANKING_VALUE } from '@/constants';
+import { AuthError } from '@/errors/response-errors/auth.error';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import { EventService } from '@/events/event.service';
+import { Logger } from '@/Logger';
+import { JwtService } from '@/services/jwt.service';
+import { PasswordUtility } from '@/services/password.utility';
+import { ProjectService } from '@/services/project.service';
+
+import { OIDC_PREFERENCES_DB_KEY, OIDC_STATE_EXPIRATION_MINUTES } from './constants';
+import {
+	generateRandomToken,
+	getClaimValues,
+	getCodeChallenge,
+	getMappedOidcAttributes,
+	getMappedProjects,
+	getMappedRole,
+	getOidcLoginLabel,
+	getOidcRedirectUri,
+	getSafeRedirectPath,
+	isOidcLoginEnabled,
+	setOidcLoginEnabled,
+	setOidcLoginLabel,
+} from './oidcHelpers';
+import type { OidcDiscoveryDocument, OidcLoginState } from './types';
+import type { OidcPreferences } from './types/oidcPreferences';
+import type { OidcConfiguration } from './types/requests';
+import type { OidcUserAttributes } from './types/oidcUserAttributes';
+import { isSsoJustInTimeProvisioningEnabled } from '../ssoHelpers';
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+	'RS256',
+	'RS384',
+	'RS512',
+	'PS256',
+	'PS384',
+	'PS512',
+	'ES256',
+	'ES384',
+	'ES512',
+];
+
+type Claims = Record<string, unknown>;
+
+/**
+ * Logs users in with an OpenID Connect provider, using the authorization code flow with PKCE.
+ *
+ * Users are matched by their subject identifier, or by email on their first OIDC login, and
+ * provisioned just in time if enabled. Their global role and team project memberships are
+ * derived from their claims on every login, as configured in the role and project mapping.
+ */
+@Service()
+export class OidcService {
+	private discoveryDocument: OidcDiscoveryDocument | undefined;
+
+	private signingKeys = new Map<string, KeyObject>();
+
+	private _oidcPreferences: OidcPreferences = {
+		discoveryUrl: '',
+		clientId: '',
+		clientSecret: '',
+		scopes: 'openid email profile',
+		mapping: {
+			email: 'email',
+			firstName: 'given_name',
+			lastName: 'family_name',
+			groups: 'groups',
+		},
+		roleMapping: [],
+		projectMapping: [],
+		loginEnabled: false,
+		loginLabel: 'OIDC',
+	};
+
+	public get oidcPreferences(): OidcPreferences {
+		return {
+			...this._oidcPreferences,
+			loginEnabled: isOidcLoginEnabled(),
+			loginLabel: getOidcLoginLabel(),
+		};
+	}
+
+	/** Preferences to show to users, without the client secret */
+	public get redactedOidcPreferences(): OidcPreferences {
+		const prefs = this.oidcPreferences;
+		return { ...prefs, clientSecret: prefs.clientSecret ? CREDENTIAL_BLANKING_VALUE : '' };
+	}
+
+	constructor(
+		private readonly logger: Logger,
+		private readonly jwtService: JwtService,
+		private readonly passwordUtility: PasswordUtility,
+		private readonly settingsRepository: SettingsRepository,
+		private readonly userRepository: UserRepository,
+		private readonly authIdentityRepository: AuthIdentityRepository,
+		private readonly projectRepository: ProjectRepository,
+		private readonly projectService: ProjectService,
+		private readonly eventService: EventService,
+	) {}
+
+	async init(): Promise<void> {
+		await this.loadFromDbAndApplyOidcPreferences();
+	}
+
+	async setOidcPreferences(prefs: OidcPreferences): Promise<OidcPreferences> {
+		await this.loadPreferences(prefs);
+		return await this.saveOidcPreferencesToDb();
+	}
+
+	async loadPreferences(prefs: OidcPreferences) {
+		const { discoveryUrl } = this._oidcPreferences;
+		this._oidcPreferences.discoveryUrl = prefs.discoveryUrl ?? this._oidcPreferences.discoveryUrl;
+		this._oidcPreferences.clientId = prefs.clientId ?? this._oidcPreferences.clientId;
+		if (prefs.clientSecret !== undefined && prefs.clientSecret !== CREDENTIAL_BLANKING_VALUE) {
+			this._oidcPreferences.clientSecret = prefs.clientSecret;
+		}
+		this._oidcPreferences.scopes = prefs.scopes ?? this._oidcPreferences.scopes;
+		this._oidcPreferences.mapping = prefs.mapping ?? this._oidcPreferences.mapping;
+		this._oidcPreferences.roleMapping = prefs.roleMapping ?? this._oidcPreferences.roleMapping;
+		this._oidcPreferences.projectMapping =
+			prefs.projectMapping ?? this._oidcPreferences.projectMapping;
+
+		if (this._oidcPreferences.discoveryUrl !== discoveryUrl) {
+			this.discoveryDocument = undefined;
+			this.signingKeys.clear();
+		}
+
+		const loginEnabled = prefs.loginEnabled ?? isOidcLoginEnabled();
+		if (loginEnabled && (!this._oidcPreferences.discoveryUrl || !this._oidcPreferences.clientId)) {
+			throw new BadRequestError(
+				'OIDC login cannot be enabled without a discovery URL and a client ID',
+			);
+		}
+		await setOidcLoginEnabled(loginEnabled);
+		setOidcLoginLabel(prefs.loginLabel ?? getOidcLoginLabel());
+	}
+
+	async loadFromDbAndApplyOidcPreferences(): Promise<OidcPreferences | undefined> {
+		const oidcPreferences = await this.settingsRepository.findByKey(OIDC_PREFERENCES_DB_KEY);
+		if (!oidcPreferences) return;
+
+		const prefs = jsonParse<OidcPreferences>(oidcPreferences.value);
+		await this.loadPreferences(prefs);
+		return prefs;
+	}
+
+	async saveOidcPreferencesToDb(): Promise<OidcPreferences> {
+		await this.settingsRepository.save(
+			{
+				key: OIDC_PREFERENCES_DB_KEY,
+				value: JSON.stringify(this.oidcPreferences),
+				loadOnStartup: true,
+			},
+			{ transaction: false },
+		);
+		return this.redactedOidcPreferences;
+	}
+
+	async getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+		if (this.discoveryDocument) return this.discoveryDocument;
+
+		const { discoveryUrl } = this._oidcPreferences;
+		if (!discoveryUrl) throw new BadRequestError('OIDC is not configured, no discovery URL set');
+
+		const url = discoveryUrl.includes('/.well-known/')
+			? discoveryUrl
+			: discoveryUrl.replace(/\/+$/, '') + '/.well-known/openid-configuration';
+
+		let document: OidcDiscoveryDocument;
+		try {
+			({ data: document } = await axios.get<OidcDiscoveryDocument>(url));
+		} catch (error) {
+			throw new BadRequestError(
+				`Error fetching the OIDC discovery document from ${url}: ${(error as Error).message}`,
+			);
+		}
+
+		const missingFields = (
+			['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const
+		).filter((field) => typeof document?.[field] !== 'string');
+		if (missingFields.length > 0) {
+			throw new BadRequestError(
+				`Data received from ${url} is not a valid OIDC discovery document (missing: ${missingFields.join(', ')})`,
+			);
+		}
+
+		this.discoveryDocument = document;
+		return document;
+	}
+
+	/**
+	 * URL of the provider to send the user to, and the signed state of the login, which must
+	 * be returned along with the authorization code on callback.
+	 */
+	async getLoginRequest(redirect?: string, isTest = false) {
+		const discoveryDocument = await this.getDiscoveryDocument();
+
+		const loginState: OidcLoginState = {
+			state: generateRandomToken(),
+			nonce: generateRandomToken(),
+			codeVerifier: generateRandomToken(),
+			redirect: getSafeRedirectPath(redirect),
+			isTest,
+		};
+
+		const url = new URL(discoveryDocument.authorization_endpoint);
+		url.searchParams.set('response_type', 'code');
+		url.searchParams.set('client_id', this._oidcPreferences.clientId ?? '');
+		url.searchParams.set('redirect_uri', getOidcRedirectUri());
+		url.searchParams.set('scope', this._oidcPreferences.scopes || 'openid');
+		url.searchParams.set('state', loginState.state);
+		url.searchParams.set('nonce', loginState.nonce);
+		url.searchParams.set('code_challenge', getCodeChallenge(loginState.codeVerifier));
+		url.searchParams.set('code_challenge_method', 'S256');
+
+		return {
+			url: url.toString(),
+			stateToken: this.jwtService.sign(loginState, {
+				expiresIn: `${OIDC_STATE_EXPIRATION_MINUTES}m`,
+			}),
+		};
+	}
+
+	/** Verify the signed state of the login in progress in the browser */
+	getLoginState(stateToken: string | undefined): OidcLoginState {
+		try {
+			return this.jwtService.verify<OidcLoginState>(stateToken ?? '');
+		} catch {
+			throw new AuthError('The login expired, please try again.');
+		}
+	}
+
+	/** Verify the callback from the provider and retrieve the claims of the user */
+	async handleCallback(
+		query: OidcConfiguration.Callback['query'],
+		loginState: OidcLoginState,
+	): Promise<{ claims: Claims; attributes: OidcUserAttributes }> {
+		if (query.error) {
+			throw new AuthError(`The provider returned: ${query.error_description ?? query.error}`);
+		}
+		if (!query.state || query.state !== loginState.state) {
+			throw new AuthError('The login state does not match.');
+		}
+		if (!query.code) {
+			throw new AuthError('No authorization code was returned.');
+		}
+
+		const { idToken, accessToken } = await this.exchangeCode(query.code, loginState.codeVerifier);
+		let claims = await this.verifyIdToken(idToken, loginState.nonce);
+
+		const mapping = this._oidcPreferences.mapping!;
+		const { userinfo_endpoint: userInfoEndpoint } = await this.getDiscoveryDocument();
+		if (getClaimValues(claims, mapping.email).length === 0 && userInfoEndpoint && accessToken) {
+			claims = { ...(await this.fetchUserInfo(userInfoEndpoint, accessToken, claims)), ...claims };
+		}
+
+		return { claims, attributes: getMappedOidcAttributes(claims, mapping) };
+	}
+
+	/**
+	 * Find the user of the claims, linking an existing user with the same email on their
+	 * first OIDC login or provisioning a new user just in time, and apply the role and
+	 * project mapping to them.
+	 */
+	async handleOidcLogin(
+		attributes: OidcUserAttributes,
+		claims: Claims,
+	): Promise<{ authenticatedUser: User | undefined; onboardingRequired: boolean }> {
+		const identity = await this.authIdentityRepository.findOne({
+			where: { providerId: attributes.sub, providerType: 'oidc' },
+			relations: ['user'],
+		});
+		let user = identity?.user;
+		let onboardingRequired = false;
+
+		if (!user) {
+			const existingUser = await this.userRepository.findOneBy({ email: attributes.email });
+			if (existingUser) {
+				// the owner logs in with a password, so that the provider cannot take over the instance
+				if (existingUser.role === 'global:owner') {
+					throw new AuthError('The owner of the instance cannot be linked by email.');
+				}
+				// an email not verified by the provider would allow taking over the user of that email
+				if (claims.email_verified !== true) {
+					throw new AuthError('The email of the user is not verified.');
+				}
+				await this.authIdentityRepository.save(
+					AuthIdentity.create(existingUser, attributes.sub, 'oidc'),
+					{ transaction: false },
+				);
+				user = existingUser;
+			} else if (isSsoJustInTimeProvisioningEnabled()) {
+				user = await this.createUserFromOidcAttributes(attributes, claims);
+				this.eventService.emit('user-signed-up', { user });
+				onboardingRequired = !user.firstName || !user.lastName;
+			} else {
+				return { authenticatedUser: undefined, onboardingRequired };
+			}
+		}
+
+		if (user.disabled) throw new AuthError('The user is disabled.');
+
+		await this.updateUserFromOidcAttributes(user, attributes, claims);
+		await this.applyProjectMapping(user, claims);
+
+		return { authenticatedUser: user, onboardingRequired };
+	}
+
+	/** Global role and team projects the claims map to, to preview the mapping */
+	getMappingResult(claims: Claims) {
+		return {
+			role: getMappedRole(claims, this._oidcPreferences.roleMapping ?? []),
+			projects: getMappedProjects(claims, this._oidcPreferences.projectMapping ?? []),
+		};
+	}
+
+	private async exchangeCode(code: string, codeVerifier: string) {
+		const { token_endpoint: tokenEndpoint, token_endpoint_auth_methods_supported: authMethods } =
+			await this.getDiscoveryDocument();
+		const { clientId = '', clientSecret } = this._oidcPreferences;
+
+		const body = new URLSearchParams({
+			grant_type: 'authorization_code',
+			code,
+			redirect_uri: getOidcRedirectUri(),
+			code_verifier: codeVerifier,
+			client_id: clientId,
+		});
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/x-www-form-urlencoded',
+			Accept: 'application/json',
+		};
+		if (clientSecret) {
+			// `client_secret_basic` is the default, if the provider does not list its methods
+			const useBasicAuth =
+				!authMethods ||
+				authMethods.includes('client_secret_basic') ||
+				!authMethods.includes('client_secret_post');
+			if (useBasicAuth) {
+				const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+				headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+			} else {
+				body.set('client_secret', clientSecret);
+			}
+		}
+
+		try {
+			const { data } = await axios.post<{ id_token?: string; access_token?: string }>(
+				tokenEndpoint,
+				body.toString(),
+				{ headers },
+			);
+			if (!data.id_token) throw new AuthError('No ID token was returned');
+			return { idToken: data.id_token, accessToken: data.access_token };
+		} catch (error) {
+			const description = axios.isAxiosError<{ error_description?: string; error?: string }>(error)
+				? error.response?.data?.error_description ?? error.response?.data?.error ?? error.message
+				: (error as Error).message;
+			throw new AuthError(`Could not exchange the authorization code. ${description}`);
+		}
+	}
+
+	private async verifyIdToken(idToken: string, nonce: string): Promise<Claims> {
+		const { issuer } = await this.getDiscoveryDocument();
+
+		const decoded = jwt.decode(idToken, { complete: true });
+		if (!decoded) throw new AuthError('The ID token is malformed.');
+
+		const key = await this.getSigningKey(decoded.header.kid);
+
+		let claims: Claims;
+		try {
+			claims = jwt.verify(idToken, key, {
+				algorithms: ID_TOKEN_ALGORITHMS,
+				issuer,
+				audience: this._oidcPreferences.clientId,
+			}) as Claims;
+		} catch (error) {
+			throw new AuthError(`The ID token is invalid. ${(error as Error).message}`);
+		}
+		if (claims.nonce !== nonce) {
+			throw new AuthError('The ID token nonce does not match.');
+		}
+		return claims;
+	}
+
+	/** Public key of the provider, refetching the keys once on a miss for rotated keys */
+	private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+		const findKey = () =>
+			kid
+				? this.signingKeys.get(kid)
+				: this.signingKeys.size === 1
+					? [...this.signingKeys.values()][0]
+					: undefined;
+
+		let key = findKey();
+		if (!key) {
+			await this.fetchSigningKeys();
+			key = findKey();
+		}
+		if (!key) {
+			throw new AuthError('The ID token signing key is unknown.');
+		}
+		return key;
+	}
+
+	private async fetchSigningKeys() {
+		const { jwks_uri: jwksUri } = await this.getDiscoveryDocument();
+		const { data } = await axios.get<{ keys?: Array<JsonWebKey & { kid?: string; use?: string }> }>(
+			jwksUri,
+		);
+
+		this.signingKeys.clear();
+		for (const [index, jwk] of (data.keys ?? []).entries()) {
+			if (jwk.use && jwk.use !== 'sig') continue;
+			try {
+				this.signingKeys.set(
+					jwk.kid ?? String(index),
+					createPublicKey({ key: jwk, format: 'jwk' }),
+				);
+			} catch (error) {
+				this.logger.warn('Ignoring unsupported OIDC signing key', {
+					kid: jwk.kid,
+					error: error as Error,
+				});
+			}
+		}
+	}
+
+	private async fetchUserInfo(endpoint: string, accessToken: string, claims: Claims) {
+		try {
+			const { data } = await axios.get<Claims>(endpoint, {
+				headers: { Authorization: `Bearer ${accessToken}` },
+			});
+			// the user info of another subject must not be trusted
+			return data.sub === claims.sub ? data : {};
+		} catch (error) {
+			this.logger.warn('Failed to fetch the OIDC user info', { error: error as Error });
+			return {};
+		}
+	}
+
+	private async createUserFromOidcAttributes(attributes: OidcUserAttributes, claims: Claims) {
+		const role = getMappedRole(claims, this._oidcPreferences.roleMapping ?? []) ?? 'global:member';
+		return await this.userRepository.manager.transaction(async (trx) => {
+			const { user } = await this.userRepository.createUserWithProject(
+				{
+					email: attributes.email,
+					firstName: attributes.firstName,
+					lastName: attributes.lastName,
+					role,
+					// generates a password that is not used or known to the user
+					password: await this.passwordUtility.hash(randomString(18)),
+				},
+				trx,
+			);
+
+			await trx.save(AuthIdentity.create(user, attributes.sub, 'oidc'));
+
+			return user;
+		});
+	}
+
+	/**
+	 * Update the name of the user and, if role mapping is configured, their global role.
+	 * Users matching no rule become members, for removing a user from a group to revoke
+	 * the role. The owner's role is never changed.
+	 */
+	private async updateUserFromOidcAttributes(
+		user: User,
+		attributes: OidcUserAttributes,
+		claims: Claims,
+	) {
+		const update: Partial<Pick<User, 'firstName' | 'lastName' | 'role'>> = {};
+		if (attributes.firstName && attributes.firstName !== user.firstName) {
+			update.firstName = attributes.firstName;
+		}
+		if (attributes.lastName && attributes.lastName !== user.lastName) {
+			update.lastName = attributes.lastName;
+		}
+
+		const roleMapping = this._oidcPreferences.roleMapping ?? [];
+		if (roleMapping.length > 0 && user.role !== 'global:owner') {
+			const role = getMappedRole(claims, roleMapping) ?? 'global:member';
+			if (role !== user.role) {
+				this.logger.info('Changing the role of user from OIDC claims', { userId: user.id, role });
+				update.role = role;
+			}
+		}
+
+		if (Object.keys(update).length === 0) return;
+		// `save` for the subscriber renaming the personal project to receive the full user
+		Object.assign(user, update);
+		await this.userRepository.save(user, { transaction: false });
+	}
+
+	/**
+	 * Add the user to the team projects their claims map to, or update their role in them.
+	 * Memberships are never removed, as they can also be granted in n8n.
+	 */
+	private async applyProjectMapping(user: User, claims: Claims) {
+		const projects = getMappedProjects(claims, this._oidcPreferences.projectMapping ?? []);
+		if (projects.length === 0) return;
+
+		const relations = await this.projectService.getProjectRelationsForUser(user);
+		for (const { projectId, role } of projects) {
+			if (relations.some((r) => r.projectId === projectId && r.role === role)) continue;
+
+			const project = await this.projectRepository.findOneBy({ id: projectId, type: 'team' });
+			if (!project) {
+				this.logger.warn('Ignoring OIDC project mapping to a missing team project', { projectId });
+				continue;
+			}
+			await this.projectService.addUser(projectId, user.id, role);
+		}
+	}
+}
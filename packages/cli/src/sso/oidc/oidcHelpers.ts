@@ -0,0 +1,137 @@
+import { Container } from 'typedi';
+import { createHash, randomBytes } from 'crypto';
+import get from 'lodash/get';
+
+import config from '@/config';
+import type { AssignableRole } from '@db/entities/User';
+import type { ProjectRole } from '@db/entities/ProjectRelation';
+import { InternalServerError } from '@/errors/response-errors/internal-server.error';
+import { AuthError } from '@/errors/response-errors/auth.error';
+import { License } from '@/License';
+import { UrlService } from '@/services/url.service';
+
+import { OIDC_LOGIN_ENABLED, OIDC_LOGIN_LABEL } from './constants';
+import type {
+	OidcClaimMapping,
+	OidcProjectMappingRule,
+	OidcRoleMappingRule,
+} from './types/oidcPreferences';
+import type { OidcUserAttributes } from './types/oidcUserAttributes';
+import {
+	getCurrentAuthenticationMethod,
+	isEmailCurrentAuthenticationMethod,
+	isOidcCurrentAuthenticationMethod,
+	setCurrentAuthenticationMethod,
+} from '../ssoHelpers';
+
+/**
+ *  Check whether the OIDC feature is licensed and enabled in the instance
+ */
+export function isOidcLoginEnabled(): boolean {
+	return config.getEnv(OIDC_LOGIN_ENABLED);
+}
+
+export function getOidcLoginLabel(): string {
+	return config.getEnv(OIDC_LOGIN_LABEL);
+}
+
+// can only toggle between email and oidc, not directly to e.g. saml
+export async function setOidcLoginEnabled(enabled: boolean): Promise<void> {
+	if (isEmailCurrentAuthenticationMethod() || isOidcCurrentAuthenticationMethod()) {
+		config.set(OIDC_LOGIN_ENABLED, enabled);
+		await setCurrentAuthenticationMethod(enabled ? 'oidc' : 'email');
+	} else if (!enabled) {
+		config.set(OIDC_LOGIN_ENABLED, false);
+	} else {
+		throw new InternalServerError(
+			`Cannot switch OIDC login enabled state when an authentication method other than email or oidc is active (current: ${getCurrentAuthenticationMethod()})`,
+		);
+	}
+}
+
+export function setOidcLoginLabel(label: string): void {
+	config.set(OIDC_LOGIN_LABEL, label);
+}
+
+export function isOidcLicensed(): boolean {
+	return Container.get(License).isOidcEnabled();
+}
+
+export function isOidcLicensedAndEnabled(): boolean {
+	return isOidcLoginEnabled() && isOidcLicensed() && isOidcCurrentAuthenticationMethod();
+}
+
+/** URL the provider sends users back to, to be registered as redirect URI at the provider */
+export function getOidcRedirectUri(): string {
+	return Container.get(UrlService).getInstanceBaseUrl() + '/rest/sso/oidc/callback';
+}
+
+/** Random value to bind a login to the browser it started in, URL-safe */
+export function generateRandomToken(): string {
+	return randomBytes(32).toString('base64url');
+}
+
+/** PKCE code challenge for the verifier, using the `S256` method */
+export function getCodeChallenge(codeVerifier: string): string {
+	return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/** Path within n8n to redirect to after logging in, ignoring absolute URLs */
+export function getSafeRedirectPath(redirect: unknown): string {
+	return typeof redirect === 'string' && redirect.startsWith('/') && !redirect.startsWith('//')
+		? redirect
+		: '/';
+}
+
+/** Values of the claim, which can be nested, e.g. `realm_access.roles` */
+export function getClaimValues(claims: Record<string, unknown>, claim: string): string[] {
+	const value: unknown = get(claims, claim);
+	if (value === undefined || value === null) return [];
+	return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+function matchesRule(claims: Record<string, unknown>, rule: { claim: string; value: string }) {
+	return getClaimValues(claims, rule.claim).includes(rule.value);
+}
+
+/** Global role of the first rule matching the claims */
+export function getMappedRole(
+	claims: Record<string, unknown>,
+	rules: OidcRoleMappingRule[],
+): AssignableRole | undefined {
+	return rules.find((rule) => matchesRule(claims, rule))?.role;
+}
+
+/** Team projects and roles of all rules matching the claims, the first rule winning per project */
+export function getMappedProjects(
+	claims: Record<string, unknown>,
+	rules: OidcProjectMappingRule[],
+): Array<{ projectId: string; role: ProjectRole }> {
+	const projects = new Map<string, ProjectRole>();
+	for (const rule of rules) {
+		if (!projects.has(rule.projectId) && matchesRule(claims, rule)) {
+			projects.set(rule.projectId, rule.role);
+		}
+	}
+	return [...projects].map(([projectId, role]) => ({ projectId, role }));
+}
+
+export function getMappedOidcAttributes(
+	claims: Record<string, unknown>,
+	mapping: OidcClaimMapping,
+): OidcUserAttributes {
+	const [email] = getClaimValues(claims, mapping.email);
+	if (typeof claims.sub !== 'string' || !claims.sub) {
+		throw new AuthError('The ID token has no subject.');
+	}
+	if (!email) {
+		throw new AuthError(`The claims of the user have no email (claim: ${mapping.email}).`);
+	}
+	return {
+		sub: claims.sub,
+		email: email.toLowerCase(),
+		firstName: getClaimValues(claims, mapping.firstName)[0] ?? '',
+		lastName: getClaimValues(claims, mapping.lastName)[0] ?? '',
+		groups: getClaimValues(claims, mapping.groups),
+	};
+}
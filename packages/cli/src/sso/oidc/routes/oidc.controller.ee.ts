@@ -0,0 +1,167 @@
+import express from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+
+import config from '@/config';
+import { Get, Post, RestController, GlobalScope } from '@/decorators';
+import { AuthService } from '@/auth/auth.service';
+import { AuthenticatedRequest } from '@/requests';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import { AuthError } from '@/errors/response-errors/auth.error';
+import { EventService } from '@/events/event.service';
+import { UrlService } from '@/services/url.service';
+import { Time } from '@/constants';
+
+import { OIDC_STATE_COOKIE_NAME, OIDC_STATE_EXPIRATION_MINUTES } from '../constants';
+import { getOidcRedirectUri, isOidcLicensedAndEnabled } from '../oidcHelpers';
+import {
+	oidcLicensedAndEnabledMiddleware,
+	oidcLicensedMiddleware,
+} from '../middleware/oidcEnabledMiddleware';
+import { OidcService } from '../oidc.service.ee';
+import type { OidcLoginState } from '../types';
+import { OidcPreferences } from '../types/oidcPreferences';
+import { OidcConfiguration } from '../types/requests';
+import { getOidcConnectionTestSuccessView } from '../views/oidcConnectionTestSuccess';
+import { getOidcConnectionTestFailedView } from '../views/oidcConnectionTestFailed';
+
+@RestController('/sso/oidc')
+export class OidcController {
+	constructor(
+		private readonly authService: AuthService,
+		private readonly oidcService: OidcService,
+		private readonly urlService: UrlService,
+		private readonly eventService: EventService,
+	) {}
+
+	/**
+	 * Return OIDC config, without the client secret
+	 */
+	@Get('/config', { middlewares: [oidcLicensedMiddleware] })
+	@GlobalScope('oidc:manage')
+	async configGet() {
+		return {
+			...this.oidcService.redactedOidcPreferences,
+			redirectUri: getOidcRedirectUri(),
+		};
+	}
+
+	/**
+	 * Set OIDC config
+	 */
+	@Post('/config', { middlewares: [oidcLicensedMiddleware] })
+	@GlobalScope('oidc:manage')
+	async configPost(req: OidcConfiguration.Update) {
+		const prefs = plainToInstance(OidcPreferences, req.body);
+		const validationResult = await validate(prefs);
+		if (validationResult.length > 0) {
+			throw new BadRequestError(
+				'Body is not a valid OidcPreferences object: ' +
+					validationResult.map((e) => e.toString()).join(','),
+			);
+		}
+		return await this.oidcService.setOidcPreferences(prefs);
+	}
+
+	/**
+	 * Toggle OIDC status
+	 */
+	@Post('/config/toggle', { middlewares: [oidcLicensedMiddleware] })
+	@GlobalScope('oidc:manage')
+	async toggleEnabledPost(req: OidcConfiguration.Toggle, res: express.Response) {
+		if (req.body.loginEnabled === undefined) {
+			throw new BadRequestError('Body should contain a boolean "loginEnabled" property');
+		}
+		await this.oidcService.setOidcPreferences({ loginEnabled: req.body.loginEnabled });
+		return res.sendStatus(200);
+	}
+
+	/**
+	 * Access URL for starting a login at the OIDC provider
+	 * This endpoint is available if OIDC is licensed and enabled
+	 */
+	@Get('/login', { middlewares: [oidcLicensedAndEnabledMiddleware], skipAuth: true })
+	async loginGet(req: OidcConfiguration.Login, res: express.Response) {
+		return await this.handleInitLogin(res, req.query.redirect);
+	}
+
+	/**
+	 * Test OIDC config
+	 * This endpoint is available if OIDC is licensed and the requestor is an instance owner
+	 */
+	@Get('/config/test', { middlewares: [oidcLicensedMiddleware] })
+	@GlobalScope('oidc:manage')
+	async configTestGet(_: AuthenticatedRequest, res: express.Response) {
+		return await this.handleInitLogin(res, undefined, true);
+	}
+
+	/**
+	 * Redirect URI the OIDC provider returns users to with an authorization code
+	 * Available if OIDC is licensed, even if not enabled, to run connection tests
+	 */
+	@Get('/callback', { middlewares: [oidcLicensedMiddleware], skipAuth: true })
+	async callbackGet(req: OidcConfiguration.Callback, res: express.Response) {
+		const stateToken = (req.cookies as Record<string, string | undefined>)[OIDC_STATE_COOKIE_NAME];
+		res.clearCookie(OIDC_STATE_COOKIE_NAME);
+
+		let loginState: OidcLoginState | undefined;
+		let userEmail = 'unknown';
+		try {
+			loginState = this.oidcService.getLoginState(stateToken);
+			const { claims, attributes } = await this.oidcService.handleCallback(req.query, loginState);
+			userEmail = attributes.email;
+
+			if (loginState.isTest) {
+				return res.send(
+					getOidcConnectionTestSuccessView(attributes, this.oidcService.getMappingResult(claims)),
+				);
+			}
+
+			// Only sign in users if OIDC is enabled, the callback is otherwise for connection tests
+			if (!isOidcLicensedAndEnabled()) {
+				throw new AuthError('OIDC login is not enabled');
+			}
+
+			const { authenticatedUser, onboardingRequired } = await this.oidcService.handleOidcLogin(
+				attributes,
+				claims,
+			);
+			if (!authenticatedUser) {
+				throw new AuthError(
+					'No user exists for this email, and just-in-time provisioning is disabled',
+				);
+			}
+
+			this.authService.issueCookie(res, authenticatedUser, req.browserId);
+			this.eventService.emit('user-logged-in', {
+				user: authenticatedUser,
+				authenticationMethod: 'oidc',
+			});
+
+			const redirectUrl = onboardingRequired ? '/saml/onboarding' : loginState.redirect;
+			return res.redirect(this.urlService.getInstanceBaseUrl() + redirectUrl);
+		} catch (error) {
+			if (loginState?.isTest) {
+				return res.send(getOidcConnectionTestFailedView((error as Error).message));
+			}
+			this.eventService.emit('user-login-failed', {
+				userEmail,
+				authenticationMethod: 'oidc',
+				reason: (error as Error).message,
+			});
+			throw new AuthError('OIDC Authentication failed: ' + (error as Error).message);
+		}
+	}
+
+	private async handleInitLogin(res: express.Response, redirect?: string, isTest = false) {
+		const { url, stateToken } = await this.oidcService.getLoginRequest(redirect, isTest);
+		res.cookie(OIDC_STATE_COOKIE_NAME, stateToken, {
+			maxAge: OIDC_STATE_EXPIRATION_MINUTES * Time.minutes.toMilliseconds,
+			httpOnly: true,
+			// sent along with the top-level redirect from the provider
+			sameSite: 'lax',
+			secure: config.getEnv('secure_cookie'),
+		});
+		return url;
+	}
+}
@@ -0,0 +1,18 @@
+/** Subset of the OpenID Provider metadata used by n8n */
+export interface OidcDiscoveryDocument {
+	issuer: string;
+	authorization_endpoint: string;
+	token_endpoint: string;
+	jwks_uri: string;
+	userinfo_endpoint?: string;
+	token_endpoint_auth_methods_supported?: string[];
+	code_challenge_methods_supported?: string[];
+}
+
+export interface OidcLoginState {
+	state: string;
+	nonce: string;
+	codeVerifier: string;
+	redirect: string;
+	isTest: boolean;
+}
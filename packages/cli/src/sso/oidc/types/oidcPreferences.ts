@@ -0,0 +1,90 @@
+import { Type } from 'class-transformer';
+import {
+	IsArray,
+	IsBoolean,
+	IsIn,
+	IsObject,
+	IsOptional,
+	IsString,
+	ValidateNested,
+} from 'class-validator';
+import { AssignableRole } from '@db/entities/User';
+import { ProjectRole } from '@db/entities/ProjectRelation';
+
+export interface OidcClaimMapping {
+	email: string;
+	firstName: string;
+	lastName: string;
+	/** Claim listing the groups or roles of the user, e.g. `groups` or `realm_access.roles` */
+	groups: string;
+}
+
+/** Grants the global role to users whose claim has the value, or contains it for list claims */
+export class OidcRoleMappingRule {
+	@IsString()
+	claim: string;
+
+	@IsString()
+	value: string;
+
+	@IsIn(['global:admin', 'global:member'])
+	role: AssignableRole;
+}
+
+/** Adds users whose claim has the value, or contains it for list claims, to the team project */
+export class OidcProjectMappingRule {
+	@IsString()
+	claim: string;
+
+	@IsString()
+	value: string;
+
+	@IsString()
+	projectId: string;
+
+	@IsIn(['project:admin', 'project:editor', 'project:viewer'])
+	role: ProjectRole;
+}
+
+export class OidcPreferences {
+	/** URL of the issuer, or of its `/.well-known/openid-configuration` document */
+	@IsString()
+	@IsOptional()
+	discoveryUrl?: string;
+
+	@IsString()
+	@IsOptional()
+	clientId?: string;
+
+	@IsString()
+	@IsOptional()
+	clientSecret?: string;
+
+	@IsString()
+	@IsOptional()
+	scopes?: string;
+
+	@IsObject()
+	@IsOptional()
+	mapping?: OidcClaimMapping;
+
+	@IsArray()
+	@ValidateNested({ each: true })
+	@Type(() => OidcRoleMappingRule)
+	@IsOptional()
+	roleMapping?: OidcRoleMappingRule[];
+
+	@IsArray()
+	@ValidateNested({ each: true })
+	@Type(() => OidcProjectMappingRule)
+	@IsOptional()
+	projectMapping?: OidcProjectMappingRule[];
+
+	@IsBoolean()
+	@IsOptional()
+	loginEnabled?: boolean;
+
+	@IsString()
+	@IsOptional()
+	loginLabel?: string;
+}
@@ -0,0 +1,8 @@
+export interface OidcUserAttributes {
+	/** Subject identifier of the user at the provider */
+	sub: string;
+	email: string;
+	firstName: string;
+	lastName: string;
+	groups: string[];
+}
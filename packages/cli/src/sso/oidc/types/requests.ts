@@ -0,0 +1,21 @@
+import type { AuthenticatedRequest, AuthlessRequest } from '@/requests';
+import type { OidcPreferences } from './oidcPreferences';
+
+export declare namespace OidcConfiguration {
+	type Update = AuthenticatedRequest<{}, {}, OidcPreferences, {}>;
+	type Toggle = AuthenticatedRequest<{}, {}, { loginEnabled: boolean }, {}>;
+
+	type Login = AuthlessRequest<{}, {}, {}, { redirect?: string }>;
+
+	type Callback = AuthlessRequest<
+		{},
+		{},
+		{},
+		{
+			code?: string;
+			state?: string;
+			error?: string;
+			error_description?: string;
+		}
+	>;
+}
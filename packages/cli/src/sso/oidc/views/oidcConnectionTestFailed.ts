@@ -0,0 +1,24 @@
+import escape from 'lodash/escape';
+
+export function getOidcConnectionTestFailedView(message: string): string {
+	return `
+    <http>
+    <head>
+    <title>n8n - OIDC Connection Test Result</title>
+    <style>
+        body { background: rgb(251,252,254); font-family: 'Open Sans', sans-serif; padding: 10px; margin: auto; width: 500px; top: 40%; position: relative; }
+        h1 { color: rgb(240, 60, 60); font-size: 16px; font-weight: 400; margin: 0 0 10px 0; }
+        h2 { color: rgb(0, 0, 0); font-size: 12px; font-weight: 400; margin: 0 0 10px 0; }
+        button { border: 1px solid rgb(219, 223, 231); background: rgb(255, 255, 255); border-radius: 4px; padding: 10px; }
+    </style>
+    </head>
+    <body>
+    <div style="text-align:center">
+    <h1>OIDC Connection Test failed</h1>
+    <h2>${escape(message)}</h2>
+    <button onclick="window.close()">You can close this window now</button>
+    </div>
+    </body>
+    </http>
+	`;
+}
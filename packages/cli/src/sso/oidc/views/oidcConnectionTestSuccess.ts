@@ -0,0 +1,49 @@
+import escape from 'lodash/escape';
+import type { ProjectRole } from '@db/entities/ProjectRelation';
+import type { AssignableRole } from '@db/entities/User';
+import type { OidcUserAttributes } from '../types/oidcUserAttributes';
+
+export function getOidcConnectionTestSuccessView(
+	attributes: OidcUserAttributes,
+	mapping: {
+		role: AssignableRole | undefined;
+		projects: Array<{ projectId: string; role: ProjectRole }>;
+	},
+): string {
+	const projects = mapping.projects.map(({ projectId, role }) => `${projectId} (${role})`);
+	return `
+    <http>
+    <head>
+    <title>n8n - OIDC Connection Test Result</title>
+    <style>
+        body { background: rgb(251,252,254); font-family: 'Open Sans', sans-serif; padding: 10px; margin: auto; width: 500px; top: 40%; position: relative; }
+        h1 { color: rgb(0, 0, 0); font-size: 16px; font-weight: 400; margin: 0 0 10px 0; }
+        h2 { color: rgb(0, 0, 0); font-size: 12px; font-weight: 400; margin: 0 0 10px 0; }
+        button { border: 1px solid rgb(219, 223, 231); background: rgb(255, 255, 255); border-radius: 4px; padding: 10px; }
+        ul { border: 1px solid rgb(219, 223, 231); border-radius: 4px; padding: 10px; }
+        li { decoration: none; list-style: none; margin: 0 0 0px 0; color: rgb(125, 125, 125); font-size: 12px;}
+    </style>
+    </head>
+    <body>
+    <div style="text-align:center">
+    <h1>OIDC Connection Test was successful</h1>
+    <button onclick="window.close()">You can close this window now</button>
+    <p></p>
+    <h2>Here are the claims returned by your OIDC provider:</h2>
+    <ul>
+    <li><strong>Subject:</strong> ${escape(attributes.sub)}</li>
+    <li><strong>Email:</strong> ${escape(attributes.email)}</li>
+    <li><strong>First Name:</strong> ${escape(attributes.firstName) || '(n/a)'}</li>
+    <li><strong>Last Name:</strong> ${escape(attributes.lastName) || '(n/a)'}</li>
+    <li><strong>Groups:</strong> ${escape(attributes.groups.join(', ')) || '(n/a)'}</li>
+    </ul>
+    <h2>Here is what the user is mapped to:</h2>
+    <ul>
+    <li><strong>Role:</strong> ${mapping.role ?? '(no rule matches)'}</li>
+    <li><strong>Projects:</strong> ${escape(projects.join(', ')) || '(no rule matches)'}</li>
+    </ul>
+    </div>
+    </body>
+    </http>
+	`;
+}
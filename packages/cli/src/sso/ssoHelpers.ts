@@ -31,6 +31,10 @@ export function isSamlCurrentAuthenticationMethod(): boolean {
 	return getCurrentAuthenticationMethod() === 'saml';
 }
 
+export function isOidcCurrentAuthenticationMethod(): boolean {
+	return getCurrentAuthenticationMethod() === 'oidc';
+}
+
 export function isLdapCurrentAuthenticationMethod(): boolean {
 	return getCurrentAuthenticationMethod() === 'ldap';
 }
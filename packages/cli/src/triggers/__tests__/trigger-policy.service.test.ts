@@ -0,0 +1,209 @@
+import { mock } from 'jest-mock-extended';
+import type {
+	Expression,
+	INode,
+	INodeExecutionData,
+	INodeTriggerPolicy,
+	Workflow,
+} from 'n8n-workflow';
+import type { Logger } from '@/Logger';
+import { TriggerPolicyService } from '../trigger-policy.service';
+
+const toData = (...ids: number[]): INodeExecutionData[][] => [ids.map((id) => ({ json: { id } }))];
+
+const toIds = (data: INodeExecutionData[][]) => data[0].map((item) => item.json.id);
+
+describe('TriggerPolicyService', () => {
+	let service: TriggerPolicyService;
+	let run: jest.Mock;
+
+	const expression = mock<Expression>();
+	const workflow = mock<Workflow>({ id: 'workflow-1', expression });
+
+	const toNode = (triggerPolicy?: INodeTriggerPolicy) =>
+		({ name: 'Trigger', triggerPolicy }) as INode;
+
+	beforeAll(() => {
+		jest.useFakeTimers();
+	});
+
+	beforeEach(() => {
+		service = new TriggerPolicyService(mock<Logger>());
+		run = jest.fn().mockResolvedValue(undefined);
+
+		// evaluate `{{ $json.group }}` as the `group` field of the item
+		expression.getParameterValue.mockImplementation(
+			(_key, _runExecutionData, _runIndex, itemIndex, _nodeName, items) =>
+				items[itemIndex].json.group as string,
+		);
+	});
+
+	afterEach(() => {
+		service.flushAll();
+		jest.clearAllTimers();
+	});
+
+	describe('appliesTo', () => {
+		it('should apply to nodes with a valid policy', () => {
+			const node = toNode({ mode: 'debounce', window: 1000 });
+
+			expect(service.appliesTo(node, 'trigger')).toBe(true);
+			expect(service.appliesTo(node, 'webhook')).toBe(true);
+		});
+
+		it('should not apply to manual executions', () => {
+			expect(service.appliesTo(toNode({ mode: 'debounce', window: 1000 }), 'manual')).toBe(false);
+		});
+
+		it('should not apply to nodes without a valid policy', () => {
+			expect(service.appliesTo(toNode(), 'trigger')).toBe(false);
+			expect(service.appliesTo(toNode({ mode: 'debounce', window: 0 }), 'trigger')).toBe(false);
+			expect(service.appliesTo(toNode({ mode: 'debounce', window: 1.5 }), 'trigger')).toBe(false);
+			expect(
+				service.appliesTo(
+					toNode({ mode: 'unknown' as INodeTriggerPolicy['mode'], window: 1000 }),
+					'trigger',
+				),
+			).toBe(false);
+		});
+	});
+
+	describe('debounce', () => {
+		it('should run once after events stop arriving for the window', async () => {
+			const node = toNode({ mode: 'debounce', window: 1000 });
+
+			service.submit({ workflow, node, data: toData(1), mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(800);
+			service.submit({ workflow, node, data: toData(2), mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(800);
+
+			expect(run).not.toHaveBeenCalled();
+
+			await jest.advanceTimersByTimeAsync(200);
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(toIds(run.mock.calls[0][0])).toEqual([1, 2]);
+		});
+
+		it('should run once the max wait passed, even if events keep arriving', async () => {
+			const node = toNode({ mode: 'debounce', window: 1000, maxWait: 2500 });
+
+			for (let id = 1; id <= 3; id++) {
+				service.submit({ workflow, node, data: toData(id), mode: 'trigger' }, run);
+				await jest.advanceTimersByTimeAsync(800);
+			}
+
+			expect(run).not.toHaveBeenCalled();
+
+			service.submit({ workflow, node, data: toData(4), mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(100);
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(toIds(run.mock.calls[0][0])).toEqual([1, 2, 3, 4]);
+		});
+
+		it('should wait at most 10 windows by default', async () => {
+			const node = toNode({ mode: 'debounce', window: 1000 });
+
+			for (let id = 1; id <= 12; id++) {
+				service.submit({ workflow, node, data: toData(id), mode: 'trigger' }, run);
+				await jest.advanceTimersByTimeAsync(900);
+			}
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(toIds(run.mock.calls[0][0])).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+		});
+	});
+
+	describe('coalesce', () => {
+		it('should run once per window, regardless of new events', async () => {
+			const node = toNode({ mode: 'coalesce', window: 1000 });
+
+			service.submit({ workflow, node, data: toData(1), mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(800);
+			service.submit({ workflow, node, data: toData(2), mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(200);
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(toIds(run.mock.calls[0][0])).toEqual([1, 2]);
+
+			service.submit({ workflow, node, data: toData(3), mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(1000);
+
+			expect(run).toHaveBeenCalledTimes(2);
+			expect(toIds(run.mock.calls[1][0])).toEqual([3]);
+		});
+	});
+
+	describe('throttle', () => {
+		it('should run the first event right away and batch the rest until the window closes', async () => {
+			const node = toNode({ mode: 'throttle', window: 1000 });
+
+			service.submit({ workflow, node, data: toData(1), mode: 'trigger' }, run);
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(toIds(run.mock.calls[0][0])).toEqual([1]);
+
+			service.submit({ workflow, node, data: toData(2), mode: 'trigger' }, run);
+			service.submit({ workflow, node, data: toData(3), mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(1000);
+
+			expect(run).toHaveBeenCalledTimes(2);
+			expect(toIds(run.mock.calls[1][0])).toEqual([2, 3]);
+
+			// window with no events closes without a run, so the next event runs right away
+			await jest.advanceTimersByTimeAsync(1000);
+			service.submit({ workflow, node, data: toData(4), mode: 'trigger' }, run);
+
+			expect(run).toHaveBeenCalledTimes(3);
+			expect(toIds(run.mock.calls[2][0])).toEqual([4]);
+		});
+	});
+
+	describe('key', () => {
+		it('should batch items separately per resolved key', async () => {
+			const node = toNode({ mode: 'coalesce', window: 1000, key: '={{ $json.group }}' });
+
+			const data: INodeExecutionData[][] = [
+				[
+					{ json: { id: 1, group: 'a' } },
+					{ json: { id: 2, group: 'b' } },
+					{ json: { id: 3, group: 'a' } },
+				],
+			];
+
+			service.submit({ workflow, node, data, mode: 'trigger' }, run);
+			await jest.advanceTimersByTimeAsync(1000);
+
+			expect(run).toHaveBeenCalledTimes(2);
+			expect(run.mock.calls.map(([batch]) => toIds(batch))).toEqual([[1, 3], [2]]);
+		});
+	});
+
+	describe('maxItems', () => {
+		it('should run early once the batch reaches the max item count', () => {
+			const node = toNode({ mode: 'debounce', window: 1000, maxItems: 3 });
+
+			service.submit({ workflow, node, data: toData(1, 2), mode: 'trigger' }, run);
+
+			expect(run).not.toHaveBeenCalled();
+
+			service.submit({ workflow, node, data: toData(3), mode: 'trigger' }, run);
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(toIds(run.mock.calls[0][0])).toEqual([1, 2, 3]);
+		});
+	});
+
+	describe('flushAll', () => {
+		it('should run all batched events right away', () => {
+			const node = toNode({ mode: 'debounce', window: 1000 });
+
+			service.submit({ workflow, node, data: toData(1), mode: 'trigger' }, run);
+			service.flushAll();
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(toIds(run.mock.calls[0][0])).toEqual([1]);
+		});
+	});
+});
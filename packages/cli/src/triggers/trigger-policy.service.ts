@@ -0,0 +1,251 @@
+import { Service } from 'typedi';
+import type {
+	INode,
+	INodeExecutionData,
+	INodeTriggerPolicy,
+	Workflow,
+	WorkflowExecuteMode,
+} from 'n8n-workflow';
+import { Logger } from '@/Logger';
+import { OnShutdown } from '@/decorators/OnShutdown';
+import { HIGHEST_SHUTDOWN_PRIORITY } from '@/constants';
+
+const TRIGGER_POLICY_MODES: Array<INodeTriggerPolicy['mode']> = [
+	'debounce',
+	'throttle',
+	'coalesce',
+];
+
+/** How many windows a debounced batch waits at most, unless the policy sets `maxWait` */
+const DEFAULT_MAX_WAIT_WINDOWS = 10;
+
+type RunFn = (data: INodeExecutionData[][]) => Promise<unknown>;
+
+type Bucket = {
+	policy: INodeTriggerPolicy;
+	data: INodeExecutionData[][];
+	openedAt: number;
+	timer: NodeJS.Timeout;
+	run: RunFn;
+};
+
+/**
+ * Collapses bursts of events of trigger and webhook nodes into fewer executions,
+ * based on the `triggerPolicy` of the node. Events are batched per workflow, node
+ * and policy key in the process that received them.
+ *
+ * Batched events are kept in memory only. They are run on shutdown, but lost if
+ * the process crashes before their window closes.
+ */
+@Service()
+export class TriggerPolicyService {
+	private readonly buckets = new Map<string, Bucket>();
+
+	constructor(private readonly logger: Logger) {}
+
+	/**
+	 * Whether events of this node in this mode are subject to a trigger policy.
+	 * Manual executions are never batched.
+	 */
+	appliesTo(node: INode, mode: WorkflowExecuteMode) {
+		if (mode === 'manual' || !node.triggerPolicy) return false;
+
+		const { mode: policyMode, window } = node.triggerPolicy;
+
+		return TRIGGER_POLICY_MODES.includes(policyMode) && Number.isInteger(window) && window > 0;
+	}
+
+	/**
+	 * Hand over the output of an event of a trigger or webhook node. Items are grouped by
+	 * the policy key and, depending on the policy, run now or batched with other events
+	 * of the same group until its window closes.
+	 */
+	submit(
+		{
+			workflow,
+			node,
+			data,
+			mode,
+		}: { workflow: Workflow; node: INode; data: INodeExecutionData[][]; mode: WorkflowExecuteMode },
+		run: RunFn,
+	) {
+		const policy = node.triggerPolicy!;
+
+		for (const [key, groupData] of this.groupByKey(workflow, node, data, mode)) {
+			const bucketId = [workflow.id, node.name, key].join(':');
+
+			this.add(bucketId, policy, groupData, run);
+		}
+	}
+
+	/**
+	 * Run all batched events right away, e.g. so that they are not lost on shutdown.
+	 */
+	@OnShutdown(HIGHEST_SHUTDOWN_PRIORITY)
+	flushAll() {
+		for (const bucketId of [...this.buckets.keys()]) {
+			this.flush(bucketId, { reopen: false });
+		}
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	private add(
+		bucketId: string,
+		policy: INodeTriggerPolicy,
+		data: INodeExecutionData[][],
+		run: RunFn,
+	) {
+		const bucket = this.buckets.get(bucketId);
+
+		if (!bucket) {
+			if (policy.mode === 'throttle') {
+				// leading edge runs right away, later events wait for the window to close
+				this.runBatch(bucketId, data, run);
+				this.open(bucketId, policy, [], run);
+			} else {
+				this.open(bucketId, policy, data, run);
+			}
+		} else {
+			bucket.data = this.merge(bucket.data, data);
+
+			if (policy.mode === 'debounce') {
+				const maxWait = policy.maxWait ?? policy.window * DEFAULT_MAX_WAIT_WINDOWS;
+				const delay = Math.min(policy.window, bucket.openedAt + maxWait - Date.now());
+
+				clearTimeout(bucket.timer);
+				bucket.timer = this.schedule(bucketId, policy, Math.max(delay, 0));
+			}
+		}
+
+		const current = this.buckets.get(bucketId);
+
+		if (current && policy.maxItems && this.countItems(current.data) >= policy.maxItems) {
+			this.flush(bucketId, { reopen: policy.mode === 'throttle' });
+		}
+	}
+
+	private open(
+		bucketId: string,
+		policy: INodeTriggerPolicy,
+		data: INodeExecutionData[][],
+		run: RunFn,
+	) {
+		this.buckets.set(bucketId, {
+			policy,
+			data,
+			run,
+			openedAt: Date.now(),
+			timer: this.schedule(bucketId, policy),
+		});
+	}
+
+	private schedule(bucketId: string, policy: INodeTriggerPolicy, delay = policy.window) {
+		return setTimeout(() => this.flush(bucketId, { reopen: policy.mode === 'throttle' }), delay);
+	}
+
+	/**
+	 * Close the window of a bucket and run its batched events, if any. A throttled bucket
+	 * that did run reopens, so that the next run waits for another window.
+	 */
+	private flush(bucketId: string, { reopen }: { reopen: boolean }) {
+		const bucket = this.buckets.get(bucketId);
+
+		if (!bucket) return;
+
+		clearTimeout(bucket.timer);
+		this.buckets.delete(bucketId);
+
+		if (this.countItems(bucket.data) === 0) return;
+
+		this.runBatch(bucketId, bucket.data, bucket.run);
+
+		if (reopen) this.open(bucketId, bucket.policy, [], bucket.run);
+	}
+
+	private runBatch(bucketId: string, data: INodeExecutionData[][], run: RunFn) {
+		this.logger.debug('[Trigger Policy] Running batched events', {
+			bucketId,
+			itemCount: this.countItems(data),
+		});
+
+		void run(data).catch((error: Error) =>
+			this.logger.error('[Trigger Policy] Failed to run batched events', {
+				bucketId,
+				error,
+			}),
+		);
+	}
+
+	/**
+	 * Split the output of an event by the value the policy key resolves to for each item.
+	 */
+	private groupByKey(
+		workflow: Workflow,
+		node: INode,
+		data: INodeExecutionData[][],
+		mode: WorkflowExecuteMode,
+	) {
+		const groups = new Map<string, INodeExecutionData[][]>();
+		const { key } = node.triggerPolicy!;
+
+		data.forEach((items, outputIndex) => {
+			items.forEach((item, itemIndex) => {
+				const groupKey = key ? this.resolveKey(workflow, node, key, items, itemIndex, mode) : '';
+
+				const group = groups.get(groupKey) ?? data.map(() => []);
+				group[outputIndex].push(item);
+				groups.set(groupKey, group);
+			});
+		});
+
+		return groups;
+	}
+
+	private resolveKey(
+		workflow: Workflow,
+		node: INode,
+		key: string,
+		items: INodeExecutionData[],
+		itemIndex: number,
+		mode: WorkflowExecuteMode,
+	) {
+		try {
+			const value = workflow.expression.getParameterValue(
+				key,
+				null,
+				0,
+				itemIndex,
+				node.name,
+				items,
+				mode,
+				{},
+			);
+
+			return typeof value === 'object' ? JSON.stringify(value) : String(value);
+		} catch (error) {
+			this.logger.warn('[Trigger Policy] Failed to resolve policy key, batching item ungrouped', {
+				workflowId: workflow.id,
+				nodeName: node.name,
+				error: error as Error,
+			});
+
+			return '';
+		}
+	}
+
+	private merge(target: INodeExecutionData[][], source: INodeExecutionData[][]) {
+		const outputCount = Math.max(target.length, source.length);
+
+		return Array.from({ length: outputCount }, (_, i) => [
+			...(target[i] ?? []),
+			...(source[i] ?? []),
+		]);
+	}
+
+	private countItems(data: INodeExecutionData[][]) {
+		return data.reduce((count, items) => count + items.length, 0);
+	}
+}
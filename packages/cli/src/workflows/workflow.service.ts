@@ -2,6 +2,7 @@ import { Service } from 'typedi';
 import { NodeApiError } from 'n8n-workflow';
 import pick from 'lodash/pick';
 import omit from 'lodash/omit';
+import isEqual from 'lodash/isEqual';
 import { v4 as uuid } from 'uuid';
 import { BinaryDataService } from 'n8n-core';
 
@@ -90,7 +91,7 @@ export class WorkflowService {
 		workflowId: string,
 		tagIds?: string[],
 		forceSave?: boolean,
-	): Promise<WorkflowEntity> {
+	): Promise<WorkflowEntity & { merged?: boolean }> {
 		const workflow = await this.sharedWorkflowRepository.findWorkflowForUser(workflowId, user, [
 			'workflow:update',
 		]);
@@ -105,15 +106,36 @@ export class WorkflowService {
 			);
 		}
 
+		const workflowSettings = workflowUpdateData.settings ?? {};
+
+		const keysAllowingDefault = [
+			'timezone',
+			'saveDataErrorExecution',
+			'saveDataSuccessExecution',
+			'saveManualExecutions',
+			'saveExecutionProgress',
+		] as const;
+		for (const key of keysAllowingDefault) {
+			// Do not save the default value
+			if (workflowSettings[key] === 'DEFAULT') {
+				delete workflowSettings[key];
+			}
+		}
+
+		if (workflowSettings.executionTimeout === config.get('executions.timeout')) {
+			// Do not save when default got set
+			delete workflowSettings.executionTimeout;
+		}
+
+		let merged = false;
+
 		if (
 			!forceSave &&
 			workflowUpdateData.versionId !== '' &&
 			workflowUpdateData.versionId !== workflow.versionId
 		) {
-			throw new BadRequestError(
-				'Your most recent changes may be lost, because someone else just updated this workflow. Open this workflow in a new tab to see those new updates.',
-				100,
-			);
+			await this.mergeConcurrentUpdate(workflow, workflowUpdateData);
+			merged = true;
 		}
 
 		if (Object.keys(omit(workflowUpdateData, ['id', 'versionId', 'active'])).length > 0) {
@@ -147,27 +169,6 @@ export class WorkflowService {
 			await this.activeWorkflowManager.remove(workflowId);
 		}
 
-		const workflowSettings = workflowUpdateData.settings ?? {};
-
-		const keysAllowingDefault = [
-			'timezone',
-			'saveDataErrorExecution',
-			'saveDataSuccessExecution',
-			'saveManualExecutions',
-			'saveExecutionProgress',
-		] as const;
-		for (const key of keysAllowingDefault) {
-			// Do not save the default value
-			if (workflowSettings[key] === 'DEFAULT') {
-				delete workflowSettings[key];
-			}
-		}
-
-		if (workflowSettings.executionTimeout === config.get('executions.timeout')) {
-			// Do not save when default got set
-			delete workflowSettings.executionTimeout;
-		}
-
 		if (workflowUpdateData.name) {
 			workflowUpdateData.updatedAt = new Date(); // required due to atomic update
 			await validateEntity(workflowUpdateData);
@@ -251,7 +252,55 @@ export class WorkflowService {
 
 		await this.orchestrationService.init();
 
-		return updatedWorkflow;
+		return merged ? Object.assign(updatedWorkflow, { merged }) : updatedWorkflow;
+	}
+
+	/**
+	 * Merge the nodes and connections of an update based on an outdated version of the
+	 * workflow with the changes saved since, e.g. by another user. The update is rejected
+	 * if the changes conflict, the version it is based on is not in the history, or it
+	 * would overwrite the current name, settings, pinned data or metadata, which the
+	 * history does not keep to merge against.
+	 */
+	private async mergeConcurrentUpdate(workflow: WorkflowEntity, update: WorkflowEntity) {
+		const conflictMessage =
+			'Your most recent changes may be lost, because someone else just updated this workflow. Open this workflow in a new tab to see those new updates.';
+
+		if (!update.nodes || !update.connections) {
+			throw new BadRequestError(conflictMessage, 100);
+		}
+
+		const overwritesCurrent =
+			(update.name !== undefined && update.name !== workflow.name) ||
+			(['settings', 'pinData', 'meta'] as const).some(
+				(key) => update[key] !== undefined && !isEqual(update[key] ?? {}, workflow[key] ?? {}),
+			);
+
+		if (overwritesCurrent) {
+			throw new BadRequestError(conflictMessage, 100);
+		}
+
+		const result = await this.workflowHistoryService.mergeConcurrentUpdate(workflow, {
+			nodes: update.nodes,
+			connections: update.connections,
+			versionId: update.versionId,
+		});
+
+		if (!result) {
+			throw new BadRequestError(conflictMessage, 100);
+		}
+
+		if (result.conflicts.length > 0) {
+			const nodeNames = [...new Set(result.conflicts.map((conflict) => conflict.nodeName))];
+
+			throw new BadRequestError(
+				`Your changes conflict with changes someone else just saved to ${nodeNames.join(', ')}. Open this workflow in a new tab to see those new updates.`,
+				100,
+			);
+		}
+
+		update.nodes = result.nodes;
+		update.connections = result.connections;
 	}
 
 	async delete(user: User, workflowId: string): Promise<WorkflowEntity | undefined> {
@@ -0,0 +1,284 @@
+import cloneDeep from 'lodash/cloneDeep';
+import isEqual from 'lodash/isEqual';
+import isPlainObject from 'lodash/isPlainObject';
+import omit from 'lodash/omit';
+import set from 'lodash/set';
+import unset from 'lodash/unset';
+import type {
+	IConnections,
+	INode,
+	IWorkflowBase,
+	NodeConnectionType,
+	WorkflowDiff,
+} from 'n8n-workflow';
+
+export type WorkflowGraph = Pick<IWorkflowBase, 'nodes' | 'connections'>;
+
+export type MergeResult = WorkflowGraph & { conflicts: WorkflowDiff.Conflict[] };
+
+function diffValues(
+	before: unknown,
+	after: unknown,
+	path: string[],
+	changes: WorkflowDiff.PropertyChange[],
+) {
+	if (isEqual(before, after)) return;
+
+	if (isPlainObject(before) && isPlainObject(after)) {
+		const beforeObject = before as Record<string, unknown>;
+		const afterObject = after as Record<string, unknown>;
+		const keys = new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]);
+
+		for (const key of keys) {
+			diffValues(beforeObject[key], afterObject[key], [...path, key], changes);
+		}
+
+		return;
+	}
+
+	changes.push({ path, before, after });
+}
+
+/**
+ * Find the changed properties of a node, down to nested parameters. Arrays are compared
+ * as a whole, since their items have no identity to match them by.
+ */
+export function diffNodes(before: INode, after: INode) {
+	const changes: WorkflowDiff.PropertyChange[] = [];
+
+	diffValues(omit(before, 'id'), omit(after, 'id'), [], changes);
+
+	return changes;
+}
+
+export function toConnectionList(connections: IConnections) {
+	const list: WorkflowDiff.Connection[] = [];
+
+	for (const [source, connectionsByType] of Object.entries(connections)) {
+		for (const [type, outputs] of Object.entries(connectionsByType) as Array<
+			[NodeConnectionType, IConnections[string][string]]
+		>) {
+			outputs.forEach((targets, sourceOutput) => {
+				for (const target of targets ?? []) {
+					list.push({ source, type, sourceOutput, target: target.node, targetInput: target.index });
+				}
+			});
+		}
+	}
+
+	return list;
+}
+
+export function toConnections(list: WorkflowDiff.Connection[]) {
+	const connections: IConnections = {};
+
+	for (const { source, type, sourceOutput, target, targetInput } of list) {
+		const outputs = ((connections[source] ??= {})[type] ??= []);
+
+		while (outputs.length <= sourceOutput) outputs.push([]);
+
+		outputs[sourceOutput].push({ node: target, type, index: targetInput });
+	}
+
+	return connections;
+}
+
+const toConnectionKey = ({
+	source,
+	type,
+	sourceOutput,
+	target,
+	targetInput,
+}: WorkflowDiff.Connection) => JSON.stringify([source, type, sourceOutput, target, targetInput]);
+
+/**
+ * Compute the structural differences between two versions of a workflow.
+ */
+export function diffWorkflows(from: WorkflowGraph, to: WorkflowGraph): WorkflowDiff.Result {
+	const fromNodes = new Map(from.nodes.map((node) => [node.id, node]));
+	const toNodes = new Map(to.nodes.map((node) => [node.id, node]));
+
+	const changed: WorkflowDiff.NodeChange[] = [];
+
+	for (const node of to.nodes) {
+		const previous = fromNodes.get(node.id);
+
+		if (!previous) continue;
+
+		const changes = diffNodes(previous, node);
+
+		if (changes.length > 0) changed.push({ id: node.id, name: node.name, changes });
+	}
+
+	const fromConnections = toConnectionList(from.connections);
+	const toConnectionsList = toConnectionList(to.connections);
+	const fromKeys = new Set(fromConnections.map(toConnectionKey));
+	const toKeys = new Set(toConnectionsList.map(toConnectionKey));
+
+	return {
+		nodes: {
+			added: to.nodes.filter((node) => !fromNodes.has(node.id)),
+			removed: from.nodes.filter((node) => !toNodes.has(node.id)),
+			changed,
+		},
+		connections: {
+			added: toConnectionsList.filter((c) => !fromKeys.has(toConnectionKey(c))),
+			removed: fromConnections.filter((c) => !toKeys.has(toConnectionKey(c))),
+		},
+	};
+}
+
+const isPrefix = (prefix: string[], path: string[]) =>
+	prefix.length <= path.length && prefix.every((key, i) => path[i] === key);
+
+const overlaps = (a: string[], b: string[]) => isPrefix(a, b) || isPrefix(b, a);
+
+function applyChange(node: INode, { path, after }: WorkflowDiff.PropertyChange) {
+	if (after === undefined) unset(node, path);
+	else set(node, path, cloneDeep(after));
+}
+
+/**
+ * Merge the changes of both sides to a node, property by property. Changes to the same
+ * property, or to a property and one nested in it, conflict unless they are identical.
+ */
+function mergeNode(base: INode, ours: INode, theirs: INode, conflicts: WorkflowDiff.Conflict[]) {
+	const merged = cloneDeep(base);
+	const ourChanges = diffNodes(base, ours);
+	const theirChanges = diffNodes(base, theirs);
+
+	ourChanges.forEach((change) => applyChange(merged, change));
+
+	for (const change of theirChanges) {
+		const conflicting = ourChanges.filter((ourChange) => overlaps(ourChange.path, change.path));
+
+		if (conflicting.length === 0) {
+			applyChange(merged, change);
+		} else if (
+			!conflicting.every((c) => isEqual(c.path, change.path) && isEqual(c.after, change.after))
+		) {
+			conflicts.push({
+				nodeId: base.id,
+				nodeName: ours.name,
+				path: change.path,
+				ours: conflicting[0].after,
+				theirs: change.after,
+			});
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Merge the nodes of two versions of a workflow derived from a common base version.
+ * Nodes added by either side are kept, nodes removed by either side are dropped
+ * unless the other side changed them, which is a conflict.
+ */
+function mergeNodes(base: INode[], ours: INode[], theirs: INode[]) {
+	const baseNodes = new Map(base.map((node) => [node.id, node]));
+	const ourNodes = new Map(ours.map((node) => [node.id, node]));
+	const theirNodes = new Map(theirs.map((node) => [node.id, node]));
+	const ids = new Set([...ourNodes.keys(), ...theirNodes.keys()]);
+
+	const nodes: INode[] = [];
+	const conflicts: WorkflowDiff.Conflict[] = [];
+
+	for (const id of ids) {
+		const baseNode = baseNodes.get(id);
+		const ourNode = ourNodes.get(id);
+		const theirNode = theirNodes.get(id);
+
+		if (!baseNode) {
+			if (ourNode && theirNode && !isEqual(ourNode, theirNode)) {
+				conflicts.push({
+					nodeId: id,
+					nodeName: ourNode.name,
+					path: [],
+					ours: ourNode,
+					theirs: theirNode,
+				});
+			}
+
+			nodes.push((ourNode ?? theirNode) as INode);
+		} else if (ourNode && theirNode) {
+			nodes.push(mergeNode(baseNode, ourNode, theirNode, conflicts));
+		} else {
+			const remainingNode = (ourNode ?? theirNode) as INode;
+
+			if (!isEqual(baseNode, remainingNode)) {
+				conflicts.push({
+					nodeId: id,
+					nodeName: remainingNode.name,
+					path: [],
+					ours: ourNode,
+					theirs: theirNode,
+				});
+			}
+		}
+	}
+
+	const names = new Set<string>();
+
+	for (const node of nodes) {
+		if (names.has(node.name)) {
+			conflicts.push({ nodeId: node.id, nodeName: node.name, path: ['name'] });
+		}
+
+		names.add(node.name);
+	}
+
+	return { nodes, conflicts };
+}
+
+/**
+ * Describe connections by the IDs of the nodes they connect, so that renaming a node
+ * does not change them.
+ */
+function toConnectionIds(graph: WorkflowGraph) {
+	const idsByName = new Map(graph.nodes.map((node) => [node.name, node.id]));
+
+	return toConnectionList(graph.connections).map((connection) => ({
+		...connection,
+		source: idsByName.get(connection.source) ?? connection.source,
+		target: idsByName.get(connection.target) ?? connection.target,
+	}));
+}
+
+/**
+ * Three-way merge of two versions of a workflow saved concurrently from a common base
+ * version, e.g. by two users editing the same workflow.
+ */
+export function mergeWorkflows(
+	base: WorkflowGraph,
+	ours: WorkflowGraph,
+	theirs: WorkflowGraph,
+): MergeResult {
+	const { nodes, conflicts } = mergeNodes(base.nodes, ours.nodes, theirs.nodes);
+
+	const baseKeys = new Set(toConnectionIds(base).map(toConnectionKey));
+	const ourConnections = toConnectionIds(ours);
+	const theirConnections = toConnectionIds(theirs);
+	const ourKeys = new Set(ourConnections.map(toConnectionKey));
+	const theirKeys = new Set(theirConnections.map(toConnectionKey));
+
+	const isKept = (key: string) =>
+		baseKeys.has(key) ? ourKeys.has(key) && theirKeys.has(key) : true;
+
+	const namesById = new Map(nodes.map((node) => [node.id, node.name]));
+	const seen = new Set<string>();
+	const connections: WorkflowDiff.Connection[] = [];
+
+	for (const connection of [...ourConnections, ...theirConnections]) {
+		const key = toConnectionKey(connection);
+		const source = namesById.get(connection.source);
+		const target = namesById.get(connection.target);
+
+		if (seen.has(key) || !isKept(key) || !source || !target) continue;
+
+		seen.add(key);
+		connections.push({ ...connection, source, target });
+	}
+
+	return { nodes, connections: toConnections(connections), conflicts };
+}
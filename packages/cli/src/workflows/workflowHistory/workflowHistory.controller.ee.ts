@@ -5,6 +5,7 @@ import { Request, Response, NextFunction } from 'express';
 import { isWorkflowHistoryEnabled, isWorkflowHistoryLicensed } from './workflowHistoryHelper.ee';
 
 import { paginationListQueryMiddleware } from '@/middlewares/listQuery/pagination';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
 import { NotFoundError } from '@/errors/response-errors/not-found.error';
 import { SharedWorkflowNotFoundError } from '@/errors/shared-workflow-not-found.error';
 import { WorkflowHistoryVersionNotFoundError } from '@/errors/workflow-history-version-not-found.error';
@@ -69,4 +70,27 @@ export class WorkflowHistoryController {
 			throw e;
 		}
 	}
+
+	@Get('/workflow/:workflowId/diff')
+	async getDiff(req: WorkflowHistoryRequest.GetDiff) {
+		if (!req.query.from) {
+			throw new BadRequestError('Version to compare from is missing');
+		}
+
+		try {
+			return await this.historyService.getDiff(
+				req.user,
+				req.params.workflowId,
+				req.query.from,
+				req.query.to,
+			);
+		} catch (e) {
+			if (e instanceof SharedWorkflowNotFoundError) {
+				throw new NotFoundError('Could not find workflow');
+			} else if (e instanceof WorkflowHistoryVersionNotFoundError) {
+				throw new NotFoundError('Could not find version');
+			}
+			throw e;
+		}
+	}
 }
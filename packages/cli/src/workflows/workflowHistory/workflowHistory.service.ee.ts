@@ -1,10 +1,13 @@
 import type { User } from '@db/entities/User';
 import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
 import type { WorkflowHistory } from '@db/entities/WorkflowHistory';
+import type { WorkflowDiff } from 'n8n-workflow';
 import { SharedWorkflowRepository } from '@db/repositories/sharedWorkflow.repository';
 import { WorkflowHistoryRepository } from '@db/repositories/workflowHistory.repository';
 import { Service } from 'typedi';
 import { isWorkflowHistoryEnabled } from './workflowHistoryHelper.ee';
+import type { MergeResult, WorkflowGraph } from './workflowDiff';
+import { diffWorkflows, mergeWorkflows } from './workflowDiff';
 import { Logger } from '@/Logger';
 import { SharedWorkflowNotFoundError } from '@/errors/shared-workflow-not-found.error';
 import { WorkflowHistoryVersionNotFoundError } from '@/errors/workflow-history-version-not-found.error';
@@ -63,6 +66,50 @@ export class WorkflowHistoryService {
 		return hist;
 	}
 
+	/**
+	 * Compare two versions of a workflow. Without a version to compare to, the version
+	 * is compared to the current state of the workflow.
+	 */
+	async getDiff(
+		user: User,
+		workflowId: string,
+		fromVersionId: string,
+		toVersionId?: string,
+	): Promise<WorkflowDiff.Result> {
+		const workflow = await this.sharedWorkflowRepository.findWorkflowForUser(workflowId, user, [
+			'workflow:read',
+		]);
+
+		if (!workflow) {
+			throw new SharedWorkflowNotFoundError('');
+		}
+
+		const from = await this.findVersion(workflow.id, fromVersionId);
+		const to = toVersionId ? await this.findVersion(workflow.id, toVersionId) : workflow;
+
+		return diffWorkflows(from, to);
+	}
+
+	/**
+	 * Merge an update based on an outdated version of a workflow into its current state,
+	 * using the version the update is based on as common ancestor. Returns `null` if that
+	 * version is not in the history.
+	 */
+	async mergeConcurrentUpdate(
+		current: WorkflowEntity,
+		update: WorkflowGraph & { versionId: string },
+	): Promise<MergeResult | null> {
+		if (!isWorkflowHistoryEnabled()) return null;
+
+		const base = await this.workflowHistoryRepository.findOne({
+			where: { workflowId: current.id, versionId: update.versionId },
+		});
+
+		if (!base) return null;
+
+		return mergeWorkflows(base, update, current);
+	}
+
 	async saveVersion(user: User, workflow: WorkflowEntity, workflowId: string) {
 		// On some update scenarios, `nodes` and `connections` are missing, such as when
 		// changing workflow settings or renaming. In these cases, we don't want to save
@@ -84,4 +131,16 @@ export class WorkflowHistoryService {
 			}
 		}
 	}
+
+	private async findVersion(workflowId: string, versionId: string) {
+		const version = await this.workflowHistoryRepository.findOne({
+			where: { workflowId, versionId },
+		});
+
+		if (!version) {
+			throw new WorkflowHistoryVersionNotFoundError('');
+		}
+
+		return version;
+	}
 }
@@ -0,0 +1,76 @@
+import { Service } from 'typedi';
+import type { HttpRecording, WorkflowSettings } from 'n8n-workflow';
+import { Logger } from '@/Logger';
+import { WorkflowHttpRecordingRepository } from '@db/repositories/workflowHttpRecording.repository';
+
+/**
+ * Stores the HTTP exchanges of request helpers recorded during manual executions of a
+ * workflow, to replay them in later manual executions and in test runs.
+ */
+@Service()
+export class WorkflowHttpRecordingService {
+	constructor(
+		private readonly logger: Logger,
+		private readonly workflowHttpRecordingRepository: WorkflowHttpRecordingRepository,
+	) {}
+
+	/**
+	 * Start a session for a manual execution of a workflow, as per its HTTP recording setting.
+	 * A replay session without a recording makes every request fail, instead of hitting the network.
+	 */
+	async startSession(
+		workflowId: string,
+		setting: WorkflowSettings.HttpRecording = 'off',
+	): Promise<HttpRecording.Session | undefined> {
+		if (setting === 'off') return undefined;
+
+		if (setting === 'record') return { mode: 'record', exchanges: [] };
+
+		return (await this.findReplaySession(workflowId)) ?? { mode: 'replay', exchanges: [] };
+	}
+
+	/** Find the recording of a workflow to replay, if there is one. */
+	async findReplaySession(workflowId: string): Promise<HttpRecording.Session | undefined> {
+		const recording = await this.workflowHttpRecordingRepository.findOneBy({ workflowId });
+
+		return recording ? { mode: 'replay', exchanges: recording.exchanges } : undefined;
+	}
+
+	/** Save the exchanges of a record session, replacing the previous recording of the workflow. */
+	async saveSession(workflowId: string, session: HttpRecording.Session) {
+		if (session.mode !== 'record') return;
+
+		try {
+			await this.workflowHttpRecordingRepository.save(
+				this.workflowHttpRecordingRepository.create({ workflowId, exchanges: session.exchanges }),
+			);
+
+			this.logger.debug('[HTTP Recording] Saved recording', {
+				workflowId,
+				exchanges: session.exchanges.length,
+			});
+		} catch (error) {
+			this.logger.error('[HTTP Recording] Failed to save recording', {
+				workflowId,
+				error: error as Error,
+			});
+		}
+	}
+
+	async findSummary(workflowId: string) {
+		const recording = await this.workflowHttpRecordingRepository.findOneBy({ workflowId });
+
+		if (!recording) return null;
+
+		return {
+			workflowId,
+			exchanges: recording.exchanges.length,
+			nodeNames: [...new Set(recording.exchanges.map(({ nodeName }) => nodeName))],
+			updatedAt: recording.updatedAt,
+		};
+	}
+
+	async delete(workflowId: string) {
+		await this.workflowHttpRecordingRepository.delete({ workflowId });
+	}
+}
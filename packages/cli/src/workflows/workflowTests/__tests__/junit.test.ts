@@ -0,0 +1,55 @@
+import type { WorkflowTest } from 'n8n-workflow';
+import { toJUnitXml } from '../junit';
+
+describe('toJUnitXml', () => {
+	const suite: WorkflowTest.SuiteResult = {
+		workflowId: '123',
+		workflowName: 'Orders & Invoices',
+		tests: 3,
+		passed: 1,
+		failed: 1,
+		errors: 1,
+		durationMs: 1500,
+		results: [
+			{ testCaseId: 'a', name: 'Happy path', status: 'passed', durationMs: 500, failures: [] },
+			{
+				testCaseId: 'b',
+				name: 'Invoice',
+				status: 'failed',
+				durationMs: 500,
+				failures: [
+					{
+						assertion: { nodeName: 'Set', type: 'itemCount', expected: 1 },
+						message: 'Expected node "Set" to output 1 items, but got 2',
+					},
+				],
+			},
+			{
+				testCaseId: 'c',
+				name: 'Broken',
+				status: 'error',
+				durationMs: 500,
+				failures: [],
+				error: 'Test case has no pin data for a trigger node to start from',
+			},
+		],
+	};
+
+	test('should render test suites with escaped names and messages', () => {
+		const xml = toJUnitXml([suite]);
+
+		expect(xml).toContain('<testsuites name="n8n" tests="3" failures="1" errors="1" time="1.500">');
+		expect(xml).toContain(
+			'<testsuite name="Orders &amp; Invoices" id="123" tests="3" failures="1" errors="1" time="1.500">',
+		);
+		expect(xml).toContain(
+			'<testcase name="Happy path" classname="Orders &amp; Invoices" time="0.500" />',
+		);
+		expect(xml).toContain(
+			'<failure message="Expected node &quot;Set&quot; to output 1 items, but got 2">',
+		);
+		expect(xml).toContain(
+			'<error message="Test case has no pin data for a trigger node to start from">',
+		);
+	});
+});
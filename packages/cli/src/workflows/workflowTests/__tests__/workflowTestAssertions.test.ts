@@ -0,0 +1,79 @@
+import type { IRunData } from 'n8n-workflow';
+import { evaluateAssertion } from '../workflowTestAssertions';
+
+describe('evaluateAssertion', () => {
+	const runData = {
+		Set: [
+			{
+				data: { main: [[{ json: { id: 1, name: 'Jane' } }, { json: { id: 2, name: 'John' } }]] },
+				source: [],
+				startTime: 0,
+				executionTime: 0,
+			},
+		],
+		'HTTP Request': [
+			{ error: { message: 'Request failed' }, source: [], startTime: 0, executionTime: 0 },
+		],
+	} as unknown as IRunData;
+
+	test('should pass if the output equals the expected items', () => {
+		const message = evaluateAssertion(runData, {
+			nodeName: 'Set',
+			type: 'equals',
+			expected: [
+				{ id: 1, name: 'Jane' },
+				{ id: 2, name: 'John' },
+			],
+		});
+
+		expect(message).toBeUndefined();
+	});
+
+	test('should fail if the output differs from the expected items', () => {
+		const message = evaluateAssertion(runData, {
+			nodeName: 'Set',
+			type: 'equals',
+			expected: [{ id: 1, name: 'Jane' }],
+		});
+
+		expect(message).toContain('Expected output of node "Set" to equal');
+	});
+
+	test('should match items partially on contains', () => {
+		expect(
+			evaluateAssertion(runData, { nodeName: 'Set', type: 'contains', expected: [{ id: 1 }] }),
+		).toBeUndefined();
+
+		expect(
+			evaluateAssertion(runData, {
+				nodeName: 'Set',
+				type: 'contains',
+				expected: [{ id: 1 }, { name: 'Jane' }],
+			}),
+		).toContain('Expected item 1 of node "Set" to contain {"name":"Jane"}');
+	});
+
+	test('should count output items', () => {
+		expect(
+			evaluateAssertion(runData, { nodeName: 'Set', type: 'itemCount', expected: 2 }),
+		).toBeUndefined();
+
+		expect(evaluateAssertion(runData, { nodeName: 'Set', type: 'itemCount', expected: 3 })).toBe(
+			'Expected node "Set" to output 3 items, but got 2',
+		);
+	});
+
+	test('should check whether a node was executed', () => {
+		expect(evaluateAssertion(runData, { nodeName: 'Set', type: 'executed' })).toBeUndefined();
+		expect(evaluateAssertion(runData, { nodeName: 'Code', type: 'notExecuted' })).toBeUndefined();
+		expect(evaluateAssertion(runData, { nodeName: 'Code', type: 'executed' })).toBe(
+			'Expected node "Code" to be executed',
+		);
+	});
+
+	test('should fail if the node failed', () => {
+		expect(evaluateAssertion(runData, { nodeName: 'HTTP Request', type: 'executed' })).toBe(
+			'Node "HTTP Request" failed: Request failed',
+		);
+	});
+});
@@ -0,0 +1,52 @@
+import type { WorkflowTest } from 'n8n-workflow';
+
+const escapeXml = (value: string) =>
+	value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+
+const toSeconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function toTestCase(suite: WorkflowTest.SuiteResult, result: WorkflowTest.CaseResult) {
+	const attributes = `name="${escapeXml(result.name)}" classname="${escapeXml(suite.workflowName)}" time="${toSeconds(result.durationMs)}"`;
+
+	if (result.status === 'error') {
+		const message = escapeXml(result.error ?? 'Unknown error');
+		return `    <testcase ${attributes}>\n      <error message="${message}">${message}</error>\n    </testcase>`;
+	}
+
+	if (result.status === 'failed') {
+		const failures = result.failures.map(({ message }) => escapeXml(message));
+		return `    <testcase ${attributes}>\n      <failure message="${failures[0]}">${failures.join('\n')}</failure>\n    </testcase>`;
+	}
+
+	return `    <testcase ${attributes} />`;
+}
+
+/**
+ * Render results of workflow test suites in the JUnit XML format, for CI systems to report on.
+ */
+export function toJUnitXml(suites: WorkflowTest.SuiteResult[]) {
+	const sum = (key: 'tests' | 'failed' | 'errors' | 'durationMs') =>
+		suites.reduce((acc, suite) => acc + suite[key], 0);
+
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="n8n" tests="${sum('tests')}" failures="${sum('failed')}" errors="${sum('errors')}" time="${toSeconds(sum('durationMs'))}">`,
+	];
+
+	for (const suite of suites) {
+		lines.push(
+			`  <testsuite name="${escapeXml(suite.workflowName)}" id="${escapeXml(suite.workflowId)}" tests="${suite.tests}" failures="${suite.failed}" errors="${suite.errors}" time="${toSeconds(suite.durationMs)}">`,
+			...suite.results.map((result) => toTestCase(suite, result)),
+			'  </testsuite>',
+		);
+	}
+
+	lines.push('</testsuites>');
+
+	return lines.join('\n') + '\n';
+}
@@ -0,0 +1,51 @@
+import isEqual from 'lodash/isEqual';
+import isMatch from 'lodash/isMatch';
+import type { IRunData, WorkflowTest } from 'n8n-workflow';
+
+const toJson = (value: unknown) => JSON.stringify(value);
+
+/**
+ * Evaluate an assertion against the run data of a test execution, on the output of the
+ * last run of the asserted node.
+ *
+ * @returns Message describing the failure, or `undefined` if the assertion holds.
+ */
+export function evaluateAssertion(runData: IRunData, assertion: WorkflowTest.Assertion) {
+	const { nodeName, type, expected, outputIndex = 0 } = assertion;
+
+	const lastRun = runData[nodeName]?.at(-1);
+
+	if (type === 'notExecuted') {
+		return lastRun ? `Expected node "${nodeName}" not to be executed` : undefined;
+	}
+
+	if (!lastRun) return `Expected node "${nodeName}" to be executed`;
+
+	if (lastRun.error) return `Node "${nodeName}" failed: ${lastRun.error.message}`;
+
+	if (type === 'executed') return undefined;
+
+	const actual = (lastRun.data?.main[outputIndex] ?? []).map((item) => item.json);
+
+	if (type === 'itemCount') {
+		return actual.length === expected
+			? undefined
+			: `Expected node "${nodeName}" to output ${toJson(expected)} items, but got ${actual.length}`;
+	}
+
+	const expectedItems = Array.isArray(expected) ? expected : [];
+
+	if (type === 'equals') {
+		return isEqual(actual, expectedItems)
+			? undefined
+			: `Expected output of node "${nodeName}" to equal ${toJson(expectedItems)}, but got ${toJson(actual)}`;
+	}
+
+	const mismatchIndex = expectedItems.findIndex(
+		(expectedItem, index) => actual[index] === undefined || !isMatch(actual[index], expectedItem),
+	);
+
+	return mismatchIndex === -1
+		? undefined
+		: `Expected item ${mismatchIndex} of node "${nodeName}" to contain ${toJson(expectedItems[mismatchIndex])}, but got ${toJson(actual[mismatchIndex])}`;
+}
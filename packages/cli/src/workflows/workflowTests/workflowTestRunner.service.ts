@@ -0,0 +1,176 @@
+import { Service } from 'typedi';
+import type { INode, IRunExecutionData, IWorkflowBase, WorkflowTest } from 'n8n-workflow';
+import { ApplicationError, Workflow } from 'n8n-workflow';
+import type { WorkflowTestCase } from '@db/entities/WorkflowTestCase';
+import { ActiveExecutions } from '@/ActiveExecutions';
+import { Logger } from '@/Logger';
+import { NodeTypes } from '@/NodeTypes';
+import { WorkflowRunner } from '@/WorkflowRunner';
+import { WorkflowHttpRecordingService } from '@/workflows/workflowHttpRecording.service';
+import { evaluateAssertion } from './workflowTestAssertions';
+
+/**
+ * Runs test cases of a workflow as manual executions, without saving them. Each test case
+ * starts from the pinned trigger node, with any other pinned nodes mocking their output.
+ * If HTTP exchanges were recorded for the workflow, requests are served from them.
+ */
+@Service()
+export class WorkflowTestRunner {
+	constructor(
+		private readonly logger: Logger,
+		private readonly nodeTypes: NodeTypes,
+		private readonly workflowRunner: WorkflowRunner,
+		private readonly activeExecutions: ActiveExecutions,
+		private readonly workflowHttpRecordingService: WorkflowHttpRecordingService,
+	) {}
+
+	async runSuite(
+		workflowData: IWorkflowBase,
+		testCases: WorkflowTestCase[],
+		userId: string,
+	): Promise<WorkflowTest.SuiteResult> {
+		const results: WorkflowTest.CaseResult[] = [];
+
+		for (const testCase of testCases) {
+			results.push(await this.runCase(workflowData, testCase, userId));
+		}
+
+		const count = (status: WorkflowTest.Status) =>
+			results.filter((result) => result.status === status).length;
+
+		return {
+			workflowId: workflowData.id,
+			workflowName: workflowData.name,
+			tests: results.length,
+			passed: count('passed'),
+			failed: count('failed'),
+			errors: count('error'),
+			durationMs: results.reduce((acc, result) => acc + result.durationMs, 0),
+			results,
+		};
+	}
+
+	async runCase(
+		workflowData: IWorkflowBase,
+		testCase: WorkflowTestCase,
+		userId: string,
+	): Promise<WorkflowTest.CaseResult> {
+		const startedAt = Date.now();
+		const result: WorkflowTest.CaseResult = {
+			testCaseId: testCase.id,
+			name: testCase.name,
+			status: 'passed',
+			durationMs: 0,
+			failures: [],
+		};
+
+		try {
+			const run = await this.execute(workflowData, testCase, userId);
+
+			if (!run) throw new ApplicationError('Test case did not return any data');
+
+			const { resultData } = run.data;
+
+			for (const assertion of testCase.assertions) {
+				const message = evaluateAssertion(resultData.runData, assertion);
+
+				if (message) result.failures.push({ assertion, message });
+			}
+
+			if (resultData.error) {
+				result.status = 'error';
+				result.error = resultData.error.message;
+			} else if (result.failures.length > 0) {
+				result.status = 'failed';
+			}
+		} catch (error) {
+			this.logger.debug('[Workflow Tests] Failed to run test case', {
+				workflowId: workflowData.id,
+				testCaseId: testCase.id,
+				error: error as Error,
+			});
+
+			result.status = 'error';
+			result.error = (error as Error).message;
+		}
+
+		result.durationMs = Date.now() - startedAt;
+
+		return result;
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	private async execute(workflowData: IWorkflowBase, testCase: WorkflowTestCase, userId: string) {
+		const { pinData } = testCase;
+
+		const workflow = new Workflow({
+			id: workflowData.id,
+			name: workflowData.name,
+			nodes: workflowData.nodes,
+			connections: workflowData.connections,
+			active: false,
+			nodeTypes: this.nodeTypes,
+			staticData: undefined,
+			settings: workflowData.settings,
+			pinData,
+		});
+
+		const triggerNode = this.findTrigger(workflow, Object.keys(pinData));
+
+		const runExecutionData: IRunExecutionData = {
+			startData: {},
+			resultData: { runData: {}, pinData },
+			executionData: {
+				contextData: {},
+				metadata: {},
+				nodeExecutionStack: [
+					{ node: triggerNode, data: { main: [pinData[triggerNode.name]] }, source: null },
+				],
+				waitingExecution: {},
+				waitingExecutionSource: {},
+			},
+		};
+
+		const hasRecording = await this.workflowHttpRecordingService.findSummary(workflowData.id);
+
+		const executionId = await this.workflowRunner.run({
+			executionMode: 'manual',
+			executionData: runExecutionData,
+			pinData,
+			workflowData: {
+				...workflowData,
+				settings: {
+					...workflowData.settings,
+					saveManualExecutions: false,
+					httpRecording: hasRecording ? 'replay' : 'off',
+				},
+			},
+			userId,
+		});
+
+		return await this.activeExecutions.getPostExecutePromise(executionId);
+	}
+
+	/**
+	 * Find the pinned node to start the test case from, i.e. the first one without parents.
+	 */
+	private findTrigger(workflow: Workflow, pinnedNodeNames: string[]): INode {
+		const trigger = Object.values(workflow.nodes).find(
+			(node) =>
+				!node.disabled &&
+				pinnedNodeNames.includes(node.name) &&
+				workflow.getParentNodes(node.name).length === 0,
+		);
+
+		if (!trigger) {
+			throw new ApplicationError('Test case has no pin data for a trigger node to start from', {
+				level: 'warning',
+			});
+		}
+
+		return trigger;
+	}
+}
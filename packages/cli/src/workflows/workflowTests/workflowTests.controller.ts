@@ -0,0 +1,76 @@
+import { Response } from 'express';
+import { RestController, Get, Post, Patch, Delete } from '@/decorators';
+import { WorkflowTestRequest } from '@/requests';
+import { NotFoundError } from '@/errors/response-errors/not-found.error';
+import { SharedWorkflowNotFoundError } from '@/errors/shared-workflow-not-found.error';
+import { WorkflowTestCaseNotFoundError } from '@/errors/workflow-test-case-not-found.error';
+import { WorkflowTestsService } from './workflowTests.service';
+import { toJUnitXml } from './junit';
+
+@RestController('/workflow-tests')
+export class WorkflowTestsController {
+	constructor(private readonly workflowTestsService: WorkflowTestsService) {}
+
+	@Get('/workflow/:workflowId')
+	async getAll(req: WorkflowTestRequest.GetAll) {
+		return await this.handleNotFound(
+			async () => await this.workflowTestsService.getAll(req.user, req.params.workflowId),
+		);
+	}
+
+	@Post('/workflow/:workflowId')
+	async create(req: WorkflowTestRequest.Create) {
+		return await this.handleNotFound(
+			async () => await this.workflowTestsService.create(req.user, req.params.workflowId, req.body),
+		);
+	}
+
+	@Post('/workflow/:workflowId/run')
+	async run(req: WorkflowTestRequest.Run, res: Response) {
+		const suite = await this.handleNotFound(
+			async () =>
+				await this.workflowTestsService.run(req.user, req.params.workflowId, req.body.testCaseIds),
+		);
+
+		if (req.query.format === 'junit') {
+			res.type('application/xml').send(toJUnitXml([suite]));
+			return;
+		}
+
+		return suite;
+	}
+
+	@Patch('/workflow/:workflowId/:testCaseId')
+	async update(req: WorkflowTestRequest.Update) {
+		const { workflowId, testCaseId } = req.params;
+
+		return await this.handleNotFound(
+			async () =>
+				await this.workflowTestsService.update(req.user, workflowId, testCaseId, req.body),
+		);
+	}
+
+	@Delete('/workflow/:workflowId/:testCaseId')
+	async delete(req: WorkflowTestRequest.Delete) {
+		const { workflowId, testCaseId } = req.params;
+
+		await this.handleNotFound(
+			async () => await this.workflowTestsService.delete(req.user, workflowId, testCaseId),
+		);
+
+		return true;
+	}
+
+	private async handleNotFound<T>(fn: () => Promise<T>) {
+		try {
+			return await fn();
+		} catch (e) {
+			if (e instanceof SharedWorkflowNotFoundError) {
+				throw new NotFoundError('Could not find workflow');
+			} else if (e instanceof WorkflowTestCaseNotFoundError) {
+				throw new NotFoundError('Could not find test case');
+			}
+			throw e;
+		}
+	}
+}
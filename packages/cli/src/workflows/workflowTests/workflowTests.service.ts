@@ -0,0 +1,138 @@
+import { Service } from 'typedi';
+import type { Scope } from '@n8n/permissions';
+import type { WorkflowTest } from 'n8n-workflow';
+import type { User } from '@db/entities/User';
+import type { WorkflowTestCase } from '@db/entities/WorkflowTestCase';
+import { SharedWorkflowRepository } from '@db/repositories/sharedWorkflow.repository';
+import { WorkflowTestCaseRepository } from '@db/repositories/workflowTestCase.repository';
+import { validateEntity } from '@/GenericHelpers';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import { SharedWorkflowNotFoundError } from '@/errors/shared-workflow-not-found.error';
+import { WorkflowTestCaseNotFoundError } from '@/errors/workflow-test-case-not-found.error';
+import type { WorkflowTestRequest } from '@/requests';
+import { WorkflowTestRunner } from './workflowTestRunner.service';
+
+const ASSERTION_TYPES = new Set<WorkflowTest.AssertionType>([
+	'equals',
+	'contains',
+	'itemCount',
+	'executed',
+	'notExecuted',
+]);
+
+@Service()
+export class WorkflowTestsService {
+	constructor(
+		private readonly sharedWorkflowRepository: SharedWorkflowRepository,
+		private readonly workflowTestCaseRepository: WorkflowTestCaseRepository,
+		private readonly workflowTestRunner: WorkflowTestRunner,
+	) {}
+
+	async getAll(user: User, workflowId: string) {
+		await this.findWorkflow(user, workflowId, 'workflow:read');
+
+		return await this.workflowTestCaseRepository.findByWorkflowId(workflowId);
+	}
+
+	async create(user: User, workflowId: string, payload: WorkflowTestRequest.Payload) {
+		await this.findWorkflow(user, workflowId, 'workflow:update');
+
+		const testCase = this.workflowTestCaseRepository.create({
+			workflowId,
+			name: payload.name,
+			pinData: payload.pinData ?? {},
+			assertions: payload.assertions ?? [],
+		});
+
+		await this.validate(testCase);
+
+		return await this.workflowTestCaseRepository.save(testCase);
+	}
+
+	async update(
+		user: User,
+		workflowId: string,
+		testCaseId: string,
+		payload: WorkflowTestRequest.Payload,
+	) {
+		await this.findWorkflow(user, workflowId, 'workflow:update');
+
+		const testCase = await this.findTestCase(workflowId, testCaseId);
+
+		const { name, pinData, assertions } = payload;
+
+		this.workflowTestCaseRepository.merge(testCase, { name, pinData, assertions });
+
+		await this.validate(testCase);
+
+		return await this.workflowTestCaseRepository.save(testCase);
+	}
+
+	async delete(user: User, workflowId: string, testCaseId: string) {
+		await this.findWorkflow(user, workflowId, 'workflow:update');
+
+		const testCase = await this.findTestCase(workflowId, testCaseId);
+
+		await this.workflowTestCaseRepository.remove(testCase);
+	}
+
+	/**
+	 * Run test cases of a workflow, all of them unless specified.
+	 */
+	async run(user: User, workflowId: string, testCaseIds?: string[]) {
+		const workflow = await this.findWorkflow(user, workflowId, 'workflow:execute');
+
+		const testCases = await this.workflowTestCaseRepository.findByWorkflowId(
+			workflowId,
+			testCaseIds,
+		);
+
+		return await this.workflowTestRunner.runSuite(workflow, testCases, user.id);
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	private async findWorkflow(user: User, workflowId: string, scope: Scope) {
+		const workflow = await this.sharedWorkflowRepository.findWorkflowForUser(workflowId, user, [
+			scope,
+		]);
+
+		if (!workflow) throw new SharedWorkflowNotFoundError('');
+
+		return workflow;
+	}
+
+	private async findTestCase(workflowId: string, testCaseId: string) {
+		const testCase = await this.workflowTestCaseRepository.findOneBy({
+			id: testCaseId,
+			workflowId,
+		});
+
+		if (!testCase) throw new WorkflowTestCaseNotFoundError('');
+
+		return testCase;
+	}
+
+	private async validate(testCase: WorkflowTestCase) {
+		await validateEntity(testCase);
+
+		for (const assertion of testCase.assertions) {
+			if (typeof assertion?.nodeName !== 'string' || !ASSERTION_TYPES.has(assertion.type)) {
+				throw new BadRequestError('Test case assertions must have a node name and a valid type.');
+			}
+
+			if (assertion.type === 'itemCount' && typeof assertion.expected !== 'number') {
+				throw new BadRequestError('Assertions on item count must expect a number.');
+			}
+
+			if (
+				(assertion.type === 'equals' || assertion.type === 'contains') &&
+				!Array.isArray(assertion.expected)
+			) {
+				throw new BadRequestError('Assertions on output items must expect an array of items.');
+			}
+		}
+	}
+}
@@ -22,6 +22,7 @@ import * as utils from '@/utils';
 import { listQueryMiddleware } from '@/middlewares';
 import { TagService } from '@/services/tag.service';
 import { WorkflowHistoryService } from './workflowHistory/workflowHistory.service.ee';
+import { WorkflowHttpRecordingService } from './workflowHttpRecording.service';
 import { Logger } from '@/Logger';
 import { BadRequestError } from '@/errors/response-errors/bad-request.error';
 import { NotFoundError } from '@/errors/response-errors/not-found.error';
@@ -69,6 +70,7 @@ export class WorkflowsController {
 		private readonly projectRelationRepository: ProjectRelationRepository,
 		private readonly eventService: EventService,
 		private readonly globalConfig: GlobalConfig,
+		private readonly workflowHttpRecordingService: WorkflowHttpRecordingService,
 	) {}
 
 	@Post('/')
@@ -409,6 +411,20 @@ export class WorkflowsController {
 		);
 	}
 
+	@Get('/:workflowId/http-recording')
+	@ProjectScope('workflow:read')
+	async getHttpRecording(req: WorkflowRequest.Get) {
+		return await this.workflowHttpRecordingService.findSummary(req.params.workflowId);
+	}
+
+	@Delete('/:workflowId/http-recording')
+	@ProjectScope('workflow:update')
+	async deleteHttpRecording(req: WorkflowRequest.Get) {
+		await this.workflowHttpRecordingService.delete(req.params.workflowId);
+
+		return true;
+	}
+
 	@Put('/:workflowId/share')
 	@ProjectScope('workflow:share')
 	async share(req: WorkflowRequest.Share) {
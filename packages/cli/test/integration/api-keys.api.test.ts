@@ -0,0 +1,185 @@
+import { Container } from 'typedi';
+import { GlobalConfig } from '@n8n/config';
+
+import type { User } from '@db/entities/User';
+import { ApiKeyRepository } from '@db/repositories/apiKey.repository';
+
+import * as testDb from './shared/testDb';
+import * as utils from './shared/utils/';
+import { createMember, createOwner } from './shared/db/users';
+import { createApiKey } from './shared/db/apiKeys';
+import { createTeamProject } from './shared/db/projects';
+import { mockInstance } from '@test/mocking';
+
+const testServer = utils.setupTestServer({ endpointGroups: ['apiKeys'] });
+
+let owner: User;
+let member: User;
+
+beforeEach(async () => {
+	await testDb.truncate(['ApiKey', 'User']);
+	mockInstance(GlobalConfig, { publicApi: { disabled: false } });
+
+	owner = await createOwner();
+	member = await createMember();
+});
+
+describe('When public API is disabled', () => {
+	beforeEach(() => {
+		mockInstance(GlobalConfig, { publicApi: { disabled: true } });
+	});
+
+	test('GET /api-keys should 404', async () => {
+		await testServer.authAgentFor(owner).get('/api-keys').expect(404);
+	});
+
+	test('POST /api-keys should 404', async () => {
+		await testServer
+			.authAgentFor(owner)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: ['workflow:read'] })
+			.expect(404);
+	});
+});
+
+describe('POST /api-keys', () => {
+	test('should create a scoped API key', async () => {
+		const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+		const response = await testServer
+			.authAgentFor(member)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: ['workflow:read', 'workflow:execute'], expiresAt });
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body.data).toMatchObject({
+			label: 'CI',
+			scopes: ['workflow:read', 'workflow:execute'],
+			projectIds: null,
+			lastUsedAt: null,
+		});
+		expect(response.body.data.apiKey).toMatch(/^n8n_api_/);
+
+		const stored = await Container.get(ApiKeyRepository).findOneByOrFail({
+			id: response.body.data.id,
+		});
+		expect(stored.userId).toBe(member.id);
+		expect(stored.apiKey).toBe(response.body.data.apiKey);
+		expect(stored.expiresAt?.toISOString()).toBe(expiresAt);
+	});
+
+	test('should restrict the key to projects of the user', async () => {
+		const project = await createTeamProject(undefined, member);
+
+		const response = await testServer
+			.authAgentFor(member)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: ['workflow:read'], projectIds: [project.id] });
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body.data.projectIds).toEqual([project.id]);
+	});
+
+	test('should reject instance-wide scopes on a key restricted to projects', async () => {
+		const project = await createTeamProject(undefined, member);
+
+		const response = await testServer
+			.authAgentFor(member)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: ['workflow:read', 'tag:read'], projectIds: [project.id] });
+
+		expect(response.statusCode).toBe(400);
+		expect(response.body.message).toBe(
+			'API keys restricted to projects cannot have instance-wide scopes: tag:read',
+		);
+		expect(await Container.get(ApiKeyRepository).count()).toBe(0);
+	});
+
+	test('should reject projects the user has no access to', async () => {
+		const project = await createTeamProject();
+
+		const response = await testServer
+			.authAgentFor(member)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: ['workflow:read'], projectIds: [project.id] });
+
+		expect(response.statusCode).toBe(400);
+		expect(await Container.get(ApiKeyRepository).count()).toBe(0);
+	});
+
+	test('should reject unknown scopes', async () => {
+		const response = await testServer
+			.authAgentFor(member)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: ['workflow:read', 'workflow:fly'] });
+
+		expect(response.statusCode).toBe(400);
+		expect(response.body.message).toBe('Unknown scopes: workflow:fly');
+	});
+
+	test('should reject a key without scopes', async () => {
+		const response = await testServer
+			.authAgentFor(member)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: [] });
+
+		expect(response.statusCode).toBe(400);
+	});
+
+	test('should reject an expiry in the past', async () => {
+		const response = await testServer
+			.authAgentFor(member)
+			.post('/api-keys')
+			.send({ label: 'CI', scopes: ['workflow:read'], expiresAt: '2020-01-01T00:00:00.000Z' });
+
+		expect(response.statusCode).toBe(400);
+	});
+});
+
+describe('GET /api-keys', () => {
+	test('should list the keys of the user, redacted', async () => {
+		const apiKey = await createApiKey(member, { scopes: ['workflow:read'] });
+		await createApiKey(owner, { scopes: ['workflow:read'] });
+
+		const response = await testServer.authAgentFor(member).get('/api-keys');
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body.data).toHaveLength(1);
+		expect(response.body.data[0]).toMatchObject({
+			id: apiKey.id,
+			label: apiKey.label,
+			scopes: ['workflow:read'],
+			expired: false,
+		});
+		expect(response.body.data[0].apiKey).not.toBe(apiKey.apiKey);
+		expect(response.body.data[0].apiKey).toMatch(/^n8n_api_\w{5}\*+$/);
+	});
+
+	test('should flag expired keys', async () => {
+		await createApiKey(member, { expiresAt: new Date(Date.now() - 1000) });
+
+		const response = await testServer.authAgentFor(member).get('/api-keys');
+
+		expect(response.body.data[0].expired).toBe(true);
+	});
+});
+
+describe('DELETE /api-keys/:id', () => {
+	test('should revoke a key of the user', async () => {
+		const apiKey = await createApiKey(member);
+
+		const response = await testServer.authAgentFor(member).delete(`/api-keys/${apiKey.id}`);
+
+		expect(response.statusCode).toBe(200);
+		expect(await Container.get(ApiKeyRepository).findOneBy({ id: apiKey.id })).toBeNull();
+	});
+
+	test('should not revoke a key of another user', async () => {
+		const apiKey = await createApiKey(owner);
+
+		const response = await testServer.authAgentFor(member).delete(`/api-keys/${apiKey.id}`);
+
+		expect(response.statusCode).toBe(404);
+		expect(await Container.get(ApiKeyRepository).findOneBy({ id: apiKey.id })).not.toBeNull();
+	});
+});
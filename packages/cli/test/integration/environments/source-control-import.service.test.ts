@@ -29,6 +29,7 @@ describe('SourceControlImportService', () => {
 			mock(),
 			mock(),
 			mock(),
+			mock(),
 			mock<InstanceSettings>({ n8nFolder: '/some-path' }),
 		);
 
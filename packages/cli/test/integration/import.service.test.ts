@@ -6,6 +6,7 @@ import type { INode } from 'n8n-workflow';
 import { CredentialsRepository } from '@/databases/repositories/credentials.repository';
 import { TagRepository } from '@/databases/repositories/tag.repository';
 import { ImportService } from '@/services/import.service';
+import type { SecretUsageService } from '@/services/secret-usage.service';
 import { TagEntity } from '@/databases/entities/TagEntity';
 import { WorkflowRepository } from '@/databases/repositories/workflow.repository';
 import { SharedWorkflowRepository } from '@/databases/repositories/sharedWorkflow.repository';
@@ -28,6 +29,7 @@ describe('ImportService', () => {
 	let importService: ImportService;
 	let tagRepository: TagRepository;
 	let owner: User;
+	const secretUsageService = mock<SecretUsageService>();
 	let ownerPersonalProject: Project;
 
 	beforeAll(async () => {
@@ -42,7 +44,12 @@ describe('ImportService', () => {
 
 		credentialsRepository.find.mockResolvedValue([]);
 
-		importService = new ImportService(mock(), credentialsRepository, tagRepository);
+		importService = new ImportService(
+			mock(),
+			credentialsRepository,
+			tagRepository,
+			secretUsageService,
+		);
 	});
 
 	afterEach(async () => {
@@ -65,6 +72,14 @@ describe('ImportService', () => {
 		expect(dbWorkflow.id).toBe(workflowToImport.id);
 	});
 
+	test('should index the secrets used by imported workflows', async () => {
+		const workflowToImport = newWorkflow();
+
+		await importService.importWorkflows([workflowToImport], ownerPersonalProject.id);
+
+		expect(secretUsageService.reindex).toHaveBeenCalledWith('workflow', workflowToImport.id);
+	});
+
 	test('should make user owner of imported workflow', async () => {
 		const workflowToImport = newWorkflow();
 
@@ -37,4 +37,13 @@ describe('bodyParser', () => {
 			.expect(200);
 		expect(response.text).toEqual('{"hello":"world"}');
 	});
+
+	it('should handle JSON based media types', async () => {
+		const response = await request(server)
+			.post('/')
+			.set('content-type', 'application/scim+json')
+			.send(JSON.stringify({ hello: 'world' }))
+			.expect(200);
+		expect(response.text).toEqual('{"hello":"world"}');
+	});
 });
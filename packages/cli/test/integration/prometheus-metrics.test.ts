@@ -25,6 +25,9 @@ globalConfig.endpoints.metrics = {
 	includeApiPathLabel: true,
 	includeApiMethodLabel: true,
 	includeApiStatusCodeLabel: true,
+	includeWorkflowNameLabel: false,
+	includeExecutionDurationMetrics: false,
+	includeQueueMetrics: false,
 };
 
 const server = setupTestServer({ endpointGroups: ['metrics'] });
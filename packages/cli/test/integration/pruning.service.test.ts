@@ -34,6 +34,7 @@ describe('softDeleteOnPruningCycle()', () => {
 			Container.get(ExecutionRepository),
 			mockInstance(BinaryDataService),
 			mock(),
+			mock(),
 		);
 
 		workflow = await createWorkflow();
@@ -0,0 +1,181 @@
+import type { User } from '@db/entities/User';
+import type { ApiKey } from '@db/entities/ApiKey';
+import type { Project } from '@db/entities/Project';
+
+import * as utils from '../shared/utils/';
+import * as testDb from '../shared/testDb';
+import { createOwner } from '../shared/db/users';
+import { createApiKey, getApiKeyOrFail } from '../shared/db/apiKeys';
+import { createTeamProject } from '../shared/db/projects';
+import { createWorkflow } from '../shared/db/workflows';
+
+const testServer = utils.setupTestServer({ endpointGroups: ['publicApi'] });
+
+const workflowPayload = {
+	name: 'testing',
+	nodes: [
+		{
+			id: 'uuid-1234',
+			parameters: {},
+			name: 'Start',
+			type: 'n8n-nodes-base.start',
+			typeVersion: 1,
+			position: [240, 300],
+		},
+	],
+	connections: {},
+	settings: {},
+};
+
+let owner: User;
+
+const agentFor = (apiKey: ApiKey) =>
+	testServer.publicApiAgentFor(owner).set({ 'X-N8N-API-KEY': apiKey.apiKey });
+
+beforeEach(async () => {
+	await testDb.truncate(['ApiKey', 'SharedWorkflow', 'Workflow', 'User']);
+
+	owner = await createOwner();
+});
+
+describe('Authentication with scoped API keys', () => {
+	test('should authenticate with a scoped API key', async () => {
+		const apiKey = await createApiKey(owner, { scopes: ['workflow:read'] });
+
+		const response = await agentFor(apiKey).get('/workflows');
+
+		expect(response.statusCode).toBe(200);
+	});
+
+	test('should record the last usage of the key', async () => {
+		const apiKey = await createApiKey(owner, { scopes: ['workflow:read'] });
+
+		await agentFor(apiKey).get('/workflows').expect(200);
+
+		expect((await getApiKeyOrFail(apiKey.id)).lastUsedAt).toBeInstanceOf(Date);
+	});
+
+	test('should reject an expired key', async () => {
+		const apiKey = await createApiKey(owner, {
+			scopes: ['workflow:read'],
+			expiresAt: new Date(Date.now() - 1000),
+		});
+
+		const response = await agentFor(apiKey).get('/workflows');
+
+		expect(response.statusCode).toBe(401);
+	});
+
+	test('should accept a key expiring in the future', async () => {
+		const apiKey = await createApiKey(owner, {
+			scopes: ['workflow:read'],
+			expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+		});
+
+		const response = await agentFor(apiKey).get('/workflows');
+
+		expect(response.statusCode).toBe(200);
+	});
+});
+
+describe('Scopes of API keys', () => {
+	test('should reject requests outside of the scopes of the key', async () => {
+		const apiKey = await createApiKey(owner, { scopes: ['workflow:read'] });
+
+		const response = await agentFor(apiKey).post('/workflows').send(workflowPayload);
+
+		expect(response.statusCode).toBe(403);
+		expect(response.body).toEqual({ message: 'Forbidden' });
+	});
+
+	test('should allow requests within the scopes of the key', async () => {
+		const apiKey = await createApiKey(owner, { scopes: ['workflow:create'] });
+
+		const response = await agentFor(apiKey).post('/workflows').send(workflowPayload);
+
+		expect(response.statusCode).toBe(200);
+	});
+
+	test('should check the scopes of the key on global resources', async () => {
+		const readOnly = await createApiKey(owner, { scopes: ['workflow:read'] });
+		const withTags = await createApiKey(owner, { scopes: ['tag:read'] });
+
+		await agentFor(readOnly).get('/tags').expect(403);
+		await agentFor(withTags).get('/tags').expect(200);
+	});
+
+	test('should check the scopes of the key on executions', async () => {
+		const apiKey = await createApiKey(owner, { scopes: ['tag:read'] });
+
+		const response = await agentFor(apiKey).get('/executions');
+
+		expect(response.statusCode).toBe(403);
+	});
+});
+
+describe('API keys restricted to projects', () => {
+	let project: Project;
+
+	beforeEach(async () => {
+		project = await createTeamProject(undefined, owner);
+	});
+
+	test('should only list workflows in the projects of the key', async () => {
+		const apiKey = await createApiKey(owner, {
+			scopes: ['workflow:read'],
+			projectIds: [project.id],
+		});
+		const inProject = await createWorkflow({}, project);
+		await createWorkflow({}, owner);
+
+		const response = await agentFor(apiKey).get('/workflows');
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body.data.map(({ id }: { id: string }) => id)).toEqual([inProject.id]);
+	});
+
+	test('should reject workflows outside of the projects of the key', async () => {
+		const apiKey = await createApiKey(owner, {
+			scopes: ['workflow:read'],
+			projectIds: [project.id],
+		});
+		const inProject = await createWorkflow({}, project);
+		const outsideProject = await createWorkflow({}, owner);
+
+		await agentFor(apiKey).get(`/workflows/${inProject.id}`).expect(200);
+		await agentFor(apiKey).get(`/workflows/${outsideProject.id}`).expect(403);
+	});
+
+	test('should reject creating workflows outside of the projects of the key', async () => {
+		const apiKey = await createApiKey(owner, {
+			scopes: ['workflow:create'],
+			projectIds: [project.id],
+		});
+
+		const response = await agentFor(apiKey).post('/workflows').send(workflowPayload);
+
+		expect(response.statusCode).toBe(403);
+	});
+
+	test('should only list executions of workflows in the projects of the key', async () => {
+		const apiKey = await createApiKey(owner, {
+			scopes: ['workflow:read'],
+			projectIds: [],
+		});
+
+		const response = await agentFor(apiKey).get('/executions');
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body.data).toEqual([]);
+	});
+
+	test('should reject instance-wide endpoints', async () => {
+		const apiKey = await createApiKey(owner, {
+			scopes: ['tag:read', 'securityAudit:generate'],
+			projectIds: [project.id],
+		});
+
+		await agentFor(apiKey).get('/tags').expect(403);
+		await agentFor(apiKey).post('/audit').expect(403);
+	});
+});
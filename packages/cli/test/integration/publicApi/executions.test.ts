@@ -1,3 +1,5 @@
+import { Container } from 'typedi';
+import { stringify } from 'flatted';
 import type { User } from '@db/entities/User';
 import type { ActiveWorkflowManager } from '@/ActiveWorkflowManager';
 
@@ -22,6 +24,7 @@ import { mockInstance } from '@test/mocking';
 import { Telemetry } from '@/telemetry';
 import { createTeamProject } from '@test-integration/db/projects';
 import type { ExecutionEntity } from '@/databases/entities/ExecutionEntity';
+import { ExecutionService } from '@/executions/execution.service';
 
 let owner: User;
 let user1: User;
@@ -195,6 +198,143 @@ describe('GET /executions/:id', () => {
 	});
 });
 
+describe('GET /executions/:id/status', () => {
+	test('should fail due to missing API Key', testWithAPIKey('get', '/executions/1/status', null));
+
+	test('should return the output of the last node of a successful execution', async () => {
+		const workflow = await createWorkflow({}, user1);
+		const execution = await createExecution(
+			{
+				finished: true,
+				status: 'success',
+				data: stringify({
+					resultData: {
+						runData: {
+							Set: [
+								{
+									startTime: 0,
+									executionTime: 0,
+									source: [],
+									data: { main: [[{ json: { hello: 'world' } }]] },
+								},
+							],
+						},
+						lastNodeExecuted: 'Set',
+					},
+				}),
+			},
+			workflow,
+		);
+
+		const response = await authUser1Agent.get(`/executions/${execution.id}/status`);
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body).toMatchObject({
+			executionId: execution.id,
+			workflowId: workflow.id,
+			status: 'success',
+			finished: true,
+			data: [{ hello: 'world' }],
+		});
+	});
+
+	test('should return the error of a failed execution', async () => {
+		const workflow = await createWorkflow({}, user1);
+		const execution = await createExecution(
+			{
+				finished: false,
+				status: 'error',
+				data: stringify({ resultData: { runData: {}, error: { message: 'Boom' } } }),
+			},
+			workflow,
+		);
+
+		const response = await authUser1Agent.get(`/executions/${execution.id}/status`);
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body).toMatchObject({ status: 'error', finished: false, error: 'Boom' });
+		expect(response.body.data).toBeUndefined();
+	});
+
+	test('member should not get the status of an execution of a workflow not shared with him', async () => {
+		const workflow = await createWorkflow({}, owner);
+		const execution = await createSuccessfulExecution(workflow);
+
+		const response = await authUser1Agent.get(`/executions/${execution.id}/status`);
+
+		expect(response.statusCode).toBe(404);
+	});
+});
+
+describe('POST /executions/:id/stop', () => {
+	test('should fail due to missing API Key', testWithAPIKey('post', '/executions/1/stop', null));
+
+	test('should stop a waiting execution', async () => {
+		const workflow = await createWorkflow({}, user1);
+		const execution = await createWaitingExecution(workflow);
+
+		const response = await authUser1Agent.post(`/executions/${execution.id}/stop`);
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body).toMatchObject({ id: execution.id, status: 'canceled' });
+	});
+
+	test('should fail to stop a finished execution', async () => {
+		const workflow = await createWorkflow({}, user1);
+		const execution = await createSuccessfulExecution(workflow);
+
+		const response = await authUser1Agent.post(`/executions/${execution.id}/stop`);
+
+		expect(response.statusCode).toBe(409);
+	});
+
+	test('member should not stop an execution of a workflow not shared with him', async () => {
+		const workflow = await createWorkflow({}, owner);
+		const execution = await createWaitingExecution(workflow);
+
+		const response = await authUser1Agent.post(`/executions/${execution.id}/stop`);
+
+		expect(response.statusCode).toBe(404);
+	});
+});
+
+describe('POST /executions/:id/retry', () => {
+	test('should fail due to missing API Key', testWithAPIKey('post', '/executions/1/retry', null));
+
+	test('should fail to retry a successful execution', async () => {
+		const workflow = await createWorkflow({}, user1);
+		const execution = await createSuccessfulExecution(workflow);
+
+		const response = await authUser1Agent.post(`/executions/${execution.id}/retry`);
+
+		expect(response.statusCode).toBe(409);
+	});
+
+	test('should not report unexpected failures as conflicts', async () => {
+		const workflow = await createWorkflow({}, user1);
+		const execution = await createErrorExecution(workflow);
+		jest
+			.spyOn(Container.get(ExecutionService), 'retry')
+			.mockRejectedValueOnce(new Error('Connection terminated'));
+
+		const response = await authUser1Agent.post(`/executions/${execution.id}/retry`);
+
+		expect(response.statusCode).not.toBe(409);
+		expect(response.body.message).toBe('Connection terminated');
+	});
+
+	test('member should not retry an execution of a workflow not shared with him', async () => {
+		const workflow = await createWorkflow({}, owner);
+		const execution = await createErrorExecution(workflow);
+
+		const response = await authUser1Agent
+			.post(`/executions/${execution.id}/retry`)
+			.send({ loadWorkflow: true });
+
+		expect(response.statusCode).toBe(404);
+	});
+});
+
 describe('DELETE /executions/:id', () => {
 	test('should fail due to missing API Key', testWithAPIKey('delete', '/executions/1', null));
 
@@ -0,0 +1,238 @@
+import type { MessageEventBusDestinationOptions } from 'n8n-workflow';
+import { MessageEventBusDestinationTypeNames } from 'n8n-workflow';
+
+import { setupTestServer } from '@test-integration/utils';
+import { createMember, createOwner } from '@test-integration/db/users';
+import * as testDb from '../shared/testDb';
+import { FeatureNotLicensedError } from '@/errors/feature-not-licensed.error';
+import { MessageEventBus } from '@/eventbus/MessageEventBus/MessageEventBus';
+import { mockInstance } from '@test/mocking';
+
+const destination: MessageEventBusDestinationOptions = {
+	__type: MessageEventBusDestinationTypeNames.webhook,
+	id: '88be6560-bfb4-455c-8aa1-06971e9e5522',
+	label: 'Test Webhook',
+	enabled: true,
+	subscribedEvents: ['n8n.audit'],
+};
+
+describe('Log streaming destinations in Public API', () => {
+	const eventBus = mockInstance(MessageEventBus);
+	const testServer = setupTestServer({ endpointGroups: ['publicApi'] });
+
+	beforeAll(async () => {
+		await testDb.init();
+	});
+
+	beforeEach(async () => {
+		await testDb.truncate(['User']);
+		jest.clearAllMocks();
+		eventBus.findDestination.mockResolvedValue([destination]);
+		eventBus.getDeliveryStatus.mockReturnValue({});
+	});
+
+	describe('GET /log-streaming/destinations', () => {
+		it('if licensed, should return all destinations', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer.publicApiAgentFor(owner).get('/log-streaming/destinations');
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(200);
+			expect(response.body.data).toEqual([{ ...destination, deliveryStatus: null }]);
+		});
+
+		it('if not licensed, should reject', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.disable('feat:logStreaming');
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer.publicApiAgentFor(owner).get('/log-streaming/destinations');
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(403);
+			expect(response.body).toHaveProperty(
+				'message',
+				new FeatureNotLicensedError('feat:logStreaming').message,
+			);
+		});
+
+		it('if missing scope, should reject', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			const member = await createMember({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(member)
+				.get('/log-streaming/destinations');
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(403);
+			expect(response.body).toHaveProperty('message', 'Forbidden');
+		});
+	});
+
+	describe('GET /log-streaming/destinations/:id', () => {
+		it('should reject an unknown destination', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.get('/log-streaming/destinations/unknown');
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('POST /log-streaming/destinations', () => {
+		it('should reject a destination of an unknown type', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.post('/log-streaming/destinations')
+				.send({ __type: '$$Unknown' });
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(400);
+			expect(eventBus.addDestination).not.toHaveBeenCalled();
+		});
+
+		it('should reject a file destination outside of the folder of file destinations', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const responses = await Promise.all(
+				['/home/node/.n8n/database.sqlite', '../database.sqlite'].map(
+					async (path) =>
+						await testServer
+							.publicApiAgentFor(owner)
+							.post('/log-streaming/destinations')
+							.send({ __type: MessageEventBusDestinationTypeNames.file, path }),
+				),
+			);
+
+			/**
+			 * Assert
+			 */
+			expect(responses.map((response) => response.status)).toEqual([400, 400]);
+			expect(eventBus.addDestination).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('DELETE /log-streaming/destinations/:id', () => {
+		it('if licensed, should delete a destination', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.delete(`/log-streaming/destinations/${destination.id}`);
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(204);
+			expect(eventBus.removeDestination).toHaveBeenCalledWith(destination.id);
+		});
+
+		it('should reject an unknown destination', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.delete('/log-streaming/destinations/unknown');
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(404);
+			expect(eventBus.removeDestination).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('POST /log-streaming/destinations/:id/test', () => {
+		it('if licensed, should send a test event', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:logStreaming');
+			eventBus.testDestination.mockResolvedValue(true);
+			const owner = await createOwner({ withApiKey: true });
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.post(`/log-streaming/destinations/${destination.id}/test`);
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(200);
+			expect(response.body).toEqual({ success: true });
+		});
+	});
+});
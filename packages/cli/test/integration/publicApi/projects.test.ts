@@ -2,7 +2,13 @@ import { setupTestServer } from '@test-integration/utils';
 import { createMember, createOwner } from '@test-integration/db/users';
 import * as testDb from '../shared/testDb';
 import { FeatureNotLicensedError } from '@/errors/feature-not-licensed.error';
-import { createTeamProject, getProjectByNameOrFail } from '@test-integration/db/projects';
+import {
+	createTeamProject,
+	getPersonalProject,
+	getProjectByNameOrFail,
+	getProjectRelations,
+	linkUserToProject,
+} from '@test-integration/db/projects';
 import { mockInstance } from '@test/mocking';
 import { Telemetry } from '@/telemetry';
 
@@ -398,4 +404,236 @@ describe('Projects in Public API', () => {
 			expect(response.body).toHaveProperty('message', 'Forbidden');
 		});
 	});
+
+	describe('GET /projects/:id/users', () => {
+		it('if licensed, should return the members of a project', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			const owner = await createOwner({ withApiKey: true });
+			const member = await createMember();
+			const project = await createTeamProject('team', member);
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.get(`/projects/${project.id}/users`);
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(200);
+			expect(response.body.data).toEqual([
+				expect.objectContaining({ id: member.id, email: member.email, role: 'project:admin' }),
+			]);
+		});
+
+		it('should reject a personal project', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.enable('feat:projectRole:admin');
+			const owner = await createOwner({ withApiKey: true });
+			const personalProject = await getPersonalProject(owner);
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.get(`/projects/${personalProject.id}/users`);
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(404);
+		});
+
+		it('if missing scope, should reject', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			const member = await createMember({ withApiKey: true });
+			const project = await createTeamProject();
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(member)
+				.get(`/projects/${project.id}/users`);
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(403);
+			expect(response.body).toHaveProperty('message', 'Forbidden');
+		});
+	});
+
+	describe('POST /projects/:id/users', () => {
+		it('if licensed, should add users to a project', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			const owner = await createOwner({ withApiKey: true });
+			const [admin, member] = await Promise.all([createMember(), createMember()]);
+			const project = await createTeamProject('team', admin);
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.post(`/projects/${project.id}/users`)
+				.send({ relations: [{ userId: member.id, role: 'project:admin' }] });
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(201);
+			const relations = await getProjectRelations({ projectId: project.id });
+			expect(relations).toHaveLength(2);
+			expect(relations).toContainEqual(
+				expect.objectContaining({ userId: member.id, role: 'project:admin' }),
+			);
+		});
+
+		it('should reject an unknown user', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			const owner = await createOwner({ withApiKey: true });
+			const project = await createTeamProject();
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.post(`/projects/${project.id}/users`)
+				.send({ relations: [{ userId: 'unknown', role: 'project:admin' }] });
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(404);
+		});
+
+		it('should reject an unlicensed role', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			testServer.license.disable('feat:projectRole:viewer');
+			const owner = await createOwner({ withApiKey: true });
+			const member = await createMember();
+			const project = await createTeamProject();
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.post(`/projects/${project.id}/users`)
+				.send({ relations: [{ userId: member.id, role: 'project:viewer' }] });
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(400);
+		});
+	});
+
+	describe('PATCH /projects/:id/users/:userId', () => {
+		it('if licensed, should change the role of a member', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			testServer.license.enable('feat:projectRole:editor');
+			const owner = await createOwner({ withApiKey: true });
+			const member = await createMember();
+			const project = await createTeamProject('team', member);
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.patch(`/projects/${project.id}/users/${member.id}`)
+				.send({ role: 'project:editor' });
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(204);
+			const [relation] = await getProjectRelations({ projectId: project.id, userId: member.id });
+			expect(relation.role).toBe('project:editor');
+		});
+
+		it('should reject a user who is not a member', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			const owner = await createOwner({ withApiKey: true });
+			const member = await createMember();
+			const project = await createTeamProject();
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.patch(`/projects/${project.id}/users/${member.id}`)
+				.send({ role: 'project:admin' });
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('DELETE /projects/:id/users/:userId', () => {
+		it('if licensed, should remove a member', async () => {
+			/**
+			 * Arrange
+			 */
+			testServer.license.setQuota('quota:maxTeamProjects', -1);
+			testServer.license.enable('feat:projectRole:admin');
+			const owner = await createOwner({ withApiKey: true });
+			const [admin, member] = await Promise.all([createMember(), createMember()]);
+			const project = await createTeamProject('team', admin);
+			await linkUserToProject(member, project, 'project:admin');
+
+			/**
+			 * Act
+			 */
+			const response = await testServer
+				.publicApiAgentFor(owner)
+				.delete(`/projects/${project.id}/users/${member.id}`);
+
+			/**
+			 * Assert
+			 */
+			expect(response.status).toBe(204);
+			const relations = await getProjectRelations({ projectId: project.id });
+			expect(relations).toEqual([expect.objectContaining({ userId: admin.id })]);
+		});
+	});
 });
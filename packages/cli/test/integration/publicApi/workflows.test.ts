@@ -18,6 +18,10 @@ import * as testDb from '../shared/testDb';
 import { createUser } from '../shared/db/users';
 import { createWorkflow, createWorkflowWithTrigger } from '../shared/db/workflows';
 import { createTag } from '../shared/db/tags';
+import {
+	createManyWorkflowHistoryItems,
+	createWorkflowHistoryItem,
+} from '../shared/db/workflowHistory';
 import { mockInstance } from '../../shared/mocking';
 import type { SuperAgentTest } from '../shared/types';
 import { Telemetry } from '@/telemetry';
@@ -695,6 +699,176 @@ describe('POST /workflows/:id/deactivate', () => {
 	});
 });
 
+describe('POST /workflows/:id/run', () => {
+	test('should fail due to missing API Key', testWithAPIKey('post', '/workflows/2/run', null));
+
+	test('should fail due to non-existing workflow', async () => {
+		const response = await authOwnerAgent.post('/workflows/2/run');
+		expect(response.statusCode).toBe(404);
+	});
+
+	test('should fail due to a workflow without a node to start from', async () => {
+		const workflow = await createWorkflow({}, owner);
+
+		const response = await authOwnerAgent.post(`/workflows/${workflow.id}/run`);
+
+		expect(response.statusCode).toBe(400);
+		expect(response.body.message).toBe(
+			'Workflow has no "Execute Workflow Trigger" or manual trigger node to start from',
+		);
+	});
+
+	test('member should not run a workflow of another user without it being shared', async () => {
+		const workflow = await createWorkflow({}, owner);
+
+		const response = await authMemberAgent.post(`/workflows/${workflow.id}/run`);
+
+		expect(response.statusCode).toBe(403);
+	});
+
+	test('should fail due to an invalid mode', async () => {
+		const workflow = await createWorkflow({}, owner);
+
+		const response = await authOwnerAgent
+			.post(`/workflows/${workflow.id}/run`)
+			.send({ mode: 'later' });
+
+		expect(response.statusCode).toBe(400);
+	});
+
+	const createUnsavedWorkflow = async () =>
+		await createWorkflow(
+			{
+				nodes: [
+					{
+						id: 'uuid-1234',
+						name: 'Manual',
+						parameters: {},
+						position: [0, 0],
+						type: 'n8n-nodes-base.manualTrigger',
+						typeVersion: 1,
+					},
+				],
+				settings: { saveDataSuccessExecution: 'none' },
+			},
+			owner,
+		);
+
+	test('should fail to run a workflow that does not save its executions in async mode', async () => {
+		const workflow = await createUnsavedWorkflow();
+
+		const response = await authOwnerAgent
+			.post(`/workflows/${workflow.id}/run`)
+			.send({ mode: 'async' });
+
+		expect(response.statusCode).toBe(400);
+		expect(response.body.message).toBe(
+			'Workflow does not save its executions, so it can only be run in sync mode',
+		);
+	});
+
+	test('should fail to run a workflow that does not save its executions in queue mode', async () => {
+		const workflow = await createUnsavedWorkflow();
+		config.set('executions.mode', 'queue');
+
+		try {
+			const response = await authOwnerAgent
+				.post(`/workflows/${workflow.id}/run`)
+				.send({ mode: 'sync' });
+
+			expect(response.statusCode).toBe(400);
+			expect(response.body.message).toBe(
+				'Workflow does not save its executions, so it cannot be run in queue mode',
+			);
+		} finally {
+			config.set('executions.mode', 'regular');
+		}
+	});
+});
+
+describe('GET /workflows/:id/history', () => {
+	test('should fail due to missing API Key', testWithAPIKey('get', '/workflows/2/history', null));
+
+	test('should fail when not licensed', async () => {
+		license.disable('feat:workflowHistory');
+		const workflow = await createWorkflow({}, owner);
+
+		const response = await authOwnerAgent.get(`/workflows/${workflow.id}/history`);
+
+		expect(response.statusCode).toBe(403);
+	});
+
+	test('should return the versions of a workflow, newest first', async () => {
+		license.enable('feat:workflowHistory');
+		const workflow = await createWorkflow({}, member);
+		const versions = await createManyWorkflowHistoryItems(workflow.id, 3);
+
+		const response = await authMemberAgent.get(`/workflows/${workflow.id}/history?limit=2`);
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body.data.map(({ versionId }: { versionId: string }) => versionId)).toEqual([
+			versions[2].versionId,
+			versions[1].versionId,
+		]);
+		expect(response.body.data[0].nodes).toBeUndefined();
+		expect(response.body.nextCursor).not.toBeNull();
+	});
+
+	test('member should not get the history of a workflow not shared with them', async () => {
+		license.enable('feat:workflowHistory');
+		const workflow = await createWorkflow({}, owner);
+		await createWorkflowHistoryItem(workflow.id);
+
+		const response = await authMemberAgent.get(`/workflows/${workflow.id}/history`);
+
+		expect(response.statusCode).toBe(403);
+	});
+});
+
+describe('POST /workflows/:id/history/:versionId/restore', () => {
+	test('should restore the nodes and connections of a version as a new version', async () => {
+		license.enable('feat:workflowHistory');
+		const workflow = await createWorkflow({}, member);
+		const version = await createWorkflowHistoryItem(workflow.id, {
+			nodes: [
+				{
+					id: 'uuid-5678',
+					name: 'Manual',
+					parameters: {},
+					position: [0, 0],
+					type: 'n8n-nodes-base.manualTrigger',
+					typeVersion: 1,
+				},
+			],
+		});
+
+		const response = await authMemberAgent.post(
+			`/workflows/${workflow.id}/history/${version.versionId}/restore`,
+		);
+
+		expect(response.statusCode).toBe(200);
+		expect(response.body.nodes).toEqual(version.nodes);
+		expect(response.body.versionId).not.toBe(workflow.versionId);
+		expect(response.body.versionId).not.toBe(version.versionId);
+		expect(
+			await Container.get(WorkflowHistoryRepository).count({
+				where: { workflowId: workflow.id },
+			}),
+		).toBe(2);
+	});
+
+	test('should fail due to non-existing version', async () => {
+		license.enable('feat:workflowHistory');
+		const workflow = await createWorkflow({}, member);
+
+		const response = await authMemberAgent.post(
+			`/workflows/${workflow.id}/history/non-existing/restore`,
+		);
+
+		expect(response.statusCode).toBe(404);
+	});
+});
+
 describe('POST /workflows', () => {
 	test('should fail due to missing API Key', testWithAPIKey('post', '/workflows', null));
 
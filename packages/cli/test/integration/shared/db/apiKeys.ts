@@ -0,0 +1,27 @@
+import Container from 'typedi';
+import type { ApiKey } from '@db/entities/ApiKey';
+import type { User } from '@db/entities/User';
+import { ApiKeyRepository } from '@db/repositories/apiKey.repository';
+
+import { randomApiKey, randomName } from '../random';
+
+/** Store a scoped API key of the user, with no scopes unless specified */
+export async function createApiKey(user: User, attributes: Partial<ApiKey> = {}) {
+	const apiKeyRepository = Container.get(ApiKeyRepository);
+	return await apiKeyRepository.save(
+		apiKeyRepository.create({
+			userId: user.id,
+			label: randomName(),
+			apiKey: randomApiKey(),
+			scopes: [],
+			projectIds: null,
+			expiresAt: null,
+			lastUsedAt: null,
+			...attributes,
+		}),
+	);
+}
+
+export async function getApiKeyOrFail(id: string) {
+	return await Container.get(ApiKeyRepository).findOneByOrFail({ id });
+}
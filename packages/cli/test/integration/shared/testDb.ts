@@ -47,6 +47,7 @@ export async function terminate() {
 
 // Can't use `Object.keys(entities)` here because some entities have a `Entity` suffix, while the repositories don't
 const repositories = [
+	'ApiKey',
 	'AuthIdentity',
 	'AuthProviderSyncHistory',
 	'Credentials',
@@ -11,6 +11,7 @@ import type { Project } from '@/databases/entities/Project';
 
 type EndpointGroup =
 	| 'me'
+	| 'apiKeys'
 	| 'users'
 	| 'auth'
 	| 'oauth2'
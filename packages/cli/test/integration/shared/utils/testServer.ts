@@ -192,6 +192,10 @@ export const setupTestServer = ({
 						await import('@/controllers/me.controller');
 						break;
 
+					case 'apiKeys':
+						await import('@/controllers/apiKeys.controller');
+						break;
+
 					case 'passwordReset':
 						await import('@/controllers/passwordReset.controller');
 						break;
@@ -1005,6 +1005,24 @@ describe('PATCH /workflows/:workflowId', () => {
 		expect(updatedWorkflow.id).toBe(workflow.id);
 		expect(updatedWorkflow.meta).toEqual(payload.meta);
 	});
+
+	test('should reject an outdated update that would overwrite the current name', async () => {
+		const workflow = await createWorkflow({ name: 'renamed by someone else' }, owner);
+		const payload = {
+			name: 'outdated name',
+			versionId: uuid(),
+			nodes: workflow.nodes,
+			connections: workflow.connections,
+		};
+
+		const response = await authOwnerAgent.patch(`/workflows/${workflow.id}`).send(payload);
+
+		expect(response.statusCode).toBe(400);
+		expect(response.body.code).toBe(100);
+
+		const workflowInDb = await Container.get(WorkflowRepository).findById(workflow.id);
+		expect(workflowInDb?.name).toBe('renamed by someone else');
+	});
 });
 
 describe('POST /workflows/:workflowId/run', () => {
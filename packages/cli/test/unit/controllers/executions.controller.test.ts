@@ -3,18 +3,21 @@ import { NotFoundError } from '@/errors/response-errors/not-found.error';
 import { ExecutionsController } from '@/executions/executions.controller';
 import type { ExecutionRequest, ExecutionSummaries } from '@/executions/execution.types';
 import type { ExecutionService } from '@/executions/execution.service';
+import type { DeadLetterService } from '@/executions/dead-letter.service';
 import type { WorkflowSharingService } from '@/workflows/workflowSharing.service';
 import { BadRequestError } from '@/errors/response-errors/bad-request.error';
 
 describe('ExecutionsController', () => {
 	const executionService = mock<ExecutionService>();
 	const workflowSharingService = mock<WorkflowSharingService>();
+	const deadLetterService = mock<DeadLetterService>();
 
 	const executionsController = new ExecutionsController(
 		executionService,
 		mock(),
 		workflowSharingService,
 		mock(),
+		deadLetterService,
 	);
 
 	beforeEach(() => {
@@ -151,4 +154,38 @@ describe('ExecutionsController', () => {
 			expect(executionService.stop).toHaveBeenCalledWith(executionId);
 		});
 	});
+
+	describe('replayDeadLetters', () => {
+		it('should 400 when no entry IDs are provided', async () => {
+			const req = mock<ExecutionRequest.ReplayDeadLetters>({ body: { ids: [] } });
+
+			await expect(executionsController.replayDeadLetters(req)).rejects.toThrow(BadRequestError);
+			expect(deadLetterService.replay).not.toHaveBeenCalled();
+		});
+
+		it('should replay entries in workflows the user can execute', async () => {
+			workflowSharingService.getSharedWorkflowIds.mockResolvedValue(['123']);
+
+			const req = {
+				body: { ids: ['abc'] },
+				user: { id: 'user-id' },
+			} as ExecutionRequest.ReplayDeadLetters;
+
+			await executionsController.replayDeadLetters(req);
+
+			expect(deadLetterService.replay).toHaveBeenCalledWith(['abc'], ['123'], 'user-id');
+		});
+	});
+
+	describe('replay', () => {
+		it('should 400 when replay mode is invalid', async () => {
+			const req = {
+				params: { id: '999' },
+				body: { mode: 'test' },
+			} as unknown as ExecutionRequest.Replay;
+
+			await expect(executionsController.replay(req)).rejects.toThrow(BadRequestError);
+			expect(executionService.replay).not.toHaveBeenCalled();
+		});
+	});
 });
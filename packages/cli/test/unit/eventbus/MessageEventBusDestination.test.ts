@@ -0,0 +1,370 @@
+import axios from 'axios';
+import { Kafka } from 'kafkajs';
+import type { Producer } from 'kafkajs';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { mock } from 'jest-mock-extended';
+import { Cipher, InstanceSettings } from 'n8n-core';
+import {
+	defaultMessageEventBusDestinationFileOptions,
+	defaultMessageEventBusDestinationKafkaOptions,
+	defaultMessageEventBusDestinationOtlpOptions,
+} from 'n8n-workflow';
+import { CREDENTIAL_BLANKING_VALUE } from '@/constants';
+import { License } from '@/License';
+import { OwnershipService } from '@/services/ownership.service';
+import type { Project } from '@db/entities/Project';
+import { EventMessageAudit } from '@/eventbus/EventMessageClasses/EventMessageAudit';
+import type { MessageEventBus } from '@/eventbus/MessageEventBus/MessageEventBus';
+import { MessageEventBusDestinationOtlp } from '@/eventbus/MessageEventBusDestination/MessageEventBusDestinationOtlp.ee';
+import { MessageEventBusDestinationKafka } from '@/eventbus/MessageEventBusDestination/MessageEventBusDestinationKafka.ee';
+import {
+	isValidFileDestinationPath,
+	MessageEventBusDestinationFile,
+} from '@/eventbus/MessageEventBusDestination/MessageEventBusDestinationFile.ee';
+import { messageEventBusDestinationFromDb } from '@/eventbus/MessageEventBusDestination/MessageEventBusDestinationFromDb';
+import type { EventDestinations } from '@db/entities/EventDestinations';
+import { EventDestinationsRepository } from '@db/repositories/eventDestinations.repository';
+import { mockInstance } from '../../shared/mocking';
+
+jest.mock('axios');
+jest.mock('kafkajs');
+
+describe('MessageEventBusDestination', () => {
+	mockInstance(License, { isLogStreamingEnabled: () => true });
+	const instanceSettings = mockInstance(InstanceSettings);
+
+	const eventBus = mock<MessageEventBus>();
+	const confirmCallback = jest.fn();
+
+	const msg = new EventMessageAudit({
+		eventName: 'n8n.audit.user.updated',
+		message: 'User updated',
+		payload: { userId: '123', _secret: 'secret' },
+	});
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('OTLP', () => {
+		const destination = new MessageEventBusDestinationOtlp(eventBus, {
+			...defaultMessageEventBusDestinationOtlpOptions,
+			url: 'http://collector:4318/',
+			subscribedEvents: ['n8n.audit'],
+			headerParameters: { parameters: [{ name: 'authorization', value: 'Bearer token' }] },
+		});
+
+		it('should post the event as an OTLP log record', async () => {
+			jest.mocked(axios.post).mockResolvedValue({ status: 200 });
+
+			const sendResult = await destination.receiveFromEventBus({ msg, confirmCallback });
+
+			expect(sendResult).toBe(true);
+			expect(confirmCallback).toHaveBeenCalledWith(msg, {
+				id: destination.id,
+				name: destination.label,
+			});
+
+			const [url, body, options] = jest.mocked(axios.post).mock.calls[0];
+			expect(url).toBe('http://collector:4318/v1/logs');
+			expect(options?.headers).toMatchObject({ authorization: 'Bearer token' });
+
+			const { resourceLogs } = body as ReturnType<typeof destination.toOtlpLogs>;
+			expect(resourceLogs[0].scopeLogs[0].logRecords[0]).toMatchObject({
+				severityText: 'INFO',
+				body: { stringValue: 'User updated' },
+				attributes: [
+					{ key: 'event.name', value: { stringValue: 'n8n.audit.user.updated' } },
+					{ key: 'event.id', value: { stringValue: msg.id } },
+					{ key: 'n8n.userId', value: { stringValue: '123' } },
+					{ key: 'n8n._secret', value: { stringValue: 'secret' } },
+				],
+			});
+		});
+
+		it('should not confirm the event if the collector fails', async () => {
+			jest.mocked(axios.post).mockRejectedValue(new Error('Connection refused'));
+
+			expect(await destination.receiveFromEventBus({ msg, confirmCallback })).toBe(false);
+			expect(confirmCallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Kafka', () => {
+		it('should send the event to the topic', async () => {
+			const producer = {
+				connect: jest.fn().mockResolvedValue(undefined),
+				send: jest.fn().mockResolvedValue([]),
+				disconnect: jest.fn().mockResolvedValue(undefined),
+			};
+			jest
+				.mocked(Kafka)
+				.mockImplementation(() => mock<Kafka>({ producer: () => producer as unknown as Producer }));
+
+			const destination = new MessageEventBusDestinationKafka(eventBus, {
+				...defaultMessageEventBusDestinationKafkaOptions,
+				brokers: 'kafka1:9092, kafka2:9092',
+				subscribedEvents: ['n8n.audit'],
+				anonymizeAuditMessages: true,
+			});
+
+			expect(await destination.receiveFromEventBus({ msg, confirmCallback })).toBe(true);
+			expect(await destination.receiveFromEventBus({ msg, confirmCallback })).toBe(true);
+
+			expect(Kafka).toHaveBeenCalledWith(
+				expect.objectContaining({ brokers: ['kafka1:9092', 'kafka2:9092'], sasl: undefined }),
+			);
+			expect(producer.connect).toHaveBeenCalledTimes(1);
+
+			const { topic, messages } = producer.send.mock.calls[0][0];
+			expect(topic).toBe('n8n-events');
+			expect(messages[0].key).toBe('n8n.audit.user.updated');
+			expect(JSON.parse(messages[0].value as string).payload).toEqual({
+				userId: '123',
+				_secret: '*',
+			});
+
+			await destination.close();
+			expect(producer.disconnect).toHaveBeenCalled();
+		});
+
+		describe('password', () => {
+			mockInstance(Cipher, {
+				encrypt: (data) => `encrypted:${data as string}`,
+				decrypt: (data) => data.replace('encrypted:', ''),
+			});
+			const eventDestinationsRepository = mockInstance(EventDestinationsRepository);
+
+			const options = {
+				...defaultMessageEventBusDestinationKafkaOptions,
+				id: '0b2dcbdd-5e8b-4f5d-a0a7-f1c3e6ac5c1a',
+				authentication: true,
+				username: 'n8n',
+				password: 'secret',
+			};
+
+			it('should redact the password when serialized', () => {
+				const destination = new MessageEventBusDestinationKafka(eventBus, options);
+
+				expect(destination.serialize().password).toBe(CREDENTIAL_BLANKING_VALUE);
+				expect(destination.toString()).not.toContain('secret');
+			});
+
+			it('should store the password encrypted', async () => {
+				const destination = new MessageEventBusDestinationKafka(eventBus, options);
+
+				await destination.saveToDb();
+
+				const [{ destination: stored }] = eventDestinationsRepository.upsert.mock.calls[0] as [
+					EventDestinations,
+					unknown,
+				];
+				expect(stored).toMatchObject({ password: 'encrypted:secret' });
+
+				const dbData = { id: options.id, destination: stored } as EventDestinations;
+				const restored = messageEventBusDestinationFromDb(eventBus, dbData);
+				expect((restored as MessageEventBusDestinationKafka).password).toBe('secret');
+			});
+
+			it('should keep the current password when updated with the redacted one', () => {
+				const current = new MessageEventBusDestinationKafka(eventBus, options);
+				const eventBusWithCurrent = {
+					destinations: { [options.id]: current },
+				} as unknown as MessageEventBus;
+
+				const updated = new MessageEventBusDestinationKafka(eventBusWithCurrent, {
+					...options,
+					topic: 'other-topic',
+					password: CREDENTIAL_BLANKING_VALUE,
+				});
+
+				expect(updated.password).toBe('secret');
+			});
+		});
+	});
+
+	describe('File', () => {
+		let folder: string;
+
+		beforeEach(async () => {
+			folder = await mkdtemp(path.join(tmpdir(), 'n8n-event-file-'));
+			Object.assign(instanceSettings, { n8nFolder: folder });
+		});
+
+		afterEach(async () => await rm(folder, { recursive: true, force: true }));
+
+		it('should append events as NDJSON to a file in the folder of file destinations', async () => {
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				path: 'logs/events.ndjson',
+				subscribedEvents: ['n8n.audit'],
+			});
+
+			await destination.receiveFromEventBus({ msg, confirmCallback });
+			await destination.receiveFromEventBus({ msg, confirmCallback });
+
+			const filePath = path.join(folder, 'log-streaming/logs/events.ndjson');
+			const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+			expect(lines).toHaveLength(2);
+			expect(JSON.parse(lines[0])).toMatchObject({ id: msg.id, eventName: msg.eventName });
+			expect(confirmCallback).toHaveBeenCalledTimes(2);
+		});
+
+		it('should only accept relative paths in the folder of file destinations', () => {
+			expect(isValidFileDestinationPath('events.ndjson')).toBe(true);
+			expect(isValidFileDestinationPath('logs/events.ndjson')).toBe(true);
+			expect(isValidFileDestinationPath('/var/lib/n8n/database.sqlite')).toBe(false);
+			expect(isValidFileDestinationPath('C:\\n8n\\database.sqlite')).toBe(false);
+			expect(isValidFileDestinationPath('../database.sqlite')).toBe(false);
+			expect(isValidFileDestinationPath('logs/../../database.sqlite')).toBe(false);
+			expect(isValidFileDestinationPath('logs\\..\\..\\database.sqlite')).toBe(false);
+			expect(isValidFileDestinationPath('')).toBe(false);
+		});
+
+		it('should not write outside of the folder of file destinations', async () => {
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				path: '../database.sqlite',
+				subscribedEvents: ['n8n.audit'],
+			});
+
+			const sendResult = await destination.receiveFromEventBus({ msg, confirmCallback });
+
+			expect(sendResult).toBe(false);
+			expect(await readdir(folder)).toEqual([]);
+		});
+
+		it('should rotate the file once it exceeds the max size', async () => {
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				path: 'events.ndjson',
+				subscribedEvents: ['n8n.audit'],
+				maxFileSizeInKB: 0.1,
+				keepNumberOfFiles: 2,
+			});
+
+			for (let i = 0; i < 4; i++) {
+				await destination.receiveFromEventBus({ msg, confirmCallback });
+			}
+
+			expect((await readdir(path.join(folder, 'log-streaming'))).sort()).toEqual([
+				'events-1.ndjson',
+				'events-2.ndjson',
+			]);
+		});
+
+		it('should deliver subscribed events in batches through its outbox', async () => {
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				path: 'events.ndjson',
+				subscribedEvents: ['n8n.audit'],
+				delivery: { batchSize: 2, batchInterval: 60_000 },
+			});
+			const sendBatch = jest.spyOn(destination as unknown as { sendBatch: () => {} }, 'sendBatch');
+
+			destination.startListening();
+			const listener = eventBus.on.mock.calls[0][1] as (msg: EventMessageAudit) => Promise<void>;
+			const otherMsg = new EventMessageAudit({ eventName: 'n8n.audit.user.deleted' });
+			await listener(msg);
+			await listener(otherMsg);
+			await destination.close();
+
+			expect(sendBatch).toHaveBeenCalledTimes(1);
+			expect(eventBus.confirmSent).toHaveBeenCalledWith(msg, {
+				id: destination.id,
+				name: destination.label,
+			});
+			expect(eventBus.confirmSent).toHaveBeenCalledWith(otherMsg, expect.anything());
+			expect(destination.getDeliveryStatus()).toBeUndefined();
+
+			const lines = (await readFile(destination.filePath, 'utf8')).trim().split('\n');
+			expect(lines).toHaveLength(2);
+			expect(await readFile(destination.outboxFilePath, 'utf8')).toBe('');
+		});
+
+		it('should delete its outbox journal with the undelivered events', async () => {
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				path: 'events.ndjson',
+				subscribedEvents: ['n8n.audit'],
+				delivery: { batchSize: 2, batchInterval: 60_000 },
+			});
+
+			destination.startListening();
+			const listener = eventBus.on.mock.calls[0][1] as (msg: EventMessageAudit) => Promise<void>;
+			await listener(msg);
+			await destination.close();
+			expect(await readFile(destination.outboxFilePath, 'utf8')).toContain(msg.id);
+
+			await destination.deleteOutbox();
+
+			expect(await readdir(folder)).not.toContain(path.basename(destination.outboxFilePath));
+		});
+	});
+
+	describe('event rules', () => {
+		const ownershipService = mockInstance(OwnershipService);
+
+		const workflowMsg = new EventMessageAudit({
+			eventName: 'n8n.audit.workflow.updated',
+			payload: { workflowId: 'wf-1', _email: 'jane@n8n.io' },
+		});
+
+		it('should filter events on the project of their workflow', async () => {
+			ownershipService.getWorkflowProjectCached.mockResolvedValue(
+				mock<Project>({ id: 'project-1' }),
+			);
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				subscribedEvents: ['n8n.audit'],
+				eventFilters: { rules: [{ field: 'projectId', operator: 'equals', value: 'project-2' }] },
+			});
+
+			expect(await destination.applyEventRules(workflowMsg)).toBeUndefined();
+			expect(ownershipService.getWorkflowProjectCached).toHaveBeenCalledWith('wf-1');
+		});
+
+		it('should send the transformed event', async () => {
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				subscribedEvents: ['n8n.audit'],
+				eventFilters: {
+					rules: [{ field: 'payload.workflowId', operator: 'equals', value: 'wf-1' }],
+				},
+				redactFields: '_email',
+			});
+
+			const event = await destination.applyEventRules(workflowMsg);
+
+			expect(event?.id).toBe(workflowMsg.id);
+			expect(event?.payload).toEqual({ workflowId: 'wf-1', _email: '*' });
+			expect(destination.serialize()).toMatchObject({ redactFields: '_email' });
+		});
+
+		it('should send events unchanged without rules', async () => {
+			const destination = new MessageEventBusDestinationFile(eventBus, {
+				...defaultMessageEventBusDestinationFileOptions,
+				subscribedEvents: ['n8n.audit'],
+			});
+
+			expect(await destination.applyEventRules(workflowMsg)).toBe(workflowMsg);
+		});
+	});
+
+	it('should restore the new destination types from the database', () => {
+		for (const destination of [
+			defaultMessageEventBusDestinationOtlpOptions,
+			defaultMessageEventBusDestinationKafkaOptions,
+			defaultMessageEventBusDestinationFileOptions,
+		]) {
+			const { id, credentials, ...options } = destination;
+			const dbData = { id: 'destination-id', destination } as unknown as EventDestinations;
+
+			expect(messageEventBusDestinationFromDb(eventBus, dbData)?.serialize()).toMatchObject(
+				options,
+			);
+		}
+	});
+});
@@ -0,0 +1,164 @@
+import { EventMessageAudit } from '@/eventbus/EventMessageClasses/EventMessageAudit';
+import type { EventRuleContext } from '@/eventbus/MessageEventBusDestination/MessageEventBusDestinationEventRules';
+import {
+	filtersNeedProject,
+	hasEventRules,
+	matchesEventFilters,
+	transformEvent,
+	validatePayloadTemplate,
+} from '@/eventbus/MessageEventBusDestination/MessageEventBusDestinationEventRules';
+
+describe('MessageEventBusDestinationEventRules', () => {
+	const msg = new EventMessageAudit({
+		eventName: 'n8n.audit.workflow.updated',
+		message: 'Workflow updated',
+		payload: {
+			workflowId: 'wf-1',
+			userId: 'user-1',
+			user: { email: 'jane@n8n.io', role: 'global:owner' },
+			_email: 'jane@n8n.io',
+			workflow: { nodes: [{ type: 'n8n-nodes-base.set' }] },
+		},
+	});
+
+	const context: EventRuleContext = {
+		eventName: msg.eventName,
+		message: msg.message,
+		payload: msg.payload,
+		projectId: 'project-1',
+	};
+
+	describe('hasEventRules', () => {
+		it('should only be true when a rule is set', () => {
+			expect(hasEventRules({})).toBe(false);
+			expect(hasEventRules({ eventFilters: { rules: [] }, redactFields: ' , ' })).toBe(false);
+			expect(hasEventRules({ redactFields: 'email' })).toBe(true);
+			expect(hasEventRules({ payloadTemplate: '{}' })).toBe(true);
+		});
+	});
+
+	describe('filtersNeedProject', () => {
+		it('should be true when a filter is on the project', () => {
+			expect(
+				filtersNeedProject({
+					eventFilters: { rules: [{ field: 'payload.projectId', operator: 'exists' }] },
+				}),
+			).toBe(false);
+			expect(
+				filtersNeedProject({
+					eventFilters: { rules: [{ field: 'projectId', operator: 'equals', value: 'p' }] },
+				}),
+			).toBe(true);
+		});
+	});
+
+	describe('matchesEventFilters', () => {
+		test.each([
+			[{ field: 'payload.workflowId', operator: 'equals', value: 'wf-2, wf-1' }, true],
+			[{ field: 'payload.workflowId', operator: 'equals', value: 'wf-2' }, false],
+			[{ field: 'payload.workflowId', operator: 'notEquals', value: 'wf-1' }, false],
+			[{ field: 'projectId', operator: 'equals', value: 'project-1' }, true],
+			[{ field: 'eventName', operator: 'contains', value: '.workflow.' }, true],
+			[{ field: 'payload.workflow.nodes', operator: 'contains', value: 'nodes-base.set' }, true],
+			[
+				{ field: 'payload.workflow.nodes', operator: 'notContains', value: 'nodes-base.set' },
+				false,
+			],
+			[{ field: 'payload.user.email', operator: 'exists' }, true],
+			[{ field: 'payload.executionId', operator: 'exists' }, false],
+			[{ field: 'payload.executionId', operator: 'notExists' }, true],
+		] as const)('%o should match: %s', (filter, expected) => {
+			expect(matchesEventFilters(context, { eventFilters: { rules: [filter] } })).toBe(expected);
+		});
+
+		it('should require all filters to match', () => {
+			expect(
+				matchesEventFilters(context, {
+					eventFilters: {
+						rules: [
+							{ field: 'payload.workflowId', operator: 'equals', value: 'wf-1' },
+							{ field: 'projectId', operator: 'equals', value: 'project-2' },
+						],
+					},
+				}),
+			).toBe(false);
+		});
+	});
+
+	describe('transformEvent', () => {
+		it('should drop and redact fields by name or path without modifying the event', () => {
+			const transformed = transformEvent(msg, context, {
+				dropFields: 'workflow',
+				redactFields: '_email, user.email',
+			});
+
+			expect(transformed).toBeInstanceOf(EventMessageAudit);
+			expect(transformed.id).toBe(msg.id);
+			expect(transformed.payload).toEqual({
+				workflowId: 'wf-1',
+				userId: 'user-1',
+				user: { email: '*', role: 'global:owner' },
+				_email: '*',
+			});
+			expect(msg.payload).toHaveProperty('workflow');
+		});
+
+		it('should match a single field name at any depth', () => {
+			const transformed = transformEvent(msg, context, { redactFields: 'email' });
+
+			expect(transformed.payload).toMatchObject({ user: { email: '*' }, _email: 'jane@n8n.io' });
+		});
+
+		it('should reshape the payload with a template', () => {
+			const transformed = transformEvent(msg, context, {
+				redactFields: 'email',
+				payloadTemplate: JSON.stringify({
+					action: '{{ $event.eventName }}',
+					target: 'workflow/{{ $event.payload.workflowId }}',
+					project: '{{ $event.projectId }}',
+					actor: '{{ $event.payload.user }}',
+					nodes: ['{{ $event.payload.workflow.nodes[0].type }}'],
+					missing: '{{ $event.payload.executionId }}',
+					static: 1,
+				}),
+			});
+
+			expect(transformed.payload).toEqual({
+				action: 'n8n.audit.workflow.updated',
+				target: 'workflow/wf-1',
+				project: 'project-1',
+				actor: { email: '*', role: 'global:owner' },
+				nodes: ['n8n-nodes-base.set'],
+				missing: null,
+				static: 1,
+			});
+		});
+	});
+
+	describe('validatePayloadTemplate', () => {
+		it('should accept templates with event fields only', () => {
+			expect(() =>
+				validatePayloadTemplate(
+					'{ "a": "{{ $event.payload.workflowId }}", "b": [1, "{{$event}}"] }',
+				),
+			).not.toThrow();
+		});
+
+		it('should reject invalid JSON', () => {
+			expect(() => validatePayloadTemplate('{ "a": ')).toThrow(
+				'Payload template is not valid JSON',
+			);
+		});
+
+		it('should reject placeholders that are not event fields', () => {
+			expect(() =>
+				validatePayloadTemplate(
+					'{ "a": "{{ $event.constructor.constructor(\'return process\')() }}" }',
+				),
+			).toThrow('Invalid placeholder');
+			expect(() => validatePayloadTemplate('{ "a": "{{ $env.HOME }}" }')).toThrow(
+				'Invalid placeholder',
+			);
+		});
+	});
+});
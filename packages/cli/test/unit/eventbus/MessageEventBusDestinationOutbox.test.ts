@@ -0,0 +1,151 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { mock } from 'jest-mock-extended';
+import { defaultMessageEventBusDestinationDeliveryOptions } from 'n8n-workflow';
+import type { MessageEventBusDestinationDeliveryOptions } from 'n8n-workflow';
+import type { Logger } from '@/Logger';
+import type { EventMessageTypes } from '@/eventbus/EventMessageClasses';
+import { EventMessageAudit } from '@/eventbus/EventMessageClasses/EventMessageAudit';
+import { MessageEventBusDestinationOutbox } from '@/eventbus/MessageEventBusDestination/MessageEventBusDestinationOutbox';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+	const start = Date.now();
+	while (!condition()) {
+		if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+};
+
+describe('MessageEventBusDestinationOutbox', () => {
+	let folder: string;
+	let filePath: string;
+	let outbox: MessageEventBusDestinationOutbox | undefined;
+
+	const deliver = jest.fn<Promise<void>, [EventMessageTypes[]]>();
+
+	const createOutbox = (options: MessageEventBusDestinationDeliveryOptions = {}) => {
+		outbox = new MessageEventBusDestinationOutbox(
+			filePath,
+			{ ...defaultMessageEventBusDestinationDeliveryOptions, ...options },
+			deliver,
+			mock<Logger>(),
+		);
+		return outbox;
+	};
+
+	const createMessage = () => new EventMessageAudit({ eventName: 'n8n.audit.user.updated' });
+
+	const deliveredIds = () => deliver.mock.calls.map(([msgs]) => msgs.map((msg) => msg.id));
+
+	beforeEach(async () => {
+		jest.clearAllMocks();
+		deliver.mockResolvedValue();
+		folder = await mkdtemp(path.join(tmpdir(), 'n8n-event-outbox-'));
+		filePath = path.join(folder, 'outbox.log');
+	});
+
+	afterEach(async () => {
+		await outbox?.close();
+		await rm(folder, { recursive: true, force: true });
+	});
+
+	it('should deliver events right away by default', async () => {
+		const outbox = createOutbox();
+		const msg = createMessage();
+
+		await outbox.enqueue(msg);
+		await waitFor(() => outbox.getStatus().delivered === 1);
+
+		expect(deliveredIds()).toEqual([[msg.id]]);
+		expect(outbox.getStatus()).toMatchObject({ pending: 0, failedAttempts: 0, lag: 0 });
+	});
+
+	it('should deliver events in batches once the batch is full', async () => {
+		const outbox = createOutbox({ batchSize: 3, batchInterval: 60_000 });
+		const msgs = [createMessage(), createMessage(), createMessage()];
+
+		await outbox.enqueue(msgs[0]);
+		await outbox.enqueue(msgs[1]);
+		expect(deliver).not.toHaveBeenCalled();
+		expect(outbox.getStatus().pending).toBe(2);
+
+		await outbox.enqueue(msgs[2]);
+		await waitFor(() => outbox.getStatus().delivered === 3);
+
+		expect(deliveredIds()).toEqual([msgs.map((msg) => msg.id)]);
+	});
+
+	it('should deliver a partial batch after the batch interval', async () => {
+		const outbox = createOutbox({ batchSize: 10, batchInterval: 20 });
+
+		await outbox.enqueue(createMessage());
+		await outbox.enqueue(createMessage());
+		await waitFor(() => outbox.getStatus().delivered === 2);
+
+		expect(deliver).toHaveBeenCalledTimes(1);
+	});
+
+	it('should retry a failed batch with backoff', async () => {
+		deliver.mockRejectedValueOnce(new Error('Connection refused'));
+		const outbox = createOutbox({ retryInitialDelay: 20 });
+		const msg = createMessage();
+
+		await outbox.enqueue(msg);
+		await waitFor(() => outbox.getStatus().failedAttempts === 1);
+		expect(outbox.getStatus()).toMatchObject({
+			pending: 1,
+			lastError: 'Connection refused',
+			nextRetryAt: expect.any(String),
+		});
+
+		await waitFor(() => outbox.getStatus().delivered === 1);
+		expect(deliveredIds()).toEqual([[msg.id], [msg.id]]);
+		expect(outbox.getStatus().nextRetryAt).toBeUndefined();
+	});
+
+	it('should keep undelivered events across restarts', async () => {
+		deliver.mockRejectedValue(new Error('Connection refused'));
+		const msg = createMessage();
+		const firstOutbox = createOutbox({ retryInitialDelay: 60_000 });
+		await firstOutbox.enqueue(msg);
+		await waitFor(() => firstOutbox.getStatus().failedAttempts === 1);
+		await firstOutbox.close();
+
+		deliver.mockResolvedValue();
+		const secondOutbox = createOutbox();
+		await secondOutbox.start();
+		await waitFor(() => secondOutbox.getStatus().delivered === 1);
+		await secondOutbox.close();
+
+		expect(deliver.mock.calls[1][0][0]).toBeInstanceOf(EventMessageAudit);
+		expect(deliver.mock.calls[1][0][0].id).toBe(msg.id);
+		expect(await readFile(filePath, 'utf8')).toBe('');
+	});
+
+	it('should not restore events that were already delivered', async () => {
+		const firstOutbox = createOutbox({ batchSize: 2, batchInterval: 60_000 });
+		const msgs = [createMessage(), createMessage(), createMessage()];
+		for (const msg of msgs) await firstOutbox.enqueue(msg);
+		await waitFor(() => firstOutbox.getStatus().delivered === 2);
+		await firstOutbox.close();
+
+		const secondOutbox = createOutbox({ batchSize: 1 });
+		await secondOutbox.start();
+		await waitFor(() => secondOutbox.getStatus().delivered === 1);
+
+		expect(deliveredIds()).toEqual([[msgs[0].id, msgs[1].id], [msgs[2].id]]);
+	});
+
+	it('should drop the oldest events beyond the max queue size', async () => {
+		deliver.mockRejectedValue(new Error('Connection refused'));
+		const outbox = createOutbox({ maxQueueSize: 2, retryInitialDelay: 60_000 });
+		const msgs = [createMessage(), createMessage(), createMessage(), createMessage()];
+
+		await outbox.enqueue(msgs[0]);
+		await waitFor(() => outbox.getStatus().failedAttempts === 1);
+		for (const msg of msgs.slice(1)) await outbox.enqueue(msg);
+
+		expect(outbox.getStatus()).toMatchObject({ pending: 2, dropped: 2 });
+	});
+});
@@ -0,0 +1,185 @@
+import { mock } from 'jest-mock-extended';
+import type { ApiKey } from '@db/entities/ApiKey';
+import type { Project } from '@db/entities/Project';
+import type { User } from '@db/entities/User';
+import type { ApiKeyRepository } from '@db/repositories/apiKey.repository';
+import type { SharedWorkflowRepository } from '@db/repositories/sharedWorkflow.repository';
+import type { SharedWorkflow } from '@db/entities/SharedWorkflow';
+import { BadRequestError } from '@/errors/response-errors/bad-request.error';
+import type { ProjectService } from '@/services/project.service';
+import { ApiKeyService } from '@/services/api-key.service';
+
+describe('ApiKeyService', () => {
+	const apiKeyRepository = mock<ApiKeyRepository>();
+	const sharedWorkflowRepository = mock<SharedWorkflowRepository>();
+	const projectService = mock<ProjectService>();
+	const service = new ApiKeyService(
+		apiKeyRepository,
+		sharedWorkflowRepository,
+		mock(),
+		projectService,
+	);
+
+	const user = mock<User>({ id: 'user-1' });
+
+	const apiKey = (attributes: Partial<ApiKey> = {}) =>
+		({
+			id: 'key-1',
+			apiKey: 'n8n_api_abcdefghij',
+			scopes: ['workflow:read'],
+			projectIds: null,
+			expiresAt: null,
+			lastUsedAt: null,
+			...attributes,
+		}) as ApiKey;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		apiKeyRepository.create.mockImplementation((entity) => entity as ApiKey);
+		apiKeyRepository.save.mockImplementation(async (entity) => entity as ApiKey);
+	});
+
+	describe('create', () => {
+		test('should create a key with a random secret', async () => {
+			const created = await service.create(user, {
+				label: ' CI ',
+				scopes: ['workflow:read', 'workflow:read'],
+			});
+
+			expect(created).toMatchObject({
+				userId: 'user-1',
+				label: 'CI',
+				scopes: ['workflow:read'],
+				projectIds: null,
+				expiresAt: null,
+			});
+			expect(created.apiKey).toMatch(/^n8n_api_[0-9a-f]{80}$/);
+		});
+
+		test('should reject unknown scopes', async () => {
+			await expect(
+				service.create(user, { label: 'CI', scopes: ['workflow:fly' as 'workflow:read'] }),
+			).rejects.toThrowError(new BadRequestError('Unknown scopes: workflow:fly'));
+		});
+
+		test('should reject projects the user cannot access', async () => {
+			projectService.getAccessibleProjects.mockResolvedValue([mock<Project>({ id: 'project-1' })]);
+
+			await expect(
+				service.create(user, {
+					label: 'CI',
+					scopes: ['workflow:read'],
+					projectIds: ['project-1', 'project-2'],
+				}),
+			).rejects.toThrowError(new BadRequestError('Could not find projects: project-2'));
+		});
+
+		test('should reject instance-wide scopes of keys restricted to projects', async () => {
+			await expect(
+				service.create(user, {
+					label: 'CI',
+					scopes: ['workflow:read', 'tag:read', 'user:list'],
+					projectIds: ['project-1'],
+				}),
+			).rejects.toThrowError(
+				new BadRequestError(
+					'API keys restricted to projects cannot have instance-wide scopes: tag:read, user:list',
+				),
+			);
+			expect(apiKeyRepository.save).not.toHaveBeenCalled();
+		});
+
+		test('should reject an invalid expiry', async () => {
+			await expect(
+				service.create(user, { label: 'CI', scopes: ['workflow:read'], expiresAt: 'tomorrow' }),
+			).rejects.toThrowError(BadRequestError);
+		});
+	});
+
+	describe('authenticate', () => {
+		test('should return nothing for a missing or unknown key', async () => {
+			apiKeyRepository.findWithUser.mockResolvedValue(null);
+
+			expect(await service.authenticate(undefined)).toBeNull();
+			expect(await service.authenticate('n8n_api_unknown')).toBeNull();
+			expect(apiKeyRepository.findWithUser).toHaveBeenCalledTimes(1);
+		});
+
+		test('should reject an expired key', async () => {
+			apiKeyRepository.findWithUser.mockResolvedValue(
+				apiKey({ expiresAt: new Date(Date.now() - 1000) }),
+			);
+
+			expect(await service.authenticate('n8n_api_abcdefghij')).toBeNull();
+			expect(apiKeyRepository.update).not.toHaveBeenCalled();
+		});
+
+		test('should record the usage of the key', async () => {
+			apiKeyRepository.findWithUser.mockResolvedValue(apiKey());
+
+			const authenticated = await service.authenticate('n8n_api_abcdefghij');
+
+			expect(authenticated?.lastUsedAt).toBeInstanceOf(Date);
+			expect(apiKeyRepository.update).toHaveBeenCalledWith('key-1', {
+				lastUsedAt: authenticated?.lastUsedAt,
+			});
+		});
+
+		test('should not record a usage again within a minute', async () => {
+			apiKeyRepository.findWithUser.mockResolvedValue(
+				apiKey({ lastUsedAt: new Date(Date.now() - 1000) }),
+			);
+
+			expect(await service.authenticate('n8n_api_abcdefghij')).not.toBeNull();
+			expect(apiKeyRepository.update).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('hasScope', () => {
+		test('should require all of the scopes', () => {
+			const key = apiKey({ scopes: ['workflow:read', 'workflow:execute'] });
+
+			expect(service.hasScope(key, 'workflow:read')).toBe(true);
+			expect(service.hasScope(key, ['workflow:read', 'workflow:execute'])).toBe(true);
+			expect(service.hasScope(key, ['workflow:read', 'workflow:delete'])).toBe(false);
+		});
+
+		test('should not grant instance-wide scopes to keys restricted to projects', () => {
+			const key = apiKey({ scopes: ['workflow:read', 'tag:read'], projectIds: ['project-1'] });
+
+			expect(service.hasScope(key, 'workflow:read')).toBe(true);
+			expect(service.hasScope(key, 'tag:read')).toBe(false);
+		});
+	});
+
+	describe('isProjectAllowed', () => {
+		test('should allow all projects without a key or restriction', () => {
+			expect(service.isProjectAllowed(undefined, 'project-1')).toBe(true);
+			expect(service.isProjectAllowed(apiKey(), 'project-1')).toBe(true);
+		});
+
+		test('should only allow the projects of the key', () => {
+			const key = apiKey({ projectIds: ['project-1'] });
+
+			expect(service.isProjectAllowed(key, 'project-1')).toBe(true);
+			expect(service.isProjectAllowed(key, 'project-2')).toBe(false);
+		});
+	});
+
+	describe('filterWorkflowIds', () => {
+		test('should keep all workflows for a key without restriction', async () => {
+			expect(await service.filterWorkflowIds(apiKey(), ['wf-1', 'wf-2'])).toEqual(['wf-1', 'wf-2']);
+			expect(sharedWorkflowRepository.find).not.toHaveBeenCalled();
+		});
+
+		test('should keep the workflows in the projects of the key', async () => {
+			sharedWorkflowRepository.find.mockResolvedValue([
+				mock<SharedWorkflow>({ workflowId: 'wf-1' }),
+			]);
+
+			expect(
+				await service.filterWorkflowIds(apiKey({ projectIds: ['project-1'] }), ['wf-1', 'wf-2']),
+			).toEqual(['wf-1']);
+		});
+	});
+});
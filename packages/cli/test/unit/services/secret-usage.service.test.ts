@@ -0,0 +1,151 @@
+import { mock } from 'jest-mock-extended';
+import type { INode } from 'n8n-workflow';
+import type { CredentialsEntity } from '@db/entities/CredentialsEntity';
+import type { SecretUsageEntry } from '@db/entities/SecretUsageEntry';
+import type { WorkflowEntity } from '@db/entities/WorkflowEntity';
+import type { CredentialsRepository } from '@db/repositories/credentials.repository';
+import type { SecretUsageEntryRepository } from '@db/repositories/secretUsageEntry.repository';
+import type { WorkflowRepository } from '@db/repositories/workflow.repository';
+import { createCredentialsFromCredentialsEntity } from '@/CredentialsHelper';
+import type { Credentials } from 'n8n-core';
+import { SecretUsageService } from '@/services/secret-usage.service';
+
+jest.mock('@/CredentialsHelper');
+
+describe('SecretUsageService', () => {
+	const secretUsageEntryRepository = mock<SecretUsageEntryRepository>();
+	const credentialsRepository = mock<CredentialsRepository>();
+	const workflowRepository = mock<WorkflowRepository>();
+	const service = new SecretUsageService(
+		mock(),
+		mock(),
+		secretUsageEntryRepository,
+		credentialsRepository,
+		workflowRepository,
+		mock(),
+	);
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('indexWorkflow', () => {
+		test('should index the secrets and variables referenced by each node', async () => {
+			workflowRepository.findOne.mockResolvedValue(
+				mock<WorkflowEntity>({
+					id: 'wf-1',
+					nodes: [
+						mock<INode>({
+							name: 'HTTP Request',
+							parameters: {
+								url: '={{ $vars.BASE_URL }}/orders',
+								headers: { token: "={{ $secrets.vault['api-token'] }}" },
+							},
+						}),
+						mock<INode>({
+							name: 'Set',
+							parameters: { values: ['={{ $vars["BASE_URL"] + $vars.REGION }}'] },
+						}),
+						mock<INode>({ name: 'No Op', parameters: {} }),
+					],
+				}),
+			);
+
+			await service.indexWorkflow('wf-1');
+
+			expect(secretUsageEntryRepository.replaceForResource).toHaveBeenCalledWith(
+				'workflow',
+				'wf-1',
+				[
+					{ secretType: 'externalSecret', secretKey: 'vault.api-token', nodeName: 'HTTP Request' },
+					{ secretType: 'variable', secretKey: 'BASE_URL', nodeName: 'HTTP Request' },
+					{ secretType: 'variable', secretKey: 'BASE_URL', nodeName: 'Set' },
+					{ secretType: 'variable', secretKey: 'REGION', nodeName: 'Set' },
+				],
+			);
+		});
+
+		test('should clear the entries of a deleted workflow', async () => {
+			workflowRepository.findOne.mockResolvedValue(null);
+
+			await service.indexWorkflow('wf-1');
+
+			expect(secretUsageEntryRepository.replaceForResource).toHaveBeenCalledWith(
+				'workflow',
+				'wf-1',
+				[],
+			);
+		});
+	});
+
+	describe('indexCredential', () => {
+		test('should index the secrets and variables referenced by the decrypted data', async () => {
+			credentialsRepository.findOneBy.mockResolvedValue(mock<CredentialsEntity>({ id: 'cred-1' }));
+			jest.mocked(createCredentialsFromCredentialsEntity).mockReturnValue(
+				mock<Credentials>({
+					getData: () => ({
+						user: '={{ $vars.DB_USER }}',
+						password: '={{ $secrets.vault.postgres.password }}',
+					}),
+				}),
+			);
+
+			await service.indexCredential('cred-1');
+
+			expect(secretUsageEntryRepository.replaceForResource).toHaveBeenCalledWith(
+				'credential',
+				'cred-1',
+				[
+					{ secretType: 'externalSecret', secretKey: 'vault.postgres', nodeName: null },
+					{ secretType: 'variable', secretKey: 'DB_USER', nodeName: null },
+				],
+			);
+		});
+	});
+
+	describe('getUsage', () => {
+		test('should group the credentials and workflow nodes by key, skipping deleted ones', async () => {
+			const entry = (
+				secretKey: string,
+				resourceType: SecretUsageEntry['resourceType'],
+				resourceId: string,
+				nodeName: string | null = null,
+			) =>
+				({
+					secretType: 'variable',
+					secretKey,
+					resourceType,
+					resourceId,
+					nodeName,
+				}) as SecretUsageEntry;
+
+			secretUsageEntryRepository.findBy.mockResolvedValue([
+				entry('REGION', 'workflow', 'wf-1', 'Set'),
+				entry('BASE_URL', 'workflow', 'wf-1', 'HTTP Request'),
+				entry('BASE_URL', 'workflow', 'wf-1', 'Set'),
+				entry('BASE_URL', 'credential', 'cred-1'),
+				entry('STALE', 'credential', 'cred-deleted'),
+			]);
+			credentialsRepository.getManyByIds.mockResolvedValue([
+				mock<CredentialsEntity>({ id: 'cred-1', name: 'Orders API' }),
+			]);
+			workflowRepository.findByIds.mockResolvedValue([
+				mock<WorkflowEntity>({ id: 'wf-1', name: 'Sync orders' }),
+			]);
+
+			expect(await service.getUsage('variable')).toEqual([
+				{
+					key: 'BASE_URL',
+					credentials: [{ id: 'cred-1', name: 'Orders API' }],
+					workflows: [{ id: 'wf-1', name: 'Sync orders', nodes: ['HTTP Request', 'Set'] }],
+				},
+				{
+					key: 'REGION',
+					credentials: [],
+					workflows: [{ id: 'wf-1', name: 'Sync orders', nodes: ['Set'] }],
+				},
+			]);
+			expect(secretUsageEntryRepository.findBy).toHaveBeenCalledWith({ secretType: 'variable' });
+		});
+	});
+});
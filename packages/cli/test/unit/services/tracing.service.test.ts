@@ -0,0 +1,67 @@
+import { mock } from 'jest-mock-extended';
+import type { GlobalConfig } from '@n8n/config';
+import type { InstanceSettings, Tracer } from 'n8n-core';
+import { OTLPTraceExporter } from 'n8n-core';
+import { TracingService } from '@/services/tracing.service';
+
+jest.mock('n8n-core', () => ({
+	...jest.requireActual('n8n-core'),
+	OTLPTraceExporter: jest.fn(),
+}));
+
+describe('TracingService', () => {
+	const tracer = mock<Tracer>();
+	const instanceSettings = mock<InstanceSettings>({ instanceId: 'instance-id' });
+
+	const createService = (tracing: Partial<GlobalConfig['tracing']>) =>
+		new TracingService(
+			mock(),
+			mock<GlobalConfig>({
+				tracing: {
+					enabled: true,
+					otlpEndpoint: 'http://collector:4318',
+					otlpHeaders: '',
+					serviceName: 'n8n',
+					flushInterval: 1000,
+					...tracing,
+				},
+			}),
+			instanceSettings,
+			tracer,
+		);
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should not enable tracing if disabled', () => {
+		createService({ enabled: false }).init();
+
+		expect(tracer.enable).not.toHaveBeenCalled();
+	});
+
+	it('should enable tracing with an OTLP exporter', () => {
+		createService({
+			otlpEndpoint: 'http://collector:4318/',
+			otlpHeaders: 'authorization=Bearer a=b, x-team = core',
+		}).init();
+
+		const [exporter, resource, options] = tracer.enable.mock.calls[0];
+		expect(exporter).toBeInstanceOf(OTLPTraceExporter);
+		expect(OTLPTraceExporter).toHaveBeenCalledWith({
+			url: 'http://collector:4318/v1/traces',
+			headers: { authorization: 'Bearer a=b', 'x-team': 'core' },
+		});
+		expect(resource).toMatchObject({
+			'service.name': 'n8n',
+			'service.instance.id': 'instance-id',
+		});
+		expect(options).toEqual({ flushIntervalMs: 1000 });
+	});
+
+	it('should export remaining spans on shutdown', async () => {
+		await createService({}).shutdown();
+
+		expect(tracer.shutdown).toHaveBeenCalled();
+	});
+});
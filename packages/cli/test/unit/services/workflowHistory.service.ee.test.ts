@@ -1,5 +1,6 @@
-import { mockClear } from 'jest-mock-extended';
+import { mock, mockClear } from 'jest-mock-extended';
 import { User } from '@db/entities/User';
+import type { WorkflowHistory } from '@db/entities/WorkflowHistory';
 import { WorkflowHistoryRepository } from '@db/repositories/workflowHistory.repository';
 import { SharedWorkflowRepository } from '@db/repositories/sharedWorkflow.repository';
 import { WorkflowHistoryService } from '@/workflows/workflowHistory/workflowHistory.service.ee';
@@ -111,4 +112,43 @@ describe('WorkflowHistoryService', () => {
 			);
 		});
 	});
+
+	describe('mergeConcurrentUpdate', () => {
+		it('should merge the update with the current workflow based on the version it started from', async () => {
+			// Arrange
+			isWorkflowHistoryEnabled = true;
+			const current = getWorkflow({ addNodeWithoutCreds: true });
+			current.id = '123';
+			current.connections = {};
+			const base = mock<WorkflowHistory>({ nodes: current.nodes, connections: {} });
+			workflowHistoryRepository.findOne.mockResolvedValueOnce(base);
+			const update = { nodes: [], connections: {}, versionId: '456' };
+
+			// Act
+			const result = await workflowHistoryService.mergeConcurrentUpdate(current, update);
+
+			// Assert
+			expect(workflowHistoryRepository.findOne).toHaveBeenCalledWith({
+				where: { workflowId: '123', versionId: '456' },
+			});
+			expect(result).toEqual({ nodes: [], connections: {}, conflicts: [] });
+		});
+
+		it('should not merge when the version the update started from is missing', async () => {
+			// Arrange
+			isWorkflowHistoryEnabled = true;
+			const current = getWorkflow({ addNodeWithoutCreds: true });
+			workflowHistoryRepository.findOne.mockResolvedValueOnce(null);
+
+			// Act
+			const result = await workflowHistoryService.mergeConcurrentUpdate(current, {
+				nodes: [],
+				connections: {},
+				versionId: '456',
+			});
+
+			// Assert
+			expect(result).toBeNull();
+		});
+	});
 });
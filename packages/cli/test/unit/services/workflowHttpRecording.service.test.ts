@@ -0,0 +1,70 @@
+import { mock } from 'jest-mock-extended';
+import type { HttpRecording } from 'n8n-workflow';
+import type { WorkflowHttpRecording } from '@db/entities/WorkflowHttpRecording';
+import type { WorkflowHttpRecordingRepository } from '@db/repositories/workflowHttpRecording.repository';
+import { WorkflowHttpRecordingService } from '@/workflows/workflowHttpRecording.service';
+
+describe('WorkflowHttpRecordingService', () => {
+	const repository = mock<WorkflowHttpRecordingRepository>();
+	const service = new WorkflowHttpRecordingService(mock(), repository);
+
+	const exchanges: HttpRecording.Exchange[] = [
+		{
+			nodeName: 'HTTP Request',
+			request: { method: 'GET', url: 'https://example.com/orders' },
+			response: { id: 1 },
+		},
+	];
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('startSession', () => {
+		test('should not start a session if HTTP recording is off', async () => {
+			expect(await service.startSession('123')).toBeUndefined();
+			expect(await service.startSession('123', 'off')).toBeUndefined();
+		});
+
+		test('should start an empty session to record', async () => {
+			expect(await service.startSession('123', 'record')).toEqual({
+				mode: 'record',
+				exchanges: [],
+			});
+		});
+
+		test('should start a session replaying the recording of the workflow', async () => {
+			repository.findOneBy.mockResolvedValue({
+				workflowId: '123',
+				exchanges,
+			} as WorkflowHttpRecording);
+
+			expect(await service.startSession('123', 'replay')).toEqual({ mode: 'replay', exchanges });
+		});
+
+		test('should replay nothing if the workflow has no recording', async () => {
+			repository.findOneBy.mockResolvedValue(null);
+
+			expect(await service.startSession('123', 'replay')).toEqual({
+				mode: 'replay',
+				exchanges: [],
+			});
+		});
+	});
+
+	describe('saveSession', () => {
+		test('should save the exchanges of a record session', async () => {
+			repository.create.mockImplementation((entity) => entity as WorkflowHttpRecording);
+
+			await service.saveSession('123', { mode: 'record', exchanges });
+
+			expect(repository.save).toHaveBeenCalledWith({ workflowId: '123', exchanges });
+		});
+
+		test('should not save a replay session', async () => {
+			await service.saveSession('123', { mode: 'replay', exchanges });
+
+			expect(repository.save).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,337 @@
+import { generateKeyPairSync } from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { mock } from 'jest-mock-extended';
+import type { InstanceSettings } from 'n8n-core';
+import type { EntityManager } from '@n8n/typeorm';
+
+import config from '@/config';
+import type { AuthIdentity } from '@db/entities/AuthIdentity';
+import type { Project } from '@db/entities/Project';
+import type { User } from '@db/entities/User';
+import type { AuthIdentityRepository } from '@db/repositories/authIdentity.repository';
+import type { ProjectRepository } from '@db/repositories/project.repository';
+import { SettingsRepository } from '@db/repositories/settings.repository';
+import type { UserRepository } from '@db/repositories/user.repository';
+import type { EventService } from '@/events/event.service';
+import { JwtService } from '@/services/jwt.service';
+import type { ProjectService } from '@/services/project.service';
+import { UrlService } from '@/services/url.service';
+import { OidcService } from '@/sso/oidc/oidc.service.ee';
+import { getCodeChallenge } from '@/sso/oidc/oidcHelpers';
+import type { OidcLoginState } from '@/sso/oidc/types';
+import { mockInstance } from '../../../shared/mocking';
+
+jest.mock('axios');
+
+/**
+ * Local stand-in for an OIDC provider, serving discovery, keys and tokens
+ * through the mocked `axios`, and issuing ID tokens signed with its own key.
+ */
+const provider = (() => {
+	const issuer = 'https://idp.example.com/realms/n8n';
+	const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+	const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' };
+
+	return {
+		issuer,
+		discoveryDocument: {
+			issuer,
+			authorization_endpoint: `${issuer}/protocol/openid-connect/auth`,
+			token_endpoint: `${issuer}/protocol/openid-connect/token`,
+			jwks_uri: `${issuer}/protocol/openid-connect/certs`,
+			userinfo_endpoint: `${issuer}/protocol/openid-connect/userinfo`,
+		},
+		jwks: { keys: [jwk] },
+		signIdToken: (claims: object, key = privateKey, keyid = 'key-1') =>
+			jwt.sign(claims, key, {
+				algorithm: 'RS256',
+				keyid,
+				issuer,
+				audience: 'n8n',
+				expiresIn: '5m',
+			}),
+	};
+})();
+
+describe('OidcService', () => {
+	mockInstance(SettingsRepository);
+	mockInstance(UrlService).getInstanceBaseUrl.mockReturnValue('http://localhost:5678');
+
+	const mockedAxios = axios as jest.Mocked<typeof axios>;
+	const jwtService = new JwtService(mock<InstanceSettings>({ encryptionKey: 'test-key' }));
+	const userRepository = mock<UserRepository>();
+	const authIdentityRepository = mock<AuthIdentityRepository>();
+	const projectRepository = mock<ProjectRepository>();
+	const projectService = mock<ProjectService>();
+	const eventService = mock<EventService>();
+	const oidcService = new OidcService(
+		mock(),
+		jwtService,
+		mock(),
+		mock(),
+		userRepository,
+		authIdentityRepository,
+		projectRepository,
+		projectService,
+		eventService,
+	);
+
+	const loginState: OidcLoginState = {
+		state: 'state',
+		nonce: 'nonce',
+		codeVerifier: 'verifier',
+		redirect: '/workflows',
+		isTest: false,
+	};
+	const claims = {
+		sub: 'user-1',
+		email: 'Jane@Example.com',
+		given_name: 'Jane',
+		family_name: 'Doe',
+		groups: ['n8n-admins', 'marketing'],
+	};
+
+	beforeAll(async () => {
+		config.set('userManagement.authenticationMethod', 'email');
+		await oidcService.setOidcPreferences({
+			discoveryUrl: provider.issuer,
+			clientId: 'n8n',
+			clientSecret: 'secret',
+			roleMapping: [{ claim: 'groups', value: 'n8n-admins', role: 'global:admin' }],
+			projectMapping: [
+				{ claim: 'groups', value: 'marketing', projectId: 'project-1', role: 'project:editor' },
+			],
+		});
+	});
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockedAxios.get.mockImplementation(async (url: string) => {
+			if (url === `${provider.issuer}/.well-known/openid-configuration`) {
+				return { data: provider.discoveryDocument };
+			}
+			if (url === provider.discoveryDocument.jwks_uri) return { data: provider.jwks };
+			throw new Error(`Unexpected request to ${url}`);
+		});
+	});
+
+	const mockTokenResponse = (idToken: string) =>
+		mockedAxios.post.mockResolvedValue({ data: { id_token: idToken, access_token: 'access' } });
+
+	describe('getLoginRequest', () => {
+		test('should send users to the provider with a PKCE challenge bound to the signed state', async () => {
+			const { url, stateToken } = await oidcService.getLoginRequest('/workflows');
+
+			const state = oidcService.getLoginState(stateToken);
+			const { origin, pathname, searchParams } = new URL(url);
+			expect(origin + pathname).toBe(provider.discoveryDocument.authorization_endpoint);
+			expect(Object.fromEntries(searchParams)).toEqual({
+				response_type: 'code',
+				client_id: 'n8n',
+				redirect_uri: 'http://localhost:5678/rest/sso/oidc/callback',
+				scope: 'openid email profile',
+				state: state.state,
+				nonce: state.nonce,
+				code_challenge: getCodeChallenge(state.codeVerifier),
+				code_challenge_method: 'S256',
+			});
+			expect(state.redirect).toBe('/workflows');
+		});
+
+		test('should not redirect to other sites after logging in', async () => {
+			const { stateToken } = await oidcService.getLoginRequest('//evil.example.com');
+
+			expect(oidcService.getLoginState(stateToken).redirect).toBe('/');
+		});
+	});
+
+	describe('handleCallback', () => {
+		test('should exchange the code and return the claims of a valid ID token', async () => {
+			mockTokenResponse(provider.signIdToken({ ...claims, nonce: 'nonce' }));
+
+			const result = await oidcService.handleCallback({ code: 'code', state: 'state' }, loginState);
+
+			const [tokenEndpoint, body, { headers }] = mockedAxios.post.mock.calls[0] as [
+				string,
+				string,
+				{ headers: Record<string, string> },
+			];
+			expect(tokenEndpoint).toBe(provider.discoveryDocument.token_endpoint);
+			expect(Object.fromEntries(new URLSearchParams(body))).toEqual({
+				grant_type: 'authorization_code',
+				code: 'code',
+				redirect_uri: 'http://localhost:5678/rest/sso/oidc/callback',
+				code_verifier: 'verifier',
+				client_id: 'n8n',
+			});
+			expect(headers.Authorization).toBe(`Basic ${Buffer.from('n8n:secret').toString('base64')}`);
+			expect(result.attributes).toEqual({
+				sub: 'user-1',
+				email: 'jane@example.com',
+				firstName: 'Jane',
+				lastName: 'Doe',
+				groups: ['n8n-admins', 'marketing'],
+			});
+		});
+
+		test('should reject a callback for another login', async () => {
+			await expect(
+				oidcService.handleCallback({ code: 'code', state: 'other-state' }, loginState),
+			).rejects.toThrow('The login state does not match.');
+			expect(mockedAxios.post).not.toHaveBeenCalled();
+		});
+
+		test('should reject an ID token issued for another login', async () => {
+			mockTokenResponse(provider.signIdToken({ ...claims, nonce: 'other-nonce' }));
+
+			await expect(
+				oidcService.handleCallback({ code: 'code', state: 'state' }, loginState),
+			).rejects.toThrow('The ID token nonce does not match.');
+		});
+
+		test('should reject an ID token not signed by the provider', async () => {
+			const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+			mockTokenResponse(provider.signIdToken({ ...claims, nonce: 'nonce' }, privateKey));
+
+			await expect(
+				oidcService.handleCallback({ code: 'code', state: 'state' }, loginState),
+			).rejects.toThrow('The ID token is invalid.');
+		});
+
+		test('should reject an expired login', () => {
+			const stateToken = jwtService.sign(loginState, { expiresIn: -1 });
+
+			expect(() => oidcService.getLoginState(stateToken)).toThrow('The login expired');
+		});
+	});
+
+	describe('handleOidcLogin', () => {
+		const attributes = {
+			sub: 'user-1',
+			email: 'jane@example.com',
+			firstName: 'Jane',
+			lastName: 'Doe',
+			groups: claims.groups,
+		};
+
+		beforeEach(() => {
+			projectService.getProjectRelationsForUser.mockResolvedValue([]);
+			projectRepository.findOneBy.mockResolvedValue(mock<Project>({ id: 'project-1' }));
+		});
+
+		test('should provision unknown users with their mapped role and projects', async () => {
+			config.set('sso.justInTimeProvisioning', true);
+			const newUser = mock<User>({
+				id: 'user-1',
+				firstName: 'Jane',
+				lastName: 'Doe',
+				disabled: false,
+			});
+			userRepository.findOneBy.mockResolvedValue(null);
+			const trx = mock<EntityManager>();
+			Object.assign(userRepository, { manager: trx });
+			(trx.transaction as jest.Mock).mockImplementation(
+				async (runInTransaction: (em: EntityManager) => Promise<User>) =>
+					await runInTransaction(trx),
+			);
+			userRepository.createUserWithProject.mockResolvedValue({
+				user: newUser,
+				project: mock<Project>(),
+			});
+
+			const result = await oidcService.handleOidcLogin(attributes, claims);
+
+			expect(userRepository.createUserWithProject).toHaveBeenCalledWith(
+				expect.objectContaining({ email: 'jane@example.com', role: 'global:admin' }),
+				trx,
+			);
+			expect(trx.save).toHaveBeenCalledWith(
+				expect.objectContaining({ providerId: 'user-1', providerType: 'oidc', userId: 'user-1' }),
+			);
+			expect(projectService.addUser).toHaveBeenCalledWith('project-1', 'user-1', 'project:editor');
+			expect(eventService.emit).toHaveBeenCalledWith('user-signed-up', { user: newUser });
+			expect(result).toEqual({ authenticatedUser: newUser, onboardingRequired: false });
+		});
+
+		test('should not provision unknown users without just-in-time provisioning', async () => {
+			config.set('sso.justInTimeProvisioning', false);
+			userRepository.findOneBy.mockResolvedValue(null);
+
+			const result = await oidcService.handleOidcLogin(attributes, claims);
+
+			expect(userRepository.createUserWithProject).not.toHaveBeenCalled();
+			expect(result.authenticatedUser).toBeUndefined();
+		});
+
+		test('should revoke the mapped role of users no longer in the group', async () => {
+			const user = { id: 'user-1', role: 'global:admin', disabled: false } as User;
+			authIdentityRepository.findOne.mockResolvedValue({ user } as AuthIdentity);
+
+			await oidcService.handleOidcLogin(attributes, { ...claims, groups: ['marketing'] });
+
+			expect(userRepository.save).toHaveBeenCalledWith(
+				expect.objectContaining({ id: 'user-1', role: 'global:member' }),
+				{ transaction: false },
+			);
+		});
+
+		test('should never change the role of the owner', async () => {
+			const owner = { id: 'user-1', role: 'global:owner', disabled: false } as User;
+			authIdentityRepository.findOne.mockResolvedValue({ user: owner } as AuthIdentity);
+
+			await oidcService.handleOidcLogin(attributes, { ...claims, groups: [] });
+
+			expect(owner.role).toBe('global:owner');
+		});
+
+		test('should not link existing users by an unverified email', async () => {
+			authIdentityRepository.findOne.mockResolvedValue(null);
+			userRepository.findOneBy.mockResolvedValue(mock<User>({ id: 'user-2' }));
+
+			await expect(
+				oidcService.handleOidcLogin(attributes, { ...claims, email_verified: false }),
+			).rejects.toThrow('The email of the user is not verified.');
+			expect(authIdentityRepository.save).not.toHaveBeenCalled();
+		});
+
+		test('should not link existing users without a verified email', async () => {
+			authIdentityRepository.findOne.mockResolvedValue(null);
+			userRepository.findOneBy.mockResolvedValue(mock<User>({ id: 'user-2' }));
+
+			await expect(oidcService.handleOidcLogin(attributes, claims)).rejects.toThrow(
+				'The email of the user is not verified.',
+			);
+			expect(authIdentityRepository.save).not.toHaveBeenCalled();
+		});
+
+		test('should link existing users by a verified email', async () => {
+			const user = { id: 'user-2', role: 'global:member', disabled: false } as User;
+			authIdentityRepository.findOne.mockResolvedValue(null);
+			userRepository.findOneBy.mockResolvedValue(user);
+
+			const result = await oidcService.handleOidcLogin(attributes, {
+				...claims,
+				email_verified: true,
+			});
+
+			expect(authIdentityRepository.save).toHaveBeenCalledWith(
+				expect.objectContaining({ providerId: 'user-1', providerType: 'oidc', userId: 'user-2' }),
+				{ transaction: false },
+			);
+			expect(result.authenticatedUser).toBe(user);
+		});
+
+		test('should never link the owner by email', async () => {
+			authIdentityRepository.findOne.mockResolvedValue(null);
+			userRepository.findOneBy.mockResolvedValue(
+				mock<User>({ id: 'user-2', role: 'global:owner', disabled: false }),
+			);
+
+			await expect(
+				oidcService.handleOidcLogin(attributes, { ...claims, email_verified: true }),
+			).rejects.toThrow('The owner of the instance cannot be linked by email.');
+			expect(authIdentityRepository.save).not.toHaveBeenCalled();
+		});
+	});
+});
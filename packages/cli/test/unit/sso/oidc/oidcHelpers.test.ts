@@ -0,0 +1,95 @@
+import * as helpers from '@/sso/oidc/oidcHelpers';
+
+describe('sso/oidc/oidcHelpers', () => {
+	const claims = {
+		sub: 'user-1',
+		email: 'Jane@Example.com',
+		given_name: 'Jane',
+		groups: ['n8n-admins', 'marketing'],
+		realm_access: { roles: ['offline_access', 'n8n-editor'] },
+	};
+
+	describe('getClaimValues', () => {
+		test('should return the values of list, single and nested claims', () => {
+			expect(helpers.getClaimValues(claims, 'groups')).toEqual(['n8n-admins', 'marketing']);
+			expect(helpers.getClaimValues(claims, 'given_name')).toEqual(['Jane']);
+			expect(helpers.getClaimValues(claims, 'realm_access.roles')).toEqual([
+				'offline_access',
+				'n8n-editor',
+			]);
+			expect(helpers.getClaimValues(claims, 'missing')).toEqual([]);
+		});
+	});
+
+	describe('getMappedRole', () => {
+		test('should return the role of the first matching rule', () => {
+			expect(
+				helpers.getMappedRole(claims, [
+					{ claim: 'groups', value: 'n8n-members', role: 'global:member' },
+					{ claim: 'groups', value: 'n8n-admins', role: 'global:admin' },
+					{ claim: 'groups', value: 'marketing', role: 'global:member' },
+				]),
+			).toBe('global:admin');
+			expect(
+				helpers.getMappedRole(claims, [
+					{ claim: 'groups', value: 'n8n-members', role: 'global:member' },
+				]),
+			).toBeUndefined();
+		});
+	});
+
+	describe('getMappedProjects', () => {
+		test('should return the projects of all matching rules, the first rule winning per project', () => {
+			expect(
+				helpers.getMappedProjects(claims, [
+					{ claim: 'groups', value: 'marketing', projectId: 'p1', role: 'project:editor' },
+					{
+						claim: 'realm_access.roles',
+						value: 'n8n-editor',
+						projectId: 'p2',
+						role: 'project:admin',
+					},
+					{ claim: 'groups', value: 'n8n-admins', projectId: 'p1', role: 'project:admin' },
+					{ claim: 'groups', value: 'sales', projectId: 'p3', role: 'project:viewer' },
+				]),
+			).toEqual([
+				{ projectId: 'p1', role: 'project:editor' },
+				{ projectId: 'p2', role: 'project:admin' },
+			]);
+		});
+	});
+
+	describe('getMappedOidcAttributes', () => {
+		const mapping = {
+			email: 'email',
+			firstName: 'given_name',
+			lastName: 'family_name',
+			groups: 'groups',
+		};
+
+		test('should map the claims to user attributes', () => {
+			expect(helpers.getMappedOidcAttributes(claims, mapping)).toEqual({
+				sub: 'user-1',
+				email: 'jane@example.com',
+				firstName: 'Jane',
+				lastName: '',
+				groups: ['n8n-admins', 'marketing'],
+			});
+		});
+
+		test('should throw without an email', () => {
+			expect(() => helpers.getMappedOidcAttributes(claims, { ...mapping, email: 'upn' })).toThrow(
+				'The claims of the user have no email (claim: upn).',
+			);
+		});
+	});
+
+	describe('getSafeRedirectPath', () => {
+		test('should only allow paths within n8n', () => {
+			expect(helpers.getSafeRedirectPath('/workflow/1')).toBe('/workflow/1');
+			expect(helpers.getSafeRedirectPath('https://evil.example.com')).toBe('/');
+			expect(helpers.getSafeRedirectPath('//evil.example.com')).toBe('/');
+			expect(helpers.getSafeRedirectPath(undefined)).toBe('/');
+		});
+	});
+});
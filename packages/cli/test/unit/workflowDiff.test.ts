@@ -0,0 +1,191 @@
+import type { INode } from 'n8n-workflow';
+import { NodeConnectionType } from 'n8n-workflow';
+import type { WorkflowGraph } from '@/workflows/workflowHistory/workflowDiff';
+import {
+	diffWorkflows,
+	mergeWorkflows,
+	toConnectionList,
+	toConnections,
+} from '@/workflows/workflowHistory/workflowDiff';
+
+const node = (id: string, name: string, parameters: INode['parameters'] = {}): INode => ({
+	id,
+	name,
+	type: 'n8n-nodes-base.set',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters,
+});
+
+const connect = (source: string, target: string) => ({
+	[source]: { main: [[{ node: target, type: NodeConnectionType.Main, index: 0 }]] },
+});
+
+const base: WorkflowGraph = {
+	nodes: [
+		node('1', 'Trigger'),
+		node('2', 'Set', { values: { string: [{ name: 'a', value: '1' }] }, options: {} }),
+	],
+	connections: connect('Trigger', 'Set'),
+};
+
+describe('diffWorkflows', () => {
+	test('should return no changes for identical versions', () => {
+		expect(diffWorkflows(base, base)).toEqual({
+			nodes: { added: [], removed: [], changed: [] },
+			connections: { added: [], removed: [] },
+		});
+	});
+
+	test('should detect added and removed nodes and connections', () => {
+		const to: WorkflowGraph = {
+			nodes: [base.nodes[0], node('3', 'Code')],
+			connections: connect('Trigger', 'Code'),
+		};
+
+		const diff = diffWorkflows(base, to);
+
+		expect(diff.nodes.added.map((n) => n.name)).toEqual(['Code']);
+		expect(diff.nodes.removed.map((n) => n.name)).toEqual(['Set']);
+		expect(diff.connections.added).toEqual([
+			{ source: 'Trigger', type: 'main', sourceOutput: 0, target: 'Code', targetInput: 0 },
+		]);
+		expect(diff.connections.removed).toEqual([
+			{ source: 'Trigger', type: 'main', sourceOutput: 0, target: 'Set', targetInput: 0 },
+		]);
+	});
+
+	test('should detect parameter-level changes of nodes', () => {
+		const to: WorkflowGraph = {
+			...base,
+			nodes: [
+				base.nodes[0],
+				node('2', 'Set', { values: { string: [] }, options: { dotNotation: true } }),
+			],
+		};
+
+		expect(diffWorkflows(base, to).nodes.changed).toEqual([
+			{
+				id: '2',
+				name: 'Set',
+				changes: [
+					{
+						path: ['parameters', 'values', 'string'],
+						before: [{ name: 'a', value: '1' }],
+						after: [],
+					},
+					{ path: ['parameters', 'options', 'dotNotation'], before: undefined, after: true },
+				],
+			},
+		]);
+	});
+});
+
+describe('toConnections', () => {
+	test('should restore connections from their list', () => {
+		const connections = {
+			A: {
+				main: [
+					[{ node: 'B', type: NodeConnectionType.Main, index: 0 }],
+					[{ node: 'C', type: NodeConnectionType.Main, index: 1 }],
+				],
+			},
+		};
+
+		expect(toConnections(toConnectionList(connections))).toEqual(connections);
+	});
+});
+
+describe('mergeWorkflows', () => {
+	test('should merge changes to different properties of the same node', () => {
+		const ours = {
+			...base,
+			nodes: [
+				base.nodes[0],
+				{ ...base.nodes[1], parameters: { ...base.nodes[1].parameters, options: { a: 1 } } },
+			],
+		};
+		const theirs = {
+			...base,
+			nodes: [base.nodes[0], { ...base.nodes[1], position: [100, 100] as [number, number] }],
+		};
+
+		const { nodes, conflicts } = mergeWorkflows(base, ours, theirs);
+
+		expect(conflicts).toEqual([]);
+		expect(nodes[1].parameters.options).toEqual({ a: 1 });
+		expect(nodes[1].position).toEqual([100, 100]);
+	});
+
+	test('should report conflicting changes to the same property', () => {
+		const ours = {
+			...base,
+			nodes: [base.nodes[0], { ...base.nodes[1], position: [1, 1] as [number, number] }],
+		};
+		const theirs = {
+			...base,
+			nodes: [base.nodes[0], { ...base.nodes[1], position: [2, 2] as [number, number] }],
+		};
+
+		const { conflicts } = mergeWorkflows(base, ours, theirs);
+
+		expect(conflicts).toEqual([
+			{ nodeId: '2', nodeName: 'Set', path: ['position'], ours: [1, 1], theirs: [2, 2] },
+		]);
+	});
+
+	test('should keep nodes and connections added by either side', () => {
+		const ours: WorkflowGraph = {
+			nodes: [...base.nodes, node('3', 'Ours')],
+			connections: { ...base.connections, ...connect('Set', 'Ours') },
+		};
+		const theirs: WorkflowGraph = {
+			nodes: [...base.nodes, node('4', 'Theirs')],
+			connections: { ...base.connections, ...connect('Set', 'Theirs') },
+		};
+
+		const { nodes, connections, conflicts } = mergeWorkflows(base, ours, theirs);
+
+		expect(conflicts).toEqual([]);
+		expect(nodes.map((n) => n.name)).toEqual(['Trigger', 'Set', 'Ours', 'Theirs']);
+		expect(connections.Set.main[0]).toEqual([
+			{ node: 'Ours', type: 'main', index: 0 },
+			{ node: 'Theirs', type: 'main', index: 0 },
+		]);
+	});
+
+	test('should drop nodes removed by one side along with their connections', () => {
+		const ours = base;
+		const theirs: WorkflowGraph = { nodes: [base.nodes[0]], connections: {} };
+
+		const { nodes, connections, conflicts } = mergeWorkflows(base, ours, theirs);
+
+		expect(conflicts).toEqual([]);
+		expect(nodes.map((n) => n.name)).toEqual(['Trigger']);
+		expect(connections).toEqual({});
+	});
+
+	test('should report a node removed by one side and changed by the other', () => {
+		const ours = { ...base, nodes: [base.nodes[0], { ...base.nodes[1], disabled: true }] };
+		const theirs: WorkflowGraph = { nodes: [base.nodes[0]], connections: {} };
+
+		const { conflicts } = mergeWorkflows(base, ours, theirs);
+
+		expect(conflicts).toHaveLength(1);
+		expect(conflicts[0]).toMatchObject({ nodeId: '2', nodeName: 'Set', path: [] });
+	});
+
+	test('should keep connections of renamed nodes', () => {
+		const ours = { ...base, nodes: [base.nodes[0], { ...base.nodes[1], disabled: true }] };
+		const theirs: WorkflowGraph = {
+			nodes: [base.nodes[0], { ...base.nodes[1], name: 'Renamed' }],
+			connections: connect('Trigger', 'Renamed'),
+		};
+
+		const { nodes, connections, conflicts } = mergeWorkflows(base, ours, theirs);
+
+		expect(conflicts).toEqual([]);
+		expect(nodes[1]).toMatchObject({ name: 'Renamed', disabled: true });
+		expect(connections).toEqual(connect('Trigger', 'Renamed'));
+	});
+});
@@ -0,0 +1,115 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import isEqual from 'lodash/isEqual';
+import { deepCopy } from 'n8n-workflow';
+import type {
+	HttpRecording,
+	IHttpRequestOptions,
+	INode,
+	IRequestOptions,
+	IWorkflowExecuteAdditionalData,
+} from 'n8n-workflow';
+import { NoRecordedResponseError } from './errors/no-recorded-response.error';
+
+type EncodedBinary = { binary: string };
+
+/** Indices of the exchanges of a session already replayed, so that repeated requests replay in order. */
+const replayedExchanges = new WeakMap<HttpRecording.Session, Set<number>>();
+
+/**
+ * Session of the request being recorded, so that requests made by the helper in turn,
+ * e.g. by authentication helpers through the plain request helpers, are not recorded twice.
+ */
+const recordingScope = new AsyncLocalStorage<HttpRecording.Session>();
+
+const isEncodedBinary = (value: unknown): value is EncodedBinary =>
+	typeof value === 'object' &&
+	value !== null &&
+	Object.keys(value).length === 1 &&
+	typeof (value as EncodedBinary).binary === 'string';
+
+/**
+ * Make a response serializable to JSON, encoding binary responses or bodies of full responses.
+ */
+function encodeResponse(response: unknown): unknown {
+	if (Buffer.isBuffer(response)) return { binary: response.toString('base64') };
+
+	if (typeof response === 'object' && response !== null && 'body' in response) {
+		return { ...response, body: encodeResponse(response.body) };
+	}
+
+	return response;
+}
+
+function decodeResponse(response: unknown): unknown {
+	if (isEncodedBinary(response)) return Buffer.from(response.binary, 'base64');
+
+	if (typeof response === 'object' && response !== null && 'body' in response) {
+		return { ...response, body: decodeResponse(response.body) };
+	}
+
+	return response;
+}
+
+/**
+ * Describe a request by its method and URL only, leaving out headers and body,
+ * so that no credentials end up in recordings. The query is copied, as authentication
+ * later adds credentials to the query of the request options in place.
+ */
+export function toRecordedRequest(
+	requestOptions: IHttpRequestOptions | IRequestOptions,
+): HttpRecording.Request {
+	const { method = 'GET', baseURL, qs } = requestOptions;
+	const url =
+		'uri' in requestOptions && requestOptions.uri ? requestOptions.uri : requestOptions.url;
+
+	return {
+		method: method.toUpperCase(),
+		url: `${baseURL ?? ''}${url ?? ''}`,
+		...(qs && Object.keys(qs).length > 0 && { qs: deepCopy(qs) }),
+	};
+}
+
+/**
+ * Make a request through a helper of a node, unless the execution replays recorded
+ * HTTP exchanges. In replay mode, the next recorded response to the same request of
+ * the same node is returned instead, without making the request, and a request not
+ * recorded fails. In record mode, the response is added to the recording.
+ */
+export async function recordOrReplay<T>(
+	additionalData: IWorkflowExecuteAdditionalData,
+	node: INode,
+	requestOptions: IHttpRequestOptions | IRequestOptions,
+	makeRequest: () => Promise<T>,
+): Promise<T> {
+	const session = additionalData.httpRecording;
+
+	if (!session || recordingScope.getStore() === session) return await makeRequest();
+
+	const request = toRecordedRequest(requestOptions);
+
+	if (session.mode === 'replay') {
+		let replayed = replayedExchanges.get(session);
+
+		if (!replayed) {
+			replayed = new Set();
+			replayedExchanges.set(session, replayed);
+		}
+
+		const index = session.exchanges.findIndex(
+			(exchange, i) =>
+				!replayed.has(i) && exchange.nodeName === node.name && isEqual(exchange.request, request),
+		);
+
+		if (index === -1) throw new NoRecordedResponseError(node.name, request.method, request.url);
+
+		replayed.add(index);
+
+		return decodeResponse(session.exchanges[index].response) as T;
+	}
+
+	const response = await recordingScope.run(session, makeRequest);
+
+	session.exchanges.push({ nodeName: node.name, request, response: encodeResponse(response) });
+
+	return response;
+}
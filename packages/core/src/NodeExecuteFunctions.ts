@@ -153,12 +153,14 @@ import {
 	setWorkflowExecutionMetadata,
 } from './ExecutionMetadata';
 import { getSecretsProxy } from './Secrets';
+import { recordOrReplay } from './HttpRecording';
 import Container from 'typedi';
 import type { BinaryData } from './BinaryData/types';
 import merge from 'lodash/merge';
 import { InstanceSettings } from './InstanceSettings';
 import { ScheduledTaskManager } from './ScheduledTaskManager';
 import { SSHClientsManager } from './SSHClientsManager';
+import { Tracer } from './Tracing/Tracer';
 import { binaryToBuffer } from './BinaryData/utils';
 
 axios.defaults.timeout = 300000;
@@ -775,6 +777,14 @@ async function binaryToString(body: Buffer | Readable, encoding?: BufferEncoding
 	return buffer.toString(encoding);
 }
 
+/** Send a request with axios, traced as a client span that propagates the trace to the receiver */
+async function tracedAxios(axiosConfig: AxiosRequestConfig) {
+	return await Container.get(Tracer).traceHttpRequest(
+		axiosConfig,
+		async () => await axios(axiosConfig),
+	);
+}
+
 export async function proxyRequestToAxios(
 	workflow: Workflow | undefined,
 	additionalData: IWorkflowExecuteAdditionalData | undefined,
@@ -800,7 +810,7 @@ export async function proxyRequestToAxios(
 		// for digest-auth
 		requestFn = async () => {
 			try {
-				return await axios(axiosConfig);
+				return await tracedAxios(axiosConfig);
 			} catch (error) {
 				const { response } = error;
 				if (response?.status !== 401 || !response.headers['www-authenticate']?.includes('nonce')) {
@@ -809,11 +819,11 @@ export async function proxyRequestToAxios(
 				const { auth } = axiosConfig;
 				delete axiosConfig.auth;
 				axiosConfig = digestAuthAxiosConfig(axiosConfig, response, auth);
-				return await axios(axiosConfig);
+				return await tracedAxios(axiosConfig);
 			}
 		};
 	} else {
-		requestFn = async () => await axios(axiosConfig);
+		requestFn = async () => await tracedAxios(axiosConfig);
 	}
 
 	try {
@@ -1015,7 +1025,7 @@ async function httpRequest(
 
 	let result: AxiosResponse<any>;
 	try {
-		result = await axios(axiosRequest);
+		result = await tracedAxios(axiosRequest);
 	} catch (error) {
 		if (requestOptions.auth?.sendImmediately === false) {
 			const { response } = error;
@@ -1026,7 +1036,7 @@ async function httpRequest(
 			const { auth } = axiosRequest;
 			delete axiosRequest.auth;
 			axiosRequest = digestAuthAxiosConfig(axiosRequest, response, auth);
-			result = await axios(axiosRequest);
+			result = await tracedAxios(axiosRequest);
 		}
 		throw error;
 	}
@@ -3018,7 +3028,14 @@ const getRequestHelperFunctions = (
 	};
 
 	return {
-		httpRequest,
+		httpRequest: async (requestOptions) =>
+			await recordOrReplay(
+				additionalData,
+				node,
+				requestOptions,
+				async () => await httpRequest(requestOptions),
+			),
+		// recorded or replayed page by page, through the request helpers it calls
 		// eslint-disable-next-line complexity
 		async requestWithAuthenticationPaginated(
 			this: IExecuteFunctions,
@@ -3240,19 +3257,30 @@ const getRequestHelperFunctions = (
 			requestOptions,
 			additionalCredentialOptions,
 		): Promise<any> {
-			return await httpRequestWithAuthentication.call(
-				this,
-				credentialsType,
-				requestOptions,
-				workflow,
-				node,
+			return await recordOrReplay(
 				additionalData,
-				additionalCredentialOptions,
+				node,
+				requestOptions,
+				async () =>
+					await httpRequestWithAuthentication.call(
+						this,
+						credentialsType,
+						requestOptions,
+						workflow,
+						node,
+						additionalData,
+						additionalCredentialOptions,
+					),
 			);
 		},
 
 		request: async (uriOrObject, options) =>
-			await proxyRequestToAxios(workflow, additionalData, node, uriOrObject, options),
+			await recordOrReplay(
+				additionalData,
+				node,
+				typeof uriOrObject === 'string' ? { ...options, uri: uriOrObject } : uriOrObject,
+				async () => await proxyRequestToAxios(workflow, additionalData, node, uriOrObject, options),
+			),
 
 		async requestWithAuthentication(
 			this,
@@ -3261,15 +3289,21 @@ const getRequestHelperFunctions = (
 			additionalCredentialOptions,
 			itemIndex,
 		): Promise<any> {
-			return await requestWithAuthentication.call(
-				this,
-				credentialsType,
-				requestOptions,
-				workflow,
-				node,
+			return await recordOrReplay(
 				additionalData,
-				additionalCredentialOptions,
-				itemIndex,
+				node,
+				requestOptions,
+				async () =>
+					await requestWithAuthentication.call(
+						this,
+						credentialsType,
+						requestOptions,
+						workflow,
+						node,
+						additionalData,
+						additionalCredentialOptions,
+						itemIndex,
+					),
 			);
 		},
 
@@ -3278,7 +3312,12 @@ const getRequestHelperFunctions = (
 			credentialsType: string,
 			requestOptions: IRequestOptions,
 		): Promise<any> {
-			return await requestOAuth1.call(this, credentialsType, requestOptions);
+			return await recordOrReplay(
+				additionalData,
+				node,
+				requestOptions,
+				async () => await requestOAuth1.call(this, credentialsType, requestOptions),
+			);
 		},
 
 		async requestOAuth2(
@@ -3287,13 +3326,19 @@ const getRequestHelperFunctions = (
 			requestOptions: IRequestOptions,
 			oAuth2Options?: IOAuth2Options,
 		): Promise<any> {
-			return await requestOAuth2.call(
-				this,
-				credentialsType,
-				requestOptions,
-				node,
+			return await recordOrReplay(
 				additionalData,
-				oAuth2Options,
+				node,
+				requestOptions,
+				async () =>
+					await requestOAuth2.call(
+						this,
+						credentialsType,
+						requestOptions,
+						node,
+						additionalData,
+						oAuth2Options,
+					),
 			);
 		},
 	};
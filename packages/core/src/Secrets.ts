@@ -45,7 +45,11 @@ export function getSecretsProxy(additionalData: IWorkflowExecuteAdditionalData):
 											'The credential in use tries to use secret from an external store that could not be found',
 									});
 								}
-								const retValue = secretsHelpers.getSecret(providerName, secretName);
+								const retValue = secretsHelpers.getSecret(
+									providerName,
+									secretName,
+									additionalData.executionId,
+								);
 								if (typeof retValue === 'object' && retValue !== null) {
 									return buildSecretsValueProxy(retValue as IDataObject);
 								}
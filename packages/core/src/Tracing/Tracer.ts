@@ -0,0 +1,222 @@
+import { Service } from 'typedi';
+import { LoggerProxy as Logger } from 'n8n-workflow';
+import {
+	ROOT_CONTEXT,
+	SpanKind,
+	SpanStatusCode,
+	context,
+	propagation,
+	trace,
+} from '@opentelemetry/api';
+import type { Attributes, Span } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator, setGlobalErrorHandler } from '@opentelemetry/core';
+import { Resource } from '@opentelemetry/resources';
+import { BasicTracerProvider, BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import type { SpanExporter } from '@opentelemetry/sdk-trace-base';
+import type { SpanOptions } from './types';
+
+export const TRACEPARENT_HEADER = 'traceparent';
+
+const SPAN_KINDS: Record<NonNullable<SpanOptions['kind']>, SpanKind> = {
+	internal: SpanKind.INTERNAL,
+	server: SpanKind.SERVER,
+	client: SpanKind.CLIENT,
+	producer: SpanKind.PRODUCER,
+	consumer: SpanKind.CONSUMER,
+};
+
+interface HttpRequestConfig {
+	method?: string;
+	url?: string;
+	baseURL?: string;
+	headers?: unknown;
+}
+
+/**
+ * Creates spans with the OpenTelemetry SDK, linked across async calls, and across processes
+ * via W3C `traceparent` values, and exports them in batches. Until enabled, instrumented code
+ * runs without active spans and nothing is exported, so it only pays for tracing when it is in use.
+ */
+@Service()
+export class Tracer {
+	private provider: BasicTracerProvider | undefined;
+
+	get isEnabled() {
+		return this.provider !== undefined;
+	}
+
+	enable(
+		exporter: SpanExporter,
+		resource: Attributes,
+		{ flushIntervalMs = 5000, maxBatchSize = 512 } = {},
+	) {
+		this.provider = new BasicTracerProvider({ resource: new Resource(resource) });
+		this.provider.addSpanProcessor(
+			new BatchSpanProcessor(exporter, {
+				scheduledDelayMillis: flushIntervalMs,
+				maxExportBatchSize: maxBatchSize,
+			}),
+		);
+		this.provider.register({
+			contextManager: new AsyncLocalStorageContextManager(),
+			propagator: new W3CTraceContextPropagator(),
+		});
+
+		setGlobalErrorHandler((error) =>
+			Logger.warn('Failed to export trace spans', { error: String(error) }),
+		);
+	}
+
+	/** Span active in the current async context, if any */
+	get activeSpan() {
+		return trace.getActiveSpan();
+	}
+
+	startSpan(name: string, { kind = 'internal', attributes, parent }: SpanOptions = {}) {
+		const parentContext =
+			parent === undefined
+				? context.active()
+				: propagation.extract(ROOT_CONTEXT, { [TRACEPARENT_HEADER]: parent });
+
+		return trace
+			.getTracer('n8n')
+			.startSpan(name, { kind: SPAN_KINDS[kind], attributes }, parentContext);
+	}
+
+	/**
+	 * Run a function within a new span, which is active for everything the function calls
+	 * and ends once the function settles. Errors thrown by the function are recorded on it.
+	 */
+	async startActiveSpan<T>(
+		name: string,
+		options: SpanOptions,
+		fn: (span?: Span) => Promise<T>,
+	): Promise<T> {
+		if (!this.isEnabled) return await fn();
+
+		const span = this.startSpan(name, options);
+
+		try {
+			return await this.withActiveSpan(span, async () => await fn(span));
+		} catch (error) {
+			this.recordError(span, error);
+			throw error;
+		} finally {
+			span.end();
+		}
+	}
+
+	/**
+	 * Run a function with a span active for everything it calls, without ending the span,
+	 * for work that outlives the function, e.g. a workflow execution started in the background.
+	 */
+	withActiveSpan<T>(span: Span | undefined, fn: () => T): T {
+		return span ? context.with(trace.setSpan(context.active(), span), fn) : fn();
+	}
+
+	/**
+	 * W3C `traceparent` value of the active span, to continue its trace in another process.
+	 * Only spans that are recording, i.e. sampled, are propagated.
+	 */
+	getTraceparent() {
+		if (!this.activeSpan?.isRecording()) return undefined;
+
+		const carrier: Record<string, string> = {};
+		propagation.inject(context.active(), carrier);
+
+		return carrier[TRACEPARENT_HEADER];
+	}
+
+	/**
+	 * Record an error as an `exception` event and mark the span as failed.
+	 */
+	recordError(span: Span, error: unknown) {
+		const exception = error instanceof Error ? error : String(error);
+
+		span.recordException(exception);
+		span.setStatus({
+			code: SpanStatusCode.ERROR,
+			message: error instanceof Error ? error.message : exception.toString(),
+		});
+	}
+
+	/**
+	 * Trace an outbound HTTP request as a client span. If the span is recording, the trace
+	 * is propagated to the receiving service by adding a `traceparent` header to the request.
+	 */
+	async traceHttpRequest<T extends { status: number }>(
+		config: HttpRequestConfig,
+		send: () => Promise<T>,
+	): Promise<T> {
+		if (!this.isEnabled) return await send();
+
+		const method = (config.method ?? 'GET').toUpperCase();
+
+		return await this.startActiveSpan(
+			`HTTP ${method}`,
+			{
+				kind: 'client',
+				attributes: {
+					'http.request.method': method,
+					'url.full': this.toUrl(config),
+				},
+			},
+			async (span) => {
+				const traceparent = this.getTraceparent();
+
+				if (traceparent) {
+					config.headers = {
+						...(config.headers as Record<string, unknown>),
+						[TRACEPARENT_HEADER]: traceparent,
+					};
+				}
+
+				try {
+					const response = await send();
+					span?.setAttribute('http.response.status_code', response.status);
+					return response;
+				} catch (error) {
+					const status = (error as { response?: { status?: number } }).response?.status;
+					if (status !== undefined) span?.setAttribute('http.response.status_code', status);
+					throw error;
+				}
+			},
+		);
+	}
+
+	/**
+	 * Export all ended spans not exported yet.
+	 */
+	async flush() {
+		await this.provider?.forceFlush();
+	}
+
+	async shutdown() {
+		if (!this.provider) return;
+
+		await this.provider.shutdown();
+
+		trace.disable();
+		context.disable();
+		propagation.disable();
+
+		this.provider = undefined;
+	}
+
+	// ----------------------------------
+	//             private
+	// ----------------------------------
+
+	/** Full URL of a request, without credentials */
+	private toUrl({ url = '', baseURL }: HttpRequestConfig) {
+		try {
+			const fullUrl = new URL(url, baseURL);
+			fullUrl.username = '';
+			fullUrl.password = '';
+			return fullUrl.toString();
+		} catch {
+			return url;
+		}
+	}
+}
@@ -0,0 +1,27 @@
+import type { SpanAttributes, SpanAttributeValue } from './types';
+
+type OtlpAnyValue =
+	| { stringValue: string }
+	| { intValue: number }
+	| { doubleValue: number }
+	| { boolValue: boolean };
+
+export type OtlpKeyValue = { key: string; value: OtlpAnyValue };
+
+const toAnyValue = (value: SpanAttributeValue): OtlpAnyValue => {
+	if (typeof value === 'boolean') return { boolValue: value };
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+	}
+	return { stringValue: value };
+};
+
+/** Convert attributes to OTLP key-values, leaving out undefined ones */
+export const toOtlpAttributes = (attributes: SpanAttributes): OtlpKeyValue[] =>
+	Object.entries(attributes)
+		.filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined)
+		.map(([key, value]) => ({ key, value: toAnyValue(value) }));
+
+/** Convert milliseconds since the epoch to nanoseconds, as a string to keep precision */
+export const toUnixNano = (timeMs: number) =>
+	(BigInt(Math.round(timeMs * 1000)) * BigInt(1000)).toString();
@@ -0,0 +1,19 @@
+import type { Attributes } from '@opentelemetry/api';
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export interface SpanOptions {
+	kind?: SpanKind;
+	attributes?: Attributes;
+
+	/**
+	 * Parent of the span, as a W3C `traceparent` header value, e.g. when continuing
+	 * a trace received from another process. Defaults to the span active in the
+	 * current async context.
+	 */
+	parent?: string;
+}
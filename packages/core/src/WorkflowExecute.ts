@@ -4,6 +4,7 @@
 /* eslint-disable @typescript-eslint/prefer-nullish-coalescing */
 import { setMaxListeners } from 'events';
 import PCancelable from 'p-cancelable';
+import Container from 'typedi';
 
 import type {
 	ExecutionBaseError,
@@ -48,6 +49,7 @@ import {
 } from 'n8n-workflow';
 import get from 'lodash/get';
 import * as NodeExecuteFunctions from './NodeExecuteFunctions';
+import { Tracer } from './Tracing/Tracer';
 
 export class WorkflowExecute {
 	private status: ExecutionStatus = 'new';
@@ -148,6 +150,39 @@ export class WorkflowExecute {
 		return e?.message === 'AbortError';
 	}
 
+	/**
+	 * Rehydrates the run data of an interrupted execution from its last saved checkpoint,
+	 * so that `processRunExecutionData` continues it from the first unfinished node.
+	 *
+	 * @returns {(IRunExecutionData | undefined)} `undefined` if nothing is left to execute
+	 */
+	static rehydrate(checkpoint: IRunExecutionData): IRunExecutionData | undefined {
+		const { executionData } = checkpoint;
+
+		// the first node in the stack is the one that was interrupted
+		if (!executionData || executionData.nodeExecutionStack.length === 0) return undefined;
+
+		// runs of nodes that crashed mid-execution are dropped, so that the nodes run again
+		const runData: IRunData = {};
+		for (const [nodeName, taskData] of Object.entries(checkpoint.resultData.runData)) {
+			const finishedRuns = taskData.filter((task) => task.executionStatus !== 'crashed');
+			if (finishedRuns.length > 0) runData[nodeName] = finishedRuns;
+		}
+
+		const resultData = { ...checkpoint.resultData, runData };
+		delete resultData.error;
+
+		return {
+			...checkpoint,
+			resultData,
+			executionData: {
+				...executionData,
+				metadata: executionData.metadata ?? {},
+				waitingExecutionSource: executionData.waitingExecutionSource ?? {},
+			},
+		};
+	}
+
 	forceInputNodeExecution(workflow: Workflow): boolean {
 		return workflow.settings.executionOrder !== 'v1';
 	}
@@ -1069,15 +1104,7 @@ export class WorkflowExecute {
 									workflowId: workflow.id,
 								});
 
-								let runNodeData = await workflow.runNode(
-									executionData,
-									this.runExecutionData,
-									runIndex,
-									this.additionalData,
-									NodeExecuteFunctions,
-									this.mode,
-									this.abortController.signal,
-								);
+								let runNodeData = await this.runNode(workflow, executionData, runIndex, tryIndex);
 
 								nodeSuccessData = runNodeData.data;
 
@@ -1086,17 +1113,9 @@ export class WorkflowExecute {
 								while (didContinueOnFail && tryIndex !== maxTries - 1) {
 									await sleep(waitBetweenTries);
 
-									runNodeData = await workflow.runNode(
-										executionData,
-										this.runExecutionData,
-										runIndex,
-										this.additionalData,
-										NodeExecuteFunctions,
-										this.mode,
-										this.abortController.signal,
-									);
-
 									tryIndex++;
+
+									runNodeData = await this.runNode(workflow, executionData, runIndex, tryIndex);
 								}
 
 								if (nodeSuccessData instanceof NodeExecutionOutput) {
@@ -1777,6 +1796,43 @@ export class WorkflowExecute {
 		});
 	}
 
+	/**
+	 * Run a single node, traced as a span of the workflow execution.
+	 */
+	private async runNode(
+		workflow: Workflow,
+		executionData: IExecuteData,
+		runIndex: number,
+		tryIndex: number,
+	) {
+		const { node } = executionData;
+
+		return await Container.get(Tracer).startActiveSpan(
+			`node.execute ${node.name}`,
+			{
+				attributes: {
+					'n8n.node.name': node.name,
+					'n8n.node.type': node.type,
+					'n8n.node.type_version': node.typeVersion,
+					'n8n.workflow.id': workflow.id,
+					'n8n.execution.id': this.additionalData.executionId,
+					'n8n.node.run_index': runIndex,
+					'n8n.node.try_index': tryIndex,
+				},
+			},
+			async () =>
+				await workflow.runNode(
+					executionData,
+					this.runExecutionData,
+					runIndex,
+					this.additionalData,
+					NodeExecuteFunctions,
+					this.mode,
+					this.abortController.signal,
+				),
+		);
+	}
+
 	async processSuccessExecution(
 		startedAt: Date,
 		workflow: Workflow,
@@ -3,3 +3,4 @@ export { DisallowedFilepathError } from './disallowed-filepath.error';
 export { InvalidModeError } from './invalid-mode.error';
 export { InvalidManagerError } from './invalid-manager.error';
 export { InvalidExecutionMetadataError } from './invalid-execution-metadata.error';
+export { NoRecordedResponseError } from './no-recorded-response.error';
@@ -0,0 +1,10 @@
+import { ApplicationError } from 'n8n-workflow';
+
+export class NoRecordedResponseError extends ApplicationError {
+	constructor(nodeName: string, method: string, url: string) {
+		super(`No recorded response for ${method} ${url} in node "${nodeName}"`, {
+			level: 'warning',
+			extra: { nodeName, method, url },
+		});
+	}
+}
@@ -19,3 +19,9 @@ export { ObjectStoreService } from './ObjectStore/ObjectStore.service.ee';
 export { BinaryData } from './BinaryData/types';
 export { isStoredMode as isValidNonDefaultMode } from './BinaryData/utils';
 export * from './ExecutionMetadata';
+export * from './HttpRecording';
+export { Tracer, TRACEPARENT_HEADER } from './Tracing/Tracer';
+export type { Span } from '@opentelemetry/api';
+export { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+export { toOtlpAttributes, toUnixNano } from './Tracing/otlp';
+export * from './Tracing/types';
@@ -0,0 +1,142 @@
+import type {
+	HttpRecording,
+	IDataObject,
+	INode,
+	IWorkflowExecuteAdditionalData,
+} from 'n8n-workflow';
+import { recordOrReplay, toRecordedRequest } from '@/HttpRecording';
+import { NoRecordedResponseError } from '@/errors/no-recorded-response.error';
+
+describe('HttpRecording', () => {
+	const node = { name: 'HTTP Request' } as INode;
+	const requestOptions = {
+		method: 'GET' as const,
+		url: 'https://example.com/orders',
+		qs: { page: 1 },
+		headers: { authorization: 'Bearer secret' },
+	};
+
+	const toAdditionalData = (session?: HttpRecording.Session) =>
+		({ httpRecording: session }) as IWorkflowExecuteAdditionalData;
+
+	describe('toRecordedRequest', () => {
+		test('should leave out headers and body', () => {
+			expect(toRecordedRequest({ ...requestOptions, body: { password: 'secret' } })).toEqual({
+				method: 'GET',
+				url: 'https://example.com/orders',
+				qs: { page: 1 },
+			});
+		});
+
+		test('should join the base URL and the URI', () => {
+			expect(toRecordedRequest({ baseURL: 'https://example.com', uri: '/orders' })).toEqual({
+				method: 'GET',
+				url: 'https://example.com/orders',
+			});
+		});
+	});
+
+	describe('recordOrReplay', () => {
+		test('should make the request if there is no session', async () => {
+			const makeRequest = jest.fn().mockResolvedValue({ id: 1 });
+
+			const response = await recordOrReplay(toAdditionalData(), node, requestOptions, makeRequest);
+
+			expect(response).toEqual({ id: 1 });
+			expect(makeRequest).toHaveBeenCalled();
+		});
+
+		test('should record the request and its response', async () => {
+			const session: HttpRecording.Session = { mode: 'record', exchanges: [] };
+			const makeRequest = jest.fn().mockResolvedValue(Buffer.from('binary'));
+
+			await recordOrReplay(toAdditionalData(session), node, requestOptions, makeRequest);
+
+			expect(session.exchanges).toEqual([
+				{
+					nodeName: 'HTTP Request',
+					request: { method: 'GET', url: 'https://example.com/orders', qs: { page: 1 } },
+					response: { binary: Buffer.from('binary').toString('base64') },
+				},
+			]);
+		});
+
+		test('should not record credentials added to the query by authentication', async () => {
+			const session: HttpRecording.Session = { mode: 'record', exchanges: [] };
+			const options = { ...requestOptions, qs: { page: 1 } as IDataObject };
+			const makeRequest = jest.fn(async () => {
+				// as `CredentialsHelper.authenticate` does for query credentials
+				options.qs.api_key = 'secret';
+				return { id: 1 };
+			});
+
+			await recordOrReplay(toAdditionalData(session), node, options, makeRequest);
+
+			expect(options.qs).toEqual({ page: 1, api_key: 'secret' });
+			expect(session.exchanges[0].request).toEqual({
+				method: 'GET',
+				url: 'https://example.com/orders',
+				qs: { page: 1 },
+			});
+			expect(JSON.stringify(session.exchanges)).not.toContain('secret');
+
+			const replayed = await recordOrReplay(
+				toAdditionalData({ ...session, mode: 'replay' }),
+				node,
+				requestOptions,
+				jest.fn(),
+			);
+			expect(replayed).toEqual({ id: 1 });
+		});
+
+		test('should replay recorded responses in order without making the request', async () => {
+			const request = { method: 'GET', url: 'https://example.com/orders', qs: { page: 1 } };
+			const session: HttpRecording.Session = {
+				mode: 'replay',
+				exchanges: [
+					{ nodeName: 'HTTP Request', request, response: { id: 1 } },
+					{ nodeName: 'HTTP Request', request, response: { binary: 'Ymlu' } },
+				],
+			};
+			const additionalData = toAdditionalData(session);
+			const makeRequest = jest.fn();
+
+			const first = await recordOrReplay(additionalData, node, requestOptions, makeRequest);
+			const second = await recordOrReplay(additionalData, node, requestOptions, makeRequest);
+
+			expect(first).toEqual({ id: 1 });
+			expect(second).toEqual(Buffer.from('bin'));
+			expect(makeRequest).not.toHaveBeenCalled();
+
+			await expect(
+				recordOrReplay(additionalData, node, requestOptions, makeRequest),
+			).rejects.toThrow(NoRecordedResponseError);
+		});
+
+		test('should record a request only once if its helper calls another request helper', async () => {
+			const session: HttpRecording.Session = { mode: 'record', exchanges: [] };
+			const additionalData = toAdditionalData(session);
+			const innerRequest = jest.fn().mockResolvedValue({ id: 1 });
+
+			await recordOrReplay(
+				additionalData,
+				node,
+				requestOptions,
+				async () => await recordOrReplay(additionalData, node, requestOptions, innerRequest),
+			);
+
+			expect(innerRequest).toHaveBeenCalledTimes(1);
+			expect(session.exchanges).toHaveLength(1);
+		});
+
+		test('should fail a request that was not recorded without making it', async () => {
+			const session: HttpRecording.Session = { mode: 'replay', exchanges: [] };
+			const makeRequest = jest.fn();
+
+			await expect(
+				recordOrReplay(toAdditionalData(session), node, requestOptions, makeRequest),
+			).rejects.toThrow(NoRecordedResponseError);
+			expect(makeRequest).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -1,4 +1,14 @@
-import type { IRun, WorkflowTestData } from 'n8n-workflow';
+import { mock } from 'jest-mock-extended';
+import type {
+	ExecutionError,
+	IExecuteData,
+	INode,
+	IRun,
+	IRunData,
+	IRunExecutionData,
+	ITaskData,
+	WorkflowTestData,
+} from 'n8n-workflow';
 import {
 	ApplicationError,
 	createDeferredPromise,
@@ -201,6 +211,44 @@ describe('WorkflowExecute', () => {
 		}
 	});
 
+	describe('rehydrate', () => {
+		const node = mock<INode>({ name: 'Set' });
+
+		const toCheckpoint = (
+			nodeExecutionStack: IExecuteData[],
+			runData: IRunData = {},
+		): IRunExecutionData => ({
+			startData: {},
+			resultData: { runData, lastNodeExecuted: 'Set', error: mock<ExecutionError>() },
+			executionData: {
+				contextData: {},
+				nodeExecutionStack,
+				metadata: {},
+				waitingExecution: {},
+				waitingExecutionSource: {},
+			},
+		});
+
+		test('should return undefined if nothing is left to execute', () => {
+			expect(WorkflowExecute.rehydrate({ resultData: { runData: {} } })).toBeUndefined();
+			expect(WorkflowExecute.rehydrate(toCheckpoint([]))).toBeUndefined();
+		});
+
+		test('should keep the stack and finished runs, and drop crashed runs and the error', () => {
+			const stack: IExecuteData[] = [{ node, data: { main: [[{ json: {} }]] }, source: null }];
+			const finishedRun = mock<ITaskData>({ executionStatus: 'success' });
+			const crashedRun = mock<ITaskData>({ executionStatus: 'crashed' });
+
+			const rehydrated = WorkflowExecute.rehydrate(
+				toCheckpoint(stack, { Trigger: [finishedRun], Set: [crashedRun] }),
+			);
+
+			expect(rehydrated?.executionData?.nodeExecutionStack).toEqual(stack);
+			expect(rehydrated?.resultData.runData).toEqual({ Trigger: [finishedRun] });
+			expect(rehydrated?.resultData.error).toBeUndefined();
+		});
+	});
+
 	describe('WorkflowExecute, NodeExecutionOutput type test', () => {
 		//TODO Add more tests here when execution hints are added to some node types
 		const nodeExecutionOutput = new NodeExecutionOutput(
@@ -25,6 +25,7 @@ import type {
 	IRun,
 	IRunData,
 	ITaskData,
+	ITaskDataConnections,
 	IWorkflowSettings as IWorkflowSettingsWorkflow,
 	WorkflowExecuteMode,
 	PublicInstalledPackage,
@@ -55,6 +56,7 @@ import type { Component } from 'vue';
 import type { Scope } from '@n8n/permissions';
 import type { NotificationOptions as ElementNotificationOptions } from 'element-plus';
 import type { ProjectSharingData } from '@/types/projects.types';
+import type { ProjectRole } from '@/types/roles.types';
 import type { Connection } from '@jsplumb/core';
 import type { BaseTextKey } from './plugins/i18n';
 
@@ -308,6 +310,7 @@ export interface IWorkflowDb {
 	versionId: string;
 	usedCredentials?: IUsedCredential[];
 	meta?: WorkflowMetadata;
+	merged?: boolean; // set when changes saved concurrently by someone else were merged in
 }
 
 // Identical to cli.Interfaces.ts
@@ -354,6 +357,12 @@ export interface ICredentialsResponse extends ICredentialsEncrypted {
 	currentUserHasAccess?: boolean;
 	scopes?: Scope[];
 	ownedBy?: Pick<IUserResponse, 'id' | 'firstName' | 'lastName' | 'email'>;
+	expiresAt?: Iso8601String | null;
+	expirySource?: 'manual' | 'rotation' | 'oauth' | null;
+	rotationWorkflowId?: string | null;
+	lastTestedAt?: Iso8601String | null;
+	lastTestStatus?: 'ok' | 'error' | null;
+	lastTestError?: string | null;
 }
 
 export interface ICredentialsBase {
@@ -404,6 +413,39 @@ export interface IExecutionsListResponse {
 	estimated: boolean;
 }
 
+export type DeadLetterStatus = 'pending' | 'replayed';
+
+export interface IDeadLetterEntry {
+	id: string;
+	workflowId: string;
+	executionId: string;
+	mode: WorkflowExecuteMode;
+	triggerNode: string;
+	triggerData: ITaskDataConnections;
+	errorMessage: string | null;
+	status: DeadLetterStatus;
+	replayExecutionId: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface IDeadLetterListResponse {
+	count: number;
+	results: IDeadLetterEntry[];
+}
+
+export interface IDeadLetterFilter {
+	workflowId?: string;
+	status?: DeadLetterStatus;
+	limit?: number;
+	offset?: number;
+}
+
+export interface IDeadLetterReplayResponse {
+	replayed: string[];
+	skipped: Array<{ id: string; reason: string }>;
+}
+
 export interface IExecutionsCurrentSummaryExtended {
 	id: string;
 	finished?: boolean;
@@ -738,6 +780,7 @@ export const enum UserManagementAuthenticationMethod {
 	Email = 'email',
 	Ldap = 'ldap',
 	Saml = 'saml',
+	Oidc = 'oidc',
 }
 
 export interface IPermissionGroup {
@@ -1329,6 +1372,10 @@ export interface ISettingsState {
 		loginLabel: string;
 		loginEnabled: boolean;
 	};
+	oidc: {
+		loginLabel: string;
+		loginEnabled: boolean;
+	};
 	mfa: {
 		enabled: boolean;
 	};
@@ -1636,6 +1683,42 @@ export type SamlPreferencesExtractedData = {
 	returnUrl: string;
 };
 
+export type OidcClaimMapping = {
+	email: string;
+	firstName: string;
+	lastName: string;
+	groups: string;
+};
+
+export type OidcRoleMappingRule = {
+	claim: string;
+	value: string;
+	role: 'global:admin' | 'global:member';
+};
+
+export type OidcProjectMappingRule = {
+	claim: string;
+	value: string;
+	projectId: string;
+	role: Exclude<ProjectRole, 'project:personalOwner'>;
+};
+
+export type OidcPreferences = {
+	discoveryUrl?: string;
+	clientId?: string;
+	clientSecret?: string;
+	scopes?: string;
+	mapping?: OidcClaimMapping;
+	roleMapping?: OidcRoleMappingRule[];
+	projectMapping?: OidcProjectMappingRule[];
+	loginEnabled?: boolean;
+	loginLabel?: string;
+};
+
+export type OidcPreferencesExtractedData = {
+	redirectUri: string;
+};
+
 export type SshKeyTypes = ['ed25519', 'rsa'];
 
 export type SourceControlPreferences = {
@@ -1843,6 +1926,7 @@ export type EnterpriseEditionFeatureKey =
 	| 'LogStreaming'
 	| 'Variables'
 	| 'Saml'
+	| 'Oidc'
 	| 'SourceControl'
 	| 'ExternalSecrets'
 	| 'AuditLogs'
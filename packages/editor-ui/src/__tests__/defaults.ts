@@ -20,6 +20,7 @@ export const defaultSettings: IN8nUISettings = {
 		sharing: false,
 		ldap: false,
 		saml: false,
+		oidc: false,
 		logStreaming: false,
 		debugInEditor: false,
 		advancedExecutionFilters: false,
@@ -70,6 +71,7 @@ export const defaultSettings: IN8nUISettings = {
 	sso: {
 		ldap: { loginEnabled: false, loginLabel: '' },
 		saml: { loginEnabled: false, loginLabel: '' },
+		oidc: { loginEnabled: false, loginLabel: '' },
 	},
 	telemetry: {
 		enabled: false,
@@ -121,4 +123,7 @@ export const defaultSettings: IN8nUISettings = {
 	security: {
 		blockFileAccessToN8nFiles: false,
 	},
+	credentials: {
+		expiryWarningDays: 14,
+	},
 };
@@ -101,6 +101,8 @@ describe('router', () => {
 		],
 		['/settings/sso', VIEWS.WORKFLOWS, []],
 		['/settings/sso', VIEWS.SSO_SETTINGS, ['saml:manage']],
+		['/settings/oidc', VIEWS.WORKFLOWS, []],
+		['/settings/oidc', VIEWS.OIDC_SETTINGS, ['oidc:manage']],
 		['/settings/log-streaming', VIEWS.WORKFLOWS, []],
 		['/settings/log-streaming', VIEWS.LOG_STREAMING_SETTINGS, ['logStreaming:manage']],
 		['/settings/community-nodes', VIEWS.WORKFLOWS, []],
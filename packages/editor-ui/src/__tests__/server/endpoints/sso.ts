@@ -1,6 +1,11 @@
 import type { Server, Request } from 'miragejs';
 import { Response } from 'miragejs';
-import type { SamlPreferences, SamlPreferencesExtractedData } from '@/Interface';
+import type {
+	OidcPreferences,
+	OidcPreferencesExtractedData,
+	SamlPreferences,
+	SamlPreferencesExtractedData,
+} from '@/Interface';
 import { faker } from '@faker-js/faker';
 import type { AppSchema } from '@/__tests__/server/types';
 import { jsonParse } from 'n8n-workflow';
@@ -12,6 +17,17 @@ let samlConfig: SamlPreferences & SamlPreferencesExtractedData = {
 	returnUrl: faker.internet.url(),
 };
 
+let oidcConfig: OidcPreferences & OidcPreferencesExtractedData = {
+	discoveryUrl: 'https://idp.example.com/realms/n8n',
+	clientId: 'n8n',
+	clientSecret: '__n8n_BLANK_VALUE_e5362baf-c777-4d57-a609-6eaf1f9e87f6',
+	scopes: 'openid email profile',
+	mapping: { email: 'email', firstName: 'given_name', lastName: 'family_name', groups: 'groups' },
+	roleMapping: [{ claim: 'groups', value: 'n8n-admins', role: 'global:admin' }],
+	projectMapping: [],
+	redirectUri: faker.internet.url(),
+};
+
 export function routesForSSO(server: Server) {
 	server.get('/rest/sso/saml/config', () => {
 		return new Response(200, {}, { data: samlConfig });
@@ -31,4 +47,23 @@ export function routesForSSO(server: Server) {
 	server.get('/rest/sso/saml/config/test', () => {
 		return new Response(200, {}, { data: '<?xml version="1.0"?>' });
 	});
+
+	server.get('/rest/sso/oidc/config', () => {
+		return new Response(200, {}, { data: oidcConfig });
+	});
+
+	server.post('/rest/sso/oidc/config', (_schema: AppSchema, request: Request) => {
+		const requestBody = jsonParse<object>(request.requestBody);
+
+		oidcConfig = {
+			...oidcConfig,
+			...requestBody,
+		};
+
+		return new Response(200, {}, { data: oidcConfig });
+	});
+
+	server.get('/rest/sso/oidc/config/test', () => {
+		return new Response(200, {}, { data: 'https://idp.example.com/realms/n8n/auth' });
+	});
 }
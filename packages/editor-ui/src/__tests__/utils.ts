@@ -62,6 +62,10 @@ export const SETTINGS_STORE_DEFAULT_STATE: ISettingsState = {
 		loginLabel: '',
 		loginEnabled: false,
 	},
+	oidc: {
+		loginLabel: '',
+		loginEnabled: false,
+	},
 	mfa: {
 		enabled: false,
 	},
@@ -73,6 +73,13 @@ export async function updateCredential(
 	);
 }
 
+export async function rotateCredential(
+	context: IRestApiContext,
+	id: string,
+): Promise<ICredentialsResponse> {
+	return await makeRestApiRequest(context, 'POST', `/credentials/${id}/rotate`);
+}
+
 export async function getCredentialData(
 	context: IRestApiContext,
 	id: string,
@@ -1,11 +1,15 @@
 import type { EnvironmentVariable, IRestApiContext } from '@/Interface';
 import { makeRestApiRequest } from '@/utils/apiUtils';
-import type { IDataObject } from 'n8n-workflow';
+import type { IDataObject, SecretUsage } from 'n8n-workflow';
 
 export async function getVariables(context: IRestApiContext): Promise<EnvironmentVariable[]> {
 	return await makeRestApiRequest(context, 'GET', '/variables');
 }
 
+export async function getVariablesUsage(context: IRestApiContext): Promise<SecretUsage[]> {
+	return await makeRestApiRequest(context, 'GET', '/variables/usage');
+}
+
 export async function getVariable(
 	context: IRestApiContext,
 	{ id }: { id: EnvironmentVariable['id'] },
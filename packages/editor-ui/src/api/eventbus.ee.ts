@@ -1,6 +1,10 @@
 import type { IRestApiContext } from '@/Interface';
 import { makeRestApiRequest } from '@/utils/apiUtils';
-import type { IDataObject, MessageEventBusDestinationOptions } from 'n8n-workflow';
+import type {
+	IDataObject,
+	MessageEventBusDestinationDeliveryStatus,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
 
 export type ApiMessageEventBusDestinationOptions = MessageEventBusDestinationOptions & {
 	id: string;
@@ -47,3 +51,9 @@ export async function getDestinationsFromBackend(
 ): Promise<MessageEventBusDestinationOptions[]> {
 	return await makeRestApiRequest(context, 'GET', '/eventbus/destination');
 }
+
+export async function getDestinationsDeliveryStatusFromBackend(
+	context: IRestApiContext,
+): Promise<Record<string, MessageEventBusDestinationDeliveryStatus>> {
+	return await makeRestApiRequest(context, 'GET', '/eventbus/destination/status');
+}
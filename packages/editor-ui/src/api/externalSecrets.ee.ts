@@ -1,5 +1,6 @@
 import type { IRestApiContext, ExternalSecretsProvider } from '@/Interface';
 import { makeRestApiRequest } from '@/utils/apiUtils';
+import type { SecretUsage } from 'n8n-workflow';
 
 export const getExternalSecrets = async (
 	context: IRestApiContext,
@@ -7,6 +8,10 @@ export const getExternalSecrets = async (
 	return await makeRestApiRequest(context, 'GET', '/external-secrets/secrets');
 };
 
+export const getExternalSecretsUsage = async (context: IRestApiContext): Promise<SecretUsage[]> => {
+	return await makeRestApiRequest(context, 'GET', '/external-secrets/secrets/usage');
+};
+
 export const getExternalSecretsProviders = async (
 	context: IRestApiContext,
 ): Promise<ExternalSecretsProvider[]> => {
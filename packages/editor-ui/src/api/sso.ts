@@ -1,6 +1,8 @@
 import { makeRestApiRequest } from '@/utils/apiUtils';
 import type {
 	IRestApiContext,
+	OidcPreferences,
+	OidcPreferencesExtractedData,
 	SamlPreferencesLoginEnabled,
 	SamlPreferences,
 	SamlPreferencesExtractedData,
@@ -37,3 +39,34 @@ export const toggleSamlConfig = async (
 export const testSamlConfig = async (context: IRestApiContext): Promise<string> => {
 	return await makeRestApiRequest(context, 'GET', '/sso/saml/config/test');
 };
+
+export const initOidcLogin = async (
+	context: IRestApiContext,
+	redirect?: string,
+): Promise<string> => {
+	return await makeRestApiRequest(context, 'GET', '/sso/oidc/login', { redirect });
+};
+
+export const getOidcConfig = async (
+	context: IRestApiContext,
+): Promise<OidcPreferences & OidcPreferencesExtractedData> => {
+	return await makeRestApiRequest(context, 'GET', '/sso/oidc/config');
+};
+
+export const saveOidcConfig = async (
+	context: IRestApiContext,
+	data: OidcPreferences,
+): Promise<OidcPreferences> => {
+	return await makeRestApiRequest(context, 'POST', '/sso/oidc/config', data);
+};
+
+export const toggleOidcConfig = async (
+	context: IRestApiContext,
+	data: SamlPreferencesLoginEnabled,
+): Promise<void> => {
+	return await makeRestApiRequest(context, 'POST', '/sso/oidc/config/toggle', data);
+};
+
+export const testOidcConfig = async (context: IRestApiContext): Promise<string> => {
+	return await makeRestApiRequest(context, 'GET', '/sso/oidc/config/test');
+};
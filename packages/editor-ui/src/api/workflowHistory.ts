@@ -4,6 +4,7 @@ import type {
 	WorkflowHistory,
 	WorkflowVersion,
 	WorkflowHistoryRequestParams,
+	WorkflowVersionDiff,
 } from '@/types/workflowHistory';
 
 export const getWorkflowHistory = async (
@@ -30,3 +31,16 @@ export const getWorkflowVersion = async (
 	);
 	return data;
 };
+
+export const getWorkflowDiff = async (
+	context: IRestApiContext,
+	workflowId: string,
+	fromVersionId: string,
+	toVersionId?: string,
+): Promise<WorkflowVersionDiff> => {
+	const { data } = await get(context.baseUrl, `/workflow-history/workflow/${workflowId}/diff`, {
+		from: fromVersionId,
+		...(toVersionId ? { to: toVersionId } : {}),
+	});
+	return data;
+};
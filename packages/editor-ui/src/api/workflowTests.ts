@@ -0,0 +1,37 @@
+import type { IRestApiContext } from '@/Interface';
+import { makeRestApiRequest } from '@/utils/apiUtils';
+import type { WorkflowTest } from 'n8n-workflow';
+import type { WorkflowTestCase, WorkflowTestCasePayload } from '@/types/workflowTests';
+
+export const getWorkflowTests = async (
+	context: IRestApiContext,
+	workflowId: string,
+): Promise<WorkflowTestCase[]> =>
+	await makeRestApiRequest(context, 'GET', `/workflow-tests/workflow/${workflowId}`);
+
+export const createWorkflowTest = async (
+	context: IRestApiContext,
+	workflowId: string,
+	payload: WorkflowTestCasePayload,
+): Promise<WorkflowTestCase> =>
+	await makeRestApiRequest(context, 'POST', `/workflow-tests/workflow/${workflowId}`, payload);
+
+export const deleteWorkflowTest = async (
+	context: IRestApiContext,
+	workflowId: string,
+	testCaseId: string,
+): Promise<boolean> =>
+	await makeRestApiRequest(
+		context,
+		'DELETE',
+		`/workflow-tests/workflow/${workflowId}/${testCaseId}`,
+	);
+
+export const runWorkflowTests = async (
+	context: IRestApiContext,
+	workflowId: string,
+	testCaseIds?: string[],
+): Promise<WorkflowTest.SuiteResult> =>
+	await makeRestApiRequest(context, 'POST', `/workflow-tests/workflow/${workflowId}/run`, {
+		testCaseIds,
+	});
@@ -477,3 +477,356 @@ export const sentryModalDescription = [
 		description: 'Your Sentry DSN Client Key',
 	},
 ] as INodeProperties[];
+
+export const otlpModalDescription = [
+	{
+		displayName: 'Collector URL',
+		name: 'url',
+		type: 'string',
+		default: 'http://localhost:4318',
+		placeholder: 'http://localhost:4318',
+		noDataExpression: true,
+		description:
+			'Base URL of the OpenTelemetry collector to send logs to over OTLP/HTTP, without the /v1/logs path',
+	},
+	{
+		displayName: 'Service Name',
+		name: 'serviceName',
+		type: 'string',
+		default: 'n8n',
+		placeholder: 'n8n',
+		noDataExpression: true,
+		description: 'Value of the service.name resource attribute of the logs',
+	},
+	{
+		displayName: 'Headers',
+		name: 'headerParameters',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Header',
+		default: {
+			parameters: [],
+		},
+		description: 'Headers to send with every request, e.g. for authentication',
+		options: [
+			{
+				name: 'parameters',
+				displayName: 'Header',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Send Payload',
+		name: 'sendPayload',
+		type: 'boolean',
+		default: true,
+		noDataExpression: true,
+		description: 'Whether to add the event payload as attributes of the log records',
+	},
+] as INodeProperties[];
+
+export const kafkaModalDescription = [
+	{
+		displayName: 'Brokers',
+		name: 'brokers',
+		type: 'string',
+		default: 'localhost:9092',
+		placeholder: 'kafka1:9092,kafka2:9092',
+		noDataExpression: true,
+		description: 'Comma-separated list of the brokers to connect to',
+	},
+	{
+		displayName: 'Topic',
+		name: 'topic',
+		type: 'string',
+		default: 'n8n-events',
+		placeholder: 'n8n-events',
+		noDataExpression: true,
+		description: 'Name of the topic to send events to',
+	},
+	{
+		displayName: 'Client ID',
+		name: 'clientId',
+		type: 'string',
+		default: 'n8n',
+		noDataExpression: true,
+		description: 'Identifies this client in the logs of the brokers',
+	},
+	{
+		displayName: 'SSL',
+		name: 'ssl',
+		type: 'boolean',
+		default: false,
+		noDataExpression: true,
+		description: 'Whether to connect to the brokers over SSL',
+	},
+	{
+		displayName: 'Authentication',
+		name: 'authentication',
+		type: 'boolean',
+		default: false,
+		noDataExpression: true,
+		description: 'Whether to authenticate with SASL',
+	},
+	{
+		displayName: 'Username',
+		name: 'username',
+		type: 'string',
+		default: '',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				authentication: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Password',
+		name: 'password',
+		type: 'string',
+		typeOptions: {
+			password: true,
+		},
+		default: '',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				authentication: [true],
+			},
+		},
+	},
+	{
+		displayName: 'SASL Mechanism',
+		name: 'saslMechanism',
+		type: 'options',
+		options: [
+			{
+				name: 'Plain',
+				value: 'plain',
+			},
+			{
+				name: 'SCRAM-SHA-256',
+				value: 'scram-sha-256',
+			},
+			{
+				name: 'SCRAM-SHA-512',
+				value: 'scram-sha-512',
+			},
+		],
+		default: 'plain',
+		displayOptions: {
+			show: {
+				authentication: [true],
+			},
+		},
+	},
+] as INodeProperties[];
+
+export const fileModalDescription = [
+	{
+		displayName: 'File Path',
+		name: 'path',
+		type: 'string',
+		default: 'n8nEventStream.ndjson',
+		placeholder: 'events/n8n.ndjson',
+		noDataExpression: true,
+		description:
+			'Path of the file to write events to as newline-delimited JSON, relative to the folder of log streaming files (by default log-streaming in the n8n user folder)',
+	},
+	{
+		displayName: 'Max File Size (KB)',
+		name: 'maxFileSizeInKB',
+		type: 'number',
+		default: 10240,
+		noDataExpression: true,
+		description: 'Size after which the file is rotated',
+	},
+	{
+		displayName: 'Rotated Files to Keep',
+		name: 'keepNumberOfFiles',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 5,
+		noDataExpression: true,
+		description: 'Number of rotated files to keep before deleting the oldest one',
+	},
+] as INodeProperties[];
+
+export const deliveryModalDescription = [
+	{
+		displayName: 'Delivery',
+		name: 'delivery',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		options: [
+			{
+				displayName: 'Batch Size',
+				name: 'batchSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				noDataExpression: true,
+				description: 'Max number of events to send to the destination at once',
+			},
+			{
+				displayName: 'Batch Interval (Ms)',
+				name: 'batchInterval',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				noDataExpression: true,
+				description:
+					'Time to wait for a batch to fill up before sending it. Use 0 to send events right away.',
+			},
+			{
+				displayName: 'Retry Delay (Ms)',
+				name: 'retryInitialDelay',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 1000,
+				noDataExpression: true,
+				description:
+					'Time to wait before retrying a failed batch, doubled on every further failure',
+			},
+			{
+				displayName: 'Max Retry Delay (Ms)',
+				name: 'retryMaxDelay',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 300000,
+				noDataExpression: true,
+				description: 'Upper limit for the time to wait between retries',
+			},
+			{
+				displayName: 'Max Undelivered Events',
+				name: 'maxQueueSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 10000,
+				noDataExpression: true,
+				description:
+					'Number of undelivered events to keep while the destination is unavailable, after which the oldest ones are dropped',
+			},
+		],
+	},
+] as INodeProperties[];
+
+export const eventRulesModalDescription = [
+	{
+		displayName: 'Filters',
+		name: 'eventFilters',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Filter',
+		default: {},
+		description:
+			'Only send the subscribed events that match all of these filters, e.g. on payload.workflowId, projectId or payload.nodeType',
+		options: [
+			{
+				name: 'rules',
+				displayName: 'Filter',
+				values: [
+					{
+						displayName: 'Field',
+						name: 'field',
+						type: 'string',
+						default: '',
+						placeholder: 'payload.workflowId',
+						noDataExpression: true,
+						description:
+							'Field of the event to check: eventName, message, projectId or payload.<field>',
+					},
+					{
+						displayName: 'Operator',
+						name: 'operator',
+						type: 'options',
+						noDataExpression: true,
+						options: [
+							{ name: 'Equals', value: 'equals' },
+							{ name: 'Not Equals', value: 'notEquals' },
+							{ name: 'Contains', value: 'contains' },
+							{ name: 'Not Contains', value: 'notContains' },
+							{ name: 'Exists', value: 'exists' },
+							{ name: 'Not Exists', value: 'notExists' },
+						],
+						default: 'equals',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						displayOptions: {
+							hide: {
+								operator: ['exists', 'notExists'],
+							},
+						},
+						default: '',
+						noDataExpression: true,
+						description: 'For equals and not equals, a comma-separated list of values',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Drop Fields',
+		name: 'dropFields',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. nodes, credentials',
+		noDataExpression: true,
+		description:
+			'Comma-separated payload fields to remove. A name matches at any depth, a path like user.email matches exactly.',
+	},
+	{
+		displayName: 'Redact Fields',
+		name: 'redactFields',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. email, firstName, lastName',
+		noDataExpression: true,
+		description:
+			'Comma-separated payload fields whose values are replaced by *. A name matches at any depth, a path like user.email matches exactly.',
+	},
+	{
+		displayName: 'Payload Template',
+		name: 'payloadTemplate',
+		type: 'json',
+		default: '',
+		placeholder: '{ "action": "{{ $event.eventName }}", "actor": "{{ $event.payload.userId }}" }',
+		noDataExpression: true,
+		description:
+			'JSON to send as the payload instead of the event payload. Use {{ $event.eventName }}, {{ $event.projectId }} or {{ $event.payload.<field> }} to insert fields of the event.',
+	},
+] as INodeProperties[];
@@ -10,7 +10,7 @@ import type { WorkflowHistoryActionTypes } from '@/types/workflowHistory';
 import { workflowVersionDataFactory } from '@/stores/__tests__/utils/workflowHistoryTestUtils';
 import type { IWorkflowDb } from '@/Interface';
 
-const actionTypes: WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download'];
+const actionTypes: WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download', 'compare'];
 const actions: UserAction[] = actionTypes.map((value) => ({
 	label: value,
 	disabled: false,
@@ -18,7 +18,7 @@ vi.stubGlobal(
 	})),
 );
 
-const actionTypes: WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download'];
+const actionTypes: WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download', 'compare'];
 const actions: UserAction[] = actionTypes.map((value) => ({
 	label: value,
 	disabled: false,
@@ -6,7 +6,7 @@ import WorkflowHistoryListItem from '@/components/WorkflowHistory/WorkflowHistor
 import type { WorkflowHistoryActionTypes } from '@/types/workflowHistory';
 import { workflowHistoryDataFactory } from '@/stores/__tests__/utils/workflowHistoryTestUtils';
 
-const actionTypes: WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download'];
+const actionTypes: WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download', 'compare'];
 const actions: UserAction[] = actionTypes.map((value) => ({
 	label: value,
 	disabled: false,
@@ -6,6 +6,13 @@ import { useSSOStore } from '@/stores/sso.store';
 import { SETTINGS_STORE_DEFAULT_STATE } from '@/__tests__/utils';
 import { afterEach } from 'vitest';
 import { createComponentRenderer } from '@/__tests__/render';
+import userEvent from '@testing-library/user-event';
+
+vi.mock('vue-router', () => ({
+	useRoute: vi.fn(() => ({
+		query: { redirect: '/workflow/1' },
+	})),
+}));
 
 let pinia: ReturnType<typeof createTestingPinia>;
 let ssoStore: ReturnType<typeof useSSOStore>;
@@ -46,4 +53,12 @@ describe('SSOLogin', () => {
 		const { queryByRole } = renderComponent({ pinia });
 		expect(queryByRole('button')).toBeInTheDocument();
 	});
+
+	it('should start the SSO login with the page to return to', async () => {
+		vi.spyOn(ssoStore, 'showSsoLoginButton', 'get').mockReturnValue(true);
+		vi.mocked(ssoStore.getSSORedirectUrl).mockResolvedValue('#sso');
+		const { getByRole } = renderComponent({ pinia });
+		await userEvent.click(getByRole('button'));
+		expect(ssoStore.getSSORedirectUrl).toHaveBeenCalledWith('/workflow/1');
+	});
 });
@@ -65,9 +65,14 @@ export function useExecutionHelpers() {
 		return ['crashed', 'error'].includes(execution.status) && !execution.retrySuccessId;
 	}
 
+	function isExecutionResumable(execution: ExecutionSummary): boolean {
+		return execution.status === 'crashed' && !execution.retrySuccessId;
+	}
+
 	return {
 		getUIDetails,
 		formatDate,
 		isExecutionRetriable,
+		isExecutionResumable,
 	};
 }
@@ -794,6 +794,14 @@ export function useWorkflowHelpers(options: { router: ReturnType<typeof useRoute
 				workflowDataRequest,
 				forceSave,
 			);
+
+			if (workflowData.merged) {
+				// Load the changes saved concurrently by someone else, so that the next save
+				// based on the new version does not revert them
+				workflowsStore.setNodes(workflowData.nodes);
+				workflowsStore.setConnections(workflowData.connections);
+			}
+
 			workflowsStore.setWorkflowVersionId(workflowData.versionId);
 
 			if (name) {
@@ -806,6 +814,14 @@ export function useWorkflowHelpers(options: { router: ReturnType<typeof useRoute
 				workflowsStore.setWorkflowTagIds(tagIds);
 			}
 
+			if (workflowData.merged) {
+				toast.showMessage({
+					title: i18n.baseText('workflows.concurrentChanges.merged.title'),
+					message: i18n.baseText('workflows.concurrentChanges.merged.message'),
+					type: 'info',
+				});
+			}
+
 			uiStore.stateIsDirty = false;
 			uiStore.removeActiveAction('workflowSaving');
 			void useExternalHooks().run('workflow.afterUpdate', { workflowData });
@@ -51,6 +51,7 @@ const ExecutionsView = async () => await import('@/views/ExecutionsView.vue');
 const VariablesView = async () => await import('@/views/VariablesView.vue');
 const SettingsUsageAndPlan = async () => await import('./views/SettingsUsageAndPlan.vue');
 const SettingsSso = async () => await import('./views/SettingsSso.vue');
+const SettingsOidc = async () => await import('./views/SettingsOidc.vue');
 const SignoutView = async () => await import('@/views/SignoutView.vue');
 const SamlOnboarding = async () => await import('@/views/SamlOnboarding.vue');
 const SettingsSourceControl = async () => await import('./views/SettingsSourceControl.vue');
@@ -596,6 +597,33 @@ export const routes: RouteRecordRaw[] = [
 					},
 				},
 			},
+			{
+				path: 'oidc',
+				name: VIEWS.OIDC_SETTINGS,
+				components: {
+					settingsView: SettingsOidc,
+				},
+				meta: {
+					middleware: ['authenticated', 'rbac', 'custom'],
+					middlewareOptions: {
+						custom: () => {
+							const settingsStore = useSettingsStore();
+							return !settingsStore.isDesktopDeployment;
+						},
+						rbac: {
+							scope: 'oidc:manage',
+						},
+					},
+					telemetry: {
+						pageCategory: 'settings',
+						getProperties() {
+							return {
+								feature: 'oidc',
+							};
+						},
+					},
+				},
+			},
 			{
 				path: 'log-streaming',
 				name: VIEWS.LOG_STREAMING_SETTINGS,
@@ -694,7 +722,7 @@ export const routes: RouteRecordRaw[] = [
 					const settingsStore = useSettingsStore();
 					const ssoStore = useSSOStore();
 					return (
-						ssoStore.isEnterpriseSamlEnabled &&
+						(ssoStore.isEnterpriseSamlEnabled || ssoStore.isEnterpriseOidcEnabled) &&
 						!settingsStore.isCloudDeployment &&
 						!settingsStore.isDesktopDeployment
 					);
@@ -45,4 +45,32 @@ describe('SSO store', () => {
 			expect(ssoStore.showSsoLoginButton).toBe(expectation);
 		},
 	);
+
+	test.each([
+		['oidc', true, true, true],
+		['oidc', false, true, false],
+		['oidc', true, false, false],
+		['saml', true, true, false],
+	])(
+		'should check OIDC login button availability when authenticationMethod is %s and enterprise feature is %s and oidc login is set to %s',
+		(authenticationMethod, oidc, loginEnabled, expectation) => {
+			settingsStore.setSettings(
+				merge({}, DEFAULT_SETTINGS, {
+					userManagement: {
+						authenticationMethod,
+					},
+					enterprise: {
+						oidc,
+					},
+					sso: {
+						oidc: {
+							loginEnabled,
+						},
+					},
+				}),
+			);
+
+			expect(ssoStore.showSsoLoginButton).toBe(expectation);
+		},
+	);
 });
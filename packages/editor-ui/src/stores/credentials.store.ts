@@ -341,6 +341,15 @@ export const useCredentialsStore = defineStore(STORES.CREDENTIALS, () => {
 		return credential;
 	};
 
+	const rotateCredential = async (id: string): Promise<ICredentialsResponse> => {
+		const rootStore = useRootStore();
+		const credential = await credentialsApi.rotateCredential(rootStore.restApiContext, id);
+
+		upsertCredential(credential);
+
+		return credential;
+	};
+
 	const deleteCredential = async ({ id }: { id: string }) => {
 		const rootStore = useRootStore();
 		const deleted = await credentialsApi.deleteCredential(rootStore.restApiContext, id);
@@ -441,6 +450,7 @@ export const useCredentialsStore = defineStore(STORES.CREDENTIALS, () => {
 		fetchAllCredentialsForWorkflow,
 		createNewCredential,
 		updateCredential,
+		rotateCredential,
 		getCredentialData,
 		oAuth1Authorize,
 		oAuth2Authorize,
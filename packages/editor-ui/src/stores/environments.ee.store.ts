@@ -4,11 +4,13 @@ import type { EnvironmentVariable } from '@/Interface';
 import * as environmentsApi from '@/api/environments.ee';
 import { useRootStore } from '@/stores/root.store';
 import { ExpressionError } from 'n8n-workflow';
+import type { SecretUsage } from 'n8n-workflow';
 
 export const useEnvironmentsStore = defineStore('environments', () => {
 	const rootStore = useRootStore();
 
 	const variables = ref<EnvironmentVariable[]>([]);
+	const usage = ref<Record<string, SecretUsage>>({});
 
 	async function fetchAllVariables() {
 		const data = await environmentsApi.getVariables(rootStore.restApiContext);
@@ -18,6 +20,14 @@ export const useEnvironmentsStore = defineStore('environments', () => {
 		return data;
 	}
 
+	async function fetchVariablesUsage() {
+		const data = await environmentsApi.getVariablesUsage(rootStore.restApiContext);
+
+		usage.value = Object.fromEntries(data.map((u) => [u.key, u]));
+
+		return data;
+	}
+
 	async function createVariable(variable: Omit<EnvironmentVariable, 'id'>) {
 		const data = await environmentsApi.createVariable(rootStore.restApiContext, variable);
 
@@ -63,7 +73,9 @@ export const useEnvironmentsStore = defineStore('environments', () => {
 	return {
 		variables,
 		variablesAsObject,
+		usage,
 		fetchAllVariables,
+		fetchVariablesUsage,
 		createVariable,
 		updateVariable,
 		deleteVariable,
@@ -4,6 +4,10 @@ import type { IDataObject, ExecutionSummary } from 'n8n-workflow';
 import type {
 	ExecutionFilterType,
 	ExecutionsQueryFilter,
+	IDeadLetterEntry,
+	IDeadLetterFilter,
+	IDeadLetterListResponse,
+	IDeadLetterReplayResponse,
 	IExecutionDeleteFilter,
 	IExecutionFlattedResponse,
 	IExecutionResponse,
@@ -57,6 +61,9 @@ export const useExecutionsStore = defineStore('executions', () => {
 		}, {}),
 	);
 
+	const deadLetters = ref<IDeadLetterEntry[]>([]);
+	const deadLettersCount = ref(0);
+
 	const currentExecutionsById = ref<Record<string, ExecutionSummary>>({});
 	const currentExecutions = computed(() => {
 		const data = Object.values(currentExecutionsById.value);
@@ -205,6 +212,10 @@ export const useExecutionsStore = defineStore('executions', () => {
 		);
 	}
 
+	async function resumeExecution(id: string): Promise<void> {
+		await makeRestApiRequest(rootStore.restApiContext, 'POST', `/executions/${id}/resume`);
+	}
+
 	async function deleteExecutions(sendData: IExecutionDeleteFilter): Promise<void> {
 		await makeRestApiRequest(
 			rootStore.restApiContext,
@@ -227,11 +238,54 @@ export const useExecutionsStore = defineStore('executions', () => {
 		}
 	}
 
+	async function fetchDeadLetters(filter: IDeadLetterFilter = {}): Promise<IDeadLetterEntry[]> {
+		const data = await makeRestApiRequest<IDeadLetterListResponse>(
+			rootStore.restApiContext,
+			'GET',
+			'/executions/dead-letter',
+			filter as IDataObject,
+		);
+
+		deadLetters.value = data.results;
+		deadLettersCount.value = data.count;
+
+		return data.results;
+	}
+
+	async function replayDeadLetters(ids: string[]): Promise<IDeadLetterReplayResponse> {
+		const result = await makeRestApiRequest<IDeadLetterReplayResponse>(
+			rootStore.restApiContext,
+			'POST',
+			'/executions/dead-letter/replay',
+			{ ids },
+		);
+
+		deadLetters.value = deadLetters.value.map((entry) =>
+			result.replayed.includes(entry.id) ? { ...entry, status: 'replayed' } : entry,
+		);
+
+		return result;
+	}
+
+	async function discardDeadLetters(ids: string[]): Promise<void> {
+		const discarded = await makeRestApiRequest<string[]>(
+			rootStore.restApiContext,
+			'POST',
+			'/executions/dead-letter/discard',
+			{ ids },
+		);
+
+		deadLetters.value = deadLetters.value.filter((entry) => !discarded.includes(entry.id));
+		deadLettersCount.value = Math.max(0, deadLettersCount.value - discarded.length);
+	}
+
 	function resetData() {
 		executionsById.value = {};
 		currentExecutionsById.value = {};
 		executionsCount.value = 0;
 		executionsCountEstimated.value = false;
+		deadLetters.value = [];
+		deadLettersCount.value = 0;
 	}
 
 	function reset() {
@@ -266,7 +320,13 @@ export const useExecutionsStore = defineStore('executions', () => {
 		allExecutions,
 		stopCurrentExecution,
 		retryExecution,
+		resumeExecution,
 		deleteExecutions,
+		deadLetters,
+		deadLettersCount,
+		fetchDeadLetters,
+		replayDeadLetters,
+		discardDeadLetters,
 		resetData,
 		reset,
 	};
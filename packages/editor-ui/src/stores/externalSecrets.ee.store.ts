@@ -7,6 +7,7 @@ import * as externalSecretsApi from '@/api/externalSecrets.ee';
 import { connectProvider } from '@/api/externalSecrets.ee';
 import { useRBACStore } from '@/stores/rbac.store';
 import type { ExternalSecretsProvider } from '@/Interface';
+import type { SecretUsage } from 'n8n-workflow';
 
 export const useExternalSecretsStore = defineStore('externalSecrets', () => {
 	const rootStore = useRootStore();
@@ -16,6 +17,7 @@ export const useExternalSecretsStore = defineStore('externalSecrets', () => {
 	const state = reactive({
 		providers: [] as ExternalSecretsProvider[],
 		secrets: {} as Record<string, string[]>,
+		usage: [] as SecretUsage[],
 		connectionState: {} as Record<string, ExternalSecretsProvider['state']>,
 	});
 
@@ -26,6 +28,7 @@ export const useExternalSecretsStore = defineStore('externalSecrets', () => {
 	const secrets = computed(() => state.secrets);
 	const providers = computed(() => state.providers);
 	const connectionState = computed(() => state.connectionState);
+	const usage = computed(() => state.usage);
 
 	const secretsAsObject = computed(() => {
 		return Object.keys(secrets.value).reduce<Record<string, Record<string, object | string>>>(
@@ -74,6 +77,12 @@ export const useExternalSecretsStore = defineStore('externalSecrets', () => {
 		}
 	}
 
+	async function fetchSecretsUsage() {
+		if (rbacStore.hasScope('externalSecret:list')) {
+			state.usage = await externalSecretsApi.getExternalSecretsUsage(rootStore.restApiContext);
+		}
+	}
+
 	async function reloadProvider(id: string) {
 		const { updated } = await externalSecretsApi.reloadProvider(rootStore.restApiContext, id);
 		if (updated) {
@@ -150,9 +159,11 @@ export const useExternalSecretsStore = defineStore('externalSecrets', () => {
 		providers,
 		secrets,
 		connectionState,
+		usage,
 		secretsAsObject,
 		isEnterpriseExternalSecretsEnabled,
 		fetchAllSecrets,
+		fetchSecretsUsage,
 		getProvider,
 		getProviders,
 		testProviderConnection,
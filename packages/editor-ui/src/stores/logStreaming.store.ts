@@ -1,7 +1,11 @@
-import type { MessageEventBusDestinationOptions } from 'n8n-workflow';
+import type {
+	MessageEventBusDestinationDeliveryStatus,
+	MessageEventBusDestinationOptions,
+} from 'n8n-workflow';
 import { defineStore } from 'pinia';
 import {
 	deleteDestinationFromDb,
+	getDestinationsDeliveryStatusFromBackend,
 	getDestinationsFromBackend,
 	getEventNamesFromBackend,
 	hasDestinationId,
@@ -36,6 +40,7 @@ export const useLogStreamingStore = defineStore('logStreaming', {
 	state: () => ({
 		items: {} as DestinationSettingsStore,
 		eventNames: new Set<string>(),
+		deliveryStatus: {} as Record<string, MessageEventBusDestinationDeliveryStatus>,
 	}),
 	getters: {},
 	actions: {
@@ -218,6 +223,12 @@ export const useLogStreamingStore = defineStore('logStreaming', {
 			const rootStore = useRootStore();
 			return await getDestinationsFromBackend(rootStore.restApiContext);
 		},
+		async fetchDeliveryStatus() {
+			const rootStore = useRootStore();
+			this.deliveryStatus = await getDestinationsDeliveryStatusFromBackend(
+				rootStore.restApiContext,
+			);
+		},
 		async deleteDestination(destinationId: string) {
 			const rootStore = useRootStore();
 			await deleteDestinationFromDb(rootStore.restApiContext, destinationId);
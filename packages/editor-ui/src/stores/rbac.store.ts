@@ -31,6 +31,8 @@ export const useRBACStore = defineStore(STORES.RBAC, () => {
 		license: {},
 		logStreaming: {},
 		saml: {},
+		oidc: {},
+		scim: {},
 		securityAudit: {},
 	});
 
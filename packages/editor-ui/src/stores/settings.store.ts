@@ -43,6 +43,7 @@ export const useSettingsStore = defineStore(STORES.SETTINGS, () => {
 	});
 	const ldap = ref({ loginLabel: '', loginEnabled: false });
 	const saml = ref({ loginLabel: '', loginEnabled: false });
+	const oidc = ref({ loginLabel: '', loginEnabled: false });
 	const mfa = ref({ enabled: false });
 	const saveDataErrorExecution = ref<WorkflowSettings.SaveDataExecution>('all');
 	const saveDataSuccessExecution = ref<WorkflowSettings.SaveDataExecution>('all');
@@ -88,6 +89,8 @@ export const useSettingsStore = defineStore(STORES.SETTINGS, () => {
 
 	const isSamlLoginEnabled = computed(() => saml.value.loginEnabled);
 
+	const isOidcLoginEnabled = computed(() => oidc.value.loginEnabled);
+
 	const showSetupPage = computed(() => userManagement.value.showSetupOnFirstLoad);
 
 	const deploymentType = computed(() => settings.value.deployment?.type || 'default');
@@ -148,6 +151,10 @@ export const useSettingsStore = defineStore(STORES.SETTINGS, () => {
 		() => userManagement.value.authenticationMethod === UserManagementAuthenticationMethod.Saml,
 	);
 
+	const isDefaultAuthenticationOidc = computed(
+		() => userManagement.value.authenticationMethod === UserManagementAuthenticationMethod.Oidc,
+	);
+
 	const permanentlyDismissedBanners = computed(() => settings.value.banners?.dismissed ?? []);
 
 	const isBelowUserQuota = computed(
@@ -176,6 +183,10 @@ export const useSettingsStore = defineStore(STORES.SETTINGS, () => {
 			saml.value.loginEnabled = settings.value.sso.saml.loginEnabled;
 			saml.value.loginLabel = settings.value.sso.saml.loginLabel;
 		}
+		if (settings.value.sso?.oidc) {
+			oidc.value.loginEnabled = settings.value.sso.oidc.loginEnabled;
+			oidc.value.loginLabel = settings.value.sso.oidc.loginLabel;
+		}
 
 		mfa.value.enabled = settings.value.mfa?.enabled;
 
@@ -371,6 +382,7 @@ export const useSettingsStore = defineStore(STORES.SETTINGS, () => {
 		api,
 		ldap,
 		saml,
+		oidc,
 		mfa,
 		isDocker,
 		isDevRelease,
@@ -391,6 +403,7 @@ export const useSettingsStore = defineStore(STORES.SETTINGS, () => {
 		isLdapLoginEnabled,
 		ldapLoginLabel,
 		isSamlLoginEnabled,
+		isOidcLoginEnabled,
 		showSetupPage,
 		deploymentType,
 		isDesktopDeployment,
@@ -413,6 +426,7 @@ export const useSettingsStore = defineStore(STORES.SETTINGS, () => {
 		isQueueModeEnabled,
 		isWorkerViewAvailable,
 		isDefaultAuthenticationSaml,
+		isDefaultAuthenticationOidc,
 		workflowCallerPolicyDefaultOption,
 		permanentlyDismissedBanners,
 		isBelowUserQuota,
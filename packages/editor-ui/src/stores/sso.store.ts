@@ -4,7 +4,12 @@ import { EnterpriseEditionFeature } from '@/constants';
 import { useRootStore } from '@/stores/root.store';
 import { useSettingsStore } from '@/stores/settings.store';
 import * as ssoApi from '@/api/sso';
-import type { SamlPreferences, SamlPreferencesExtractedData } from '@/Interface';
+import type {
+	OidcPreferences,
+	OidcPreferencesExtractedData,
+	SamlPreferences,
+	SamlPreferencesExtractedData,
+} from '@/Interface';
 import { updateCurrentUser } from '@/api/users';
 import { useUsersStore } from '@/stores/users.store';
 
@@ -16,12 +21,15 @@ export const useSSOStore = defineStore('sso', () => {
 	const state = reactive({
 		loading: false,
 		samlConfig: undefined as (SamlPreferences & SamlPreferencesExtractedData) | undefined,
+		oidcConfig: undefined as (OidcPreferences & OidcPreferencesExtractedData) | undefined,
 	});
 
 	const isLoading = computed(() => state.loading);
 
 	const samlConfig = computed(() => state.samlConfig);
 
+	const oidcConfig = computed(() => state.oidcConfig);
+
 	const setLoading = (loading: boolean) => {
 		state.loading = loading;
 	};
@@ -46,14 +54,42 @@ export const useSSOStore = defineStore('sso', () => {
 		() => settingsStore.isEnterpriseFeatureEnabled[EnterpriseEditionFeature.Saml],
 	);
 	const isDefaultAuthenticationSaml = computed(() => settingsStore.isDefaultAuthenticationSaml);
+
+	const isOidcLoginEnabled = computed({
+		get: () => settingsStore.isOidcLoginEnabled,
+		set: (value: boolean) => {
+			settingsStore.setSettings({
+				...settingsStore.settings,
+				sso: {
+					...settingsStore.settings.sso,
+					oidc: {
+						...settingsStore.settings.sso.oidc,
+						loginEnabled: value,
+					},
+				},
+			});
+			void toggleOidcLoginEnabled(value);
+		},
+	});
+	const isEnterpriseOidcEnabled = computed(
+		() => settingsStore.isEnterpriseFeatureEnabled[EnterpriseEditionFeature.Oidc],
+	);
+	const isDefaultAuthenticationOidc = computed(() => settingsStore.isDefaultAuthenticationOidc);
+
 	const showSsoLoginButton = computed(
 		() =>
-			isSamlLoginEnabled.value &&
-			isEnterpriseSamlEnabled.value &&
-			isDefaultAuthenticationSaml.value,
+			(isSamlLoginEnabled.value &&
+				isEnterpriseSamlEnabled.value &&
+				isDefaultAuthenticationSaml.value) ||
+			(isOidcLoginEnabled.value &&
+				isEnterpriseOidcEnabled.value &&
+				isDefaultAuthenticationOidc.value),
 	);
 
-	const getSSORedirectUrl = async () => await ssoApi.initSSO(rootStore.restApiContext);
+	const getSSORedirectUrl = async (redirect?: string) =>
+		isDefaultAuthenticationOidc.value
+			? await ssoApi.initOidcLogin(rootStore.restApiContext, redirect)
+			: await ssoApi.initSSO(rootStore.restApiContext);
 
 	const toggleLoginEnabled = async (enabled: boolean) =>
 		await ssoApi.toggleSamlConfig(rootStore.restApiContext, { loginEnabled: enabled });
@@ -68,6 +104,18 @@ export const useSSOStore = defineStore('sso', () => {
 		await ssoApi.saveSamlConfig(rootStore.restApiContext, config);
 	const testSamlConfig = async () => await ssoApi.testSamlConfig(rootStore.restApiContext);
 
+	const toggleOidcLoginEnabled = async (enabled: boolean) =>
+		await ssoApi.toggleOidcConfig(rootStore.restApiContext, { loginEnabled: enabled });
+
+	const getOidcConfig = async () => {
+		const oidcConfig = await ssoApi.getOidcConfig(rootStore.restApiContext);
+		state.oidcConfig = oidcConfig;
+		return oidcConfig;
+	};
+	const saveOidcConfig = async (config: OidcPreferences) =>
+		await ssoApi.saveOidcConfig(rootStore.restApiContext, config);
+	const testOidcConfig = async () => await ssoApi.testOidcConfig(rootStore.restApiContext);
+
 	const updateUser = async (params: { firstName: string; lastName: string }) =>
 		await updateCurrentUser(rootStore.restApiContext, {
 			id: usersStore.currentUser!.id,
@@ -90,6 +138,13 @@ export const useSSOStore = defineStore('sso', () => {
 		getSamlConfig,
 		saveSamlConfig,
 		testSamlConfig,
+		isOidcLoginEnabled,
+		isEnterpriseOidcEnabled,
+		isDefaultAuthenticationOidc,
+		oidcConfig,
+		getOidcConfig,
+		saveOidcConfig,
+		testOidcConfig,
 		updateUser,
 		userData,
 	};
@@ -7,6 +7,7 @@ import type {
 	WorkflowVersion,
 	WorkflowHistoryRequestParams,
 	WorkflowVersionId,
+	WorkflowVersionDiff,
 } from '@/types/workflowHistory';
 import * as whApi from '@/api/workflowHistory';
 import { useRootStore } from '@/stores/root.store';
@@ -38,6 +39,13 @@ export const useWorkflowHistoryStore = defineStore('workflowHistory', () => {
 	): Promise<WorkflowVersion> =>
 		await whApi.getWorkflowVersion(rootStore.restApiContext, workflowId, versionId);
 
+	const getWorkflowDiff = async (
+		workflowId: string,
+		fromVersionId: string,
+		toVersionId?: string,
+	): Promise<WorkflowVersionDiff> =>
+		await whApi.getWorkflowDiff(rootStore.restApiContext, workflowId, fromVersionId, toVersionId);
+
 	const downloadVersion = async (
 		workflowId: string,
 		workflowVersionId: WorkflowVersionId,
@@ -103,6 +111,7 @@ export const useWorkflowHistoryStore = defineStore('workflowHistory', () => {
 	return {
 		getWorkflowHistory,
 		getWorkflowVersion,
+		getWorkflowDiff,
 		downloadVersion,
 		cloneIntoNewWorkflow,
 		restoreWorkflow,
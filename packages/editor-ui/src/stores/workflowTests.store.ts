@@ -0,0 +1,59 @@
+import { ref } from 'vue';
+import { defineStore } from 'pinia';
+import type { WorkflowTest } from 'n8n-workflow';
+import type { WorkflowTestCase, WorkflowTestCasePayload } from '@/types/workflowTests';
+import * as workflowTestsApi from '@/api/workflowTests';
+import { useRootStore } from '@/stores/root.store';
+
+export const useWorkflowTestsStore = defineStore('workflowTests', () => {
+	const rootStore = useRootStore();
+
+	const testCases = ref<WorkflowTestCase[]>([]);
+	const resultsById = ref<Record<string, WorkflowTest.CaseResult>>({});
+
+	const fetchTestCases = async (workflowId: string) => {
+		testCases.value = await workflowTestsApi.getWorkflowTests(rootStore.restApiContext, workflowId);
+		resultsById.value = {};
+
+		return testCases.value;
+	};
+
+	const createTestCase = async (workflowId: string, payload: WorkflowTestCasePayload) => {
+		const testCase = await workflowTestsApi.createWorkflowTest(
+			rootStore.restApiContext,
+			workflowId,
+			payload,
+		);
+		testCases.value.push(testCase);
+
+		return testCase;
+	};
+
+	const deleteTestCase = async (workflowId: string, testCaseId: string) => {
+		await workflowTestsApi.deleteWorkflowTest(rootStore.restApiContext, workflowId, testCaseId);
+		testCases.value = testCases.value.filter(({ id }) => id !== testCaseId);
+	};
+
+	const runTestCases = async (workflowId: string, testCaseIds?: string[]) => {
+		const suite = await workflowTestsApi.runWorkflowTests(
+			rootStore.restApiContext,
+			workflowId,
+			testCaseIds,
+		);
+
+		for (const result of suite.results) {
+			resultsById.value[result.testCaseId] = result;
+		}
+
+		return suite;
+	};
+
+	return {
+		testCases,
+		resultsById,
+		fetchTestCases,
+		createTestCase,
+		deleteTestCase,
+		runTestCases,
+	};
+});
@@ -1,4 +1,4 @@
-import type { IConnections } from 'n8n-workflow';
+import type { IConnections, WorkflowDiff } from 'n8n-workflow';
 import type { INodeUi } from '@/Interface';
 
 export type WorkflowHistory = {
@@ -16,6 +16,8 @@ export type WorkflowVersion = WorkflowHistory & {
 	connections: IConnections;
 };
 
-export type WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download'];
+export type WorkflowHistoryActionTypes = ['restore', 'clone', 'open', 'download', 'compare'];
+
+export type WorkflowVersionDiff = WorkflowDiff.Result;
 
 export type WorkflowHistoryRequestParams = { take: number; skip?: number };
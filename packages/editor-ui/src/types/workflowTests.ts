@@ -0,0 +1,13 @@
+import type { IPinData, WorkflowTest } from 'n8n-workflow';
+
+export type WorkflowTestCase = {
+	id: string;
+	workflowId: string;
+	name: string;
+	pinData: IPinData;
+	assertions: WorkflowTest.Assertion[];
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type WorkflowTestCasePayload = Pick<WorkflowTestCase, 'name' | 'pinData' | 'assertions'>;
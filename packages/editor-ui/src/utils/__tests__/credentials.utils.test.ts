@@ -0,0 +1,16 @@
+import { isCredentialExpiringSoon } from '@/utils/credentials.utils';
+
+describe('isCredentialExpiringSoon', () => {
+	const now = new Date('2024-08-01T00:00:00.000Z');
+
+	test.each([
+		[null, false],
+		[undefined, false],
+		['2024-07-01T00:00:00.000Z', true],
+		['2024-08-10T00:00:00.000Z', true],
+		['2024-08-15T00:00:00.000Z', true],
+		['2024-08-16T00:00:00.000Z', false],
+	])('expiring at %s should be %s', (expiresAt, expected) => {
+		expect(isCredentialExpiringSoon(expiresAt, 14, now)).toBe(expected);
+	});
+});
@@ -0,0 +1,12 @@
+import { TIME } from '@/constants';
+
+// Whether a credential expires, or has expired, within the warning period set on the instance
+export const isCredentialExpiringSoon = (
+	expiresAt: string | null | undefined,
+	warningDays: number,
+	now = new Date(),
+): boolean => {
+	if (!expiresAt) return false;
+
+	return new Date(expiresAt).getTime() <= now.getTime() + warningDays * TIME.DAY;
+};
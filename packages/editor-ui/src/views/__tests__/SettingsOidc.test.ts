@@ -0,0 +1,89 @@
+import { createPinia, setActivePinia } from 'pinia';
+import SettingsOidc from '@/views/SettingsOidc.vue';
+
+import { retry } from '@/__tests__/utils';
+import { setupServer } from '@/__tests__/server';
+import { afterAll, beforeAll } from 'vitest';
+import { useSettingsStore } from '@/stores/settings.store';
+import { useProjectsStore } from '@/stores/projects.store';
+import userEvent from '@testing-library/user-event';
+import { createComponentRenderer } from '@/__tests__/render';
+import { EnterpriseEditionFeature } from '@/constants';
+import { nextTick } from 'vue';
+
+let pinia: ReturnType<typeof createPinia>;
+let settingsStore: ReturnType<typeof useSettingsStore>;
+let server: ReturnType<typeof setupServer>;
+
+const renderComponent = createComponentRenderer(SettingsOidc);
+
+describe('SettingsOidc', () => {
+	beforeAll(() => {
+		server = setupServer();
+	});
+
+	beforeEach(async () => {
+		window.open = vi.fn();
+
+		pinia = createPinia();
+		setActivePinia(pinia);
+
+		settingsStore = useSettingsStore();
+		vi.spyOn(useProjectsStore(), 'getAllProjects').mockResolvedValue();
+
+		await settingsStore.getSettings();
+	});
+
+	afterEach(() => {
+		vi.clearAllMocks();
+	});
+
+	afterAll(() => {
+		server.shutdown();
+	});
+
+	it('should render paywall state when there is no license', () => {
+		const { getByTestId, queryByTestId, queryByRole } = renderComponent({
+			pinia,
+		});
+
+		expect(queryByRole('switch')).not.toBeInTheDocument();
+		expect(queryByTestId('oidc-content-licensed')).not.toBeInTheDocument();
+		expect(getByTestId('oidc-content-unlicensed')).toBeInTheDocument();
+	});
+
+	it('should enable activation switch and test button if data is already saved', async () => {
+		settingsStore.settings.enterprise[EnterpriseEditionFeature.Oidc] = true;
+		await nextTick();
+
+		const { container, getByTestId, getByRole } = renderComponent({
+			pinia,
+		});
+
+		await retry(() =>
+			expect(container.querySelector('input[name="discoveryUrl"]')).toHaveValue(
+				'https://idp.example.com/realms/n8n',
+			),
+		);
+
+		expect(getByRole('switch')).toBeEnabled();
+		expect(getByTestId('oidc-test')).toBeEnabled();
+		expect(getByTestId('oidc-save')).toBeDisabled();
+	});
+
+	it('should allow saving after adding a role mapping rule', async () => {
+		settingsStore.settings.enterprise[EnterpriseEditionFeature.Oidc] = true;
+		await nextTick();
+
+		const { container, getByTestId } = renderComponent({
+			pinia,
+		});
+
+		await retry(() => expect(container.querySelector('input[name="clientId"]')).toHaveValue('n8n'));
+
+		await userEvent.click(getByTestId('oidc-add-role-rule'));
+
+		expect(getByTestId('oidc-save')).toBeEnabled();
+		expect(getByTestId('oidc-test')).toBeDisabled();
+	});
+});
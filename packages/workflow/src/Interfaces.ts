@@ -1097,6 +1097,25 @@ export interface INode {
 	credentials?: INodeCredentials;
 	webhookId?: string;
 	extendsCredential?: string;
+	triggerPolicy?: INodeTriggerPolicy;
+}
+
+/**
+ * Policy to collapse bursts of events of a trigger or webhook node into fewer executions.
+ *
+ * - `debounce`: run once no further event arrived for `window` ms, or `maxWait` ms passed since the first one, with all items received
+ * - `throttle`: run on the first event, then at most once per `window` ms with the items received meanwhile
+ * - `coalesce`: run once `window` ms after the first event, with all items received
+ */
+export interface INodeTriggerPolicy {
+	mode: 'debounce' | 'throttle' | 'coalesce';
+	window: number;
+	/** Expression evaluated per item to group events, e.g. `={{ $json.recordId }}` */
+	key?: string;
+	/** Max items batched into one execution, reaching it closes the window early */
+	maxItems?: number;
+	/** Max ms a debounced batch waits after its first event, 10 windows by default */
+	maxWait?: number;
 }
 
 export interface IPinData {
@@ -2200,6 +2219,7 @@ export interface IWorkflowExecuteAdditionalData {
 		},
 	) => Promise<void>;
 	parentCallbackManager?: CallbackManager;
+	httpRecording?: HttpRecording.Session;
 }
 
 export type WorkflowExecuteMode =
@@ -2228,6 +2248,37 @@ export interface IWorkflowHooksOptionalParameters {
 export namespace WorkflowSettings {
 	export type CallerPolicy = 'any' | 'none' | 'workflowsFromAList' | 'workflowsFromSameOwner';
 	export type SaveDataExecution = 'DEFAULT' | 'all' | 'none';
+	export type Priority = 'critical' | 'normal' | 'bulk';
+
+	/**
+	 * Whether manual executions record the HTTP exchanges of request helpers,
+	 * or are served with the exchanges recorded before, without network access.
+	 */
+	export type HttpRecording = 'off' | 'record' | 'replay';
+
+	/**
+	 * Class of error a failed execution can be retried for:
+	 * - `rateLimit`: `NodeApiError` with HTTP status 429
+	 * - `serverError`: `NodeApiError` with HTTP status 5xx
+	 * - `network`: `NodeApiError` without HTTP status or `NodeOperationError`, of a failed connection or a timeout
+	 * - `any`: any error
+	 */
+	export type RetryableError = 'rateLimit' | 'serverError' | 'network' | 'any';
+
+	export interface RetryPolicy {
+		/** Total number of attempts, including the original execution */
+		maxAttempts: number;
+		/** Delay before the first retry, in milliseconds */
+		initialDelay: number;
+		/** Multiplier applied to the delay after every retry, defaults to 2 */
+		backoffFactor?: number;
+		/** Upper bound for the delay, in milliseconds */
+		maxDelay?: number;
+		/** Whether to randomize each delay between half and all of its value */
+		jitter?: boolean;
+		/** Classes of errors to retry for, defaults to `rateLimit`, `serverError` and `network` */
+		retryOn?: RetryableError[];
+	}
 }
 
 export interface IWorkflowSettings {
@@ -2241,6 +2292,10 @@ export interface IWorkflowSettings {
 	saveExecutionProgress?: 'DEFAULT' | boolean;
 	executionTimeout?: number;
 	executionOrder?: 'v0' | 'v1';
+	concurrencyLimit?: number;
+	priority?: WorkflowSettings.Priority;
+	retryPolicy?: WorkflowSettings.RetryPolicy;
+	httpRecording?: WorkflowSettings.HttpRecording;
 }
 
 export interface WorkflowFEMeta {
@@ -2279,6 +2334,118 @@ export interface WorkflowTestData {
 	};
 }
 
+/**
+ * Structural differences between two versions of a workflow, with nodes matched by ID
+ * and connections described by the names of the nodes they connect.
+ */
+export namespace WorkflowDiff {
+	export interface PropertyChange {
+		/** Path to the changed property of the node, e.g. `['parameters', 'url']` */
+		path: string[];
+		before?: unknown;
+		after?: unknown;
+	}
+
+	export interface NodeChange {
+		id: string;
+		name: string;
+		changes: PropertyChange[];
+	}
+
+	export interface Connection {
+		source: string;
+		type: NodeConnectionType;
+		sourceOutput: number;
+		target: string;
+		targetInput: number;
+	}
+
+	export interface Result {
+		nodes: { added: INode[]; removed: INode[]; changed: NodeChange[] };
+		connections: { added: Connection[]; removed: Connection[] };
+	}
+
+	/** Property of a node changed differently by both sides of a three-way merge */
+	export interface Conflict {
+		nodeId: string;
+		nodeName: string;
+		path: string[];
+		ours?: unknown;
+		theirs?: unknown;
+	}
+}
+
+/**
+ * HTTP exchanges made through the request helpers of nodes, recorded during one
+ * execution of a workflow and replayed in later executions instead of the requests.
+ */
+export namespace HttpRecording {
+	export type Mode = 'record' | 'replay';
+
+	export interface Request {
+		method: string;
+		url: string;
+		qs?: IDataObject;
+	}
+
+	export interface Exchange {
+		nodeName: string;
+		request: Request;
+		response: unknown;
+	}
+
+	export interface Session {
+		mode: Mode;
+		exchanges: Exchange[];
+	}
+}
+
+/**
+ * Test cases users define for their own workflows, run with pin data for the trigger
+ * node and for any mocked nodes, and asserting on the outputs of specified nodes.
+ */
+export namespace WorkflowTest {
+	/**
+	 * - `equals`: the JSON of the output items equals `expected`
+	 * - `contains`: each output item contains the JSON of the `expected` item at its index
+	 * - `itemCount`: the number of output items equals `expected`
+	 * - `executed`: the node was executed
+	 * - `notExecuted`: the node was not executed
+	 */
+	export type AssertionType = 'equals' | 'contains' | 'itemCount' | 'executed' | 'notExecuted';
+
+	export interface Assertion {
+		nodeName: string;
+		type: AssertionType;
+		expected?: IDataObject[] | number;
+		/** Output of the node to assert on, defaults to 0 */
+		outputIndex?: number;
+	}
+
+	export type Status = 'passed' | 'failed' | 'error';
+
+	export interface CaseResult {
+		testCaseId: string;
+		name: string;
+		status: Status;
+		durationMs: number;
+		failures: Array<{ assertion: Assertion; message: string }>;
+		/** Message of the error that prevented the test case from running to completion */
+		error?: string;
+	}
+
+	export interface SuiteResult {
+		workflowId: string;
+		workflowName: string;
+		tests: number;
+		passed: number;
+		failed: number;
+		errors: number;
+		durationMs: number;
+		results: CaseResult[];
+	}
+}
+
 export type LogLevel = (typeof LOG_LEVELS)[number];
 export type Logger = Record<Exclude<LogLevel, 'silent'>, (message: string, meta?: object) => void>;
 
@@ -2660,6 +2827,10 @@ export interface IN8nUISettings {
 			loginLabel: string;
 			loginEnabled: boolean;
 		};
+		oidc: {
+			loginLabel: string;
+			loginEnabled: boolean;
+		};
 		ldap: {
 			loginLabel: string;
 			loginEnabled: boolean;
@@ -2690,6 +2861,7 @@ export interface IN8nUISettings {
 		sharing: boolean;
 		ldap: boolean;
 		saml: boolean;
+		oidc: boolean;
 		logStreaming: boolean;
 		advancedExecutionFilters: boolean;
 		variables: boolean;
@@ -2741,17 +2913,44 @@ export interface IN8nUISettings {
 	security: {
 		blockFileAccessToN8nFiles: boolean;
 	};
+	credentials: {
+		expiryWarningDays: number;
+	};
+}
+
+export interface SecretReference {
+	provider: string;
+	name: string;
 }
 
 export interface SecretsHelpersBase {
 	update(): Promise<void>;
 	waitForInit(): Promise<void>;
 
-	getSecret(provider: string, name: string): unknown;
+	/**
+	 * @param leaseScope Execution the secret is resolved for, to look up the secrets it leased
+	 */
+	getSecret(provider: string, name: string, leaseScope?: string): unknown;
 	hasSecret(provider: string, name: string): boolean;
 	hasProvider(provider: string): boolean;
 	listProviders(): string[];
 	listSecrets(provider: string): string[];
+
+	/** Issue the dynamic secrets among the references, for the execution to use until released */
+	leaseSecrets(leaseScope: string, references: SecretReference[]): Promise<void>;
+	releaseSecrets(leaseScope: string): Promise<void>;
+}
+
+export type SecretUsageType = 'externalSecret' | 'variable';
+
+export type SecretUsageResourceType = 'credential' | 'workflow';
+
+/** Credentials and workflows referencing an external secret or a variable */
+export interface SecretUsage {
+	/** `<provider>.<name>` of an external secret, or key of a variable */
+	key: string;
+	credentials: Array<{ id: string; name: string }>;
+	workflows: Array<{ id: string; name: string; nodes: string[] }>;
 }
 
 export type BannerName =
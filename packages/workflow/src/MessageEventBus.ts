@@ -20,6 +20,9 @@ export const enum MessageEventBusDestinationTypeNames {
 	webhook = '$$MessageEventBusDestinationWebhook',
 	sentry = '$$MessageEventBusDestinationSentry',
 	syslog = '$$MessageEventBusDestinationSyslog',
+	otlp = '$$MessageEventBusDestinationOtlp',
+	kafka = '$$MessageEventBusDestinationKafka',
+	file = '$$MessageEventBusDestinationFile',
 }
 
 export const messageEventBusDestinationTypeNames = [
@@ -27,6 +30,9 @@ export const messageEventBusDestinationTypeNames = [
 	MessageEventBusDestinationTypeNames.webhook,
 	MessageEventBusDestinationTypeNames.sentry,
 	MessageEventBusDestinationTypeNames.syslog,
+	MessageEventBusDestinationTypeNames.otlp,
+	MessageEventBusDestinationTypeNames.kafka,
+	MessageEventBusDestinationTypeNames.file,
 ];
 
 // ===============================
@@ -60,6 +66,54 @@ export interface MessageEventBusDestinationOptions {
 	subscribedEvents?: string[];
 	credentials?: INodeCredentials;
 	anonymizeAuditMessages?: boolean;
+	delivery?: MessageEventBusDestinationDeliveryOptions;
+	/** Only send the subscribed events that match all of these filters */
+	eventFilters?: MessageEventBusDestinationEventFilters;
+	/** Comma-separated payload fields to replace with `*`, e.g. `email, user.id` */
+	redactFields?: string;
+	/** Comma-separated payload fields to remove */
+	dropFields?: string;
+	/** JSON to replace the payload with, with `{{ $event.path.to.field }}` placeholders */
+	payloadTemplate?: string;
+}
+
+export interface MessageEventBusDestinationEventFilter {
+	/** Path of the event field to match, e.g. `payload.workflowId`, `payload.nodeType` or `projectId` */
+	field: string;
+	operator: 'equals' | 'notEquals' | 'contains' | 'notContains' | 'exists' | 'notExists';
+	/** Value to match, or comma-separated values for `equals` and `notEquals` */
+	value?: string;
+}
+
+export interface MessageEventBusDestinationEventFilters {
+	rules: MessageEventBusDestinationEventFilter[];
+}
+
+export interface MessageEventBusDestinationDeliveryOptions {
+	/** Max number of events sent to the destination at once */
+	batchSize?: number;
+	/** Time in ms to wait for a batch to fill up before sending it, `0` to send right away */
+	batchInterval?: number;
+	/** Delay in ms before retrying a failed batch, doubled on every further failure */
+	retryInitialDelay?: number;
+	/** Upper limit in ms for the retry delay */
+	retryMaxDelay?: number;
+	/** Max number of undelivered events to keep, dropping the oldest ones beyond it */
+	maxQueueSize?: number;
+}
+
+export interface MessageEventBusDestinationDeliveryStatus {
+	/** Number of events waiting to be delivered */
+	pending: number;
+	delivered: number;
+	dropped: number;
+	/** Number of failed attempts to deliver a batch */
+	failedAttempts: number;
+	/** Age in ms of the oldest undelivered event */
+	lag: number;
+	lastError?: string;
+	lastDeliveredAt?: string;
+	nextRetryAt?: string;
 }
 
 export interface MessageEventBusDestinationWebhookParameterItem {
@@ -133,10 +187,46 @@ export interface MessageEventBusDestinationSentryOptions extends MessageEventBus
 	sendPayload?: boolean;
 }
 
+export interface MessageEventBusDestinationOtlpOptions extends MessageEventBusDestinationOptions {
+	/** Base URL of the OpenTelemetry collector, without the `/v1/logs` path */
+	url: string;
+	serviceName?: string;
+	headerParameters?: MessageEventBusDestinationWebhookParameterItem;
+	sendPayload?: boolean;
+}
+
+export interface MessageEventBusDestinationKafkaOptions extends MessageEventBusDestinationOptions {
+	/** Comma-separated list of brokers, e.g. `kafka1:9092,kafka2:9092` */
+	brokers: string;
+	topic: string;
+	clientId?: string;
+	ssl?: boolean;
+	authentication?: boolean;
+	username?: string;
+	password?: string;
+	saslMechanism?: 'plain' | 'scram-sha-256' | 'scram-sha-512';
+}
+
+export interface MessageEventBusDestinationFileOptions extends MessageEventBusDestinationOptions {
+	/** Path of the NDJSON file to write to, relative to the folder of file destinations */
+	path: string;
+	maxFileSizeInKB?: number;
+	keepNumberOfFiles?: number;
+}
+
 // ==================================
 // Event Destination Default Settings
 // ==================================
 
+export const defaultMessageEventBusDestinationDeliveryOptions: Required<MessageEventBusDestinationDeliveryOptions> =
+	{
+		batchSize: 1,
+		batchInterval: 0,
+		retryInitialDelay: 1000,
+		retryMaxDelay: 300000,
+		maxQueueSize: 10000,
+	};
+
 export const defaultMessageEventBusDestinationOptions: MessageEventBusDestinationOptions = {
 	__type: MessageEventBusDestinationTypeNames.abstract,
 	id: '',
@@ -145,6 +235,7 @@ export const defaultMessageEventBusDestinationOptions: MessageEventBusDestinatio
 	subscribedEvents: ['n8n.audit', 'n8n.workflow'],
 	credentials: {},
 	anonymizeAuditMessages: false,
+	delivery: defaultMessageEventBusDestinationDeliveryOptions,
 };
 
 export const defaultMessageEventBusDestinationSyslogOptions: MessageEventBusDestinationSyslogOptions =
@@ -194,3 +285,37 @@ export const defaultMessageEventBusDestinationSentryOptions: MessageEventBusDest
 		dsn: 'https://',
 		sendPayload: true,
 	};
+
+export const defaultMessageEventBusDestinationOtlpOptions: MessageEventBusDestinationOtlpOptions = {
+	...defaultMessageEventBusDestinationOptions,
+	__type: MessageEventBusDestinationTypeNames.otlp,
+	label: 'OpenTelemetry Collector',
+	url: 'http://localhost:4318',
+	serviceName: 'n8n',
+	headerParameters: { parameters: [] },
+	sendPayload: true,
+};
+
+export const defaultMessageEventBusDestinationKafkaOptions: MessageEventBusDestinationKafkaOptions =
+	{
+		...defaultMessageEventBusDestinationOptions,
+		__type: MessageEventBusDestinationTypeNames.kafka,
+		label: 'Kafka Topic',
+		brokers: 'localhost:9092',
+		topic: 'n8n-events',
+		clientId: 'n8n',
+		ssl: false,
+		authentication: false,
+		username: '',
+		password: '',
+		saslMechanism: 'plain',
+	};
+
+export const defaultMessageEventBusDestinationFileOptions: MessageEventBusDestinationFileOptions = {
+	...defaultMessageEventBusDestinationOptions,
+	__type: MessageEventBusDestinationTypeNames.file,
+	label: 'Log File',
+	path: 'n8nEventStream.ndjson',
+	maxFileSizeInKB: 10240,
+	keepNumberOfFiles: 5,
+};